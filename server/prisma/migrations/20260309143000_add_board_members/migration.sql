@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "BoardRole" AS ENUM ('viewer', 'editor', 'admin');
+
+-- CreateTable
+CREATE TABLE "BoardMember" (
+    "id" TEXT NOT NULL,
+    "boardId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "BoardRole" NOT NULL DEFAULT 'editor',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BoardMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BoardMember_boardId_userId_key" ON "BoardMember"("boardId", "userId");
+
+-- CreateIndex
+CREATE INDEX "BoardMember_userId_idx" ON "BoardMember"("userId");
+
+-- AddForeignKey
+ALTER TABLE "BoardMember" ADD CONSTRAINT "BoardMember_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BoardMember" ADD CONSTRAINT "BoardMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing board owner becomes an admin member
+INSERT INTO "BoardMember" ("id", "boardId", "userId", "role", "createdAt", "updatedAt")
+SELECT 'bm_' || "id", "id", "userId", 'admin', NOW(), NOW() FROM "Board";
@@ -0,0 +1,19 @@
+-- Assignees and watchers used to hold ids from the client-side mock people
+-- dataset. Drop any that do not point at a member of the issue's board.
+UPDATE "Issue" i
+SET "assigneeId" = NULL
+WHERE "assigneeId" IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "BoardMember" m
+    WHERE m."boardId" = i."boardId" AND m."userId" = i."assigneeId"
+  );
+
+UPDATE "Issue" i
+SET "watcherIds" = ARRAY(
+  SELECT w FROM unnest(i."watcherIds") AS w
+  WHERE EXISTS (
+    SELECT 1 FROM "BoardMember" m
+    WHERE m."boardId" = i."boardId" AND m."userId" = w
+  )
+)
+WHERE cardinality(i."watcherIds") > 0;
@@ -0,0 +1,92 @@
+-- AlterTable
+ALTER TABLE "Board" ADD COLUMN "key" TEXT,
+ADD COLUMN "issueSeq" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: derive a prefix from the board name the way suggestBoardKey does
+-- (leading non-letters dropped, first word or all words joined if the first is
+-- a single character, four characters, BRD when nothing usable is left), then
+-- number repeats BASE, BASE2, BASE3, ... in creation order like nextFreeKey.
+WITH words AS (
+  SELECT
+    "id",
+    "createdAt",
+    REGEXP_REPLACE(REGEXP_REPLACE(UPPER("name"), '^[^A-Z]+', ''), '[^A-Z0-9]+', ' ', 'g') AS "spaced"
+  FROM "Board"
+),
+base AS (
+  SELECT
+    "id",
+    "createdAt",
+    LEFT(
+      CASE
+        WHEN LENGTH(SPLIT_PART("spaced", ' ', 1)) >= 2 THEN SPLIT_PART("spaced", ' ', 1)
+        ELSE REPLACE("spaced", ' ', '')
+      END,
+      4
+    ) AS "raw"
+  FROM words
+),
+prefixed AS (
+  SELECT
+    "id",
+    "createdAt",
+    CASE WHEN LENGTH("raw") >= 2 THEN "raw" ELSE 'BRD' END AS "prefix"
+  FROM base
+),
+candidates AS (
+  SELECT
+    "id",
+    "createdAt",
+    "prefix",
+    CASE WHEN "n" = 1 THEN "prefix" ELSE "prefix" || "n" END AS "candidate"
+  FROM (
+    SELECT *, ROW_NUMBER() OVER (PARTITION BY "prefix" ORDER BY "createdAt", "id") AS "n"
+    FROM prefixed
+  ) p
+),
+-- A numbered key can still equal another board's own prefix ("AB" + 2 and
+-- "AB2"). The earlier board keeps it; later ones are numbered past the number
+-- of boards, which no per-prefix counter reaches.
+deduped AS (
+  SELECT
+    "id",
+    "createdAt",
+    "prefix",
+    "candidate",
+    ROW_NUMBER() OVER (PARTITION BY "candidate" ORDER BY "createdAt", "id") AS "m"
+  FROM candidates
+),
+renumbered AS (
+  SELECT
+    "id",
+    "prefix" || ((SELECT COUNT(*) FROM "Board") + ROW_NUMBER() OVER (ORDER BY "createdAt", "id")) AS "key"
+  FROM deduped
+  WHERE "m" > 1
+)
+UPDATE "Board" b
+SET "key" = COALESCE(r."key", d."candidate")
+FROM deduped d
+LEFT JOIN renumbered r ON r."id" = d."id"
+WHERE b."id" = d."id";
+
+-- Renumber existing issues per board in creation order and move each
+-- board's sequence past the highest number used.
+WITH numbered AS (
+  SELECT
+    i."id",
+    b."key" || '-' || ROW_NUMBER() OVER (PARTITION BY i."boardId" ORDER BY i."createdAt", i."id") AS "newKey"
+  FROM "Issue" i
+  JOIN "Board" b ON b."id" = i."boardId"
+)
+UPDATE "Issue" i
+SET "key" = n."newKey"
+FROM numbered n
+WHERE i."id" = n."id";
+
+UPDATE "Board" b
+SET "issueSeq" = (SELECT COUNT(*) FROM "Issue" i WHERE i."boardId" = b."id");
+
+ALTER TABLE "Board" ALTER COLUMN "key" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Board_key_key" ON "Board"("key");
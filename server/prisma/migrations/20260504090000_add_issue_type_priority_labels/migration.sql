@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "IssueType" AS ENUM ('bug', 'story', 'task', 'epic');
+
+-- CreateEnum
+CREATE TYPE "IssuePriority" AS ENUM ('lowest', 'low', 'medium', 'high', 'highest');
+
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN "type" "IssueType" NOT NULL DEFAULT 'task',
+ADD COLUMN "priority" "IssuePriority" NOT NULL DEFAULT 'medium',
+ADD COLUMN "labels" TEXT[] DEFAULT ARRAY[]::TEXT[];
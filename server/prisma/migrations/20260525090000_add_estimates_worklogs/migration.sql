@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN "storyPoints" DOUBLE PRECISION,
+ADD COLUMN "originalEstimate" INTEGER,
+ADD COLUMN "remainingEstimate" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Worklog" (
+    "id" TEXT NOT NULL,
+    "issueId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "note" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Worklog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Worklog_issueId_date_idx" ON "Worklog"("issueId", "date");
+
+-- AddForeignKey
+ALTER TABLE "Worklog" ADD CONSTRAINT "Worklog_issueId_fkey" FOREIGN KEY ("issueId") REFERENCES "Issue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Worklog" ADD CONSTRAINT "Worklog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "NotificationKind" ADD VALUE 'due_soon';
+
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN "dueDate" DATE,
+ADD COLUMN "dueReminderFor" DATE;
+
+-- AlterTable
+ALTER TABLE "Notification" ALTER COLUMN "actorId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Issue_dueDate_idx" ON "Issue"("dueDate");
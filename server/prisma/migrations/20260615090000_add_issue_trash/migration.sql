@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN "archivedAt" TIMESTAMP(3),
+ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Issue_deletedAt_idx" ON "Issue"("deletedAt");
@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "StatusCategory" AS ENUM ('todo', 'in_progress', 'done');
+
+-- CreateTable
+CREATE TABLE "Status" (
+    "id" TEXT NOT NULL,
+    "boardId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" "StatusCategory" NOT NULL,
+    "order" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Status_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Status_boardId_name_key" ON "Status"("boardId", "name");
+
+-- CreateIndex
+CREATE INDEX "Status_boardId_idx" ON "Status"("boardId");
+
+-- AddForeignKey
+ALTER TABLE "Status" ADD CONSTRAINT "Status_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every board gets the workflow it had before, one status per category.
+INSERT INTO "Status" ("id", "boardId", "name", "category", "order")
+SELECT
+  b."id" || '_' || s."category",
+  b."id",
+  s."name",
+  s."category"::"StatusCategory",
+  s."order"
+FROM "Board" b
+CROSS JOIN (
+  VALUES ('To do', 'todo', 1000), ('In progress', 'in_progress', 2000), ('Done', 'done', 3000)
+) AS s("name", "category", "order");
+
+-- Move issues onto their board's statuses. The backlog is now simply the
+-- issues outside a sprint, so backlog issues start out as "To do".
+ALTER TABLE "Issue" ADD COLUMN "statusId" TEXT;
+
+UPDATE "Issue" i
+SET "statusId" = i."boardId" || '_' || CASE i."status" WHEN 'backlog' THEN 'todo' ELSE i."status"::TEXT END;
+
+ALTER TABLE "Issue" ALTER COLUMN "statusId" SET NOT NULL;
+
+ALTER TABLE "Issue" DROP COLUMN "status";
+
+DROP TYPE "IssueStatus";
+
+-- CreateIndex
+CREATE INDEX "Issue_statusId_idx" ON "Issue"("statusId");
+
+-- AddForeignKey
+ALTER TABLE "Issue" ADD CONSTRAINT "Issue_statusId_fkey" FOREIGN KEY ("statusId") REFERENCES "Status"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Status changes in the activity stream now record status ids too.
+UPDATE "IssueEvent" e
+SET
+  "field" = 'statusId',
+  "oldValue" = CASE WHEN e."oldValue" IS NULL THEN NULL ELSE to_jsonb(
+    i."boardId" || '_' || CASE e."oldValue" #>> '{}' WHEN 'backlog' THEN 'todo' ELSE e."oldValue" #>> '{}' END
+  ) END,
+  "newValue" = CASE WHEN e."newValue" IS NULL THEN NULL ELSE to_jsonb(
+    i."boardId" || '_' || CASE e."newValue" #>> '{}' WHEN 'backlog' THEN 'todo' ELSE e."newValue" #>> '{}' END
+  ) END
+FROM "Issue" i
+WHERE i."id" = e."issueId" AND e."field" = 'status';
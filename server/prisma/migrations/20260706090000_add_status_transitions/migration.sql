@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "StatusValidator" AS ENUM ('assignee_required', 'subtasks_done');
+
+-- AlterTable
+ALTER TABLE "Status" ADD COLUMN "validators" "StatusValidator"[] DEFAULT ARRAY[]::"StatusValidator"[];
+
+-- CreateTable
+CREATE TABLE "StatusTransition" (
+    "fromId" TEXT NOT NULL,
+    "toId" TEXT NOT NULL,
+
+    CONSTRAINT "StatusTransition_pkey" PRIMARY KEY ("fromId","toId")
+);
+
+-- CreateIndex
+CREATE INDEX "StatusTransition_toId_idx" ON "StatusTransition"("toId");
+
+-- AddForeignKey
+ALTER TABLE "StatusTransition" ADD CONSTRAINT "StatusTransition_fromId_fkey" FOREIGN KEY ("fromId") REFERENCES "Status"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StatusTransition" ADD CONSTRAINT "StatusTransition_toId_fkey" FOREIGN KEY ("toId") REFERENCES "Status"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Status" ADD COLUMN "wipHard" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "wipMax" INTEGER,
+ADD COLUMN "wipMin" INTEGER;
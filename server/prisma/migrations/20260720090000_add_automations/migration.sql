@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "AutomationTrigger" AS ENUM ('issue_created', 'status_changed', 'field_changed', 'sprint_started', 'scheduled');
+
+-- CreateEnum
+CREATE TYPE "AutomationOutcome" AS ENUM ('success', 'failed', 'skipped');
+
+-- CreateTable
+CREATE TABLE "AutomationRule" (
+    "id" TEXT NOT NULL,
+    "boardId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "trigger" "AutomationTrigger" NOT NULL,
+    "triggerConfig" JSONB NOT NULL DEFAULT '{}',
+    "condition" TEXT NOT NULL DEFAULT '',
+    "actions" JSONB NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AutomationRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AutomationRun" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "boardId" TEXT NOT NULL,
+    "issueId" TEXT,
+    "trigger" "AutomationTrigger" NOT NULL,
+    "outcome" "AutomationOutcome" NOT NULL,
+    "details" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "message" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AutomationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AutomationRule_boardId_idx" ON "AutomationRule"("boardId");
+
+-- CreateIndex
+CREATE INDEX "AutomationRun_boardId_createdAt_idx" ON "AutomationRun"("boardId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AutomationRun_ruleId_idx" ON "AutomationRun"("ruleId");
+
+-- AddForeignKey
+ALTER TABLE "AutomationRule" ADD CONSTRAINT "AutomationRule_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AutomationRule" ADD CONSTRAINT "AutomationRule_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AutomationRun" ADD CONSTRAINT "AutomationRun_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "AutomationRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AutomationRun" ADD CONSTRAINT "AutomationRun_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AutomationRun" ADD CONSTRAINT "AutomationRun_issueId_fkey" FOREIGN KEY ("issueId") REFERENCES "Issue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
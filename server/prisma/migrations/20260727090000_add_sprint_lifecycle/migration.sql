@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "SprintState" AS ENUM ('planned', 'active', 'closed');
+
+-- AlterTable
+ALTER TABLE "Sprint" ADD COLUMN "completedAt" TIMESTAMP(3),
+ADD COLUMN "endDate" DATE,
+ADD COLUMN "goal" TEXT,
+ADD COLUMN "startDate" DATE,
+ADD COLUMN "state" "SprintState" NOT NULL DEFAULT 'planned';
+
+-- Sprints that were active carry on; the rest have not started yet.
+UPDATE "Sprint" SET "state" = 'active', "startDate" = "createdAt"::DATE WHERE "isActive" = true;
+
+-- AlterTable
+ALTER TABLE "Sprint" DROP COLUMN "isActive";
+
+-- CreateIndex
+CREATE INDEX "Sprint_boardId_state_idx" ON "Sprint"("boardId", "state");
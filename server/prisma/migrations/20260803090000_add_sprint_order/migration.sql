@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Sprint" ADD COLUMN "order" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing sprints keep the order they were created in.
+UPDATE "Sprint" AS s SET "order" = ranked.rn * 1000
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "boardId" ORDER BY "createdAt") AS rn
+  FROM "Sprint"
+) AS ranked
+WHERE s."id" = ranked."id";
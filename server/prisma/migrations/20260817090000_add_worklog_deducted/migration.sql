@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Worklog" ADD COLUMN "deducted" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,14 @@
+-- Boards with more than one active sprint keep the one started last; the
+-- others go back to planned.
+UPDATE "Sprint" s SET "state" = 'planned'
+WHERE s."state" = 'active'
+  AND EXISTS (
+    SELECT 1 FROM "Sprint" o
+    WHERE o."boardId" = s."boardId"
+      AND o."state" = 'active'
+      AND (COALESCE(o."startDate", o."createdAt"::DATE), o."createdAt", o."id")
+        > (COALESCE(s."startDate", s."createdAt"::DATE), s."createdAt", s."id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Sprint_boardId_active_key" ON "Sprint"("boardId") WHERE "state" = 'active';
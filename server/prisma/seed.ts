@@ -1,5 +1,17 @@
 import "dotenv/config";
-import { PrismaClient, IssueStatus } from "../generated/prisma/client";
+import {
+  PrismaClient,
+  AutomationTrigger,
+  IssueType,
+  IssuePriority,
+  IssueLinkType,
+  BoardRole,
+  CustomFieldType,
+  SprintState,
+  StatusCategory,
+  StatusValidator,
+} from "../generated/prisma/client";
+import { DEFAULT_WORKFLOW } from "@jira-lab/shared";
 import { PrismaPg } from "@prisma/adapter-pg";
 import { Pool } from "pg";
 import * as bcrypt from "bcrypt";
@@ -17,6 +29,15 @@ function makeIssueKey(boardCode: string, n: number) {
   return `${boardCode}-${n}`;
 }
 
+function workflow(statuses: ReadonlyArray<{ name: string; category: StatusCategory }>) {
+  return { create: statuses.map((s, idx) => ({ ...s, order: (idx + 1) * 1000 })) };
+}
+
+// Status id by name, for wiring up the issues below.
+function statusIds(board: { statuses: Array<{ id: string; name: string }> }) {
+  return Object.fromEntries(board.statuses.map((s) => [s.name, s.id]));
+}
+
 async function main() {
   console.log("🌱 Seeding database...");
 
@@ -42,22 +63,75 @@ async function main() {
   // Boards
   // ----------------------------
   const core = await prisma.board.create({
-    data: { name: "Core UI", userId: demoUser.id },
+    data: {
+      name: "Core UI",
+      key: "CORE",
+      issueSeq: 6, // CORE-1..CORE-6 below
+      userId: demoUser.id,
+      members: { create: { userId: demoUser.id, role: BoardRole.admin } },
+      // Core UI reviews its changes before they are done.
+      statuses: workflow([
+        { name: "To do", category: StatusCategory.todo },
+        { name: "In progress", category: StatusCategory.in_progress },
+        { name: "Code review", category: StatusCategory.in_progress },
+        { name: "Done", category: StatusCategory.done },
+      ]),
+    },
+    include: { statuses: true },
+  });
+  const coreStatus = statusIds(core);
+
+  // Work is picked up by someone, then reviewed, before it is done.
+  const coreFlow: Record<string, string[]> = {
+    "To do": ["In progress"],
+    "In progress": ["To do", "Code review"],
+    "Code review": ["In progress", "Done"],
+  };
+  await prisma.statusTransition.createMany({
+    data: Object.entries(coreFlow).flatMap(([from, targets]) =>
+      targets.map((to) => ({ fromId: coreStatus[from], toId: coreStatus[to] }))
+    ),
+  });
+  await prisma.status.update({
+    where: { id: coreStatus["In progress"] },
+    data: { validators: [StatusValidator.assignee_required], wipMin: 1, wipMax: 3 },
+  });
+  // Reviews pile up quickly, so the board refuses more than two at a time.
+  await prisma.status.update({
+    where: { id: coreStatus["Code review"] },
+    data: { wipMax: 2, wipHard: true },
+  });
+  await prisma.status.update({
+    where: { id: coreStatus["Done"] },
+    data: { validators: [StatusValidator.subtasks_done] },
   });
 
   const picker = await prisma.board.create({
-    data: { name: "Picker Lab", userId: demoUser.id },
+    data: {
+      name: "Picker Lab",
+      key: "PICK",
+      issueSeq: 2, // PICK-1..PICK-2 below
+      userId: demoUser.id,
+      members: { create: { userId: demoUser.id, role: BoardRole.admin } },
+      statuses: workflow(DEFAULT_WORKFLOW),
+    },
+    include: { statuses: true },
   });
+  const pickerStatus = statusIds(picker);
 
   // ----------------------------
   // Sprints
   // ----------------------------
-  // Core UI: one active + one inactive
+  // Core UI: one active + one planned
   const coreSprint1 = await prisma.sprint.create({
     data: {
       boardId: core.id,
       name: "Sprint 1 (active)",
-      isActive: true,
+      goal: "Ship the core board UI",
+      state: SprintState.active,
+      order: 1000,
+      startDate: new Date("2026-05-25"),
+      endDate: new Date("2026-06-07"),
     },
   });
 
@@ -65,7 +139,7 @@ async function main() {
     data: {
       boardId: core.id,
       name: "Sprint 2",
-      isActive: false,
+      order: 2000,
     },
   });
 
@@ -74,7 +148,10 @@ async function main() {
     data: {
       boardId: picker.id,
       name: "Sprint 1 (active)",
-      isActive: true,
+      state: SprintState.active,
+      order: 1000,
+      startDate: new Date("2026-05-25"),
+      endDate: new Date("2026-06-07"),
     },
   });
 
@@ -89,7 +166,7 @@ async function main() {
         sprintId: null,
         title: "Setup project",
         description: "Initial project setup",
-        status: IssueStatus.backlog,
+        statusId: coreStatus["To do"],
         order: 1000,
         key: makeIssueKey("CORE", 1),
       },
@@ -98,7 +175,7 @@ async function main() {
         sprintId: null,
         title: "Define domain types",
         description: "Board/Sprint/Issue types + utils",
-        status: IssueStatus.backlog,
+        statusId: coreStatus["To do"],
         order: 2000,
         key: makeIssueKey("CORE", 2),
       },
@@ -113,8 +190,11 @@ async function main() {
         sprintId: coreSprint1.id,
         title: "Build entity picker",
         description: "Core feature",
-        status: IssueStatus.todo,
+        statusId: coreStatus["To do"],
         order: 1000,
+        type: IssueType.story,
+        labels: ["frontend"],
+        storyPoints: 5,
         key: makeIssueKey("CORE", 3),
       },
       {
@@ -122,8 +202,15 @@ async function main() {
         sprintId: coreSprint1.id,
         title: "Implement drag & drop",
         description: "DnD support",
-        status: IssueStatus.in_progress,
+        statusId: coreStatus["In progress"],
         order: 2000,
+        type: IssueType.story,
+        priority: IssuePriority.high,
+        labels: ["frontend", "dnd"],
+        storyPoints: 8,
+        originalEstimate: 16 * 60,
+        remainingEstimate: 10 * 60,
+        dueDate: new Date("2026-06-05"),
         key: makeIssueKey("CORE", 4),
       },
       {
@@ -131,13 +218,80 @@ async function main() {
         sprintId: coreSprint1.id,
         title: "Deploy MVP",
         description: "First release",
-        status: IssueStatus.done,
+        statusId: coreStatus["Done"],
         order: 3000,
+        storyPoints: 3,
         key: makeIssueKey("CORE", 5),
       },
     ],
   });
 
+  // Core epic grouping the sprint stories
+  const coreEpic = await prisma.issue.create({
+    data: {
+      boardId: core.id,
+      sprintId: null,
+      title: "Board MVP",
+      description: "Everything needed for a usable first board",
+      statusId: coreStatus["To do"],
+      order: 3000,
+      type: IssueType.epic,
+      key: makeIssueKey("CORE", 6),
+    },
+  });
+  await prisma.issue.updateMany({
+    where: { key: { in: [3, 4, 5].map((n) => makeIssueKey("CORE", n)) } },
+    data: { parentId: coreEpic.id },
+  });
+
+  // Drag & drop has to land before the picker can be wired into the board
+  const [dnd, entityPicker] = await Promise.all([
+    prisma.issue.findUniqueOrThrow({ where: { key: makeIssueKey("CORE", 4) } }),
+    prisma.issue.findUniqueOrThrow({ where: { key: makeIssueKey("CORE", 3) } }),
+  ]);
+  await prisma.issueLink.create({
+    data: { sourceId: dnd.id, targetId: entityPicker.id, type: IssueLinkType.blocks },
+  });
+  await prisma.worklog.create({
+    data: {
+      issueId: dnd.id,
+      userId: demoUser.id,
+      minutes: 6 * 60,
+      deducted: 6 * 60,
+      date: new Date("2026-05-25"),
+      note: "Sortable columns and drag overlay",
+    },
+  });
+
+  // Custom fields
+  const environment = await prisma.customField.create({
+    data: {
+      boardId: core.id,
+      name: "Environment",
+      type: CustomFieldType.select,
+      options: ["staging", "production"],
+    },
+  });
+  await prisma.issue.update({
+    where: { id: dnd.id },
+    data: { customFields: { [environment.id]: "staging" } },
+  });
+
+  // Automations
+  await prisma.automationRule.create({
+    data: {
+      boardId: core.id,
+      name: "Watch urgent bugs",
+      trigger: AutomationTrigger.issue_created,
+      condition: "type = bug AND priority >= high",
+      actions: [
+        { type: "add_watcher", userId: demoUser.id },
+        { type: "add_comment", body: "Flagged as urgent; please triage today." },
+      ],
+      createdById: demoUser.id,
+    },
+  });
+
   // Picker Lab sprint issues
   await prisma.issue.createMany({
     data: [
@@ -146,7 +300,7 @@ async function main() {
         sprintId: pickerSprint1.id,
         title: "Multi-picker virtualization",
         description: "tanstack/react-virtual improvements",
-        status: IssueStatus.todo,
+        statusId: pickerStatus["To do"],
         order: 1000,
         key: makeIssueKey("PICK", 1),
       },
@@ -155,8 +309,11 @@ async function main() {
         sprintId: pickerSprint1.id,
         title: "Keyboard navigation polish",
         description: "Better a11y and UX",
-        status: IssueStatus.todo,
+        statusId: pickerStatus["To do"],
         order: 2000,
+        type: IssueType.bug,
+        priority: IssuePriority.high,
+        labels: ["a11y"],
         key: makeIssueKey("PICK", 2),
       },
     ],
@@ -4,6 +4,16 @@ import { IssuesModule } from "./issues/issues.module";
 import { ConfigModule } from "@nestjs/config";
 import { PrismaModule } from "./prisma/prisma.module";
 import { AuthModule } from "./auth/auth.module";
+import { InvitesModule } from "./invites/invites.module";
+import { UsersModule } from "./users/users.module";
+import { CommentsModule } from "./comments/comments.module";
+import { NotificationsModule } from "./notifications/notifications.module";
+import { AttachmentsModule } from "./attachments/attachments.module";
+import { LinksModule } from "./links/links.module";
+import { WorklogsModule } from "./worklogs/worklogs.module";
+import { CustomFieldsModule } from "./custom-fields/custom-fields.module";
+import { StatusesModule } from "./statuses/statuses.module";
+import { AutomationsModule } from "./automations/automations.module";
 
 @Module({
   imports: [
@@ -12,6 +22,16 @@ import { AuthModule } from "./auth/auth.module";
     AuthModule,
     BoardsModule,
     IssuesModule,
+    InvitesModule,
+    UsersModule,
+    CommentsModule,
+    NotificationsModule,
+    AttachmentsModule,
+    LinksModule,
+    WorklogsModule,
+    CustomFieldsModule,
+    StatusesModule,
+    AutomationsModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,14 @@
+import type { Readable } from "stream";
+
+/**
+ * Where attachment bytes live. The database only keeps metadata and the
+ * storage key, so a different backend (e.g. an S3-compatible stand-in such as
+ * MinIO) can be swapped in by providing another implementation of this class
+ * in AttachmentsModule.
+ */
+export abstract class AttachmentStorage {
+  abstract put(key: string, data: Buffer, contentType: string): Promise<void>;
+  abstract open(key: string): Promise<Readable>;
+  /** Removing a key that doesn't exist is not an error. */
+  abstract remove(key: string): Promise<void>;
+}
@@ -0,0 +1,63 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Req,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import { ATTACHMENT_MAX_BYTES, isImageAttachment } from "@jira-lab/shared";
+import { AttachmentsService, type UploadedAttachment } from "./attachments.service";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+
+@Controller("issues/:issueId/attachments")
+@UseGuards(JwtAuthGuard)
+export class IssueAttachmentsController {
+  constructor(private service: AttachmentsService) {}
+
+  @Get()
+  list(@Req() req: any, @Param("issueId") issueId: string) {
+    return this.service.list(issueId, req.user.id);
+  }
+
+  // Multer rejects oversized uploads with 413 before the file is buffered in full.
+  @Post()
+  @UseInterceptors(
+    FileInterceptor("file", { limits: { fileSize: ATTACHMENT_MAX_BYTES, files: 1 } })
+  )
+  upload(
+    @Req() req: any,
+    @Param("issueId") issueId: string,
+    @UploadedFile() file: UploadedAttachment | undefined
+  ) {
+    return this.service.upload(issueId, file, req.user.id);
+  }
+}
+
+@Controller("attachments")
+@UseGuards(JwtAuthGuard)
+export class AttachmentsController {
+  constructor(private service: AttachmentsService) {}
+
+  @Get(":id/content")
+  async content(@Req() req: any, @Param("id") id: string) {
+    const { attachment, stream } = await this.service.content(id, req.user.id);
+    // Only images are shown inline; everything else downloads.
+    const disposition = isImageAttachment(attachment.contentType) ? "inline" : "attachment";
+    return new StreamableFile(stream, {
+      type: attachment.contentType,
+      length: attachment.size,
+      disposition: `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+    });
+  }
+
+  @Delete(":id")
+  remove(@Req() req: any, @Param("id") id: string) {
+    return this.service.remove(id, req.user.id);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+import { AttachmentsController, IssueAttachmentsController } from "./attachments.controller";
+import { AttachmentsService } from "./attachments.service";
+import { AttachmentStorage } from "./attachment-storage";
+import { LocalDiskStorage } from "./local-disk.storage";
+import { PrismaModule } from "../prisma/prisma.module";
+import { BoardsModule } from "../boards/boards.module";
+
+@Module({
+  controllers: [IssueAttachmentsController, AttachmentsController],
+  providers: [AttachmentsService, { provide: AttachmentStorage, useClass: LocalDiskStorage }],
+  imports: [PrismaModule, BoardsModule, ConfigModule],
+  exports: [AttachmentStorage],
+})
+export class AttachmentsModule {}
@@ -0,0 +1,118 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { ATTACHMENT_MAX_BYTES, isAllowedAttachmentType } from "@jira-lab/shared";
+import { PrismaService } from "../prisma/prisma.service";
+import { BoardRole } from "../../generated/prisma/client";
+import { BoardAccessService, hasRole } from "../boards/board-access.service";
+import { AttachmentStorage } from "./attachment-storage";
+
+/** The subset of a multer file used here (memory storage). */
+export type UploadedAttachment = {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+};
+
+const ATTACHMENT_SELECT = {
+  id: true,
+  issueId: true,
+  filename: true,
+  contentType: true,
+  size: true,
+  createdAt: true,
+  uploader: { select: { id: true, name: true } },
+} as const;
+
+// Multer decodes multipart filenames as latin1; browsers send UTF-8.
+function cleanFilename(name: string) {
+  const decoded = Buffer.from(name, "latin1").toString("utf8");
+  const base = decoded.split(/[\\/]/).pop()?.trim() ?? "";
+  return (base || "file").slice(0, 255);
+}
+
+@Injectable()
+export class AttachmentsService {
+  constructor(
+    private prisma: PrismaService,
+    private access: BoardAccessService,
+    private storage: AttachmentStorage
+  ) {}
+
+  async list(issueId: string, userId: string) {
+    await this.access.requireIssueRole(issueId, userId, BoardRole.viewer);
+    return this.prisma.attachment.findMany({
+      where: { issueId },
+      select: ATTACHMENT_SELECT,
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async upload(issueId: string, file: UploadedAttachment | undefined, userId: string) {
+    await this.access.requireIssueRole(issueId, userId, BoardRole.editor);
+
+    if (!file) throw new BadRequestException("No file uploaded");
+    if (file.size > ATTACHMENT_MAX_BYTES) {
+      throw new PayloadTooLargeException("File is too large");
+    }
+    if (!isAllowedAttachmentType(file.mimetype)) {
+      throw new UnsupportedMediaTypeException(`Files of type ${file.mimetype} can't be attached`);
+    }
+
+    const storageKey = `${issueId}/${randomUUID()}`;
+    await this.storage.put(storageKey, file.buffer, file.mimetype);
+
+    try {
+      return await this.prisma.attachment.create({
+        data: {
+          issueId,
+          uploaderId: userId,
+          filename: cleanFilename(file.originalname),
+          contentType: file.mimetype.toLowerCase(),
+          size: file.size,
+          storageKey,
+        },
+        select: ATTACHMENT_SELECT,
+      });
+    } catch (err) {
+      await this.storage.remove(storageKey);
+      throw err;
+    }
+  }
+
+  async content(id: string, userId: string) {
+    const attachment = await this.find(id);
+    await this.access.requireIssueRole(attachment.issueId, userId, BoardRole.viewer);
+    return { attachment, stream: await this.storage.open(attachment.storageKey) };
+  }
+
+  /** Uploaders may delete their own attachments; board admins may delete any. */
+  async remove(id: string, userId: string) {
+    const attachment = await this.find(id);
+    const issue = await this.prisma.issue.findUnique({
+      where: { id: attachment.issueId },
+      select: { boardId: true },
+    });
+    const member = await this.access.requireRole(issue!.boardId, userId, BoardRole.editor);
+    if (attachment.uploaderId !== userId && !hasRole(member.role, BoardRole.admin)) {
+      throw new ForbiddenException("Only the uploader or a board admin can delete an attachment");
+    }
+
+    await this.prisma.attachment.delete({ where: { id } });
+    await this.storage.remove(attachment.storageKey);
+    return { id };
+  }
+
+  private async find(id: string) {
+    const attachment = await this.prisma.attachment.findUnique({ where: { id } });
+    if (!attachment) throw new NotFoundException("Attachment not found");
+    return attachment;
+  }
+}
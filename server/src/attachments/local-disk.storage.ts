@@ -0,0 +1,45 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import { dirname, join, resolve, sep } from "path";
+import type { Readable } from "stream";
+import { AttachmentStorage } from "./attachment-storage";
+
+/** Stores files under ATTACHMENTS_DIR (default `./uploads`), one file per key. */
+@Injectable()
+export class LocalDiskStorage extends AttachmentStorage {
+  private readonly root: string;
+
+  constructor(config: ConfigService) {
+    super();
+    this.root = resolve(config.get<string>("ATTACHMENTS_DIR", "uploads"));
+  }
+
+  async put(key: string, data: Buffer) {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async open(key: string): Promise<Readable> {
+    const path = this.pathFor(key);
+    try {
+      await stat(path);
+    } catch {
+      throw new NotFoundException("Attachment file is missing");
+    }
+    return createReadStream(path);
+  }
+
+  async remove(key: string) {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  // Keys are generated server-side, but never let one escape the root.
+  private pathFor(key: string) {
+    const path = resolve(join(this.root, key));
+    if (!path.startsWith(this.root + sep)) throw new Error(`Invalid storage key: ${key}`);
+    return path;
+  }
+}
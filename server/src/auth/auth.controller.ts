@@ -4,8 +4,10 @@ import { ZodValidationPipe } from "nestjs-zod";
 import {
   LoginInputSchema,
   RegisterInputSchema,
+  RefreshTokenInputSchema,
   type LoginInput,
   type RegisterInput,
+  type RefreshTokenInput,
 } from "@jira-lab/shared";
 
 @Controller("auth")
@@ -21,4 +23,14 @@ export class AuthController {
   login(@Body(new ZodValidationPipe(LoginInputSchema)) body: LoginInput) {
     return this.service.login(body);
   }
+
+  @Post("refresh")
+  refresh(@Body(new ZodValidationPipe(RefreshTokenInputSchema)) body: RefreshTokenInput) {
+    return this.service.refresh(body.refreshToken);
+  }
+
+  @Post("logout")
+  logout(@Body(new ZodValidationPipe(RefreshTokenInputSchema)) body: RefreshTokenInput) {
+    return this.service.logout(body.refreshToken);
+  }
 }
@@ -16,7 +16,8 @@ import { JwtStrategy } from "./jwt.strategy";
       inject: [ConfigService],
       useFactory: (config: ConfigService) => ({
         secret: config.get<string>("JWT_SECRET", "dev-secret-change-me"),
-        signOptions: { expiresIn: "7d" },
+        // Access tokens are short-lived; clients renew them via POST /auth/refresh.
+        signOptions: { expiresIn: Number(config.get("JWT_ACCESS_TTL_SECONDS", 15 * 60)) },
       }),
     }),
   ],
@@ -1,13 +1,30 @@
 import { ConflictException, Injectable, UnauthorizedException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
 import { JwtService } from "@nestjs/jwt";
 import * as bcrypt from "bcrypt";
+import { createHash, randomBytes } from "crypto";
 import { PrismaService } from "../prisma/prisma.service";
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Refresh tokens look like `<sessionId>.<secret>`. Only a hash of the secret is
+// stored, so a leaked database row cannot be replayed.
+function hashSecret(secret: string) {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function parseRefreshToken(refreshToken: string) {
+  const dot = refreshToken.indexOf(".");
+  if (dot <= 0 || dot === refreshToken.length - 1) return null;
+  return { sessionId: refreshToken.slice(0, dot), secret: refreshToken.slice(dot + 1) };
+}
+
 @Injectable()
 export class AuthService {
   constructor(
     private prisma: PrismaService,
-    private jwt: JwtService
+    private jwt: JwtService,
+    private config: ConfigService
   ) {}
 
   async register(input: { email: string; name: string; password: string }) {
@@ -28,12 +45,7 @@ export class AuthService {
       },
     });
 
-    const token = this.jwt.sign({ sub: user.id, email: user.email });
-
-    return {
-      token,
-      user: { id: user.id, email: user.email, name: user.name },
-    };
+    return this.startSession(user);
   }
 
   async login(input: { email: string; password: string }) {
@@ -49,11 +61,117 @@ export class AuthService {
       throw new UnauthorizedException("Invalid credentials");
     }
 
-    const token = this.jwt.sign({ sub: user.id, email: user.email });
+    return this.startSession(user);
+  }
+
+  /**
+   * Exchanges a refresh token for a new access/refresh pair.
+   * The presented token is single-use: presenting it again after rotation
+   * is treated as theft and revokes the whole session. Any other wrong secret
+   * is just refused, so knowing a session id is not enough to end a session.
+   */
+  async refresh(refreshToken: string) {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) throw new UnauthorizedException("Invalid refresh token");
+
+    const session = await this.prisma.session.findUnique({
+      where: { id: parsed.sessionId },
+      include: { user: true },
+    });
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new UnauthorizedException("Session expired");
+    }
+
+    const presentedHash = hashSecret(parsed.secret);
+    const secret = randomBytes(32).toString("base64url");
+
+    // Conditional update so two concurrent refreshes with the same token
+    // cannot both succeed.
+    const rotated = await this.prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashSecret(secret),
+        previousTokenHash: presentedHash,
+        expiresAt: this.refreshExpiry(),
+      },
+    });
+
+    if (rotated.count === 0) {
+      // Reuse is the secret rotated out last time, or the current one that a
+      // concurrent refresh rotated out first.
+      const reused =
+        presentedHash === session.previousTokenHash || presentedHash === session.refreshTokenHash;
+      if (!reused) throw new UnauthorizedException("Invalid refresh token");
+      await this.revokeSession(session.id);
+      throw new UnauthorizedException("Refresh token reuse detected");
+    }
+
+    return this.issueTokens(session.user, session.id, secret);
+  }
+
+  /**
+   * Revokes the session the refresh token belongs to. Only the current token
+   * does: a session id alone, or a rotated-out secret, revokes nothing.
+   */
+  async logout(refreshToken: string) {
+    const parsed = parseRefreshToken(refreshToken);
+    if (parsed) {
+      await this.prisma.session.updateMany({
+        where: {
+          id: parsed.sessionId,
+          refreshTokenHash: hashSecret(parsed.secret),
+          revokedAt: null,
+        },
+        data: { revokedAt: new Date() },
+      });
+    }
+    return { ok: true };
+  }
+
+  async isSessionActive(sessionId: string) {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true },
+    });
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  private async startSession(user: { id: string; email: string; name: string }) {
+    const secret = randomBytes(32).toString("base64url");
+    const session = await this.prisma.session.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: hashSecret(secret),
+        expiresAt: this.refreshExpiry(),
+      },
+    });
+
+    return this.issueTokens(user, session.id, secret);
+  }
+
+  private revokeSession(sessionId: string) {
+    return this.prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  private issueTokens(
+    user: { id: string; email: string; name: string },
+    sessionId: string,
+    secret: string
+  ) {
+    const token = this.jwt.sign({ sub: user.id, email: user.email, sid: sessionId });
 
     return {
       token,
+      refreshToken: `${sessionId}.${secret}`,
       user: { id: user.id, email: user.email, name: user.name },
     };
   }
+
+  private refreshExpiry() {
+    const days = Number(this.config.get("REFRESH_TOKEN_TTL_DAYS", 30));
+    return new Date(Date.now() + days * DAY_MS);
+  }
 }
@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { AutomationEngine } from "./automation-engine.service";
+import { PrismaModule } from "../prisma/prisma.module";
+
+// Kept apart from AutomationsModule, which needs BoardsModule, so the boards
+// and issues modules can run rules without importing each other in a circle.
+@Module({
+  providers: [AutomationEngine],
+  imports: [PrismaModule],
+  exports: [AutomationEngine],
+})
+export class AutomationEngineModule {}
@@ -0,0 +1,561 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  AutomationActionSchema,
+  AutomationTriggerSchema,
+  matchesIssueFilter,
+  parseIssueFilter,
+  sprintLockProblem,
+  type AutomationAction,
+  type AutomationTrigger as RuleTrigger,
+  type IssueFilter,
+  type IssueFilterSubject,
+  type SetFieldAction,
+} from "@jira-lab/shared";
+import { PrismaService } from "../prisma/prisma.service";
+import {
+  AutomationOutcome,
+  AutomationRule,
+  AutomationTrigger,
+  Issue,
+  Prisma,
+  SprintState,
+  StatusCategory,
+} from "../../generated/prisma/client";
+import { diffIssue } from "../issues/issue-history";
+import {
+  ISSUE_STATUS_SELECT,
+  requireWipRoom,
+  resolveIssueStatus,
+  type ColumnMove,
+} from "../statuses/issue-status";
+import { postWebhook, resolvePublicAddress } from "./webhook-target";
+
+const ORDER_STEP = 1000;
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+// How many rounds of rules one change may set off: the rules it triggers,
+// the rules their changes trigger, and so on.
+const MAX_CHAIN_DEPTH = 3;
+
+const ON_BOARD = { archivedAt: null, deletedAt: null };
+
+/** An issue as it was before a change and as it is after. */
+export type IssueChange = { before: Issue; after: Issue };
+
+// Something that happened to an issue. Changes carry the issue as it was.
+type AutomationEvent = { trigger: AutomationTrigger; issue: Issue; before?: Issue };
+
+// Shared by every run one change sets off. A rule runs at most once per issue
+// in a chain, so two rules undoing each other stop after one round each.
+type Chain = { depth: number; fired: Set<string> };
+
+type ParsedRule = { trigger: RuleTrigger; filter: IssueFilter | null; actions: AutomationAction[] };
+
+const SET_FIELD_LABELS: Record<SetFieldAction["field"], string> = {
+  priority: "priority",
+  type: "type",
+  labels: "labels",
+  storyPoints: "story points",
+  dueDate: "due date",
+};
+
+// Rules are validated when saved; this only fails for rules saved by an older version.
+function parseRule(rule: AutomationRule): ParsedRule | null {
+  const trigger = AutomationTriggerSchema.safeParse({
+    ...(rule.triggerConfig as Prisma.JsonObject),
+    type: rule.trigger,
+  });
+  const actions = AutomationActionSchema.array().safeParse(rule.actions);
+  const filter = parseIssueFilter(rule.condition);
+  if (!trigger.success || !actions.success || !filter.ok) return null;
+  return { trigger: trigger.data, filter: filter.filter, actions: actions.data };
+}
+
+function triggerMatches(trigger: RuleTrigger, event: AutomationEvent) {
+  if (trigger.type !== event.trigger) return false;
+  const { before, issue } = event;
+  switch (trigger.type) {
+    case "status_changed":
+      return (
+        !!before &&
+        before.statusId !== issue.statusId &&
+        (trigger.toStatusId === null || trigger.toStatusId === issue.statusId)
+      );
+    case "field_changed":
+      return (
+        !!before && JSON.stringify(before[trigger.field]) !== JSON.stringify(issue[trigger.field])
+      );
+    default:
+      return true;
+  }
+}
+
+// A change is offered to both kinds of change rule; each checks what changed.
+function changeEvents({ before, after }: IssueChange): AutomationEvent[] {
+  return [
+    { trigger: AutomationTrigger.status_changed, issue: after, before },
+    { trigger: AutomationTrigger.field_changed, issue: after, before },
+  ];
+}
+
+function filterSubject(
+  issue: Issue,
+  statusById: Map<string, { name: string; category: StatusCategory }>
+): IssueFilterSubject {
+  return {
+    type: issue.type,
+    priority: issue.priority,
+    status: statusById.get(issue.statusId)!,
+    assigneeId: issue.assigneeId,
+    labels: issue.labels,
+    storyPoints: issue.storyPoints,
+    title: issue.title,
+    dueDate: issue.dueDate ? issue.dueDate.toISOString().slice(0, 10) : null,
+  };
+}
+
+function setFieldData(action: SetFieldAction): Prisma.IssueUncheckedUpdateInput {
+  switch (action.field) {
+    case "dueDate":
+      return { dueDate: action.value ? new Date(action.value) : null };
+    case "labels":
+      return { labels: action.value };
+    case "priority":
+      return { priority: action.value };
+    case "storyPoints":
+      return { storyPoints: action.value };
+    case "type":
+      return { type: action.value };
+  }
+}
+
+function setFieldDetail(action: SetFieldAction) {
+  const label = SET_FIELD_LABELS[action.field];
+  const value = Array.isArray(action.value) ? action.value.join(", ") : action.value;
+  return value === null || value === "" ? `Cleared ${label}` : `Set ${label} to ${value}`;
+}
+
+/**
+ * Runs a board's automation rules. Issue and sprint services hand over their
+ * changes once saved and answer right away: rules run in the background, one
+ * change after another, so neither they nor their webhooks hold up a request.
+ * Scheduled rules are checked every AUTOMATION_INTERVAL_MINUTES (default 5,
+ * 0 turns them off). Every run is recorded in the board's audit log, and a
+ * failing rule never fails the change that triggered it.
+ */
+@Injectable()
+export class AutomationEngine implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AutomationEngine.name);
+  private readonly intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  // Runs still to do, in the order their changes were saved.
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private prisma: PrismaService,
+    config: ConfigService
+  ) {
+    this.intervalMs = Number(config.get("AUTOMATION_INTERVAL_MINUTES", 5)) * 60_000;
+  }
+
+  onModuleInit() {
+    if (!(this.intervalMs > 0)) return;
+    this.timer = setInterval(() => void this.runScheduled(), this.intervalMs);
+    // Don't keep the process alive just for scheduled rules.
+    this.timer.unref();
+  }
+
+  // Lets queued runs finish before the app shuts down.
+  async onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+    await this.queue;
+  }
+
+  /** Queues the rules for a new issue. */
+  issueCreated(issue: Issue) {
+    this.enqueue(() =>
+      this.start(issue.boardId, [{ trigger: AutomationTrigger.issue_created, issue }])
+    );
+  }
+
+  /** Queues the rules for changed issues. */
+  issuesChanged(changes: IssueChange[]) {
+    const boardIds = new Set(changes.map((c) => c.after.boardId));
+    for (const boardId of boardIds) {
+      const events = changes.filter((c) => c.after.boardId === boardId).flatMap(changeEvents);
+      this.enqueue(() => this.start(boardId, events));
+    }
+  }
+
+  /** Queues the rules for the issues of a sprint that has just started. */
+  sprintStarted(boardId: string, sprintId: string) {
+    this.enqueue(async () => {
+      const issues = await this.prisma.issue.findMany({
+        where: { boardId, sprintId, ...ON_BOARD },
+        orderBy: { order: "asc" },
+      });
+      await this.start(
+        boardId,
+        issues.map((issue) => ({ trigger: AutomationTrigger.sprint_started, issue }))
+      );
+    });
+  }
+
+  /**
+   * Runs the scheduled rules that are due at `now` over their boards' issues;
+   * returns how many rules ran.
+   */
+  async runScheduled(now = new Date()) {
+    let ran = 0;
+    try {
+      const rules = await this.prisma.automationRule.findMany({
+        where: { enabled: true, trigger: AutomationTrigger.scheduled },
+      });
+      for (const rule of rules) {
+        const parsed = parseRule(rule);
+        if (parsed?.trigger.type !== "scheduled") continue;
+        const dueAt = (rule.lastRunAt?.getTime() ?? 0) + parsed.trigger.everyMinutes * 60_000;
+        if (dueAt > now.getTime()) continue;
+
+        // Claim the run first, so overlapping checks can't both start it.
+        const claimed = await this.prisma.automationRule.updateMany({
+          where: { id: rule.id, lastRunAt: rule.lastRunAt },
+          data: { lastRunAt: now },
+        });
+        if (claimed.count === 0) continue;
+
+        const issues = await this.prisma.issue.findMany({
+          where: { boardId: rule.boardId, ...ON_BOARD },
+          orderBy: { createdAt: "asc" },
+        });
+        const events = issues.map((issue) => ({ trigger: AutomationTrigger.scheduled, issue }));
+        await this.start(rule.boardId, events, [rule]);
+        ran++;
+      }
+    } catch (err) {
+      this.logger.error("Scheduled automations failed", err instanceof Error ? err.stack : err);
+    }
+    return ran;
+  }
+
+  private enqueue(run: () => Promise<void>) {
+    this.queue = this.queue.then(run).catch((err: unknown) => {
+      this.logger.error("Automations failed", err instanceof Error ? err.stack : err);
+    });
+  }
+
+  private async start(boardId: string, events: AutomationEvent[], rules?: AutomationRule[]) {
+    const chain: Chain = { depth: 1, fired: new Set() };
+    try {
+      await this.dispatch(boardId, events, chain, rules);
+    } catch (err) {
+      this.logger.error("Automations failed", err instanceof Error ? err.stack : err);
+    }
+  }
+
+  /**
+   * Offers `events` to the board's rules, or to `rules` when given, then
+   * offers the changes those rules made to the next round.
+   */
+  private async dispatch(
+    boardId: string,
+    events: AutomationEvent[],
+    chain: Chain,
+    rules?: AutomationRule[]
+  ): Promise<void> {
+    if (events.length === 0) return;
+    rules ??= await this.prisma.automationRule.findMany({
+      where: {
+        boardId,
+        enabled: true,
+        trigger: { in: [...new Set(events.map((e) => e.trigger))] },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+    if (rules.length === 0) return;
+
+    const statuses = await this.prisma.status.findMany({
+      where: { boardId },
+      select: ISSUE_STATUS_SELECT,
+    });
+    const statusById = new Map(statuses.map((s) => [s.id, s]));
+
+    // Rules see the changes earlier rules in the same round made.
+    const latest = new Map<string, Issue>();
+    const changes: IssueChange[] = [];
+    for (const rule of rules) {
+      const parsed = parseRule(rule);
+      if (!parsed) {
+        this.logger.warn(`Skipping automation rule ${rule.id}: its settings are not valid`);
+        continue;
+      }
+      for (const event of events) {
+        const issue = latest.get(event.issue.id) ?? event.issue;
+        if (!triggerMatches(parsed.trigger, { ...event, issue })) continue;
+        if (!matchesIssueFilter(parsed.filter, filterSubject(issue, statusById))) continue;
+
+        const change = await this.run(rule, parsed, { ...event, issue }, chain);
+        if (change) {
+          latest.set(issue.id, change.after);
+          changes.push(change);
+        }
+      }
+    }
+
+    await this.dispatch(boardId, changes.flatMap(changeEvents), {
+      ...chain,
+      depth: chain.depth + 1,
+    });
+  }
+
+  private async run(
+    rule: AutomationRule,
+    parsed: ParsedRule,
+    event: AutomationEvent,
+    chain: Chain
+  ): Promise<IssueChange | null> {
+    const key = `${rule.id}:${event.issue.id}`;
+    if (chain.fired.has(key)) {
+      await this.record(
+        rule,
+        event,
+        "skipped",
+        [],
+        "Already ran on this issue for the same change"
+      );
+      return null;
+    }
+    if (chain.depth > MAX_CHAIN_DEPTH) {
+      await this.record(
+        rule,
+        event,
+        "skipped",
+        [],
+        `Stopped after ${MAX_CHAIN_DEPTH} rounds of rules triggering each other`
+      );
+      return null;
+    }
+    chain.fired.add(key);
+
+    // Rules run after the change was answered; act on the issue as it is now.
+    const issue = await this.prisma.issue.findUnique({ where: { id: event.issue.id } });
+    // A purged issue leaves nothing to act on, or to record the run against.
+    if (!issue) return null;
+    const problem = await this.offLimits(issue);
+    if (problem) {
+      await this.record(rule, event, "skipped", [], problem);
+      return null;
+    }
+
+    const details: string[] = [];
+    let change: IssueChange | null = null;
+    try {
+      change = await this.apply(rule, parsed.actions, issue, details);
+      // Webhooks go out once the issue is saved, so they see the result.
+      for (const action of parsed.actions) {
+        if (action.type !== "send_webhook") continue;
+        details.push(await this.sendWebhook(action.url, rule, change?.after ?? issue));
+      }
+      await this.record(rule, event, "success", details);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "The rule failed";
+      await this.record(rule, event, "failed", details, message);
+    }
+    return change;
+  }
+
+  /** Why a rule can no longer act on `issue`, or null when it can. */
+  private async offLimits(issue: Issue) {
+    if (issue.deletedAt) return "The issue was deleted";
+    if (issue.archivedAt) return "The issue was archived";
+    if (!issue.sprintId) return null;
+    const sprint = await this.prisma.sprint.findUnique({
+      where: { id: issue.sprintId },
+      select: { state: true },
+    });
+    return sprintLockProblem(sprint?.state ?? null);
+  }
+
+  /**
+   * Applies every action but the webhooks in one write, as the rule's
+   * creator. Nothing is saved when one of them can't be done, or when the
+   * issue changed after it was read.
+   */
+  private async apply(
+    rule: AutomationRule,
+    actions: AutomationAction[],
+    issue: Issue,
+    details: string[]
+  ): Promise<IssueChange | null> {
+    const data: Prisma.IssueUncheckedUpdateInput = {};
+    const comments: string[] = [];
+    const watcherIds = new Set(issue.watcherIds);
+    let move: ColumnMove | null = null;
+
+    for (const action of actions) {
+      switch (action.type) {
+        case "set_field":
+          // Epics and sub-tasks would leave the hierarchy they are part of.
+          if (action.field === "type" && !["bug", "story", "task"].includes(issue.type)) {
+            throw new BadRequestException(`An issue of type ${issue.type} can't change type`);
+          }
+          Object.assign(data, setFieldData(action));
+          details.push(setFieldDetail(action));
+          break;
+        case "assign":
+          if (action.userId) {
+            const name = await this.memberName(issue.boardId, action.userId);
+            details.push(`Assigned to ${name}`);
+          } else {
+            details.push("Unassigned");
+          }
+          data.assigneeId = action.userId;
+          break;
+        case "add_watcher": {
+          const name = await this.memberName(issue.boardId, action.userId);
+          watcherIds.add(action.userId);
+          data.watcherIds = [...watcherIds];
+          details.push(`Added ${name} as a watcher`);
+          break;
+        }
+        case "add_comment":
+          comments.push(action.body);
+          details.push("Added a comment");
+          break;
+        case "move_to_sprint": {
+          const moved = await this.sprintMove(issue, action.sprintId, details);
+          if (moved) {
+            Object.assign(data, moved);
+            move = { id: issue.id, sprintId: moved.sprintId, statusId: moved.statusId };
+          }
+          break;
+        }
+        case "send_webhook":
+          break;
+      }
+    }
+
+    const changed = Object.entries(data).some(
+      ([field, value]) => JSON.stringify(issue[field as keyof Issue]) !== JSON.stringify(value)
+    );
+    if (!changed && comments.length === 0) return null;
+
+    return this.prisma.$transaction(async (tx) => {
+      let after = issue;
+      if (changed) {
+        const saved = await tx.issue.updateMany({
+          where: { id: issue.id, version: issue.version },
+          data: { ...data, version: { increment: 1 } },
+        });
+        if (saved.count === 0) throw new Error("The issue changed while the rule ran");
+        if (move) await requireWipRoom(tx, [move]);
+        after = await tx.issue.findUniqueOrThrow({ where: { id: issue.id } });
+        await tx.issueEvent.createMany({ data: diffIssue(issue, after, rule.createdById) });
+      }
+      await tx.comment.createMany({
+        data: comments.map((body) => ({ issueId: issue.id, authorId: rule.createdById, body })),
+      });
+      return { before: issue, after };
+    });
+  }
+
+  /**
+   * Moves an issue to the end of its column in `sprintId`, or to the backlog.
+   * Returns null when it is there already.
+   */
+  private async sprintMove(issue: Issue, sprintId: string | null, details: string[]) {
+    let name = "the backlog";
+    if (sprintId) {
+      const sprint = await this.prisma.sprint.findFirst({
+        where: { id: sprintId, boardId: issue.boardId },
+        select: { name: true, state: true },
+      });
+      if (!sprint) throw new BadRequestException("The sprint to move to no longer exists");
+      if (sprint.state === SprintState.closed) {
+        throw new BadRequestException(`${sprint.name} is closed`);
+      }
+      name = sprint.name;
+    }
+    if (sprintId === issue.sprintId) {
+      details.push(`Already in ${name}`);
+      return null;
+    }
+
+    const statusId = await resolveIssueStatus(this.prisma, issue.boardId, {
+      current: issue.statusId,
+      toBacklog: sprintId === null,
+    });
+    const last = await this.prisma.issue.aggregate({
+      where: { boardId: issue.boardId, sprintId, statusId, ...ON_BOARD },
+      _max: { order: true },
+    });
+    details.push(`Moved to ${name}`);
+    return { sprintId, statusId, order: (last._max.order ?? 0) + ORDER_STEP };
+  }
+
+  private async memberName(boardId: string, userId: string) {
+    const member = await this.prisma.boardMember.findUnique({
+      where: { boardId_userId: { boardId, userId } },
+      select: { user: { select: { name: true } } },
+    });
+    if (!member) throw new BadRequestException("The rule names someone who left the board");
+    return member.user.name;
+  }
+
+  private async sendWebhook(url: string, rule: AutomationRule, issue: Issue) {
+    const target = new URL(url);
+    const host = target.host;
+    const address = await resolvePublicAddress(target);
+    const body = JSON.stringify({
+      rule: { id: rule.id, name: rule.name },
+      issue: {
+        id: issue.id,
+        key: issue.key,
+        title: issue.title,
+        type: issue.type,
+        priority: issue.priority,
+        statusId: issue.statusId,
+        sprintId: issue.sprintId,
+        assigneeId: issue.assigneeId,
+      },
+    });
+    let status: number;
+    try {
+      status = await postWebhook(target, address, body, WEBHOOK_TIMEOUT_MS);
+    } catch (err) {
+      const timedOut = err instanceof Error && err.name === "TimeoutError";
+      throw new Error(
+        timedOut ? `Webhook to ${host} did not answer in time` : `Webhook to ${host} failed`
+      );
+    }
+    if (status < 200 || status >= 300) throw new Error(`Webhook to ${host} answered ${status}`);
+    return `Webhook to ${host} answered ${status}`;
+  }
+
+  private async record(
+    rule: AutomationRule,
+    event: AutomationEvent,
+    outcome: AutomationOutcome,
+    details: string[],
+    message: string | null = null
+  ) {
+    await this.prisma.automationRun.create({
+      data: {
+        ruleId: rule.id,
+        boardId: rule.boardId,
+        issueId: event.issue.id,
+        trigger: event.trigger,
+        outcome,
+        details,
+        message,
+      },
+    });
+  }
+}
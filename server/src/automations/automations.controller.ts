@@ -0,0 +1,72 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from "@nestjs/common";
+import { ZodValidationPipe } from "nestjs-zod";
+import {
+  CreateAutomationRuleInputSchema,
+  ListAutomationRunsInputSchema,
+  UpdateAutomationRuleInputSchema,
+  type CreateAutomationRuleInput,
+  type ListAutomationRunsInput,
+  type UpdateAutomationRuleInput,
+} from "@jira-lab/shared";
+import { AutomationsService } from "./automations.service";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+
+@Controller("boards/:boardId/automations")
+@UseGuards(JwtAuthGuard)
+export class BoardAutomationsController {
+  constructor(private service: AutomationsService) {}
+
+  @Get()
+  list(@Req() req: any, @Param("boardId") boardId: string) {
+    return this.service.list(boardId, req.user.id);
+  }
+
+  @Post()
+  create(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Body(new ZodValidationPipe(CreateAutomationRuleInputSchema)) body: CreateAutomationRuleInput
+  ) {
+    return this.service.create(boardId, body, req.user.id);
+  }
+
+  @Get("runs")
+  runs(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Query(new ZodValidationPipe(ListAutomationRunsInputSchema)) query: ListAutomationRunsInput
+  ) {
+    return this.service.listRuns(boardId, query.ruleId, req.user.id);
+  }
+}
+
+@Controller("automations")
+@UseGuards(JwtAuthGuard)
+export class AutomationsController {
+  constructor(private service: AutomationsService) {}
+
+  @Patch(":id")
+  update(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Body(new ZodValidationPipe(UpdateAutomationRuleInputSchema)) body: UpdateAutomationRuleInput
+  ) {
+    return this.service.update(id, body, req.user.id);
+  }
+
+  @Delete(":id")
+  remove(@Req() req: any, @Param("id") id: string) {
+    return this.service.remove(id, req.user.id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { AutomationsController, BoardAutomationsController } from "./automations.controller";
+import { AutomationsService } from "./automations.service";
+import { PrismaModule } from "../prisma/prisma.module";
+import { BoardsModule } from "../boards/boards.module";
+
+@Module({
+  controllers: [BoardAutomationsController, AutomationsController],
+  providers: [AutomationsService],
+  imports: [PrismaModule, BoardsModule],
+})
+export class AutomationsModule {}
@@ -0,0 +1,145 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import type {
+  AutomationAction,
+  AutomationTrigger as RuleTrigger,
+  CreateAutomationRuleInput,
+  UpdateAutomationRuleInput,
+} from "@jira-lab/shared";
+import { PrismaService } from "../prisma/prisma.service";
+import { AutomationRule, BoardRole, Prisma } from "../../generated/prisma/client";
+import { BoardAccessService } from "../boards/board-access.service";
+
+// How much of the audit log is shown.
+const RUN_LIMIT = 100;
+
+// The trigger's type is a column of its own; the rest of it is stored alongside.
+function triggerData({ type, ...config }: RuleTrigger) {
+  return { trigger: type, triggerConfig: config };
+}
+
+function toRuleDto({ trigger, triggerConfig, ...rule }: AutomationRule) {
+  return { ...rule, trigger: { ...(triggerConfig as Prisma.JsonObject), type: trigger } };
+}
+
+@Injectable()
+export class AutomationsService {
+  constructor(
+    private prisma: PrismaService,
+    private access: BoardAccessService
+  ) {}
+
+  async list(boardId: string, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.viewer);
+    const rules = await this.prisma.automationRule.findMany({
+      where: { boardId },
+      orderBy: { createdAt: "asc" },
+    });
+    return rules.map(toRuleDto);
+  }
+
+  /** Adds a rule; what it changes is attributed to whoever added it. */
+  async create(boardId: string, input: CreateAutomationRuleInput, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.admin);
+    await this.requireReferences(boardId, input.trigger, input.actions);
+
+    const rule = await this.prisma.automationRule.create({
+      data: {
+        boardId,
+        name: input.name,
+        enabled: input.enabled,
+        ...triggerData(input.trigger),
+        condition: input.condition,
+        actions: input.actions,
+        createdById: userId,
+      },
+    });
+    return toRuleDto(rule);
+  }
+
+  async update(id: string, input: UpdateAutomationRuleInput, userId: string) {
+    const rule = await this.findRule(id);
+    await this.access.requireRole(rule.boardId, userId, BoardRole.admin);
+    await this.requireReferences(rule.boardId, input.trigger, input.actions);
+
+    const updated = await this.prisma.automationRule.update({
+      where: { id },
+      data: {
+        name: input.name,
+        enabled: input.enabled,
+        ...(input.trigger && triggerData(input.trigger)),
+        condition: input.condition,
+        actions: input.actions,
+      },
+    });
+    return toRuleDto(updated);
+  }
+
+  /** Deletes a rule along with its part of the audit log. */
+  async remove(id: string, userId: string) {
+    const rule = await this.findRule(id);
+    await this.access.requireRole(rule.boardId, userId, BoardRole.admin);
+    await this.prisma.automationRule.delete({ where: { id } });
+    return { id };
+  }
+
+  /** The board's latest rule runs, newest first, optionally for one rule. */
+  async listRuns(boardId: string, ruleId: string | undefined, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.viewer);
+    const runs = await this.prisma.automationRun.findMany({
+      where: { boardId, ruleId },
+      select: {
+        id: true,
+        ruleId: true,
+        trigger: true,
+        outcome: true,
+        details: true,
+        message: true,
+        createdAt: true,
+        rule: { select: { name: true } },
+        issue: { select: { id: true, key: true, title: true } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: RUN_LIMIT,
+    });
+    return runs.map(({ rule, ...run }) => ({ ...run, ruleName: rule.name }));
+  }
+
+  private async findRule(id: string) {
+    const rule = await this.prisma.automationRule.findUnique({ where: { id } });
+    if (!rule) throw new NotFoundException("Automation rule not found");
+    return rule;
+  }
+
+  /** Statuses, sprints and people a rule names must belong to the board. */
+  private async requireReferences(
+    boardId: string,
+    trigger: RuleTrigger | undefined,
+    actions: AutomationAction[] | undefined
+  ) {
+    if (trigger?.type === "status_changed" && trigger.toStatusId) {
+      const status = await this.prisma.status.findFirst({
+        where: { id: trigger.toStatusId, boardId },
+        select: { id: true },
+      });
+      if (!status)
+        throw new BadRequestException("toStatusId must reference a status on this board");
+    }
+
+    const userIds = (actions ?? []).flatMap((a) =>
+      (a.type === "assign" || a.type === "add_watcher") && a.userId ? [a.userId] : []
+    );
+    await this.access.requireMembers(boardId, userIds, "userId");
+
+    const sprintIds = [
+      ...new Set(
+        (actions ?? []).flatMap((a) =>
+          a.type === "move_to_sprint" && a.sprintId ? [a.sprintId] : []
+        )
+      ),
+    ];
+    const sprints = await this.prisma.sprint.count({ where: { boardId, id: { in: sprintIds } } });
+    if (sprints !== sprintIds.length) {
+      throw new BadRequestException("sprintId must reference a sprint on this board");
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import type { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+
+// Addresses a webhook may never reach: this host, the private networks around
+// it, link-local (cloud metadata lives at 169.254.169.254) and the reserved
+// ranges that are not routed on the public internet.
+const BLOCKED = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64 addresses can point anywhere in IPv4. IPv4-mapped ones
+  // (::ffff:a.b.c.d) are checked against the IPv4 ranges above.
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, "ipv6");
+}
+
+function isBlocked(address: string) {
+  const family = isIP(address);
+  return family === 0 || BLOCKED.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolves the host of a webhook `url` and fails unless every address it
+ * resolves to is public, so a rule can't be used to call into the server's
+ * own network. Returns the address to connect to.
+ */
+export async function resolvePublicAddress(url: URL): Promise<LookupAddress> {
+  // IPv6 literals keep their brackets in `hostname`.
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: LookupAddress[];
+  if (isIP(hostname)) {
+    addresses = [{ address: hostname, family: isIP(hostname) }];
+  } else {
+    try {
+      addresses = await lookup(hostname, { all: true });
+    } catch {
+      throw new Error(`Webhook host ${url.host} could not be resolved`);
+    }
+  }
+  if (addresses.length === 0 || addresses.some((a) => isBlocked(a.address))) {
+    throw new Error(`Webhook to ${url.host} points at a private address`);
+  }
+  return addresses[0];
+}
+
+/**
+ * POSTs `body` as JSON to `url` at `address`, which `resolvePublicAddress`
+ * checked, and resolves with the status it answered. The host is not looked
+ * up again, so it can't pass the check with a public address and then be
+ * reached at a private one. Redirects are not followed; they count as answers.
+ */
+export function postWebhook(url: URL, address: LookupAddress, body: string, timeoutMs: number) {
+  const pinned: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, [address]);
+    else callback(null, address.address, address.family);
+  };
+  const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+
+  return new Promise<number>((resolve, reject) => {
+    const req = send(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "content-length": Buffer.byteLength(body),
+        },
+        lookup: pinned,
+      },
+      (res) => {
+        clearTimeout(timer);
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    const timer = setTimeout(() => {
+      const err = new Error(`No answer after ${timeoutMs}ms`);
+      err.name = "TimeoutError";
+      req.destroy(err);
+    }, timeoutMs);
+    req.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    req.end(body);
+  });
+}
@@ -0,0 +1,69 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+import { BoardRole } from "../../generated/prisma/client";
+
+const ROLE_RANK: Record<BoardRole, number> = {
+  [BoardRole.viewer]: 0,
+  [BoardRole.editor]: 1,
+  [BoardRole.admin]: 2,
+};
+
+export function hasRole(actual: BoardRole, required: BoardRole) {
+  return ROLE_RANK[actual] >= ROLE_RANK[required];
+}
+
+/**
+ * Single place that decides what a user may do on a board.
+ * Roles are ordered viewer < editor < admin; each check requires
+ * at least the given role.
+ */
+@Injectable()
+export class BoardAccessService {
+  constructor(private prisma: PrismaService) {}
+
+  async requireRole(boardId: string, userId: string, required: BoardRole) {
+    const board = await this.prisma.board.findUnique({
+      where: { id: boardId },
+      include: { members: { where: { userId } } },
+    });
+    if (!board) throw new NotFoundException("Board not found");
+
+    const member = board.members[0];
+    if (!member) throw new ForbiddenException("Not a member of this board");
+    if (!hasRole(member.role, required)) {
+      throw new ForbiddenException(`Requires ${required} role on this board`);
+    }
+
+    return member;
+  }
+
+  /** Resolves the issue's board and checks access in one go. */
+  async requireIssueRole(issueId: string, userId: string, required: BoardRole) {
+    const issue = await this.prisma.issue.findUnique({ where: { id: issueId } });
+    if (!issue) throw new NotFoundException("Issue not found");
+
+    await this.requireRole(issue.boardId, userId, required);
+    return issue;
+  }
+
+  /**
+   * Rejects user ids that are not members of the board, so assignees and
+   * watchers always point at people who can see the issue.
+   */
+  async requireMembers(boardId: string, userIds: string[], field: string) {
+    const ids = [...new Set(userIds)];
+    if (ids.length === 0) return;
+
+    const found = await this.prisma.boardMember.count({
+      where: { boardId, userId: { in: ids } },
+    });
+    if (found !== ids.length) {
+      throw new BadRequestException(`${field} must reference members of this board`);
+    }
+  }
+}
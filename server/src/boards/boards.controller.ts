@@ -1,15 +1,25 @@
-import { Body, Controller, Get, Param, Patch, Post, Req, UseGuards } from "@nestjs/common";
+import { Body, Controller, Delete, Get, Param, Patch, Post, Req, UseGuards } from "@nestjs/common";
 import { BoardsService } from "./boards.service";
 import { JwtAuthGuard } from "../auth/jwt-auth.guard";
 import { ZodValidationPipe } from "nestjs-zod";
 import {
   CreateBoardInputSchema,
+  AddBoardMemberInputSchema,
+  UpdateBoardMemberInputSchema,
   CreateSprintInputSchema,
-  SetActiveSprintInputSchema,
+  UpdateSprintInputSchema,
+  ReorderSprintsInputSchema,
+  StartSprintInputSchema,
+  CompleteSprintInputSchema,
   MoveIssueInputSchema,
   type CreateBoardInput,
+  type AddBoardMemberInput,
+  type UpdateBoardMemberInput,
   type CreateSprintInput,
-  type SetActiveSprintInput,
+  type UpdateSprintInput,
+  type ReorderSprintsInput,
+  type StartSprintInput,
+  type CompleteSprintInput,
   type MoveIssueInput,
 } from "@jira-lab/shared";
 
@@ -28,7 +38,40 @@ export class BoardsController {
     @Req() req: any,
     @Body(new ZodValidationPipe(CreateBoardInputSchema)) body: CreateBoardInput
   ) {
-    return this.service.create(body.name, req.user.id);
+    return this.service.create(body, req.user.id);
+  }
+
+  @Get(":boardId/members")
+  listMembers(@Req() req: any, @Param("boardId") boardId: string) {
+    return this.service.listMembers(boardId, req.user.id);
+  }
+
+  @Post(":boardId/members")
+  addMember(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Body(new ZodValidationPipe(AddBoardMemberInputSchema)) body: AddBoardMemberInput
+  ) {
+    return this.service.addMember(boardId, body, req.user.id);
+  }
+
+  @Patch(":boardId/members/:userId")
+  updateMember(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Param("userId") memberUserId: string,
+    @Body(new ZodValidationPipe(UpdateBoardMemberInputSchema)) body: UpdateBoardMemberInput
+  ) {
+    return this.service.updateMember(boardId, memberUserId, body.role, req.user.id);
+  }
+
+  @Delete(":boardId/members/:userId")
+  removeMember(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Param("userId") memberUserId: string
+  ) {
+    return this.service.removeMember(boardId, memberUserId, req.user.id);
   }
 
   @Get(":boardId/sprints")
@@ -36,6 +79,20 @@ export class BoardsController {
     return this.service.listSprints(boardId, req.user.id);
   }
 
+  @Get(":boardId/sprints/:sprintId/summary")
+  sprintSummary(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Param("sprintId") sprintId: string
+  ) {
+    return this.service.sprintSummary(boardId, sprintId, req.user.id);
+  }
+
+  @Get(":boardId/labels")
+  listLabels(@Req() req: any, @Param("boardId") boardId: string) {
+    return this.service.listLabels(boardId, req.user.id);
+  }
+
   @Post(":boardId/sprints")
   createSprint(
     @Req() req: any,
@@ -45,13 +102,53 @@ export class BoardsController {
     return this.service.createSprint(boardId, body, req.user.id);
   }
 
-  @Patch(":boardId/active-sprint")
-  setActiveSprint(
+  // Declared before `:sprintId` so "order" isn't taken for a sprint id.
+  @Patch(":boardId/sprints/order")
+  reorderSprints(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Body(new ZodValidationPipe(ReorderSprintsInputSchema)) body: ReorderSprintsInput
+  ) {
+    return this.service.reorderSprints(boardId, body.ids, req.user.id);
+  }
+
+  @Patch(":boardId/sprints/:sprintId")
+  updateSprint(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Param("sprintId") sprintId: string,
+    @Body(new ZodValidationPipe(UpdateSprintInputSchema)) body: UpdateSprintInput
+  ) {
+    return this.service.updateSprint(boardId, sprintId, body, req.user.id);
+  }
+
+  @Delete(":boardId/sprints/:sprintId")
+  deleteSprint(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Param("sprintId") sprintId: string
+  ) {
+    return this.service.deleteSprint(boardId, sprintId, req.user.id);
+  }
+
+  @Post(":boardId/sprints/:sprintId/start")
+  startSprint(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Param("sprintId") sprintId: string,
+    @Body(new ZodValidationPipe(StartSprintInputSchema)) body: StartSprintInput
+  ) {
+    return this.service.startSprint(boardId, sprintId, body, req.user.id);
+  }
+
+  @Post(":boardId/sprints/:sprintId/complete")
+  completeSprint(
     @Req() req: any,
     @Param("boardId") boardId: string,
-    @Body(new ZodValidationPipe(SetActiveSprintInputSchema)) body: SetActiveSprintInput
+    @Param("sprintId") sprintId: string,
+    @Body(new ZodValidationPipe(CompleteSprintInputSchema)) body: CompleteSprintInput
   ) {
-    return this.service.setActiveSprint(boardId, body.sprintId, req.user.id);
+    return this.service.completeSprint(boardId, sprintId, body, req.user.id);
   }
 
   @Patch(":boardId/issues/:id/move")
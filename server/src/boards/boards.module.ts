@@ -1,11 +1,14 @@
 import { Module } from "@nestjs/common";
 import { BoardsController } from "./boards.controller";
 import { BoardsService } from "./boards.service";
+import { BoardAccessService } from "./board-access.service";
 import { PrismaModule } from "../prisma/prisma.module";
+import { AutomationEngineModule } from "../automations/automation-engine.module";
 
 @Module({
   controllers: [BoardsController],
-  providers: [BoardsService],
-  imports: [PrismaModule],
+  providers: [BoardsService, BoardAccessService],
+  imports: [PrismaModule, AutomationEngineModule],
+  exports: [BoardAccessService],
 })
 export class BoardsModule {}
@@ -1,9 +1,44 @@
-import { ForbiddenException, Injectable, NotFoundException } from "@nestjs/common";
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
 import { PrismaService } from "../prisma/prisma.service";
-import { IssueStatus } from "../../generated/prisma/client";
+import { isUniqueViolation } from "../prisma/prisma-errors";
+import {
+  BoardRole,
+  SprintState,
+  StatusCategory,
+  type Issue,
+  type Prisma,
+} from "../../generated/prisma/client";
+import {
+  DEFAULT_WORKFLOW,
+  sprintEntryProblem,
+  sprintLockProblem,
+  suggestBoardKey,
+} from "@jira-lab/shared";
+import { BoardAccessService } from "./board-access.service";
+import { diffIssue } from "../issues/issue-history";
+import { requireTransition, requireWipRoom, resolveIssueStatus } from "../statuses/issue-status";
+import { AutomationEngine } from "../automations/automation-engine.service";
 
 const ORDER_STEP = 1000;
 
+// Suggested keys picked at the same moment can collide; give up after this many.
+const KEY_ATTEMPTS = 5;
+
+// Archived and deleted issues are off the board: not counted, not reordered.
+const ON_BOARD = { archivedAt: null, deletedAt: null };
+
+// Active sprint first, then the planned ones, then the closed ones.
+const SPRINT_STATE_ORDER: Record<SprintState, number> = {
+  [SprintState.active]: 0,
+  [SprintState.planned]: 1,
+  [SprintState.closed]: 2,
+};
+
 function normalizeOrders<T extends { id: string }>(items: T[]) {
   return items.map((it, idx) => ({
     id: it.id,
@@ -13,148 +48,586 @@ function normalizeOrders<T extends { id: string }>(items: T[]) {
 
 @Injectable()
 export class BoardsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private access: BoardAccessService,
+    private automations: AutomationEngine
+  ) {}
+
+  async list(userId: string) {
+    const boards = await this.prisma.board.findMany({
+      where: { members: { some: { userId } } },
+      include: { members: { where: { userId }, select: { role: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+    return boards.map(({ members, ...board }) => ({ ...board, role: members[0].role }));
+  }
+
+  /**
+   * Creates a board under `input.key`, or the first free key suggested by its
+   * name. A suggested key another board took in the meantime is re-picked; a
+   * key the user chose fails with 409 instead.
+   */
+  async create(input: { name: string; key?: string }, userId: string) {
+    for (let attempt = 1; ; attempt++) {
+      const key = input.key ?? (await this.nextFreeKey(suggestBoardKey(input.name)));
+      try {
+        const board = await this.prisma.board.create({
+          data: {
+            name: input.name,
+            key,
+            userId,
+            members: { create: { userId, role: BoardRole.admin } },
+            statuses: {
+              create: DEFAULT_WORKFLOW.map((status, idx) => ({
+                ...status,
+                order: (idx + 1) * ORDER_STEP,
+              })),
+            },
+          },
+        });
+        return { ...board, role: BoardRole.admin };
+      } catch (err) {
+        if (!isUniqueViolation(err)) throw err;
+        if (input.key || attempt === KEY_ATTEMPTS) {
+          throw new ConflictException(`Board key ${key} is already in use`);
+        }
+      }
+    }
+  }
+
+  /** First of `BASE`, `BASE2`, `BASE3`, ... that no board uses yet. */
+  private async nextFreeKey(base: string) {
+    const existing = await this.prisma.board.findMany({
+      where: { key: { startsWith: base } },
+      select: { key: true },
+    });
+    const used = new Set(existing.map((b) => b.key));
+
+    let key = base;
+    for (let n = 2; used.has(key); n++) key = `${base}${n}`;
+    return key;
+  }
 
-  list(userId: string) {
-    return this.prisma.board.findMany({
-      where: { userId },
+  // ----------------------------
+  // Members
+  // ----------------------------
+  async listMembers(boardId: string, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.viewer);
+    const members = await this.prisma.boardMember.findMany({
+      where: { boardId },
+      include: { user: { select: { name: true, email: true } } },
       orderBy: { createdAt: "asc" },
     });
+    return members.map((m) => ({
+      userId: m.userId,
+      name: m.user.name,
+      email: m.user.email,
+      role: m.role,
+    }));
+  }
+
+  async addMember(boardId: string, args: { userId: string; role: BoardRole }, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.admin);
+
+    const user = await this.prisma.user.findUnique({ where: { id: args.userId } });
+    if (!user) throw new NotFoundException("User not found");
+
+    const existing = await this.prisma.boardMember.findUnique({
+      where: { boardId_userId: { boardId, userId: args.userId } },
+    });
+    if (existing) throw new ConflictException("User is already a member of this board");
+
+    await this.prisma.boardMember.create({
+      data: { boardId, userId: args.userId, role: args.role },
+    });
+    return { userId: user.id, name: user.name, email: user.email, role: args.role };
+  }
+
+  async updateMember(boardId: string, memberUserId: string, role: BoardRole, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.admin);
+    const member = await this.findMember(boardId, memberUserId);
+
+    if (member.role === BoardRole.admin && role !== BoardRole.admin) {
+      await this.ensureAnotherAdmin(boardId, memberUserId);
+    }
+
+    const updated = await this.prisma.boardMember.update({
+      where: { id: member.id },
+      data: { role },
+      include: { user: { select: { name: true, email: true } } },
+    });
+    return {
+      userId: updated.userId,
+      name: updated.user.name,
+      email: updated.user.email,
+      role: updated.role,
+    };
+  }
+
+  /** Admins can remove anyone; any member can remove themselves (leave). */
+  async removeMember(boardId: string, memberUserId: string, userId: string) {
+    const required = memberUserId === userId ? BoardRole.viewer : BoardRole.admin;
+    await this.access.requireRole(boardId, userId, required);
+    const member = await this.findMember(boardId, memberUserId);
+
+    if (member.role === BoardRole.admin) {
+      await this.ensureAnotherAdmin(boardId, memberUserId);
+    }
+
+    await this.prisma.boardMember.delete({ where: { id: member.id } });
+    return { userId: memberUserId };
   }
 
-  create(name: string, userId: string) {
-    return this.prisma.board.create({ data: { name, userId } });
+  private async findMember(boardId: string, memberUserId: string) {
+    const member = await this.prisma.boardMember.findUnique({
+      where: { boardId_userId: { boardId, userId: memberUserId } },
+    });
+    if (!member) throw new NotFoundException("Member not found");
+    return member;
   }
 
-  private async verifyBoardOwnership(boardId: string, userId: string) {
-    const board = await this.prisma.board.findUnique({
-      where: { id: boardId },
+  private async ensureAnotherAdmin(boardId: string, exceptUserId: string) {
+    const admins = await this.prisma.boardMember.count({
+      where: { boardId, role: BoardRole.admin, userId: { not: exceptUserId } },
     });
-    if (!board) throw new NotFoundException("Board not found");
-    if (board.userId !== userId) throw new ForbiddenException("Not your board");
-    return board;
+    if (admins === 0) throw new BadRequestException("Board must keep at least one admin");
   }
 
+  // ----------------------------
+  // Sprints
+  // ----------------------------
   async listSprints(boardId: string, userId: string) {
-    await this.verifyBoardOwnership(boardId, userId);
-    return this.prisma.sprint.findMany({
+    await this.access.requireRole(boardId, userId, BoardRole.viewer);
+    const sprints = await this.prisma.sprint.findMany({
+      where: { boardId },
+      orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+    });
+    return sprints.sort((a, b) => SPRINT_STATE_ORDER[a.state] - SPRINT_STATE_ORDER[b.state]);
+  }
+
+  /** Distinct labels used on a board, for autocomplete. */
+  async listLabels(boardId: string, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.viewer);
+    const rows = await this.prisma.issue.findMany({
+      where: { boardId, labels: { isEmpty: false }, deletedAt: null },
+      select: { labels: true },
+    });
+    return [...new Set(rows.flatMap((r) => r.labels))].sort((a, b) => a.localeCompare(b));
+  }
+
+  async createSprint(
+    boardId: string,
+    args: { name: string; goal?: string | null },
+    userId: string
+  ) {
+    await this.access.requireRole(boardId, userId, BoardRole.editor);
+    const last = await this.prisma.sprint.aggregate({
       where: { boardId },
-      orderBy: [{ isActive: "desc" }, { createdAt: "asc" }],
+      _max: { order: true },
+    });
+    return this.prisma.sprint.create({
+      data: {
+        boardId,
+        name: args.name,
+        goal: args.goal ?? null,
+        order: (last._max.order ?? 0) + ORDER_STEP,
+      },
+    });
+  }
+
+  /**
+   * Renames a sprint or changes its goal or dates. Closed sprints are kept as
+   * they were; the active sprint must keep both of its dates.
+   */
+  async updateSprint(
+    boardId: string,
+    sprintId: string,
+    args: {
+      name?: string;
+      goal?: string | null;
+      startDate?: string | null;
+      endDate?: string | null;
+    },
+    userId: string
+  ) {
+    await this.access.requireRole(boardId, userId, BoardRole.editor);
+    const sprint = await this.requireSprint(boardId, sprintId);
+    if (sprint.state === SprintState.closed) {
+      throw new BadRequestException("Closed sprints can't be changed");
+    }
+
+    const day = (value: string | null) => (value === null ? null : new Date(value));
+    const startDate = args.startDate !== undefined ? day(args.startDate) : sprint.startDate;
+    const endDate = args.endDate !== undefined ? day(args.endDate) : sprint.endDate;
+    if (sprint.state === SprintState.active && (!startDate || !endDate)) {
+      throw new BadRequestException("The active sprint needs a start and an end date");
+    }
+    if (startDate && endDate && endDate < startDate) {
+      throw new BadRequestException("Sprint cannot end before it starts");
+    }
+
+    return this.prisma.sprint.update({
+      where: { id: sprintId },
+      data: {
+        ...(args.name !== undefined ? { name: args.name } : {}),
+        ...(args.goal !== undefined ? { goal: args.goal } : {}),
+        startDate,
+        endDate,
+      },
+    });
+  }
+
+  /** Puts the board's planned sprints in the given order; `ids` must list all of them. */
+  async reorderSprints(boardId: string, ids: string[], userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.editor);
+
+    const planned = await this.prisma.sprint.findMany({
+      where: { boardId, state: SprintState.planned },
+      select: { id: true },
+    });
+    const known = new Set(planned.map((s) => s.id));
+    if (ids.length !== known.size || ids.some((id) => !known.has(id))) {
+      throw new BadRequestException("ids must list every planned sprint of the board");
+    }
+
+    // Planned sprints come after the ones already started, whatever their order.
+    const last = await this.prisma.sprint.aggregate({
+      where: { boardId, state: { not: SprintState.planned } },
+      _max: { order: true },
+    });
+    const base = last._max.order ?? 0;
+    await this.prisma.$transaction(
+      ids.map((id, idx) =>
+        this.prisma.sprint.update({ where: { id }, data: { order: base + (idx + 1) * ORDER_STEP } })
+      )
+    );
+    return this.listSprints(boardId, userId);
+  }
+
+  /**
+   * Deletes a planned or the active sprint. Its issues, including archived
+   * and trashed ones, go to the backlog; closed sprints stay for reporting.
+   */
+  async deleteSprint(boardId: string, sprintId: string, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.editor);
+    const sprint = await this.requireSprint(boardId, sprintId);
+    if (sprint.state === SprintState.closed) {
+      throw new BadRequestException("Closed sprints can't be deleted");
+    }
+
+    const moved = await this.prisma.$transaction(async (tx) => {
+      const issues = await tx.issue.findMany({
+        where: { boardId, sprintId },
+        orderBy: { order: "asc" },
+      });
+      const moved = await this.moveToSprint(tx, boardId, issues, null, userId);
+      await tx.sprint.delete({ where: { id: sprintId } });
+      return moved;
+    });
+    // Rules only run for issues still on the board.
+    this.automations.issuesChanged(
+      moved.filter((m) => !m.before.archivedAt && !m.before.deletedAt)
+    );
+    return { id: sprintId, movedCount: moved.length };
+  }
+
+  /** Starts a planned sprint. A board runs one sprint at a time. */
+  async startSprint(
+    boardId: string,
+    sprintId: string,
+    args: { goal?: string | null; startDate: string; endDate: string },
+    userId: string
+  ) {
+    await this.access.requireRole(boardId, userId, BoardRole.editor);
+    const sprint = await this.requireSprint(boardId, sprintId);
+    if (sprint.state !== SprintState.planned) {
+      throw new BadRequestException("Only planned sprints can be started");
+    }
+
+    const active = await this.prisma.sprint.findFirst({
+      where: { boardId, state: SprintState.active },
+      select: { name: true },
     });
+    if (active) {
+      throw new ConflictException(`Complete ${active.name} before starting another sprint`);
+    }
+    let started;
+    try {
+      started = await this.prisma.sprint.update({
+        where: { id: sprintId },
+        data: {
+          state: SprintState.active,
+          startDate: new Date(args.startDate),
+          endDate: new Date(args.endDate),
+          ...(args.goal !== undefined ? { goal: args.goal } : {}),
+        },
+      });
+    } catch (err) {
+      // The board's one active sprint is held by a unique index.
+      if (!isUniqueViolation(err)) throw err;
+      throw new ConflictException("Another sprint was started at the same time");
+    }
+    this.automations.sprintStarted(boardId, sprintId);
+    return started;
   }
 
-  async createSprint(boardId: string, args: { name: string; isActive?: boolean }, userId: string) {
-    await this.verifyBoardOwnership(boardId, userId);
-    const isActive = !!args.isActive;
+  /**
+   * Closes the active sprint. Finished issues stay with it; the rest go to
+   * the end of their columns in `moveTo`, a planned sprint, or to the
+   * backlog, where they start over in the initial status.
+   */
+  async completeSprint(
+    boardId: string,
+    sprintId: string,
+    args: { moveTo: string | null },
+    userId: string
+  ) {
+    await this.access.requireRole(boardId, userId, BoardRole.editor);
+    await this.requireSprint(boardId, sprintId);
+    const target = args.moveTo ? await this.requireSprint(boardId, args.moveTo) : null;
+    if (target && target.state !== SprintState.planned) {
+      throw new BadRequestException("Unfinished issues can only move to a planned sprint");
+    }
+    const toSprintId = target?.id ?? null;
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Closing first means two completions of the same sprint can't both go ahead.
+      const closing = await tx.sprint.updateMany({
+        where: { id: sprintId, state: SprintState.active },
+        data: { state: SprintState.closed, completedAt: new Date() },
+      });
+      if (closing.count === 0) {
+        throw new BadRequestException("Only the active sprint can be completed");
+      }
+
+      const [issues, doneStatuses] = await Promise.all([
+        tx.issue.findMany({ where: { boardId, sprintId, ...ON_BOARD }, orderBy: { order: "asc" } }),
+        tx.status.findMany({
+          where: { boardId, category: StatusCategory.done },
+          select: { id: true },
+        }),
+      ]);
+      const done = new Set(doneStatuses.map((s) => s.id));
+      const finished = issues.filter((i) => done.has(i.statusId));
+      const unfinished = issues.filter((i) => !done.has(i.statusId));
+      const moved = await this.moveToSprint(tx, boardId, unfinished, toSprintId, userId);
+
+      const closed = await tx.sprint.findUniqueOrThrow({ where: { id: sprintId } });
+      return { closed, finished, moved };
+    });
+    this.automations.issuesChanged(result.moved);
+
+    const points = (list: Array<{ storyPoints: number | null }>) =>
+      list.reduce((sum, i) => sum + (i.storyPoints ?? 0), 0);
+    return {
+      sprint: result.closed,
+      completed: { issueCount: result.finished.length, points: points(result.finished) },
+      incomplete: {
+        issueCount: result.moved.length,
+        points: points(result.moved.map((m) => m.before)),
+      },
+      movedTo: target ? { id: target.id, name: target.name } : null,
+    };
+  }
 
-    return this.prisma.$transaction(async (tx) => {
-      if (isActive) {
-        await tx.sprint.updateMany({
-          where: { boardId, isActive: true },
-          data: { isActive: false },
+  /**
+   * Moves issues to the end of their columns in `toSprintId`, or to the
+   * backlog when it is null, where they start over in the initial status.
+   */
+  private async moveToSprint(
+    tx: Prisma.TransactionClient,
+    boardId: string,
+    issues: Issue[],
+    toSprintId: string | null,
+    userId: string
+  ) {
+    // Each destination column keeps its issues and takes the moved ones after them.
+    const nextOrder = new Map<string, number>();
+    const moved: Array<{ before: Issue; after: Issue }> = [];
+    for (const issue of issues) {
+      const statusId = await resolveIssueStatus(tx, boardId, {
+        current: issue.statusId,
+        toBacklog: toSprintId === null,
+      });
+      if (!nextOrder.has(statusId)) {
+        const last = await tx.issue.aggregate({
+          where: { boardId, sprintId: toSprintId, statusId, ...ON_BOARD },
+          _max: { order: true },
         });
+        nextOrder.set(statusId, last._max.order ?? 0);
       }
-      return tx.sprint.create({
-        data: { boardId, name: args.name, isActive },
+      const order = nextOrder.get(statusId)! + ORDER_STEP;
+      nextOrder.set(statusId, order);
+
+      const after = await tx.issue.update({
+        where: { id: issue.id },
+        data: { sprintId: toSprintId, statusId, order, version: { increment: 1 } },
       });
-    });
+      await tx.issueEvent.createMany({ data: diffIssue(issue, after, userId) });
+      moved.push({ before: issue, after });
+    }
+    return moved;
+  }
+
+  private async requireSprint(boardId: string, sprintId: string) {
+    const sprint = await this.prisma.sprint.findFirst({ where: { id: sprintId, boardId } });
+    if (!sprint) throw new NotFoundException("Sprint not found for this board");
+    return sprint;
   }
 
-  async setActiveSprint(boardId: string, sprintId: string, userId: string) {
-    await this.verifyBoardOwnership(boardId, userId);
+  /** Story point and time totals for a sprint's issues, for planning and burndown. */
+  async sprintSummary(boardId: string, sprintId: string, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.viewer);
 
     const sprint = await this.prisma.sprint.findFirst({
       where: { id: sprintId, boardId },
+      select: { id: true },
     });
     if (!sprint) throw new NotFoundException("Sprint not found for this board");
 
-    return this.prisma.$transaction(async (tx) => {
-      await tx.sprint.updateMany({
-        where: { boardId, isActive: true },
-        data: { isActive: false },
-      });
-      return tx.sprint.update({
-        where: { id: sprintId },
-        data: { isActive: true },
-      });
-    });
+    const where = { boardId, sprintId, ...ON_BOARD };
+    const [byStatus, doneStatuses, unestimatedCount, spent] = await Promise.all([
+      this.prisma.issue.groupBy({
+        by: ["statusId"],
+        where,
+        _count: { _all: true },
+        _sum: { storyPoints: true, originalEstimate: true, remainingEstimate: true },
+      }),
+      this.prisma.status.findMany({
+        where: { boardId, category: StatusCategory.done },
+        select: { id: true },
+      }),
+      this.prisma.issue.count({ where: { ...where, storyPoints: null } }),
+      this.prisma.worklog.aggregate({ where: { issue: where }, _sum: { minutes: true } }),
+    ]);
+
+    const summary = {
+      sprintId,
+      issueCount: 0,
+      unestimatedCount,
+      points: { total: 0, done: 0, byStatus: {} as Record<string, number> },
+      originalEstimate: 0,
+      remainingEstimate: 0,
+      timeSpent: spent._sum.minutes ?? 0,
+    };
+    const done = new Set(doneStatuses.map((s) => s.id));
+    for (const row of byStatus) {
+      const points = row._sum.storyPoints ?? 0;
+      summary.issueCount += row._count._all;
+      summary.points.total += points;
+      summary.points.byStatus[row.statusId] = points;
+      if (done.has(row.statusId)) summary.points.done += points;
+      summary.originalEstimate += row._sum.originalEstimate ?? 0;
+      summary.remainingEstimate += row._sum.remainingEstimate ?? 0;
+    }
+    return summary;
   }
 
   async moveIssue(
     boardId: string,
     id: string,
-    body: { sprintId: string | null; status?: string; order?: number },
+    body: { sprintId: string | null; statusId?: string; order?: number },
     userId: string
   ) {
-    await this.verifyBoardOwnership(boardId, userId);
+    await this.access.requireRole(boardId, userId, BoardRole.editor);
 
     const issue = await this.prisma.issue.findUnique({ where: { id } });
-    if (!issue || issue.boardId !== boardId) {
+    if (!issue || issue.boardId !== boardId || issue.deletedAt) {
       throw new NotFoundException("Issue not found");
     }
+    if (issue.archivedAt) throw new BadRequestException("Unarchive the issue before moving it");
 
     const fromSprintId = issue.sprintId;
-    const fromStatus = issue.status;
+    const fromStatus = issue.statusId;
+    if (fromSprintId !== null) {
+      const source = await this.requireSprint(boardId, fromSprintId);
+      const problem = sprintLockProblem(source.state);
+      if (problem) throw new BadRequestException(problem);
+    }
 
     const toSprintId = body.sprintId ?? null;
+    if (toSprintId !== null) {
+      const target = await this.requireSprint(boardId, toSprintId);
+      const problem = sprintEntryProblem(target.state);
+      if (problem) throw new BadRequestException(problem);
+    }
 
-    const toStatus =
-      (body.status as IssueStatus | undefined) ??
-      (toSprintId ? IssueStatus.todo : IssueStatus.backlog);
+    const toStatus = await resolveIssueStatus(this.prisma, boardId, {
+      current: fromStatus,
+      requested: body.statusId,
+      toBacklog: toSprintId === null,
+    });
+    // Going back to the backlog resets the status rather than moving it along.
+    if (toSprintId !== null) {
+      await requireTransition(this.prisma, issue, toStatus, issue.assigneeId);
+    }
 
-    if (fromSprintId === toSprintId && fromStatus === toStatus) {
+    const sameColumn = fromSprintId === toSprintId && fromStatus === toStatus;
+    if (sameColumn && body.order === undefined) {
       return this.prisma.issue.findMany({
-        where: { boardId, sprintId: toSprintId },
-        orderBy: [{ status: "asc" }, { order: "asc" }],
+        where: { boardId, sprintId: toSprintId, ...ON_BOARD },
+        orderBy: [{ status: { order: "asc" } }, { order: "asc" }],
       });
     }
 
     const [fromList, toList] = await Promise.all([
       this.prisma.issue.findMany({
-        where: { boardId, sprintId: fromSprintId, status: fromStatus },
+        where: { boardId, sprintId: fromSprintId, statusId: fromStatus, ...ON_BOARD },
         orderBy: { order: "asc" },
       }),
       this.prisma.issue.findMany({
-        where: { boardId, sprintId: toSprintId, status: toStatus },
+        where: { boardId, sprintId: toSprintId, statusId: toStatus, ...ON_BOARD },
         orderBy: { order: "asc" },
       }),
     ]);
 
     const fromWithout = fromList.filter((x) => x.id !== id);
+    const toWithout = toList.filter((x) => x.id !== id);
 
-    const toNext = [...toList, { ...issue, sprintId: toSprintId, status: toStatus }];
+    // Before the first issue ordered after `body.order`; at the end without one.
+    const after = body.order === undefined ? -1 : toWithout.findIndex((x) => x.order > body.order!);
+    const at = after === -1 ? toWithout.length : after;
+    const toNext = [
+      ...toWithout.slice(0, at),
+      { ...issue, sprintId: toSprintId, statusId: toStatus },
+      ...toWithout.slice(at),
+    ];
 
-    const normalizedFrom = normalizeOrders(fromWithout);
+    // Within one column, the new order of the column covers the old one.
+    const normalizedFrom = sameColumn ? [] : normalizeOrders(fromWithout);
     const normalizedTo = normalizeOrders(toNext);
 
-    await this.prisma.$transaction([
-      this.prisma.issue.update({
+    await this.prisma.$transaction(async (tx) => {
+      if (!sameColumn) {
+        await requireWipRoom(tx, [{ id, sprintId: toSprintId, statusId: toStatus }]);
+      }
+      await tx.issue.update({
         where: { id },
         data: {
           sprintId: toSprintId,
-          status: toStatus,
+          statusId: toStatus,
           order: normalizedTo.find((x) => x.id === id)!.order,
+          version: { increment: 1 },
         },
-      }),
-      ...normalizedFrom.map((it) =>
-        this.prisma.issue.update({
+      });
+      await tx.issueEvent.createMany({
+        data: diffIssue(issue, { ...issue, sprintId: toSprintId, statusId: toStatus }, userId),
+      });
+      for (const it of [...normalizedFrom, ...normalizedTo.filter((it) => it.id !== id)]) {
+        await tx.issue.update({
           where: { id: it.id },
           data: { order: it.order },
-        })
-      ),
-      ...normalizedTo
-        .filter((it) => it.id !== id)
-        .map((it) =>
-          this.prisma.issue.update({
-            where: { id: it.id },
-            data: { order: it.order },
-          })
-        ),
+        });
+      }
+    });
+    this.automations.issuesChanged([
+      { before: issue, after: await this.prisma.issue.findUniqueOrThrow({ where: { id } }) },
     ]);
 
     return this.prisma.issue.findMany({
-      where: { boardId, sprintId: toSprintId },
-      orderBy: [{ status: "asc" }, { order: "asc" }],
+      where: { boardId, sprintId: toSprintId, ...ON_BOARD },
+      orderBy: [{ status: { order: "asc" } }, { order: "asc" }],
     });
   }
 }
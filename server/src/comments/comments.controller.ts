@@ -0,0 +1,50 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Req, UseGuards } from "@nestjs/common";
+import { CommentsService } from "./comments.service";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+import { ZodValidationPipe } from "nestjs-zod";
+import {
+  CreateCommentInputSchema,
+  UpdateCommentInputSchema,
+  type CreateCommentInput,
+  type UpdateCommentInput,
+} from "@jira-lab/shared";
+
+@Controller("issues/:issueId/comments")
+@UseGuards(JwtAuthGuard)
+export class IssueCommentsController {
+  constructor(private service: CommentsService) {}
+
+  @Get()
+  list(@Req() req: any, @Param("issueId") issueId: string) {
+    return this.service.list(issueId, req.user.id);
+  }
+
+  @Post()
+  create(
+    @Req() req: any,
+    @Param("issueId") issueId: string,
+    @Body(new ZodValidationPipe(CreateCommentInputSchema)) body: CreateCommentInput
+  ) {
+    return this.service.create(issueId, body, req.user.id);
+  }
+}
+
+@Controller("comments")
+@UseGuards(JwtAuthGuard)
+export class CommentsController {
+  constructor(private service: CommentsService) {}
+
+  @Patch(":id")
+  update(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Body(new ZodValidationPipe(UpdateCommentInputSchema)) body: UpdateCommentInput
+  ) {
+    return this.service.update(id, body, req.user.id);
+  }
+
+  @Delete(":id")
+  remove(@Req() req: any, @Param("id") id: string) {
+    return this.service.remove(id, req.user.id);
+  }
+}
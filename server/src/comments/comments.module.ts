@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { CommentsController, IssueCommentsController } from "./comments.controller";
+import { CommentsService } from "./comments.service";
+import { PrismaModule } from "../prisma/prisma.module";
+import { BoardsModule } from "../boards/boards.module";
+import { NotificationsModule } from "../notifications/notifications.module";
+
+@Module({
+  controllers: [IssueCommentsController, CommentsController],
+  providers: [CommentsService],
+  imports: [PrismaModule, BoardsModule, NotificationsModule],
+})
+export class CommentsModule {}
@@ -0,0 +1,130 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+import { BoardRole } from "../../generated/prisma/client";
+import { BoardAccessService, hasRole } from "../boards/board-access.service";
+import { NotificationsService } from "../notifications/notifications.service";
+
+const COMMENT_SELECT = {
+  id: true,
+  issueId: true,
+  parentId: true,
+  body: true,
+  createdAt: true,
+  editedAt: true,
+  deletedAt: true,
+  author: { select: { id: true, name: true } },
+} as const;
+
+type CommentRow = {
+  id: string;
+  issueId: string;
+  parentId: string | null;
+  body: string;
+  createdAt: Date;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  author: { id: string; name: string };
+};
+
+// Deleted comments stay in the thread as placeholders without their text.
+function toResponse(c: CommentRow) {
+  return c.deletedAt ? { ...c, body: "" } : c;
+}
+
+@Injectable()
+export class CommentsService {
+  constructor(
+    private prisma: PrismaService,
+    private access: BoardAccessService,
+    private notifications: NotificationsService
+  ) {}
+
+  async list(issueId: string, userId: string) {
+    await this.access.requireIssueRole(issueId, userId, BoardRole.viewer);
+    const comments = await this.prisma.comment.findMany({
+      where: { issueId },
+      select: COMMENT_SELECT,
+      orderBy: { createdAt: "asc" },
+    });
+    return comments.map(toResponse);
+  }
+
+  async create(issueId: string, args: { body: string; parentId: string | null }, userId: string) {
+    await this.access.requireIssueRole(issueId, userId, BoardRole.editor);
+
+    if (args.parentId) {
+      const parent = await this.prisma.comment.findUnique({ where: { id: args.parentId } });
+      if (!parent || parent.issueId !== issueId) {
+        throw new NotFoundException("Parent comment not found");
+      }
+      if (parent.parentId) {
+        throw new BadRequestException("Replies can only be one level deep");
+      }
+    }
+
+    const comment = await this.prisma.comment.create({
+      data: { issueId, authorId: userId, parentId: args.parentId, body: args.body },
+      select: COMMENT_SELECT,
+    });
+    await this.notifications.notifyMentions({
+      issueId,
+      actorId: userId,
+      text: comment.body,
+      commentId: comment.id,
+    });
+    return comment;
+  }
+
+  async update(id: string, args: { body: string }, userId: string) {
+    const comment = await this.findLive(id);
+    await this.access.requireIssueRole(comment.issueId, userId, BoardRole.viewer);
+    if (comment.authorId !== userId) {
+      throw new ForbiddenException("Only the author can edit a comment");
+    }
+
+    const updated = await this.prisma.comment.update({
+      where: { id },
+      data: { body: args.body, editedAt: new Date() },
+      select: COMMENT_SELECT,
+    });
+    await this.notifications.notifyMentions({
+      issueId: comment.issueId,
+      actorId: userId,
+      text: updated.body,
+      previousText: comment.body,
+      commentId: id,
+    });
+    return updated;
+  }
+
+  /** Authors may delete their own comments; board admins may delete any. */
+  async remove(id: string, userId: string) {
+    const comment = await this.findLive(id);
+    const issue = await this.prisma.issue.findUnique({
+      where: { id: comment.issueId },
+      select: { boardId: true },
+    });
+    const member = await this.access.requireRole(issue!.boardId, userId, BoardRole.viewer);
+    if (comment.authorId !== userId && !hasRole(member.role, BoardRole.admin)) {
+      throw new ForbiddenException("Only the author or a board admin can delete a comment");
+    }
+
+    const deleted = await this.prisma.comment.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+      select: COMMENT_SELECT,
+    });
+    return toResponse(deleted);
+  }
+
+  private async findLive(id: string) {
+    const comment = await this.prisma.comment.findUnique({ where: { id } });
+    if (!comment || comment.deletedAt) throw new NotFoundException("Comment not found");
+    return comment;
+  }
+}
@@ -0,0 +1,50 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Req, UseGuards } from "@nestjs/common";
+import { ZodValidationPipe } from "nestjs-zod";
+import {
+  CreateCustomFieldInputSchema,
+  UpdateCustomFieldInputSchema,
+  type CreateCustomFieldInput,
+  type UpdateCustomFieldInput,
+} from "@jira-lab/shared";
+import { CustomFieldsService } from "./custom-fields.service";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+
+@Controller("boards/:boardId/custom-fields")
+@UseGuards(JwtAuthGuard)
+export class BoardCustomFieldsController {
+  constructor(private service: CustomFieldsService) {}
+
+  @Get()
+  list(@Req() req: any, @Param("boardId") boardId: string) {
+    return this.service.list(boardId, req.user.id);
+  }
+
+  @Post()
+  create(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Body(new ZodValidationPipe(CreateCustomFieldInputSchema)) body: CreateCustomFieldInput
+  ) {
+    return this.service.create(boardId, body, req.user.id);
+  }
+}
+
+@Controller("custom-fields")
+@UseGuards(JwtAuthGuard)
+export class CustomFieldsController {
+  constructor(private service: CustomFieldsService) {}
+
+  @Patch(":id")
+  update(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Body(new ZodValidationPipe(UpdateCustomFieldInputSchema)) body: UpdateCustomFieldInput
+  ) {
+    return this.service.update(id, body, req.user.id);
+  }
+
+  @Delete(":id")
+  remove(@Req() req: any, @Param("id") id: string) {
+    return this.service.remove(id, req.user.id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { BoardCustomFieldsController, CustomFieldsController } from "./custom-fields.controller";
+import { CustomFieldsService } from "./custom-fields.service";
+import { PrismaModule } from "../prisma/prisma.module";
+import { BoardsModule } from "../boards/boards.module";
+
+@Module({
+  controllers: [BoardCustomFieldsController, CustomFieldsController],
+  providers: [CustomFieldsService],
+  imports: [PrismaModule, BoardsModule],
+  exports: [CustomFieldsService],
+})
+export class CustomFieldsModule {}
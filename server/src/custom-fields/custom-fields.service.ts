@@ -0,0 +1,190 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  customFieldHasOptions,
+  customFieldValuesSchema,
+  type CreateCustomFieldInput,
+  type CustomFieldValue,
+  type UpdateCustomFieldInput,
+} from "@jira-lab/shared";
+import { PrismaService } from "../prisma/prisma.service";
+import { BoardRole, CustomField, CustomFieldType, Prisma } from "../../generated/prisma/client";
+import { BoardAccessService } from "../boards/board-access.service";
+
+const FIELD_SELECT = {
+  id: true,
+  boardId: true,
+  name: true,
+  type: true,
+  options: true,
+  createdAt: true,
+} as const;
+
+type StoredValues = Record<string, CustomFieldValue>;
+
+function storedValues(json: Prisma.JsonValue): StoredValues {
+  return json && typeof json === "object" && !Array.isArray(json) ? (json as StoredValues) : {};
+}
+
+@Injectable()
+export class CustomFieldsService {
+  constructor(
+    private prisma: PrismaService,
+    private access: BoardAccessService
+  ) {}
+
+  async list(boardId: string, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.viewer);
+    return this.prisma.customField.findMany({
+      where: { boardId },
+      select: FIELD_SELECT,
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async create(boardId: string, input: CreateCustomFieldInput, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.admin);
+    await this.requireFreeName(boardId, input.name);
+
+    return this.prisma.customField.create({
+      data: { boardId, name: input.name, type: input.type, options: input.options },
+      select: FIELD_SELECT,
+    });
+  }
+
+  /**
+   * Renames a field or replaces its options. Values that used a removed
+   * option are dropped from the board's issues.
+   */
+  async update(id: string, input: UpdateCustomFieldInput, userId: string) {
+    const field = await this.findField(id);
+    await this.access.requireRole(field.boardId, userId, BoardRole.admin);
+
+    if (input.name !== undefined && input.name !== field.name) {
+      await this.requireFreeName(field.boardId, input.name, field.id);
+    }
+    const options = input.options;
+    if (options !== undefined) {
+      if (!customFieldHasOptions(field.type)) {
+        throw new BadRequestException("Only select fields have options");
+      }
+      if (options.length === 0) {
+        throw new BadRequestException("Select fields need at least one option");
+      }
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      if (options !== undefined) {
+        await this.rewriteValues(tx, field, (value) => {
+          if (Array.isArray(value)) {
+            const kept = value.filter((v) => options.includes(v));
+            return kept.length > 0 ? kept : null;
+          }
+          return typeof value === "string" && options.includes(value) ? value : null;
+        });
+      }
+      return tx.customField.update({
+        where: { id },
+        data: { name: input.name, options },
+        select: FIELD_SELECT,
+      });
+    });
+  }
+
+  /** Deletes the field along with every issue's value for it. */
+  async remove(id: string, userId: string) {
+    const field = await this.findField(id);
+    await this.access.requireRole(field.boardId, userId, BoardRole.admin);
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.rewriteValues(tx, field, () => null);
+      await tx.customField.delete({ where: { id } });
+    });
+    return { id };
+  }
+
+  /**
+   * Validates an issue's new set of values against the board's field
+   * definitions. Fields that are left out or `null` end up without a value.
+   * Only user values that changed from `current` are checked for membership,
+   * so a departed member does not block edits to other fields.
+   */
+  async resolveValues(
+    boardId: string,
+    current: Prisma.JsonValue,
+    input: Record<string, unknown>
+  ): Promise<Prisma.InputJsonObject> {
+    if (Object.keys(input).length === 0) return {};
+
+    const fields = await this.prisma.customField.findMany({ where: { boardId } });
+    const parsed = customFieldValuesSchema(fields).safeParse(input);
+
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      if (issue.code === "unrecognized_keys") {
+        throw new BadRequestException(`Unknown custom field: ${issue.keys.join(", ")}`);
+      }
+      const field = fields.find((f) => f.id === issue.path[0]);
+      throw new BadRequestException(field ? `${field.name}: ${issue.message}` : issue.message);
+    }
+
+    const previous = storedValues(current);
+    const values: StoredValues = {};
+    for (const field of fields) {
+      const value = parsed.data[field.id];
+      if (value == null) continue;
+
+      if (field.type === CustomFieldType.user && value !== previous[field.id]) {
+        await this.access.requireMembers(boardId, [value as string], field.name);
+      }
+      values[field.id] = value;
+    }
+    return values;
+  }
+
+  private async findField(id: string) {
+    const field = await this.prisma.customField.findUnique({ where: { id } });
+    if (!field) throw new NotFoundException("Custom field not found");
+    return field;
+  }
+
+  private async requireFreeName(boardId: string, name: string, exceptId?: string) {
+    const taken = await this.prisma.customField.findFirst({
+      where: { boardId, name: { equals: name, mode: "insensitive" }, id: { not: exceptId } },
+      select: { id: true },
+    });
+    if (taken) throw new ConflictException(`A field named ${name} already exists`);
+  }
+
+  /** Maps the field's value on each of the board's issues that has one. */
+  private async rewriteValues(
+    tx: Prisma.TransactionClient,
+    field: CustomField,
+    next: (value: CustomFieldValue) => CustomFieldValue | null
+  ) {
+    const issues = await tx.issue.findMany({
+      where: { boardId: field.boardId },
+      select: { id: true, customFields: true },
+    });
+
+    for (const issue of issues) {
+      const values = storedValues(issue.customFields);
+      if (!(field.id in values)) continue;
+
+      const value = next(values[field.id]);
+      if (JSON.stringify(value) === JSON.stringify(values[field.id])) continue;
+
+      const updated = { ...values };
+      if (value === null) delete updated[field.id];
+      else updated[field.id] = value;
+      await tx.issue.update({
+        where: { id: issue.id },
+        data: { customFields: updated, version: { increment: 1 } },
+      });
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { Body, Controller, Delete, Get, Param, Post, Req, UseGuards } from "@nestjs/common";
+import { InvitesService } from "./invites.service";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+import { ZodValidationPipe } from "nestjs-zod";
+import { CreateInviteInputSchema, type CreateInviteInput } from "@jira-lab/shared";
+
+@Controller("boards/:boardId/invites")
+@UseGuards(JwtAuthGuard)
+export class BoardInvitesController {
+  constructor(private service: InvitesService) {}
+
+  @Get()
+  list(@Req() req: any, @Param("boardId") boardId: string) {
+    return this.service.list(boardId, req.user.id);
+  }
+
+  @Post()
+  create(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Body(new ZodValidationPipe(CreateInviteInputSchema)) body: CreateInviteInput
+  ) {
+    return this.service.create(boardId, body, req.user.id);
+  }
+
+  @Delete(":inviteId")
+  revoke(@Req() req: any, @Param("boardId") boardId: string, @Param("inviteId") inviteId: string) {
+    return this.service.revoke(boardId, inviteId, req.user.id);
+  }
+}
+
+@Controller("invites")
+export class InvitesController {
+  constructor(private service: InvitesService) {}
+
+  // Not guarded: the landing page shows the invite before the user logs in.
+  @Get(":token")
+  preview(@Param("token") token: string) {
+    return this.service.preview(token);
+  }
+
+  @Post(":token/accept")
+  @UseGuards(JwtAuthGuard)
+  accept(@Req() req: any, @Param("token") token: string) {
+    return this.service.accept(token, req.user.id);
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from "@nestjs/common";
+import { JwtModule } from "@nestjs/jwt";
+import { ConfigModule, ConfigService } from "@nestjs/config";
+import { PrismaModule } from "../prisma/prisma.module";
+import { BoardsModule } from "../boards/boards.module";
+import { BoardInvitesController, InvitesController } from "./invites.controller";
+import { InvitesService } from "./invites.service";
+
+const INVITE_AUDIENCE = "board-invite";
+
+@Module({
+  imports: [
+    PrismaModule,
+    BoardsModule,
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      // Invite links get a key and audience of their own, so an invite token
+      // never verifies as an access token, nor the other way round.
+      useFactory: (config: ConfigService) => ({
+        secret: `${config.get<string>("JWT_SECRET", "dev-secret-change-me")}:invites`,
+        signOptions: { audience: INVITE_AUDIENCE },
+        verifyOptions: { audience: INVITE_AUDIENCE },
+      }),
+    }),
+  ],
+  controllers: [BoardInvitesController, InvitesController],
+  providers: [InvitesService],
+})
+export class InvitesModule {}
@@ -0,0 +1,163 @@
+import { GoneException, Injectable, NotFoundException } from "@nestjs/common";
+import { JwtService } from "@nestjs/jwt";
+import { PrismaService } from "../prisma/prisma.service";
+import { isUniqueViolation } from "../prisma/prisma-errors";
+import { BoardRole } from "../../generated/prisma/client";
+import { BoardAccessService } from "../boards/board-access.service";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type InviteRow = {
+  id: string;
+  boardId: string;
+  role: BoardRole;
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+@Injectable()
+export class InvitesService {
+  constructor(
+    private prisma: PrismaService,
+    private jwt: JwtService,
+    private access: BoardAccessService
+  ) {}
+
+  async create(
+    boardId: string,
+    args: { role: BoardRole; expiresInHours: number; maxUses: number | null },
+    userId: string
+  ) {
+    await this.access.requireRole(boardId, userId, BoardRole.admin);
+
+    const invite = await this.prisma.boardInvite.create({
+      data: {
+        boardId,
+        role: args.role,
+        maxUses: args.maxUses,
+        expiresAt: new Date(Date.now() + args.expiresInHours * HOUR_MS),
+        createdById: userId,
+      },
+    });
+    return this.toResponse(invite);
+  }
+
+  /** Outstanding invites only: not revoked, not expired, not used up. */
+  async list(boardId: string, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.admin);
+
+    const invites = await this.prisma.boardInvite.findMany({
+      where: { boardId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: "desc" },
+    });
+    return invites
+      .filter((inv) => inv.maxUses == null || inv.useCount < inv.maxUses)
+      .map((inv) => this.toResponse(inv));
+  }
+
+  async revoke(boardId: string, inviteId: string, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.admin);
+
+    const revoked = await this.prisma.boardInvite.updateMany({
+      where: { id: inviteId, boardId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (revoked.count === 0) throw new NotFoundException("Invite not found");
+    return { id: inviteId };
+  }
+
+  /** Public: lets the landing page describe the invite before login. */
+  async preview(token: string) {
+    const invite = await this.findUsableInvite(token);
+    return {
+      boardId: invite.boardId,
+      boardName: invite.board.name,
+      role: invite.role,
+      invitedBy: invite.createdBy.name,
+      expiresAt: invite.expiresAt,
+    };
+  }
+
+  async accept(token: string, userId: string) {
+    const invite = await this.findUsableInvite(token);
+
+    // Existing members keep their role and do not consume a use.
+    const membership = () =>
+      this.prisma.boardMember.findUnique({
+        where: { boardId_userId: { boardId: invite.boardId, userId } },
+      });
+    const existing = await membership();
+    if (existing) return { boardId: invite.boardId, role: existing.role };
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        // Conditional increment so concurrent accepts cannot exceed maxUses.
+        const claimed = await tx.boardInvite.updateMany({
+          where: {
+            id: invite.id,
+            revokedAt: null,
+            ...(invite.maxUses == null ? {} : { useCount: { lt: invite.maxUses } }),
+          },
+          data: { useCount: { increment: 1 } },
+        });
+        if (claimed.count === 0) throw new GoneException("Invite has already been used");
+
+        const member = await tx.boardMember.create({
+          data: { boardId: invite.boardId, userId, role: invite.role },
+        });
+        return { boardId: member.boardId, role: member.role };
+      });
+    } catch (err) {
+      // A concurrent accept by the same user got there first (the membership
+      // already exists, or it took the last use); answer as it did.
+      if (!isUniqueViolation(err) && !(err instanceof GoneException)) throw err;
+      const member = await membership();
+      if (!member) throw err;
+      return { boardId: member.boardId, role: member.role };
+    }
+  }
+
+  private async findUsableInvite(token: string) {
+    let inviteId: string;
+    try {
+      const payload = this.jwt.verify<{ inv?: string }>(token);
+      if (!payload.inv) throw new Error("Not an invite token");
+      inviteId = payload.inv;
+    } catch (err) {
+      if (err instanceof Error && err.name === "TokenExpiredError") {
+        throw new GoneException("Invite has expired");
+      }
+      throw new NotFoundException("Invite not found");
+    }
+
+    const invite = await this.prisma.boardInvite.findUnique({
+      where: { id: inviteId },
+      include: { board: true, createdBy: { select: { name: true } } },
+    });
+    if (!invite) throw new NotFoundException("Invite not found");
+    if (invite.revokedAt) throw new GoneException("Invite has been revoked");
+    if (invite.expiresAt <= new Date()) throw new GoneException("Invite has expired");
+    if (invite.maxUses != null && invite.useCount >= invite.maxUses) {
+      throw new GoneException("Invite has already been used");
+    }
+    return invite;
+  }
+
+  // The token is derived from the row, so admins can copy the link again
+  // later without us storing it.
+  private toResponse(invite: InviteRow) {
+    const expiresIn = Math.max(1, Math.floor((invite.expiresAt.getTime() - Date.now()) / 1000));
+    return {
+      id: invite.id,
+      boardId: invite.boardId,
+      role: invite.role,
+      maxUses: invite.maxUses,
+      useCount: invite.useCount,
+      expiresAt: invite.expiresAt,
+      createdAt: invite.createdAt,
+      token: this.jwt.sign({ inv: invite.id }, { expiresIn }),
+    };
+  }
+}
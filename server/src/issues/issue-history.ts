@@ -0,0 +1,68 @@
+import type { Issue, Prisma } from "../../generated/prisma/client";
+
+/**
+ * Fields that show up in an issue's activity stream. `order` is left out on
+ * purpose: it changes on every drag within a column and means nothing to a
+ * reader once neighbouring issues move.
+ */
+export const TRACKED_FIELDS = [
+  "title",
+  "description",
+  "statusId",
+  "sprintId",
+  "assigneeId",
+  "watcherIds",
+  "type",
+  "priority",
+  "labels",
+  "parentId",
+  "storyPoints",
+  "originalEstimate",
+  "remainingEstimate",
+  "dueDate",
+  "archivedAt",
+  "deletedAt",
+] as const;
+
+type TrackedIssue = Pick<Issue, "id" | (typeof TRACKED_FIELDS)[number]>;
+
+// Missing values are stored as SQL NULL rather than JSON null; dates as ISO strings.
+function toJson(value: unknown): Prisma.InputJsonValue | undefined {
+  if (value == null) return undefined;
+  if (value instanceof Date) return value.toISOString();
+  return value as Prisma.InputJsonValue;
+}
+
+/** One event row per tracked field whose value differs between the two snapshots. */
+export function diffIssue(
+  before: TrackedIssue,
+  after: TrackedIssue,
+  actorId: string
+): Prisma.IssueEventCreateManyInput[] {
+  const events: Prisma.IssueEventCreateManyInput[] = [];
+
+  for (const field of TRACKED_FIELDS) {
+    const prev = before[field] ?? null;
+    const next = after[field] ?? null;
+    if (JSON.stringify(prev) === JSON.stringify(next)) continue;
+
+    events.push({
+      issueId: before.id,
+      actorId,
+      field,
+      oldValue: toJson(prev),
+      newValue: toJson(next),
+    });
+  }
+
+  return events;
+}
+
+export function createdEvent(issue: Pick<Issue, "id" | "key">, actorId: string) {
+  return {
+    issueId: issue.id,
+    actorId,
+    field: "created",
+    newValue: issue.key,
+  } satisfies Prisma.IssueEventCreateManyInput;
+}
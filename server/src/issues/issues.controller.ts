@@ -1,4 +1,19 @@
-import { Body, Controller, Get, Param, Patch, Post, Query, Req, UseGuards } from "@nestjs/common";
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  HttpException,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from "@nestjs/common";
 import { IssuesService } from "./issues.service";
 import { JwtAuthGuard } from "../auth/jwt-auth.guard";
 import { ZodValidationPipe } from "nestjs-zod";
@@ -7,12 +22,22 @@ import {
   PatchIssueInputSchema,
   BatchPatchInputSchema,
   ListIssuesInputSchema,
+  ListRemovedIssuesInputSchema,
+  SearchIssuesInputSchema,
   type CreateIssueInput,
   type PatchIssueInput,
   type BatchPatchInput,
   type ListIssuesInput,
+  type ListRemovedIssuesInput,
+  type SearchIssuesInput,
 } from "@jira-lab/shared";
 
+// If-Match carries the version as an entity tag: "3", or weak, W/"3".
+function versionFromIfMatch(header: string | undefined) {
+  const match = header?.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? Number(match[1]) : undefined;
+}
+
 @Controller("issues")
 @UseGuards(JwtAuthGuard)
 export class IssuesController {
@@ -30,6 +55,30 @@ export class IssuesController {
     );
   }
 
+  @Get("search")
+  search(
+    @Req() req: any,
+    @Query(new ZodValidationPipe(SearchIssuesInputSchema)) query: SearchIssuesInput
+  ) {
+    return this.service.search(query, req.user.id);
+  }
+
+  @Get("archived")
+  archived(
+    @Req() req: any,
+    @Query(new ZodValidationPipe(ListRemovedIssuesInputSchema)) query: ListRemovedIssuesInput
+  ) {
+    return this.service.listArchived(query.boardId, req.user.id);
+  }
+
+  @Get("trash")
+  trash(
+    @Req() req: any,
+    @Query(new ZodValidationPipe(ListRemovedIssuesInputSchema)) query: ListRemovedIssuesInput
+  ) {
+    return this.service.listTrash(query.boardId, req.user.id);
+  }
+
   @Post()
   create(
     @Req() req: any,
@@ -46,12 +95,59 @@ export class IssuesController {
     return this.service.batchPatch(body, req.user.id);
   }
 
+  @Get(":id/children")
+  children(@Req() req: any, @Param("id") id: string) {
+    return this.service.children(id, req.user.id);
+  }
+
+  @Get(":id/history")
+  history(@Req() req: any, @Param("id") id: string) {
+    return this.service.history(id, req.user.id);
+  }
+
+  @Post(":id/archive")
+  archive(@Req() req: any, @Param("id") id: string) {
+    return this.service.archive(id, req.user.id);
+  }
+
+  @Post(":id/unarchive")
+  unarchive(@Req() req: any, @Param("id") id: string) {
+    return this.service.unarchive(id, req.user.id);
+  }
+
+  @Post(":id/restore")
+  restore(@Req() req: any, @Param("id") id: string) {
+    return this.service.restore(id, req.user.id);
+  }
+
+  @Delete(":id/purge")
+  purge(@Req() req: any, @Param("id") id: string) {
+    return this.service.purge(id, req.user.id);
+  }
+
+  @Delete(":id")
+  remove(@Req() req: any, @Param("id") id: string) {
+    return this.service.remove(id, req.user.id);
+  }
+
+  /** The expected version comes in the body or as an If-Match header; one is required. */
   @Patch(":id")
-  patch(
+  async patch(
     @Req() req: any,
+    @Res({ passthrough: true }) res: any,
     @Param("id") id: string,
+    @Headers("if-match") ifMatch: string | undefined,
     @Body(new ZodValidationPipe(PatchIssueInputSchema)) body: PatchIssueInput
   ) {
-    return this.service.patch(id, body.patch, req.user.id);
+    const version = body.version ?? versionFromIfMatch(ifMatch);
+    if (version == null) {
+      throw new HttpException(
+        "Send the issue version being edited, as `version` or an If-Match header",
+        HttpStatus.PRECONDITION_REQUIRED
+      );
+    }
+    const issue = await this.service.patch(id, body.patch, version, req.user.id);
+    res.setHeader("ETag", `"${issue.version}"`);
+    return issue;
   }
 }
@@ -1,11 +1,24 @@
 import { Module } from "@nestjs/common";
 import { IssuesController } from "./issues.controller";
 import { IssuesService } from "./issues.service";
+import { TrashService } from "./trash.service";
 import { PrismaModule } from "../prisma/prisma.module";
+import { BoardsModule } from "../boards/boards.module";
+import { NotificationsModule } from "../notifications/notifications.module";
+import { CustomFieldsModule } from "../custom-fields/custom-fields.module";
+import { AttachmentsModule } from "../attachments/attachments.module";
+import { AutomationEngineModule } from "../automations/automation-engine.module";
 
 @Module({
   controllers: [IssuesController],
-  providers: [IssuesService],
-  imports: [PrismaModule],
+  providers: [IssuesService, TrashService],
+  imports: [
+    PrismaModule,
+    BoardsModule,
+    NotificationsModule,
+    CustomFieldsModule,
+    AttachmentsModule,
+    AutomationEngineModule,
+  ],
 })
 export class IssuesModule {}
@@ -1,31 +1,159 @@
-import { ForbiddenException, Injectable } from "@nestjs/common";
+import { BadRequestException, ConflictException, Injectable } from "@nestjs/common";
+import {
+  canContainIssue,
+  hierarchyProblem,
+  sprintEntryProblem,
+  sprintLockProblem,
+} from "@jira-lab/shared";
 import { PrismaService } from "../prisma/prisma.service";
-import { IssueStatus, Prisma } from "../../generated/prisma/client";
+import {
+  BoardRole,
+  Issue,
+  IssueLinkType,
+  IssuePriority,
+  IssueType,
+  Prisma,
+  StatusCategory,
+} from "../../generated/prisma/client";
+import { BoardAccessService } from "../boards/board-access.service";
+import { NotificationsService } from "../notifications/notifications.service";
+import { CustomFieldsService } from "../custom-fields/custom-fields.service";
+import { TRACKED_FIELDS, createdEvent, diffIssue } from "./issue-history";
+import { TrashService } from "./trash.service";
+import { AutomationEngine } from "../automations/automation-engine.service";
+import {
+  ISSUE_STATUS_SELECT,
+  requireTransition,
+  requireWipRoom,
+  resolveIssueStatus,
+  type ColumnMove,
+} from "../statuses/issue-status";
 
 type GetIssuesArgs = { boardId: string; sprintId: string | null };
 
-@Injectable()
-export class IssuesService {
-  constructor(private prisma: PrismaService) {}
+// A new status was asked for, or the issue goes back to the backlog and may
+// have to leave the one it is in.
+function changesStatus(patch: { statusId?: string; sprintId?: string | null }) {
+  return patch.statusId !== undefined || ("sprintId" in patch && patch.sprintId === null);
+}
 
-  private async verifyBoardOwnership(boardId: string, userId: string) {
-    const board = await this.prisma.board.findUnique({
-      where: { id: boardId },
-    });
-    if (!board || board.userId !== userId) {
-      throw new ForbiddenException("Not your board");
-    }
+// Where the issue ends up after `patch`, if that is another column.
+function columnMove(
+  issue: Issue,
+  patch: { sprintId?: string | null },
+  statusId: string
+): ColumnMove | null {
+  const sprintId = "sprintId" in patch ? (patch.sprintId ?? null) : issue.sprintId;
+  if (sprintId === issue.sprintId && statusId === issue.statusId) return null;
+  return { id: issue.id, sprintId, statusId };
+}
+
+// Only a field whose value differs from the issue as loaded counts as a change.
+// Reordering never does, and neither does re-sending the status an issue already
+// has, so dragging its neighbours around never invalidates an edit someone has open.
+const VERSIONED_FIELDS = [...TRACKED_FIELDS, "customFields"] as const;
+
+function bumpsVersion(before: Issue, after: Issue) {
+  return VERSIONED_FIELDS.some(
+    (field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)
+  );
+}
+
+type PlanningPatch = {
+  storyPoints?: number | null;
+  originalEstimate?: number | null;
+  remainingEstimate?: number | null;
+  dueDate?: string | null;
+};
+
+// Due dates arrive as YYYY-MM-DD and are stored as a date-only column.
+function toDueDate(value: string | null | undefined) {
+  return value ? new Date(value) : null;
+}
+
+/**
+ * Story point, estimate and due date changes. Setting the original estimate
+ * on an issue with no time remaining yet starts the remaining estimate from it.
+ */
+function planningData(existing: Issue, patch: PlanningPatch) {
+  const data: Prisma.IssueUpdateInput = {};
+
+  if ("storyPoints" in patch) data.storyPoints = patch.storyPoints ?? null;
+  if ("originalEstimate" in patch) data.originalEstimate = patch.originalEstimate ?? null;
+  if ("remainingEstimate" in patch) {
+    data.remainingEstimate = patch.remainingEstimate ?? null;
+  } else if ("originalEstimate" in patch && existing.remainingEstimate == null) {
+    data.remainingEstimate = patch.originalEstimate ?? null;
   }
+  if ("dueDate" in patch) data.dueDate = toDueDate(patch.dueDate);
+
+  return data;
+}
+
+// Issues in the trash can only be restored or purged.
+function requireNotDeleted(issue: Issue) {
+  if (issue.deletedAt) throw new BadRequestException("Restore the issue from the trash first");
+}
+
+@Injectable()
+export class IssuesService {
+  constructor(
+    private prisma: PrismaService,
+    private access: BoardAccessService,
+    private notifications: NotificationsService,
+    private customFields: CustomFieldsService,
+    private trash: TrashService,
+    private automations: AutomationEngine
+  ) {}
 
   async list({ boardId, sprintId }: GetIssuesArgs, userId: string) {
-    await this.verifyBoardOwnership(boardId, userId);
-    return this.prisma.issue.findMany({
+    await this.access.requireRole(boardId, userId, BoardRole.viewer);
+    const issues = await this.prisma.issue.findMany({
       where: {
         boardId,
         sprintId: sprintId ?? null,
+        archivedAt: null,
+        deletedAt: null,
       },
       orderBy: { order: "asc" },
     });
+    return this.withDerived(issues);
+  }
+
+  /** Finds issues on a board whose key or title contains the query. */
+  async search(args: { boardId: string; q: string; limit: number }, userId: string) {
+    await this.access.requireRole(args.boardId, userId, BoardRole.viewer);
+    if (!args.q) return [];
+
+    return this.prisma.issue.findMany({
+      where: {
+        boardId: args.boardId,
+        deletedAt: null,
+        OR: [
+          { key: { contains: args.q, mode: "insensitive" } },
+          { title: { contains: args.q, mode: "insensitive" } },
+        ],
+      },
+      select: {
+        id: true,
+        key: true,
+        title: true,
+        type: true,
+        status: { select: ISSUE_STATUS_SELECT },
+        sprintId: true,
+      },
+      orderBy: { createdAt: "desc" },
+      take: args.limit,
+    });
+  }
+
+  async children(id: string, userId: string) {
+    await this.access.requireIssueRole(id, userId, BoardRole.viewer);
+    const children = await this.prisma.issue.findMany({
+      where: { parentId: id, deletedAt: null },
+      orderBy: { createdAt: "asc" },
+    });
+    return this.withDerived(children);
   }
 
   async create(
@@ -34,112 +162,576 @@ export class IssuesService {
       sprintId: string | null;
       title: string;
       description?: string;
-      status: IssueStatus;
+      statusId?: string;
       order: number;
-      assigneeId?: string | number | null;
-      watcherIds?: Array<string | number>;
+      type?: IssueType;
+      priority?: IssuePriority;
+      labels?: string[];
+      assigneeId?: string | null;
+      watcherIds?: string[];
+      parentId?: string | null;
+      storyPoints?: number | null;
+      originalEstimate?: number | null;
+      remainingEstimate?: number | null;
+      dueDate?: string | null;
+      customFields?: Record<string, unknown>;
     },
     userId: string
   ) {
-    await this.verifyBoardOwnership(input.boardId, userId);
-
-    const count = await this.prisma.issue.count({
-      where: { boardId: input.boardId },
+    await this.access.requireRole(input.boardId, userId, BoardRole.editor);
+    await this.requirePeople(input.boardId, input);
+    await this.requireOpenSprint(input.boardId, input.sprintId);
+    const customFields = await this.customFields.resolveValues(
+      input.boardId,
+      {},
+      input.customFields ?? {}
+    );
+    await this.requireHierarchy(input.boardId, {
+      type: input.type ?? IssueType.task,
+      parentId: input.parentId ?? null,
+    });
+    const statusId = await resolveIssueStatus(this.prisma, input.boardId, {
+      current: null,
+      requested: input.statusId,
+      toBacklog: !input.sprintId,
     });
 
-    const key = `${input.boardId}-${count + 1}`;
+    const issue = await this.prisma.$transaction(async (tx) => {
+      // The increment takes a row lock on the board, so concurrent creates
+      // are serialised and each gets its own number. Numbers are never reused.
+      const board = await tx.board.update({
+        where: { id: input.boardId },
+        data: { issueSeq: { increment: 1 } },
+        select: { key: true, issueSeq: true },
+      });
 
-    return this.prisma.issue.create({
-      data: {
-        boardId: input.boardId,
-        sprintId: input.sprintId ?? null,
-        key,
-        title: input.title,
-        description: input.description ?? "",
-        status: input.status,
-        order: input.order,
-        assigneeId: input.assigneeId == null ? null : String(input.assigneeId),
-        watcherIds: (input.watcherIds ?? []).map(String),
-      },
+      const issue = await tx.issue.create({
+        data: {
+          boardId: input.boardId,
+          sprintId: input.sprintId ?? null,
+          key: `${board.key}-${board.issueSeq}`,
+          title: input.title,
+          description: input.description ?? "",
+          statusId,
+          order: input.order,
+          type: input.type,
+          priority: input.priority,
+          labels: input.labels ?? [],
+          assigneeId: input.assigneeId ?? null,
+          watcherIds: input.watcherIds ?? [],
+          parentId: input.parentId ?? null,
+          storyPoints: input.storyPoints ?? null,
+          originalEstimate: input.originalEstimate ?? null,
+          // Without its own value, the time left is the whole estimate.
+          remainingEstimate: input.remainingEstimate ?? input.originalEstimate ?? null,
+          dueDate: toDueDate(input.dueDate),
+          customFields,
+        },
+      });
+      await tx.issueEvent.create({ data: createdEvent(issue, userId) });
+
+      return issue;
     });
-  }
 
-  async patch(id: string, patch: any, userId: string) {
-    const existing = await this.prisma.issue.findUniqueOrThrow({
-      where: { id },
+    const mentioned = await this.notifications.notifyMentions({
+      issueId: issue.id,
+      actorId: userId,
+      text: issue.description ?? "",
     });
+    this.automations.issueCreated(issue);
+    const [result] = await this.withDerived([mentioned ?? issue]);
+    return result;
+  }
 
-    await this.verifyBoardOwnership(existing.boardId, userId);
+  /**
+   * Applies `patch` if the issue is still at `expectedVersion`; otherwise
+   * fails with 409 and the issue as it is now.
+   */
+  async patch(id: string, patch: any, expectedVersion: number, userId: string) {
+    const existing = await this.access.requireIssueRole(id, userId, BoardRole.editor);
+    requireNotDeleted(existing);
+    await this.requireUnlocked(existing);
+    if (existing.version !== expectedVersion) throw await this.conflict(existing);
+    await this.requirePeople(existing.boardId, patch);
+    await this.requireHierarchyChange(existing, patch);
+    if (patch.sprintId && patch.sprintId !== existing.sprintId) {
+      await this.requireOpenSprint(existing.boardId, patch.sprintId);
+    }
 
     const data: Prisma.IssueUpdateInput = {};
 
     if ("title" in patch) data.title = patch.title;
     if ("description" in patch) data.description = patch.description;
-    if ("status" in patch) data.status = patch.status;
     if ("order" in patch) data.order = patch.order;
-    if ("assigneeId" in patch)
-      data.assigneeId = patch.assigneeId == null ? null : String(patch.assigneeId);
-    if ("watcherIds" in patch) data.watcherIds = (patch.watcherIds ?? []).map(String);
+    if ("type" in patch) data.type = patch.type;
+    if ("priority" in patch) data.priority = patch.priority;
+    if ("labels" in patch) data.labels = patch.labels ?? [];
+    if ("assigneeId" in patch) data.assigneeId = patch.assigneeId ?? null;
+    if ("watcherIds" in patch) data.watcherIds = patch.watcherIds ?? [];
+    if ("parentId" in patch) {
+      data.parent = patch.parentId ? { connect: { id: patch.parentId } } : { disconnect: true };
+    }
+    Object.assign(data, planningData(existing, patch));
+    if (patch.customFields) {
+      data.customFields = await this.customFields.resolveValues(
+        existing.boardId,
+        existing.customFields,
+        patch.customFields
+      );
+    }
 
     if ("sprintId" in patch) {
       const next = patch.sprintId ?? null;
       data.sprint = next ? { connect: { id: next } } : { disconnect: true };
+    }
+    const statusId = changesStatus(patch)
+      ? await this.nextStatusId(existing, patch)
+      : existing.statusId;
+    if (statusId !== existing.statusId) data.status = { connect: { id: statusId } };
+    const move = columnMove(existing, patch, statusId);
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // Claim the version first, so of two edits made against it only one lands.
+      const claimed = await tx.issue.updateMany({
+        where: { id, version: expectedVersion },
+        data: { version: { increment: 1 } },
+      });
+      if (claimed.count === 0) return null;
+      if (move) await requireWipRoom(tx, [move]);
+
+      const updated = await tx.issue.update({
+        where: { id },
+        data,
+      });
+      await tx.issueEvent.createMany({ data: diffIssue(existing, updated, userId) });
+
+      return updated;
+    });
+    if (!updated) {
+      throw await this.conflict(await this.prisma.issue.findUniqueOrThrow({ where: { id } }));
+    }
+    this.automations.issuesChanged([{ before: existing, after: updated }]);
 
-      // moving BACK TO BACKLOG
-      if (patch.sprintId === null) {
-        data.status = IssueStatus.backlog;
+    const mentioned =
+      "description" in patch
+        ? await this.notifications.notifyMentions({
+            issueId: id,
+            actorId: userId,
+            text: updated.description ?? "",
+            previousText: existing.description,
+          })
+        : null;
+    const [result] = await this.withDerived([mentioned ?? updated]);
+    return result;
+  }
+
+  /**
+   * Applies several patches at once, as a board drag sends them. A change that
+   * carries the `version` it was made against is refused with 409 if the issue
+   * has moved on, like a single edit. Only pure reorders, such as those of a
+   * dragged issue's neighbours, may come without one (BatchPatchInputSchema).
+   */
+  async batchPatch(changes: Array<{ id: string; patch: any; version?: number }>, userId: string) {
+    const before = await this.prisma.issue.findMany({
+      where: { id: { in: changes.map((c) => c.id) } },
+    });
+
+    // Verify edit access to every board touched by the batch
+    const boardIds = [...new Set(before.map((i) => i.boardId))];
+    for (const boardId of boardIds) {
+      await this.access.requireRole(boardId, userId, BoardRole.editor);
+    }
+
+    const beforeById = new Map(before.map((i) => [i.id, i]));
+    const customFieldsById = new Map<string, Prisma.InputJsonObject>();
+    const statusById = new Map<string, string>();
+    const moves: ColumnMove[] = [];
+    for (const c of changes) {
+      const issue = beforeById.get(c.id);
+      if (!issue) continue;
+      requireNotDeleted(issue);
+      await this.requireUnlocked(issue);
+      if (c.version != null && issue.version !== c.version) throw await this.conflict(issue);
+      await this.requirePeople(issue.boardId, c.patch);
+      await this.requireHierarchyChange(issue, c.patch);
+      if (c.patch.sprintId && c.patch.sprintId !== issue.sprintId) {
+        await this.requireOpenSprint(issue.boardId, c.patch.sprintId);
       }
-      // moving INTO sprint
-      else if (existing.status === IssueStatus.backlog) {
-        data.status = IssueStatus.todo;
+      if (changesStatus(c.patch)) statusById.set(c.id, await this.nextStatusId(issue, c.patch));
+      const move = columnMove(issue, c.patch, statusById.get(c.id) ?? issue.statusId);
+      if (move) moves.push(move);
+      if (c.patch.customFields) {
+        customFieldsById.set(
+          c.id,
+          await this.customFields.resolveValues(
+            issue.boardId,
+            issue.customFields,
+            c.patch.customFields
+          )
+        );
       }
     }
 
-    return this.prisma.issue.update({
-      where: { id },
-      data,
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Claim the expected versions before writing anything, so an edit that
+      // lands after the checks above still turns the whole batch into a conflict.
+      for (const c of changes) {
+        if (c.version == null) continue;
+        const claimed = await tx.issue.updateMany({
+          where: { id: c.id, version: c.version },
+          data: { version: c.version },
+        });
+        if (claimed.count === 0) return { stale: c.id };
+      }
+      await requireWipRoom(tx, moves);
+      const updated = [];
+      for (const c of changes) {
+        const prev = beforeById.get(c.id);
+        let next = await tx.issue.update({
+          where: { id: c.id },
+          data: {
+            ...this.buildBatchPatchData(c.patch, statusById.get(c.id)),
+            ...(prev ? planningData(prev, c.patch) : {}),
+            // Undefined leaves the stored values alone.
+            customFields: customFieldsById.get(c.id),
+          },
+        });
+        if (prev && bumpsVersion(prev, next)) {
+          next = await tx.issue.update({
+            where: { id: c.id },
+            data: { version: { increment: 1 } },
+          });
+        }
+        if (prev) await tx.issueEvent.createMany({ data: diffIssue(prev, next, userId) });
+        updated.push(next);
+      }
+      return { updated };
     });
+    if ("stale" in result) {
+      throw await this.conflict(
+        await this.prisma.issue.findUniqueOrThrow({ where: { id: result.stale } })
+      );
+    }
+    const { updated } = result;
+    this.automations.issuesChanged(
+      updated.flatMap((after) => {
+        const before = beforeById.get(after.id);
+        return before ? [{ before, after }] : [];
+      })
+    );
+    return this.withDerived(updated);
+  }
+
+  /** Archived issues are kept, and stay linkable, but no longer show on the board. */
+  async archive(id: string, userId: string) {
+    const existing = await this.access.requireIssueRole(id, userId, BoardRole.editor);
+    requireNotDeleted(existing);
+    await this.requireUnlocked(existing);
+    return this.updateRemoval(existing, { archivedAt: existing.archivedAt ?? new Date() }, userId);
+  }
+
+  async unarchive(id: string, userId: string) {
+    const existing = await this.access.requireIssueRole(id, userId, BoardRole.editor);
+    requireNotDeleted(existing);
+    await this.requireUnlocked(existing);
+    return this.updateRemoval(existing, { archivedAt: null }, userId);
+  }
+
+  /** Moves an issue to the trash, from where it can be restored until it is purged. */
+  async remove(id: string, userId: string) {
+    const existing = await this.access.requireIssueRole(id, userId, BoardRole.editor);
+    if (existing.deletedAt) return { id };
+    await this.requireUnlocked(existing);
+    await this.updateRemoval(existing, { deletedAt: new Date() }, userId);
+    return { id };
   }
 
-  async batchPatch(changes: Array<{ id: string; patch: any }>, userId: string) {
-    // Verify ownership of all issues in batch
-    if (changes.length > 0) {
-      const issues = await this.prisma.issue.findMany({
-        where: { id: { in: changes.map((c) => c.id) } },
-        select: { boardId: true },
+  async restore(id: string, userId: string) {
+    const existing = await this.access.requireIssueRole(id, userId, BoardRole.editor);
+    if (!existing.deletedAt) throw new BadRequestException("Issue is not in the trash");
+    return this.updateRemoval(existing, { deletedAt: null }, userId);
+  }
+
+  /** Deletes an issue in the trash for good, without waiting for the retention period. */
+  async purge(id: string, userId: string) {
+    const existing = await this.access.requireIssueRole(id, userId, BoardRole.admin);
+    if (!existing.deletedAt) {
+      throw new BadRequestException("Only issues in the trash can be deleted permanently");
+    }
+    await this.trash.purge([id]);
+    return { id };
+  }
+
+  async listArchived(boardId: string, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.viewer);
+    const issues = await this.prisma.issue.findMany({
+      where: { boardId, archivedAt: { not: null }, deletedAt: null },
+      orderBy: { archivedAt: "desc" },
+    });
+    return this.withDerived(issues);
+  }
+
+  /** The board's trash, most recently deleted first, with when each issue is purged. */
+  async listTrash(boardId: string, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.viewer);
+    const issues = await this.prisma.issue.findMany({
+      where: { boardId, deletedAt: { not: null } },
+      orderBy: { deletedAt: "desc" },
+    });
+    const derived = await this.withDerived(issues);
+    return derived.map((issue) => ({ ...issue, purgeAt: this.trash.purgeAt(issue.deletedAt!) }));
+  }
+
+  async history(id: string, userId: string) {
+    await this.access.requireIssueRole(id, userId, BoardRole.viewer);
+
+    return this.prisma.issueEvent.findMany({
+      where: { issueId: id },
+      select: {
+        id: true,
+        issueId: true,
+        field: true,
+        oldValue: true,
+        newValue: true,
+        createdAt: true,
+        actor: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  private async updateRemoval(
+    existing: Issue,
+    data: { archivedAt?: Date | null; deletedAt?: Date | null },
+    userId: string
+  ) {
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.issue.update({
+        where: { id: existing.id },
+        data: { ...data, version: { increment: 1 } },
       });
-      const boardIds = [...new Set(issues.map((i) => i.boardId))];
-      for (const boardId of boardIds) {
-        await this.verifyBoardOwnership(boardId, userId);
+      await tx.issueEvent.createMany({ data: diffIssue(existing, updated, userId) });
+      return updated;
+    });
+    const [result] = await this.withDerived([updated]);
+    return result;
+  }
+
+  /**
+   * Checks a requested status against the board's workflow and its transition
+   * rules. Issues that end up in the backlog, whether sent there or already
+   * in it, only take to-do statuses and leave any started or finished one;
+   * that reset is not a workflow step, so the rules don't apply.
+   */
+  private async nextStatusId(
+    existing: Issue,
+    patch: { statusId?: string; sprintId?: string | null; assigneeId?: string | null }
+  ) {
+    const sprintId = "sprintId" in patch ? (patch.sprintId ?? null) : existing.sprintId;
+    const toBacklog = sprintId === null;
+    const statusId = await resolveIssueStatus(this.prisma, existing.boardId, {
+      current: existing.statusId,
+      requested: patch.statusId,
+      toBacklog,
+    });
+    if (!toBacklog) {
+      const assigneeId = "assigneeId" in patch ? (patch.assigneeId ?? null) : existing.assigneeId;
+      await requireTransition(this.prisma, existing, statusId, assigneeId);
+    }
+    return statusId;
+  }
+
+  /** A 409 carrying the issue as it is now, so the client can show what changed. */
+  private async conflict(current: Issue) {
+    const [issue] = await this.withDerived([current]);
+    return new ConflictException({
+      statusCode: 409,
+      error: "Conflict",
+      message: "Someone else changed this issue in the meantime",
+      issue,
+    });
+  }
+
+  /** Assignee and watchers must be members of the issue's board. */
+  private async requirePeople(
+    boardId: string,
+    input: { assigneeId?: string | null; watcherIds?: string[] }
+  ) {
+    if (input.assigneeId != null) {
+      await this.access.requireMembers(boardId, [input.assigneeId], "assigneeId");
+    }
+    if (input.watcherIds) {
+      await this.access.requireMembers(boardId, input.watcherIds, "watcherIds");
+    }
+  }
+
+  /** Issues stay as they were when their sprint was completed. */
+  private async requireUnlocked(issue: Issue) {
+    if (!issue.sprintId) return;
+    const sprint = await this.prisma.sprint.findUnique({
+      where: { id: issue.sprintId },
+      select: { state: true },
+    });
+    const problem = sprintLockProblem(sprint?.state ?? null);
+    if (problem) throw new BadRequestException(problem);
+  }
+
+  /** Issues can only join a sprint of their own board that has not been completed. */
+  private async requireOpenSprint(boardId: string, sprintId: string | null | undefined) {
+    if (!sprintId) return;
+    const sprint = await this.prisma.sprint.findUnique({
+      where: { id: sprintId },
+      select: { boardId: true, state: true },
+    });
+    if (!sprint || sprint.boardId !== boardId) {
+      throw new BadRequestException("sprintId must reference a sprint on this board");
+    }
+    const problem = sprintEntryProblem(sprint.state);
+    if (problem) throw new BadRequestException(problem);
+  }
+
+  /**
+   * Sub-tasks need a parent, the parent must be on the same board and be a
+   * type that can contain this one, and an issue cannot end up under itself.
+   */
+  private async requireHierarchy(
+    boardId: string,
+    issue: { id?: string; type: IssueType; parentId: string | null }
+  ) {
+    let parentType: IssueType | null = null;
+
+    if (issue.parentId) {
+      const parent = await this.prisma.issue.findUnique({
+        where: { id: issue.parentId },
+        select: { boardId: true, type: true, deletedAt: true },
+      });
+      if (!parent || parent.boardId !== boardId || parent.deletedAt) {
+        throw new BadRequestException("parentId must reference an issue on this board");
       }
+      parentType = parent.type;
+      if (issue.id) await this.requireNotAncestor(issue.id, issue.parentId);
     }
 
-    return this.prisma.$transaction(
-      changes.map((c) =>
-        this.prisma.issue.update({
-          where: { id: c.id },
-          data: this.buildBatchPatchData(c.patch),
-        })
-      )
-    );
+    const problem = hierarchyProblem(parentType, issue.type);
+    if (problem) throw new BadRequestException(problem);
+
+    if (!issue.id) return;
+
+    // A type change must not strand the children the issue already has.
+    const children = await this.prisma.issue.findMany({
+      where: { parentId: issue.id },
+      select: { type: true },
+    });
+    const stranded = children.find((c) => !canContainIssue(issue.type, c.type));
+    if (stranded) throw new BadRequestException(hierarchyProblem(issue.type, stranded.type));
+  }
+
+  private async requireHierarchyChange(
+    existing: Issue,
+    patch: { type?: IssueType; parentId?: string | null }
+  ) {
+    if (!("type" in patch) && !("parentId" in patch)) return;
+
+    await this.requireHierarchy(existing.boardId, {
+      id: existing.id,
+      type: patch.type ?? existing.type,
+      parentId: "parentId" in patch ? (patch.parentId ?? null) : existing.parentId,
+    });
   }
 
-  private buildBatchPatchData(patch: any): Prisma.IssueUpdateInput {
+  private async requireNotAncestor(id: string, parentId: string) {
+    const seen = new Set<string>();
+    let cursor: string | null = parentId;
+
+    while (cursor && !seen.has(cursor)) {
+      if (cursor === id) {
+        throw new BadRequestException("An issue cannot be placed under itself or its children");
+      }
+      seen.add(cursor);
+      const next: { parentId: string | null } | null = await this.prisma.issue.findUnique({
+        where: { id: cursor },
+        select: { parentId: true },
+      });
+      cursor = next?.parentId ?? null;
+    }
+  }
+
+  /**
+   * Adds each issue's status and parent summaries, the done/total roll-up of
+   * its direct children and whether an unfinished issue blocks it. A fixed
+   * number of queries covers the whole list, whatever its size.
+   */
+  private async withDerived<T extends Issue>(issues: T[]) {
+    const ids = issues.map((i) => i.id);
+    const parentIds = [...new Set(issues.flatMap((i) => (i.parentId ? [i.parentId] : [])))];
+    const statusIds = [...new Set(issues.map((i) => i.statusId))];
+    const children = { parentId: { in: ids }, deletedAt: null };
+
+    const [statuses, parents, counts, doneCounts, blockers] = await Promise.all([
+      this.prisma.status.findMany({
+        where: { id: { in: statusIds } },
+        select: ISSUE_STATUS_SELECT,
+      }),
+      this.prisma.issue.findMany({
+        where: { id: { in: parentIds } },
+        select: { id: true, key: true, title: true, type: true, sprintId: true },
+      }),
+      this.prisma.issue.groupBy({
+        by: ["parentId"],
+        where: children,
+        _count: { _all: true },
+      }),
+      this.prisma.issue.groupBy({
+        by: ["parentId"],
+        where: { ...children, status: { category: StatusCategory.done } },
+        _count: { _all: true },
+      }),
+      this.prisma.issueLink.findMany({
+        where: {
+          type: IssueLinkType.blocks,
+          targetId: { in: ids },
+          source: { status: { category: { not: StatusCategory.done } }, deletedAt: null },
+        },
+        select: { targetId: true },
+      }),
+    ]);
+
+    const blocked = new Set(blockers.map((b) => b.targetId));
+
+    const statusById = new Map(statuses.map((s) => [s.id, s]));
+    const parentById = new Map(parents.map((p) => [p.id, p]));
+    const done = new Map(doneCounts.map((row) => [row.parentId, row._count._all]));
+    const progress = new Map<string, { done: number; total: number }>();
+    for (const row of counts) {
+      if (!row.parentId) continue;
+      progress.set(row.parentId, { done: done.get(row.parentId) ?? 0, total: row._count._all });
+    }
+
+    return issues.map((issue) => ({
+      ...issue,
+      status: statusById.get(issue.statusId)!,
+      parent: issue.parentId ? (parentById.get(issue.parentId) ?? null) : null,
+      progress: progress.get(issue.id) ?? { done: 0, total: 0 },
+      blocked: blocked.has(issue.id),
+    }));
+  }
+
+  private buildBatchPatchData(patch: any, statusId?: string): Prisma.IssueUpdateInput {
     const data: Prisma.IssueUpdateInput = {};
 
-    if ("status" in patch) data.status = patch.status;
+    if (statusId) data.status = { connect: { id: statusId } };
     if ("order" in patch) data.order = patch.order;
+    if ("type" in patch) data.type = patch.type;
+    if ("priority" in patch) data.priority = patch.priority;
+    if ("labels" in patch) data.labels = patch.labels;
     if ("assigneeId" in patch) data.assigneeId = patch.assigneeId;
     if ("watcherIds" in patch) data.watcherIds = patch.watcherIds;
+    if ("parentId" in patch) {
+      data.parent = patch.parentId ? { connect: { id: patch.parentId } } : { disconnect: true };
+    }
 
     if ("sprintId" in patch) {
-      if (patch.sprintId === null) {
-        data.sprint = { disconnect: true };
-        data.status = IssueStatus.backlog;
-      } else {
-        data.sprint = { connect: { id: patch.sprintId } };
-        data.status = IssueStatus.todo;
-      }
+      data.sprint = patch.sprintId ? { connect: { id: patch.sprintId } } : { disconnect: true };
     }
 
     return data;
@@ -0,0 +1,86 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { PrismaService } from "../prisma/prisma.service";
+import { IssueType, type Prisma } from "../../generated/prisma/client";
+import { AttachmentStorage } from "../attachments/attachment-storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Deleted issues stay in their board's trash for TRASH_RETENTION_DAYS
+ * (default 30) and are then purged for good, checked hourly. Setting the
+ * retention to 0 keeps them until someone empties the trash by hand.
+ */
+@Injectable()
+export class TrashService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TrashService.name);
+  private readonly retentionMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private prisma: PrismaService,
+    private storage: AttachmentStorage,
+    config: ConfigService
+  ) {
+    this.retentionMs = Number(config.get("TRASH_RETENTION_DAYS", 30)) * DAY_MS;
+  }
+
+  onModuleInit() {
+    if (!(this.retentionMs > 0)) return;
+    this.timer = setInterval(() => void this.run(), PURGE_INTERVAL_MS);
+    // Don't keep the process alive just for the purge.
+    this.timer.unref();
+    void this.run();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  /** When an issue deleted at `deletedAt` will be purged, if ever. */
+  purgeAt(deletedAt: Date) {
+    return this.retentionMs > 0 ? new Date(deletedAt.getTime() + this.retentionMs) : undefined;
+  }
+
+  /**
+   * Permanently deletes the given issues along with their comments, history,
+   * links and attachment files; returns how many were deleted. Their
+   * sub-tasks go too, trashed or not, since a sub-task can't be without a
+   * parent; an epic's issues just leave the epic.
+   */
+  async purge(issueIds: string[]) {
+    if (issueIds.length === 0) return 0;
+
+    const where: Prisma.IssueWhereInput = {
+      OR: [{ id: { in: issueIds } }, { parentId: { in: issueIds }, type: IssueType.subtask }],
+    };
+    const attachments = await this.prisma.attachment.findMany({
+      where: { issue: where },
+      select: { storageKey: true },
+    });
+    const { count } = await this.prisma.issue.deleteMany({ where });
+    // Files go after the rows, so a failure leaves orphaned bytes rather than broken rows.
+    for (const a of attachments) await this.storage.remove(a.storageKey);
+
+    return count;
+  }
+
+  /** Purges the issues whose retention has run out at `now`. */
+  async purgeExpired(now = new Date()) {
+    const expired = await this.prisma.issue.findMany({
+      where: { deletedAt: { lte: new Date(now.getTime() - this.retentionMs) } },
+      select: { id: true },
+    });
+    return this.purge(expired.map((i) => i.id));
+  }
+
+  private async run() {
+    try {
+      const purged = await this.purgeExpired();
+      if (purged > 0) this.logger.log(`Purged ${purged} issue(s) from the trash`);
+    } catch (err) {
+      this.logger.error("Trash purge failed", err instanceof Error ? err.stack : err);
+    }
+  }
+}
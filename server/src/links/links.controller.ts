@@ -0,0 +1,36 @@
+import { Body, Controller, Delete, Get, Param, Post, Req, UseGuards } from "@nestjs/common";
+import { ZodValidationPipe } from "nestjs-zod";
+import { CreateIssueLinkInputSchema, type CreateIssueLinkInput } from "@jira-lab/shared";
+import { LinksService } from "./links.service";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+
+@Controller("issues/:issueId/links")
+@UseGuards(JwtAuthGuard)
+export class IssueLinksController {
+  constructor(private service: LinksService) {}
+
+  @Get()
+  list(@Req() req: any, @Param("issueId") issueId: string) {
+    return this.service.list(issueId, req.user.id);
+  }
+
+  @Post()
+  create(
+    @Req() req: any,
+    @Param("issueId") issueId: string,
+    @Body(new ZodValidationPipe(CreateIssueLinkInputSchema)) body: CreateIssueLinkInput
+  ) {
+    return this.service.create(issueId, body, req.user.id);
+  }
+}
+
+@Controller("issue-links")
+@UseGuards(JwtAuthGuard)
+export class LinksController {
+  constructor(private service: LinksService) {}
+
+  @Delete(":id")
+  remove(@Req() req: any, @Param("id") id: string) {
+    return this.service.remove(id, req.user.id);
+  }
+}
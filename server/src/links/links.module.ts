@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { IssueLinksController, LinksController } from "./links.controller";
+import { LinksService } from "./links.service";
+import { PrismaModule } from "../prisma/prisma.module";
+import { BoardsModule } from "../boards/boards.module";
+
+@Module({
+  controllers: [IssueLinksController, LinksController],
+  providers: [LinksService],
+  imports: [PrismaModule, BoardsModule],
+})
+export class LinksModule {}
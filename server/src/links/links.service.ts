@@ -0,0 +1,144 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import { linkRelation, storedLink, type IssueLinkRelation } from "@jira-lab/shared";
+import { PrismaService } from "../prisma/prisma.service";
+import { BoardRole, IssueLinkType, Prisma } from "../../generated/prisma/client";
+import { BoardAccessService } from "../boards/board-access.service";
+import { ISSUE_STATUS_SELECT } from "../statuses/issue-status";
+
+const LINKED_ISSUE_SELECT = {
+  id: true,
+  key: true,
+  title: true,
+  type: true,
+  status: { select: ISSUE_STATUS_SELECT },
+  sprintId: true,
+} as const;
+
+const LINK_INCLUDE = {
+  source: { select: LINKED_ISSUE_SELECT },
+  target: { select: LINKED_ISSUE_SELECT },
+} as const;
+
+type LinkWithIssues = Prisma.IssueLinkGetPayload<{ include: typeof LINK_INCLUDE }>;
+
+/** Phrases a stored link from one of its ends. */
+function fromSide(link: LinkWithIssues, issueId: string) {
+  const outgoing = link.sourceId === issueId;
+  return {
+    id: link.id,
+    relation: linkRelation(link.type, outgoing),
+    issue: outgoing ? link.target : link.source,
+    createdAt: link.createdAt,
+  };
+}
+
+@Injectable()
+export class LinksService {
+  constructor(
+    private prisma: PrismaService,
+    private access: BoardAccessService
+  ) {}
+
+  /** Links touching the issue, each phrased from the issue's point of view. */
+  async list(issueId: string, userId: string) {
+    await this.access.requireIssueRole(issueId, userId, BoardRole.viewer);
+
+    const links = await this.prisma.issueLink.findMany({
+      // Links to issues in the trash come back if the issue is restored.
+      where: {
+        OR: [
+          { sourceId: issueId, target: { deletedAt: null } },
+          { targetId: issueId, source: { deletedAt: null } },
+        ],
+      },
+      include: LINK_INCLUDE,
+      orderBy: { createdAt: "asc" },
+    });
+    return links.map((link) => fromSide(link, issueId));
+  }
+
+  async create(
+    issueId: string,
+    input: { relation: IssueLinkRelation; issueId: string },
+    userId: string
+  ) {
+    const issue = await this.access.requireIssueRole(issueId, userId, BoardRole.editor);
+    if (input.issueId === issueId) {
+      throw new BadRequestException("An issue cannot be linked to itself");
+    }
+
+    const other = await this.prisma.issue.findUnique({
+      where: { id: input.issueId },
+      select: { id: true, boardId: true, deletedAt: true },
+    });
+    if (!other || other.boardId !== issue.boardId || other.deletedAt) {
+      throw new BadRequestException("issueId must reference an issue on this board");
+    }
+
+    const { type, outgoing } = storedLink(input.relation);
+    const sourceId = outgoing ? issueId : other.id;
+    const targetId = outgoing ? other.id : issueId;
+
+    // "Relates to" reads the same both ways, so either direction counts as a duplicate.
+    const existing = await this.prisma.issueLink.findFirst({
+      where: {
+        type,
+        OR:
+          type === IssueLinkType.relates
+            ? [
+                { sourceId, targetId },
+                { sourceId: targetId, targetId: sourceId },
+              ]
+            : [{ sourceId, targetId }],
+      },
+    });
+    if (existing) throw new ConflictException("These issues are already linked that way");
+
+    if (type === IssueLinkType.blocks && (await this.blocks(targetId, sourceId))) {
+      throw new BadRequestException("This link would create a blocking cycle");
+    }
+
+    const link = await this.prisma.issueLink.create({
+      data: { sourceId, targetId, type },
+      include: LINK_INCLUDE,
+    });
+    return fromSide(link, issueId);
+  }
+
+  async remove(id: string, userId: string) {
+    const link = await this.prisma.issueLink.findUnique({ where: { id } });
+    if (!link) throw new NotFoundException("Link not found");
+
+    await this.access.requireIssueRole(link.sourceId, userId, BoardRole.editor);
+    await this.prisma.issueLink.delete({ where: { id } });
+    return { id };
+  }
+
+  /** Whether `from` blocks `to`, directly or through a chain of blockers. */
+  private async blocks(from: string, to: string) {
+    const seen = new Set<string>([from]);
+    let frontier = [from];
+
+    while (frontier.length > 0) {
+      const next = await this.prisma.issueLink.findMany({
+        where: { type: IssueLinkType.blocks, sourceId: { in: frontier } },
+        select: { targetId: true },
+      });
+
+      frontier = [];
+      for (const { targetId } of next) {
+        if (targetId === to) return true;
+        if (seen.has(targetId)) continue;
+        seen.add(targetId);
+        frontier.push(targetId);
+      }
+    }
+
+    return false;
+  }
+}
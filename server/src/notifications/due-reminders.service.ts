@@ -0,0 +1,98 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { PrismaService } from "../prisma/prisma.service";
+import { NotificationKind, StatusCategory } from "../../generated/prisma/client";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Due dates are calendar days stored as midnight UTC.
+function startOfUtcDay(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Reminds assignees of open issues that are due tomorrow. Runs every
+ * DUE_REMINDER_INTERVAL_MINUTES (default 60, 0 turns it off); issues due
+ * today are included so a reminder missed while the server was down still
+ * goes out. Each due date is reminded about once, even if it is moved away
+ * and back.
+ */
+@Injectable()
+export class DueRemindersService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DueRemindersService.name);
+  private readonly intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private prisma: PrismaService,
+    config: ConfigService
+  ) {
+    this.intervalMs = Number(config.get("DUE_REMINDER_INTERVAL_MINUTES", 60)) * 60_000;
+  }
+
+  onModuleInit() {
+    if (!(this.intervalMs > 0)) return;
+    this.timer = setInterval(() => void this.run(), this.intervalMs);
+    // Don't keep the process alive just for reminders.
+    this.timer.unref();
+    void this.run();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  /** Sends the reminders that are due at `now`; returns how many were sent. */
+  async sendReminders(now = new Date()) {
+    const today = startOfUtcDay(now);
+    const tomorrow = new Date(today.getTime() + DAY_MS);
+
+    const candidates = await this.prisma.issue.findMany({
+      where: {
+        dueDate: { gte: today, lte: tomorrow },
+        assigneeId: { not: null },
+        status: { category: { not: StatusCategory.done } },
+        archivedAt: null,
+        deletedAt: null,
+      },
+      select: { id: true, assigneeId: true, dueDate: true, dueReminderFor: true },
+    });
+
+    let sent = 0;
+    for (const issue of candidates) {
+      const dueDate = issue.dueDate!;
+      if (issue.dueReminderFor?.getTime() === dueDate.getTime()) continue;
+
+      // Claim the reminder first, so overlapping runs can't both send it.
+      sent += await this.prisma.$transaction(async (tx) => {
+        const claimed = await tx.issue.updateMany({
+          where: {
+            id: issue.id,
+            OR: [{ dueReminderFor: null }, { dueReminderFor: { not: dueDate } }],
+          },
+          data: { dueReminderFor: dueDate },
+        });
+        if (claimed.count === 0) return 0;
+
+        await tx.notification.create({
+          data: {
+            userId: issue.assigneeId!,
+            issueId: issue.id,
+            kind: NotificationKind.due_soon,
+          },
+        });
+        return 1;
+      });
+    }
+    return sent;
+  }
+
+  private async run() {
+    try {
+      const sent = await this.sendReminders();
+      if (sent > 0) this.logger.log(`Sent ${sent} due date reminder(s)`);
+    } catch (err) {
+      this.logger.error("Due date reminders failed", err instanceof Error ? err.stack : err);
+    }
+  }
+}
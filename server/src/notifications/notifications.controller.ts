@@ -0,0 +1,24 @@
+import { Controller, Get, Param, Post, Req, UseGuards } from "@nestjs/common";
+import { NotificationsService } from "./notifications.service";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+
+@Controller("notifications")
+@UseGuards(JwtAuthGuard)
+export class NotificationsController {
+  constructor(private service: NotificationsService) {}
+
+  @Get()
+  list(@Req() req: any) {
+    return this.service.list(req.user.id);
+  }
+
+  @Post("read-all")
+  markAllRead(@Req() req: any) {
+    return this.service.markAllRead(req.user.id);
+  }
+
+  @Post(":id/read")
+  markRead(@Req() req: any, @Param("id") id: string) {
+    return this.service.markRead(id, req.user.id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { NotificationsController } from "./notifications.controller";
+import { NotificationsService } from "./notifications.service";
+import { DueRemindersService } from "./due-reminders.service";
+import { PrismaModule } from "../prisma/prisma.module";
+
+@Module({
+  controllers: [NotificationsController],
+  providers: [NotificationsService, DueRemindersService],
+  imports: [PrismaModule],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,131 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import { extractMentions, memberHandles } from "@jira-lab/shared";
+import { PrismaService } from "../prisma/prisma.service";
+import { NotificationKind, type Issue } from "../../generated/prisma/client";
+import { diffIssue } from "../issues/issue-history";
+
+const NOTIFICATION_SELECT = {
+  id: true,
+  kind: true,
+  commentId: true,
+  readAt: true,
+  createdAt: true,
+  actor: { select: { id: true, name: true } },
+  issue: { select: { id: true, key: true, title: true, boardId: true, sprintId: true } },
+} as const;
+
+const LIST_LIMIT = 50;
+
+// Tries at adding mentioned people as watchers while others keep editing the issue.
+const WATCHER_ATTEMPTS = 3;
+
+@Injectable()
+export class NotificationsService {
+  constructor(private prisma: PrismaService) {}
+
+  list(userId: string) {
+    return this.prisma.notification.findMany({
+      where: { userId, issue: { deletedAt: null } },
+      select: NOTIFICATION_SELECT,
+      orderBy: { createdAt: "desc" },
+      take: LIST_LIMIT,
+    });
+  }
+
+  async markRead(id: string, userId: string) {
+    const res = await this.prisma.notification.updateMany({
+      where: { id, userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    if (res.count === 0) {
+      const exists = await this.prisma.notification.count({ where: { id, userId } });
+      if (!exists) throw new NotFoundException("Notification not found");
+    }
+    return { ok: true };
+  }
+
+  async markAllRead(userId: string) {
+    await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return { ok: true };
+  }
+
+  /**
+   * Notifies board members newly mentioned in `text` and adds them to the
+   * issue's watchers. Handles already present in `previousText` are skipped
+   * so re-saving a description doesn't notify everyone again. Handles that
+   * don't match exactly one board member, and self-mentions, are ignored.
+   *
+   * Returns the updated issue when watchers were added, otherwise null.
+   */
+  async notifyMentions(args: {
+    issueId: string;
+    actorId: string;
+    text: string;
+    previousText?: string | null;
+    commentId?: string | null;
+  }) {
+    const previous = new Set(extractMentions(args.previousText ?? ""));
+    const handles = extractMentions(args.text).filter((h) => !previous.has(h));
+    if (handles.length === 0) return null;
+
+    const issue = await this.prisma.issue.findUnique({ where: { id: args.issueId } });
+    if (!issue) return null;
+
+    const members = await this.prisma.boardMember.findMany({
+      where: { boardId: issue.boardId },
+      select: { userId: true, user: { select: { email: true } } },
+    });
+    const byHandle = memberHandles(members.map((m) => ({ userId: m.userId, email: m.user.email })));
+
+    const recipients = [
+      ...new Set(handles.map((h) => byHandle.get(h)).filter((id): id is string => !!id)),
+    ].filter((id) => id !== args.actorId);
+    if (recipients.length === 0) return null;
+
+    await this.prisma.notification.createMany({
+      data: recipients.map((userId) => ({
+        userId,
+        actorId: args.actorId,
+        issueId: issue.id,
+        commentId: args.commentId ?? null,
+        kind: NotificationKind.mention,
+      })),
+    });
+    return this.addWatchers(issue, recipients, args.actorId);
+  }
+
+  /**
+   * Adds `userIds` to the issue's watchers. The write only lands on the
+   * version it was computed from, so watchers someone else added or removed
+   * meanwhile are kept; on a clash it starts over from the issue as it is.
+   */
+  private async addWatchers(issue: Issue, userIds: string[], actorId: string) {
+    for (let attempt = 1; attempt <= WATCHER_ATTEMPTS; attempt++) {
+      const watcherIds = [...new Set([...issue.watcherIds, ...userIds])];
+      if (watcherIds.length === issue.watcherIds.length) return null;
+
+      const before = issue;
+      const updated = await this.prisma.$transaction(async (tx) => {
+        const saved = await tx.issue.updateMany({
+          where: { id: before.id, version: before.version },
+          data: { watcherIds, version: { increment: 1 } },
+        });
+        if (saved.count === 0) return null;
+        const updated = await tx.issue.findUniqueOrThrow({ where: { id: before.id } });
+        await tx.issueEvent.createMany({ data: diffIssue(before, updated, actorId) });
+        return updated;
+      });
+      if (updated) return updated;
+
+      const current = await this.prisma.issue.findUnique({ where: { id: issue.id } });
+      if (!current) return null;
+      issue = current;
+    }
+    // The save that mentioned them already went through; they still got
+    // their notification, so don't fail it over the watchers.
+    return null;
+  }
+}
@@ -0,0 +1,6 @@
+import { Prisma } from "../../generated/prisma/client";
+
+/** Whether `err` is Prisma refusing a write that would break a unique constraint. */
+export function isUniqueViolation(err: unknown): boolean {
+  return err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002";
+}
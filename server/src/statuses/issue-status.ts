@@ -0,0 +1,149 @@
+import { BadRequestException, UnprocessableEntityException } from "@nestjs/common";
+import { allowedInBacklog, initialStatus, transitionProblem, wipProblem } from "@jira-lab/shared";
+import { StatusCategory, type Prisma } from "../../generated/prisma/client";
+
+type Db = Pick<Prisma.TransactionClient, "status">;
+
+/** A status' transition rules, as `transitionProblem` takes them. */
+export const TRANSITION_RULES_SELECT = {
+  id: true,
+  name: true,
+  validators: true,
+  outgoing: { select: { toId: true } },
+} as const;
+
+export function transitionRules(
+  status: Prisma.StatusGetPayload<{ select: typeof TRANSITION_RULES_SELECT }>
+) {
+  return {
+    id: status.id,
+    name: status.name,
+    validators: status.validators,
+    transitionsTo: status.outgoing.map((t) => t.toId),
+  };
+}
+
+/** The status summary every issue carries. */
+export const ISSUE_STATUS_SELECT = { id: true, name: true, category: true } as const;
+
+/** The board's leftmost to-do status, where new and un-started issues go. */
+export async function initialStatusId(db: Db, boardId: string) {
+  const statuses = await db.status.findMany({
+    where: { boardId },
+    select: { id: true, category: true, order: true },
+  });
+  const status = initialStatus(statuses);
+  if (!status) throw new BadRequestException("The board's workflow has no to-do status");
+  return status.id;
+}
+
+/**
+ * The status an issue should end up in: `requested` when given, otherwise
+ * `current`, or the initial status for a new issue. `toBacklog` says the
+ * issue ends up outside any sprint, where issues are not started: a current
+ * status that is in progress or done is swapped for the initial one, and
+ * asking for one is refused.
+ */
+export async function resolveIssueStatus(
+  db: Db,
+  boardId: string,
+  args: { current: string | null; requested?: string; toBacklog: boolean }
+) {
+  const statusId = args.requested ?? args.current;
+  if (!statusId) return initialStatusId(db, boardId);
+
+  const status = await db.status.findUnique({
+    where: { id: statusId },
+    select: { boardId: true, category: true },
+  });
+  if (!status || status.boardId !== boardId) {
+    throw new BadRequestException("statusId must reference a status on this board");
+  }
+  if (args.toBacklog && !allowedInBacklog(status.category)) {
+    if (args.requested) {
+      throw new UnprocessableEntityException("Issues in the backlog can only have a to-do status");
+    }
+    return initialStatusId(db, boardId);
+  }
+  return statusId;
+}
+
+/**
+ * Checks moving an issue to `toId` against the board's workflow: the
+ * transition must exist and the issue must pass the target's validators.
+ * `assigneeId` is the assignee the issue will have after the change.
+ */
+export async function requireTransition(
+  db: Pick<Prisma.TransactionClient, "status" | "issue">,
+  issue: { id: string; statusId: string },
+  toId: string,
+  assigneeId: string | null
+) {
+  if (issue.statusId === toId) return;
+
+  const [from, to, openSubtasks] = await Promise.all([
+    db.status.findUniqueOrThrow({ where: { id: issue.statusId }, select: TRANSITION_RULES_SELECT }),
+    db.status.findUniqueOrThrow({ where: { id: toId }, select: TRANSITION_RULES_SELECT }),
+    db.issue.count({
+      where: {
+        parentId: issue.id,
+        deletedAt: null,
+        status: { category: { not: StatusCategory.done } },
+      },
+    }),
+  ]);
+
+  const problem = transitionProblem(transitionRules(from), transitionRules(to), {
+    assigneeId,
+    openSubtasks,
+  });
+  if (problem) throw new UnprocessableEntityException(problem);
+}
+
+/** An issue and the column it ends up in: a status within a sprint, or the backlog. */
+export type ColumnMove = { id: string; sprintId: string | null; statusId: string };
+
+/**
+ * Checks issues entering sprint columns against the columns' hard WIP
+ * limits. `moves` lists the issues that change column; the backlog has no
+ * limits.
+ *
+ * Call it in the transaction that makes the moves. It locks the statuses
+ * moved into until that transaction ends, so two moves can't both count the
+ * same free place in a column.
+ */
+export async function requireWipRoom(
+  db: Pick<Prisma.TransactionClient, "status" | "issue" | "$queryRaw">,
+  moves: ColumnMove[]
+) {
+  const movingIds = moves.map((m) => m.id);
+  const columns = new Map<string, { sprintId: string; statusId: string; arriving: number }>();
+  for (const move of moves) {
+    if (move.sprintId === null) continue;
+    const key = `${move.sprintId}:${move.statusId}`;
+    const column = columns.get(key) ?? { ...move, sprintId: move.sprintId, arriving: 0 };
+    column.arriving += 1;
+    columns.set(key, column);
+  }
+
+  // In a fixed order, so moves into the same columns don't deadlock.
+  const statusIds = [...new Set([...columns.values()].map((c) => c.statusId))].sort();
+  if (statusIds.length > 0) {
+    await db.$queryRaw`SELECT "id" FROM "Status" WHERE "id" = ANY(${statusIds}) ORDER BY "id" FOR UPDATE`;
+  }
+
+  for (const { sprintId, statusId, arriving } of columns.values()) {
+    const status = await db.status.findUniqueOrThrow({
+      where: { id: statusId },
+      select: { name: true, wipMax: true, wipHard: true },
+    });
+    if (!status.wipHard || status.wipMax === null) continue;
+
+    // Issues leaving in the same change have made room already.
+    const staying = await db.issue.count({
+      where: { sprintId, statusId, archivedAt: null, deletedAt: null, id: { notIn: movingIds } },
+    });
+    const problem = wipProblem(status, staying + arriving);
+    if (problem) throw new UnprocessableEntityException(problem);
+  }
+}
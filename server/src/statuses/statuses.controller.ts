@@ -0,0 +1,78 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from "@nestjs/common";
+import { ZodValidationPipe } from "nestjs-zod";
+import {
+  CreateStatusInputSchema,
+  DeleteStatusInputSchema,
+  ReorderStatusesInputSchema,
+  UpdateStatusInputSchema,
+  type CreateStatusInput,
+  type DeleteStatusInput,
+  type ReorderStatusesInput,
+  type UpdateStatusInput,
+} from "@jira-lab/shared";
+import { StatusesService } from "./statuses.service";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+
+@Controller("boards/:boardId/statuses")
+@UseGuards(JwtAuthGuard)
+export class BoardStatusesController {
+  constructor(private service: StatusesService) {}
+
+  @Get()
+  list(@Req() req: any, @Param("boardId") boardId: string) {
+    return this.service.list(boardId, req.user.id);
+  }
+
+  @Post()
+  create(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Body(new ZodValidationPipe(CreateStatusInputSchema)) body: CreateStatusInput
+  ) {
+    return this.service.create(boardId, body, req.user.id);
+  }
+
+  @Patch("order")
+  reorder(
+    @Req() req: any,
+    @Param("boardId") boardId: string,
+    @Body(new ZodValidationPipe(ReorderStatusesInputSchema)) body: ReorderStatusesInput
+  ) {
+    return this.service.reorder(boardId, body.ids, req.user.id);
+  }
+}
+
+@Controller("statuses")
+@UseGuards(JwtAuthGuard)
+export class StatusesController {
+  constructor(private service: StatusesService) {}
+
+  @Patch(":id")
+  update(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Body(new ZodValidationPipe(UpdateStatusInputSchema)) body: UpdateStatusInput
+  ) {
+    return this.service.update(id, body, req.user.id);
+  }
+
+  @Delete(":id")
+  remove(
+    @Req() req: any,
+    @Param("id") id: string,
+    @Query(new ZodValidationPipe(DeleteStatusInputSchema)) query: DeleteStatusInput
+  ) {
+    return this.service.remove(id, query.moveTo, req.user.id);
+  }
+}
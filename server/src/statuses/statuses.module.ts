@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { BoardStatusesController, StatusesController } from "./statuses.controller";
+import { StatusesService } from "./statuses.service";
+import { PrismaModule } from "../prisma/prisma.module";
+import { BoardsModule } from "../boards/boards.module";
+
+@Module({
+  controllers: [BoardStatusesController, StatusesController],
+  providers: [StatusesService],
+  imports: [PrismaModule, BoardsModule],
+})
+export class StatusesModule {}
@@ -0,0 +1,241 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  allowedInBacklog,
+  initialStatus,
+  type CreateStatusInput,
+  type UpdateStatusInput,
+} from "@jira-lab/shared";
+import { PrismaService } from "../prisma/prisma.service";
+import { BoardRole, Prisma, Status, StatusCategory } from "../../generated/prisma/client";
+import { BoardAccessService } from "../boards/board-access.service";
+
+const ORDER_STEP = 1000;
+
+const STATUS_SELECT = {
+  id: true,
+  boardId: true,
+  name: true,
+  category: true,
+  order: true,
+  validators: true,
+  outgoing: { select: { toId: true } },
+  wipMin: true,
+  wipMax: true,
+  wipHard: true,
+  createdAt: true,
+} as const;
+
+// Transitions are returned as the ids of the statuses they lead to.
+function toStatusDto({
+  outgoing,
+  ...status
+}: Prisma.StatusGetPayload<{ select: typeof STATUS_SELECT }>) {
+  return { ...status, transitionsTo: outgoing.map((t) => t.toId) };
+}
+
+@Injectable()
+export class StatusesService {
+  constructor(
+    private prisma: PrismaService,
+    private access: BoardAccessService
+  ) {}
+
+  async list(boardId: string, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.viewer);
+    const statuses = await this.prisma.status.findMany({
+      where: { boardId },
+      select: STATUS_SELECT,
+      orderBy: { order: "asc" },
+    });
+    return statuses.map(toStatusDto);
+  }
+
+  /** Adds a status as the board's last column. */
+  async create(boardId: string, input: CreateStatusInput, userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.admin);
+    await this.requireFreeName(boardId, input.name);
+
+    const last = await this.prisma.status.aggregate({ where: { boardId }, _max: { order: true } });
+    const status = await this.prisma.status.create({
+      data: {
+        boardId,
+        name: input.name,
+        category: input.category,
+        order: (last._max.order ?? 0) + ORDER_STEP,
+      },
+      select: STATUS_SELECT,
+    });
+    return toStatusDto(status);
+  }
+
+  /**
+   * Renames a status, changes its category, replaces its transitions and
+   * validators or sets its WIP limits. Backlog issues in a status that stops
+   * being a to-do status move to the initial status. Lowering a limit never
+   * moves issues; it only stops more from arriving.
+   */
+  async update(id: string, input: UpdateStatusInput, userId: string) {
+    const status = await this.findStatus(id);
+    await this.access.requireRole(status.boardId, userId, BoardRole.admin);
+
+    if (input.name !== undefined && input.name !== status.name) {
+      await this.requireFreeName(status.boardId, input.name, status.id);
+    }
+    const leavesTodo =
+      input.category !== undefined &&
+      status.category === StatusCategory.todo &&
+      !allowedInBacklog(input.category);
+    if (leavesTodo) await this.requireAnotherTodo(status);
+    if (input.transitionsTo) await this.requireTargets(status, input.transitionsTo);
+    const wipMin = input.wipMin === undefined ? status.wipMin : input.wipMin;
+    const wipMax = input.wipMax === undefined ? status.wipMax : input.wipMax;
+    if (wipMin !== null && wipMax !== null && wipMin > wipMax) {
+      throw new BadRequestException("The minimum WIP limit can't be above the maximum");
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      if (input.transitionsTo) {
+        await tx.statusTransition.deleteMany({ where: { fromId: id } });
+        await tx.statusTransition.createMany({
+          data: input.transitionsTo.map((toId) => ({ fromId: id, toId })),
+        });
+      }
+      const updated = await tx.status.update({
+        where: { id },
+        data: {
+          name: input.name,
+          category: input.category,
+          validators: input.validators,
+          wipMin: input.wipMin,
+          wipMax: input.wipMax,
+          wipHard: input.wipHard,
+        },
+        select: STATUS_SELECT,
+      });
+      if (leavesTodo) {
+        await this.moveToInitial(tx, { statusId: id, sprintId: null }, status.boardId, id);
+      }
+      return updated;
+    });
+    return toStatusDto(updated);
+  }
+
+  /** Puts the board's columns in the given order; `ids` must list all of them. */
+  async reorder(boardId: string, ids: string[], userId: string) {
+    await this.access.requireRole(boardId, userId, BoardRole.admin);
+
+    const statuses = await this.prisma.status.findMany({
+      where: { boardId },
+      select: { id: true },
+    });
+    const known = new Set(statuses.map((s) => s.id));
+    if (ids.length !== known.size || ids.some((id) => !known.has(id))) {
+      throw new BadRequestException("ids must list every status of the board");
+    }
+
+    await this.prisma.$transaction(
+      ids.map((id, idx) =>
+        this.prisma.status.update({ where: { id }, data: { order: (idx + 1) * ORDER_STEP } })
+      )
+    );
+    return this.list(boardId, userId);
+  }
+
+  /**
+   * Deletes a status. Its issues, including archived and trashed ones, move to
+   * `moveTo`; backlog issues go to the initial status instead when `moveTo`
+   * is not a to-do status.
+   */
+  async remove(id: string, moveTo: string | undefined, userId: string) {
+    const status = await this.findStatus(id);
+    await this.access.requireRole(status.boardId, userId, BoardRole.admin);
+    if (status.category === StatusCategory.todo) await this.requireAnotherTodo(status);
+
+    const issueCount = await this.prisma.issue.count({ where: { statusId: id } });
+    let target: Status | null = null;
+    if (issueCount > 0) {
+      if (!moveTo) {
+        throw new BadRequestException(`Choose a status for the issues in ${status.name}`);
+      }
+      target = await this.prisma.status.findUnique({ where: { id: moveTo } });
+      if (!target || target.boardId !== status.boardId || target.id === id) {
+        throw new BadRequestException("moveTo must reference another status on this board");
+      }
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      if (target) {
+        if (!allowedInBacklog(target.category)) {
+          await this.moveToInitial(tx, { statusId: id, sprintId: null }, status.boardId, id);
+        }
+        await tx.issue.updateMany({
+          where: { statusId: id },
+          data: { statusId: target.id, version: { increment: 1 } },
+        });
+      }
+      await tx.status.delete({ where: { id } });
+    });
+    return { id };
+  }
+
+  private async findStatus(id: string) {
+    const status = await this.prisma.status.findUnique({ where: { id } });
+    if (!status) throw new NotFoundException("Status not found");
+    return status;
+  }
+
+  private async requireFreeName(boardId: string, name: string, exceptId?: string) {
+    const taken = await this.prisma.status.findFirst({
+      where: { boardId, name: { equals: name, mode: "insensitive" }, id: { not: exceptId } },
+      select: { id: true },
+    });
+    if (taken) throw new ConflictException(`A status named ${name} already exists`);
+  }
+
+  private async requireTargets(status: Status, ids: string[]) {
+    if (ids.includes(status.id)) {
+      throw new BadRequestException("A status cannot transition to itself");
+    }
+    const found = await this.prisma.status.count({
+      where: { boardId: status.boardId, id: { in: ids } },
+    });
+    if (found !== ids.length) {
+      throw new BadRequestException("transitionsTo must reference statuses on this board");
+    }
+  }
+
+  // New issues and the backlog need somewhere to start.
+  private async requireAnotherTodo(status: Status) {
+    const others = await this.prisma.status.count({
+      where: { boardId: status.boardId, category: StatusCategory.todo, id: { not: status.id } },
+    });
+    if (others === 0) {
+      throw new BadRequestException("A workflow needs at least one to-do status");
+    }
+  }
+
+  /** Moves the matching issues to the board's initial status, other than `exceptId`. */
+  private async moveToInitial(
+    tx: Prisma.TransactionClient,
+    where: Prisma.IssueWhereInput,
+    boardId: string,
+    exceptId?: string
+  ) {
+    const statuses = await tx.status.findMany({
+      where: { boardId, id: { not: exceptId } },
+      select: { id: true, category: true, order: true },
+    });
+    const initial = initialStatus(statuses);
+    if (!initial) throw new BadRequestException("A workflow needs at least one to-do status");
+
+    await tx.issue.updateMany({
+      where,
+      data: { statusId: initial.id, version: { increment: 1 } },
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { Controller, Get, Query, Req, UseGuards } from "@nestjs/common";
+import { UsersService } from "./users.service";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+import { ZodValidationPipe } from "nestjs-zod";
+import { SearchUsersInputSchema, type SearchUsersInput } from "@jira-lab/shared";
+
+@Controller("users")
+@UseGuards(JwtAuthGuard)
+export class UsersController {
+  constructor(private service: UsersService) {}
+
+  @Get("search")
+  search(
+    @Req() req: any,
+    @Query(new ZodValidationPipe(SearchUsersInputSchema)) query: SearchUsersInput
+  ) {
+    return this.service.search(query, req.user.id);
+  }
+}
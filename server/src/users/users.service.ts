@@ -0,0 +1,31 @@
+import { Injectable } from "@nestjs/common";
+import { PrismaService } from "../prisma/prisma.service";
+import { BoardRole } from "../../generated/prisma/client";
+import { BoardAccessService } from "../boards/board-access.service";
+
+@Injectable()
+export class UsersService {
+  constructor(
+    private prisma: PrismaService,
+    private access: BoardAccessService
+  ) {}
+
+  /** Finds members of a board whose name or email contains the query. */
+  async search(args: { boardId: string; q: string; limit: number }, userId: string) {
+    await this.access.requireRole(args.boardId, userId, BoardRole.viewer);
+    if (!args.q) return [];
+
+    return this.prisma.user.findMany({
+      where: {
+        memberships: { some: { boardId: args.boardId } },
+        OR: [
+          { name: { contains: args.q, mode: "insensitive" } },
+          { email: { contains: args.q, mode: "insensitive" } },
+        ],
+      },
+      select: { id: true, name: true, email: true },
+      orderBy: { name: "asc" },
+      take: args.limit,
+    });
+  }
+}
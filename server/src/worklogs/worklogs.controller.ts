@@ -0,0 +1,36 @@
+import { Body, Controller, Delete, Get, Param, Post, Req, UseGuards } from "@nestjs/common";
+import { ZodValidationPipe } from "nestjs-zod";
+import { CreateWorklogInputSchema, type CreateWorklogInput } from "@jira-lab/shared";
+import { WorklogsService } from "./worklogs.service";
+import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+
+@Controller("issues/:issueId/worklogs")
+@UseGuards(JwtAuthGuard)
+export class IssueWorklogsController {
+  constructor(private service: WorklogsService) {}
+
+  @Get()
+  list(@Req() req: any, @Param("issueId") issueId: string) {
+    return this.service.list(issueId, req.user.id);
+  }
+
+  @Post()
+  create(
+    @Req() req: any,
+    @Param("issueId") issueId: string,
+    @Body(new ZodValidationPipe(CreateWorklogInputSchema)) body: CreateWorklogInput
+  ) {
+    return this.service.create(issueId, body, req.user.id);
+  }
+}
+
+@Controller("worklogs")
+@UseGuards(JwtAuthGuard)
+export class WorklogsController {
+  constructor(private service: WorklogsService) {}
+
+  @Delete(":id")
+  remove(@Req() req: any, @Param("id") id: string) {
+    return this.service.remove(id, req.user.id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { IssueWorklogsController, WorklogsController } from "./worklogs.controller";
+import { WorklogsService } from "./worklogs.service";
+import { PrismaModule } from "../prisma/prisma.module";
+import { BoardsModule } from "../boards/boards.module";
+
+@Module({
+  controllers: [IssueWorklogsController, WorklogsController],
+  providers: [WorklogsService],
+  imports: [PrismaModule, BoardsModule],
+})
+export class WorklogsModule {}
@@ -0,0 +1,106 @@
+import { ForbiddenException, Injectable, NotFoundException } from "@nestjs/common";
+import type { CreateWorklogInput } from "@jira-lab/shared";
+import { PrismaService } from "../prisma/prisma.service";
+import { BoardRole, Prisma } from "../../generated/prisma/client";
+import { BoardAccessService, hasRole } from "../boards/board-access.service";
+import { diffIssue } from "../issues/issue-history";
+
+const WORKLOG_SELECT = {
+  id: true,
+  issueId: true,
+  minutes: true,
+  date: true,
+  note: true,
+  createdAt: true,
+  user: { select: { id: true, name: true } },
+} as const;
+
+type WorklogRow = Prisma.WorklogGetPayload<{ select: typeof WORKLOG_SELECT }>;
+
+// `date` is a calendar day; send it without a time so no time zone can shift it.
+function toWorklog(row: WorklogRow) {
+  return { ...row, date: row.date.toISOString().slice(0, 10) };
+}
+
+@Injectable()
+export class WorklogsService {
+  constructor(
+    private prisma: PrismaService,
+    private access: BoardAccessService
+  ) {}
+
+  async list(issueId: string, userId: string) {
+    await this.access.requireIssueRole(issueId, userId, BoardRole.viewer);
+    const rows = await this.prisma.worklog.findMany({
+      where: { issueId },
+      select: WORKLOG_SELECT,
+      orderBy: [{ date: "desc" }, { createdAt: "desc" }],
+    });
+    return rows.map(toWorklog);
+  }
+
+  /** Logs work and takes the time off the issue's remaining estimate, if it has one. */
+  async create(issueId: string, input: CreateWorklogInput, userId: string) {
+    await this.access.requireIssueRole(issueId, userId, BoardRole.editor);
+
+    const row = await this.prisma.$transaction(async (tx) => {
+      const moved = await this.adjustRemaining(tx, issueId, -input.minutes, userId);
+      return tx.worklog.create({
+        data: {
+          issueId,
+          userId,
+          minutes: input.minutes,
+          deducted: -moved,
+          date: new Date(input.date),
+          note: input.note,
+        },
+        select: WORKLOG_SELECT,
+      });
+    });
+    return toWorklog(row);
+  }
+
+  /** Authors may delete their own worklogs; board admins may delete any. */
+  async remove(id: string, userId: string) {
+    const worklog = await this.prisma.worklog.findUnique({ where: { id } });
+    if (!worklog) throw new NotFoundException("Worklog not found");
+
+    const issue = await this.prisma.issue.findUnique({
+      where: { id: worklog.issueId },
+      select: { boardId: true },
+    });
+    const member = await this.access.requireRole(issue!.boardId, userId, BoardRole.editor);
+    if (worklog.userId !== userId && !hasRole(member.role, BoardRole.admin)) {
+      throw new ForbiddenException("Only the author or a board admin can delete a worklog");
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.worklog.delete({ where: { id } });
+      await this.adjustRemaining(tx, worklog.issueId, worklog.deducted, userId);
+    });
+    return { id };
+  }
+
+  /**
+   * Moves the remaining estimate by `delta` minutes, never below zero, and
+   * returns how far it actually moved.
+   */
+  private async adjustRemaining(
+    tx: Prisma.TransactionClient,
+    issueId: string,
+    delta: number,
+    userId: string
+  ) {
+    const before = await tx.issue.findUniqueOrThrow({ where: { id: issueId } });
+    if (before.remainingEstimate == null) return 0;
+    const remaining = Math.max(0, before.remainingEstimate + delta);
+    if (remaining === before.remainingEstimate) return 0;
+
+    const after = await tx.issue.update({
+      where: { id: issueId },
+      data: { remainingEstimate: remaining, version: { increment: 1 } },
+    });
+    await tx.issueEvent.createMany({ data: diffIssue(before, after, userId) });
+    return remaining - before.remainingEstimate;
+  }
+}
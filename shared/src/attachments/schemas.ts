@@ -0,0 +1,60 @@
+/**
+ * Zod schemas and upload limits for issue attachments.
+ * The limits are shared so the client can reject a file before uploading it;
+ * the server enforces the same values.
+ *
+ * @module attachments/schemas
+ */
+import { z } from "zod";
+
+/** Largest accepted upload, in bytes (10 MB). */
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Accepted content types besides `image/*` and `text/*`. Browsers report
+ * `.log` files as `application/octet-stream` only when they can't guess a
+ * type, so plain text logs are covered by `text/*`.
+ */
+export const ATTACHMENT_EXTRA_MIME_TYPES = [
+  "application/pdf",
+  "application/json",
+  "application/zip",
+  "application/gzip",
+] as const;
+
+/**
+ * Returns true when a file of this content type may be attached.
+ * SVG is refused because it can carry scripts.
+ *
+ * @example
+ * isAllowedAttachmentType("image/png"); // true
+ * isAllowedAttachmentType("application/x-msdownload"); // false
+ */
+export function isAllowedAttachmentType(contentType: string): boolean {
+  const type = contentType.toLowerCase();
+  if (type === "image/svg+xml") return false;
+  if (type.startsWith("image/") || type.startsWith("text/")) return true;
+  return (ATTACHMENT_EXTRA_MIME_TYPES as readonly string[]).includes(type);
+}
+
+/** Returns true for content types the UI can show as a thumbnail. */
+export function isImageAttachment(contentType: string): boolean {
+  return isAllowedAttachmentType(contentType) && contentType.toLowerCase().startsWith("image/");
+}
+
+/**
+ * Schema for an attachment as returned from API.
+ * The file itself is fetched from `GET /attachments/:id/content`.
+ */
+export const AttachmentSchema = z.object({
+  id: z.string(),
+  issueId: z.string(),
+  filename: z.string(),
+  contentType: z.string(),
+  size: z.number().int().nonnegative(),
+  uploader: z.object({ id: z.string(), name: z.string() }),
+  createdAt: z.string().datetime(),
+});
+
+// Type exports for TypeScript
+export type Attachment = z.infer<typeof AttachmentSchema>;
@@ -61,15 +61,30 @@ export const AuthUserSchema = z.object({
 });
 
 /**
- * Schema for authentication response containing JWT token and user data.
+ * Schema for authentication response.
+ * `token` is the short-lived access JWT; `refreshToken` is the opaque,
+ * single-use token exchanged at POST /auth/refresh for a new pair.
  */
 export const AuthResponseSchema = z.object({
   token: z.string(),
+  refreshToken: z.string(),
   user: AuthUserSchema,
 });
 
+/**
+ * Schema for refresh and logout requests, which identify the session
+ * by its current refresh token.
+ *
+ * @example
+ * const result = RefreshTokenInputSchema.parse({ refreshToken: "clx123.abc" });
+ */
+export const RefreshTokenInputSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
 // Type exports for TypeScript
 export type LoginInput = z.infer<typeof LoginInputSchema>;
 export type RegisterInput = z.infer<typeof RegisterInputSchema>;
 export type AuthUser = z.infer<typeof AuthUserSchema>;
 export type AuthResponse = z.infer<typeof AuthResponseSchema>;
+export type RefreshTokenInput = z.infer<typeof RefreshTokenInputSchema>;
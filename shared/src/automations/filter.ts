@@ -0,0 +1,384 @@
+/**
+ * A small JQL-like language for picking issues, used by automation rule
+ * conditions. Clauses compare one field with a value and combine with AND,
+ * OR, NOT and parentheses; keywords are case-insensitive.
+ *
+ * @example
+ * priority >= high AND type IN (bug, story) AND assignee IS EMPTY
+ * status = "Code review" OR labels = ui
+ * title ~ "login" AND NOT statusCategory = done
+ *
+ * @module automations/filter
+ */
+import { IssuePrioritySchema, IssueTypeSchema } from "../issues/schemas.js";
+import type { IssuePriority, IssueType } from "../issues/schemas.js";
+import { StatusCategorySchema, type StatusCategory } from "../statuses/schemas.js";
+
+/**
+ * Fields a filter can look at.
+ */
+export const ISSUE_FILTER_FIELDS = [
+  "type",
+  "priority",
+  "status",
+  "statusCategory",
+  "assignee",
+  "labels",
+  "storyPoints",
+  "title",
+  "dueDate",
+] as const;
+
+export type IssueFilterField = (typeof ISSUE_FILTER_FIELDS)[number];
+
+export type IssueFilterOperator =
+  | "="
+  | "!="
+  | ">"
+  | ">="
+  | "<"
+  | "<="
+  | "~"
+  | "in"
+  | "not in"
+  | "is empty"
+  | "is not empty";
+
+/**
+ * A parsed filter. Clause values are kept as written; enum values are
+ * lower-cased.
+ */
+export type IssueFilter =
+  | { kind: "and" | "or"; left: IssueFilter; right: IssueFilter }
+  | { kind: "not"; filter: IssueFilter }
+  | { kind: "clause"; field: IssueFilterField; op: IssueFilterOperator; values: string[] };
+
+/**
+ * What a filter is matched against: an issue with its status summary.
+ * `dueDate` is a calendar day, YYYY-MM-DD.
+ */
+export type IssueFilterSubject = {
+  type: IssueType;
+  priority: IssuePriority;
+  status: { name: string; category: StatusCategory };
+  assigneeId: string | null;
+  labels: readonly string[];
+  storyPoints: number | null;
+  title: string;
+  dueDate: string | null;
+};
+
+export type IssueFilterParseResult =
+  | { ok: true; filter: IssueFilter | null }
+  | { ok: false; error: string };
+
+// Operators each field accepts, besides IS EMPTY for the ones that can be empty.
+const FIELD_OPERATORS: Record<IssueFilterField, readonly IssueFilterOperator[]> = {
+  type: ["=", "!=", "in", "not in"],
+  priority: ["=", "!=", ">", ">=", "<", "<=", "in", "not in"],
+  status: ["=", "!=", "in", "not in"],
+  statusCategory: ["=", "!=", "in", "not in"],
+  assignee: ["=", "!=", "in", "not in", "is empty", "is not empty"],
+  labels: ["=", "!=", "in", "not in", "is empty", "is not empty"],
+  storyPoints: ["=", "!=", ">", ">=", "<", "<=", "is empty", "is not empty"],
+  title: ["~"],
+  dueDate: ["=", "!=", ">", ">=", "<", "<=", "is empty", "is not empty"],
+};
+
+const ENUM_VALUES: Partial<Record<IssueFilterField, readonly string[]>> = {
+  type: IssueTypeSchema.options,
+  priority: IssuePrioritySchema.options,
+  statusCategory: StatusCategorySchema.options,
+};
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+type Token = { kind: "word" | "string" | "symbol"; text: string };
+
+class FilterSyntaxError extends Error {}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '"' || ch === "'") {
+      const end = text.indexOf(ch, i + 1);
+      if (end < 0) throw new FilterSyntaxError("Unclosed quote");
+      tokens.push({ kind: "string", text: text.slice(i + 1, end) });
+      i = end + 1;
+    } else if ("(),~".includes(ch)) {
+      tokens.push({ kind: "symbol", text: ch });
+      i++;
+    } else if ("=!<>".includes(ch)) {
+      const two = text.slice(i, i + 2);
+      const op = ["!=", ">=", "<="].includes(two) ? two : ch;
+      if (op === "!") throw new FilterSyntaxError("Expected != after !");
+      tokens.push({ kind: "symbol", text: op });
+      i += op.length;
+    } else {
+      const match = /^[^\s()",'=!<>~]+/.exec(text.slice(i));
+      tokens.push({ kind: "word", text: match![0] });
+      i += match![0].length;
+    }
+  }
+  return tokens;
+}
+
+class Parser {
+  private pos = 0;
+  private readonly tokens: Token[];
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): IssueFilter {
+    const filter = this.or();
+    const extra = this.peek();
+    if (extra) throw new FilterSyntaxError(`Unexpected "${extra.text}"`);
+    return filter;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private next(what: string): Token {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new FilterSyntaxError(`Expected ${what} at the end`);
+    return token;
+  }
+
+  private isKeyword(word: string, offset = 0) {
+    const token = this.tokens[this.pos + offset];
+    return token?.kind === "word" && token.text.toLowerCase() === word;
+  }
+
+  private isSymbol(symbol: string) {
+    const token = this.peek();
+    return token?.kind === "symbol" && token.text === symbol;
+  }
+
+  private or(): IssueFilter {
+    let left = this.and();
+    while (this.isKeyword("or")) {
+      this.pos++;
+      left = { kind: "or", left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): IssueFilter {
+    let left = this.unary();
+    while (this.isKeyword("and")) {
+      this.pos++;
+      left = { kind: "and", left, right: this.unary() };
+    }
+    return left;
+  }
+
+  private unary(): IssueFilter {
+    if (this.isKeyword("not")) {
+      this.pos++;
+      return { kind: "not", filter: this.unary() };
+    }
+    if (this.isSymbol("(")) {
+      this.pos++;
+      const filter = this.or();
+      if (!this.isSymbol(")")) throw new FilterSyntaxError("Expected )");
+      this.pos++;
+      return filter;
+    }
+    return this.clause();
+  }
+
+  private clause(): IssueFilter {
+    const name = this.next("a field");
+    const field = ISSUE_FILTER_FIELDS.find((f) => f.toLowerCase() === name.text.toLowerCase());
+    if (name.kind !== "word" || !field) {
+      throw new FilterSyntaxError(`Unknown field "${name.text}"`);
+    }
+
+    const op = this.operator();
+    if (!FIELD_OPERATORS[field].includes(op)) {
+      throw new FilterSyntaxError(`${field} does not support ${op.toUpperCase()}`);
+    }
+    if (op === "is empty" || op === "is not empty") {
+      return { kind: "clause", field, op, values: [] };
+    }
+
+    const values = op === "in" || op === "not in" ? this.list() : [this.value()];
+    return { kind: "clause", field, op, values: values.map((v) => checkValue(field, v)) };
+  }
+
+  private operator(): IssueFilterOperator {
+    if (this.isKeyword("is")) {
+      this.pos++;
+      const negated = this.isKeyword("not");
+      if (negated) this.pos++;
+      if (!this.isKeyword("empty")) throw new FilterSyntaxError("Expected EMPTY after IS");
+      this.pos++;
+      return negated ? "is not empty" : "is empty";
+    }
+    if (this.isKeyword("not") && this.isKeyword("in", 1)) {
+      this.pos += 2;
+      return "not in";
+    }
+    if (this.isKeyword("in")) {
+      this.pos++;
+      return "in";
+    }
+    const token = this.next("an operator");
+    if (token.kind !== "symbol" || !["=", "!=", ">", ">=", "<", "<=", "~"].includes(token.text)) {
+      throw new FilterSyntaxError(`Expected an operator, got "${token.text}"`);
+    }
+    return token.text as IssueFilterOperator;
+  }
+
+  private list(): string[] {
+    if (!this.isSymbol("(")) throw new FilterSyntaxError("Expected ( after IN");
+    this.pos++;
+    const values = [this.value()];
+    while (this.isSymbol(",")) {
+      this.pos++;
+      values.push(this.value());
+    }
+    if (!this.isSymbol(")")) throw new FilterSyntaxError("Expected ) to close the list");
+    this.pos++;
+    return values;
+  }
+
+  private value(): string {
+    const token = this.next("a value");
+    if (token.kind === "symbol")
+      throw new FilterSyntaxError(`Expected a value, got "${token.text}"`);
+    return token.text;
+  }
+}
+
+function checkValue(field: IssueFilterField, value: string): string {
+  const options = ENUM_VALUES[field];
+  if (options) {
+    const lower = value.toLowerCase();
+    if (!options.includes(lower)) {
+      throw new FilterSyntaxError(`${field} must be one of ${options.join(", ")}`);
+    }
+    return lower;
+  }
+  if (field === "storyPoints" && !Number.isFinite(Number(value))) {
+    throw new FilterSyntaxError("storyPoints must be compared with a number");
+  }
+  if (field === "dueDate" && !DAY.test(value)) {
+    throw new FilterSyntaxError("dueDate must be compared with a YYYY-MM-DD day");
+  }
+  return value;
+}
+
+/**
+ * Parses a filter. Blank text is no filter at all, which matches every
+ * issue; otherwise the error explains the first problem found.
+ */
+export function parseIssueFilter(text: string): IssueFilterParseResult {
+  if (!text.trim()) return { ok: true, filter: null };
+  try {
+    return { ok: true, filter: new Parser(tokenize(text)).parse() };
+  } catch (err) {
+    if (err instanceof FilterSyntaxError) return { ok: false, error: err.message };
+    throw err;
+  }
+}
+
+function compare(a: number | string, b: number | string, op: IssueFilterOperator) {
+  switch (op) {
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    default:
+      return a === b;
+  }
+}
+
+function matchesClause(
+  clause: Extract<IssueFilter, { kind: "clause" }>,
+  issue: IssueFilterSubject
+): boolean {
+  const { field, op, values } = clause;
+
+  if (field === "title") {
+    return issue.title.toLowerCase().includes(values[0].toLowerCase());
+  }
+
+  // Every field but labels holds one value; labels match when any label does.
+  const actual: Array<string | number> = (() => {
+    switch (field) {
+      case "type":
+        return [issue.type];
+      case "priority":
+        return [IssuePrioritySchema.options.indexOf(issue.priority)];
+      case "status":
+        return [issue.status.name.toLowerCase()];
+      case "statusCategory":
+        return [issue.status.category];
+      case "assignee":
+        return issue.assigneeId ? [issue.assigneeId] : [];
+      case "labels":
+        return issue.labels.map((l) => l.toLowerCase());
+      case "storyPoints":
+        return issue.storyPoints === null ? [] : [issue.storyPoints];
+      case "dueDate":
+        return issue.dueDate ? [issue.dueDate] : [];
+    }
+  })();
+
+  if (op === "is empty") return actual.length === 0;
+  if (op === "is not empty") return actual.length > 0;
+
+  const expected = values.map((v): string | number => {
+    if (field === "priority") return IssuePrioritySchema.options.indexOf(v as IssuePriority);
+    if (field === "storyPoints") return Number(v);
+    if (field === "status" || field === "labels") return v.toLowerCase();
+    return v;
+  });
+
+  const any = (cmp: IssueFilterOperator) =>
+    actual.some((a) => expected.some((e) => compare(a, e, cmp)));
+  switch (op) {
+    case "!=":
+      return !any("=");
+    case "in":
+      return any("=");
+    case "not in":
+      return !any("=");
+    default:
+      return any(op);
+  }
+}
+
+/**
+ * Whether `issue` matches `filter`; no filter matches everything.
+ *
+ * @example
+ * const parsed = parseIssueFilter("priority >= high");
+ * if (parsed.ok) matchesIssueFilter(parsed.filter, issue);
+ */
+export function matchesIssueFilter(filter: IssueFilter | null, issue: IssueFilterSubject): boolean {
+  if (!filter) return true;
+  switch (filter.kind) {
+    case "and":
+      return matchesIssueFilter(filter.left, issue) && matchesIssueFilter(filter.right, issue);
+    case "or":
+      return matchesIssueFilter(filter.left, issue) || matchesIssueFilter(filter.right, issue);
+    case "not":
+      return !matchesIssueFilter(filter.filter, issue);
+    case "clause":
+      return matchesClause(filter, issue);
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Zod schemas for board automation rules: "when <trigger>, if the issue
+ * matches <condition>, do <actions>". The server runs the rules after the
+ * changes that trigger them and records every run in the board's audit log.
+ *
+ * @module automations/schemas
+ */
+import { z } from "zod";
+import {
+  CalendarDateSchema,
+  IssuePrioritySchema,
+  LabelsSchema,
+  StoryPointsSchema,
+} from "../issues/schemas.js";
+import { parseIssueFilter } from "./filter.js";
+
+/**
+ * Schema for what starts a rule.
+ * Matches the Prisma AutomationTrigger enum.
+ */
+export const AutomationTriggerTypeSchema = z.enum([
+  "issue_created",
+  "status_changed",
+  "field_changed",
+  "sprint_started",
+  "scheduled",
+]);
+
+/**
+ * Schema for the issue fields a `field_changed` trigger can watch.
+ */
+export const AutomationWatchedFieldSchema = z.enum([
+  "title",
+  "assigneeId",
+  "priority",
+  "type",
+  "labels",
+  "storyPoints",
+  "dueDate",
+  "sprintId",
+  "parentId",
+]);
+
+/**
+ * Schema for a rule's trigger. A status change without `toStatusId` fires
+ * for any new status; scheduled rules run over the board's issues every
+ * `everyMinutes`.
+ */
+export const AutomationTriggerSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("issue_created") }),
+  z.object({ type: z.literal("status_changed"), toStatusId: z.string().min(1).nullable() }),
+  z.object({ type: z.literal("field_changed"), field: AutomationWatchedFieldSchema }),
+  z.object({ type: z.literal("sprint_started") }),
+  z.object({
+    type: z.literal("scheduled"),
+    everyMinutes: z
+      .number()
+      .int()
+      .min(15, "Scheduled rules run at most every 15 minutes")
+      .max(10_080, "Scheduled rules run at least once a week"),
+  }),
+]);
+
+/**
+ * Schema for setting one of an issue's fields. The value must suit the field.
+ */
+export const SetFieldActionSchema = z.discriminatedUnion("field", [
+  z.object({
+    type: z.literal("set_field"),
+    field: z.literal("priority"),
+    value: IssuePrioritySchema,
+  }),
+  // Only between standard types, so the issue keeps its place in the hierarchy.
+  z.object({
+    type: z.literal("set_field"),
+    field: z.literal("type"),
+    value: z.enum(["bug", "story", "task"]),
+  }),
+  z.object({ type: z.literal("set_field"), field: z.literal("labels"), value: LabelsSchema }),
+  z.object({
+    type: z.literal("set_field"),
+    field: z.literal("storyPoints"),
+    value: StoryPointsSchema,
+  }),
+  z.object({
+    type: z.literal("set_field"),
+    field: z.literal("dueDate"),
+    value: CalendarDateSchema.nullable(),
+  }),
+]);
+
+/**
+ * Schema for a webhook address; only http(s) URLs are called.
+ */
+export const WebhookUrlSchema = z
+  .string()
+  .trim()
+  .url("Webhook URL is not valid")
+  .max(2000, "Webhook URL is too long")
+  .refine((url) => /^https?:\/\//i.test(url), "Webhook URL must use http or https");
+
+/**
+ * Schema for one thing a rule does to the issue that triggered it. `assign`
+ * with a null user unassigns; `move_to_sprint` with a null sprint moves the
+ * issue to the backlog.
+ */
+export const AutomationActionSchema = z.union([
+  SetFieldActionSchema,
+  z.discriminatedUnion("type", [
+    z.object({ type: z.literal("assign"), userId: z.string().min(1).nullable() }),
+    z.object({ type: z.literal("add_watcher"), userId: z.string().min(1) }),
+    z.object({
+      type: z.literal("add_comment"),
+      body: z
+        .string()
+        .trim()
+        .min(1, "Comment cannot be empty")
+        .max(2000, "Comment must be at most 2000 characters"),
+    }),
+    z.object({ type: z.literal("move_to_sprint"), sprintId: z.string().min(1).nullable() }),
+    z.object({ type: z.literal("send_webhook"), url: WebhookUrlSchema }),
+  ]),
+]);
+
+/**
+ * Schema for a rule's condition: an issue filter, blank for every issue.
+ */
+export const AutomationConditionSchema = z
+  .string()
+  .max(500, "Condition must be at most 500 characters")
+  .superRefine((text, ctx) => {
+    const parsed = parseIssueFilter(text);
+    if (!parsed.ok) ctx.addIssue({ code: z.ZodIssueCode.custom, message: parsed.error });
+  });
+
+/**
+ * Schema for a rule's name.
+ */
+export const AutomationNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Rule name is required")
+  .max(80, "Rule name must be at most 80 characters");
+
+const AutomationActionsSchema = z
+  .array(AutomationActionSchema)
+  .min(1, "A rule needs at least one action")
+  .max(10, "A rule can have at most 10 actions");
+
+/**
+ * Schema for a rule as returned from API. Changes it makes are attributed to
+ * `createdById`; `lastRunAt` is when a scheduled rule last ran.
+ */
+export const AutomationRuleSchema = z.object({
+  id: z.string(),
+  boardId: z.string(),
+  name: z.string(),
+  enabled: z.boolean(),
+  trigger: AutomationTriggerSchema,
+  condition: z.string(),
+  actions: z.array(AutomationActionSchema),
+  createdById: z.string(),
+  lastRunAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+/**
+ * Schema for adding a rule to a board.
+ *
+ * @example
+ * const result = CreateAutomationRuleInputSchema.parse({
+ *   name: "Escalate bugs",
+ *   trigger: { type: "issue_created" },
+ *   condition: "type = bug",
+ *   actions: [{ type: "set_field", field: "priority", value: "high" }],
+ * });
+ */
+export const CreateAutomationRuleInputSchema = z.object({
+  name: AutomationNameSchema,
+  enabled: z.boolean().optional().default(true),
+  trigger: AutomationTriggerSchema,
+  condition: AutomationConditionSchema.optional().default(""),
+  actions: AutomationActionsSchema,
+});
+
+/**
+ * Schema for changing a rule; the actions list replaces the stored one.
+ */
+export const UpdateAutomationRuleInputSchema = z
+  .object({
+    name: AutomationNameSchema.optional(),
+    enabled: z.boolean().optional(),
+    trigger: AutomationTriggerSchema.optional(),
+    condition: AutomationConditionSchema.optional(),
+    actions: AutomationActionsSchema.optional(),
+  })
+  .refine((input) => Object.values(input).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
+
+/**
+ * Schema for how a run ended. Skipped runs were stopped by loop protection.
+ * Matches the Prisma AutomationOutcome enum.
+ */
+export const AutomationOutcomeSchema = z.enum(["success", "failed", "skipped"]);
+
+/**
+ * Schema for an entry of a board's automation audit log. `details` says
+ * what each action did; `message` why a run failed or was skipped.
+ */
+export const AutomationRunSchema = z.object({
+  id: z.string(),
+  ruleId: z.string(),
+  ruleName: z.string(),
+  issue: z.object({ id: z.string(), key: z.string(), title: z.string() }).nullable(),
+  trigger: AutomationTriggerTypeSchema,
+  outcome: AutomationOutcomeSchema,
+  details: z.array(z.string()),
+  message: z.string().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+/**
+ * Schema for reading the audit log, optionally for one rule.
+ */
+export const ListAutomationRunsInputSchema = z.object({
+  ruleId: z.string().min(1).optional(),
+});
+
+// Type exports for TypeScript
+export type AutomationTriggerType = z.infer<typeof AutomationTriggerTypeSchema>;
+export type AutomationWatchedField = z.infer<typeof AutomationWatchedFieldSchema>;
+export type AutomationTrigger = z.infer<typeof AutomationTriggerSchema>;
+export type SetFieldAction = z.infer<typeof SetFieldActionSchema>;
+export type AutomationAction = z.infer<typeof AutomationActionSchema>;
+export type AutomationRule = z.infer<typeof AutomationRuleSchema>;
+export type CreateAutomationRuleInput = z.infer<typeof CreateAutomationRuleInputSchema>;
+export type UpdateAutomationRuleInput = z.infer<typeof UpdateAutomationRuleInputSchema>;
+export type AutomationOutcome = z.infer<typeof AutomationOutcomeSchema>;
+export type AutomationRun = z.infer<typeof AutomationRunSchema>;
+export type ListAutomationRunsInput = z.infer<typeof ListAutomationRunsInputSchema>;
@@ -7,23 +7,65 @@
  */
 import { z } from "zod";
 
+/**
+ * Schema for a member's role on a board.
+ * Matches the Prisma BoardRole enum; roles are ordered viewer < editor < admin.
+ */
+export const BoardRoleSchema = z.enum(["viewer", "editor", "admin"]);
+
+/**
+ * Schema for a board's issue key prefix (the `CORE` in `CORE-142`).
+ * Upper-case letters and digits, starting with a letter, 2-10 characters.
+ * Input is trimmed and upper-cased before validation.
+ */
+export const BoardKeySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z][A-Z0-9]{1,9}$/, "Key must be 2-10 letters or digits and start with a letter");
+
+/**
+ * Derives a default key prefix from a board name: leading non-letters are
+ * dropped, then the first word (or all words joined, if the first is a
+ * single character) is cut to four characters. Falls back to `BRD` when
+ * nothing usable is left.
+ *
+ * @example
+ * suggestBoardKey("Core UI"); // "CORE"
+ * suggestBoardKey("Picker Lab"); // "PICK"
+ */
+export function suggestBoardKey(name: string): string {
+  const words = name
+    .toUpperCase()
+    .replace(/^[^A-Z]+/, "")
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean);
+  const first = words[0] ?? "";
+  const key = (first.length >= 2 ? first : words.join("")).slice(0, 4);
+  return key.length >= 2 ? key : "BRD";
+}
+
 /**
  * Schema for Board entity as returned from API.
+ * `role` is the requesting user's role on the board.
  */
 export const BoardSchema = z.object({
   id: z.string(),
   name: z.string().min(1).max(100),
+  key: BoardKeySchema.optional(),
   userId: z.string().optional(),
+  role: BoardRoleSchema.optional(),
   createdAt: z.string().datetime().optional(),
   updatedAt: z.string().datetime().optional(),
 });
 
 /**
  * Schema for creating a new board.
- * Validates board name length and trims whitespace.
+ * Validates board name length and trims whitespace. `key` is optional;
+ * the server derives one from the name when it is omitted.
  *
  * @example
- * const result = CreateBoardInputSchema.parse({ name: "My Project Board" });
+ * const result = CreateBoardInputSchema.parse({ name: "My Project Board", key: "MPB" });
  */
 export const CreateBoardInputSchema = z.object({
   name: z
@@ -31,8 +73,45 @@ export const CreateBoardInputSchema = z.object({
     .min(1, "Board name is required")
     .max(100, "Board name must be at most 100 characters")
     .transform((name) => name.trim()),
+  key: BoardKeySchema.optional(),
+});
+
+/**
+ * Schema for a board member as returned from API.
+ */
+export const BoardMemberSchema = z.object({
+  userId: z.string(),
+  name: z.string(),
+  email: z.string().email(),
+  role: BoardRoleSchema,
+});
+
+/**
+ * Schema for adding an existing user to a board.
+ *
+ * @example
+ * const result = AddBoardMemberInputSchema.parse({ userId: "user-123", role: "viewer" });
+ */
+export const AddBoardMemberInputSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  role: BoardRoleSchema.default("editor"),
+});
+
+/**
+ * Schema for changing a member's role.
+ *
+ * @example
+ * const result = UpdateBoardMemberInputSchema.parse({ role: "admin" });
+ */
+export const UpdateBoardMemberInputSchema = z.object({
+  role: BoardRoleSchema,
 });
 
 // Type exports for TypeScript
+export type BoardRole = z.infer<typeof BoardRoleSchema>;
+export type BoardKey = z.infer<typeof BoardKeySchema>;
 export type Board = z.infer<typeof BoardSchema>;
 export type CreateBoardInput = z.infer<typeof CreateBoardInputSchema>;
+export type BoardMember = z.infer<typeof BoardMemberSchema>;
+export type AddBoardMemberInput = z.infer<typeof AddBoardMemberInputSchema>;
+export type UpdateBoardMemberInput = z.infer<typeof UpdateBoardMemberInputSchema>;
@@ -0,0 +1,61 @@
+/**
+ * Zod schemas for issue comments.
+ * These schemas provide runtime validation and type inference for both
+ * frontend forms and backend DTOs.
+ *
+ * @module comments/schemas
+ */
+import { z } from "zod";
+
+const CommentBodySchema = z
+  .string()
+  .trim()
+  .min(1, "Comment cannot be empty")
+  .max(5000, "Comment must be at most 5000 characters");
+
+/**
+ * Schema for a comment as returned from API.
+ * Deleted comments keep their place in the thread so replies still make
+ * sense, but come back with an empty body and `deletedAt` set.
+ */
+export const CommentSchema = z.object({
+  id: z.string(),
+  issueId: z.string(),
+  parentId: z.string().nullable(),
+  author: z.object({ id: z.string(), name: z.string() }),
+  body: z.string(),
+  createdAt: z.string().datetime(),
+  editedAt: z.string().datetime().nullable(),
+  deletedAt: z.string().datetime().nullable(),
+});
+
+/**
+ * Schema for posting a comment or a reply.
+ * Replies go one level deep: `parentId` must point at a top-level comment.
+ *
+ * @example
+ * const result = CreateCommentInputSchema.parse({ body: "Looks good", parentId: "comment-1" });
+ */
+export const CreateCommentInputSchema = z.object({
+  body: CommentBodySchema,
+  parentId: z
+    .string()
+    .nullable()
+    .optional()
+    .transform((val) => val ?? null),
+});
+
+/**
+ * Schema for editing a comment. Only the author may edit.
+ *
+ * @example
+ * const result = UpdateCommentInputSchema.parse({ body: "Looks good to me" });
+ */
+export const UpdateCommentInputSchema = z.object({
+  body: CommentBodySchema,
+});
+
+// Type exports for TypeScript
+export type Comment = z.infer<typeof CommentSchema>;
+export type CreateCommentInput = z.infer<typeof CreateCommentInputSchema>;
+export type UpdateCommentInput = z.infer<typeof UpdateCommentInputSchema>;
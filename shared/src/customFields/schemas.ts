@@ -0,0 +1,170 @@
+/**
+ * Zod schemas for per-board custom fields.
+ * A board admin defines the fields; each issue stores its values keyed by
+ * field id, and the validator for those values is built from the
+ * definitions at runtime.
+ *
+ * @module customFields/schemas
+ */
+import { z } from "zod";
+import { CalendarDateSchema, type CustomFieldValue } from "../issues/schemas.js";
+
+/**
+ * Schema for the custom field type enum.
+ * Matches the Prisma CustomFieldType enum.
+ */
+export const CustomFieldTypeSchema = z.enum([
+  "text",
+  "number",
+  "select",
+  "multi_select",
+  "date",
+  "user",
+]);
+
+/**
+ * Whether values of this type are picked from the field's options.
+ */
+export function customFieldHasOptions(type: CustomFieldType) {
+  return type === "select" || type === "multi_select";
+}
+
+/**
+ * Schema for a custom field's name, unique per board.
+ */
+export const CustomFieldNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Field name is required")
+  .max(50, "Field name must be at most 50 characters");
+
+/**
+ * Schema for the choices of a select or multi-select field.
+ */
+export const CustomFieldOptionsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .min(1, "Options cannot be empty")
+      .max(50, "Options must be at most 50 characters")
+  )
+  .max(50, "A field can have at most 50 options")
+  .refine((options) => new Set(options).size === options.length, "Options must be unique");
+
+/**
+ * Schema for a custom field definition as returned from API.
+ */
+export const CustomFieldSchema = z.object({
+  id: z.string(),
+  boardId: z.string(),
+  name: z.string(),
+  type: CustomFieldTypeSchema,
+  options: z.array(z.string()),
+  createdAt: z.string().datetime(),
+});
+
+/**
+ * Schema for defining a new field. Select fields need options; other types
+ * cannot have any.
+ *
+ * @example
+ * const result = CreateCustomFieldInputSchema.parse({
+ *   name: "Environment",
+ *   type: "select",
+ *   options: ["staging", "production"],
+ * });
+ */
+export const CreateCustomFieldInputSchema = z
+  .object({
+    name: CustomFieldNameSchema,
+    type: CustomFieldTypeSchema,
+    options: CustomFieldOptionsSchema.optional().default([]),
+  })
+  .superRefine((input, ctx) => {
+    if (customFieldHasOptions(input.type) && input.options.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["options"],
+        message: "Select fields need at least one option",
+      });
+    }
+    if (!customFieldHasOptions(input.type) && input.options.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["options"],
+        message: "Only select fields have options",
+      });
+    }
+  });
+
+/**
+ * Schema for renaming a field or changing its options. The type is fixed
+ * once a field exists, so stored values keep their shape.
+ */
+export const UpdateCustomFieldInputSchema = z
+  .object({
+    name: CustomFieldNameSchema.optional(),
+    options: CustomFieldOptionsSchema.optional(),
+  })
+  .refine((input) => Object.keys(input).length > 0, {
+    message: "Update must contain at least one field",
+  });
+
+/**
+ * Builds the validator for one field's value. `null` clears the value, and
+ * so do an empty text or an empty multi-select, so "no value" has a single
+ * representation.
+ *
+ * @example
+ * customFieldValueSchema({ type: "select", options: ["a", "b"] }).parse("a"); // "a"
+ */
+export function customFieldValueSchema(
+  field: Pick<CustomField, "type" | "options">
+): z.ZodType<CustomFieldValue | null, z.ZodTypeDef, unknown> {
+  const option = z.string().refine((value) => field.options.includes(value), {
+    message: `Must be one of: ${field.options.join(", ")}`,
+  });
+
+  switch (field.type) {
+    case "text":
+      return z
+        .string()
+        .trim()
+        .max(1000, "Text must be at most 1000 characters")
+        .transform((value) => value || null)
+        .nullable();
+    case "number":
+      return z.number().finite("Must be a number").nullable();
+    case "select":
+      return option.nullable();
+    case "multi_select":
+      return z
+        .array(option)
+        .transform((values) => (values.length > 0 ? [...new Set(values)] : null))
+        .nullable();
+    case "date":
+      return CalendarDateSchema.nullable();
+    case "user":
+      return z.string().min(1, "User ID is required").nullable();
+  }
+}
+
+/**
+ * Builds the validator for a set of values keyed by field id. Any subset of
+ * the fields may be given; ids that are not among `fields` are rejected.
+ */
+export function customFieldValuesSchema(
+  fields: Array<Pick<CustomField, "id" | "type" | "options">>
+) {
+  const shape = Object.fromEntries(
+    fields.map((field) => [field.id, customFieldValueSchema(field).optional()])
+  );
+  return z.object(shape).strict("Unknown custom field");
+}
+
+// Type exports for TypeScript
+export type CustomFieldType = z.infer<typeof CustomFieldTypeSchema>;
+export type CustomField = z.infer<typeof CustomFieldSchema>;
+export type CreateCustomFieldInput = z.infer<typeof CreateCustomFieldInputSchema>;
+export type UpdateCustomFieldInput = z.infer<typeof UpdateCustomFieldInputSchema>;
@@ -20,46 +20,277 @@ export {
   RegisterInputSchema,
   AuthUserSchema,
   AuthResponseSchema,
+  RefreshTokenInputSchema,
   type LoginInput,
   type RegisterInput,
   type AuthUser,
   type AuthResponse,
+  type RefreshTokenInput,
 } from "./auth/schemas.js";
 
 // Board schemas
 export {
+  BoardRoleSchema,
+  BoardKeySchema,
+  suggestBoardKey,
   BoardSchema,
   CreateBoardInputSchema,
+  BoardMemberSchema,
+  AddBoardMemberInputSchema,
+  UpdateBoardMemberInputSchema,
+  type BoardRole,
+  type BoardKey,
   type Board,
   type CreateBoardInput,
+  type BoardMember,
+  type AddBoardMemberInput,
+  type UpdateBoardMemberInput,
 } from "./boards/schemas.js";
 
+// Invite schemas
+export {
+  CreateInviteInputSchema,
+  BoardInviteSchema,
+  InvitePreviewSchema,
+  AcceptInviteResultSchema,
+  type CreateInviteInput,
+  type BoardInvite,
+  type InvitePreview,
+  type AcceptInviteResult,
+} from "./invites/schemas.js";
+
+// User schemas
+export {
+  UserSummarySchema,
+  SearchUsersInputSchema,
+  type UserSummary,
+  type SearchUsersInput,
+} from "./users/schemas.js";
+
 // Sprint schemas
 export {
+  SprintStateSchema,
   SprintSchema,
+  SprintGoalSchema,
   CreateSprintInputSchema,
-  SetActiveSprintInputSchema,
+  UpdateSprintInputSchema,
+  ReorderSprintsInputSchema,
+  StartSprintInputSchema,
+  CompleteSprintInputSchema,
   MoveIssueInputSchema,
+  SprintSummarySchema,
+  SprintCompletionSchema,
+  type SprintState,
   type Sprint,
   type CreateSprintInput,
-  type SetActiveSprintInput,
+  type UpdateSprintInput,
+  type ReorderSprintsInput,
+  type StartSprintInput,
+  type CompleteSprintInput,
   type MoveIssueInput,
+  type SprintSummary,
+  type SprintCompletion,
 } from "./sprints/schemas.js";
+export { sprintEntryProblem, sprintLockProblem } from "./sprints/lifecycle.js";
 
 // Issue schemas
 export {
-  IssueStatusSchema,
+  IssueTypeSchema,
+  IssuePrioritySchema,
+  LabelSchema,
+  LabelsSchema,
+  StoryPointsSchema,
+  EstimateSchema,
+  CalendarDateSchema,
+  CustomFieldValueSchema,
+  CustomFieldValuesSchema,
+  IssueParentSchema,
+  IssueProgressSchema,
   IssueSchema,
   CreateIssueInputSchema,
   IssuePatchSchema,
   PatchIssueInputSchema,
   BatchPatchInputSchema,
   ListIssuesInputSchema,
-  type IssueStatus,
+  ListRemovedIssuesInputSchema,
+  SearchIssuesInputSchema,
+  IssueEventFieldSchema,
+  IssueEventSchema,
+  type IssueType,
+  type IssuePriority,
+  type StoryPoints,
+  type Estimate,
+  type CustomFieldValue,
+  type CustomFieldValues,
+  type IssueParent,
+  type IssueProgress,
   type Issue,
   type CreateIssueInput,
   type IssuePatch,
   type PatchIssueInput,
   type BatchPatchInput,
   type ListIssuesInput,
+  type ListRemovedIssuesInput,
+  type SearchIssuesInput,
+  type IssueEventField,
+  type IssueEvent,
 } from "./issues/schemas.js";
+export { CHILD_ISSUE_TYPES, canContainIssue, hierarchyProblem } from "./issues/hierarchy.js";
+
+// Status schemas
+export {
+  StatusCategorySchema,
+  StatusValidatorSchema,
+  StatusNameSchema,
+  WipLimitSchema,
+  StatusSchema,
+  IssueStatusSchema,
+  CreateStatusInputSchema,
+  UpdateStatusInputSchema,
+  ReorderStatusesInputSchema,
+  DeleteStatusInputSchema,
+  type StatusCategory,
+  type StatusValidator,
+  type Status,
+  type IssueStatus,
+  type CreateStatusInput,
+  type UpdateStatusInput,
+  type ReorderStatusesInput,
+  type DeleteStatusInput,
+} from "./statuses/schemas.js";
+export {
+  DEFAULT_WORKFLOW,
+  initialStatus,
+  allowedInBacklog,
+  canTransition,
+  transitionProblem,
+  wipState,
+  wipProblem,
+  type TransitionRules,
+  type TransitionSubject,
+  type WipLimits,
+  type WipState,
+} from "./statuses/workflow.js";
+
+// Custom field schemas
+export {
+  CustomFieldTypeSchema,
+  CustomFieldNameSchema,
+  CustomFieldOptionsSchema,
+  CustomFieldSchema,
+  CreateCustomFieldInputSchema,
+  UpdateCustomFieldInputSchema,
+  customFieldHasOptions,
+  customFieldValueSchema,
+  customFieldValuesSchema,
+  type CustomFieldType,
+  type CustomField,
+  type CreateCustomFieldInput,
+  type UpdateCustomFieldInput,
+} from "./customFields/schemas.js";
+
+// Issue link schemas
+export {
+  IssueLinkTypeSchema,
+  IssueLinkRelationSchema,
+  LinkedIssueSchema,
+  IssueLinkSchema,
+  CreateIssueLinkInputSchema,
+  storedLink,
+  linkRelation,
+  type IssueLinkType,
+  type IssueLinkRelation,
+  type LinkedIssue,
+  type IssueLink,
+  type CreateIssueLinkInput,
+} from "./links/schemas.js";
+
+// Worklog schemas
+export {
+  CreateWorklogInputSchema,
+  WorklogSchema,
+  type CreateWorklogInput,
+  type Worklog,
+} from "./worklogs/schemas.js";
+export {
+  MINUTES_PER_HOUR,
+  MINUTES_PER_DAY,
+  MINUTES_PER_WEEK,
+  parseDuration,
+  formatDuration,
+} from "./worklogs/duration.js";
+
+// Comment schemas
+export {
+  CommentSchema,
+  CreateCommentInputSchema,
+  UpdateCommentInputSchema,
+  type Comment,
+  type CreateCommentInput,
+  type UpdateCommentInput,
+} from "./comments/schemas.js";
+
+// Notification schemas
+export {
+  NotificationKindSchema,
+  NotificationSchema,
+  type NotificationKind,
+  type Notification,
+} from "./notifications/schemas.js";
+
+// Mentions
+export {
+  mentionHandle,
+  memberHandles,
+  extractMentions,
+  findMentionQuery,
+} from "./mentions/mentions.js";
+
+// Attachment schemas
+export {
+  ATTACHMENT_MAX_BYTES,
+  ATTACHMENT_EXTRA_MIME_TYPES,
+  isAllowedAttachmentType,
+  isImageAttachment,
+  AttachmentSchema,
+  type Attachment,
+} from "./attachments/schemas.js";
+
+// Automation schemas
+export {
+  AutomationTriggerTypeSchema,
+  AutomationWatchedFieldSchema,
+  AutomationTriggerSchema,
+  SetFieldActionSchema,
+  WebhookUrlSchema,
+  AutomationActionSchema,
+  AutomationConditionSchema,
+  AutomationNameSchema,
+  AutomationRuleSchema,
+  CreateAutomationRuleInputSchema,
+  UpdateAutomationRuleInputSchema,
+  AutomationOutcomeSchema,
+  AutomationRunSchema,
+  ListAutomationRunsInputSchema,
+  type AutomationTriggerType,
+  type AutomationWatchedField,
+  type AutomationTrigger,
+  type SetFieldAction,
+  type AutomationAction,
+  type AutomationRule,
+  type CreateAutomationRuleInput,
+  type UpdateAutomationRuleInput,
+  type AutomationOutcome,
+  type AutomationRun,
+  type ListAutomationRunsInput,
+} from "./automations/schemas.js";
+export {
+  ISSUE_FILTER_FIELDS,
+  parseIssueFilter,
+  matchesIssueFilter,
+  type IssueFilterField,
+  type IssueFilterOperator,
+  type IssueFilter,
+  type IssueFilterSubject,
+  type IssueFilterParseResult,
+} from "./automations/filter.js";
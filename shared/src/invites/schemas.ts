@@ -0,0 +1,72 @@
+/**
+ * Zod schemas for board invitation links.
+ * These schemas provide runtime validation and type inference for both
+ * frontend forms and backend DTOs.
+ *
+ * @module invites/schemas
+ */
+import { z } from "zod";
+import { BoardRoleSchema } from "../boards/schemas.js";
+
+/**
+ * Schema for creating an invite link.
+ * `maxUses: null` creates a multi-use link limited only by its expiry.
+ *
+ * @example
+ * const result = CreateInviteInputSchema.parse({ role: "viewer", expiresInHours: 24 });
+ */
+export const CreateInviteInputSchema = z.object({
+  role: BoardRoleSchema.default("editor"),
+  expiresInHours: z
+    .number()
+    .int()
+    .min(1, "Invite must be valid for at least 1 hour")
+    .max(720, "Invite can be valid for at most 30 days")
+    .default(72),
+  maxUses: z
+    .number()
+    .int()
+    .min(1, "Invite must allow at least one use")
+    .max(1000, "Invite can allow at most 1000 uses")
+    .nullable()
+    .default(1),
+});
+
+/**
+ * Schema for an outstanding invite as returned to board admins.
+ */
+export const BoardInviteSchema = z.object({
+  id: z.string(),
+  boardId: z.string(),
+  role: BoardRoleSchema,
+  maxUses: z.number().int().nullable(),
+  useCount: z.number().int().nonnegative(),
+  expiresAt: z.string().datetime(),
+  createdAt: z.string().datetime().optional(),
+  token: z.string(),
+});
+
+/**
+ * Schema for the public preview shown on the invite landing page.
+ */
+export const InvitePreviewSchema = z.object({
+  boardId: z.string(),
+  boardName: z.string(),
+  role: BoardRoleSchema,
+  invitedBy: z.string(),
+  expiresAt: z.string().datetime(),
+});
+
+/**
+ * Schema for the result of accepting an invite.
+ */
+export const AcceptInviteResultSchema = z.object({
+  boardId: z.string(),
+  role: BoardRoleSchema,
+});
+
+// Type exports for TypeScript
+export type CreateInviteInput = z.infer<typeof CreateInviteInputSchema>;
+export type BoardInvite = z.infer<typeof BoardInviteSchema>;
+export type InvitePreview = z.infer<typeof InvitePreviewSchema>;
+export type AcceptInviteResult = z.infer<typeof AcceptInviteResultSchema>;
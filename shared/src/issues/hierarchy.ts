@@ -0,0 +1,51 @@
+/**
+ * Parent/child rules for the issue hierarchy. Epics group standard issues
+ * (stories, tasks and bugs), standard issues break down into sub-tasks, and
+ * nothing sits below a sub-task, so the tree is at most three levels deep.
+ *
+ * @module issues/hierarchy
+ */
+import type { IssueType } from "./schemas.js";
+
+/**
+ * Issue types each type may contain as direct children.
+ */
+export const CHILD_ISSUE_TYPES: Record<IssueType, readonly IssueType[]> = {
+  epic: ["story", "task", "bug"],
+  story: ["subtask"],
+  task: ["subtask"],
+  bug: ["subtask"],
+  subtask: [],
+};
+
+/**
+ * Whether an issue of type `child` may be placed under one of type `parent`.
+ *
+ * @example
+ * canContainIssue("epic", "story"); // true
+ * canContainIssue("story", "epic"); // false
+ */
+export function canContainIssue(parent: IssueType, child: IssueType): boolean {
+  return CHILD_ISSUE_TYPES[parent].includes(child);
+}
+
+/**
+ * Explains why a child/parent pairing is not allowed, or returns null when it is.
+ * Sub-tasks only exist under another issue, so they need a parent.
+ */
+export function hierarchyProblem(parent: IssueType | null, child: IssueType): string | null {
+  if (parent === null) {
+    return child === "subtask" ? "A sub-task must have a parent issue" : null;
+  }
+  if (canContainIssue(parent, child)) return null;
+  const what = WITH_ARTICLE[child];
+  return `${what[0].toUpperCase()}${what.slice(1)} cannot be placed under ${WITH_ARTICLE[parent]}`;
+}
+
+const WITH_ARTICLE: Record<IssueType, string> = {
+  epic: "an epic",
+  story: "a story",
+  task: "a task",
+  bug: "a bug",
+  subtask: "a sub-task",
+};
@@ -6,40 +6,155 @@
  * @module issues/schemas
  */
 import { z } from "zod";
+import { IssueStatusSchema } from "../statuses/schemas.js";
 
 /**
- * Schema for issue status enum.
- * Matches the Prisma IssueStatus enum.
+ * Schema for issue type enum.
+ * Matches the Prisma IssueType enum.
  */
-export const IssueStatusSchema = z.enum(["backlog", "todo", "in_progress", "done"]);
+export const IssueTypeSchema = z.enum(["bug", "story", "task", "epic", "subtask"]);
+
+/**
+ * Schema for issue priority enum, ordered lowest to highest.
+ * Matches the Prisma IssuePriority enum.
+ */
+export const IssuePrioritySchema = z.enum(["lowest", "low", "medium", "high", "highest"]);
+
+/**
+ * Schema for a single label. Labels are free-form per board but, as in Jira,
+ * a label is one word so it can be typed and matched without quoting.
+ *
+ * @example
+ * LabelSchema.parse("  frontend "); // "frontend"
+ */
+export const LabelSchema = z
+  .string()
+  .trim()
+  .min(1, "Label cannot be empty")
+  .max(32, "Label must be at most 32 characters")
+  .regex(/^\S+$/, "Labels cannot contain spaces");
+
+/**
+ * Schema for an issue's labels. Duplicates are dropped, keeping first-seen order.
+ */
+export const LabelsSchema = z
+  .array(LabelSchema)
+  .max(20, "An issue can have at most 20 labels")
+  .transform((labels) => [...new Set(labels)]);
+
+/**
+ * Schema for story points. Halves are allowed so small tasks can be sized
+ * below one point; `null` means the issue has not been estimated.
+ */
+export const StoryPointsSchema = z
+  .number()
+  .min(0, "Story points cannot be negative")
+  .max(999, "Story points must be at most 999")
+  .multipleOf(0.5, "Story points must be whole or half points")
+  .nullable();
+
+/**
+ * Schema for a time estimate in minutes; `null` means no estimate.
+ */
+export const EstimateSchema = z
+  .number()
+  .int("Estimates are whole minutes")
+  .min(0, "Estimates cannot be negative")
+  .max(100_000, "Estimate is too large")
+  .nullable();
+
+/**
+ * Schema for a calendar day as `YYYY-MM-DD`, with no time or time zone.
+ *
+ * @example
+ * CalendarDateSchema.parse("2026-06-01");
+ */
+export const CalendarDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Date is not a valid day");
+
+/**
+ * Schema for a stored custom field value. Which shape a field takes depends
+ * on its definition; see `customFieldValueSchema` in customFields/schemas.
+ */
+export const CustomFieldValueSchema = z.union([z.string(), z.number(), z.array(z.string())]);
+
+/**
+ * Schema for an issue's custom field values, keyed by field id. Fields
+ * without a value are absent.
+ */
+export const CustomFieldValuesSchema = z.record(z.string(), CustomFieldValueSchema);
+
+/**
+ * Summary of an issue's parent, enough to render a chip without loading it.
+ */
+export const IssueParentSchema = z.object({
+  id: z.string(),
+  key: z.string(),
+  title: z.string(),
+  type: IssueTypeSchema,
+  sprintId: z.string().nullable(),
+});
+
+/**
+ * Roll-up of an issue's direct children: how many there are and how many are done.
+ */
+export const IssueProgressSchema = z.object({
+  done: z.number().int().nonnegative(),
+  total: z.number().int().nonnegative(),
+});
 
 /**
  * Schema for Issue entity as returned from API.
+ * `status` summarises the status `statusId` points at.
+ * `parent`, `progress` and `blocked` are derived by the server; `blocked` is
+ * set while any issue that blocks this one is not done. `purgeAt` is only
+ * present on issues in the trash and says when they are deleted for good.
  */
 export const IssueSchema = z.object({
   id: z.string(),
   key: z.string(),
   boardId: z.string(),
   sprintId: z.string().nullable(),
+  statusId: z.string(),
   status: IssueStatusSchema,
   order: z.number().int().nonnegative(),
+  type: IssueTypeSchema,
+  priority: IssuePrioritySchema,
+  labels: z.array(z.string()),
   title: z.string().min(1).max(500),
   description: z.string().max(10000),
   assigneeId: z.string().nullable(),
   watcherIds: z.array(z.string()),
+  parentId: z.string().nullable(),
+  storyPoints: z.number().nullable(),
+  originalEstimate: z.number().int().nullable(),
+  remainingEstimate: z.number().int().nullable(),
+  // Midnight UTC of the due day; only the date part is meaningful.
+  dueDate: z.string().nullable(),
+  customFields: CustomFieldValuesSchema,
+  archivedAt: z.string().datetime().nullable(),
+  deletedAt: z.string().datetime().nullable(),
+  version: z.number().int().positive(),
+  purgeAt: z.string().datetime().optional(),
+  parent: IssueParentSchema.nullable().optional(),
+  progress: IssueProgressSchema.optional(),
+  blocked: z.boolean().optional(),
   createdAt: z.string().datetime().optional(),
   updatedAt: z.string().datetime().optional(),
 });
 
 /**
  * Schema for creating a new issue.
- * Validates all required fields and applies transformations.
+ * Validates all required fields and applies transformations. Without a
+ * `statusId` the issue starts in the board's initial status.
  *
  * @example
  * const result = CreateIssueInputSchema.parse({
  *   boardId: "board-123",
  *   title: "Fix the bug",
- *   status: "todo"
+ *   statusId: "status-456"
  * });
  */
 export const CreateIssueInputSchema = z.object({
@@ -49,8 +164,11 @@ export const CreateIssueInputSchema = z.object({
     .nullable()
     .optional()
     .transform((val) => val ?? null),
-  status: IssueStatusSchema.default("backlog"),
+  statusId: z.string().min(1).optional(),
   order: z.number().int().nonnegative().default(0),
+  type: IssueTypeSchema.default("task"),
+  priority: IssuePrioritySchema.default("medium"),
+  labels: LabelsSchema.default([]),
   title: z
     .string()
     .min(1, "Title is required")
@@ -59,6 +177,17 @@ export const CreateIssueInputSchema = z.object({
   description: z.string().max(10000, "Description must be at most 10000 characters").default(""),
   assigneeId: z.string().nullable().optional(),
   watcherIds: z.array(z.string()).optional().default([]),
+  parentId: z
+    .string()
+    .nullable()
+    .optional()
+    .transform((val) => val ?? null),
+  storyPoints: StoryPointsSchema.optional().default(null),
+  originalEstimate: EstimateSchema.optional().default(null),
+  remainingEstimate: EstimateSchema.optional().default(null),
+  dueDate: CalendarDateSchema.nullable().optional().default(null),
+  // Checked against the board's field definitions by the server.
+  customFields: z.record(z.string(), z.unknown()).optional().default({}),
 });
 
 /**
@@ -73,11 +202,21 @@ export const IssuePatchSchema = z
       .max(500, "Title must be at most 500 characters")
       .optional(),
     description: z.string().max(10000, "Description must be at most 10000 characters").optional(),
-    status: IssueStatusSchema.optional(),
+    statusId: z.string().min(1).optional(),
     order: z.number().int().nonnegative().optional(),
+    type: IssueTypeSchema.optional(),
+    priority: IssuePrioritySchema.optional(),
+    labels: LabelsSchema.optional(),
     sprintId: z.string().nullable().optional(),
     assigneeId: z.string().nullable().optional(),
     watcherIds: z.array(z.string()).optional(),
+    parentId: z.string().nullable().optional(),
+    storyPoints: StoryPointsSchema.optional(),
+    originalEstimate: EstimateSchema.optional(),
+    remainingEstimate: EstimateSchema.optional(),
+    dueDate: CalendarDateSchema.nullable().optional(),
+    // Replaces all values, like labels; fields left out are cleared.
+    customFields: z.record(z.string(), z.unknown()).optional(),
   })
   .refine((patch) => Object.keys(patch).length > 0, {
     message: "Patch must contain at least one field to update",
@@ -85,30 +224,41 @@ export const IssuePatchSchema = z
 
 /**
  * Schema for patching a single issue.
+ * `version` is the issue version the change was made against; the server
+ * refuses the patch with 409 when the issue has changed since.
  *
  * @example
  * const result = PatchIssueInputSchema.parse({
  *   id: "issue-123",
- *   patch: { title: "Updated title" }
+ *   patch: { title: "Updated title" },
+ *   version: 3
  * });
  */
 export const PatchIssueInputSchema = z.object({
   id: z.string().min(1, "Issue ID is required"),
   patch: IssuePatchSchema,
+  version: z.number().int().positive().optional(),
 });
 
 /**
  * Schema for batch patching multiple issues.
- * Limits batch size to prevent performance issues.
+ * Limits batch size to prevent performance issues. Every change names the
+ * version it was made against, like a single patch; only a pure reorder
+ * (a patch of `order` alone) may leave it out.
  *
  * @example
  * const result = BatchPatchInputSchema.parse([
- *   { id: "issue-1", patch: { status: "done" } },
- *   { id: "issue-2", patch: { status: "done" } }
+ *   { id: "issue-1", patch: { statusId: "status-done" }, version: 3 },
+ *   { id: "issue-2", patch: { order: 2000 } }
  * ]);
  */
 export const BatchPatchInputSchema = z
-  .array(PatchIssueInputSchema)
+  .array(
+    PatchIssueInputSchema.refine(
+      (change) => change.version != null || Object.keys(change.patch).every((k) => k === "order"),
+      { message: "Send the issue version with every change but a reorder", path: ["version"] }
+    )
+  )
   .min(1, "Batch must contain at least one patch")
   .max(100, "Batch cannot exceed 100 patches");
 
@@ -120,11 +270,86 @@ export const ListIssuesInputSchema = z.object({
   sprintId: z.string().optional().nullable(),
 });
 
+/**
+ * Schema for listing a board's archived issues or the issues in its trash.
+ */
+export const ListRemovedIssuesInputSchema = z.object({
+  boardId: z.string().min(1, "Board ID is required"),
+});
+
+/**
+ * Schema for finding issues on a board by key or title, e.g. for link pickers.
+ * An empty query returns no results.
+ *
+ * @example
+ * const result = SearchIssuesInputSchema.parse({ boardId: "board-123", q: "CORE-4" });
+ */
+export const SearchIssuesInputSchema = z.object({
+  boardId: z.string().min(1, "Board ID is required"),
+  q: z
+    .string()
+    .max(100, "Query must be at most 100 characters")
+    .optional()
+    .default("")
+    .transform((q) => q.trim()),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+});
+
+/**
+ * Fields recorded in an issue's change history.
+ * `created` marks the creation event; the rest are Issue fields.
+ */
+export const IssueEventFieldSchema = z.enum([
+  "created",
+  "title",
+  "description",
+  "statusId",
+  "sprintId",
+  "assigneeId",
+  "watcherIds",
+  "type",
+  "priority",
+  "labels",
+  "parentId",
+  "storyPoints",
+  "originalEstimate",
+  "remainingEstimate",
+  "dueDate",
+  "archivedAt",
+  "deletedAt",
+]);
+
+/**
+ * Schema for one entry of an issue's activity stream.
+ * Old and new values keep the shape of the field they came from
+ * (string, number, string[] or null).
+ */
+export const IssueEventSchema = z.object({
+  id: z.string(),
+  issueId: z.string(),
+  field: IssueEventFieldSchema,
+  oldValue: z.union([z.string(), z.number(), z.array(z.string())]).nullable(),
+  newValue: z.union([z.string(), z.number(), z.array(z.string())]).nullable(),
+  createdAt: z.string().datetime(),
+  actor: z.object({ id: z.string(), name: z.string() }),
+});
+
 // Type exports for TypeScript
-export type IssueStatus = z.infer<typeof IssueStatusSchema>;
+export type IssueType = z.infer<typeof IssueTypeSchema>;
+export type IssuePriority = z.infer<typeof IssuePrioritySchema>;
+export type StoryPoints = z.infer<typeof StoryPointsSchema>;
+export type Estimate = z.infer<typeof EstimateSchema>;
+export type CustomFieldValue = z.infer<typeof CustomFieldValueSchema>;
+export type CustomFieldValues = z.infer<typeof CustomFieldValuesSchema>;
+export type IssueParent = z.infer<typeof IssueParentSchema>;
+export type IssueProgress = z.infer<typeof IssueProgressSchema>;
 export type Issue = z.infer<typeof IssueSchema>;
 export type CreateIssueInput = z.infer<typeof CreateIssueInputSchema>;
 export type IssuePatch = z.infer<typeof IssuePatchSchema>;
 export type PatchIssueInput = z.infer<typeof PatchIssueInputSchema>;
 export type BatchPatchInput = z.infer<typeof BatchPatchInputSchema>;
 export type ListIssuesInput = z.infer<typeof ListIssuesInputSchema>;
+export type ListRemovedIssuesInput = z.infer<typeof ListRemovedIssuesInputSchema>;
+export type SearchIssuesInput = z.infer<typeof SearchIssuesInputSchema>;
+export type IssueEventField = z.infer<typeof IssueEventFieldSchema>;
+export type IssueEvent = z.infer<typeof IssueEventSchema>;
@@ -0,0 +1,98 @@
+/**
+ * Zod schemas for typed links between issues.
+ * A link is stored once, in one direction (`source` blocks `target`), and
+ * read from either end as a relation: the target sees "is blocked by".
+ *
+ * @module links/schemas
+ */
+import { z } from "zod";
+import { IssueTypeSchema } from "../issues/schemas.js";
+import { IssueStatusSchema } from "../statuses/schemas.js";
+
+/**
+ * Schema for the stored link type. Matches the Prisma IssueLinkType enum.
+ */
+export const IssueLinkTypeSchema = z.enum(["blocks", "duplicates", "relates"]);
+
+/**
+ * Schema for a link as seen from one of its issues.
+ * `relates_to` reads the same from both ends.
+ */
+export const IssueLinkRelationSchema = z.enum([
+  "blocks",
+  "is_blocked_by",
+  "duplicates",
+  "is_duplicated_by",
+  "relates_to",
+]);
+
+/**
+ * Schema for the issue at the other end of a link.
+ */
+export const LinkedIssueSchema = z.object({
+  id: z.string(),
+  key: z.string(),
+  title: z.string(),
+  type: IssueTypeSchema,
+  status: IssueStatusSchema,
+  sprintId: z.string().nullable(),
+});
+
+/**
+ * Schema for a link as returned from API, relative to the issue it was listed for.
+ */
+export const IssueLinkSchema = z.object({
+  id: z.string(),
+  relation: IssueLinkRelationSchema,
+  issue: LinkedIssueSchema,
+  createdAt: z.string().datetime(),
+});
+
+/**
+ * Schema for linking the current issue to another one on the same board.
+ *
+ * @example
+ * const result = CreateIssueLinkInputSchema.parse({ relation: "is_blocked_by", issueId: "issue-2" });
+ */
+export const CreateIssueLinkInputSchema = z.object({
+  relation: IssueLinkRelationSchema,
+  issueId: z.string().min(1, "Issue ID is required"),
+});
+
+const STORED: Record<IssueLinkRelation, { type: IssueLinkType; outgoing: boolean }> = {
+  blocks: { type: "blocks", outgoing: true },
+  is_blocked_by: { type: "blocks", outgoing: false },
+  duplicates: { type: "duplicates", outgoing: true },
+  is_duplicated_by: { type: "duplicates", outgoing: false },
+  relates_to: { type: "relates", outgoing: true },
+};
+
+/**
+ * How a relation is stored: its link type and whether the issue it is phrased
+ * from is the link's source (`outgoing`) or its target.
+ *
+ * @example
+ * storedLink("is_blocked_by"); // { type: "blocks", outgoing: false }
+ */
+export function storedLink(relation: IssueLinkRelation) {
+  return STORED[relation];
+}
+
+/**
+ * The relation a stored link has when read from its source (`outgoing`) or target.
+ *
+ * @example
+ * linkRelation("blocks", false); // "is_blocked_by"
+ */
+export function linkRelation(type: IssueLinkType, outgoing: boolean): IssueLinkRelation {
+  if (type === "relates") return "relates_to";
+  if (type === "blocks") return outgoing ? "blocks" : "is_blocked_by";
+  return outgoing ? "duplicates" : "is_duplicated_by";
+}
+
+// Type exports for TypeScript
+export type IssueLinkType = z.infer<typeof IssueLinkTypeSchema>;
+export type IssueLinkRelation = z.infer<typeof IssueLinkRelationSchema>;
+export type LinkedIssue = z.infer<typeof LinkedIssueSchema>;
+export type IssueLink = z.infer<typeof IssueLinkSchema>;
+export type CreateIssueLinkInput = z.infer<typeof CreateIssueLinkInputSchema>;
@@ -0,0 +1,76 @@
+/**
+ * Parsing for `@handle` mentions in descriptions and comments.
+ * A user's handle is the local part of their email address, lower-cased
+ * (`susan@example.com` → `@susan`), which is stable and usually unique
+ * within a board. A handle two members share names neither of them.
+ *
+ * @module mentions/mentions
+ */
+
+// `@` must start the text or follow something that is not part of a word,
+// an email address or another mention, so `me@example.com` is not a mention.
+const MENTION_RE = /(^|[^\w@.])@([a-z0-9][a-z0-9._-]*)/gi;
+const TRAILING_PUNCTUATION_RE = /[._-]+$/;
+
+/**
+ * Returns the handle a user is mentioned by.
+ *
+ * @example
+ * mentionHandle("Susan.Lee@example.com"); // "susan.lee"
+ */
+export function mentionHandle(email: string): string {
+  const local = email.split("@")[0] ?? "";
+  return local.toLowerCase().replace(/[^a-z0-9._-]/g, "");
+}
+
+/**
+ * Maps each handle to the one member it belongs to. Handles shared by
+ * several members (`susan@a.com` and `susan@b.com`) are left out, so a
+ * mention never reaches the wrong person.
+ *
+ * @example
+ * memberHandles([{ userId: "u1", email: "susan@a.com" }]); // Map { "susan" => "u1" }
+ */
+export function memberHandles(members: Array<{ userId: string; email: string }>) {
+  const byHandle = new Map<string, string | null>();
+  for (const { userId, email } of members) {
+    const handle = mentionHandle(email);
+    byHandle.set(handle, byHandle.has(handle) ? null : userId);
+  }
+  return new Map([...byHandle].filter((entry): entry is [string, string] => entry[1] !== null));
+}
+
+/**
+ * Extracts the distinct, lower-cased handles mentioned in a text,
+ * in order of first appearance. Sentence punctuation after a handle
+ * (`@susan.`) is not part of it.
+ *
+ * @example
+ * extractMentions("cc @susan and @James."); // ["susan", "james"]
+ */
+export function extractMentions(text: string): string[] {
+  const seen = new Set<string>();
+  for (const match of text.matchAll(MENTION_RE)) {
+    const handle = match[2].replace(TRAILING_PUNCTUATION_RE, "").toLowerCase();
+    if (handle) seen.add(handle);
+  }
+  return [...seen];
+}
+
+/**
+ * Finds the mention being typed at the caret, if any: the `@` position
+ * and the partial handle between it and the caret. Used to drive
+ * inline autocomplete.
+ *
+ * @example
+ * findMentionQuery("ping @su", 8); // { start: 5, query: "su" }
+ */
+export function findMentionQuery(
+  text: string,
+  caret: number
+): { start: number; query: string } | null {
+  const before = text.slice(0, caret);
+  const match = /(^|[^\w@.])@([a-z0-9._-]*)$/i.exec(before);
+  if (!match) return null;
+  return { start: before.length - match[2].length - 1, query: match[2] };
+}
@@ -0,0 +1,40 @@
+/**
+ * Zod schemas for user notifications.
+ * These schemas provide runtime validation and type inference for both
+ * frontend forms and backend DTOs.
+ *
+ * @module notifications/schemas
+ */
+import { z } from "zod";
+
+/**
+ * Schema for the notification kind enum.
+ * Matches the Prisma NotificationKind enum.
+ */
+export const NotificationKindSchema = z.enum(["mention", "due_soon"]);
+
+/**
+ * Schema for a notification as returned from API.
+ * `commentId` is set when the mention was in a comment rather than the
+ * issue description. Due date reminders come from the server itself and
+ * have no `actor`.
+ */
+export const NotificationSchema = z.object({
+  id: z.string(),
+  kind: NotificationKindSchema,
+  actor: z.object({ id: z.string(), name: z.string() }).nullable(),
+  issue: z.object({
+    id: z.string(),
+    key: z.string(),
+    title: z.string(),
+    boardId: z.string(),
+    sprintId: z.string().nullable(),
+  }),
+  commentId: z.string().nullable(),
+  readAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+// Type exports for TypeScript
+export type NotificationKind = z.infer<typeof NotificationKindSchema>;
+export type Notification = z.infer<typeof NotificationSchema>;
@@ -0,0 +1,31 @@
+/**
+ * What a sprint's lifecycle state allows. Planned and active sprints take
+ * issues; a closed sprint keeps the issues it ended with, as they ended.
+ *
+ * @module sprints/lifecycle
+ */
+import type { SprintState } from "./schemas.js";
+
+/**
+ * Why an issue can't join a sprint in state `target`, or null when it can.
+ * The backlog (null) always takes issues.
+ *
+ * @example
+ * sprintEntryProblem("planned"); // null
+ * sprintEntryProblem("closed"); // "Issues cannot be added to a closed sprint"
+ */
+export function sprintEntryProblem(target: SprintState | null): string | null {
+  return target === "closed" ? "Issues cannot be added to a closed sprint" : null;
+}
+
+/**
+ * Why an issue sitting in a sprint in state `current` can't be edited, moved
+ * or deleted, or null when it can. Backlog issues (null) are never locked.
+ *
+ * @example
+ * sprintLockProblem("active"); // null
+ * sprintLockProblem("closed"); // "Issues in a closed sprint cannot be changed"
+ */
+export function sprintLockProblem(current: SprintState | null): string | null {
+  return current === "closed" ? "Issues in a closed sprint cannot be changed" : null;
+}
@@ -6,25 +6,48 @@
  * @module sprints/schemas
  */
 import { z } from "zod";
+import { CalendarDateSchema } from "../issues/schemas.js";
 
 /**
- * Schema for Sprint entity as returned from API.
+ * Schema for where a sprint is in its lifecycle. Sprints are planned, then
+ * started, then completed; a board has at most one active sprint.
+ * Matches the Prisma SprintState enum.
+ */
+export const SprintStateSchema = z.enum(["planned", "active", "closed"]);
+
+/**
+ * Schema for Sprint entity as returned from API. Start and end dates are
+ * calendar days, set when the sprint starts; `completedAt` is when it closed.
+ * `order` ranks the board's sprints, the next planned sprint first.
  */
 export const SprintSchema = z.object({
   id: z.string(),
   boardId: z.string(),
   name: z.string().min(1).max(100),
-  isActive: z.boolean(),
+  goal: z.string().nullable(),
+  state: SprintStateSchema,
+  order: z.number().int(),
+  startDate: z.string().nullable(),
+  endDate: z.string().nullable(),
+  completedAt: z.string().datetime().nullable(),
   createdAt: z.string().datetime().optional(),
   updatedAt: z.string().datetime().optional(),
 });
 
 /**
- * Schema for creating a new sprint.
+ * Schema for a sprint goal. Blank goals are stored as no goal.
+ */
+export const SprintGoalSchema = z
+  .string()
+  .max(500, "Sprint goal must be at most 500 characters")
+  .transform((goal) => goal.trim() || null);
+
+/**
+ * Schema for creating a new sprint. Sprints start out planned.
  * Validates sprint name length and trims whitespace.
  *
  * @example
- * const result = CreateSprintInputSchema.parse({ name: "Sprint 1", isActive: true });
+ * const result = CreateSprintInputSchema.parse({ name: "Sprint 1" });
  */
 export const CreateSprintInputSchema = z.object({
   name: z
@@ -32,33 +55,142 @@ export const CreateSprintInputSchema = z.object({
     .min(1, "Sprint name is required")
     .max(100, "Sprint name must be at most 100 characters")
     .transform((name) => name.trim()),
-  isActive: z.boolean().optional().default(false),
+  goal: SprintGoalSchema.optional(),
+});
+
+/**
+ * Schema for editing a sprint's name, goal or dates. A null date clears it,
+ * which only planned sprints allow; the server checks the resulting range.
+ *
+ * @example
+ * const result = UpdateSprintInputSchema.parse({ name: "Login sprint" });
+ */
+export const UpdateSprintInputSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Sprint name is required")
+      .max(100, "Sprint name must be at most 100 characters")
+      .optional(),
+    goal: SprintGoalSchema.optional(),
+    startDate: CalendarDateSchema.nullable().optional(),
+    endDate: CalendarDateSchema.nullable().optional(),
+  })
+  .refine((input) => Object.values(input).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  })
+  .refine((input) => !input.startDate || !input.endDate || input.endDate >= input.startDate, {
+    message: "Sprint cannot end before it starts",
+    path: ["endDate"],
+  });
+
+/**
+ * Schema for putting a board's planned sprints in a new order. Lists every
+ * planned sprint, the next one to start first.
+ *
+ * @example
+ * const result = ReorderSprintsInputSchema.parse({ ids: ["sprint-3", "sprint-2"] });
+ */
+export const ReorderSprintsInputSchema = z.object({
+  ids: z
+    .array(z.string().min(1))
+    .min(1, "List the board's planned sprints")
+    .refine((ids) => new Set(ids).size === ids.length, "Sprints must not repeat"),
 });
 
 /**
- * Schema for setting the active sprint on a board.
+ * Schema for starting a planned sprint.
+ *
+ * @example
+ * const result = StartSprintInputSchema.parse({
+ *   goal: "Ship the login page",
+ *   startDate: "2026-06-01",
+ *   endDate: "2026-06-14",
+ * });
+ */
+export const StartSprintInputSchema = z
+  .object({
+    goal: SprintGoalSchema.optional(),
+    startDate: CalendarDateSchema,
+    endDate: CalendarDateSchema,
+  })
+  .refine((input) => input.endDate >= input.startDate, {
+    message: "Sprint cannot end before it starts",
+    path: ["endDate"],
+  });
+
+/**
+ * Schema for completing the active sprint. Unfinished issues move to the
+ * planned sprint `moveTo`, or to the backlog when it is null.
  *
  * @example
- * const result = SetActiveSprintInputSchema.parse({ sprintId: "abc123" });
+ * const result = CompleteSprintInputSchema.parse({ moveTo: null });
  */
-export const SetActiveSprintInputSchema = z.object({
-  sprintId: z.string().min(1, "Sprint ID is required"),
+export const CompleteSprintInputSchema = z.object({
+  moveTo: z.string().min(1).nullable().optional().default(null),
 });
 
 /**
- * Schema for moving an issue between sprints.
+ * Schema for moving an issue between sprints. `order` places it among the
+ * issues of the column it lands in; without one it goes to the end.
  *
  * @example
  * const result = MoveIssueInputSchema.parse({ sprintId: "sprint-123" });
  */
 export const MoveIssueInputSchema = z.object({
   sprintId: z.string().nullable(),
-  status: z.enum(["backlog", "todo", "in_progress", "done"]).optional(),
+  statusId: z.string().min(1).optional(),
   order: z.number().int().nonnegative().optional(),
 });
 
+/**
+ * Schema for a sprint's estimation totals, as returned from
+ * `GET /boards/:boardId/sprints/:sprintId/summary`.
+ * Estimates and time spent are in minutes; unestimated issues count
+ * towards `issueCount` but add nothing to the point totals.
+ */
+export const SprintSummarySchema = z.object({
+  sprintId: z.string(),
+  issueCount: z.number().int().nonnegative(),
+  unestimatedCount: z.number().int().nonnegative(),
+  points: z.object({
+    total: z.number().nonnegative(),
+    done: z.number().nonnegative(),
+    // Keyed by status id; `done` sums the statuses in the done category.
+    byStatus: z.record(z.string(), z.number().nonnegative()),
+  }),
+  originalEstimate: z.number().int().nonnegative(),
+  remainingEstimate: z.number().int().nonnegative(),
+  timeSpent: z.number().int().nonnegative(),
+});
+
+/**
+ * Schema for the report returned when a sprint is completed. Work counts as
+ * completed when its status is in the done category; `movedTo` is the
+ * sprint the incomplete issues went to, or null for the backlog.
+ */
+export const SprintCompletionSchema = z.object({
+  sprint: SprintSchema,
+  completed: z.object({
+    issueCount: z.number().int().nonnegative(),
+    points: z.number().nonnegative(),
+  }),
+  incomplete: z.object({
+    issueCount: z.number().int().nonnegative(),
+    points: z.number().nonnegative(),
+  }),
+  movedTo: z.object({ id: z.string(), name: z.string() }).nullable(),
+});
+
 // Type exports for TypeScript
+export type SprintState = z.infer<typeof SprintStateSchema>;
 export type Sprint = z.infer<typeof SprintSchema>;
 export type CreateSprintInput = z.infer<typeof CreateSprintInputSchema>;
-export type SetActiveSprintInput = z.infer<typeof SetActiveSprintInputSchema>;
+export type UpdateSprintInput = z.infer<typeof UpdateSprintInputSchema>;
+export type ReorderSprintsInput = z.infer<typeof ReorderSprintsInputSchema>;
+export type StartSprintInput = z.infer<typeof StartSprintInputSchema>;
+export type CompleteSprintInput = z.infer<typeof CompleteSprintInputSchema>;
 export type MoveIssueInput = z.infer<typeof MoveIssueInputSchema>;
+export type SprintSummary = z.infer<typeof SprintSummarySchema>;
+export type SprintCompletion = z.infer<typeof SprintCompletionSchema>;
@@ -0,0 +1,145 @@
+/**
+ * Zod schemas for per-board workflow statuses.
+ * Each board names its own columns; the category says what a status means
+ * (not started, being worked on, finished) so sprint logic, roll-ups and
+ * due dates work the same whatever the columns are called.
+ *
+ * @module statuses/schemas
+ */
+import { z } from "zod";
+
+/**
+ * Schema for the status category enum.
+ * Matches the Prisma StatusCategory enum.
+ */
+export const StatusCategorySchema = z.enum(["todo", "in_progress", "done"]);
+
+/**
+ * Schema for the checks an issue must pass to enter a status.
+ * Matches the Prisma StatusValidator enum.
+ */
+export const StatusValidatorSchema = z.enum(["assignee_required", "subtasks_done"]);
+
+/**
+ * Schema for a status name, unique per board.
+ */
+export const StatusNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Status name is required")
+  .max(40, "Status name must be at most 40 characters");
+
+/**
+ * Schema for a work-in-progress limit: how many of a sprint's issues a
+ * column should hold at least or at most.
+ */
+export const WipLimitSchema = z
+  .number()
+  .int("WIP limits must be whole numbers")
+  .min(1, "WIP limits must be at least 1")
+  .max(999, "WIP limits must be at most 999");
+
+/**
+ * Schema for a status as returned from API. `order` is its column position.
+ * `transitionsTo` lists the statuses issues may move to from this one; when
+ * empty they may move anywhere. `wipMin` and `wipMax` are the column's WIP
+ * limits, null when unset; with `wipHard` the maximum can't be exceeded.
+ */
+export const StatusSchema = z.object({
+  id: z.string(),
+  boardId: z.string(),
+  name: z.string(),
+  category: StatusCategorySchema,
+  order: z.number().int(),
+  transitionsTo: z.array(z.string()),
+  validators: z.array(StatusValidatorSchema),
+  wipMin: z.number().int().nullable(),
+  wipMax: z.number().int().nullable(),
+  wipHard: z.boolean(),
+  createdAt: z.string().datetime(),
+});
+
+/**
+ * Summary of an issue's status, carried on the issue so it can be shown and
+ * checked for "done" without loading the board's workflow.
+ */
+export const IssueStatusSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  category: StatusCategorySchema,
+});
+
+/**
+ * Schema for adding a status. New statuses go at the end of the board.
+ *
+ * @example
+ * const result = CreateStatusInputSchema.parse({ name: "Code review", category: "in_progress" });
+ */
+export const CreateStatusInputSchema = z.object({
+  name: StatusNameSchema,
+  category: StatusCategorySchema,
+});
+
+/**
+ * Schema for changing a status: its name, category, the statuses issues may
+ * move on to, the checks for entering it and its WIP limits. Lists replace
+ * the stored ones; a null limit removes it.
+ *
+ * @example
+ * const result = UpdateStatusInputSchema.parse({ validators: ["assignee_required"] });
+ */
+export const UpdateStatusInputSchema = z
+  .object({
+    name: StatusNameSchema.optional(),
+    category: StatusCategorySchema.optional(),
+    transitionsTo: z
+      .array(z.string().min(1))
+      .refine((ids) => new Set(ids).size === ids.length, "Transitions must not repeat")
+      .optional(),
+    validators: z
+      .array(StatusValidatorSchema)
+      .refine((list) => new Set(list).size === list.length, "Validators must not repeat")
+      .optional(),
+    wipMin: WipLimitSchema.nullable().optional(),
+    wipMax: WipLimitSchema.nullable().optional(),
+    wipHard: z.boolean().optional(),
+  })
+  .refine((input) => Object.values(input).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  })
+  .refine((input) => input.wipMin == null || input.wipMax == null || input.wipMin <= input.wipMax, {
+    message: "The minimum WIP limit can't be above the maximum",
+    path: ["wipMin"],
+  });
+
+/**
+ * Schema for putting a board's columns in a new order. Lists every status
+ * of the board, first column first.
+ *
+ * @example
+ * const result = ReorderStatusesInputSchema.parse({ ids: ["st-todo", "st-review", "st-done"] });
+ */
+export const ReorderStatusesInputSchema = z.object({
+  ids: z
+    .array(z.string().min(1))
+    .min(1, "List the board's statuses")
+    .refine((ids) => new Set(ids).size === ids.length, "Statuses must not repeat"),
+});
+
+/**
+ * Schema for deleting a status. Issues still in it move to `moveTo`, which
+ * is required while there are any.
+ */
+export const DeleteStatusInputSchema = z.object({
+  moveTo: z.string().min(1).optional(),
+});
+
+// Type exports for TypeScript
+export type StatusCategory = z.infer<typeof StatusCategorySchema>;
+export type StatusValidator = z.infer<typeof StatusValidatorSchema>;
+export type Status = z.infer<typeof StatusSchema>;
+export type IssueStatus = z.infer<typeof IssueStatusSchema>;
+export type CreateStatusInput = z.infer<typeof CreateStatusInputSchema>;
+export type UpdateStatusInput = z.infer<typeof UpdateStatusInputSchema>;
+export type ReorderStatusesInput = z.infer<typeof ReorderStatusesInputSchema>;
+export type DeleteStatusInput = z.infer<typeof DeleteStatusInputSchema>;
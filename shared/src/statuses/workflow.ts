@@ -0,0 +1,134 @@
+/**
+ * Rules every board's workflow follows, whatever its statuses are called.
+ * The backlog is the issues outside any sprint; they have not been started,
+ * so they always sit in a to-do status. Within a sprint, each status may
+ * limit where issues go next and what they need before entering it.
+ *
+ * @module statuses/workflow
+ */
+import type { StatusCategory, StatusValidator } from "./schemas.js";
+
+/**
+ * The parts of a status its transition rules are made of.
+ */
+export type TransitionRules = {
+  id: string;
+  name: string;
+  transitionsTo: readonly string[];
+  validators: readonly StatusValidator[];
+};
+
+/**
+ * What the validators look at on the issue being moved.
+ */
+export type TransitionSubject = {
+  assigneeId: string | null;
+  // Direct children that are not done yet.
+  openSubtasks: number;
+};
+
+/**
+ * A column's WIP limits; null when unset.
+ */
+export type WipLimits = {
+  wipMin: number | null;
+  wipMax: number | null;
+};
+
+/**
+ * How a column's issue count compares with its WIP limits.
+ */
+export type WipState = "under" | "within" | "over";
+
+/**
+ * The statuses a new board starts with.
+ */
+export const DEFAULT_WORKFLOW: ReadonlyArray<{ name: string; category: StatusCategory }> = [
+  { name: "To do", category: "todo" },
+  { name: "In progress", category: "in_progress" },
+  { name: "Done", category: "done" },
+];
+
+/**
+ * Where new issues start: the leftmost to-do status, or null when the board
+ * has none.
+ */
+export function initialStatus<T extends { category: StatusCategory; order: number }>(
+  statuses: readonly T[]
+): T | null {
+  return statuses
+    .filter((s) => s.category === "todo")
+    .reduce<T | null>((first, s) => (first === null || s.order < first.order ? s : first), null);
+}
+
+/**
+ * Whether an issue may stay in a status while it is in the backlog.
+ * Anything started or finished goes back to the initial status instead.
+ */
+export function allowedInBacklog(category: StatusCategory): boolean {
+  return category === "todo";
+}
+
+/**
+ * Whether the workflow lets an issue go from `from` to the status `toId`.
+ * Staying put is always allowed, and a status without transitions leads
+ * anywhere.
+ *
+ * @example
+ * canTransition({ id: "todo", transitionsTo: ["doing"] }, "done"); // false
+ */
+export function canTransition(
+  from: Pick<TransitionRules, "id" | "transitionsTo">,
+  toId: string
+): boolean {
+  return from.id === toId || from.transitionsTo.length === 0 || from.transitionsTo.includes(toId);
+}
+
+/**
+ * Explains why an issue can't move from `from` to `to`, or returns null when
+ * it can. The transition is checked first, then `to`'s validators.
+ */
+export function transitionProblem(
+  from: TransitionRules,
+  to: TransitionRules,
+  issue: TransitionSubject
+): string | null {
+  if (from.id === to.id) return null;
+  if (!canTransition(from, to.id)) {
+    return `Issues in ${from.name} cannot move to ${to.name}`;
+  }
+  if (to.validators.includes("assignee_required") && !issue.assigneeId) {
+    return `Assign the issue before moving it to ${to.name}`;
+  }
+  if (to.validators.includes("subtasks_done") && issue.openSubtasks > 0) {
+    const open =
+      issue.openSubtasks === 1 ? "1 open sub-task" : `${issue.openSubtasks} open sub-tasks`;
+    return `Finish its ${open} before moving it to ${to.name}`;
+  }
+  return null;
+}
+
+/**
+ * Compares the number of a sprint's issues in a column with its WIP limits.
+ * Reaching the maximum is still within it; only going past it is over.
+ */
+export function wipState(limits: WipLimits, count: number): WipState {
+  if (limits.wipMax !== null && count > limits.wipMax) return "over";
+  if (limits.wipMin !== null && count < limits.wipMin) return "under";
+  return "within";
+}
+
+/**
+ * Explains why a column can't take more issues, or returns null when it can.
+ * `count` is the number it would hold afterwards; only a hard maximum refuses.
+ *
+ * @example
+ * wipProblem({ name: "Review", wipMax: 2, wipHard: true }, 3); // "Review is at its WIP limit of 2"
+ */
+export function wipProblem(
+  status: { name: string; wipMax: number | null; wipHard: boolean },
+  count: number
+): string | null {
+  if (!status.wipHard || status.wipMax === null || count <= status.wipMax) return null;
+  return `${status.name} is at its WIP limit of ${status.wipMax}`;
+}
@@ -0,0 +1,39 @@
+/**
+ * Zod schemas for the users directory.
+ * User lookups are always scoped to a board, so pickers only ever
+ * offer people who can actually see the issue.
+ *
+ * @module users/schemas
+ */
+import { z } from "zod";
+
+/**
+ * Schema for a user as returned from directory lookups.
+ */
+export const UserSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string().email(),
+});
+
+/**
+ * Schema for searching members of a board by name or email.
+ * An empty query returns no results.
+ *
+ * @example
+ * const result = SearchUsersInputSchema.parse({ boardId: "board-123", q: "sus" });
+ */
+export const SearchUsersInputSchema = z.object({
+  boardId: z.string().min(1, "Board ID is required"),
+  q: z
+    .string()
+    .max(100, "Query must be at most 100 characters")
+    .optional()
+    .default("")
+    .transform((q) => q.trim()),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+});
+
+// Type exports for TypeScript
+export type UserSummary = z.infer<typeof UserSummarySchema>;
+export type SearchUsersInput = z.infer<typeof SearchUsersInputSchema>;
@@ -0,0 +1,63 @@
+/**
+ * Jira-style durations for estimates and logged work. Durations are stored
+ * as whole minutes and written as `1w 2d 3h 30m`, where a day is 8 hours
+ * and a week is 5 days of work.
+ *
+ * @module worklogs/duration
+ */
+
+export const MINUTES_PER_HOUR = 60;
+export const MINUTES_PER_DAY = 8 * MINUTES_PER_HOUR;
+export const MINUTES_PER_WEEK = 5 * MINUTES_PER_DAY;
+
+const UNIT_MINUTES = {
+  w: MINUTES_PER_WEEK,
+  d: MINUTES_PER_DAY,
+  h: MINUTES_PER_HOUR,
+  m: 1,
+} as const;
+
+const PART_RE = /^(\d+(?:\.\d+)?)([wdhm])$/;
+
+/**
+ * Parses a duration such as `"2h 30m"` or `"1.5d"` into minutes.
+ * A bare number is read as hours. Returns `null` for anything else.
+ *
+ * @example
+ * parseDuration("1d 2h"); // 600
+ * parseDuration("3"); // 180
+ */
+export function parseDuration(text: string): number | null {
+  const parts = text.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return null;
+  if (parts.length === 1 && /^\d+(?:\.\d+)?$/.test(parts[0])) {
+    return Math.round(Number(parts[0]) * MINUTES_PER_HOUR);
+  }
+
+  let minutes = 0;
+  for (const part of parts) {
+    const match = PART_RE.exec(part);
+    if (!match) return null;
+    minutes += Number(match[1]) * UNIT_MINUTES[match[2] as keyof typeof UNIT_MINUTES];
+  }
+  return Math.round(minutes);
+}
+
+/**
+ * Formats minutes as a duration, largest unit first. Zero is `"0m"`.
+ *
+ * @example
+ * formatDuration(600); // "1d 2h"
+ */
+export function formatDuration(minutes: number): string {
+  let rest = Math.max(0, Math.round(minutes));
+  if (rest === 0) return "0m";
+
+  const parts: string[] = [];
+  for (const [unit, size] of Object.entries(UNIT_MINUTES)) {
+    const count = Math.floor(rest / size);
+    if (count > 0) parts.push(`${count}${unit}`);
+    rest -= count * size;
+  }
+  return parts.join(" ");
+}
@@ -0,0 +1,48 @@
+/**
+ * Zod schemas for time tracking worklogs.
+ * These schemas provide runtime validation and type inference for both
+ * frontend forms and backend DTOs.
+ *
+ * @module worklogs/schemas
+ */
+import { z } from "zod";
+import { CalendarDateSchema } from "../issues/schemas.js";
+
+/**
+ * Schema for logging work on an issue. Time is in whole minutes, at most a
+ * full day per entry.
+ *
+ * @example
+ * const result = CreateWorklogInputSchema.parse({ minutes: 90, date: "2026-05-25" });
+ */
+export const CreateWorklogInputSchema = z.object({
+  minutes: z
+    .number()
+    .int("Time spent is whole minutes")
+    .min(1, "Time spent must be at least one minute")
+    .max(24 * 60, "A single worklog can be at most 24h"),
+  date: CalendarDateSchema,
+  note: z
+    .string()
+    .max(1000, "Note must be at most 1000 characters")
+    .optional()
+    .default("")
+    .transform((note) => note.trim()),
+});
+
+/**
+ * Schema for a worklog as returned from API.
+ */
+export const WorklogSchema = z.object({
+  id: z.string(),
+  issueId: z.string(),
+  minutes: z.number().int().positive(),
+  date: z.string(),
+  note: z.string(),
+  user: z.object({ id: z.string(), name: z.string() }),
+  createdAt: z.string().datetime(),
+});
+
+// Type exports for TypeScript
+export type CreateWorklogInput = z.infer<typeof CreateWorklogInputSchema>;
+export type Worklog = z.infer<typeof WorklogSchema>;
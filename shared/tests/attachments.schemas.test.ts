@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { AttachmentSchema, isAllowedAttachmentType, isImageAttachment } from "../dist/index.js";
+
+describe("isAllowedAttachmentType", () => {
+  it("accepts screenshots and logs", () => {
+    expect(isAllowedAttachmentType("image/png")).toBe(true);
+    expect(isAllowedAttachmentType("text/plain")).toBe(true);
+    expect(isAllowedAttachmentType("application/json")).toBe(true);
+  });
+
+  it("ignores case", () => {
+    expect(isAllowedAttachmentType("Image/JPEG")).toBe(true);
+  });
+
+  it("rejects executables and SVG", () => {
+    expect(isAllowedAttachmentType("application/x-msdownload")).toBe(false);
+    expect(isAllowedAttachmentType("image/svg+xml")).toBe(false);
+  });
+});
+
+describe("isImageAttachment", () => {
+  it("is true only for raster images", () => {
+    expect(isImageAttachment("image/webp")).toBe(true);
+    expect(isImageAttachment("image/svg+xml")).toBe(false);
+    expect(isImageAttachment("application/pdf")).toBe(false);
+  });
+});
+
+describe("AttachmentSchema", () => {
+  it("accepts an uploaded file", () => {
+    const result = AttachmentSchema.safeParse({
+      id: "att-1",
+      issueId: "issue-1",
+      filename: "screenshot.png",
+      contentType: "image/png",
+      size: 2048,
+      uploader: { id: "user-1", name: "Demo User" },
+      createdAt: "2026-04-27T10:00:00.000Z",
+    });
+    expect(result.success).toBe(true);
+  });
+});
@@ -4,6 +4,7 @@ import {
   RegisterInputSchema,
   AuthUserSchema,
   AuthResponseSchema,
+  RefreshTokenInputSchema,
 } from "../dist/index.js";
 
 describe("LoginInputSchema", () => {
@@ -148,6 +149,7 @@ describe("AuthResponseSchema", () => {
   it("accepts valid response", () => {
     const result = AuthResponseSchema.parse({
       token: "jwt-token-here",
+      refreshToken: "session-1.secret",
       user: {
         id: "user-123",
         email: "test@example.com",
@@ -155,6 +157,34 @@ describe("AuthResponseSchema", () => {
       },
     });
     expect(result.token).toBe("jwt-token-here");
+    expect(result.refreshToken).toBe("session-1.secret");
     expect(result.user.email).toBe("test@example.com");
   });
+
+  it("rejects response without refresh token", () => {
+    const result = AuthResponseSchema.safeParse({
+      token: "jwt-token-here",
+      user: {
+        id: "user-123",
+        email: "test@example.com",
+        name: "John Doe",
+      },
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("RefreshTokenInputSchema", () => {
+  it("accepts a refresh token", () => {
+    const result = RefreshTokenInputSchema.parse({ refreshToken: "session-1.secret" });
+    expect(result.refreshToken).toBe("session-1.secret");
+  });
+
+  it("rejects empty refresh token", () => {
+    const result = RefreshTokenInputSchema.safeParse({ refreshToken: "" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("Refresh token is required");
+    }
+  });
 });
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { parseIssueFilter, matchesIssueFilter } from "../dist/index.js";
+
+const issue = {
+  type: "bug" as const,
+  priority: "high" as const,
+  status: { name: "Code review", category: "in_progress" as const },
+  assigneeId: null,
+  labels: ["UI", "login"],
+  storyPoints: 3,
+  title: "Login button does nothing",
+  dueDate: "2026-06-10",
+};
+
+function matches(text: string, subject = issue) {
+  const parsed = parseIssueFilter(text);
+  if (!parsed.ok) throw new Error(parsed.error);
+  return matchesIssueFilter(parsed.filter, subject);
+}
+
+function errorOf(text: string) {
+  const parsed = parseIssueFilter(text);
+  return parsed.ok ? null : parsed.error;
+}
+
+describe("parseIssueFilter", () => {
+  it("treats a blank filter as matching everything", () => {
+    expect(parseIssueFilter("  ")).toEqual({ ok: true, filter: null });
+    expect(matches("")).toBe(true);
+  });
+
+  it("explains what is wrong", () => {
+    expect(errorOf("colour = red")).toBe('Unknown field "colour"');
+    expect(errorOf("priority = urgent")).toBe(
+      "priority must be one of lowest, low, medium, high, highest"
+    );
+    expect(errorOf("title = login")).toBe("title does not support =");
+    expect(errorOf("type IN (bug, story")).toBe("Expected ) to close the list");
+    expect(errorOf("type = bug AND")).toBe("Expected a field at the end");
+    expect(errorOf('status = "Code review')).toBe("Unclosed quote");
+    expect(errorOf("dueDate < tomorrow")).toBe("dueDate must be compared with a YYYY-MM-DD day");
+  });
+});
+
+describe("matchesIssueFilter", () => {
+  it("compares enum fields without caring about case", () => {
+    expect(matches("type = BUG")).toBe(true);
+    expect(matches("type != bug")).toBe(false);
+    expect(matches("statusCategory IN (todo, in_progress)")).toBe(true);
+    expect(matches('status = "code review"')).toBe(true);
+  });
+
+  it("orders priorities from lowest to highest", () => {
+    expect(matches("priority >= high")).toBe(true);
+    expect(matches("priority > high")).toBe(false);
+    expect(matches("priority < highest")).toBe(true);
+  });
+
+  it("matches any of an issue's labels", () => {
+    expect(matches("labels = ui")).toBe(true);
+    expect(matches("labels NOT IN (backend, api)")).toBe(true);
+    expect(matches("labels IS EMPTY")).toBe(false);
+  });
+
+  it("handles empty values", () => {
+    expect(matches("assignee IS EMPTY")).toBe(true);
+    expect(matches("assignee = u1")).toBe(false);
+    expect(matches("assignee = u1", { ...issue, assigneeId: "u1" })).toBe(true);
+    expect(matches("storyPoints IS NOT EMPTY")).toBe(true);
+    expect(matches("storyPoints > 5", { ...issue, storyPoints: null })).toBe(false);
+  });
+
+  it("compares numbers and days", () => {
+    expect(matches("storyPoints <= 3")).toBe(true);
+    expect(matches("dueDate < 2026-07-01")).toBe(true);
+  });
+
+  it("searches titles", () => {
+    expect(matches('title ~ "login"')).toBe(true);
+    expect(matches("title ~ signup")).toBe(false);
+  });
+
+  it("combines clauses, AND binding tighter than OR", () => {
+    expect(matches("type = story AND priority = high OR labels = ui")).toBe(true);
+    expect(matches("type = story AND (priority = high OR labels = ui)")).toBe(false);
+    expect(matches("NOT statusCategory = done and assignee is empty")).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  AutomationActionSchema,
+  AutomationTriggerSchema,
+  CreateAutomationRuleInputSchema,
+  UpdateAutomationRuleInputSchema,
+} from "../dist/index.js";
+
+const rule = {
+  name: " Escalate bugs ",
+  trigger: { type: "issue_created" },
+  actions: [{ type: "set_field", field: "priority", value: "high" }],
+};
+
+describe("CreateAutomationRuleInputSchema", () => {
+  it("trims the name and defaults to an enabled rule without a condition", () => {
+    expect(CreateAutomationRuleInputSchema.parse(rule)).toEqual({
+      ...rule,
+      name: "Escalate bugs",
+      enabled: true,
+      condition: "",
+    });
+  });
+
+  it("reports condition syntax errors", () => {
+    const result = CreateAutomationRuleInputSchema.safeParse({ ...rule, condition: "type = " });
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error.issues[0].message).toBe("Expected a value at the end");
+  });
+
+  it("needs at least one action", () => {
+    expect(CreateAutomationRuleInputSchema.safeParse({ ...rule, actions: [] }).success).toBe(false);
+  });
+});
+
+describe("AutomationTriggerSchema", () => {
+  it("limits how often scheduled rules run", () => {
+    expect(AutomationTriggerSchema.safeParse({ type: "scheduled", everyMinutes: 60 }).success).toBe(
+      true
+    );
+    expect(AutomationTriggerSchema.safeParse({ type: "scheduled", everyMinutes: 5 }).success).toBe(
+      false
+    );
+  });
+
+  it("watches known fields only", () => {
+    expect(
+      AutomationTriggerSchema.safeParse({ type: "field_changed", field: "description" }).success
+    ).toBe(false);
+  });
+});
+
+describe("AutomationActionSchema", () => {
+  it("checks set_field values against the field", () => {
+    const set = (field: string, value: unknown) =>
+      AutomationActionSchema.safeParse({ type: "set_field", field, value }).success;
+
+    expect(set("priority", "highest")).toBe(true);
+    expect(set("priority", "urgent")).toBe(false);
+    expect(set("storyPoints", 2.5)).toBe(true);
+    expect(set("storyPoints", 2.3)).toBe(false);
+    expect(set("dueDate", null)).toBe(true);
+    expect(set("type", "epic")).toBe(false);
+  });
+
+  it("only calls http(s) webhooks", () => {
+    const hook = (url: string) =>
+      AutomationActionSchema.safeParse({ type: "send_webhook", url }).success;
+
+    expect(hook("https://example.com/hooks/jira")).toBe(true);
+    expect(hook("ftp://example.com/hook")).toBe(false);
+  });
+});
+
+describe("UpdateAutomationRuleInputSchema", () => {
+  it("rejects an update that changes nothing", () => {
+    expect(UpdateAutomationRuleInputSchema.safeParse({}).success).toBe(false);
+    expect(UpdateAutomationRuleInputSchema.parse({ enabled: false })).toEqual({ enabled: false });
+  });
+});
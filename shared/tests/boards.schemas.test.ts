@@ -1,5 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { BoardSchema, CreateBoardInputSchema } from "../dist/index.js";
+import {
+  BoardSchema,
+  CreateBoardInputSchema,
+  BoardRoleSchema,
+  BoardKeySchema,
+  suggestBoardKey,
+  AddBoardMemberInputSchema,
+  UpdateBoardMemberInputSchema,
+} from "../dist/index.js";
 
 describe("BoardSchema", () => {
   it("accepts valid board object with required fields", () => {
@@ -113,4 +121,90 @@ describe("CreateBoardInputSchema", () => {
     const result = CreateBoardInputSchema.safeParse({});
     expect(result.success).toBe(false);
   });
+
+  it("normalizes an optional key", () => {
+    const result = CreateBoardInputSchema.parse({ name: "Core UI", key: " core " });
+    expect(result.key).toBe("CORE");
+  });
+});
+
+describe("BoardKeySchema", () => {
+  it("accepts letters and digits starting with a letter", () => {
+    expect(BoardKeySchema.parse("WEB2")).toBe("WEB2");
+  });
+
+  it("rejects keys starting with a digit", () => {
+    const result = BoardKeySchema.safeParse("2WEB");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe(
+        "Key must be 2-10 letters or digits and start with a letter"
+      );
+    }
+  });
+
+  it("rejects single-character and overlong keys", () => {
+    expect(BoardKeySchema.safeParse("A").success).toBe(false);
+    expect(BoardKeySchema.safeParse("ABCDEFGHIJK").success).toBe(false);
+  });
+
+  it("rejects punctuation", () => {
+    expect(BoardKeySchema.safeParse("CO-RE").success).toBe(false);
+  });
+});
+
+describe("suggestBoardKey", () => {
+  it("uses the first word cut to four characters", () => {
+    expect(suggestBoardKey("Core UI")).toBe("CORE");
+    expect(suggestBoardKey("Picker Lab")).toBe("PICK");
+  });
+
+  it("joins words when the first is a single character", () => {
+    expect(suggestBoardKey("A Team")).toBe("ATEA");
+  });
+
+  it("drops leading non-letters", () => {
+    expect(suggestBoardKey("2024 Roadmap")).toBe("ROAD");
+    expect(suggestBoardKey("3D Viewer")).toBe("DVIE");
+  });
+
+  it("always returns a valid key", () => {
+    for (const name of ["", "!!!", "x", "Ünïcode board", "Q3 planning"]) {
+      expect(BoardKeySchema.safeParse(suggestBoardKey(name)).success).toBe(true);
+    }
+  });
+});
+
+describe("BoardRoleSchema", () => {
+  it("accepts valid roles", () => {
+    for (const role of ["viewer", "editor", "admin"] as const) {
+      expect(BoardRoleSchema.parse(role)).toBe(role);
+    }
+  });
+
+  it("rejects unknown role", () => {
+    expect(BoardRoleSchema.safeParse("owner").success).toBe(false);
+  });
+});
+
+describe("AddBoardMemberInputSchema", () => {
+  it("defaults role to editor", () => {
+    const result = AddBoardMemberInputSchema.parse({ userId: "user-123" });
+    expect(result.role).toBe("editor");
+  });
+
+  it("rejects empty userId", () => {
+    const result = AddBoardMemberInputSchema.safeParse({ userId: "" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("User ID is required");
+    }
+  });
+});
+
+describe("UpdateBoardMemberInputSchema", () => {
+  it("requires a role", () => {
+    expect(UpdateBoardMemberInputSchema.safeParse({}).success).toBe(false);
+    expect(UpdateBoardMemberInputSchema.parse({ role: "admin" }).role).toBe("admin");
+  });
 });
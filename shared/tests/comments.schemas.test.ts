@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import {
+  CommentSchema,
+  CreateCommentInputSchema,
+  UpdateCommentInputSchema,
+} from "../dist/index.js";
+
+describe("CreateCommentInputSchema", () => {
+  it("trims the body and defaults parentId to null", () => {
+    const result = CreateCommentInputSchema.parse({ body: "  Looks good  " });
+    expect(result).toEqual({ body: "Looks good", parentId: null });
+  });
+
+  it("keeps parentId for replies", () => {
+    const result = CreateCommentInputSchema.parse({ body: "Agreed", parentId: "comment-1" });
+    expect(result.parentId).toBe("comment-1");
+  });
+
+  it("rejects whitespace-only bodies", () => {
+    const result = CreateCommentInputSchema.safeParse({ body: "   " });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("Comment cannot be empty");
+    }
+  });
+
+  it("rejects bodies over 5000 characters", () => {
+    const result = CreateCommentInputSchema.safeParse({ body: "a".repeat(5001) });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("UpdateCommentInputSchema", () => {
+  it("requires a body", () => {
+    expect(UpdateCommentInputSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe("CommentSchema", () => {
+  it("accepts a deleted reply", () => {
+    const result = CommentSchema.safeParse({
+      id: "comment-2",
+      issueId: "issue-1",
+      parentId: "comment-1",
+      author: { id: "user-1", name: "Susan" },
+      body: "",
+      createdAt: "2026-04-13T09:00:00.000Z",
+      editedAt: null,
+      deletedAt: "2026-04-13T10:00:00.000Z",
+    });
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import {
+  CreateCustomFieldInputSchema,
+  UpdateCustomFieldInputSchema,
+  customFieldValueSchema,
+  customFieldValuesSchema,
+  type CustomField,
+} from "../dist/index.js";
+
+const field = (patch: Partial<CustomField>): CustomField => ({
+  id: "f1",
+  boardId: "board-1",
+  name: "Field",
+  type: "text",
+  options: [],
+  createdAt: "2026-06-08T09:00:00.000Z",
+  ...patch,
+});
+
+describe("CreateCustomFieldInputSchema", () => {
+  it("trims the name and defaults options", () => {
+    const result = CreateCustomFieldInputSchema.parse({ name: "  Customer ", type: "text" });
+    expect(result).toEqual({ name: "Customer", type: "text", options: [] });
+  });
+
+  it("requires options for select fields", () => {
+    expect(CreateCustomFieldInputSchema.safeParse({ name: "Env", type: "select" }).success).toBe(
+      false
+    );
+    expect(
+      CreateCustomFieldInputSchema.safeParse({
+        name: "Env",
+        type: "multi_select",
+        options: ["staging", "production"],
+      }).success
+    ).toBe(true);
+  });
+
+  it("rejects options on other types", () => {
+    const result = CreateCustomFieldInputSchema.safeParse({
+      name: "Customer",
+      type: "text",
+      options: ["acme"],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects duplicate and empty options", () => {
+    for (const options of [
+      ["a", "a"],
+      ["a", "  "],
+    ]) {
+      expect(
+        CreateCustomFieldInputSchema.safeParse({ name: "Env", type: "select", options }).success
+      ).toBe(false);
+    }
+  });
+
+  it("rejects unknown types", () => {
+    expect(CreateCustomFieldInputSchema.safeParse({ name: "X", type: "json" }).success).toBe(false);
+  });
+});
+
+describe("UpdateCustomFieldInputSchema", () => {
+  it("rejects an empty update", () => {
+    expect(UpdateCustomFieldInputSchema.safeParse({}).success).toBe(false);
+  });
+
+  it("does not allow changing the type", () => {
+    expect(UpdateCustomFieldInputSchema.parse({ name: "Env", type: "text" })).toEqual({
+      name: "Env",
+    });
+  });
+});
+
+describe("customFieldValueSchema", () => {
+  it("normalises empty text to null", () => {
+    const schema = customFieldValueSchema(field({ type: "text" }));
+    expect(schema.parse("  acme ")).toBe("acme");
+    expect(schema.parse("   ")).toBeNull();
+  });
+
+  it("validates numbers", () => {
+    const schema = customFieldValueSchema(field({ type: "number" }));
+    expect(schema.parse(2.5)).toBe(2.5);
+    expect(schema.safeParse("2").success).toBe(false);
+    expect(schema.safeParse(Infinity).success).toBe(false);
+  });
+
+  it("limits select values to the options", () => {
+    const schema = customFieldValueSchema(field({ type: "select", options: ["a", "b"] }));
+    expect(schema.parse("a")).toBe("a");
+    expect(schema.safeParse("c").success).toBe(false);
+  });
+
+  it("dedupes multi-select values and clears empty ones", () => {
+    const schema = customFieldValueSchema(field({ type: "multi_select", options: ["a", "b"] }));
+    expect(schema.parse(["b", "a", "b"])).toEqual(["b", "a"]);
+    expect(schema.parse([])).toBeNull();
+    expect(schema.safeParse(["a", "c"]).success).toBe(false);
+  });
+
+  it("accepts calendar days for dates and ids for users", () => {
+    expect(customFieldValueSchema(field({ type: "date" })).parse("2026-06-08")).toBe("2026-06-08");
+    expect(customFieldValueSchema(field({ type: "date" })).safeParse("08/06/2026").success).toBe(
+      false
+    );
+    expect(customFieldValueSchema(field({ type: "user" })).parse("user-1")).toBe("user-1");
+  });
+
+  it("accepts null for every type", () => {
+    for (const type of ["text", "number", "select", "multi_select", "date", "user"] as const) {
+      expect(customFieldValueSchema(field({ type, options: ["a"] })).parse(null)).toBeNull();
+    }
+  });
+});
+
+describe("customFieldValuesSchema", () => {
+  const fields = [
+    field({ id: "env", type: "select", options: ["staging", "production"] }),
+    field({ id: "customer", type: "text" }),
+  ];
+
+  it("validates a subset of the fields", () => {
+    const schema = customFieldValuesSchema(fields);
+    expect(schema.parse({ env: "staging" })).toEqual({ env: "staging" });
+    expect(schema.safeParse({ env: "dev" }).success).toBe(false);
+  });
+
+  it("rejects ids that are not defined on the board", () => {
+    const schema = customFieldValuesSchema(fields);
+    expect(schema.safeParse({ other: "x" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { canContainIssue, hierarchyProblem } from "../dist/index.js";
+
+describe("canContainIssue", () => {
+  it("lets epics contain standard issues", () => {
+    expect(canContainIssue("epic", "story")).toBe(true);
+    expect(canContainIssue("epic", "task")).toBe(true);
+    expect(canContainIssue("epic", "bug")).toBe(true);
+  });
+
+  it("lets standard issues contain sub-tasks only", () => {
+    expect(canContainIssue("story", "subtask")).toBe(true);
+    expect(canContainIssue("story", "task")).toBe(false);
+    expect(canContainIssue("epic", "subtask")).toBe(false);
+  });
+
+  it("never nests epics or places anything under a sub-task", () => {
+    expect(canContainIssue("epic", "epic")).toBe(false);
+    expect(canContainIssue("story", "epic")).toBe(false);
+    expect(canContainIssue("subtask", "subtask")).toBe(false);
+  });
+});
+
+describe("hierarchyProblem", () => {
+  it("returns null for allowed pairings", () => {
+    expect(hierarchyProblem("epic", "story")).toBeNull();
+    expect(hierarchyProblem(null, "story")).toBeNull();
+  });
+
+  it("requires sub-tasks to have a parent", () => {
+    expect(hierarchyProblem(null, "subtask")).toBe("A sub-task must have a parent issue");
+  });
+
+  it("describes disallowed pairings", () => {
+    expect(hierarchyProblem("story", "epic")).toBe("An epic cannot be placed under a story");
+    expect(hierarchyProblem("subtask", "subtask")).toBe(
+      "A sub-task cannot be placed under a sub-task"
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { CreateInviteInputSchema, InvitePreviewSchema } from "../dist/index.js";
+
+describe("CreateInviteInputSchema", () => {
+  it("applies defaults: editor, 72 hours, single use", () => {
+    const result = CreateInviteInputSchema.parse({});
+    expect(result).toEqual({ role: "editor", expiresInHours: 72, maxUses: 1 });
+  });
+
+  it("accepts multi-use invites with null maxUses", () => {
+    const result = CreateInviteInputSchema.parse({ role: "viewer", maxUses: null });
+    expect(result.maxUses).toBeNull();
+  });
+
+  it("rejects expiry shorter than one hour", () => {
+    const result = CreateInviteInputSchema.safeParse({ expiresInHours: 0 });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("Invite must be valid for at least 1 hour");
+    }
+  });
+
+  it("rejects expiry longer than 30 days", () => {
+    const result = CreateInviteInputSchema.safeParse({ expiresInHours: 721 });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects zero maxUses", () => {
+    const result = CreateInviteInputSchema.safeParse({ maxUses: 0 });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("Invite must allow at least one use");
+    }
+  });
+
+  it("rejects unknown role", () => {
+    const result = CreateInviteInputSchema.safeParse({ role: "owner" });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("InvitePreviewSchema", () => {
+  it("accepts a valid preview", () => {
+    const result = InvitePreviewSchema.parse({
+      boardId: "board-1",
+      boardName: "Core UI",
+      role: "editor",
+      invitedBy: "Demo User",
+      expiresAt: "2026-03-20T10:00:00.000Z",
+    });
+    expect(result.boardName).toBe("Core UI");
+  });
+});
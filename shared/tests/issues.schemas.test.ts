@@ -1,25 +1,32 @@
 import { describe, it, expect } from "vitest";
 import {
-  IssueStatusSchema,
   CreateIssueInputSchema,
   IssuePatchSchema,
   PatchIssueInputSchema,
   BatchPatchInputSchema,
   ListIssuesInputSchema,
+  IssueEventSchema,
+  IssuePrioritySchema,
+  LabelsSchema,
 } from "../dist/index.js";
 
-describe("IssueStatusSchema", () => {
-  it("accepts valid status values", () => {
-    const statuses = ["backlog", "todo", "in_progress", "done"] as const;
-    for (const status of statuses) {
-      const result = IssueStatusSchema.parse(status);
-      expect(result).toBe(status);
-    }
+describe("IssuePrioritySchema", () => {
+  it("lists priorities from lowest to highest", () => {
+    expect(IssuePrioritySchema.options).toEqual(["lowest", "low", "medium", "high", "highest"]);
+  });
+});
+
+describe("LabelsSchema", () => {
+  it("trims labels and drops duplicates", () => {
+    expect(LabelsSchema.parse([" ui ", "api", "ui"])).toEqual(["ui", "api"]);
   });
 
-  it("rejects invalid status", () => {
-    const result = IssueStatusSchema.safeParse("invalid_status");
+  it("rejects labels with spaces", () => {
+    const result = LabelsSchema.safeParse(["needs review"]);
     expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("Labels cannot contain spaces");
+    }
   });
 });
 
@@ -31,16 +38,25 @@ describe("CreateIssueInputSchema", () => {
     });
     expect(result.boardId).toBe("board-123");
     expect(result.title).toBe("Fix the bug");
-    expect(result.status).toBe("backlog"); // default
+    expect(result.statusId).toBeUndefined(); // the board's initial status
     expect(result.description).toBe(""); // default
     expect(result.watcherIds).toEqual([]); // default
+    expect(result.type).toBe("task"); // default
+    expect(result.priority).toBe("medium"); // default
+    expect(result.labels).toEqual([]); // default
+    expect(result.parentId).toBeNull(); // default
+    expect(result.storyPoints).toBeNull(); // default
+    expect(result.originalEstimate).toBeNull(); // default
+    expect(result.remainingEstimate).toBeNull(); // default
+    expect(result.dueDate).toBeNull(); // default
+    expect(result.customFields).toEqual({}); // default
   });
 
   it("accepts valid input with all fields", () => {
     const result = CreateIssueInputSchema.parse({
       boardId: "board-123",
       sprintId: "sprint-456",
-      status: "in_progress",
+      statusId: "status-review",
       order: 1000,
       title: "Fix the bug",
       description: "Detailed description",
@@ -48,7 +64,7 @@ describe("CreateIssueInputSchema", () => {
       watcherIds: ["user-1", "user-2"],
     });
     expect(result.sprintId).toBe("sprint-456");
-    expect(result.status).toBe("in_progress");
+    expect(result.statusId).toBe("status-review");
     expect(result.order).toBe(1000);
     expect(result.assigneeId).toBe("user-789");
     expect(result.watcherIds).toEqual(["user-1", "user-2"]);
@@ -115,6 +131,46 @@ describe("CreateIssueInputSchema", () => {
 });
 
 describe("IssuePatchSchema", () => {
+  it("accepts type, priority and labels", () => {
+    const result = IssuePatchSchema.parse({ type: "bug", priority: "high", labels: ["auth"] });
+    expect(result).toEqual({ type: "bug", priority: "high", labels: ["auth"] });
+  });
+
+  it("accepts setting and clearing the parent", () => {
+    expect(IssuePatchSchema.parse({ parentId: "epic-1" })).toEqual({ parentId: "epic-1" });
+    expect(IssuePatchSchema.parse({ parentId: null })).toEqual({ parentId: null });
+  });
+
+  it("rejects unknown issue types", () => {
+    expect(IssuePatchSchema.safeParse({ type: "feature" }).success).toBe(false);
+  });
+
+  it("accepts story points in half-point steps and clearing them", () => {
+    expect(IssuePatchSchema.parse({ storyPoints: 0.5 })).toEqual({ storyPoints: 0.5 });
+    expect(IssuePatchSchema.parse({ storyPoints: null })).toEqual({ storyPoints: null });
+    expect(IssuePatchSchema.safeParse({ storyPoints: 1.25 }).success).toBe(false);
+    expect(IssuePatchSchema.safeParse({ storyPoints: -1 }).success).toBe(false);
+  });
+
+  it("accepts a due day and clearing it", () => {
+    expect(IssuePatchSchema.parse({ dueDate: "2026-06-05" })).toEqual({ dueDate: "2026-06-05" });
+    expect(IssuePatchSchema.parse({ dueDate: null })).toEqual({ dueDate: null });
+  });
+
+  it("rejects due dates with a time or in another format", () => {
+    for (const dueDate of ["2026-06-05T10:00:00Z", "05/06/2026", "2026-02-40"]) {
+      expect(IssuePatchSchema.safeParse({ dueDate }).success).toBe(false);
+    }
+  });
+
+  it("accepts estimates in whole minutes", () => {
+    expect(IssuePatchSchema.parse({ originalEstimate: 480, remainingEstimate: 120 })).toEqual({
+      originalEstimate: 480,
+      remainingEstimate: 120,
+    });
+    expect(IssuePatchSchema.safeParse({ remainingEstimate: 1.5 }).success).toBe(false);
+  });
+
   it("accepts patch with single field", () => {
     const result = IssuePatchSchema.parse({ title: "New title" });
     expect(result.title).toBe("New title");
@@ -123,11 +179,11 @@ describe("IssuePatchSchema", () => {
   it("accepts patch with multiple fields", () => {
     const result = IssuePatchSchema.parse({
       title: "New title",
-      status: "done",
+      statusId: "status-done",
       order: 500,
     });
     expect(result.title).toBe("New title");
-    expect(result.status).toBe("done");
+    expect(result.statusId).toBe("status-done");
     expect(result.order).toBe(500);
   });
 
@@ -172,17 +228,39 @@ describe("PatchIssueInputSchema", () => {
       expect(result.error.issues[0].message).toBe("Issue ID is required");
     }
   });
+
+  it("carries the version the patch was made against", () => {
+    const result = PatchIssueInputSchema.parse({
+      id: "issue-123",
+      patch: { title: "New title" },
+      version: 4,
+    });
+    expect(result.version).toBe(4);
+    expect(PatchIssueInputSchema.safeParse({ ...result, version: 0 }).success).toBe(false);
+  });
 });
 
 describe("BatchPatchInputSchema", () => {
   it("accepts valid batch", () => {
     const result = BatchPatchInputSchema.parse([
-      { id: "issue-1", patch: { status: "done" } },
-      { id: "issue-2", patch: { status: "done" } },
+      { id: "issue-1", patch: { statusId: "status-done" }, version: 3 },
+      { id: "issue-2", patch: { order: 2000 } },
     ]);
     expect(result).toHaveLength(2);
   });
 
+  it("requires a version for anything but a reorder", () => {
+    const result = BatchPatchInputSchema.safeParse([
+      { id: "issue-1", patch: { statusId: "status-done", order: 1000 } },
+    ]);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe(
+        "Send the issue version with every change but a reorder"
+      );
+    }
+  });
+
   it("rejects empty batch", () => {
     const result = BatchPatchInputSchema.safeParse([]);
     expect(result.success).toBe(false);
@@ -194,7 +272,7 @@ describe("BatchPatchInputSchema", () => {
   it("rejects batch larger than 100", () => {
     const batch = Array.from({ length: 101 }, (_, i) => ({
       id: `issue-${i}`,
-      patch: { status: "done" as const },
+      patch: { statusId: "status-done" },
     }));
     const result = BatchPatchInputSchema.safeParse(batch);
     expect(result.success).toBe(false);
@@ -239,3 +317,42 @@ describe("ListIssuesInputSchema", () => {
     }
   });
 });
+
+describe("IssueEventSchema", () => {
+  const base = {
+    id: "evt-1",
+    issueId: "issue-1",
+    createdAt: "2026-04-06T11:00:00.000Z",
+    actor: { id: "user-1", name: "Demo User" },
+  };
+
+  it("accepts a status change", () => {
+    const result = IssueEventSchema.safeParse({
+      ...base,
+      field: "statusId",
+      oldValue: "status-todo",
+      newValue: "status-review",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts watcher lists and null values", () => {
+    const result = IssueEventSchema.safeParse({
+      ...base,
+      field: "watcherIds",
+      oldValue: null,
+      newValue: ["user-2", "user-3"],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects untracked fields", () => {
+    const result = IssueEventSchema.safeParse({
+      ...base,
+      field: "order",
+      oldValue: "1000",
+      newValue: "2000",
+    });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import {
+  CreateIssueLinkInputSchema,
+  IssueLinkRelationSchema,
+  linkRelation,
+  storedLink,
+} from "../dist/index.js";
+
+describe("CreateIssueLinkInputSchema", () => {
+  it("accepts a relation and the other issue", () => {
+    const result = CreateIssueLinkInputSchema.parse({ relation: "is_blocked_by", issueId: "i2" });
+    expect(result).toEqual({ relation: "is_blocked_by", issueId: "i2" });
+  });
+
+  it("rejects unknown relations", () => {
+    expect(
+      CreateIssueLinkInputSchema.safeParse({ relation: "causes", issueId: "i2" }).success
+    ).toBe(false);
+  });
+
+  it("requires the other issue", () => {
+    expect(CreateIssueLinkInputSchema.safeParse({ relation: "blocks", issueId: "" }).success).toBe(
+      false
+    );
+  });
+});
+
+describe("storedLink / linkRelation", () => {
+  it("stores inverse relations as the forward type from the other end", () => {
+    expect(storedLink("is_blocked_by")).toEqual({ type: "blocks", outgoing: false });
+    expect(storedLink("duplicates")).toEqual({ type: "duplicates", outgoing: true });
+  });
+
+  it("reads a stored link back as the same relation from the same end", () => {
+    for (const relation of IssueLinkRelationSchema.options) {
+      const { type, outgoing } = storedLink(relation);
+      expect(linkRelation(type, outgoing)).toBe(relation);
+    }
+  });
+
+  it("reads the inverse from the other end", () => {
+    expect(linkRelation("blocks", false)).toBe("is_blocked_by");
+    expect(linkRelation("duplicates", false)).toBe("is_duplicated_by");
+    expect(linkRelation("relates", false)).toBe("relates_to");
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { extractMentions, findMentionQuery, memberHandles, mentionHandle } from "../dist/index.js";
+
+describe("mentionHandle", () => {
+  it("uses the lower-cased email local part", () => {
+    expect(mentionHandle("Susan.Lee@example.com")).toBe("susan.lee");
+  });
+
+  it("drops characters a handle cannot contain", () => {
+    expect(mentionHandle("james+jira@example.com")).toBe("jamesjira");
+  });
+});
+
+describe("memberHandles", () => {
+  it("maps each member's handle to them", () => {
+    const handles = memberHandles([
+      { userId: "u1", email: "susan@a.com" },
+      { userId: "u2", email: "James@b.com" },
+    ]);
+    expect([...handles]).toEqual([
+      ["susan", "u1"],
+      ["james", "u2"],
+    ]);
+  });
+
+  it("leaves out handles several members share", () => {
+    const handles = memberHandles([
+      { userId: "u1", email: "susan@a.com" },
+      { userId: "u2", email: "susan@b.com" },
+      { userId: "u3", email: "susan@c.com" },
+      { userId: "u4", email: "james@b.com" },
+    ]);
+    expect([...handles]).toEqual([["james", "u4"]]);
+  });
+});
+
+describe("extractMentions", () => {
+  it("finds distinct handles in order", () => {
+    expect(extractMentions("@susan can you check? cc @james @Susan")).toEqual(["susan", "james"]);
+  });
+
+  it("ignores email addresses", () => {
+    expect(extractMentions("mail demo@example.com")).toEqual([]);
+  });
+
+  it("strips trailing sentence punctuation", () => {
+    expect(extractMentions("Thanks @susan.lee.")).toEqual(["susan.lee"]);
+  });
+
+  it("accepts mentions after punctuation and newlines", () => {
+    expect(extractMentions("(@susan)\n@james")).toEqual(["susan", "james"]);
+  });
+
+  it("returns nothing for a bare @", () => {
+    expect(extractMentions("@ nobody")).toEqual([]);
+  });
+});
+
+describe("findMentionQuery", () => {
+  it("returns the partial handle before the caret", () => {
+    expect(findMentionQuery("ping @su", 8)).toEqual({ start: 5, query: "su" });
+  });
+
+  it("matches a lone @ with an empty query", () => {
+    expect(findMentionQuery("@", 1)).toEqual({ start: 0, query: "" });
+  });
+
+  it("returns null once the mention is finished", () => {
+    expect(findMentionQuery("ping @susan ", 12)).toBeNull();
+  });
+
+  it("returns null inside an email address", () => {
+    expect(findMentionQuery("demo@exa", 8)).toBeNull();
+  });
+});
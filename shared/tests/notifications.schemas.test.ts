@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { NotificationSchema } from "../dist/index.js";
+
+const notification = {
+  id: "notif-1",
+  kind: "mention",
+  actor: { id: "user-2", name: "Susan" },
+  issue: { id: "issue-1", key: "CORE-1", title: "Fix login", boardId: "board-1", sprintId: null },
+  commentId: "comment-1",
+  readAt: null,
+  createdAt: "2026-04-20T09:30:00.000Z",
+};
+
+describe("NotificationSchema", () => {
+  it("accepts an unread mention from a comment", () => {
+    expect(NotificationSchema.safeParse(notification).success).toBe(true);
+  });
+
+  it("accepts a due date reminder without an actor", () => {
+    const result = NotificationSchema.safeParse({
+      ...notification,
+      kind: "due_soon",
+      actor: null,
+      commentId: null,
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects unknown kinds", () => {
+    const result = NotificationSchema.safeParse({ ...notification, kind: "digest" });
+    expect(result.success).toBe(false);
+  });
+});
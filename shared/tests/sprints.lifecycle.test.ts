@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { sprintEntryProblem, sprintLockProblem } from "../dist/index.js";
+
+describe("sprintEntryProblem", () => {
+  it("lets issues join planned and active sprints or the backlog", () => {
+    expect(sprintEntryProblem("planned")).toBeNull();
+    expect(sprintEntryProblem("active")).toBeNull();
+    expect(sprintEntryProblem(null)).toBeNull();
+  });
+
+  it("keeps issues out of closed sprints", () => {
+    expect(sprintEntryProblem("closed")).toBe("Issues cannot be added to a closed sprint");
+  });
+});
+
+describe("sprintLockProblem", () => {
+  it("leaves issues in planned and active sprints or the backlog editable", () => {
+    expect(sprintLockProblem("planned")).toBeNull();
+    expect(sprintLockProblem("active")).toBeNull();
+    expect(sprintLockProblem(null)).toBeNull();
+  });
+
+  it("freezes issues in closed sprints", () => {
+    expect(sprintLockProblem("closed")).toBe("Issues in a closed sprint cannot be changed");
+  });
+});
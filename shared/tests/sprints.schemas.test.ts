@@ -2,22 +2,36 @@ import { describe, it, expect } from "vitest";
 import {
   SprintSchema,
   CreateSprintInputSchema,
-  SetActiveSprintInputSchema,
+  UpdateSprintInputSchema,
+  ReorderSprintsInputSchema,
+  StartSprintInputSchema,
+  CompleteSprintInputSchema,
   MoveIssueInputSchema,
+  SprintSummarySchema,
+  SprintCompletionSchema,
 } from "../dist/index.js";
 
+const lifecycle = {
+  order: 1000,
+  goal: null,
+  startDate: null,
+  endDate: null,
+  completedAt: null,
+};
+
 describe("SprintSchema", () => {
   it("accepts valid sprint object with required fields", () => {
     const result = SprintSchema.parse({
       id: "sprint-123",
       boardId: "board-456",
       name: "Sprint 1",
-      isActive: true,
+      state: "active",
+      ...lifecycle,
     });
     expect(result.id).toBe("sprint-123");
     expect(result.boardId).toBe("board-456");
     expect(result.name).toBe("Sprint 1");
-    expect(result.isActive).toBe(true);
+    expect(result.state).toBe("active");
   });
 
   it("accepts valid sprint object with all fields", () => {
@@ -25,11 +39,17 @@ describe("SprintSchema", () => {
       id: "sprint-123",
       boardId: "board-456",
       name: "Sprint 1",
-      isActive: false,
+      goal: "Ship the login page",
+      state: "closed",
+      order: 2000,
+      startDate: "2024-01-01T00:00:00.000Z",
+      endDate: "2024-01-14T00:00:00.000Z",
+      completedAt: "2024-01-15T09:00:00.000Z",
       createdAt: "2024-01-15T10:30:00.000Z",
       updatedAt: "2024-01-16T14:20:00.000Z",
     });
-    expect(result.isActive).toBe(false);
+    expect(result.state).toBe("closed");
+    expect(result.goal).toBe("Ship the login page");
     expect(result.createdAt).toBe("2024-01-15T10:30:00.000Z");
     expect(result.updatedAt).toBe("2024-01-16T14:20:00.000Z");
   });
@@ -39,7 +59,8 @@ describe("SprintSchema", () => {
       id: "sprint-123",
       boardId: "board-456",
       name: "",
-      isActive: true,
+      state: "active",
+      ...lifecycle,
     });
     expect(result.success).toBe(false);
   });
@@ -49,7 +70,8 @@ describe("SprintSchema", () => {
       id: "sprint-123",
       boardId: "board-456",
       name: "a".repeat(101),
-      isActive: true,
+      state: "active",
+      ...lifecycle,
     });
     expect(result.success).toBe(false);
   });
@@ -58,7 +80,8 @@ describe("SprintSchema", () => {
     const result = SprintSchema.safeParse({
       boardId: "board-456",
       name: "Sprint 1",
-      isActive: true,
+      state: "active",
+      ...lifecycle,
     });
     expect(result.success).toBe(false);
   });
@@ -67,17 +90,19 @@ describe("SprintSchema", () => {
     const result = SprintSchema.safeParse({
       id: "sprint-123",
       name: "Sprint 1",
-      isActive: true,
+      state: "active",
+      ...lifecycle,
     });
     expect(result.success).toBe(false);
   });
 
-  it("rejects sprint with non-boolean isActive", () => {
+  it("rejects an unknown state", () => {
     const result = SprintSchema.safeParse({
       id: "sprint-123",
       boardId: "board-456",
       name: "Sprint 1",
-      isActive: "yes",
+      state: "paused",
+      ...lifecycle,
     });
     expect(result.success).toBe(false);
   });
@@ -87,7 +112,8 @@ describe("SprintSchema", () => {
       id: "sprint-123",
       boardId: "board-456",
       name: "Sprint 1",
-      isActive: true,
+      state: "active",
+      ...lifecycle,
       createdAt: "not-a-datetime",
     });
     expect(result.success).toBe(false);
@@ -100,15 +126,23 @@ describe("CreateSprintInputSchema", () => {
       name: "Sprint 1",
     });
     expect(result.name).toBe("Sprint 1");
-    expect(result.isActive).toBe(false); // default
+    expect(result.goal).toBeUndefined();
   });
 
-  it("accepts valid sprint name with isActive true", () => {
+  it("stores a blank goal as no goal", () => {
     const result = CreateSprintInputSchema.parse({
       name: "Sprint 1",
-      isActive: true,
+      goal: "   ",
     });
-    expect(result.isActive).toBe(true);
+    expect(result.goal).toBeNull();
+  });
+
+  it("rejects a goal longer than 500 characters", () => {
+    const result = CreateSprintInputSchema.safeParse({
+      name: "Sprint 1",
+      goal: "a".repeat(501),
+    });
+    expect(result.success).toBe(false);
   });
 
   it("rejects empty sprint name", () => {
@@ -161,27 +195,118 @@ describe("CreateSprintInputSchema", () => {
   });
 });
 
-describe("SetActiveSprintInputSchema", () => {
-  it("accepts valid sprint id", () => {
-    const result = SetActiveSprintInputSchema.parse({
-      sprintId: "sprint-123",
+describe("UpdateSprintInputSchema", () => {
+  it("trims a new name", () => {
+    expect(UpdateSprintInputSchema.parse({ name: "  Login sprint " })).toEqual({
+      name: "Login sprint",
+    });
+  });
+
+  it("rejects a blank name", () => {
+    const result = UpdateSprintInputSchema.safeParse({ name: "   " });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("Sprint name is required");
+    }
+  });
+
+  it("clears dates with null", () => {
+    expect(UpdateSprintInputSchema.parse({ startDate: null, endDate: null })).toEqual({
+      startDate: null,
+      endDate: null,
     });
-    expect(result.sprintId).toBe("sprint-123");
   });
 
-  it("rejects empty sprint id", () => {
-    const result = SetActiveSprintInputSchema.safeParse({
-      sprintId: "",
+  it("rejects an end date before the start date", () => {
+    const result = UpdateSprintInputSchema.safeParse({
+      startDate: "2026-06-14",
+      endDate: "2026-06-01",
     });
     expect(result.success).toBe(false);
     if (!result.success) {
-      expect(result.error.issues[0].message).toBe("Sprint ID is required");
+      expect(result.error.issues[0].path).toEqual(["endDate"]);
     }
   });
 
-  it("rejects missing sprintId field", () => {
-    const result = SetActiveSprintInputSchema.safeParse({});
+  it("rejects an empty update", () => {
+    const result = UpdateSprintInputSchema.safeParse({});
     expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("Nothing to update");
+    }
+  });
+});
+
+describe("ReorderSprintsInputSchema", () => {
+  it("accepts the planned sprints in their new order", () => {
+    expect(ReorderSprintsInputSchema.parse({ ids: ["sprint-3", "sprint-2"] })).toEqual({
+      ids: ["sprint-3", "sprint-2"],
+    });
+  });
+
+  it("rejects repeated sprints", () => {
+    const result = ReorderSprintsInputSchema.safeParse({ ids: ["sprint-2", "sprint-2"] });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects an empty list", () => {
+    expect(ReorderSprintsInputSchema.safeParse({ ids: [] }).success).toBe(false);
+  });
+});
+
+describe("StartSprintInputSchema", () => {
+  it("accepts a goal and the sprint's dates", () => {
+    const result = StartSprintInputSchema.parse({
+      goal: "  Ship the login page ",
+      startDate: "2026-06-01",
+      endDate: "2026-06-14",
+    });
+    expect(result).toEqual({
+      goal: "Ship the login page",
+      startDate: "2026-06-01",
+      endDate: "2026-06-14",
+    });
+  });
+
+  it("accepts a sprint that starts and ends on the same day", () => {
+    const result = StartSprintInputSchema.safeParse({
+      startDate: "2026-06-01",
+      endDate: "2026-06-01",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects an end date before the start date", () => {
+    const result = StartSprintInputSchema.safeParse({
+      startDate: "2026-06-14",
+      endDate: "2026-06-01",
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe("Sprint cannot end before it starts");
+      expect(result.error.issues[0].path).toEqual(["endDate"]);
+    }
+  });
+
+  it("rejects missing dates", () => {
+    const result = StartSprintInputSchema.safeParse({ goal: "Ship it" });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("CompleteSprintInputSchema", () => {
+  it("moves unfinished work to the backlog by default", () => {
+    expect(CompleteSprintInputSchema.parse({})).toEqual({ moveTo: null });
+  });
+
+  it("accepts a sprint to move unfinished work to", () => {
+    expect(CompleteSprintInputSchema.parse({ moveTo: "sprint-2" })).toEqual({
+      moveTo: "sprint-2",
+    });
+  });
+
+  it("rejects an empty sprint id", () => {
+    expect(CompleteSprintInputSchema.safeParse({ moveTo: "" }).success).toBe(false);
   });
 });
 
@@ -191,18 +316,18 @@ describe("MoveIssueInputSchema", () => {
       sprintId: "sprint-123",
     });
     expect(result.sprintId).toBe("sprint-123");
-    expect(result.status).toBeUndefined();
+    expect(result.statusId).toBeUndefined();
     expect(result.order).toBeUndefined();
   });
 
   it("accepts valid input with all fields", () => {
     const result = MoveIssueInputSchema.parse({
       sprintId: "sprint-123",
-      status: "in_progress",
+      statusId: "status-review",
       order: 500,
     });
     expect(result.sprintId).toBe("sprint-123");
-    expect(result.status).toBe("in_progress");
+    expect(result.statusId).toBe("status-review");
     expect(result.order).toBe(500);
   });
 
@@ -213,21 +338,10 @@ describe("MoveIssueInputSchema", () => {
     expect(result.sprintId).toBeNull();
   });
 
-  it("accepts valid status values", () => {
-    const statuses = ["backlog", "todo", "in_progress", "done"] as const;
-    for (const status of statuses) {
-      const result = MoveIssueInputSchema.parse({
-        sprintId: null,
-        status,
-      });
-      expect(result.status).toBe(status);
-    }
-  });
-
-  it("rejects invalid status", () => {
+  it("rejects an empty statusId", () => {
     const result = MoveIssueInputSchema.safeParse({
       sprintId: "sprint-123",
-      status: "invalid_status",
+      statusId: "",
     });
     expect(result.success).toBe(false);
   });
@@ -259,7 +373,57 @@ describe("MoveIssueInputSchema", () => {
   it("accepts empty object (all fields optional)", () => {
     const result = MoveIssueInputSchema.parse({});
     expect(result.sprintId).toBeUndefined();
-    expect(result.status).toBeUndefined();
+    expect(result.statusId).toBeUndefined();
     expect(result.order).toBeUndefined();
   });
 });
+
+describe("SprintSummarySchema", () => {
+  it("accepts point totals by status and time totals in minutes", () => {
+    const summary = {
+      sprintId: "sprint-123",
+      issueCount: 4,
+      unestimatedCount: 1,
+      points: { total: 8, done: 3, byStatus: { "status-todo": 5, "status-done": 3 } },
+      originalEstimate: 960,
+      remainingEstimate: 300,
+      timeSpent: 540,
+    };
+    expect(SprintSummarySchema.parse(summary)).toEqual(summary);
+  });
+
+  it("rejects negative points in the breakdown", () => {
+    const result = SprintSummarySchema.safeParse({
+      sprintId: "sprint-123",
+      issueCount: 0,
+      unestimatedCount: 0,
+      points: { total: 0, done: 0, byStatus: { "status-todo": -1 } },
+      originalEstimate: 0,
+      remainingEstimate: 0,
+      timeSpent: 0,
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("SprintCompletionSchema", () => {
+  it("accepts a report of completed and moved work", () => {
+    const report = {
+      sprint: {
+        id: "sprint-1",
+        boardId: "board-1",
+        name: "Sprint 1",
+        goal: null,
+        state: "closed",
+        order: 1000,
+        startDate: "2026-06-01T00:00:00.000Z",
+        endDate: "2026-06-14T00:00:00.000Z",
+        completedAt: "2026-06-14T16:00:00.000Z",
+      },
+      completed: { issueCount: 5, points: 13 },
+      incomplete: { issueCount: 2, points: 3 },
+      movedTo: { id: "sprint-2", name: "Sprint 2" },
+    };
+    expect(SprintCompletionSchema.parse(report)).toEqual(report);
+  });
+});
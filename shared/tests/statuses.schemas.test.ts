@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import {
+  StatusCategorySchema,
+  CreateStatusInputSchema,
+  UpdateStatusInputSchema,
+  ReorderStatusesInputSchema,
+  DEFAULT_WORKFLOW,
+  initialStatus,
+  allowedInBacklog,
+  canTransition,
+  transitionProblem,
+  wipState,
+  wipProblem,
+} from "../dist/index.js";
+
+describe("StatusCategorySchema", () => {
+  it("lists the categories in workflow order", () => {
+    expect(StatusCategorySchema.options).toEqual(["todo", "in_progress", "done"]);
+  });
+});
+
+describe("CreateStatusInputSchema", () => {
+  it("trims the name", () => {
+    expect(
+      CreateStatusInputSchema.parse({ name: " Code review ", category: "in_progress" })
+    ).toEqual({ name: "Code review", category: "in_progress" });
+  });
+
+  it("requires a name and a known category", () => {
+    expect(CreateStatusInputSchema.safeParse({ name: " ", category: "todo" }).success).toBe(false);
+    expect(CreateStatusInputSchema.safeParse({ name: "QA", category: "blocked" }).success).toBe(
+      false
+    );
+  });
+});
+
+describe("UpdateStatusInputSchema", () => {
+  it("rejects an update that changes nothing", () => {
+    const result = UpdateStatusInputSchema.safeParse({});
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error.issues[0].message).toBe("Nothing to update");
+  });
+
+  it("accepts transitions and validators on their own", () => {
+    expect(UpdateStatusInputSchema.parse({ transitionsTo: [] })).toEqual({ transitionsTo: [] });
+    expect(UpdateStatusInputSchema.parse({ validators: ["subtasks_done"] })).toEqual({
+      validators: ["subtasks_done"],
+    });
+  });
+
+  it("rejects unknown or repeated validators", () => {
+    expect(UpdateStatusInputSchema.safeParse({ validators: ["reviewed"] }).success).toBe(false);
+    expect(
+      UpdateStatusInputSchema.safeParse({ validators: ["assignee_required", "assignee_required"] })
+        .success
+    ).toBe(false);
+  });
+
+  it("sets and clears WIP limits", () => {
+    expect(UpdateStatusInputSchema.parse({ wipMin: 1, wipMax: 3, wipHard: true })).toEqual({
+      wipMin: 1,
+      wipMax: 3,
+      wipHard: true,
+    });
+    expect(UpdateStatusInputSchema.parse({ wipMax: null })).toEqual({ wipMax: null });
+  });
+
+  it("rejects WIP limits below 1 or out of order", () => {
+    expect(UpdateStatusInputSchema.safeParse({ wipMax: 0 }).success).toBe(false);
+    expect(UpdateStatusInputSchema.safeParse({ wipMin: 1.5 }).success).toBe(false);
+    const result = UpdateStatusInputSchema.safeParse({ wipMin: 4, wipMax: 2 });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe(
+        "The minimum WIP limit can't be above the maximum"
+      );
+    }
+  });
+});
+
+describe("ReorderStatusesInputSchema", () => {
+  it("rejects repeated statuses", () => {
+    expect(ReorderStatusesInputSchema.safeParse({ ids: ["a", "b", "a"] }).success).toBe(false);
+  });
+});
+
+describe("initialStatus", () => {
+  it("picks the leftmost to-do status", () => {
+    const statuses = [
+      { id: "review", category: "in_progress" as const, order: 1000 },
+      { id: "ready", category: "todo" as const, order: 3000 },
+      { id: "triage", category: "todo" as const, order: 2000 },
+    ];
+    expect(initialStatus(statuses)?.id).toBe("triage");
+  });
+
+  it("returns null without a to-do status", () => {
+    expect(initialStatus([{ category: "done" as const, order: 1000 }])).toBeNull();
+  });
+});
+
+describe("workflow", () => {
+  it("starts new boards with one status per category", () => {
+    expect(DEFAULT_WORKFLOW.map((s) => s.category)).toEqual(["todo", "in_progress", "done"]);
+  });
+
+  it("only keeps unstarted issues in the backlog", () => {
+    expect(allowedInBacklog("todo")).toBe(true);
+    expect(allowedInBacklog("in_progress")).toBe(false);
+    expect(allowedInBacklog("done")).toBe(false);
+  });
+});
+
+describe("transitions", () => {
+  const todo = { id: "todo", name: "To do", transitionsTo: ["doing"], validators: [] };
+  const doing = {
+    id: "doing",
+    name: "In progress",
+    transitionsTo: [],
+    validators: ["assignee_required" as const],
+  };
+  const done = {
+    id: "done",
+    name: "Done",
+    transitionsTo: [],
+    validators: ["subtasks_done" as const],
+  };
+  const ready = { assigneeId: "u1", openSubtasks: 0 };
+
+  it("only allows the listed transitions", () => {
+    expect(canTransition(todo, "doing")).toBe(true);
+    expect(canTransition(todo, "done")).toBe(false);
+    expect(canTransition(todo, "todo")).toBe(true);
+  });
+
+  it("lets a status without transitions lead anywhere", () => {
+    expect(canTransition(doing, "todo")).toBe(true);
+    expect(canTransition(doing, "done")).toBe(true);
+  });
+
+  it("explains a transition the workflow does not have", () => {
+    expect(transitionProblem(todo, done, ready)).toBe("Issues in To do cannot move to Done");
+  });
+
+  it("requires an assignee where the target asks for one", () => {
+    expect(transitionProblem(todo, doing, { ...ready, assigneeId: null })).toBe(
+      "Assign the issue before moving it to In progress"
+    );
+    expect(transitionProblem(todo, doing, ready)).toBeNull();
+  });
+
+  it("requires finished sub-tasks where the target asks for them", () => {
+    expect(transitionProblem(doing, done, { ...ready, openSubtasks: 2 })).toBe(
+      "Finish its 2 open sub-tasks before moving it to Done"
+    );
+    expect(transitionProblem(doing, done, ready)).toBeNull();
+  });
+
+  it("never blocks staying in the same status", () => {
+    expect(transitionProblem(doing, doing, { assigneeId: null, openSubtasks: 3 })).toBeNull();
+  });
+});
+
+describe("WIP limits", () => {
+  const limits = { wipMin: 1, wipMax: 3 };
+
+  it("compares a column's count with its limits", () => {
+    expect(wipState(limits, 0)).toBe("under");
+    expect(wipState(limits, 3)).toBe("within");
+    expect(wipState(limits, 4)).toBe("over");
+    expect(wipState({ wipMin: null, wipMax: null }, 40)).toBe("within");
+  });
+
+  it("only refuses going past a hard maximum", () => {
+    const review = { name: "Code review", wipMax: 2, wipHard: true };
+    expect(wipProblem(review, 2)).toBeNull();
+    expect(wipProblem(review, 3)).toBe("Code review is at its WIP limit of 2");
+    expect(wipProblem({ ...review, wipHard: false }, 3)).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { SearchUsersInputSchema, UserSummarySchema } from "../dist/index.js";
+
+describe("SearchUsersInputSchema", () => {
+  it("trims the query and applies the default limit", () => {
+    const result = SearchUsersInputSchema.parse({ boardId: "board-1", q: "  sus " });
+    expect(result).toEqual({ boardId: "board-1", q: "sus", limit: 20 });
+  });
+
+  it("defaults a missing query to empty", () => {
+    const result = SearchUsersInputSchema.parse({ boardId: "board-1" });
+    expect(result.q).toBe("");
+  });
+
+  it("coerces limit from a query string", () => {
+    const result = SearchUsersInputSchema.parse({ boardId: "board-1", q: "a", limit: "5" });
+    expect(result.limit).toBe(5);
+  });
+
+  it("rejects limit above 50", () => {
+    const result = SearchUsersInputSchema.safeParse({ boardId: "board-1", limit: 51 });
+    expect(result.success).toBe(false);
+  });
+
+  it("requires a board", () => {
+    const result = SearchUsersInputSchema.safeParse({ q: "sus" });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(["boardId"]);
+    }
+  });
+});
+
+describe("UserSummarySchema", () => {
+  it("accepts a valid user", () => {
+    const result = UserSummarySchema.safeParse({
+      id: "user-1",
+      name: "Susan",
+      email: "susan@example.com",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects an invalid email", () => {
+    const result = UserSummarySchema.safeParse({ id: "user-1", name: "Susan", email: "nope" });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { CreateWorklogInputSchema, formatDuration, parseDuration } from "../dist/index.js";
+
+describe("CreateWorklogInputSchema", () => {
+  it("accepts minutes, a day and an optional note", () => {
+    const result = CreateWorklogInputSchema.parse({ minutes: 90, date: "2026-05-25" });
+    expect(result).toEqual({ minutes: 90, date: "2026-05-25", note: "" });
+  });
+
+  it("trims the note", () => {
+    const result = CreateWorklogInputSchema.parse({
+      minutes: 30,
+      date: "2026-05-25",
+      note: "  pairing ",
+    });
+    expect(result.note).toBe("pairing");
+  });
+
+  it("rejects zero, fractional and over-long entries", () => {
+    for (const minutes of [0, 1.5, 24 * 60 + 1]) {
+      expect(CreateWorklogInputSchema.safeParse({ minutes, date: "2026-05-25" }).success).toBe(
+        false
+      );
+    }
+  });
+
+  it("rejects dates that are not YYYY-MM-DD days", () => {
+    for (const date of ["25/05/2026", "2026-05-25T10:00:00Z", "2026-13-40"]) {
+      expect(CreateWorklogInputSchema.safeParse({ minutes: 30, date }).success).toBe(false);
+    }
+  });
+});
+
+describe("parseDuration", () => {
+  it("reads weeks, days, hours and minutes with 8h days and 5d weeks", () => {
+    expect(parseDuration("1w 2d 3h 30m")).toBe(2400 + 960 + 180 + 30);
+    expect(parseDuration("1.5d")).toBe(720);
+  });
+
+  it("reads a bare number as hours", () => {
+    expect(parseDuration("3")).toBe(180);
+  });
+
+  it("is case and whitespace tolerant", () => {
+    expect(parseDuration("  2H   15M ")).toBe(135);
+  });
+
+  it("returns null for empty or unknown input", () => {
+    expect(parseDuration("")).toBeNull();
+    expect(parseDuration("2 hours")).toBeNull();
+    expect(parseDuration("1y")).toBeNull();
+  });
+});
+
+describe("formatDuration", () => {
+  it("writes the largest units first and skips empty ones", () => {
+    expect(formatDuration(600)).toBe("1d 2h");
+    expect(formatDuration(2400 + 30)).toBe("1w 30m");
+  });
+
+  it("writes zero as 0m", () => {
+    expect(formatDuration(0)).toBe("0m");
+  });
+
+  it("round-trips with parseDuration", () => {
+    for (const minutes of [1, 59, 61, 479, 481, 3000]) {
+      expect(parseDuration(formatDuration(minutes))).toBe(minutes);
+    }
+  });
+});
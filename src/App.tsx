@@ -1,14 +1,16 @@
 import { Suspense } from "react";
-import { Routes, Route, Navigate } from "react-router-dom";
+import { Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { lazyWithPreload } from "@/shared/utils/lazyWithPreload";
 import { RouteFallback } from "@/features/jira/ui";
 import { useAuthStore } from "@/features/auth/authStore";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { nextPathFrom } from "@/features/auth/nextPath";
 
 const BoardsPage = lazyWithPreload(() => import("@/app/routes/BoardsPage"));
 const BoardPage = lazyWithPreload(() => import("@/app/routes/BoardPage"));
 const LoginPage = lazyWithPreload(() => import("@/app/routes/LoginPage"));
 const RegisterPage = lazyWithPreload(() => import("@/app/routes/RegisterPage"));
+const InvitePage = lazyWithPreload(() => import("@/app/routes/InvitePage"));
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const token = useAuthStore((s) => s.token);
@@ -18,7 +20,8 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
 
 function GuestRoute({ children }: { children: React.ReactNode }) {
   const token = useAuthStore((s) => s.token);
-  if (token) return <Navigate to="/boards" replace />;
+  const location = useLocation();
+  if (token) return <Navigate to={nextPathFrom(location.search)} replace />;
   return <>{children}</>;
 }
 
@@ -48,6 +51,16 @@ export default function AppRoutes() {
             }
           />
 
+          {/* Public: the page itself asks guests to sign in or register */}
+          <Route
+            path="/invite/:token"
+            element={
+              <ErrorBoundary>
+                <InvitePage />
+              </ErrorBoundary>
+            }
+          />
+
           <Route path="/" element={<Navigate to="/boards" replace />} />
           <Route
             path="/boards"
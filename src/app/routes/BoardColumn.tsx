@@ -1,10 +1,11 @@
 import { memo, useMemo } from "react";
 import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
 import { DroppableColumn } from "@/features/jira/ui";
-import type { Issue, IssueStatus } from "@/features/jira/domain";
+import { sumStoryPoints, type Issue } from "@/features/jira/domain";
 
 export const BoardColumn = memo(function BoardColumn(props: {
-  status: IssueStatus;
+  // Column key: a status id, or the backlog column.
+  status: string;
   title: string;
   issues: Issue[];
   children: (issue: Issue) => React.ReactNode;
@@ -12,7 +13,12 @@ export const BoardColumn = memo(function BoardColumn(props: {
   const ids = useMemo(() => props.issues.map((x) => x.id), [props.issues]);
 
   return (
-    <DroppableColumn id={`status:${props.status}`} title={props.title} count={props.issues.length}>
+    <DroppableColumn
+      id={`status:${props.status}`}
+      title={props.title}
+      count={props.issues.length}
+      points={sumStoryPoints(props.issues)}
+    >
       <SortableContext items={ids} strategy={verticalListSortingStrategy}>
         {props.issues.length === 0 ? (
           <div className="rounded-xl border border-dashed border-white/10 p-3 text-sm text-white/40">
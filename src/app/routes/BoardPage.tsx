@@ -1,24 +1,114 @@
 import { useCallback, useMemo, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
+import { initialStatus } from "@jira-lab/shared";
 import {
+  jiraClient,
+  useArchiveIssue,
+  useArchivedIssues,
+  useAttachments,
   useBatchPatchIssues,
+  useBoardInvites,
+  useBoardLabels,
+  useBoardMembers,
+  useBoards,
+  useComments,
+  useCreateComment,
+  useCreateCustomField,
+  useCreateInvite,
   useCreateIssue,
+  useCreateIssueLink,
   useCreateSprint,
+  useCreateStatus,
+  useCreateWorklog,
+  useDeleteAttachment,
+  useCustomFields,
+  useDeleteComment,
+  useDeleteCustomField,
+  useDeleteIssue,
+  useDeleteIssueLink,
+  useDeleteStatus,
+  useDeleteWorklog,
+  useIssueChildren,
+  useIssueHistory,
+  useIssueLinks,
   useIssues,
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
   useMoveIssue,
+  useNotifications,
   usePatchIssue,
-  useSetActiveSprint,
+  usePurgeIssue,
+  useReorderStatuses,
+  useRemoveBoardMember,
+  useRestoreIssue,
+  useRevokeInvite,
+  useCompleteSprint,
+  useStartSprint,
+  useRankIssues,
+  useReorderSprints,
+  useUpdateSprint,
+  useDeleteSprint,
+  useSprintIssues,
+  useSprintSummary,
   useSprints,
+  useAutomations,
+  useAutomationRuns,
+  useCreateAutomation,
+  useUpdateAutomation,
+  useDeleteAutomation,
+  useStatuses,
+  useTrash,
+  useUnarchiveIssue,
+  useUpdateBoardMember,
+  useUpdateComment,
+  useUpdateCustomField,
+  useUpdateStatus,
+  useUploadAttachment,
+  useWorklogs,
 } from "@/features/jira/api";
 import { QueryState, BoardColumns, IssueSidePanel } from "@/features/jira/ui";
 import { BoardFilters } from "@/features/jira/ui/BoardPage/BoardFilters";
-import type { Issue, IssueStatus } from "@/features/jira/domain";
-import { nextOrderForStatus, emptyFilters, filterIssues } from "@/features/jira/domain";
+import { BoardMembersPanel } from "@/features/jira/ui/BoardPage/BoardMembersPanel";
+import { CustomFieldsPanel } from "@/features/jira/ui/BoardPage/CustomFieldsPanel";
+import { TrashPanel } from "@/features/jira/ui/BoardPage/TrashPanel";
+import { WorkflowPanel } from "@/features/jira/ui/BoardPage/WorkflowPanel";
+import { AutomationsPanel } from "@/features/jira/ui/BoardPage/AutomationsPanel";
+import { NotificationsMenu } from "@/features/jira/ui/common/NotificationsMenu";
+import { SprintTotals } from "@/features/jira/ui/BoardPage/SprintTotals";
+import { StartSprintDialog } from "@/features/jira/ui/BoardPage/StartSprintDialog";
+import { CompleteSprintDialog } from "@/features/jira/ui/BoardPage/CompleteSprintDialog";
+import { EditSprintDialog, type SprintEdit } from "@/features/jira/ui/BoardPage/EditSprintDialog";
+import { SprintSwitcher } from "@/features/jira/ui/BoardPage/SprintSwitcher";
+import {
+  BacklogPlanning,
+  type PlanningSection,
+} from "@/features/jira/ui/BoardPage/BacklogPlanning";
+import type { BoardInvite, Issue, Notification } from "@/features/jira/domain";
+import {
+  defaultChildType,
+  nextOrderInColumn,
+  emptyFilters,
+  filterIssues,
+  BACKLOG_SECTION,
+  formatSprintDates,
+  nextSprintName,
+  shiftSprint,
+  sprintProgress,
+} from "@/features/jira/domain";
 import type { IssueFilters } from "@/features/jira/domain";
 import { useJiraStore } from "@/features/jira/store";
 import { usePeopleSearch } from "@/features/jira/people";
+import { useIssueSearch } from "@/features/jira/issueSearch";
+import { useAuthStore } from "@/features/auth/authStore";
+import { toast } from "@/stores/toastStore";
 import { useShallow } from "zustand/shallow";
 
+const NO_SPRINTS: string[] = [];
+
+function inviteLink(token: string) {
+  return `${window.location.origin}/invite/${token}`;
+}
+
 export default function BoardPage() {
   const navigate = useNavigate();
   const params = useParams<{ boardId: string; sprintId?: string }>();
@@ -45,6 +135,8 @@ export default function BoardPage() {
     updateDraft,
     discardDraft,
     clearDraftAfterCreate,
+    conflict,
+    clearConflict,
   } = useJiraStore(
     useShallow((s) => ({
       selectedIssueId: s.selectedIssueId,
@@ -55,27 +147,177 @@ export default function BoardPage() {
       updateDraft: s.updateDraft,
       discardDraft: s.discardDraft,
       clearDraftAfterCreate: s.clearDraftAfterCreate,
+      conflict: s.conflict,
+      clearConflict: s.clearConflict,
     }))
   );
 
   const createSprint = useCreateSprint(boardId);
-  const setActiveSprint = useSetActiveSprint(boardId);
+  const startSprint = useStartSprint(boardId);
+  const completeSprint = useCompleteSprint(boardId);
+  const updateSprint = useUpdateSprint(boardId);
+  const reorderSprints = useReorderSprints(boardId);
+  const deleteSprint = useDeleteSprint(boardId);
   const batchPatch = useBatchPatchIssues(boardId, sprintId);
   const patchIssue = usePatchIssue(boardId, sprintId);
   const createIssue = useCreateIssue(boardId, sprintId);
   const moveIssue = useMoveIssue(boardId, sprintId);
+  const rankIssues = useRankIssues(boardId);
+  const { data: sprintSummary } = useSprintSummary(boardId, sprintId);
   const { data: sprints = [] } = useSprints(boardId);
   const activeSprint = useMemo(
-    () => sprints.find((sp) => sp.boardId === boardId && sp.isActive) ?? null,
+    () => sprints.find((sp) => sp.boardId === boardId && sp.state === "active") ?? null,
     [sprints, boardId]
   );
+  const plannedSprints = useMemo(
+    () => sprints.filter((sp) => sp.boardId === boardId && sp.state === "planned"),
+    [sprints, boardId]
+  );
+  const plannedSprintIds = useMemo(() => plannedSprints.map((sp) => sp.id), [plannedSprints]);
+  const currentSprint = sprints.find((sp) => sp.id === sprintId) ?? null;
+  const [startingSprintId, setStartingSprintId] = useState<string | null>(null);
+  const startingSprint = plannedSprints.find((sp) => sp.id === startingSprintId) ?? null;
+  const [completing, setCompleting] = useState(false);
+  const [editingSprintId, setEditingSprintId] = useState<string | null>(null);
+  const editingSprint =
+    sprints.find((sp) => sp.id === editingSprintId && sp.state !== "closed") ?? null;
+  // Closed sprints stay viewable as they ended, but nothing in them changes.
+  const sprintClosed = currentSprint?.state === "closed";
+
+  const currentUserId = useAuthStore((s) => s.user?.id ?? null);
+  const { data: boards = [] } = useBoards();
+  const board = boards.find((b) => b.id === boardId) ?? null;
+  const role = board?.role ?? null;
+  const canManage = role === "admin";
+  const canEdit = role === "editor" || role === "admin";
+
+  const [showMembers, setShowMembers] = useState(false);
+  const { data: members = [] } = useBoardMembers(boardId);
+  const { data: invites = [] } = useBoardInvites(boardId, showMembers && canManage);
+  const updateMember = useUpdateBoardMember(boardId);
+  const removeMember = useRemoveBoardMember(boardId);
+  const createInvite = useCreateInvite(boardId);
+  const revokeInvite = useRevokeInvite(boardId);
+
+  const [showFields, setShowFields] = useState(false);
+  const { data: customFields = [] } = useCustomFields(boardId);
+  const createCustomField = useCreateCustomField(boardId);
+  const updateCustomField = useUpdateCustomField(boardId);
+  const deleteCustomField = useDeleteCustomField(boardId);
+
+  const [showWorkflow, setShowWorkflow] = useState(false);
+  const { data: statuses = [] } = useStatuses(boardId);
+  const createStatus = useCreateStatus(boardId);
+  const updateStatus = useUpdateStatus(boardId);
+  const reorderStatuses = useReorderStatuses(boardId);
+  const deleteStatus = useDeleteStatus(boardId);
+
+  const [showAutomations, setShowAutomations] = useState(false);
+  const [automationLogRuleId, setAutomationLogRuleId] = useState<string | null>(null);
+  const { data: automations = [] } = useAutomations(boardId, showAutomations);
+  const { data: automationRuns = [], isLoading: automationRunsLoading } = useAutomationRuns(
+    boardId,
+    automationLogRuleId,
+    showAutomations
+  );
+  const createAutomation = useCreateAutomation(boardId);
+  const updateAutomation = useUpdateAutomation(boardId);
+  const deleteAutomation = useDeleteAutomation(boardId);
+
+  const [showTrash, setShowTrash] = useState(false);
+  const { data: archivedIssues = [], isLoading: archivedLoading } = useArchivedIssues(
+    boardId,
+    showTrash
+  );
+  const { data: trash = [], isLoading: trashLoading } = useTrash(boardId, showTrash);
+  const deleteIssue = useDeleteIssue(boardId, sprintId);
+  const archiveIssue = useArchiveIssue(boardId, sprintId);
+  const restoreIssue = useRestoreIssue(boardId);
+  const unarchiveIssue = useUnarchiveIssue(boardId);
+  const purgeIssue = usePurgeIssue(boardId);
+
+  const onDeleteIssue = useCallback(
+    (id: string) => {
+      closeIssue();
+      deleteIssue.mutate({ id });
+    },
+    [closeIssue, deleteIssue]
+  );
+
+  // "mine" saves the refused changes again, this time against their version.
+  const onResolveConflict = useCallback(
+    (keep: "mine" | "theirs") => {
+      if (!conflict) return;
+      if (keep === "mine") patchIssue.mutate({ id: conflict.issueId, patch: conflict.patch });
+      clearConflict();
+    },
+    [conflict, patchIssue, clearConflict]
+  );
+
+  const onArchiveIssue = useCallback(
+    (id: string) => {
+      closeIssue();
+      archiveIssue.mutate({ id });
+    },
+    [closeIssue, archiveIssue]
+  );
+
+  const onCopyInvite = useCallback((invite: BoardInvite) => {
+    navigator.clipboard
+      .writeText(inviteLink(invite.token))
+      .then(() => toast("success", "Invite link copied"))
+      .catch(() => toast("error", "Could not copy invite link"));
+  }, []);
+
+  const onRemoveMember = useCallback(
+    (userId: string) => {
+      removeMember.mutate(
+        { userId },
+        {
+          onSuccess: () => {
+            if (userId === currentUserId) navigate("/boards");
+          },
+        }
+      );
+    },
+    [removeMember, currentUserId, navigate]
+  );
+
+  const { data: notifications = [] } = useNotifications();
+  const markNotificationRead = useMarkNotificationRead();
+  const markAllNotificationsRead = useMarkAllNotificationsRead();
+
+  // Opens an issue that may live in another sprint (or board) than the one on screen.
+  const openIssueAt = useCallback(
+    (issue: Pick<Issue, "id" | "boardId" | "sprintId">) => {
+      const { boardId: toBoardId, sprintId: toSprintId } = issue;
+      if (toBoardId !== boardId || toSprintId !== sprintId) {
+        navigate(
+          toSprintId ? `/boards/${toBoardId}/sprints/${toSprintId}` : `/boards/${toBoardId}/backlog`
+        );
+      }
+      openIssue(issue.id);
+    },
+    [boardId, sprintId, navigate, openIssue]
+  );
+
+  const onOpenNotification = useCallback(
+    (n: Notification) => {
+      if (!n.readAt) markNotificationRead.mutate({ id: n.id });
+      openIssueAt(n.issue);
+    },
+    [markNotificationRead, openIssueAt]
+  );
 
   const onMoveIssue = useCallback(
     (issueId: string, toSprintId: string | null) => {
+      const issue = issues.find((it) => it.id === issueId);
+      if (!issue) return;
       moveIssue.mutate(
         {
           id: issueId,
           toSprintId,
+          version: issue.version,
         },
         {
           onSuccess: () => {
@@ -84,36 +326,110 @@ export default function BoardPage() {
         }
       );
     },
-    [moveIssue, closeIssue]
+    [issues, moveIssue, closeIssue]
   );
 
+  // New sprints are planned; with none running, go straight on to starting it.
   function onCreateSprint() {
     createSprint.mutate(
-      { name: `Sprint ${sprints.length + 1}` },
+      { name: nextSprintName(sprints) },
       {
         onSuccess: (sp) => {
-          setActiveSprint.mutate(
-            { sprintId: sp.id },
-            {
-              onSuccess: () => {
-                navigate(`/boards/${boardId}/sprints/${sp.id}`);
-              },
-            }
-          );
+          if (!activeSprint) setStartingSprintId(sp.id);
+        },
+      }
+    );
+  }
+
+  function onStartSprint(args: { goal: string | null; startDate: string; endDate: string }) {
+    if (!startingSprint) return;
+    const id = startingSprint.id;
+    startSprint.mutate(
+      { sprintId: id, ...args },
+      {
+        onSuccess: () => {
+          setStartingSprintId(null);
+          navigate(`/boards/${boardId}/sprints/${id}`);
+        },
+      }
+    );
+  }
+
+  function onSaveSprint(patch: SprintEdit) {
+    if (!editingSprint) return;
+    updateSprint.mutate(
+      { sprintId: editingSprint.id, patch },
+      { onSuccess: () => setEditingSprintId(null) }
+    );
+  }
+
+  function onDeleteSprint() {
+    if (!editingSprint) return;
+    const id = editingSprint.id;
+    deleteSprint.mutate(
+      { sprintId: id },
+      {
+        onSuccess: () => {
+          setEditingSprintId(null);
+          if (sprintId === id) navigate(`/boards/${boardId}/backlog`);
+        },
+      }
+    );
+  }
+
+  const onMoveSprint = useCallback(
+    (id: string, delta: number) => {
+      const ids = shiftSprint(plannedSprintIds, id, delta);
+      if (ids) reorderSprints.mutate({ ids });
+    },
+    [plannedSprintIds, reorderSprints]
+  );
+
+  function onCompleteSprint(moveTo: string | null) {
+    if (!activeSprint) return;
+    completeSprint.mutate(
+      { sprintId: activeSprint.id, moveTo },
+      {
+        onSuccess: () => {
+          setCompleting(false);
+          navigate(`/boards/${boardId}/backlog`);
         },
       }
     );
   }
 
   const [filters, setFilters] = useState<IssueFilters>(emptyFilters);
+  const { data: labels = [] } = useBoardLabels(boardId);
 
   const scopedIssues = useMemo(() => {
     return issues.slice().sort((a, b) => a.order - b.order);
   }, [issues]);
 
   const filteredIssues = useMemo(
-    () => filterIssues(scopedIssues, filters),
-    [scopedIssues, filters]
+    () => filterIssues(scopedIssues, filters, { fields: customFields }),
+    [scopedIssues, filters, customFields]
+  );
+  const people = useMemo(() => members.map((m) => ({ id: m.userId, name: m.name })), [members]);
+
+  // The backlog view plans every upcoming sprint above the backlog itself.
+  const { bySprint: plannedIssues } = useSprintIssues(
+    boardId,
+    view === "backlog" ? plannedSprintIds : NO_SPRINTS
+  );
+  const planningSections = useMemo((): PlanningSection[] => {
+    const rank = (list: Issue[]) => list.slice().sort((a, b) => a.order - b.order);
+    return [
+      ...plannedSprints.map((sp) => ({
+        key: sp.id,
+        sprint: sp,
+        issues: filterIssues(rank(plannedIssues[sp.id] ?? []), filters, { fields: customFields }),
+      })),
+      { key: BACKLOG_SECTION, sprint: null, issues: filteredIssues },
+    ];
+  }, [plannedSprints, plannedIssues, filters, customFields, filteredIssues]);
+  const plannedCount = useMemo(
+    () => plannedSprintIds.reduce((n, id) => n + (plannedIssues[id]?.length ?? 0), 0),
+    [plannedSprintIds, plannedIssues]
   );
 
   const selectedIssue = useMemo(() => {
@@ -121,7 +437,60 @@ export default function BoardPage() {
     return scopedIssues.find((x) => x.id === selectedIssueId) ?? null;
   }, [scopedIssues, selectedIssueId]);
 
-  const { toPersonEntity, search } = usePeopleSearch(true);
+  const { toPersonEntity, search } = usePeopleSearch(boardId);
+  const { data: history = [], isLoading: historyLoading } = useIssueHistory(
+    selectedIssue?.id ?? null
+  );
+  const { data: comments = [], isLoading: commentsLoading } = useComments(
+    selectedIssue?.id ?? null
+  );
+  const createComment = useCreateComment(selectedIssue?.id ?? "");
+  const updateComment = useUpdateComment(selectedIssue?.id ?? "");
+  const deleteComment = useDeleteComment(selectedIssue?.id ?? "");
+  const { data: attachments = [], isLoading: attachmentsLoading } = useAttachments(
+    selectedIssue?.id ?? null
+  );
+  const uploadAttachment = useUploadAttachment(selectedIssue?.id ?? "");
+  const deleteAttachment = useDeleteAttachment(selectedIssue?.id ?? "");
+  const { data: childIssues = [], isLoading: childrenLoading } = useIssueChildren(
+    selectedIssue?.id ?? null
+  );
+  const { data: links = [], isLoading: linksLoading } = useIssueLinks(selectedIssue?.id ?? null);
+  const createLink = useCreateIssueLink(selectedIssue?.id ?? "", boardId);
+  const deleteLink = useDeleteIssueLink(selectedIssue?.id ?? "", boardId);
+  const { search: searchIssues } = useIssueSearch(boardId);
+  const { data: worklogs = [], isLoading: worklogsLoading } = useWorklogs(
+    selectedIssue?.id ?? null
+  );
+  const createWorklog = useCreateWorklog(selectedIssue?.id ?? "", boardId);
+  const deleteWorklog = useDeleteWorklog(selectedIssue?.id ?? "", boardId);
+
+  const onAddChild = (parent: Issue, title: string) => {
+    const type = defaultChildType(parent.type);
+    if (!type) return;
+    // Children start next to their parent: same sprint, initial status.
+    const status = initialStatus(statuses);
+
+    createIssue.mutate({
+      boardId: parent.boardId,
+      sprintId: parent.sprintId,
+      statusId: status?.id,
+      order: nextOrderInColumn(scopedIssues, view, status?.id ?? null),
+      type,
+      priority: "medium",
+      labels: [],
+      title,
+      description: "",
+      assigneeId: null,
+      watcherIds: [],
+      parentId: parent.id,
+      storyPoints: null,
+      originalEstimate: null,
+      remainingEstimate: null,
+      dueDate: null,
+      customFields: {},
+    });
+  };
 
   const onSaveDraft = () => {
     if (!draftIssue) return;
@@ -133,12 +502,21 @@ export default function BoardPage() {
       {
         boardId: draftIssue.boardId,
         sprintId: draftIssue.sprintId,
-        status: draftIssue.status,
-        order: nextOrderForStatus(scopedIssues, draftIssue.status),
+        statusId: draftIssue.statusId ?? undefined,
+        order: nextOrderInColumn(scopedIssues, view, draftIssue.statusId),
+        type: draftIssue.type,
+        priority: draftIssue.priority,
+        labels: draftIssue.labels,
         title,
         description: draftIssue.description,
         assigneeId: draftIssue.assigneeId,
         watcherIds: draftIssue.watcherIds,
+        parentId: null,
+        storyPoints: null,
+        originalEstimate: null,
+        remainingEstimate: null,
+        dueDate: null,
+        customFields: {},
       },
       {
         onSuccess: () => {
@@ -161,13 +539,17 @@ export default function BoardPage() {
     else navigate(`/boards/${boardId}/backlog`);
   }
 
+  function onSelectSprint(id: string | null) {
+    navigate(id ? `/boards/${boardId}/sprints/${id}` : `/boards/${boardId}/backlog`);
+  }
+
   function onNewIssue() {
-    const seedStatus: IssueStatus = view === "backlog" ? "backlog" : "todo";
-    openNewIssue({ boardId, sprintId, status: seedStatus });
+    openNewIssue({ boardId, sprintId, statusId: null });
   }
 
   const onBatchPatch = useCallback(
-    (changes: Array<{ id: string; patch: Partial<Issue> }>) => batchPatch.mutate(changes),
+    (changes: Array<{ id: string; patch: Partial<Issue>; version?: number }>) =>
+      batchPatch.mutate(changes),
     [batchPatch]
   );
 
@@ -178,11 +560,19 @@ export default function BoardPage() {
       <div className="w-full px-6 py-8 2xl:px-10">
         <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
           <div>
-            <div className="text-xs text-white/50">{boardId}</div>
-            <div className="text-3xl font-semibold tracking-tight">Board</div>
+            <div className="text-xs text-white/50">{board?.key ?? boardId}</div>
+            <div className="text-3xl font-semibold tracking-tight">{board?.name ?? "Board"}</div>
             <div className="mt-1 text-sm text-white/60">
               View: {view === "backlog" ? "Backlog" : "Sprint board"}
             </div>
+            {currentSprint ? (
+              <div className="mt-1 text-sm text-white/60">
+                {[currentSprint.name, formatSprintDates(currentSprint)].filter(Boolean).join(" · ")}
+                {currentSprint.goal ? (
+                  <span className="text-white/80"> — {currentSprint.goal}</span>
+                ) : null}
+              </div>
+            ) : null}
           </div>
 
           <div className="flex flex-wrap items-center gap-2">
@@ -210,7 +600,9 @@ export default function BoardPage() {
               Sprint
             </button>
 
-            {!activeSprint ? (
+            <SprintSwitcher sprints={sprints} sprintId={sprintId} onSelect={onSelectSprint} />
+
+            {canEdit ? (
               <button
                 type="button"
                 onClick={() => onCreateSprint()}
@@ -220,27 +612,235 @@ export default function BoardPage() {
               </button>
             ) : null}
 
+            {canEdit && currentSprint && !sprintClosed ? (
+              <button
+                type="button"
+                onClick={() => setEditingSprintId(currentSprint.id)}
+                className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
+              >
+                Edit sprint
+              </button>
+            ) : null}
+
+            {canEdit && !activeSprint && plannedSprints.length > 0 ? (
+              <button
+                type="button"
+                onClick={() => setStartingSprintId(plannedSprints[0].id)}
+                className="rounded-xl border border-white/15 bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/15"
+              >
+                Start sprint
+              </button>
+            ) : null}
+
+            {canEdit && activeSprint && sprintId === activeSprint.id ? (
+              <button
+                type="button"
+                onClick={() => setCompleting(true)}
+                className="rounded-xl border border-white/15 bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/15"
+              >
+                Complete sprint
+              </button>
+            ) : null}
+
+            <NotificationsMenu
+              notifications={notifications}
+              onOpen={onOpenNotification}
+              onMarkAllRead={() => markAllNotificationsRead.mutate()}
+            />
+
+            <button
+              type="button"
+              onClick={() => setShowMembers((v) => !v)}
+              className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
+            >
+              Members
+            </button>
+
+            <button
+              type="button"
+              onClick={() => setShowFields((v) => !v)}
+              className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
+            >
+              Fields
+            </button>
+
+            <button
+              type="button"
+              onClick={() => setShowWorkflow((v) => !v)}
+              className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
+            >
+              Workflow
+            </button>
+
+            <button
+              type="button"
+              onClick={() => setShowAutomations((v) => !v)}
+              className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
+            >
+              Automations
+            </button>
+
+            <button
+              type="button"
+              onClick={() => setShowTrash((v) => !v)}
+              className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
+            >
+              Trash
+            </button>
+
             <button
               type="button"
               onClick={onNewIssue}
-              className="rounded-xl border border-white/15 bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/15"
+              disabled={sprintClosed}
+              className="rounded-xl border border-white/15 bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-40"
             >
               + New issue
             </button>
           </div>
         </div>
 
+        {startingSprint ? (
+          <StartSprintDialog
+            key={startingSprint.id}
+            sprint={startingSprint}
+            activeSprintName={activeSprint?.name ?? null}
+            isStarting={startSprint.isPending}
+            onStart={onStartSprint}
+            onCancel={() => setStartingSprintId(null)}
+          />
+        ) : null}
+
+        {editingSprint ? (
+          <EditSprintDialog
+            key={editingSprint.id}
+            sprint={editingSprint}
+            isSaving={updateSprint.isPending}
+            isDeleting={deleteSprint.isPending}
+            onSave={onSaveSprint}
+            onDelete={onDeleteSprint}
+            onCancel={() => setEditingSprintId(null)}
+          />
+        ) : null}
+
+        {completing && activeSprint ? (
+          <CompleteSprintDialog
+            sprint={activeSprint}
+            progress={sprintProgress(scopedIssues)}
+            plannedSprints={plannedSprints}
+            isCompleting={completeSprint.isPending}
+            onComplete={onCompleteSprint}
+            onCancel={() => setCompleting(false)}
+          />
+        ) : null}
+
+        {showMembers ? (
+          <div className="mb-6">
+            <BoardMembersPanel
+              members={members}
+              invites={invites}
+              currentUserId={currentUserId}
+              canManage={canManage}
+              isCreatingInvite={createInvite.isPending}
+              onChangeRole={(userId, role) => updateMember.mutate({ userId, role })}
+              onRemoveMember={onRemoveMember}
+              onCreateInvite={(args) =>
+                createInvite.mutate(args, { onSuccess: (invite) => onCopyInvite(invite) })
+              }
+              onRevokeInvite={(inviteId) => revokeInvite.mutate({ inviteId })}
+              onCopyInvite={onCopyInvite}
+            />
+          </div>
+        ) : null}
+
+        {showFields ? (
+          <div className="mb-6">
+            <CustomFieldsPanel
+              fields={customFields}
+              canManage={canManage}
+              isCreating={createCustomField.isPending}
+              onCreate={(args) => createCustomField.mutate(args)}
+              onUpdate={(args) => updateCustomField.mutate(args)}
+              onDelete={(id) => deleteCustomField.mutate({ id })}
+            />
+          </div>
+        ) : null}
+
+        {showWorkflow ? (
+          <div className="mb-6">
+            <WorkflowPanel
+              statuses={statuses}
+              canManage={canManage}
+              isCreating={createStatus.isPending}
+              onCreate={(args) => createStatus.mutate(args)}
+              onUpdate={(args) => updateStatus.mutate(args)}
+              onReorder={(ids) => reorderStatuses.mutate({ ids })}
+              onDelete={(args) => deleteStatus.mutate(args)}
+            />
+          </div>
+        ) : null}
+
+        {showAutomations ? (
+          <div className="mb-6">
+            <AutomationsPanel
+              rules={automations}
+              runs={automationRuns}
+              runsLoading={automationRunsLoading}
+              logRuleId={automationLogRuleId}
+              statuses={statuses}
+              sprints={sprints}
+              people={people}
+              canManage={canManage}
+              isCreating={createAutomation.isPending}
+              onLogRuleChange={setAutomationLogRuleId}
+              onCreate={(args) => createAutomation.mutate(args)}
+              onToggle={(id, enabled) => updateAutomation.mutate({ id, enabled })}
+              onDelete={(id) => deleteAutomation.mutate({ id })}
+            />
+          </div>
+        ) : null}
+
+        {showTrash ? (
+          <div className="mb-6">
+            <TrashPanel
+              archived={archivedIssues}
+              trash={trash}
+              isLoading={archivedLoading || trashLoading}
+              canEdit={canEdit}
+              canPurge={canManage}
+              onUnarchive={(id) => unarchiveIssue.mutate({ id })}
+              onRestore={(id) => restoreIssue.mutate({ id })}
+              onPurge={(id) => purgeIssue.mutate({ id })}
+            />
+          </div>
+        ) : null}
+
         <div className="grid gap-6 lg:grid-cols-[1fr_420px] lg:items-start">
           <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
             <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
-              <span className="text-sm text-white/60">
-                {view === "backlog" ? "Backlog" : "Sprint board"}
-              </span>
+              <div className="flex flex-wrap items-baseline gap-3">
+                <span className="text-sm text-white/60">
+                  {view === "backlog" ? "Backlog" : "Sprint board"}
+                </span>
+                {sprintSummary ? <SprintTotals summary={sprintSummary} /> : null}
+                {sprintClosed ? (
+                  <span className="rounded-full bg-white/10 px-2 py-0.5 text-xs text-white/60">
+                    Closed · read-only
+                  </span>
+                ) : null}
+              </div>
               <BoardFilters
                 filters={filters}
                 onChange={setFilters}
-                totalCount={scopedIssues.length}
-                filteredCount={filteredIssues.length}
+                labels={labels}
+                statuses={statuses}
+                customFields={customFields}
+                people={people}
+                totalCount={scopedIssues.length + (view === "backlog" ? plannedCount : 0)}
+                filteredCount={
+                  view === "backlog"
+                    ? planningSections.reduce((n, s) => n + s.issues.length, 0)
+                    : filteredIssues.length
+                }
               />
             </div>
             <QueryState
@@ -249,13 +849,29 @@ export default function BoardPage() {
               error={issuesErrorObj}
               onRetry={() => refetchIssues()}
             >
-              <BoardColumns
-                view={view}
-                issues={filteredIssues}
-                isSaving={batchPatch.isPending}
-                onOpenIssue={onOpenIssue}
-                onBatchPatch={onBatchPatch}
-              />
+              {view === "backlog" ? (
+                <BacklogPlanning
+                  sections={planningSections}
+                  onOpenIssue={openIssueAt}
+                  onRank={(changes) => rankIssues.mutate(changes)}
+                  onStartSprint={canEdit && !activeSprint ? setStartingSprintId : undefined}
+                  onEditSprint={canEdit ? setEditingSprintId : undefined}
+                  onMoveSprint={canEdit ? onMoveSprint : undefined}
+                  isSaving={rankIssues.isPending}
+                />
+              ) : (
+                <BoardColumns
+                  view={view}
+                  issues={filteredIssues}
+                  allIssues={scopedIssues}
+                  people={people}
+                  statuses={statuses}
+                  isSaving={batchPatch.isPending}
+                  readOnly={sprintClosed}
+                  onOpenIssue={onOpenIssue}
+                  onBatchPatch={onBatchPatch}
+                />
+              )}
             </QueryState>
           </div>
           <IssueSidePanel
@@ -265,12 +881,51 @@ export default function BoardPage() {
             selectedIssue={selectedIssue}
             isCreating={createIssue.isPending}
             sprints={sprints}
+            statuses={statuses}
+            history={history}
+            isHistoryLoading={historyLoading}
+            comments={comments}
+            isCommentsLoading={commentsLoading}
+            currentUserId={currentUserId}
+            canComment={canEdit && !sprintClosed}
+            canModerate={canManage}
+            onPostComment={(args) => createComment.mutate(args)}
+            onEditComment={(args) => updateComment.mutate(args)}
+            onDeleteComment={(id) => deleteComment.mutate({ id })}
+            attachments={attachments}
+            isAttachmentsLoading={attachmentsLoading}
+            isUploading={uploadAttachment.isPending}
+            onUploadAttachment={(file) => uploadAttachment.mutate({ file })}
+            onDeleteAttachment={(id) => deleteAttachment.mutate({ id })}
+            loadAttachment={jiraClient.getAttachmentContent}
             onClose={closeIssue}
+            onArchiveIssue={onArchiveIssue}
+            onDeleteIssue={onDeleteIssue}
+            conflict={conflict}
+            onResolveConflict={onResolveConflict}
             onUpdateDraft={updateDraft}
             onDiscardDraft={discardDraft}
             onPatchIssue={(args) => patchIssue.mutate(args)}
             onSaveDraft={onSaveDraft}
             onMoveIssue={onMoveIssue}
+            labelSuggestions={labels}
+            customFields={customFields}
+            childIssues={childIssues}
+            isChildrenLoading={childrenLoading}
+            canEdit={canEdit && !sprintClosed}
+            isAddingChild={createIssue.isPending}
+            onAddChild={onAddChild}
+            onOpenRelated={openIssueAt}
+            links={links}
+            isLinksLoading={linksLoading}
+            searchIssues={searchIssues}
+            onAddLink={(args) => createLink.mutate(args)}
+            onRemoveLink={(id) => deleteLink.mutate({ id })}
+            worklogs={worklogs}
+            isWorklogsLoading={worklogsLoading}
+            isLoggingWork={createWorklog.isPending}
+            onLogWork={(args) => createWorklog.mutate(args)}
+            onDeleteWorklog={(id) => deleteWorklog.mutate({ id })}
             toPersonEntity={toPersonEntity}
             searchPeople={search}
           />
@@ -2,18 +2,24 @@ import { useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useBoards, useCreateBoard, useSprints } from "@/features/jira/api";
 import { useAuthStore } from "@/features/auth/authStore";
+import { signOut } from "@/features/auth/session";
 import { queryClient } from "@/app/providers/queryClient";
 import { ColdStartWarning } from "@/components/ColdStartWarning";
+import type { Board } from "@/features/jira/domain";
+import { BoardKeySchema, suggestBoardKey } from "@jira-lab/shared";
 
-function BoardCard({ board }: { board: { id: string; name: string } }) {
+function BoardCard({ board }: { board: Board }) {
   const nav = useNavigate();
   const { data: sprints = [], isLoading } = useSprints(board.id);
 
-  const activeSprint = useMemo(() => sprints.find((sp) => sp.isActive) ?? null, [sprints]);
+  const activeSprint = useMemo(
+    () => sprints.find((sp) => sp.state === "active") ?? null,
+    [sprints]
+  );
 
   return (
     <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
-      <div className="text-sm text-white/60">{board.id}</div>
+      <div className="text-sm text-white/60">{board.key ?? board.id}</div>
       <div className="mt-1 text-xl font-semibold">{board.name}</div>
 
       <div className="mt-3 flex flex-wrap gap-2">
@@ -46,7 +52,10 @@ function BoardCard({ board }: { board: { id: string; name: string } }) {
         </button>
       </div>
 
-      <div className="mt-3 text-xs text-white/60">Active sprint: {activeSprint?.name ?? "—"}</div>
+      <div className="mt-3 text-xs text-white/60">
+        Active sprint: {activeSprint?.name ?? "—"}
+        {board.role ? ` · Your role: ${board.role}` : null}
+      </div>
     </div>
   );
 }
@@ -56,12 +65,17 @@ export default function BoardsPage() {
   const { data: boards = [], isLoading, isError, error } = useBoards();
   const createBoard = useCreateBoard();
   const user = useAuthStore((s) => s.user);
-  const logout = useAuthStore((s) => s.logout);
 
   const [name, setName] = useState("");
+  const [key, setKey] = useState("");
+
+  const suggestedKey = name.trim() ? suggestBoardKey(name) : "";
+  const keyResult = key.trim() ? BoardKeySchema.safeParse(key) : null;
+  const keyError = keyResult && !keyResult.success ? keyResult.error.issues[0].message : null;
+  const canCreate = !!name.trim() && !keyError && !createBoard.isPending;
 
   const handleLogout = () => {
-    logout();
+    void signOut();
     queryClient.clear();
     nav("/login", { replace: true });
   };
@@ -87,7 +101,7 @@ export default function BoardsPage() {
           </div>
         </div>
 
-        <div className="mt-6 grid gap-4 md:grid-cols-[1fr_auto]">
+        <div className="mt-6 grid gap-4 md:grid-cols-[1fr_140px_auto]">
           <input
             value={name}
             onChange={(e) => setName(e.target.value)}
@@ -95,18 +109,32 @@ export default function BoardsPage() {
             className="rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-sm text-white outline-none placeholder:text-white/40"
           />
 
+          <input
+            value={key}
+            onChange={(e) => setKey(e.target.value.toUpperCase())}
+            placeholder={suggestedKey ? `Key: ${suggestedKey}` : "Key (optional)"}
+            aria-label="Issue key prefix"
+            aria-invalid={!!keyError}
+            maxLength={10}
+            className={[
+              "rounded-xl border bg-black/30 px-3 py-2 text-sm uppercase text-white outline-none placeholder:normal-case placeholder:text-white/40",
+              keyError ? "border-red-500/40" : "border-white/10",
+            ].join(" ")}
+          />
+
           <button
             type="button"
-            disabled={!name.trim() || createBoard.isPending}
+            disabled={!canCreate}
             onClick={() => {
               const n = name.trim();
-              if (!n) return;
+              if (!n || keyError) return;
 
               createBoard.mutate(
-                { name: n },
+                { name: n, key: key.trim() || undefined },
                 {
                   onSuccess: (b) => {
                     setName("");
+                    setKey("");
                     nav(`/boards/${b.id}/backlog`);
                   },
                 }
@@ -114,7 +142,7 @@ export default function BoardsPage() {
             }}
             className={[
               "rounded-xl border border-white/15 px-3 py-2 text-sm",
-              name.trim()
+              canCreate
                 ? "bg-white/10 text-white hover:bg-white/15"
                 : "bg-white/5 text-white/40 cursor-not-allowed",
             ].join(" ")}
@@ -122,6 +150,7 @@ export default function BoardsPage() {
             {createBoard.isPending ? "Creating…" : "Create board"}
           </button>
         </div>
+        {keyError ? <p className="mt-2 text-xs text-red-300">{keyError}</p> : null}
 
         {isLoading ? (
           <div className="mt-6 space-y-4">
@@ -0,0 +1,97 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useAcceptInvite, useInvitePreview } from "@/features/jira/api";
+import { useAuthStore } from "@/features/auth/authStore";
+import { ColdStartWarning } from "@/components/ColdStartWarning";
+
+export default function InvitePage() {
+  const nav = useNavigate();
+  const { token = "" } = useParams<{ token: string }>();
+  const isLoggedIn = useAuthStore((s) => !!s.token);
+  const user = useAuthStore((s) => s.user);
+
+  const { data: invite, isLoading, isError, error } = useInvitePreview(token);
+  const acceptInvite = useAcceptInvite();
+
+  const next = encodeURIComponent(`/invite/${token}`);
+
+  const onAccept = () => {
+    acceptInvite.mutate(
+      { token },
+      {
+        onSuccess: (res) => nav(`/boards/${res.boardId}/backlog`, { replace: true }),
+      }
+    );
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-neutral-950 text-white">
+      <div className="w-full max-w-sm">
+        <h1 className="text-3xl font-semibold tracking-tight">Board invite</h1>
+
+        {isLoading ? (
+          <div className="mt-8 space-y-4">
+            <div className="rounded-xl border border-white/10 bg-black/20 p-4 text-sm text-white/60">
+              Loading invite…
+            </div>
+            <ColdStartWarning />
+          </div>
+        ) : isError || !invite ? (
+          <div className="mt-8 space-y-4">
+            <div className="rounded-xl border border-red-500/20 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+              {(error as Error | null)?.message || "This invite is no longer valid."}
+            </div>
+            <Link to="/boards" className="text-sm text-white/80 underline hover:text-white">
+              Go to your boards
+            </Link>
+          </div>
+        ) : (
+          <div className="mt-8 space-y-4">
+            <div className="rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <p className="text-sm text-white/70">
+                <span className="text-white/90">{invite.invitedBy}</span> invited you to join
+              </p>
+              <p className="mt-1 text-xl font-semibold">{invite.boardName}</p>
+              <p className="mt-2 text-xs text-white/50">
+                Role: {invite.role} · Expires {new Date(invite.expiresAt).toLocaleString()}
+              </p>
+            </div>
+
+            {isLoggedIn ? (
+              <>
+                <p className="text-sm text-white/60">Signed in as {user?.name ?? user?.email}.</p>
+                <button
+                  type="button"
+                  onClick={onAccept}
+                  disabled={acceptInvite.isPending}
+                  className={[
+                    "w-full rounded-xl border border-white/15 px-3 py-2.5 text-sm font-medium",
+                    acceptInvite.isPending
+                      ? "bg-white/5 text-white/40 cursor-not-allowed"
+                      : "bg-white/10 text-white hover:bg-white/15",
+                  ].join(" ")}
+                >
+                  {acceptInvite.isPending ? "Joining..." : "Accept invite"}
+                </button>
+              </>
+            ) : (
+              <div className="grid gap-2">
+                <Link
+                  to={`/login?next=${next}`}
+                  className="w-full rounded-xl border border-white/15 bg-white/10 px-3 py-2.5 text-center text-sm font-medium text-white hover:bg-white/15"
+                >
+                  Sign in to accept
+                </Link>
+                <Link
+                  to={`/register?next=${next}`}
+                  className="w-full rounded-xl border border-white/15 bg-white/5 px-3 py-2.5 text-center text-sm text-white/80 hover:bg-white/10 hover:text-white"
+                >
+                  Create an account
+                </Link>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
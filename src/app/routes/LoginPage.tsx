@@ -1,9 +1,10 @@
 import { useState } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { authClient } from "@/features/auth/auth.client";
 import { useAuthStore } from "@/features/auth/authStore";
+import { nextPathFrom } from "@/features/auth/nextPath";
 import { ColdStartWarning } from "@/components/ColdStartWarning";
 import { toast } from "@/stores/toastStore";
 import { LoginInputSchema, type LoginInput } from "@jira-lab/shared";
@@ -11,6 +12,8 @@ import { LoginInputSchema, type LoginInput } from "@jira-lab/shared";
 export default function LoginPage() {
   const nav = useNavigate();
   const setAuth = useAuthStore((s) => s.setAuth);
+  const [searchParams] = useSearchParams();
+  const next = nextPathFrom(searchParams);
 
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
@@ -35,9 +38,9 @@ export default function LoginPage() {
     setLoading(true);
 
     try {
-      const { token, user } = await authClient.login(data);
-      setAuth(token, user);
-      nav("/boards", { replace: true });
+      const { token, refreshToken, user } = await authClient.login(data);
+      setAuth(token, refreshToken, user);
+      nav(next, { replace: true });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Login failed";
       setError(msg);
@@ -110,7 +113,10 @@ export default function LoginPage() {
 
         <p className="mt-6 text-center text-sm text-white/50">
           Don&apos;t have an account?{" "}
-          <Link to="/register" className="text-white/80 hover:text-white underline">
+          <Link
+            to={next === "/boards" ? "/register" : `/register?next=${encodeURIComponent(next)}`}
+            className="text-white/80 hover:text-white underline"
+          >
             Create one
           </Link>
         </p>
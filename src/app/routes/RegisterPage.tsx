@@ -1,9 +1,10 @@
 import { useState } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { authClient } from "@/features/auth/auth.client";
 import { useAuthStore } from "@/features/auth/authStore";
+import { nextPathFrom } from "@/features/auth/nextPath";
 import { ColdStartWarning } from "@/components/ColdStartWarning";
 import { toast } from "@/stores/toastStore";
 import { RegisterInputSchema, type RegisterInput } from "@jira-lab/shared";
@@ -11,6 +12,8 @@ import { RegisterInputSchema, type RegisterInput } from "@jira-lab/shared";
 export default function RegisterPage() {
   const nav = useNavigate();
   const setAuth = useAuthStore((s) => s.setAuth);
+  const [searchParams] = useSearchParams();
+  const next = nextPathFrom(searchParams);
 
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
@@ -36,9 +39,9 @@ export default function RegisterPage() {
     setLoading(true);
 
     try {
-      const { token, user } = await authClient.register(data);
-      setAuth(token, user);
-      nav("/boards", { replace: true });
+      const { token, refreshToken, user } = await authClient.register(data);
+      setAuth(token, refreshToken, user);
+      nav(next, { replace: true });
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Registration failed";
       setError(msg);
@@ -126,7 +129,10 @@ export default function RegisterPage() {
 
         <p className="mt-6 text-center text-sm text-white/50">
           Already have an account?{" "}
-          <Link to="/login" className="text-white/80 hover:text-white underline">
+          <Link
+            to={next === "/boards" ? "/login" : `/login?next=${encodeURIComponent(next)}`}
+            className="text-white/80 hover:text-white underline"
+          >
             Sign in
           </Link>
         </p>
@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from "react";
+import { findMentionQuery } from "@jira-lab/shared";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import type { EntityBase } from "./EntityPicker";
+
+type Props<T extends EntityBase> = {
+  value: string;
+  onChange: (next: string) => void;
+
+  // Same contract as EntityPicker, so a picker's search can be reused as-is.
+  search: (query: string, signal?: AbortSignal) => Promise<T[]>;
+  // Handle inserted after the `@` when an item is picked.
+  getHandle: (item: T) => string;
+
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+  disabled?: boolean;
+  debounceMs?: number;
+};
+
+type ActiveMention = { start: number; query: string };
+
+/**
+ * Textarea with inline `@mention` autocomplete. Typing `@` followed by at
+ * least one character opens a result list below the field; picking an item
+ * replaces the partial mention with `@handle `.
+ */
+export function MentionTextarea<T extends EntityBase>({
+  value,
+  onChange,
+  search,
+  getHandle,
+  placeholder,
+  rows = 4,
+  className = "",
+  disabled = false,
+  debounceMs = 200,
+}: Props<T>) {
+  const [mention, setMention] = useState<ActiveMention | null>(null);
+  const debounced = useDebouncedValue(mention?.query ?? "", debounceMs);
+
+  const [loading, setLoading] = useState(false);
+  const [items, setItems] = useState<T[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const abortRef = useRef<AbortController | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const open = mention !== null && mention.query.length > 0;
+
+  function close() {
+    setMention(null);
+    setItems([]);
+    setLoading(false);
+    setActiveIndex(0);
+    abortRef.current?.abort();
+  }
+
+  function syncMention(el: HTMLTextAreaElement) {
+    const next = findMentionQuery(el.value, el.selectionStart ?? el.value.length);
+    if (!next) close();
+    else if (next.start !== mention?.start || next.query !== mention?.query) setMention(next);
+  }
+
+  function select(item: T) {
+    if (!mention) return;
+    const el = textareaRef.current;
+    const caret = el?.selectionStart ?? mention.start + mention.query.length + 1;
+    const insert = `@${getHandle(item)} `;
+    const next = value.slice(0, mention.start) + insert + value.slice(caret);
+    onChange(next);
+    close();
+
+    const pos = mention.start + insert.length;
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(pos, pos);
+    });
+  }
+
+  useEffect(() => {
+    if (!open || !debounced) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setLoading(true);
+
+    search(debounced, controller.signal)
+      .then((res) => {
+        if (controller.signal.aborted) return;
+        setItems(res);
+        setActiveIndex(0);
+      })
+      .catch(() => {
+        if (controller.signal.aborted) return;
+        setItems([]);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [open, debounced, search]);
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLTextAreaElement>) {
+    if (!open) return;
+
+    if (e.key === "Escape") {
+      e.preventDefault();
+      close();
+      return;
+    }
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, Math.max(items.length - 1, 0)));
+      return;
+    }
+
+    if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+      return;
+    }
+
+    if (e.key === "Enter" || e.key === "Tab") {
+      const item = items[activeIndex];
+      if (!item) return;
+      e.preventDefault();
+      select(item);
+    }
+  }
+
+  return (
+    <div className="relative w-full">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        disabled={disabled}
+        placeholder={placeholder}
+        rows={rows}
+        onChange={(e) => {
+          onChange(e.target.value);
+          syncMention(e.target);
+        }}
+        onSelect={(e) => syncMention(e.currentTarget)}
+        onBlur={close}
+        onKeyDown={onKeyDown}
+        className={className}
+      />
+
+      {open && (
+        <div className="absolute left-0 right-0 top-full z-20 mt-1 overflow-hidden rounded-xl border border-white/10 bg-neutral-950/90 backdrop-blur">
+          <div className="border-b border-white/10 px-3 py-2 text-xs text-white/70">
+            {loading ? "Loading…" : items.length === 0 ? "No matching people" : "Mention"}
+          </div>
+
+          <div className="max-h-56 overflow-auto">
+            {items.map((it, idx) => (
+              <div
+                key={String(it.id)}
+                onMouseEnter={() => setActiveIndex(idx)}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  select(it);
+                }}
+                className={[
+                  "border-b border-white/10 px-3 py-2",
+                  idx === activeIndex ? "bg-white/10" : "",
+                  "cursor-pointer hover:bg-white/10",
+                ].join(" ")}
+              >
+                <div className="text-sm text-white">{it.label}</div>
+                <div className="text-xs text-white/60">@{getHandle(it)}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import { render, screen, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { ToastContainer } from "./ToastContainer";
@@ -57,6 +57,27 @@ describe("ToastContainer", () => {
     });
   });
 
+  it("runs the toast's action and dismisses it", async () => {
+    const user = userEvent.setup();
+    const onClick = vi.fn();
+
+    useToastStore.getState().addToast({
+      type: "info",
+      message: "Issue deleted",
+      duration: 0,
+      action: { label: "Undo", onClick },
+    });
+
+    render(<ToastContainer />);
+
+    await user.click(screen.getByRole("button", { name: "Undo" }));
+
+    expect(onClick).toHaveBeenCalledOnce();
+    await waitFor(() => {
+      expect(screen.queryByText("Issue deleted")).not.toBeInTheDocument();
+    });
+  });
+
   it("applies error styling for error toasts", () => {
     useToastStore.getState().addToast({
       type: "error",
@@ -26,6 +26,18 @@ function ToastItem({ toast }: { toast: Toast }) {
       ].join(" ")}
     >
       <span className="flex-1">{toast.message}</span>
+      {toast.action && (
+        <button
+          type="button"
+          onClick={() => {
+            toast.action!.onClick();
+            handleDismiss();
+          }}
+          className="font-medium underline underline-offset-2 hover:opacity-80"
+        >
+          {toast.action.label}
+        </button>
+      )}
       <button
         type="button"
         onClick={handleDismiss}
@@ -31,4 +31,12 @@ export const authClient = {
   register(input: RegisterInput) {
     return authFetch<AuthResponse>("/auth/register", input);
   },
+
+  refresh(refreshToken: string) {
+    return authFetch<AuthResponse>("/auth/refresh", { refreshToken });
+  },
+
+  logout(refreshToken: string) {
+    return authFetch<{ ok: boolean }>("/auth/logout", { refreshToken });
+  },
 };
@@ -3,20 +3,26 @@ import type { AuthUser } from "./types";
 
 type AuthState = {
   token: string | null;
+  refreshToken: string | null;
   user: AuthUser | null;
 
-  setAuth: (token: string, user: AuthUser) => void;
+  setAuth: (token: string, refreshToken: string, user: AuthUser) => void;
   logout: () => void;
 };
 
-function loadFromStorage(): { token: string | null; user: AuthUser | null } {
+const TOKEN_KEY = "auth_token";
+const REFRESH_TOKEN_KEY = "auth_refresh_token";
+const USER_KEY = "auth_user";
+
+function loadFromStorage(): Pick<AuthState, "token" | "refreshToken" | "user"> {
   try {
-    const token = localStorage.getItem("auth_token");
-    const raw = localStorage.getItem("auth_user");
+    const token = localStorage.getItem(TOKEN_KEY);
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    const raw = localStorage.getItem(USER_KEY);
     const user = raw ? (JSON.parse(raw) as AuthUser) : null;
-    return { token, user };
+    return { token, refreshToken, user };
   } catch {
-    return { token: null, user: null };
+    return { token: null, refreshToken: null, user: null };
   }
 }
 
@@ -24,17 +30,30 @@ const initial = loadFromStorage();
 
 export const useAuthStore = create<AuthState>((set) => ({
   token: initial.token,
+  refreshToken: initial.refreshToken,
   user: initial.user,
 
-  setAuth: (token, user) => {
-    localStorage.setItem("auth_token", token);
-    localStorage.setItem("auth_user", JSON.stringify(user));
-    set({ token, user });
+  setAuth: (token, refreshToken, user) => {
+    localStorage.setItem(TOKEN_KEY, token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+    set({ token, refreshToken, user });
   },
 
   logout: () => {
-    localStorage.removeItem("auth_token");
-    localStorage.removeItem("auth_user");
-    set({ token: null, user: null });
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
+    set({ token: null, refreshToken: null, user: null });
   },
 }));
+
+// Refresh tokens are single-use, so a rotation in one tab must reach the
+// others before they try to refresh with the stale token.
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (e) => {
+    if (e.key === null || e.key === TOKEN_KEY || e.key === REFRESH_TOKEN_KEY) {
+      useAuthStore.setState(loadFromStorage());
+    }
+  });
+}
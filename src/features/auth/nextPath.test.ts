@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { nextPathFrom } from "./nextPath";
+
+describe("nextPathFrom", () => {
+  it("returns the next param when it is a local path", () => {
+    expect(nextPathFrom("?next=/invite/abc")).toBe("/invite/abc");
+  });
+
+  it("falls back when next is missing", () => {
+    expect(nextPathFrom("")).toBe("/boards");
+    expect(nextPathFrom("", "/home")).toBe("/home");
+  });
+
+  it("rejects absolute and protocol-relative URLs", () => {
+    expect(nextPathFrom("?next=https://evil.example")).toBe("/boards");
+    expect(nextPathFrom("?next=//evil.example")).toBe("/boards");
+  });
+
+  it("accepts URLSearchParams", () => {
+    expect(nextPathFrom(new URLSearchParams({ next: "/boards/b1/backlog" }))).toBe(
+      "/boards/b1/backlog"
+    );
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Reads the `next` query param used to return to a page after login
+ * (e.g. an invite link). Only same-origin paths are honoured so the param
+ * cannot be used as an open redirect.
+ */
+export function nextPathFrom(search: URLSearchParams | string, fallback = "/boards"): string {
+  const params = typeof search === "string" ? new URLSearchParams(search) : search;
+  const next = params.get("next");
+  if (!next || !next.startsWith("/") || next.startsWith("//")) return fallback;
+  return next;
+}
@@ -0,0 +1,41 @@
+import { authClient } from "./auth.client";
+import { useAuthStore } from "./authStore";
+
+let inFlight: Promise<string | null> | null = null;
+
+/**
+ * Exchanges the stored refresh token for a new access token.
+ * Concurrent callers share one request: the refresh token is single-use, so
+ * parallel 401s must not each try to rotate it.
+ * Resolves to null when the session cannot be renewed.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!inFlight) {
+    inFlight = doRefresh().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+async function doRefresh() {
+  const { refreshToken, setAuth } = useAuthStore.getState();
+  if (!refreshToken) return null;
+
+  try {
+    const res = await authClient.refresh(refreshToken);
+    setAuth(res.token, res.refreshToken, res.user);
+    return res.token;
+  } catch {
+    return null;
+  }
+}
+
+/** Revokes the server-side session (best effort) and clears local auth state. */
+export async function signOut() {
+  const { refreshToken, logout } = useAuthStore.getState();
+  logout();
+  if (refreshToken) {
+    await authClient.logout(refreshToken).catch(() => undefined);
+  }
+}
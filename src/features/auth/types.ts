@@ -1,4 +1,4 @@
 export type AuthUser = { id: string; email: string; name: string };
 export type LoginInput = { email: string; password: string };
 export type RegisterInput = { email: string; name: string; password: string };
-export type AuthResponse = { token: string; user: AuthUser };
+export type AuthResponse = { token: string; refreshToken: string; user: AuthUser };
@@ -1,20 +1,48 @@
 import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
 import { http, HttpResponse } from "msw";
 import { setupServer } from "msw/node";
-import { jiraClient } from "./jira.client";
-import type { Board, Issue, Sprint } from "../domain/types";
+import { ApiError, jiraClient } from "./jira.client";
+import { useAuthStore } from "@/features/auth/authStore";
+import type {
+  AutomationRule,
+  Attachment,
+  Board,
+  BoardInvite,
+  BoardMember,
+  CustomField,
+  Issue,
+  IssueLink,
+  Notification,
+  Sprint,
+  SprintSummary,
+  Status,
+  Worklog,
+} from "../domain/types";
 
 const mockIssue: Issue = {
   id: "issue-1",
   key: "BOARD-1",
   boardId: "board-1",
   sprintId: "sprint-1",
-  status: "todo",
+  statusId: "st-todo",
+  status: { id: "st-todo", name: "To do", category: "todo" },
   order: 1000,
+  type: "task",
+  priority: "medium",
+  labels: [],
   title: "Test Issue",
   description: "A test issue",
   assigneeId: null,
   watcherIds: [],
+  parentId: null,
+  storyPoints: null,
+  originalEstimate: null,
+  remainingEstimate: null,
+  dueDate: null,
+  customFields: {},
+  archivedAt: null,
+  deletedAt: null,
+  version: 1,
 };
 
 const mockBoard: Board = { id: "board-1", name: "Test Board" };
@@ -23,7 +51,126 @@ const mockSprint: Sprint = {
   id: "sprint-1",
   boardId: "board-1",
   name: "Sprint 1",
-  isActive: true,
+  goal: null,
+  state: "active",
+  order: 1000,
+  startDate: "2026-06-01T00:00:00.000Z",
+  endDate: "2026-06-14T00:00:00.000Z",
+  completedAt: null,
+};
+
+const mockMember: BoardMember = {
+  userId: "user-2",
+  name: "Susan",
+  email: "susan@example.com",
+  role: "editor",
+};
+
+const mockInvite: BoardInvite = {
+  id: "invite-1",
+  boardId: "board-1",
+  role: "editor",
+  maxUses: 1,
+  useCount: 0,
+  expiresAt: "2026-03-20T00:00:00.000Z",
+  token: "invite-token",
+};
+
+const mockNotification: Notification = {
+  id: "notif-1",
+  kind: "mention",
+  actor: { id: "user-2", name: "Susan" },
+  issue: {
+    id: "issue-1",
+    key: "BOARD-1",
+    title: "Test Issue",
+    boardId: "board-1",
+    sprintId: "sprint-1",
+  },
+  commentId: null,
+  readAt: null,
+  createdAt: "2026-04-20T09:30:00.000Z",
+};
+
+const mockAttachment: Attachment = {
+  id: "att-1",
+  issueId: "issue-1",
+  filename: "screenshot.png",
+  contentType: "image/png",
+  size: 4,
+  uploader: { id: "user-2", name: "Susan" },
+  createdAt: "2026-04-27T10:00:00.000Z",
+};
+
+const mockLink: IssueLink = {
+  id: "link-1",
+  relation: "blocks",
+  issue: {
+    id: "issue-2",
+    key: "BOARD-2",
+    title: "Blocked work",
+    type: "task",
+    status: { id: "st-todo", name: "To do", category: "todo" },
+    sprintId: null,
+  },
+  createdAt: "2026-05-18T10:00:00.000Z",
+};
+
+const mockWorklog: Worklog = {
+  id: "wl-1",
+  issueId: "issue-1",
+  minutes: 90,
+  date: "2026-05-25",
+  note: "Pairing",
+  user: { id: "user-2", name: "Susan" },
+  createdAt: "2026-05-25T17:00:00.000Z",
+};
+
+const mockCustomField: CustomField = {
+  id: "field-1",
+  boardId: "board-1",
+  name: "Environment",
+  type: "select",
+  options: ["staging", "production"],
+  createdAt: "2026-06-08T09:00:00.000Z",
+};
+
+const mockStatus: Status = {
+  id: "st-review",
+  boardId: "board-1",
+  name: "Code review",
+  category: "in_progress",
+  order: 2000,
+  transitionsTo: [],
+  validators: [],
+  wipMin: null,
+  wipMax: null,
+  wipHard: false,
+  createdAt: "2026-06-29T09:00:00.000Z",
+};
+
+const mockAutomation: AutomationRule = {
+  id: "rule-1",
+  boardId: "board-1",
+  name: "Escalate bugs",
+  enabled: true,
+  trigger: { type: "issue_created" },
+  condition: "type = bug",
+  actions: [{ type: "set_field", field: "priority", value: "high" }],
+  createdById: "user-1",
+  lastRunAt: null,
+  createdAt: "2026-07-20T09:00:00.000Z",
+  updatedAt: "2026-07-20T09:00:00.000Z",
+};
+
+const mockSprintSummary: SprintSummary = {
+  sprintId: "sprint-1",
+  issueCount: 3,
+  unestimatedCount: 1,
+  points: { total: 8, done: 3, byStatus: { "st-todo": 5, "st-done": 3 } },
+  originalEstimate: 960,
+  remainingEstimate: 300,
+  timeSpent: 540,
 };
 
 const handlers = [
@@ -44,6 +191,44 @@ const handlers = [
     });
   }),
 
+  http.get("*/issues/archived", () => {
+    return HttpResponse.json([{ ...mockIssue, archivedAt: "2026-06-10T09:00:00.000Z" }]);
+  }),
+
+  http.get("*/issues/trash", () => {
+    return HttpResponse.json([
+      {
+        ...mockIssue,
+        deletedAt: "2026-06-10T09:00:00.000Z",
+        purgeAt: "2026-07-10T09:00:00.000Z",
+      },
+    ]);
+  }),
+
+  http.delete("*/issues/:id/purge", ({ params }) => {
+    return HttpResponse.json({ id: params.id });
+  }),
+
+  http.delete("*/issues/:id", ({ params }) => {
+    return HttpResponse.json({ id: params.id });
+  }),
+
+  http.post("*/issues/:id/restore", ({ params }) => {
+    return HttpResponse.json({ ...mockIssue, id: params.id });
+  }),
+
+  http.post("*/issues/:id/archive", ({ params }) => {
+    return HttpResponse.json({
+      ...mockIssue,
+      id: params.id,
+      archivedAt: "2026-06-10T09:00:00.000Z",
+    });
+  }),
+
+  http.post("*/issues/:id/unarchive", ({ params }) => {
+    return HttpResponse.json({ ...mockIssue, id: params.id });
+  }),
+
   http.patch("*/issues/batch", async ({ request }) => {
     const body = (await request.json()) as Array<{
       id: string;
@@ -58,9 +243,148 @@ const handlers = [
     );
   }),
 
+  http.get("*/issues/search", ({ request }) => {
+    const q = new URL(request.url).searchParams.get("q");
+    return HttpResponse.json(q === "BOARD" ? [mockIssue] : []);
+  }),
+
+  http.get("*/issues/:issueId/links", () => {
+    return HttpResponse.json([mockLink]);
+  }),
+
+  http.post("*/issues/:issueId/links", async ({ request }) => {
+    const body = (await request.json()) as { relation: string; issueId: string };
+    return HttpResponse.json({ ...mockLink, relation: body.relation });
+  }),
+
+  http.delete("*/issue-links/:id", ({ params }) => {
+    return HttpResponse.json({ id: params.id });
+  }),
+
+  http.get("*/issues/:issueId/worklogs", () => {
+    return HttpResponse.json([mockWorklog]);
+  }),
+
+  http.post("*/issues/:issueId/worklogs", async ({ request }) => {
+    const body = (await request.json()) as { minutes: number; date: string; note: string };
+    return HttpResponse.json({ ...mockWorklog, id: "wl-2", ...body });
+  }),
+
+  http.delete("*/worklogs/:id", ({ params }) => {
+    return HttpResponse.json({ id: params.id });
+  }),
+
+  http.get("*/boards/:boardId/custom-fields", () => {
+    return HttpResponse.json([mockCustomField]);
+  }),
+
+  http.post("*/boards/:boardId/custom-fields", async ({ request }) => {
+    const body = (await request.json()) as Partial<CustomField>;
+    return HttpResponse.json({ ...mockCustomField, id: "field-2", ...body });
+  }),
+
+  http.patch("*/custom-fields/:id", async ({ params, request }) => {
+    const body = (await request.json()) as Partial<CustomField>;
+    return HttpResponse.json({ ...mockCustomField, id: params.id, ...body });
+  }),
+
+  http.delete("*/custom-fields/:id", ({ params }) => {
+    return HttpResponse.json({ id: params.id });
+  }),
+
+  http.get("*/boards/:boardId/statuses", () => {
+    return HttpResponse.json([mockStatus]);
+  }),
+
+  http.post("*/boards/:boardId/statuses", async ({ request }) => {
+    const body = (await request.json()) as Partial<Status>;
+    return HttpResponse.json({ ...mockStatus, id: "st-qa", ...body });
+  }),
+
+  http.patch("*/boards/:boardId/statuses/order", async ({ request }) => {
+    const { ids } = (await request.json()) as { ids: string[] };
+    return HttpResponse.json(
+      ids.map((id, idx) => ({ ...mockStatus, id, order: (idx + 1) * 1000 }))
+    );
+  }),
+
+  http.patch("*/statuses/:id", async ({ params, request }) => {
+    const body = (await request.json()) as Partial<Status>;
+    return HttpResponse.json({ ...mockStatus, id: params.id, ...body });
+  }),
+
+  http.delete("*/statuses/:id", ({ params, request }) => {
+    const moveTo = new URL(request.url).searchParams.get("moveTo");
+    return HttpResponse.json({ id: params.id, moveTo });
+  }),
+
+  http.get("*/boards/:boardId/automations", () => {
+    return HttpResponse.json([mockAutomation]);
+  }),
+
+  http.post("*/boards/:boardId/automations", async ({ request }) => {
+    const body = (await request.json()) as Partial<AutomationRule>;
+    return HttpResponse.json({ ...mockAutomation, id: "rule-2", ...body });
+  }),
+
+  http.get("*/boards/:boardId/automations/runs", ({ request }) => {
+    const ruleId = new URL(request.url).searchParams.get("ruleId");
+    return HttpResponse.json([
+      {
+        id: "run-1",
+        ruleId: ruleId ?? "rule-1",
+        ruleName: "Escalate bugs",
+        issue: { id: "issue-1", key: "BOARD-1", title: "Test Issue" },
+        trigger: "issue_created",
+        outcome: "success",
+        details: ["Set priority to high"],
+        message: null,
+        createdAt: "2026-07-20T09:05:00.000Z",
+      },
+    ]);
+  }),
+
+  http.patch("*/automations/:id", async ({ params, request }) => {
+    const body = (await request.json()) as Partial<AutomationRule>;
+    return HttpResponse.json({ ...mockAutomation, id: params.id, ...body });
+  }),
+
+  http.delete("*/automations/:id", ({ params }) => {
+    return HttpResponse.json({ id: params.id });
+  }),
+
+  http.get("*/boards/:boardId/sprints/:sprintId/summary", () => {
+    return HttpResponse.json(mockSprintSummary);
+  }),
+
+  http.get("*/issues/:id/children", ({ params }) => {
+    return HttpResponse.json([
+      { ...mockIssue, id: "issue-2", key: "BOARD-2", type: "subtask", parentId: params.id },
+    ]);
+  }),
+
+  http.get("*/issues/:id/history", ({ params }) => {
+    return HttpResponse.json([
+      {
+        id: "evt-1",
+        issueId: params.id,
+        field: "statusId",
+        oldValue: "st-todo",
+        newValue: "st-done",
+        createdAt: "2026-04-06T11:00:00.000Z",
+        actor: { id: "user-2", name: "Susan" },
+      },
+    ]);
+  }),
+
   http.patch("*/issues/:id", async ({ params, request }) => {
-    const body = (await request.json()) as Record<string, unknown>;
-    return HttpResponse.json({ ...mockIssue, id: params.id, ...body });
+    const body = (await request.json()) as { patch: Record<string, unknown>; version: number };
+    return HttpResponse.json({
+      ...mockIssue,
+      id: params.id,
+      ...body.patch,
+      version: body.version + 1,
+    });
   }),
 
   http.get("*/boards", () => {
@@ -68,14 +392,112 @@ const handlers = [
   }),
 
   http.post("*/boards", async ({ request }) => {
-    const body = (await request.json()) as { name: string };
-    return HttpResponse.json({ ...mockBoard, id: "new-board", name: body.name });
+    const body = (await request.json()) as { name: string; key?: string };
+    return HttpResponse.json({
+      ...mockBoard,
+      id: "new-board",
+      name: body.name,
+      key: body.key ?? "MY",
+    });
   }),
 
   http.get("*/boards/:boardId/sprints", () => {
     return HttpResponse.json([mockSprint]);
   }),
 
+  http.get("*/boards/:boardId/labels", () => {
+    return HttpResponse.json(["backend", "ui"]);
+  }),
+
+  http.get("*/boards/:boardId/members", () => {
+    return HttpResponse.json([mockMember]);
+  }),
+
+  http.post("*/boards/:boardId/members", async ({ request }) => {
+    const body = (await request.json()) as { userId: string; role: string };
+    return HttpResponse.json({ ...mockMember, ...body });
+  }),
+
+  http.patch("*/boards/:boardId/members/:userId", async ({ params, request }) => {
+    const body = (await request.json()) as { role: string };
+    return HttpResponse.json({ ...mockMember, userId: params.userId, role: body.role });
+  }),
+
+  http.delete("*/boards/:boardId/members/:userId", ({ params }) => {
+    return HttpResponse.json({ userId: params.userId });
+  }),
+
+  http.get("*/users/search", ({ request }) => {
+    const url = new URL(request.url);
+    if (url.searchParams.get("boardId") !== "board-1") return HttpResponse.json([]);
+    return HttpResponse.json([
+      { id: mockMember.userId, name: mockMember.name, email: mockMember.email },
+    ]);
+  }),
+
+  http.get("*/boards/:boardId/invites", () => {
+    return HttpResponse.json([mockInvite]);
+  }),
+
+  http.post("*/boards/:boardId/invites", async ({ request }) => {
+    const body = (await request.json()) as Partial<BoardInvite>;
+    return HttpResponse.json({ ...mockInvite, ...body });
+  }),
+
+  http.delete("*/boards/:boardId/invites/:inviteId", ({ params }) => {
+    return HttpResponse.json({ id: params.inviteId });
+  }),
+
+  http.get("*/invites/:token", () => {
+    return HttpResponse.json({
+      boardId: "board-1",
+      boardName: "Test Board",
+      role: "editor",
+      invitedBy: "Susan",
+      expiresAt: mockInvite.expiresAt,
+    });
+  }),
+
+  http.post("*/invites/:token/accept", () => {
+    return HttpResponse.json({ boardId: "board-1", role: "editor" });
+  }),
+
+  http.get("*/issues/:issueId/attachments", () => {
+    return HttpResponse.json([mockAttachment]);
+  }),
+
+  http.post("*/issues/:issueId/attachments", async ({ request }) => {
+    const contentType = request.headers.get("Content-Type") ?? "";
+    if (!contentType.startsWith("multipart/form-data")) {
+      return HttpResponse.json({ message: "Expected multipart" }, { status: 400 });
+    }
+    const form = await request.formData();
+    if (!form.has("file")) return HttpResponse.json({ message: "No file" }, { status: 400 });
+    return HttpResponse.json({ ...mockAttachment, id: "att-2", filename: "log.txt" });
+  }),
+
+  http.get("*/attachments/:id/content", () => {
+    return new HttpResponse(new Uint8Array([137, 80, 78, 71]), {
+      headers: { "Content-Type": "image/png" },
+    });
+  }),
+
+  http.delete("*/attachments/:id", ({ params }) => {
+    return HttpResponse.json({ id: params.id });
+  }),
+
+  http.get("*/notifications", () => {
+    return HttpResponse.json([mockNotification]);
+  }),
+
+  http.post("*/notifications/read-all", () => {
+    return HttpResponse.json({ ok: true });
+  }),
+
+  http.post("*/notifications/:id/read", () => {
+    return HttpResponse.json({ ok: true });
+  }),
+
   http.post("*/boards/:boardId/sprints", async ({ request }) => {
     const body = (await request.json()) as { name: string };
     return HttpResponse.json({
@@ -85,9 +507,28 @@ const handlers = [
     });
   }),
 
-  http.patch("*/boards/:boardId/active-sprint", async ({ request }) => {
-    const body = (await request.json()) as { sprintId: string };
-    return HttpResponse.json({ ...mockSprint, id: body.sprintId });
+  http.post("*/boards/:boardId/sprints/:sprintId/start", async ({ params, request }) => {
+    const body = (await request.json()) as Record<string, unknown>;
+    return HttpResponse.json({ ...mockSprint, id: params.sprintId, ...body });
+  }),
+
+  http.patch("*/boards/:boardId/sprints/:sprintId", async ({ params, request }) => {
+    const body = (await request.json()) as Record<string, unknown>;
+    return HttpResponse.json({ ...mockSprint, id: params.sprintId, ...body });
+  }),
+
+  http.delete("*/boards/:boardId/sprints/:sprintId", ({ params }) =>
+    HttpResponse.json({ id: params.sprintId, movedCount: 4 })
+  ),
+
+  http.post("*/boards/:boardId/sprints/:sprintId/complete", async ({ params, request }) => {
+    const body = (await request.json()) as { moveTo: string | null };
+    return HttpResponse.json({
+      sprint: { ...mockSprint, id: params.sprintId, state: "closed" },
+      completed: { issueCount: 3, points: 8 },
+      incomplete: { issueCount: 1, points: 2 },
+      movedTo: body.moveTo ? { id: body.moveTo, name: "Sprint 2" } : null,
+    });
   }),
 ];
 
@@ -124,12 +565,20 @@ describe("jiraClient", () => {
       const result = await jiraClient.createIssue({
         boardId: "board-1",
         sprintId: null,
-        status: "backlog",
         order: 1000,
+        type: "task",
+        priority: "medium",
+        labels: [],
         title: "New Issue",
         description: "",
         assigneeId: null,
         watcherIds: [],
+        parentId: null,
+        storyPoints: null,
+        originalEstimate: null,
+        remainingEstimate: null,
+        dueDate: null,
+        customFields: {},
       });
 
       expect(result.title).toBe("New Issue");
@@ -142,22 +591,65 @@ describe("jiraClient", () => {
       const result = await jiraClient.patchIssue({
         id: "issue-1",
         patch: { title: "Updated Title" },
+        version: 1,
       });
 
       expect(result.title).toBe("Updated Title");
       expect(result.id).toBe("issue-1");
+      expect(result.version).toBe(2);
+    });
+
+    it("rejects with the server's copy when someone else changed the issue", async () => {
+      const theirs = { ...mockIssue, title: "Their title", version: 3 };
+      server.use(
+        http.patch("*/issues/:id", () =>
+          HttpResponse.json(
+            { statusCode: 409, message: "Someone else changed this issue", issue: theirs },
+            { status: 409 }
+          )
+        )
+      );
+
+      const err = await jiraClient
+        .patchIssue({ id: "issue-1", patch: { title: "Mine" }, version: 1 })
+        .catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(ApiError);
+      expect(err).toMatchObject({ status: 409, body: { issue: theirs } });
+    });
+  });
+
+  describe("listIssueChildren", () => {
+    it("fetches the direct children of an issue", async () => {
+      const children = await jiraClient.listIssueChildren("issue-1");
+
+      expect(children).toHaveLength(1);
+      expect(children[0]).toMatchObject({ key: "BOARD-2", parentId: "issue-1" });
+    });
+  });
+
+  describe("getIssueHistory", () => {
+    it("fetches the activity stream for an issue", async () => {
+      const events = await jiraClient.getIssueHistory("issue-1");
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        issueId: "issue-1",
+        field: "statusId",
+        newValue: "st-done",
+      });
     });
   });
 
   describe("patchIssuesBatch", () => {
     it("sends batch patch and returns updated issues", async () => {
       const result = await jiraClient.patchIssuesBatch([
-        { id: "issue-1", patch: { status: "done" } },
+        { id: "issue-1", patch: { statusId: "st-done" } },
         { id: "issue-2", patch: { order: 2000 } },
       ]);
 
       expect(result).toHaveLength(2);
-      expect(result[0].status).toBe("done");
+      expect(result[0].statusId).toBe("st-done");
     });
   });
 
@@ -177,6 +669,12 @@ describe("jiraClient", () => {
       expect(board.name).toBe("My Board");
       expect(board.id).toBe("new-board");
     });
+
+    it("sends a custom key prefix", async () => {
+      const board = await jiraClient.createBoard({ name: "Core UI", key: "CORE" });
+
+      expect(board.key).toBe("CORE");
+    });
   });
 
   describe("listSprints", () => {
@@ -188,6 +686,285 @@ describe("jiraClient", () => {
     });
   });
 
+  describe("listBoardLabels", () => {
+    it("fetches the labels in use on a board", async () => {
+      const labels = await jiraClient.listBoardLabels("board-1");
+
+      expect(labels).toEqual(["backend", "ui"]);
+    });
+  });
+
+  describe("board members", () => {
+    it("lists members of a board", async () => {
+      const members = await jiraClient.listMembers("board-1");
+
+      expect(members).toHaveLength(1);
+      expect(members[0].role).toBe("editor");
+    });
+
+    it("adds a member with a role", async () => {
+      const member = await jiraClient.addMember("board-1", { userId: "user-3", role: "viewer" });
+
+      expect(member.userId).toBe("user-3");
+      expect(member.role).toBe("viewer");
+    });
+
+    it("changes a member's role", async () => {
+      const member = await jiraClient.updateMember("board-1", "user-2", { role: "admin" });
+
+      expect(member.role).toBe("admin");
+    });
+
+    it("removes a member", async () => {
+      const result = await jiraClient.removeMember("board-1", "user-2");
+
+      expect(result.userId).toBe("user-2");
+    });
+  });
+
+  describe("searchUsers", () => {
+    it("searches within a board", async () => {
+      const users = await jiraClient.searchUsers({ boardId: "board-1", q: "sus" });
+
+      expect(users).toEqual([{ id: "user-2", name: "Susan", email: "susan@example.com" }]);
+    });
+  });
+
+  describe("board invites", () => {
+    it("lists outstanding invites", async () => {
+      const invites = await jiraClient.listInvites("board-1");
+
+      expect(invites).toHaveLength(1);
+      expect(invites[0].token).toBe("invite-token");
+    });
+
+    it("creates a multi-use invite", async () => {
+      const invite = await jiraClient.createInvite("board-1", {
+        role: "viewer",
+        expiresInHours: 24,
+        maxUses: null,
+      });
+
+      expect(invite.role).toBe("viewer");
+      expect(invite.maxUses).toBeNull();
+    });
+
+    it("revokes an invite", async () => {
+      const result = await jiraClient.revokeInvite("board-1", "invite-1");
+
+      expect(result.id).toBe("invite-1");
+    });
+
+    it("previews and accepts an invite by token", async () => {
+      const preview = await jiraClient.getInvite("invite-token");
+      expect(preview.boardName).toBe("Test Board");
+
+      const result = await jiraClient.acceptInvite("invite-token");
+      expect(result).toEqual({ boardId: "board-1", role: "editor" });
+    });
+  });
+
+  describe("issue links", () => {
+    it("searches issues on a board", async () => {
+      const issues = await jiraClient.searchIssues({ boardId: "board-1", q: "BOARD" });
+
+      expect(issues.map((i) => i.key)).toEqual(["BOARD-1"]);
+    });
+
+    it("lists the links of an issue", async () => {
+      const links = await jiraClient.listIssueLinks("issue-1");
+
+      expect(links).toEqual([mockLink]);
+    });
+
+    it("creates a link phrased from the current issue", async () => {
+      const link = await jiraClient.createIssueLink("issue-1", {
+        relation: "is_blocked_by",
+        issueId: "issue-2",
+      });
+
+      expect(link.relation).toBe("is_blocked_by");
+    });
+
+    it("deletes a link", async () => {
+      await expect(jiraClient.deleteIssueLink("link-1")).resolves.toEqual({ id: "link-1" });
+    });
+  });
+
+  describe("archive and trash", () => {
+    it("deletes, restores and purges an issue", async () => {
+      await expect(jiraClient.deleteIssue("issue-1")).resolves.toEqual({ id: "issue-1" });
+      await expect(jiraClient.restoreIssue("issue-1")).resolves.toMatchObject({
+        id: "issue-1",
+        deletedAt: null,
+      });
+      await expect(jiraClient.purgeIssue("issue-1")).resolves.toEqual({ id: "issue-1" });
+    });
+
+    it("archives and unarchives an issue", async () => {
+      const archived = await jiraClient.archiveIssue("issue-1");
+      expect(archived.archivedAt).not.toBeNull();
+
+      const unarchived = await jiraClient.unarchiveIssue("issue-1");
+      expect(unarchived.archivedAt).toBeNull();
+    });
+
+    it("lists a board's archived issues and trash", async () => {
+      const [archived] = await jiraClient.listArchivedIssues("board-1");
+      expect(archived.archivedAt).toBe("2026-06-10T09:00:00.000Z");
+
+      const [trashed] = await jiraClient.listTrash("board-1");
+      expect(trashed.purgeAt).toBe("2026-07-10T09:00:00.000Z");
+    });
+  });
+
+  describe("custom fields", () => {
+    it("lists a board's fields", async () => {
+      await expect(jiraClient.listCustomFields("board-1")).resolves.toEqual([mockCustomField]);
+    });
+
+    it("creates, updates and deletes a field", async () => {
+      const created = await jiraClient.createCustomField("board-1", {
+        name: "Customer",
+        type: "text",
+        options: [],
+      });
+      expect(created).toMatchObject({ id: "field-2", name: "Customer", type: "text" });
+
+      const updated = await jiraClient.updateCustomField("field-1", { options: ["dev"] });
+      expect(updated.options).toEqual(["dev"]);
+
+      await expect(jiraClient.deleteCustomField("field-1")).resolves.toEqual({ id: "field-1" });
+    });
+  });
+
+  describe("automations", () => {
+    it("lists, creates, updates and deletes rules", async () => {
+      await expect(jiraClient.listAutomations("board-1")).resolves.toEqual([mockAutomation]);
+
+      const created = await jiraClient.createAutomation("board-1", {
+        name: "Watch reviews",
+        trigger: { type: "status_changed", toStatusId: "st-review" },
+        actions: [{ type: "add_watcher", userId: "user-1" }],
+      });
+      expect(created).toMatchObject({ id: "rule-2", name: "Watch reviews" });
+
+      const updated = await jiraClient.updateAutomation("rule-1", { enabled: false });
+      expect(updated.enabled).toBe(false);
+
+      await expect(jiraClient.deleteAutomation("rule-1")).resolves.toEqual({ id: "rule-1" });
+    });
+
+    it("reads the audit log, optionally of one rule", async () => {
+      const [run] = await jiraClient.listAutomationRuns("board-1");
+      expect(run).toMatchObject({ ruleId: "rule-1", outcome: "success" });
+
+      const [ofRule] = await jiraClient.listAutomationRuns("board-1", "rule-7");
+      expect(ofRule.ruleId).toBe("rule-7");
+    });
+  });
+
+  describe("statuses", () => {
+    it("lists a board's statuses", async () => {
+      await expect(jiraClient.listStatuses("board-1")).resolves.toEqual([mockStatus]);
+    });
+
+    it("creates, updates and reorders statuses", async () => {
+      const created = await jiraClient.createStatus("board-1", {
+        name: "QA",
+        category: "in_progress",
+      });
+      expect(created).toMatchObject({ id: "st-qa", name: "QA" });
+
+      const updated = await jiraClient.updateStatus("st-review", { category: "done" });
+      expect(updated.category).toBe("done");
+
+      const reordered = await jiraClient.reorderStatuses("board-1", ["st-qa", "st-review"]);
+      expect(reordered.map((s) => [s.id, s.order])).toEqual([
+        ["st-qa", 1000],
+        ["st-review", 2000],
+      ]);
+    });
+
+    it("sends where the deleted status' issues go", async () => {
+      await expect(jiraClient.deleteStatus("st-review", "st-done")).resolves.toEqual({
+        id: "st-review",
+        moveTo: "st-done",
+      });
+      await expect(jiraClient.deleteStatus("st-qa")).resolves.toEqual({
+        id: "st-qa",
+        moveTo: null,
+      });
+    });
+  });
+
+  describe("worklogs", () => {
+    it("lists the worklogs of an issue", async () => {
+      const worklogs = await jiraClient.listWorklogs("issue-1");
+
+      expect(worklogs).toEqual([mockWorklog]);
+    });
+
+    it("logs work on an issue", async () => {
+      const worklog = await jiraClient.createWorklog("issue-1", {
+        minutes: 30,
+        date: "2026-05-26",
+        note: "",
+      });
+
+      expect(worklog).toMatchObject({ id: "wl-2", minutes: 30, date: "2026-05-26" });
+    });
+
+    it("deletes a worklog", async () => {
+      await expect(jiraClient.deleteWorklog("wl-1")).resolves.toEqual({ id: "wl-1" });
+    });
+
+    it("fetches a sprint's totals", async () => {
+      const summary = await jiraClient.getSprintSummary("board-1", "sprint-1");
+
+      expect(summary).toEqual(mockSprintSummary);
+    });
+  });
+
+  describe("attachments", () => {
+    it("lists attachments of an issue", async () => {
+      const attachments = await jiraClient.listAttachments("issue-1");
+
+      expect(attachments).toEqual([mockAttachment]);
+    });
+
+    it("uploads the file as multipart form data", async () => {
+      const file = new File(["hello"], "log.txt", { type: "text/plain" });
+      const attachment = await jiraClient.uploadAttachment("issue-1", file);
+
+      expect(attachment).toMatchObject({ id: "att-2", filename: "log.txt" });
+    });
+
+    it("downloads the file content as a blob", async () => {
+      const blob = await jiraClient.getAttachmentContent("att-1");
+
+      expect(blob.type).toBe("image/png");
+      expect(blob.size).toBe(4);
+    });
+
+    it("deletes an attachment", async () => {
+      await expect(jiraClient.deleteAttachment("att-1")).resolves.toEqual({ id: "att-1" });
+    });
+  });
+
+  describe("notifications", () => {
+    it("lists the current user's notifications", async () => {
+      const notifications = await jiraClient.listNotifications();
+
+      expect(notifications).toEqual([mockNotification]);
+    });
+
+    it("marks one or all notifications as read", async () => {
+      await expect(jiraClient.markNotificationRead("notif-1")).resolves.toEqual({ ok: true });
+      await expect(jiraClient.markAllNotificationsRead()).resolves.toEqual({ ok: true });
+    });
+  });
+
   describe("createSprint", () => {
     it("creates a new sprint", async () => {
       const sprint = await jiraClient.createSprint("board-1", {
@@ -199,11 +976,57 @@ describe("jiraClient", () => {
     });
   });
 
-  describe("setActiveSprint", () => {
-    it("sets the active sprint for a board", async () => {
-      const sprint = await jiraClient.setActiveSprint("board-1", "sprint-1");
+  describe("startSprint", () => {
+    it("sends the goal and dates", async () => {
+      const sprint = await jiraClient.startSprint("board-1", "sprint-2", {
+        goal: "Ship the login page",
+        startDate: "2026-06-15",
+        endDate: "2026-06-28",
+      });
+
+      expect(sprint.id).toBe("sprint-2");
+      expect(sprint.goal).toBe("Ship the login page");
+      expect(sprint.startDate).toBe("2026-06-15");
+    });
+  });
+
+  describe("updateSprint", () => {
+    it("sends the new name and clears dates with null", async () => {
+      const sprint = await jiraClient.updateSprint("board-1", "sprint-2", {
+        name: "Login sprint",
+        startDate: null,
+        endDate: null,
+      });
 
-      expect(sprint.id).toBe("sprint-1");
+      expect(sprint.name).toBe("Login sprint");
+      expect(sprint.startDate).toBeNull();
+    });
+  });
+
+  describe("deleteSprint", () => {
+    it("reports how many issues went to the backlog", async () => {
+      await expect(jiraClient.deleteSprint("board-1", "sprint-2")).resolves.toEqual({
+        id: "sprint-2",
+        movedCount: 4,
+      });
+    });
+  });
+
+  describe("completeSprint", () => {
+    it("reports completed work and where the rest went", async () => {
+      const report = await jiraClient.completeSprint("board-1", "sprint-1", {
+        moveTo: "sprint-2",
+      });
+
+      expect(report.sprint.state).toBe("closed");
+      expect(report.completed).toEqual({ issueCount: 3, points: 8 });
+      expect(report.movedTo).toEqual({ id: "sprint-2", name: "Sprint 2" });
+    });
+
+    it("moves unfinished work to the backlog when no sprint is given", async () => {
+      const report = await jiraClient.completeSprint("board-1", "sprint-1", { moveTo: null });
+
+      expect(report.movedTo).toBeNull();
     });
   });
 
@@ -212,6 +1035,7 @@ describe("jiraClient", () => {
       const issue = await jiraClient.moveIssue({
         id: "issue-1",
         sprintId: "sprint-2",
+        version: 1,
       });
 
       expect(issue.sprintId).toBe("sprint-2");
@@ -221,6 +1045,7 @@ describe("jiraClient", () => {
       const issue = await jiraClient.moveIssue({
         id: "issue-1",
         sprintId: null,
+        version: 1,
       });
 
       expect(issue.id).toBe("issue-1");
@@ -237,5 +1062,89 @@ describe("jiraClient", () => {
 
       await expect(jiraClient.listBoards()).rejects.toThrow("Internal Server Error");
     });
+
+    it("surfaces the server's JSON error message", async () => {
+      server.use(
+        http.get("*/invites/:token", () => {
+          return HttpResponse.json(
+            { statusCode: 410, message: "Invite has expired" },
+            { status: 410 }
+          );
+        })
+      );
+
+      await expect(jiraClient.getInvite("old-token")).rejects.toThrow("Invite has expired");
+    });
+  });
+
+  describe("token refresh", () => {
+    const user = { id: "user-1", email: "test@example.com", name: "Test" };
+
+    afterEach(() => useAuthStore.getState().logout());
+
+    it("refreshes the access token on 401 and retries the request", async () => {
+      useAuthStore.getState().setAuth("expired", "session-1.old", user);
+
+      server.use(
+        http.get("*/boards", ({ request }) => {
+          if (request.headers.get("Authorization") !== "Bearer fresh") {
+            return new HttpResponse(null, { status: 401 });
+          }
+          return HttpResponse.json([mockBoard]);
+        }),
+        http.post("*/auth/refresh", async ({ request }) => {
+          const body = (await request.json()) as { refreshToken: string };
+          expect(body.refreshToken).toBe("session-1.old");
+          return HttpResponse.json({ token: "fresh", refreshToken: "session-1.new", user });
+        })
+      );
+
+      const boards = await jiraClient.listBoards();
+
+      expect(boards).toHaveLength(1);
+      expect(useAuthStore.getState().token).toBe("fresh");
+      expect(useAuthStore.getState().refreshToken).toBe("session-1.new");
+    });
+
+    it("shares one refresh between concurrent 401s", async () => {
+      useAuthStore.getState().setAuth("expired", "session-1.old", user);
+      let refreshCalls = 0;
+
+      server.use(
+        http.get("*/boards", ({ request }) =>
+          request.headers.get("Authorization") === "Bearer fresh"
+            ? HttpResponse.json([mockBoard])
+            : new HttpResponse(null, { status: 401 })
+        ),
+        http.get("*/boards/:boardId/sprints", ({ request }) =>
+          request.headers.get("Authorization") === "Bearer fresh"
+            ? HttpResponse.json([mockSprint])
+            : new HttpResponse(null, { status: 401 })
+        ),
+        http.post("*/auth/refresh", () => {
+          refreshCalls++;
+          return HttpResponse.json({ token: "fresh", refreshToken: "session-1.new", user });
+        })
+      );
+
+      await Promise.all([jiraClient.listBoards(), jiraClient.listSprints("board-1")]);
+
+      expect(refreshCalls).toBe(1);
+    });
+
+    it("clears the session when the refresh fails", async () => {
+      useAuthStore.getState().setAuth("expired", "session-1.revoked", user);
+
+      server.use(
+        http.get("*/boards", () => new HttpResponse(null, { status: 401 })),
+        http.post("*/auth/refresh", () =>
+          HttpResponse.json({ message: "Session expired" }, { status: 401 })
+        )
+      );
+
+      await expect(jiraClient.listBoards()).rejects.toThrow("Unauthorized");
+      expect(useAuthStore.getState().token).toBeNull();
+      expect(useAuthStore.getState().refreshToken).toBeNull();
+    });
   });
 });
@@ -1,34 +1,104 @@
-import type { Board, Issue, Sprint } from "../domain/types";
+import type {
+  Attachment,
+  AutomationAction,
+  AutomationRule,
+  AutomationRun,
+  AutomationTrigger,
+  Board,
+  BoardInvite,
+  BoardMember,
+  BoardRole,
+  Comment,
+  CustomField,
+  CustomFieldType,
+  InvitePreview,
+  Issue,
+  IssueEvent,
+  IssueLink,
+  IssueLinkRelation,
+  LinkedIssue,
+  Notification,
+  Sprint,
+  SprintCompletion,
+  SprintSummary,
+  Status,
+  StatusCategory,
+  StatusValidator,
+  UserSummary,
+  Worklog,
+} from "../domain/types";
 import { useAuthStore } from "@/features/auth/authStore";
+import { refreshAccessToken } from "@/features/auth/session";
 
 const API_BASE = import.meta.env.VITE_API_URL ?? "";
 type Json = Record<string, unknown>;
 
-async function http<T>(url: string, init?: RequestInit): Promise<T> {
+/** A non-2xx response; `body` is the parsed JSON error, when there is one. */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(message: string, status: number, body: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+async function request(url: string, init?: RequestInit, retried = false): Promise<Response> {
   const token = useAuthStore.getState().token;
   const authHeaders: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+  // FormData bodies need the browser to set the multipart boundary itself.
+  const contentHeaders: Record<string, string> =
+    init?.body instanceof FormData ? {} : { "Content-Type": "application/json" };
 
   const res = await fetch(`${API_BASE}${url}`, {
     ...init,
     headers: {
-      "Content-Type": "application/json",
+      ...contentHeaders,
       ...authHeaders,
       ...(init?.headers ?? {}),
     },
   });
 
   if (res.status === 401) {
+    // Access tokens are short-lived: renew once and replay the request so
+    // in-flight edits survive. Only a failed refresh ends the session, and
+    // ProtectedRoute takes care of navigating to /login.
+    if (!retried && (await refreshAccessToken())) {
+      return request(url, init, true);
+    }
     useAuthStore.getState().logout();
-    window.location.href = "/login";
     throw new Error("Unauthorized");
   }
 
-  if (!res.ok) throw new Error(await res.text());
+  if (!res.ok) {
+    const text = await res.text();
+    let body: unknown = null;
+    let message: string;
+    try {
+      body = JSON.parse(text);
+      message = (body as { message?: string }).message ?? text;
+    } catch {
+      message = text;
+    }
+    throw new ApiError(message, res.status, body);
+  }
+  return res;
+}
+
+async function http<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await request(url, init);
   return res.json();
 }
 
-export type CreateIssueInput = Omit<Issue, "id" | "key">;
-export type PatchIssueInput = { id: string; patch: Partial<Issue> };
+// Without a status the server starts the issue in the board's initial one.
+export type CreateIssueInput = Omit<
+  Issue,
+  "id" | "key" | "statusId" | "status" | "archivedAt" | "deletedAt" | "version"
+> & { statusId?: string };
+export type PatchIssueInput = { id: string; patch: Partial<Issue>; version?: number };
 export type BatchPatchInput = Array<PatchIssueInput>;
 
 export const jiraClient = {
@@ -48,9 +118,115 @@ export const jiraClient = {
   patchIssue(args: PatchIssueInput) {
     return http<Issue>(`/issues/${args.id}`, {
       method: "PATCH",
-      body: JSON.stringify(args.patch satisfies Json),
+      body: JSON.stringify(args satisfies Json),
+    });
+  },
+
+  deleteIssue(id: string) {
+    return http<{ id: string }>(`/issues/${id}`, { method: "DELETE" });
+  },
+  restoreIssue(id: string) {
+    return http<Issue>(`/issues/${id}/restore`, { method: "POST" });
+  },
+  purgeIssue(id: string) {
+    return http<{ id: string }>(`/issues/${id}/purge`, { method: "DELETE" });
+  },
+  archiveIssue(id: string) {
+    return http<Issue>(`/issues/${id}/archive`, { method: "POST" });
+  },
+  unarchiveIssue(id: string) {
+    return http<Issue>(`/issues/${id}/unarchive`, { method: "POST" });
+  },
+  listArchivedIssues(boardId: string) {
+    return http<Issue[]>(`/issues/archived?${new URLSearchParams({ boardId })}`);
+  },
+  listTrash(boardId: string) {
+    return http<Issue[]>(`/issues/trash?${new URLSearchParams({ boardId })}`);
+  },
+
+  getIssueHistory(id: string) {
+    return http<IssueEvent[]>(`/issues/${id}/history`);
+  },
+
+  listIssueChildren(id: string) {
+    return http<Issue[]>(`/issues/${id}/children`);
+  },
+
+  searchIssues(args: { boardId: string; q: string }, signal?: AbortSignal) {
+    const qs = new URLSearchParams({ boardId: args.boardId, q: args.q });
+    return http<LinkedIssue[]>(`/issues/search?${qs.toString()}`, { signal });
+  },
+
+  listIssueLinks(issueId: string) {
+    return http<IssueLink[]>(`/issues/${issueId}/links`);
+  },
+  createIssueLink(issueId: string, input: { relation: IssueLinkRelation; issueId: string }) {
+    return http<IssueLink>(`/issues/${issueId}/links`, {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  },
+  deleteIssueLink(id: string) {
+    return http<{ id: string }>(`/issue-links/${id}`, { method: "DELETE" });
+  },
+
+  listComments(issueId: string) {
+    return http<Comment[]>(`/issues/${issueId}/comments`);
+  },
+  createComment(issueId: string, args: { body: string; parentId: string | null }) {
+    return http<Comment>(`/issues/${issueId}/comments`, {
+      method: "POST",
+      body: JSON.stringify(args),
+    });
+  },
+  updateComment(id: string, args: { body: string }) {
+    return http<Comment>(`/comments/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(args),
+    });
+  },
+  deleteComment(id: string) {
+    return http<Comment>(`/comments/${id}`, { method: "DELETE" });
+  },
+
+  listAttachments(issueId: string) {
+    return http<Attachment[]>(`/issues/${issueId}/attachments`);
+  },
+  uploadAttachment(issueId: string, file: File) {
+    const body = new FormData();
+    body.append("file", file);
+    return http<Attachment>(`/issues/${issueId}/attachments`, { method: "POST", body });
+  },
+  async getAttachmentContent(id: string, signal?: AbortSignal) {
+    const res = await request(`/attachments/${id}/content`, { signal });
+    return res.blob();
+  },
+  deleteAttachment(id: string) {
+    return http<{ id: string }>(`/attachments/${id}`, { method: "DELETE" });
+  },
+
+  listWorklogs(issueId: string) {
+    return http<Worklog[]>(`/issues/${issueId}/worklogs`);
+  },
+  createWorklog(issueId: string, input: { minutes: number; date: string; note: string }) {
+    return http<Worklog>(`/issues/${issueId}/worklogs`, {
+      method: "POST",
+      body: JSON.stringify(input),
     });
   },
+  deleteWorklog(id: string) {
+    return http<{ id: string }>(`/worklogs/${id}`, { method: "DELETE" });
+  },
+
+  listNotifications() {
+    return http<Notification[]>(`/notifications`);
+  },
+  markNotificationRead(id: string) {
+    return http<{ ok: true }>(`/notifications/${id}/read`, { method: "POST" });
+  },
+  markAllNotificationsRead() {
+    return http<{ ok: true }>(`/notifications/read-all`, { method: "POST" });
+  },
 
   patchIssuesBatch(changes: BatchPatchInput) {
     return http<Issue[]>(`/issues/batch`, {
@@ -62,31 +238,227 @@ export const jiraClient = {
   listBoards() {
     return http<Board[]>(`/boards`);
   },
-  createBoard(args: { name: string }) {
+  createBoard(args: { name: string; key?: string }) {
     return http<Board>(`/boards`, {
       method: "POST",
       body: JSON.stringify(args),
     });
   },
-  listSprints(boardId: string) {
-    return http<Sprint[]>(`/boards/${boardId}/sprints`);
+  searchUsers(args: { boardId: string; q: string }, signal?: AbortSignal) {
+    const qs = new URLSearchParams({ boardId: args.boardId, q: args.q });
+    return http<UserSummary[]>(`/users/search?${qs.toString()}`, { signal });
   },
-  setActiveSprint(boardId: string, sprintId: string) {
-    return http<Sprint>(`/boards/${boardId}/active-sprint`, {
+  listMembers(boardId: string) {
+    return http<BoardMember[]>(`/boards/${boardId}/members`);
+  },
+  addMember(boardId: string, args: { userId: string; role: BoardRole }) {
+    return http<BoardMember>(`/boards/${boardId}/members`, {
+      method: "POST",
+      body: JSON.stringify(args satisfies Json),
+    });
+  },
+  updateMember(boardId: string, userId: string, args: { role: BoardRole }) {
+    return http<BoardMember>(`/boards/${boardId}/members/${userId}`, {
       method: "PATCH",
-      body: JSON.stringify({ sprintId } satisfies Json),
+      body: JSON.stringify(args satisfies Json),
     });
   },
-  moveIssue(args: { id: string; sprintId: string | null }) {
-    return http<Issue>(`/issues/${args.id}`, {
+  removeMember(boardId: string, userId: string) {
+    return http<{ userId: string }>(`/boards/${boardId}/members/${userId}`, {
+      method: "DELETE",
+    });
+  },
+  listInvites(boardId: string) {
+    return http<BoardInvite[]>(`/boards/${boardId}/invites`);
+  },
+  createInvite(
+    boardId: string,
+    args: { role: BoardRole; expiresInHours: number; maxUses: number | null }
+  ) {
+    return http<BoardInvite>(`/boards/${boardId}/invites`, {
+      method: "POST",
+      body: JSON.stringify(args satisfies Json),
+    });
+  },
+  revokeInvite(boardId: string, inviteId: string) {
+    return http<{ id: string }>(`/boards/${boardId}/invites/${inviteId}`, {
+      method: "DELETE",
+    });
+  },
+  getInvite(token: string) {
+    return http<InvitePreview>(`/invites/${encodeURIComponent(token)}`);
+  },
+  acceptInvite(token: string) {
+    return http<{ boardId: string; role: BoardRole }>(
+      `/invites/${encodeURIComponent(token)}/accept`,
+      { method: "POST" }
+    );
+  },
+  listBoardLabels(boardId: string) {
+    return http<string[]>(`/boards/${boardId}/labels`);
+  },
+  listCustomFields(boardId: string) {
+    return http<CustomField[]>(`/boards/${boardId}/custom-fields`);
+  },
+  createCustomField(
+    boardId: string,
+    args: { name: string; type: CustomFieldType; options: string[] }
+  ) {
+    return http<CustomField>(`/boards/${boardId}/custom-fields`, {
+      method: "POST",
+      body: JSON.stringify(args satisfies Json),
+    });
+  },
+  updateCustomField(id: string, args: { name?: string; options?: string[] }) {
+    return http<CustomField>(`/custom-fields/${id}`, {
       method: "PATCH",
-      body: JSON.stringify({ sprintId: args.sprintId } satisfies Json),
+      body: JSON.stringify(args satisfies Json),
+    });
+  },
+  deleteCustomField(id: string) {
+    return http<{ id: string }>(`/custom-fields/${id}`, { method: "DELETE" });
+  },
+  listStatuses(boardId: string) {
+    return http<Status[]>(`/boards/${boardId}/statuses`);
+  },
+  createStatus(boardId: string, args: { name: string; category: StatusCategory }) {
+    return http<Status>(`/boards/${boardId}/statuses`, {
+      method: "POST",
+      body: JSON.stringify(args satisfies Json),
     });
   },
-  createSprint(boardId: string, args: { name: string }) {
+  updateStatus(
+    id: string,
+    args: {
+      name?: string;
+      category?: StatusCategory;
+      transitionsTo?: string[];
+      validators?: StatusValidator[];
+      wipMin?: number | null;
+      wipMax?: number | null;
+      wipHard?: boolean;
+    }
+  ) {
+    return http<Status>(`/statuses/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(args satisfies Json),
+    });
+  },
+  reorderStatuses(boardId: string, ids: string[]) {
+    return http<Status[]>(`/boards/${boardId}/statuses/order`, {
+      method: "PATCH",
+      body: JSON.stringify({ ids } satisfies Json),
+    });
+  },
+  // Issues still in the status move to `moveTo`.
+  deleteStatus(id: string, moveTo?: string) {
+    const qs = moveTo ? `?${new URLSearchParams({ moveTo }).toString()}` : "";
+    return http<{ id: string }>(`/statuses/${id}${qs}`, { method: "DELETE" });
+  },
+  listAutomations(boardId: string) {
+    return http<AutomationRule[]>(`/boards/${boardId}/automations`);
+  },
+  createAutomation(
+    boardId: string,
+    args: {
+      name: string;
+      enabled?: boolean;
+      trigger: AutomationTrigger;
+      condition?: string;
+      actions: AutomationAction[];
+    }
+  ) {
+    return http<AutomationRule>(`/boards/${boardId}/automations`, {
+      method: "POST",
+      body: JSON.stringify(args satisfies Json),
+    });
+  },
+  updateAutomation(
+    id: string,
+    args: {
+      name?: string;
+      enabled?: boolean;
+      trigger?: AutomationTrigger;
+      condition?: string;
+      actions?: AutomationAction[];
+    }
+  ) {
+    return http<AutomationRule>(`/automations/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(args satisfies Json),
+    });
+  },
+  deleteAutomation(id: string) {
+    return http<{ id: string }>(`/automations/${id}`, { method: "DELETE" });
+  },
+  // The board's latest runs, newest first, optionally of one rule.
+  listAutomationRuns(boardId: string, ruleId?: string) {
+    const qs = ruleId ? `?${new URLSearchParams({ ruleId }).toString()}` : "";
+    return http<AutomationRun[]>(`/boards/${boardId}/automations/runs${qs}`);
+  },
+
+  listSprints(boardId: string) {
+    return http<Sprint[]>(`/boards/${boardId}/sprints`);
+  },
+  getSprintSummary(boardId: string, sprintId: string) {
+    return http<SprintSummary>(`/boards/${boardId}/sprints/${sprintId}/summary`);
+  },
+  startSprint(
+    boardId: string,
+    sprintId: string,
+    args: { goal?: string | null; startDate: string; endDate: string }
+  ) {
+    return http<Sprint>(`/boards/${boardId}/sprints/${sprintId}/start`, {
+      method: "POST",
+      body: JSON.stringify(args satisfies Json),
+    });
+  },
+  // Unfinished issues go to the planned sprint `moveTo`, or the backlog when it is null.
+  completeSprint(boardId: string, sprintId: string, args: { moveTo: string | null }) {
+    return http<SprintCompletion>(`/boards/${boardId}/sprints/${sprintId}/complete`, {
+      method: "POST",
+      body: JSON.stringify(args satisfies Json),
+    });
+  },
+  moveIssue(args: { id: string; sprintId: string | null; version: number }) {
+    return this.patchIssue({
+      id: args.id,
+      patch: { sprintId: args.sprintId },
+      version: args.version,
+    });
+  },
+  createSprint(boardId: string, args: { name: string; goal?: string | null }) {
     return http<Sprint>(`/boards/${boardId}/sprints`, {
       method: "POST",
       body: JSON.stringify(args),
     });
   },
+  // A null date clears it; only planned sprints may go without dates.
+  updateSprint(
+    boardId: string,
+    sprintId: string,
+    patch: {
+      name?: string;
+      goal?: string | null;
+      startDate?: string | null;
+      endDate?: string | null;
+    }
+  ) {
+    return http<Sprint>(`/boards/${boardId}/sprints/${sprintId}`, {
+      method: "PATCH",
+      body: JSON.stringify(patch satisfies Json),
+    });
+  },
+  reorderSprints(boardId: string, ids: string[]) {
+    return http<Sprint[]>(`/boards/${boardId}/sprints/order`, {
+      method: "PATCH",
+      body: JSON.stringify({ ids } satisfies Json),
+    });
+  },
+  // The sprint's issues go to the backlog.
+  deleteSprint(boardId: string, sprintId: string) {
+    return http<{ id: string; movedCount: number }>(`/boards/${boardId}/sprints/${sprintId}`, {
+      method: "DELETE",
+    });
+  },
 };
@@ -9,13 +9,51 @@ import {
   jiraKeys,
   useCreateBoard,
   useCreateSprint,
-  useSetActiveSprint,
+  useStartSprint,
+  useReorderSprints,
+  useDeleteSprint,
   usePatchIssue,
   useBatchPatchIssues,
   useCreateIssue,
   useMoveIssue,
+  useRankIssues,
+  useUpdateBoardMember,
+  useRemoveBoardMember,
+  useCreateComment,
+  useDeleteComment,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  useUploadAttachment,
+  useDeleteAttachment,
+  useCreateIssueLink,
+  useDeleteIssueLink,
+  useCreateWorklog,
+  useDeleteWorklog,
+  useCreateCustomField,
+  useDeleteCustomField,
+  useReorderStatuses,
+  useDeleteStatus,
+  useUpdateAutomation,
+  useDeleteIssue,
+  useRestoreIssue,
 } from "./jira.queries";
-import type { Board, Issue, Sprint } from "../domain/types";
+import type {
+  Attachment,
+  AutomationRule,
+  Board,
+  BoardMember,
+  Comment,
+  CustomField,
+  Issue,
+  IssueLink,
+  Notification,
+  Sprint,
+  Status,
+  Worklog,
+} from "../domain/types";
+import { useAuthStore } from "@/features/auth/authStore";
+import { useToastStore } from "@/stores/toastStore";
+import { useJiraStore } from "../store/jiraStore";
 
 // ---------------------------------------------------------------------------
 // Test data
@@ -26,13 +64,23 @@ const mockSprint: Sprint = {
   id: "sprint-1",
   boardId: "board-1",
   name: "Sprint 1",
-  isActive: true,
+  goal: null,
+  state: "active",
+  order: 1000,
+  startDate: "2026-06-01T00:00:00.000Z",
+  endDate: "2026-06-14T00:00:00.000Z",
+  completedAt: null,
 };
 const mockSprint2: Sprint = {
   id: "sprint-2",
   boardId: "board-1",
   name: "Sprint 2",
-  isActive: false,
+  goal: null,
+  state: "planned",
+  order: 2000,
+  startDate: null,
+  endDate: null,
+  completedAt: null,
 };
 
 const mockIssue: Issue = {
@@ -40,17 +88,145 @@ const mockIssue: Issue = {
   key: "BOARD-1",
   boardId: "board-1",
   sprintId: "sprint-1",
-  status: "todo",
+  statusId: "st-todo",
+  status: { id: "st-todo", name: "To do", category: "todo" },
   order: 1000,
+  type: "task",
+  priority: "medium",
+  labels: [],
   title: "Test Issue",
   description: "A test issue",
   assigneeId: null,
   watcherIds: [],
+  parentId: null,
+  storyPoints: null,
+  originalEstimate: null,
+  remainingEstimate: null,
+  dueDate: null,
+  customFields: {},
+  archivedAt: null,
+  deletedAt: null,
+  version: 1,
+};
+
+const mockAdmin: BoardMember = {
+  userId: "user-1",
+  name: "Demo User",
+  email: "demo@example.com",
+  role: "admin",
+};
+const mockEditor: BoardMember = {
+  userId: "user-2",
+  name: "Susan",
+  email: "susan@example.com",
+  role: "editor",
+};
+
+const mockComment: Comment = {
+  id: "comment-1",
+  issueId: "issue-1",
+  parentId: null,
+  author: { id: "user-2", name: "Susan" },
+  body: "First!",
+  createdAt: "2026-04-13T09:00:00.000Z",
+  editedAt: null,
+  deletedAt: null,
+};
+
+const mockNotification: Notification = {
+  id: "notif-1",
+  kind: "mention",
+  actor: { id: "user-2", name: "Susan" },
+  issue: {
+    id: "issue-1",
+    key: "BOARD-1",
+    title: "Test Issue",
+    boardId: "board-1",
+    sprintId: "sprint-1",
+  },
+  commentId: null,
+  readAt: null,
+  createdAt: "2026-04-20T09:30:00.000Z",
+};
+
+const mockAttachment: Attachment = {
+  id: "att-1",
+  issueId: "issue-1",
+  filename: "screenshot.png",
+  contentType: "image/png",
+  size: 2048,
+  uploader: { id: "user-2", name: "Susan" },
+  createdAt: "2026-04-27T10:00:00.000Z",
+};
+
+const mockLink: IssueLink = {
+  id: "link-1",
+  relation: "blocks",
+  issue: {
+    id: "issue-2",
+    key: "BOARD-2",
+    title: "Blocked work",
+    type: "task",
+    status: { id: "st-todo", name: "To do", category: "todo" },
+    sprintId: "sprint-1",
+  },
+  createdAt: "2026-05-18T10:00:00.000Z",
 };
 
 // ---------------------------------------------------------------------------
 // MSW handlers (success by default)
 // ---------------------------------------------------------------------------
+const mockWorklog: Worklog = {
+  id: "wl-1",
+  issueId: "issue-1",
+  minutes: 90,
+  date: "2026-05-25",
+  note: "",
+  user: { id: "user-2", name: "Susan" },
+  createdAt: "2026-05-25T17:00:00.000Z",
+};
+
+const mockCustomField: CustomField = {
+  id: "field-1",
+  boardId: "board-1",
+  name: "Environment",
+  type: "select",
+  options: ["staging", "production"],
+  createdAt: "2026-06-08T09:00:00.000Z",
+};
+
+const mockAutomation: AutomationRule = {
+  id: "rule-1",
+  boardId: "board-1",
+  name: "Escalate bugs",
+  enabled: true,
+  trigger: { type: "issue_created" },
+  condition: "",
+  actions: [{ type: "set_field", field: "priority", value: "high" }],
+  createdById: "user-1",
+  lastRunAt: null,
+  createdAt: "2026-07-20T09:00:00.000Z",
+  updatedAt: "2026-07-20T09:00:00.000Z",
+};
+
+const mockStatuses: Status[] = [
+  ["st-todo", "To do", "todo"] as const,
+  ["st-review", "Code review", "in_progress"] as const,
+  ["st-done", "Done", "done"] as const,
+].map(([id, name, category], idx) => ({
+  id,
+  boardId: "board-1",
+  name,
+  category,
+  order: (idx + 1) * 1000,
+  transitionsTo: [],
+  validators: [],
+  wipMin: null,
+  wipMax: null,
+  wipHard: false,
+  createdAt: "2026-06-29T09:00:00.000Z",
+}));
+
 const handlers = [
   http.post("*/boards", async ({ request }) => {
     const body = (await request.json()) as { name: string };
@@ -63,15 +239,33 @@ const handlers = [
       id: "server-sprint",
       boardId: "board-1",
       name: body.name,
-      isActive: false,
+      goal: null,
+      state: "planned",
+      order: 3000,
+      startDate: null,
+      endDate: null,
+      completedAt: null,
     });
   }),
 
-  http.patch("*/boards/:boardId/active-sprint", async ({ request }) => {
-    const body = (await request.json()) as { sprintId: string };
-    return HttpResponse.json({ ...mockSprint2, id: body.sprintId, isActive: true });
+  http.post("*/boards/:boardId/sprints/:sprintId/start", async ({ params, request }) => {
+    const body = (await request.json()) as Record<string, unknown>;
+    return HttpResponse.json({ ...mockSprint2, id: params.sprintId, state: "active", ...body });
+  }),
+
+  http.patch("*/boards/:boardId/sprints/order", async ({ request }) => {
+    // The server answers with every sprint of the board, the active one first.
+    const { ids } = (await request.json()) as { ids: string[] };
+    return HttpResponse.json([
+      mockSprint,
+      ...ids.map((id, idx) => ({ ...mockSprint2, id, order: (idx + 2) * 1000 })),
+    ]);
   }),
 
+  http.delete("*/boards/:boardId/sprints/:sprintId", ({ params }) =>
+    HttpResponse.json({ id: params.sprintId, movedCount: 0 })
+  ),
+
   http.post("*/issues", async ({ request }) => {
     const body = (await request.json()) as Record<string, unknown>;
     return HttpResponse.json({ ...mockIssue, id: "server-issue", key: "BOARD-2", ...body });
@@ -82,15 +276,90 @@ const handlers = [
     return HttpResponse.json(body.map((c) => ({ ...mockIssue, ...c.patch, id: c.id })));
   }),
 
+  http.delete("*/issues/:id", ({ params }) => HttpResponse.json({ id: params.id })),
+
+  http.post("*/issues/:id/restore", ({ params }) =>
+    HttpResponse.json({ ...mockIssue, id: params.id })
+  ),
+
   http.patch("*/issues/:id", async ({ params, request }) => {
-    const body = (await request.json()) as Record<string, unknown>;
-    return HttpResponse.json({ ...mockIssue, id: params.id, ...body });
+    const body = (await request.json()) as { patch: Record<string, unknown>; version: number };
+    return HttpResponse.json({
+      ...mockIssue,
+      id: params.id,
+      ...body.patch,
+      version: body.version + 1,
+    });
+  }),
+
+  http.patch("*/boards/:boardId/members/:userId", async ({ params, request }) => {
+    const body = (await request.json()) as { role: string };
+    return HttpResponse.json({ ...mockEditor, userId: params.userId, role: body.role });
+  }),
+
+  http.delete("*/boards/:boardId/members/:userId", ({ params }) =>
+    HttpResponse.json({ userId: params.userId })
+  ),
+
+  http.post("*/issues/:issueId/comments", async ({ params, request }) => {
+    const body = (await request.json()) as { body: string; parentId: string | null };
+    return HttpResponse.json({
+      ...mockComment,
+      id: "server-comment",
+      issueId: params.issueId,
+      author: { id: "user-1", name: "Demo User" },
+      ...body,
+    });
+  }),
+
+  http.delete("*/comments/:id", ({ params }) =>
+    HttpResponse.json({
+      ...mockComment,
+      id: params.id,
+      body: "",
+      deletedAt: "2026-04-13T10:00:00.000Z",
+    })
+  ),
+
+  http.post("*/notifications/read-all", () => HttpResponse.json({ ok: true })),
+  http.post("*/notifications/:id/read", () => HttpResponse.json({ ok: true })),
+
+  http.post("*/issues/:issueId/attachments", () =>
+    HttpResponse.json({ ...mockAttachment, id: "att-2", filename: "log.txt" })
+  ),
+  http.delete("*/attachments/:id", ({ params }) => HttpResponse.json({ id: params.id })),
+  http.post("*/issues/:issueId/links", async ({ request }) => {
+    const body = (await request.json()) as { relation: string; issueId: string };
+    return HttpResponse.json({
+      ...mockLink,
+      id: "link-2",
+      relation: body.relation,
+      issue: { ...mockLink.issue, id: body.issueId },
+    });
+  }),
+  http.delete("*/issue-links/:id", ({ params }) => HttpResponse.json({ id: params.id })),
+  http.post("*/issues/:issueId/worklogs", async ({ request }) => {
+    const body = (await request.json()) as { minutes: number; date: string; note: string };
+    return HttpResponse.json({ ...mockWorklog, id: "wl-2", ...body });
+  }),
+  http.delete("*/worklogs/:id", ({ params }) => HttpResponse.json({ id: params.id })),
+  http.post("*/boards/:boardId/custom-fields", async ({ request }) => {
+    const body = (await request.json()) as Partial<CustomField>;
+    return HttpResponse.json({ ...mockCustomField, id: "field-2", ...body });
   }),
 
   // GET endpoints for refetch after invalidation
+  http.get("*/issues/:issueId/comments", () => HttpResponse.json([mockComment])),
   http.get("*/boards", () => HttpResponse.json([mockBoard])),
   http.get("*/boards/:boardId/sprints", () => HttpResponse.json([mockSprint, mockSprint2])),
+  http.get("*/boards/:boardId/members", () => HttpResponse.json([mockAdmin, mockEditor])),
   http.get("*/issues", () => HttpResponse.json([mockIssue])),
+  http.get("*/issues/:id/history", () => HttpResponse.json([])),
+  http.get("*/notifications", () => HttpResponse.json([mockNotification])),
+  http.get("*/issues/:issueId/attachments", () => HttpResponse.json([mockAttachment])),
+  http.get("*/issues/:issueId/worklogs", () => HttpResponse.json([mockWorklog])),
+  http.get("*/boards/:boardId/custom-fields", () => HttpResponse.json([mockCustomField])),
+  http.get("*/boards/:boardId/statuses", () => HttpResponse.json(mockStatuses)),
 ];
 
 const server = setupServer(...handlers);
@@ -183,7 +452,7 @@ describe("useCreateSprint", () => {
       const sprints = qc.getQueryData<Sprint[]>(jiraKeys.sprints("board-1"))!;
       expect(sprints).toHaveLength(2);
       expect(sprints[1].name).toBe("Sprint 3");
-      expect(sprints[1].isActive).toBe(false);
+      expect(sprints[1].state).toBe("planned");
     });
 
     await waitFor(() => expect(result.current.isSuccess).toBe(true));
@@ -214,14 +483,121 @@ describe("useCreateSprint", () => {
 });
 
 // ---------------------------------------------------------------------------
-// useSetActiveSprint
+// useStartSprint
+// ---------------------------------------------------------------------------
+describe("useStartSprint", () => {
+  const completed = { ...mockSprint, state: "closed" as const };
+
+  it("optimistically starts the sprint with its goal and dates", async () => {
+    const qc = createTestQueryClient();
+    qc.setQueryData<Sprint[]>(jiraKeys.sprints("board-1"), [completed, mockSprint2]);
+
+    const { result } = renderHook(() => useStartSprint("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({
+      sprintId: "sprint-2",
+      goal: "Ship it",
+      startDate: "2026-06-15",
+      endDate: "2026-06-28",
+    });
+
+    await waitFor(() => {
+      const sprint = qc
+        .getQueryData<Sprint[]>(jiraKeys.sprints("board-1"))!
+        .find((s) => s.id === "sprint-2")!;
+      expect(sprint.state).toBe("active");
+      expect(sprint.goal).toBe("Ship it");
+      expect(sprint.endDate).toBe("2026-06-28");
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  });
+
+  it("rolls back when another sprint is still active", async () => {
+    server.use(
+      http.post("*/boards/:boardId/sprints/:sprintId/start", () =>
+        HttpResponse.json(
+          { message: "Complete Sprint 1 before starting another sprint" },
+          { status: 409 }
+        )
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Sprint[]>(jiraKeys.sprints("board-1"), [mockSprint, mockSprint2]);
+
+    const { result } = renderHook(() => useStartSprint("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ sprintId: "sprint-2", startDate: "2026-06-15", endDate: "2026-06-28" });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    const sprints = qc.getQueryData<Sprint[]>(jiraKeys.sprints("board-1"))!;
+    expect(sprints.find((s) => s.id === "sprint-1")!.state).toBe("active");
+    expect(sprints.find((s) => s.id === "sprint-2")!.state).toBe("planned");
+    expect(sprints.find((s) => s.id === "sprint-2")!.startDate).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// useReorderSprints
+// ---------------------------------------------------------------------------
+describe("useReorderSprints", () => {
+  const sprint3: Sprint = { ...mockSprint2, id: "sprint-3", name: "Sprint 3", order: 3000 };
+
+  it("optimistically swaps planned sprints and keeps the active one first", async () => {
+    const qc = createTestQueryClient();
+    qc.setQueryData<Sprint[]>(jiraKeys.sprints("board-1"), [mockSprint, mockSprint2, sprint3]);
+
+    const { result } = renderHook(() => useReorderSprints("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ ids: ["sprint-3", "sprint-2"] });
+
+    await waitFor(() => {
+      const sprints = qc.getQueryData<Sprint[]>(jiraKeys.sprints("board-1"))!;
+      expect(sprints.map((s) => s.id)).toEqual(["sprint-1", "sprint-3", "sprint-2"]);
+      expect(sprints.map((s) => s.order)).toEqual([1000, 2000, 3000]);
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  });
+
+  it("rolls back on server error", async () => {
+    server.use(
+      http.patch("*/boards/:boardId/sprints/order", () =>
+        HttpResponse.json({ message: "fail" }, { status: 500 })
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Sprint[]>(jiraKeys.sprints("board-1"), [mockSprint2, sprint3]);
+
+    const { result } = renderHook(() => useReorderSprints("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ ids: ["sprint-3", "sprint-2"] });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<Sprint[]>(jiraKeys.sprints("board-1"))).toEqual([mockSprint2, sprint3]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// useDeleteSprint
 // ---------------------------------------------------------------------------
-describe("useSetActiveSprint", () => {
-  it("optimistically toggles the active sprint", async () => {
+describe("useDeleteSprint", () => {
+  it("optimistically removes the sprint", async () => {
     const qc = createTestQueryClient();
     qc.setQueryData<Sprint[]>(jiraKeys.sprints("board-1"), [mockSprint, mockSprint2]);
 
-    const { result } = renderHook(() => useSetActiveSprint("board-1"), {
+    const { result } = renderHook(() => useDeleteSprint("board-1"), {
       wrapper: createWrapper(qc),
     });
 
@@ -229,8 +605,7 @@ describe("useSetActiveSprint", () => {
 
     await waitFor(() => {
       const sprints = qc.getQueryData<Sprint[]>(jiraKeys.sprints("board-1"))!;
-      expect(sprints.find((s) => s.id === "sprint-1")!.isActive).toBe(false);
-      expect(sprints.find((s) => s.id === "sprint-2")!.isActive).toBe(true);
+      expect(sprints.map((s) => s.id)).toEqual(["sprint-1"]);
     });
 
     await waitFor(() => expect(result.current.isSuccess).toBe(true));
@@ -238,25 +613,22 @@ describe("useSetActiveSprint", () => {
 
   it("rolls back on server error", async () => {
     server.use(
-      http.patch("*/boards/:boardId/active-sprint", () =>
-        HttpResponse.json({ message: "fail" }, { status: 500 })
+      http.delete("*/boards/:boardId/sprints/:sprintId", () =>
+        HttpResponse.json({ message: "Closed sprints can't be deleted" }, { status: 400 })
       )
     );
 
     const qc = createTestQueryClient();
     qc.setQueryData<Sprint[]>(jiraKeys.sprints("board-1"), [mockSprint, mockSprint2]);
 
-    const { result } = renderHook(() => useSetActiveSprint("board-1"), {
+    const { result } = renderHook(() => useDeleteSprint("board-1"), {
       wrapper: createWrapper(qc),
     });
 
     result.current.mutate({ sprintId: "sprint-2" });
 
     await waitFor(() => expect(result.current.isError).toBe(true));
-
-    const sprints = qc.getQueryData<Sprint[]>(jiraKeys.sprints("board-1"))!;
-    expect(sprints.find((s) => s.id === "sprint-1")!.isActive).toBe(true);
-    expect(sprints.find((s) => s.id === "sprint-2")!.isActive).toBe(false);
+    expect(qc.getQueryData<Sprint[]>(jiraKeys.sprints("board-1"))).toHaveLength(2);
   });
 });
 
@@ -301,6 +673,117 @@ describe("usePatchIssue", () => {
     const issues = qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"))!;
     expect(issues[0].title).toBe("Test Issue");
   });
+
+  it("sends each save against the version the previous one returned", async () => {
+    const sent: number[] = [];
+    server.use(
+      http.patch("*/issues/:id", async ({ request }) => {
+        const body = (await request.json()) as { patch: Partial<Issue>; version: number };
+        sent.push(body.version);
+        return HttpResponse.json({ ...mockIssue, ...body.patch, version: body.version + 1 });
+      })
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"), [mockIssue]);
+
+    const { result } = renderHook(() => usePatchIssue("board-1", "sprint-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "issue-1", patch: { title: "First" } });
+    result.current.mutate({ id: "issue-1", patch: { title: "Second" } });
+
+    await waitFor(() => expect(sent).toEqual([1, 2]));
+  });
+
+  it("sends a draft against the version it started from, past the client's own saves", async () => {
+    const sent: number[] = [];
+    server.use(
+      http.patch("*/issues/:id", async ({ request }) => {
+        const body = (await request.json()) as { patch: Partial<Issue>; version: number };
+        sent.push(body.version);
+        return HttpResponse.json({ ...mockIssue, ...body.patch, version: body.version + 1 });
+      })
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"), [mockIssue]);
+
+    const { result } = renderHook(() => usePatchIssue("board-1", "sprint-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "issue-1", patch: { title: "Dra" }, version: 1 });
+    await waitFor(() => expect(sent).toEqual([1]));
+    // Someone else's change arrives with a refetch before the next save.
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"), [
+      { ...mockIssue, title: "Theirs", version: 3 },
+    ]);
+    result.current.mutate({ id: "issue-1", patch: { title: "Draft" }, version: 1 });
+
+    await waitFor(() => expect(sent).toEqual([1, 2]));
+  });
+
+  it("shows the server's copy and reports a conflict instead of failing", async () => {
+    useJiraStore.setState({ conflict: null });
+    useToastStore.setState({ toasts: [] });
+    const theirs: Issue = { ...mockIssue, title: "Their title", version: 2 };
+    server.use(
+      http.patch("*/issues/:id", () =>
+        HttpResponse.json(
+          { message: "Someone else changed this issue", issue: theirs },
+          { status: 409 }
+        )
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"), [mockIssue]);
+
+    const { result } = renderHook(() => usePatchIssue("board-1", "sprint-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "issue-1", patch: { title: "Mine" } });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"))).toEqual([theirs]);
+    expect(useJiraStore.getState().conflict).toEqual({
+      issueId: "issue-1",
+      patch: { title: "Mine" },
+      theirs,
+    });
+    expect(useToastStore.getState().toasts).toEqual([]);
+  });
+
+  it("rolls back and explains a move the workflow refuses", async () => {
+    useToastStore.setState({ toasts: [] });
+    server.use(
+      http.patch("*/issues/:id", () =>
+        HttpResponse.json(
+          { message: "Assign the issue before moving it to Code review" },
+          { status: 422 }
+        )
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"), [mockIssue]);
+    qc.setQueryData<Status[]>(jiraKeys.statuses("board-1"), mockStatuses);
+
+    const { result } = renderHook(() => usePatchIssue("board-1", "sprint-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "issue-1", patch: { statusId: "st-review" } });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"))).toEqual([mockIssue]);
+    expect(useToastStore.getState().toasts.map((t) => t.message)).toEqual([
+      "Assign the issue before moving it to Code review",
+    ]);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -311,6 +794,7 @@ describe("useBatchPatchIssues", () => {
     const issue2: Issue = { ...mockIssue, id: "issue-2", key: "BOARD-2", order: 2000 };
     const qc = createTestQueryClient();
     qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"), [mockIssue, issue2]);
+    qc.setQueryData<Status[]>(jiraKeys.statuses("board-1"), mockStatuses);
 
     const { result } = renderHook(() => useBatchPatchIssues("board-1", "sprint-1"), {
       wrapper: createWrapper(qc),
@@ -318,13 +802,18 @@ describe("useBatchPatchIssues", () => {
 
     result.current.mutate([
       { id: "issue-1", patch: { order: 3000 } },
-      { id: "issue-2", patch: { status: "done" as const } },
+      { id: "issue-2", patch: { statusId: "st-review" } },
     ]);
 
     await waitFor(() => {
       const issues = qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"))!;
       expect(issues[0].order).toBe(3000);
-      expect(issues[1].status).toBe("done");
+      // The status summary follows the new status before the server answers.
+      expect(issues[1].status).toEqual({
+        id: "st-review",
+        name: "Code review",
+        category: "in_progress",
+      });
     });
 
     await waitFor(() => expect(result.current.isSuccess).toBe(true));
@@ -351,6 +840,63 @@ describe("useBatchPatchIssues", () => {
     expect(issues[0].order).toBe(1000);
     expect(issues[1].order).toBe(2000);
   });
+
+  it("explains a move past a hard WIP limit after rolling it back", async () => {
+    useToastStore.setState({ toasts: [] });
+    server.use(
+      http.patch("*/issues/batch", () =>
+        HttpResponse.json({ message: "Code review is at its WIP limit of 2" }, { status: 422 })
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"), [mockIssue]);
+    qc.setQueryData<Status[]>(jiraKeys.statuses("board-1"), mockStatuses);
+
+    const { result } = renderHook(() => useBatchPatchIssues("board-1", "sprint-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate([{ id: "issue-1", patch: { statusId: "st-review", order: 1000 } }]);
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"))).toEqual([mockIssue]);
+    expect(useToastStore.getState().toasts.map((t) => t.message)).toEqual([
+      "Code review is at its WIP limit of 2",
+    ]);
+  });
+
+  it("explains a drag of an issue someone else changed after rolling it back", async () => {
+    useToastStore.setState({ toasts: [] });
+    server.use(
+      http.patch("*/issues/batch", () =>
+        HttpResponse.json(
+          {
+            message: "Someone else changed this issue in the meantime",
+            issue: { ...mockIssue, version: mockIssue.version + 1 },
+          },
+          { status: 409 }
+        )
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"), [mockIssue]);
+
+    const { result } = renderHook(() => useBatchPatchIssues("board-1", "sprint-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate([
+      { id: "issue-1", patch: { statusId: "st-review", order: 1000 }, version: mockIssue.version },
+    ]);
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"))).toEqual([mockIssue]);
+    expect(useToastStore.getState().toasts.map((t) => t.message)).toEqual([
+      "Someone else changed this issue in the meantime",
+    ]);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -374,6 +920,7 @@ describe("useCreateIssue", () => {
 
     const qc = createTestQueryClient();
     qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"), [mockIssue]);
+    qc.setQueryData<Status[]>(jiraKeys.statuses("board-1"), mockStatuses);
 
     const { result } = renderHook(() => useCreateIssue("board-1", "sprint-1"), {
       wrapper: createWrapper(qc),
@@ -382,12 +929,20 @@ describe("useCreateIssue", () => {
     result.current.mutate({
       boardId: "board-1",
       sprintId: "sprint-1",
-      status: "todo",
       order: 2000,
+      type: "task",
+      priority: "medium",
+      labels: [],
       title: "New Issue",
       description: "",
       assigneeId: null,
       watcherIds: [],
+      parentId: null,
+      storyPoints: null,
+      originalEstimate: null,
+      remainingEstimate: null,
+      dueDate: null,
+      customFields: {},
     });
 
     // Optimistic: temp item appears immediately
@@ -397,6 +952,8 @@ describe("useCreateIssue", () => {
       expect(issues[1].title).toBe("New Issue");
       expect(issues[1].id).toMatch(/^tmp_/);
       expect(issues[1].key).toBe("TMP");
+      // Without a status it starts in the board's initial one.
+      expect(issues[1].statusId).toBe("st-todo");
     });
 
     // After server responds: temp replaced with real data
@@ -418,12 +975,20 @@ describe("useCreateIssue", () => {
     result.current.mutate({
       boardId: "board-1",
       sprintId: "sprint-1",
-      status: "todo",
       order: 2000,
+      type: "task",
+      priority: "medium",
+      labels: [],
       title: "Will Fail",
       description: "",
       assigneeId: null,
       watcherIds: [],
+      parentId: null,
+      storyPoints: null,
+      originalEstimate: null,
+      remainingEstimate: null,
+      dueDate: null,
+      customFields: {},
     });
 
     await waitFor(() => expect(result.current.isError).toBe(true));
@@ -434,6 +999,43 @@ describe("useCreateIssue", () => {
   });
 });
 
+describe("useCreateIssue with a parent", () => {
+  it("refreshes the parent's children and every list on the board", async () => {
+    const qc = createTestQueryClient();
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"), [mockIssue]);
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", null), []);
+    qc.setQueryData<Issue[]>(jiraKeys.children("issue-1"), []);
+
+    const { result } = renderHook(() => useCreateIssue("board-1", "sprint-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({
+      boardId: "board-1",
+      sprintId: "sprint-1",
+      order: 2000,
+      type: "subtask",
+      priority: "medium",
+      labels: [],
+      title: "Child",
+      description: "",
+      assigneeId: null,
+      watcherIds: [],
+      parentId: "issue-1",
+      storyPoints: null,
+      originalEstimate: null,
+      remainingEstimate: null,
+      dueDate: null,
+      customFields: {},
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(qc.getQueryState(jiraKeys.children("issue-1"))?.isInvalidated).toBe(true);
+    expect(qc.getQueryState(jiraKeys.issues("board-1", null))?.isInvalidated).toBe(true);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // useMoveIssue
 // ---------------------------------------------------------------------------
@@ -446,7 +1048,7 @@ describe("useMoveIssue", () => {
       wrapper: createWrapper(qc),
     });
 
-    result.current.mutate({ id: "issue-1", toSprintId: "sprint-2" });
+    result.current.mutate({ id: "issue-1", toSprintId: "sprint-2", version: 1 });
 
     await waitFor(() => {
       const issues = qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"))!;
@@ -468,7 +1070,7 @@ describe("useMoveIssue", () => {
       wrapper: createWrapper(qc),
     });
 
-    result.current.mutate({ id: "issue-1", toSprintId: "sprint-2" });
+    result.current.mutate({ id: "issue-1", toSprintId: "sprint-2", version: 1 });
 
     await waitFor(() => expect(result.current.isError).toBe(true));
 
@@ -477,3 +1079,588 @@ describe("useMoveIssue", () => {
     expect(issues[0].id).toBe("issue-1");
   });
 });
+
+// ---------------------------------------------------------------------------
+// useRankIssues
+// ---------------------------------------------------------------------------
+describe("useRankIssues", () => {
+  it("optimistically moves a ranked issue from the backlog into a planned sprint", async () => {
+    const backlogIssue: Issue = { ...mockIssue, id: "issue-2", key: "BOARD-2", sprintId: null };
+    const planned: Issue = { ...mockIssue, id: "issue-3", key: "BOARD-3", sprintId: "sprint-2" };
+    const qc = createTestQueryClient();
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", null), [backlogIssue]);
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-2"), [planned]);
+
+    const { result } = renderHook(() => useRankIssues("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate([{ id: "issue-2", patch: { order: 500, sprintId: "sprint-2" } }]);
+
+    await waitFor(() => {
+      expect(qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", null))).toEqual([]);
+      const sprint = qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-2"))!;
+      expect(sprint.map((it) => it.id)).toEqual(["issue-2", "issue-3"]);
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  });
+
+  it("rolls back every list on server error", async () => {
+    server.use(
+      http.patch("*/issues/batch", () => HttpResponse.json({ message: "fail" }, { status: 500 }))
+    );
+
+    const backlogIssue: Issue = { ...mockIssue, id: "issue-2", key: "BOARD-2", sprintId: null };
+    const qc = createTestQueryClient();
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", null), [backlogIssue]);
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-2"), []);
+
+    const { result } = renderHook(() => useRankIssues("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate([{ id: "issue-2", patch: { order: 1000, sprintId: "sprint-2" } }]);
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", null))).toEqual([backlogIssue]);
+    expect(qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-2"))).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// useUpdateBoardMember
+// ---------------------------------------------------------------------------
+describe("useUpdateBoardMember", () => {
+  it("optimistically changes the member role", async () => {
+    const qc = createTestQueryClient();
+    qc.setQueryData<BoardMember[]>(jiraKeys.members("board-1"), [mockAdmin, mockEditor]);
+
+    const { result } = renderHook(() => useUpdateBoardMember("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ userId: "user-2", role: "viewer" });
+
+    await waitFor(() => {
+      const members = qc.getQueryData<BoardMember[]>(jiraKeys.members("board-1"))!;
+      expect(members.find((m) => m.userId === "user-2")!.role).toBe("viewer");
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  });
+
+  it("rolls back on server error", async () => {
+    server.use(
+      http.patch("*/boards/:boardId/members/:userId", () =>
+        HttpResponse.json({ message: "Board must keep at least one admin" }, { status: 400 })
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<BoardMember[]>(jiraKeys.members("board-1"), [mockAdmin, mockEditor]);
+
+    const { result } = renderHook(() => useUpdateBoardMember("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ userId: "user-1", role: "viewer" });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    const members = qc.getQueryData<BoardMember[]>(jiraKeys.members("board-1"))!;
+    expect(members.find((m) => m.userId === "user-1")!.role).toBe("admin");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// useRemoveBoardMember
+// ---------------------------------------------------------------------------
+describe("useRemoveBoardMember", () => {
+  it("optimistically removes the member", async () => {
+    const qc = createTestQueryClient();
+    qc.setQueryData<BoardMember[]>(jiraKeys.members("board-1"), [mockAdmin, mockEditor]);
+
+    const { result } = renderHook(() => useRemoveBoardMember("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ userId: "user-2" });
+
+    await waitFor(() => {
+      const members = qc.getQueryData<BoardMember[]>(jiraKeys.members("board-1"))!;
+      expect(members.map((m) => m.userId)).toEqual(["user-1"]);
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  });
+
+  it("rolls back on server error", async () => {
+    server.use(
+      http.delete("*/boards/:boardId/members/:userId", () =>
+        HttpResponse.json({ message: "fail" }, { status: 403 })
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<BoardMember[]>(jiraKeys.members("board-1"), [mockAdmin, mockEditor]);
+
+    const { result } = renderHook(() => useRemoveBoardMember("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ userId: "user-2" });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    const members = qc.getQueryData<BoardMember[]>(jiraKeys.members("board-1"))!;
+    expect(members).toHaveLength(2);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Comments
+// ---------------------------------------------------------------------------
+describe("useCreateComment", () => {
+  it("optimistically appends the comment as the current user", async () => {
+    useAuthStore.setState({ user: { id: "user-1", email: "demo@example.com", name: "Demo User" } });
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Comment[]>(jiraKeys.comments("issue-1"), [mockComment]);
+
+    const { result } = renderHook(() => useCreateComment("issue-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ body: "Reply", parentId: "comment-1" });
+
+    await waitFor(() => {
+      const comments = qc.getQueryData<Comment[]>(jiraKeys.comments("issue-1"))!;
+      expect(comments).toHaveLength(2);
+      expect(comments[1]).toMatchObject({
+        body: "Reply",
+        parentId: "comment-1",
+        author: { id: "user-1", name: "Demo User" },
+      });
+      expect(comments[1].id).toMatch(/^tmp_/);
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  });
+
+  it("rolls back on server error", async () => {
+    server.use(
+      http.post("*/issues/:issueId/comments", () =>
+        HttpResponse.json({ message: "fail" }, { status: 500 })
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Comment[]>(jiraKeys.comments("issue-1"), [mockComment]);
+
+    const { result } = renderHook(() => useCreateComment("issue-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ body: "Will fail", parentId: null });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    const comments = qc.getQueryData<Comment[]>(jiraKeys.comments("issue-1"))!;
+    expect(comments).toEqual([mockComment]);
+  });
+});
+
+describe("useDeleteComment", () => {
+  it("optimistically blanks the comment but keeps its place", async () => {
+    const qc = createTestQueryClient();
+    qc.setQueryData<Comment[]>(jiraKeys.comments("issue-1"), [mockComment]);
+
+    const { result } = renderHook(() => useDeleteComment("issue-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "comment-1" });
+
+    await waitFor(() => {
+      const [comment] = qc.getQueryData<Comment[]>(jiraKeys.comments("issue-1"))!;
+      expect(comment.body).toBe("");
+      expect(comment.deletedAt).not.toBeNull();
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  });
+});
+
+describe("useCreateComment with mentions", () => {
+  it("refetches the issue list so new watchers show up", async () => {
+    const qc = createTestQueryClient();
+    const issuesKey = jiraKeys.issues("board-1", "sprint-1");
+    qc.setQueryData<Issue[]>(issuesKey, [mockIssue]);
+    qc.setQueryData<Comment[]>(jiraKeys.comments("issue-1"), [mockComment]);
+
+    const { result } = renderHook(() => useCreateComment("issue-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ body: "@susan can you look?", parentId: null });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(qc.getQueryState(issuesKey)?.isInvalidated).toBe(true);
+  });
+});
+
+describe("useMarkNotificationRead", () => {
+  it("optimistically marks the notification as read", async () => {
+    const qc = createTestQueryClient();
+    qc.setQueryData<Notification[]>(jiraKeys.notifications, [mockNotification]);
+
+    const { result } = renderHook(() => useMarkNotificationRead(), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "notif-1" });
+
+    await waitFor(() => {
+      const [n] = qc.getQueryData<Notification[]>(jiraKeys.notifications)!;
+      expect(n.readAt).not.toBeNull();
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  });
+});
+
+describe("useMarkAllNotificationsRead", () => {
+  it("rolls back on server error", async () => {
+    server.use(
+      http.post("*/notifications/read-all", () =>
+        HttpResponse.json({ message: "fail" }, { status: 500 })
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Notification[]>(jiraKeys.notifications, [mockNotification]);
+
+    const { result } = renderHook(() => useMarkAllNotificationsRead(), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate();
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    expect(qc.getQueryData<Notification[]>(jiraKeys.notifications)).toEqual([mockNotification]);
+  });
+});
+
+describe("useUploadAttachment", () => {
+  it("appends the uploaded attachment to the list", async () => {
+    const qc = createTestQueryClient();
+    qc.setQueryData<Attachment[]>(jiraKeys.attachments("issue-1"), [mockAttachment]);
+
+    const { result } = renderHook(() => useUploadAttachment("issue-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ file: new File(["boom"], "log.txt", { type: "text/plain" }) });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    const attachments = qc.getQueryData<Attachment[]>(jiraKeys.attachments("issue-1"))!;
+    expect(attachments.map((a) => a.filename)).toEqual(["screenshot.png", "log.txt"]);
+  });
+});
+
+describe("useDeleteAttachment", () => {
+  it("rolls back on server error", async () => {
+    server.use(
+      http.delete("*/attachments/:id", () =>
+        HttpResponse.json({ message: "fail" }, { status: 500 })
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Attachment[]>(jiraKeys.attachments("issue-1"), [mockAttachment]);
+
+    const { result } = renderHook(() => useDeleteAttachment("issue-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "att-1" });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<Attachment[]>(jiraKeys.attachments("issue-1"))).toEqual([
+      mockAttachment,
+    ]);
+  });
+});
+
+describe("useCreateIssueLink", () => {
+  it("appends the new link to the issue's links", async () => {
+    const qc = createTestQueryClient();
+    qc.setQueryData<IssueLink[]>(jiraKeys.links("issue-1"), [mockLink]);
+
+    const { result } = renderHook(() => useCreateIssueLink("issue-1", "board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ relation: "is_blocked_by", issueId: "issue-3" });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    const links = qc.getQueryData<IssueLink[]>(jiraKeys.links("issue-1"))!;
+    expect(links.map((l) => l.relation)).toEqual(["blocks", "is_blocked_by"]);
+  });
+});
+
+describe("useDeleteIssueLink", () => {
+  it("rolls back on server error", async () => {
+    server.use(
+      http.delete("*/issue-links/:id", () =>
+        HttpResponse.json({ message: "fail" }, { status: 500 })
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<IssueLink[]>(jiraKeys.links("issue-1"), [mockLink]);
+
+    const { result } = renderHook(() => useDeleteIssueLink("issue-1", "board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "link-1" });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<IssueLink[]>(jiraKeys.links("issue-1"))).toEqual([mockLink]);
+  });
+});
+
+describe("useCreateWorklog", () => {
+  it("puts the new worklog first", async () => {
+    const qc = createTestQueryClient();
+    qc.setQueryData<Worklog[]>(jiraKeys.worklogs("issue-1"), [mockWorklog]);
+
+    const { result } = renderHook(() => useCreateWorklog("issue-1", "board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ minutes: 30, date: "2026-05-26", note: "Review" });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    const worklogs = qc.getQueryData<Worklog[]>(jiraKeys.worklogs("issue-1"))!;
+    expect(worklogs.map((w) => w.id)).toEqual(["wl-2", "wl-1"]);
+  });
+});
+
+describe("useDeleteWorklog", () => {
+  it("rolls back on server error", async () => {
+    server.use(
+      http.delete("*/worklogs/:id", () => HttpResponse.json({ message: "fail" }, { status: 500 }))
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Worklog[]>(jiraKeys.worklogs("issue-1"), [mockWorklog]);
+
+    const { result } = renderHook(() => useDeleteWorklog("issue-1", "board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "wl-1" });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<Worklog[]>(jiraKeys.worklogs("issue-1"))).toEqual([mockWorklog]);
+  });
+});
+
+describe("useCreateCustomField", () => {
+  it("appends the new field", async () => {
+    const qc = createTestQueryClient();
+    qc.setQueryData<CustomField[]>(jiraKeys.customFields("board-1"), [mockCustomField]);
+
+    const { result } = renderHook(() => useCreateCustomField("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ name: "Customer", type: "text", options: [] });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    const fields = qc.getQueryData<CustomField[]>(jiraKeys.customFields("board-1"))!;
+    expect(fields.map((f) => f.name)).toEqual(["Environment", "Customer"]);
+  });
+});
+
+describe("useDeleteCustomField", () => {
+  it("rolls back on server error", async () => {
+    server.use(
+      http.delete("*/custom-fields/:id", () =>
+        HttpResponse.json({ message: "fail" }, { status: 500 })
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<CustomField[]>(jiraKeys.customFields("board-1"), [mockCustomField]);
+
+    const { result } = renderHook(() => useDeleteCustomField("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "field-1" });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<CustomField[]>(jiraKeys.customFields("board-1"))).toEqual([
+      mockCustomField,
+    ]);
+  });
+});
+
+describe("useReorderStatuses", () => {
+  it("moves the columns before the server answers", async () => {
+    server.use(
+      http.patch("*/boards/:boardId/statuses/order", async () => {
+        await new Promise((r) => setTimeout(r, 200));
+        return HttpResponse.json(mockStatuses);
+      })
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Status[]>(jiraKeys.statuses("board-1"), mockStatuses);
+
+    const { result } = renderHook(() => useReorderStatuses("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ ids: ["st-review", "st-todo", "st-done"] });
+
+    await waitFor(() => {
+      const statuses = qc.getQueryData<Status[]>(jiraKeys.statuses("board-1"))!;
+      expect(statuses.map((s) => [s.id, s.order])).toEqual([
+        ["st-todo", 2000],
+        ["st-review", 1000],
+        ["st-done", 3000],
+      ]);
+    });
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  });
+});
+
+describe("useDeleteStatus", () => {
+  it("rolls back and shows the server's reason on error", async () => {
+    server.use(
+      http.delete("*/statuses/:id", () =>
+        HttpResponse.json(
+          { message: "A workflow needs at least one to-do status" },
+          { status: 400 }
+        )
+      )
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Status[]>(jiraKeys.statuses("board-1"), mockStatuses);
+
+    const { result } = renderHook(() => useDeleteStatus("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "st-todo", moveTo: "st-review" });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<Status[]>(jiraKeys.statuses("board-1"))).toEqual(mockStatuses);
+    expect(useToastStore.getState().toasts.map((t) => t.message)).toContain(
+      "Failed to delete status: A workflow needs at least one to-do status"
+    );
+  });
+});
+
+describe("useUpdateAutomation", () => {
+  it("switches a rule off at once and back on when the server refuses", async () => {
+    server.use(
+      http.patch("*/automations/:id", async () => {
+        await new Promise((r) => setTimeout(r, 100));
+        return HttpResponse.json({ message: "fail" }, { status: 500 });
+      })
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<AutomationRule[]>(jiraKeys.automations("board-1"), [mockAutomation]);
+
+    const { result } = renderHook(() => useUpdateAutomation("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "rule-1", enabled: false });
+
+    await waitFor(() =>
+      expect(qc.getQueryData<AutomationRule[]>(jiraKeys.automations("board-1"))![0].enabled).toBe(
+        false
+      )
+    );
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<AutomationRule[]>(jiraKeys.automations("board-1"))).toEqual([
+      mockAutomation,
+    ]);
+  });
+});
+
+describe("useDeleteIssue", () => {
+  it("removes the issue and offers an undo that restores it", async () => {
+    useToastStore.setState({ toasts: [] });
+    const restored: string[] = [];
+    server.use(
+      http.post("*/issues/:id/restore", ({ params }) => {
+        restored.push(params.id as string);
+        return HttpResponse.json({ ...mockIssue, id: params.id });
+      })
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"), [mockIssue]);
+
+    const { result } = renderHook(() => useDeleteIssue("board-1", "sprint-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "issue-1" });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"))).toEqual([]);
+
+    const [shown] = useToastStore.getState().toasts;
+    expect(shown.message).toBe("BOARD-1 moved to the trash");
+    shown.action!.onClick();
+
+    await waitFor(() => expect(restored).toEqual(["issue-1"]));
+  });
+
+  it("puts the issue back on server error", async () => {
+    server.use(
+      http.delete("*/issues/:id", () => HttpResponse.json({ message: "fail" }, { status: 500 }))
+    );
+
+    const qc = createTestQueryClient();
+    qc.setQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"), [mockIssue]);
+
+    const { result } = renderHook(() => useDeleteIssue("board-1", "sprint-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "issue-1" });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(qc.getQueryData<Issue[]>(jiraKeys.issues("board-1", "sprint-1"))).toEqual([mockIssue]);
+  });
+});
+
+describe("useRestoreIssue", () => {
+  it("takes the issue out of the trash list", async () => {
+    const qc = createTestQueryClient();
+    const trashed = { ...mockIssue, deletedAt: "2026-06-10T09:00:00.000Z" };
+    qc.setQueryData<Issue[]>(jiraKeys.trash("board-1"), [trashed]);
+
+    const { result } = renderHook(() => useRestoreIssue("board-1"), {
+      wrapper: createWrapper(qc),
+    });
+
+    result.current.mutate({ id: "issue-1" });
+
+    await waitFor(() => expect(qc.getQueryData<Issue[]>(jiraKeys.trash("board-1"))).toEqual([]));
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  });
+});
@@ -1,10 +1,59 @@
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { jiraClient } from "./jira.client";
-import type { Board, Issue, Sprint } from "../domain/types";
+import { useCallback, useRef } from "react";
+import {
+  useMutation,
+  useQueries,
+  useQuery,
+  useQueryClient,
+  type QueryKey,
+  type UseQueryResult,
+} from "@tanstack/react-query";
+import { ApiError, jiraClient, type CreateIssueInput } from "./jira.client";
+import type {
+  Attachment,
+  AutomationAction,
+  AutomationRule,
+  AutomationRun,
+  AutomationTrigger,
+  Board,
+  BoardInvite,
+  BoardMember,
+  BoardRole,
+  Comment,
+  CustomField,
+  CustomFieldType,
+  Issue,
+  IssueEvent,
+  IssueLink,
+  IssueLinkRelation,
+  Notification,
+  Sprint,
+  SprintCompletion,
+  SprintSummary,
+  Status,
+  StatusCategory,
+  StatusValidator,
+  Worklog,
+} from "../domain/types";
+import { describeCompletion } from "../domain/sprints";
+import { allowedInBacklog, extractMentions, initialStatus } from "@jira-lab/shared";
 import { toast } from "@/stores/toastStore";
+import { useAuthStore } from "@/features/auth/authStore";
+import { useJiraStore } from "../store/jiraStore";
 
-type IssueChange = { id: string; patch: Partial<Issue> };
-type CreateIssueInput = Omit<Issue, "id" | "key">;
+// A change that carries the version it was made against is refused if the
+// issue has moved on since; plain reorders leave it out.
+type IssueChange = { id: string; patch: Partial<Issue>; version?: number };
+
+// A 409 from an issue edit carries the issue as the server has it now.
+function conflictingIssue(err: Error): Issue | null {
+  if (!(err instanceof ApiError) || err.status !== 409) return null;
+  return (err.body as { issue?: Issue } | null)?.issue ?? null;
+}
+
+// A 422 from an issue edit is the workflow refusing it; the message says why.
+function workflowRefusal(err: Error): string | null {
+  return err instanceof ApiError && err.status === 422 ? err.message : null;
+}
 
 // ----------------------------
 // Query keys
@@ -13,6 +62,26 @@ export const jiraKeys = {
   issues: (boardId: string, sprintId: string | null) => ["issues", boardId, sprintId] as const,
   boards: ["boards"] as const,
   sprints: (boardId: string) => ["sprints", boardId] as const,
+  sprintSummary: (boardId: string, sprintId: string) =>
+    ["sprintSummary", boardId, sprintId] as const,
+  labels: (boardId: string) => ["labels", boardId] as const,
+  archived: (boardId: string) => ["archived", boardId] as const,
+  trash: (boardId: string) => ["trash", boardId] as const,
+  customFields: (boardId: string) => ["customFields", boardId] as const,
+  statuses: (boardId: string) => ["statuses", boardId] as const,
+  automations: (boardId: string) => ["automations", boardId] as const,
+  automationRuns: (boardId: string, ruleId: string | null) =>
+    ["automationRuns", boardId, ruleId] as const,
+  members: (boardId: string) => ["members", boardId] as const,
+  invites: (boardId: string) => ["invites", boardId] as const,
+  invite: (token: string) => ["invite", token] as const,
+  history: (issueId: string) => ["history", issueId] as const,
+  children: (issueId: string) => ["children", issueId] as const,
+  links: (issueId: string) => ["links", issueId] as const,
+  worklogs: (issueId: string) => ["worklogs", issueId] as const,
+  comments: (issueId: string) => ["comments", issueId] as const,
+  notifications: ["notifications"] as const,
+  attachments: (issueId: string) => ["attachments", issueId] as const,
 };
 
 // ----------------------------
@@ -26,10 +95,153 @@ export function useIssues(boardId: string, sprintId: string | null) {
   });
 }
 
+// The issues of several sprints at once, keyed by sprint. Shares its cache
+// entries with useIssues, so either one's updates show in both. Pass a
+// memoised `sprintIds`; a new array rebuilds the result.
+export function useSprintIssues(boardId: string, sprintIds: string[]) {
+  const combine = useCallback(
+    (results: UseQueryResult<Issue[]>[]) => ({
+      bySprint: Object.fromEntries(
+        sprintIds.map((id, idx) => [id, results[idx]?.data ?? []])
+      ) as Record<string, Issue[]>,
+      isLoading: results.some((r) => r.isLoading),
+    }),
+    [sprintIds]
+  );
+  return useQueries({
+    queries: sprintIds.map((sprintId) => ({
+      queryKey: jiraKeys.issues(boardId, sprintId),
+      queryFn: () => jiraClient.listIssues({ boardId, sprintId }),
+      enabled: !!boardId,
+    })),
+    combine,
+  });
+}
+
+export function useIssueHistory(issueId: string | null) {
+  return useQuery<IssueEvent[]>({
+    queryKey: jiraKeys.history(issueId ?? ""),
+    queryFn: () => jiraClient.getIssueHistory(issueId!),
+    enabled: !!issueId,
+  });
+}
+
+export function useIssueChildren(issueId: string | null) {
+  return useQuery<Issue[]>({
+    queryKey: jiraKeys.children(issueId ?? ""),
+    queryFn: () => jiraClient.listIssueChildren(issueId!),
+    enabled: !!issueId,
+  });
+}
+
+export function useIssueLinks(issueId: string | null) {
+  return useQuery<IssueLink[]>({
+    queryKey: jiraKeys.links(issueId ?? ""),
+    queryFn: () => jiraClient.listIssueLinks(issueId!),
+    enabled: !!issueId,
+  });
+}
+
+export function useWorklogs(issueId: string | null) {
+  return useQuery<Worklog[]>({
+    queryKey: jiraKeys.worklogs(issueId ?? ""),
+    queryFn: () => jiraClient.listWorklogs(issueId!),
+    enabled: !!issueId,
+  });
+}
+
+export function useSprintSummary(boardId: string, sprintId: string | null) {
+  return useQuery<SprintSummary>({
+    queryKey: jiraKeys.sprintSummary(boardId, sprintId ?? ""),
+    queryFn: () => jiraClient.getSprintSummary(boardId, sprintId!),
+    enabled: !!boardId && !!sprintId,
+  });
+}
+
 // ----------------------------
 // Mutations
 // ----------------------------
 
+// Parents show a done/total roll-up of children, and blocked issues depend on
+// their blockers' status; either end may sit in any sprint, so a change to a
+// parent or status refreshes every list on the board.
+function affectsRollup(patch: Partial<Issue>) {
+  return "parentId" in patch || "statusId" in patch;
+}
+
+// Issues carry a summary of their status, which optimistic updates borrow
+// from the board's workflow; without an id this is the initial status.
+function workflowStatus(
+  qc: ReturnType<typeof useQueryClient>,
+  boardId: string,
+  statusId?: string
+): Issue["status"] | null {
+  const statuses = qc.getQueryData<Status[]>(jiraKeys.statuses(boardId)) ?? [];
+  const status = statusId ? statuses.find((s) => s.id === statusId) : initialStatus(statuses);
+  return status ? { id: status.id, name: status.name, category: status.category } : null;
+}
+
+// The parent summary for a new parent, borrowed from the board's cached issues:
+// the parent itself, or another issue already under it.
+function cachedParent(
+  qc: ReturnType<typeof useQueryClient>,
+  boardId: string,
+  parentId: string
+): Issue["parent"] {
+  for (const [, issues] of qc.getQueriesData<Issue[]>({ queryKey: ["issues", boardId] })) {
+    for (const it of issues ?? []) {
+      if (it.id === parentId) {
+        return { id: it.id, key: it.key, title: it.title, type: it.type, sprintId: it.sprintId };
+      }
+      if (it.parent?.id === parentId) return it.parent;
+    }
+  }
+  return undefined;
+}
+
+function applyPatch(
+  qc: ReturnType<typeof useQueryClient>,
+  boardId: string,
+  issue: Issue,
+  patch: Partial<Issue>
+): Issue {
+  const next = { ...issue, ...patch };
+  if (patch.statusId && patch.statusId !== issue.statusId) {
+    next.status = workflowStatus(qc, boardId, patch.statusId) ?? issue.status;
+  }
+  if (patch.parentId !== undefined && patch.parentId !== issue.parentId) {
+    next.parent = patch.parentId ? cachedParent(qc, boardId, patch.parentId) : null;
+  }
+  return next;
+}
+
+// Sprint totals follow points, estimates, status and sprint membership.
+// Cheap to refetch, so any issue change on the board refreshes them.
+function invalidateSprintSummaries(qc: ReturnType<typeof useQueryClient>, boardId: string) {
+  qc.invalidateQueries({ queryKey: ["sprintSummary", boardId] });
+}
+
+function invalidateHierarchy(qc: ReturnType<typeof useQueryClient>, boardId: string) {
+  qc.invalidateQueries({ queryKey: ["issues", boardId] });
+  qc.invalidateQueries({ queryKey: ["children"] });
+  qc.invalidateQueries({ queryKey: ["links"] });
+}
+
+// An issue leaving or returning to the board changes roll-ups, blockers,
+// links, labels and sprint totals, as well as the archive and trash lists.
+function invalidateRemoval(
+  qc: ReturnType<typeof useQueryClient>,
+  boardId: string,
+  issueId: string
+) {
+  invalidateHierarchy(qc, boardId);
+  invalidateSprintSummaries(qc, boardId);
+  qc.invalidateQueries({ queryKey: jiraKeys.labels(boardId) });
+  qc.invalidateQueries({ queryKey: jiraKeys.archived(boardId) });
+  qc.invalidateQueries({ queryKey: jiraKeys.trash(boardId) });
+  qc.invalidateQueries({ queryKey: jiraKeys.history(issueId) });
+}
+
 // Batch patch is perfect for DnD.
 // We do optimistic cache update, then just invalidate to refetch canonical list.
 export function useBatchPatchIssues(boardId: string, sprintId: string | null) {
@@ -47,31 +259,120 @@ export function useBatchPatchIssues(boardId: string, sprintId: string | null) {
       const byId = new Map(changes.map((c) => [c.id, c.patch]));
       const next = prev.map((it) => {
         const patch = byId.get(it.id);
-        return patch ? { ...it, ...patch } : it;
+        return patch ? applyPatch(qc, boardId, it, patch) : it;
       });
 
       qc.setQueryData<Issue[]>(key, next);
       return { prev };
     },
 
-    onError: (_err, _changes, ctx) => {
+    onError: (err, _changes, ctx) => {
       const key = jiraKeys.issues(boardId, sprintId);
       if (ctx?.prev) qc.setQueryData<Issue[]>(key, ctx.prev);
-      toast("error", "Failed to reorder issues");
+      toast(
+        "error",
+        conflictingIssue(err) ? err.message : (workflowRefusal(err) ?? "Failed to reorder issues")
+      );
     },
 
-    onSettled: () => {
+    onSettled: (_data, _err, changes) => {
       const key = jiraKeys.issues(boardId, sprintId);
       qc.invalidateQueries({ queryKey: key });
+      for (const c of changes) qc.invalidateQueries({ queryKey: jiraKeys.history(c.id) });
+      if (changes.some((c) => affectsRollup(c.patch))) invalidateHierarchy(qc, boardId);
+      invalidateSprintSummaries(qc, boardId);
+    },
+  });
+}
+
+// Re-ranks issues in the planning view, moving them between the backlog and
+// planned sprints. The optimistic update takes each moved issue out of its
+// old list and into its new one.
+export function useRankIssues(boardId: string) {
+  const qc = useQueryClient();
+
+  return useMutation<
+    Issue[],
+    Error,
+    Array<{ id: string; patch: { order: number; sprintId?: string | null }; version?: number }>,
+    { prev: Array<[QueryKey, Issue[] | undefined]> }
+  >({
+    mutationFn: (changes) => jiraClient.patchIssuesBatch(changes),
+
+    onMutate: async (changes) => {
+      await qc.cancelQueries({ queryKey: ["issues", boardId] });
+      const prev = qc.getQueriesData<Issue[]>({ queryKey: ["issues", boardId] });
+
+      const byId = new Map(changes.map((c) => [c.id, c.patch]));
+      const moved: Issue[] = [];
+      for (const [key, issues] of prev) {
+        if (!issues) continue;
+        const kept = issues.flatMap((it) => {
+          const patch = byId.get(it.id);
+          if (!patch) return [it];
+          const next = { ...it, ...patch };
+          if (next.sprintId === it.sprintId) return [next];
+          // The backlog only keeps unstarted issues; the server resets the others.
+          if (next.sprintId === null && !allowedInBacklog(it.status.category)) {
+            const initial = workflowStatus(qc, boardId);
+            if (initial) Object.assign(next, { statusId: initial.id, status: initial });
+          }
+          moved.push(next);
+          return [];
+        });
+        qc.setQueryData<Issue[]>(key, kept);
+      }
+      for (const issue of moved) {
+        qc.setQueryData<Issue[]>(jiraKeys.issues(boardId, issue.sprintId), (list) =>
+          list ? [...list, issue].sort((a, b) => a.order - b.order) : list
+        );
+      }
+      return { prev };
+    },
+
+    onError: (err, _changes, ctx) => {
+      for (const [key, issues] of ctx?.prev ?? []) qc.setQueryData(key, issues);
+      toast("error", workflowRefusal(err) ?? `Failed to move issues: ${err.message}`);
+    },
+
+    onSettled: (_data, _err, changes) => {
+      qc.invalidateQueries({ queryKey: ["issues", boardId] });
+      for (const c of changes) qc.invalidateQueries({ queryKey: jiraKeys.history(c.id) });
+      invalidateSprintSummaries(qc, boardId);
     },
   });
 }
 
 export function usePatchIssue(boardId: string, sprintId: string | null) {
   const qc = useQueryClient();
+  // The version each of this client's own saves moved an issue to, keyed by
+  // `<id>@<version it was sent against>`. A draft sends the version it was
+  // started from; following these forward lets it keep saving over its own
+  // earlier saves while anyone else's change in between still conflicts.
+  const ownSaves = useRef(new Map<string, number>());
 
-  return useMutation<Issue, Error, { id: string; patch: Partial<Issue> }, { prev: Issue[] }>({
-    mutationFn: (args) => jiraClient.patchIssue(args),
+  return useMutation<
+    Issue,
+    Error,
+    { id: string; patch: Partial<Issue>; version?: number },
+    { prev: Issue[] }
+  >({
+    // Saves run one at a time, so each is sent against the version the
+    // previous one left in the cache rather than conflicting with it.
+    scope: { id: `patch-issue:${boardId}` },
+
+    mutationFn: async ({ id, patch, version }) => {
+      const cached = qc
+        .getQueryData<Issue[]>(jiraKeys.issues(boardId, sprintId))
+        ?.find((it) => it.id === id);
+      let sent = version ?? cached?.version;
+      while (version != null && ownSaves.current.has(`${id}@${sent}`)) {
+        sent = ownSaves.current.get(`${id}@${sent}`);
+      }
+      const updated = await jiraClient.patchIssue({ id, patch, version: sent });
+      if (sent != null) ownSaves.current.set(`${id}@${sent}`, updated.version);
+      return updated;
+    },
 
     onMutate: async ({ id, patch }) => {
       const key = jiraKeys.issues(boardId, sprintId);
@@ -80,16 +381,26 @@ export function usePatchIssue(boardId: string, sprintId: string | null) {
       const prev = qc.getQueryData<Issue[]>(key) ?? [];
       qc.setQueryData<Issue[]>(
         key,
-        prev.map((it) => (it.id === id ? { ...it, ...patch } : it))
+        prev.map((it) => (it.id === id ? applyPatch(qc, boardId, it, patch) : it))
       );
 
       return { prev };
     },
 
-    onError: (_err, _vars, ctx) => {
+    onError: (err, vars, ctx) => {
       const key = jiraKeys.issues(boardId, sprintId);
+      const theirs = conflictingIssue(err);
+      if (theirs) {
+        // Show their version; the user decides whether to reapply their own edit.
+        qc.setQueryData<Issue[]>(
+          key,
+          (ctx?.prev ?? []).map((it) => (it.id === theirs.id ? theirs : it))
+        );
+        useJiraStore.getState().reportConflict({ issueId: vars.id, patch: vars.patch, theirs });
+        return;
+      }
       if (ctx?.prev) qc.setQueryData<Issue[]>(key, ctx.prev);
-      toast("error", "Failed to update issue");
+      toast("error", workflowRefusal(err) ?? "Failed to update issue");
     },
 
     onSuccess: (updated) => {
@@ -101,9 +412,13 @@ export function usePatchIssue(boardId: string, sprintId: string | null) {
       );
     },
 
-    onSettled: () => {
+    onSettled: (_data, _err, vars) => {
       const key = jiraKeys.issues(boardId, sprintId);
       qc.invalidateQueries({ queryKey: key });
+      qc.invalidateQueries({ queryKey: jiraKeys.history(vars.id) });
+      if ("labels" in vars.patch) qc.invalidateQueries({ queryKey: jiraKeys.labels(boardId) });
+      if (affectsRollup(vars.patch)) invalidateHierarchy(qc, boardId);
+      invalidateSprintSummaries(qc, boardId);
     },
   });
 }
@@ -122,10 +437,19 @@ export function useCreateIssue(boardId: string, sprintId: string | null) {
 
       // optimistic item so UI updates instantly
       const tempId = `tmp_${crypto.randomUUID()}`;
+      // Until the workflow has loaded there is no column to show it in.
+      const status = workflowStatus(qc, boardId, issue.statusId);
+      if (!status) return { prev, tempId };
+
       const optimistic: Issue = {
         ...issue,
         id: tempId,
         key: "TMP",
+        statusId: status.id,
+        status,
+        archivedAt: null,
+        deletedAt: null,
+        version: 1,
       };
 
       qc.setQueryData<Issue[]>(key, [...prev, optimistic]);
@@ -150,9 +474,152 @@ export function useCreateIssue(boardId: string, sprintId: string | null) {
       );
     },
 
-    onSettled: () => {
+    onSettled: (_data, _err, issue) => {
       const key = jiraKeys.issues(boardId, sprintId);
       qc.invalidateQueries({ queryKey: key });
+      if (issue.labels.length > 0) qc.invalidateQueries({ queryKey: jiraKeys.labels(boardId) });
+      if (issue.parentId) invalidateHierarchy(qc, boardId);
+      invalidateSprintSummaries(qc, boardId);
+    },
+  });
+}
+
+// Deleting and archiving take the issue off the board right away and offer
+// an undo for a few seconds.
+const UNDO_TOAST_MS = 6000;
+
+function useRemoveFromBoard(
+  boardId: string,
+  sprintId: string | null,
+  remove: (id: string) => Promise<unknown>,
+  undo: { mutate: (vars: { id: string }) => void },
+  messages: { done: string; failed: string }
+) {
+  const qc = useQueryClient();
+
+  return useMutation<unknown, Error, { id: string }, { prev: Issue[] }>({
+    mutationFn: ({ id }) => remove(id),
+
+    onMutate: async ({ id }) => {
+      const key = jiraKeys.issues(boardId, sprintId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Issue[]>(key) ?? [];
+      qc.setQueryData<Issue[]>(
+        key,
+        prev.filter((it) => it.id !== id)
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Issue[]>(jiraKeys.issues(boardId, sprintId), ctx.prev);
+      toast("error", messages.failed);
+    },
+
+    onSuccess: (_data, { id }, ctx) => {
+      const issueKey = ctx?.prev.find((it) => it.id === id)?.key ?? "Issue";
+      toast("info", `${issueKey} ${messages.done}`, {
+        duration: UNDO_TOAST_MS,
+        action: { label: "Undo", onClick: () => undo.mutate({ id }) },
+      });
+    },
+
+    onSettled: (_data, _err, { id }) => invalidateRemoval(qc, boardId, id),
+  });
+}
+
+// Takes an issue out of the archive or trash list it is shown in.
+function useReturnToBoard(
+  boardId: string,
+  listKey: readonly unknown[],
+  restore: (id: string) => Promise<Issue>,
+  failed: string
+) {
+  const qc = useQueryClient();
+
+  return useMutation<Issue, Error, { id: string }, { prev: Issue[] }>({
+    mutationFn: ({ id }) => restore(id),
+
+    onMutate: async ({ id }) => {
+      await qc.cancelQueries({ queryKey: listKey });
+      const prev = qc.getQueryData<Issue[]>(listKey) ?? [];
+      qc.setQueryData<Issue[]>(
+        listKey,
+        prev.filter((it) => it.id !== id)
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Issue[]>(listKey, ctx.prev);
+      toast("error", failed);
+    },
+
+    onSettled: (_data, _err, { id }) => invalidateRemoval(qc, boardId, id),
+  });
+}
+
+export function useRestoreIssue(boardId: string) {
+  return useReturnToBoard(
+    boardId,
+    jiraKeys.trash(boardId),
+    jiraClient.restoreIssue,
+    "Failed to restore issue"
+  );
+}
+
+export function useUnarchiveIssue(boardId: string) {
+  return useReturnToBoard(
+    boardId,
+    jiraKeys.archived(boardId),
+    jiraClient.unarchiveIssue,
+    "Failed to unarchive issue"
+  );
+}
+
+/** Moves an issue to the trash, with an undo toast. */
+export function useDeleteIssue(boardId: string, sprintId: string | null) {
+  const restore = useRestoreIssue(boardId);
+  return useRemoveFromBoard(boardId, sprintId, jiraClient.deleteIssue, restore, {
+    done: "moved to the trash",
+    failed: "Failed to delete issue",
+  });
+}
+
+/** Archives an issue, with an undo toast. */
+export function useArchiveIssue(boardId: string, sprintId: string | null) {
+  const unarchive = useUnarchiveIssue(boardId);
+  return useRemoveFromBoard(boardId, sprintId, jiraClient.archiveIssue, unarchive, {
+    done: "archived",
+    failed: "Failed to archive issue",
+  });
+}
+
+export function usePurgeIssue(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<{ id: string }, Error, { id: string }, { prev: Issue[] }>({
+    mutationFn: ({ id }) => jiraClient.purgeIssue(id),
+
+    onMutate: async ({ id }) => {
+      const key = jiraKeys.trash(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Issue[]>(key) ?? [];
+      qc.setQueryData<Issue[]>(
+        key,
+        prev.filter((it) => it.id !== id)
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Issue[]>(jiraKeys.trash(boardId), ctx.prev);
+      toast("error", "Failed to delete issue permanently");
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.trash(boardId) });
+      // Sub-tasks are purged with their parent, even ones still on the board.
+      qc.invalidateQueries({ queryKey: ["issues", boardId] });
     },
   });
 }
@@ -172,136 +639,1153 @@ export function useSprints(boardId: string) {
   });
 }
 
-export function useCreateBoard() {
-  const qc = useQueryClient();
-  return useMutation<Board, Error, { name: string }, { prev: Board[] }>({
-    mutationFn: (args) => jiraClient.createBoard(args),
+export function useBoardLabels(boardId: string) {
+  return useQuery<string[]>({
+    queryKey: jiraKeys.labels(boardId),
+    queryFn: () => jiraClient.listBoardLabels(boardId),
+    enabled: !!boardId,
+  });
+}
 
-    onMutate: async (args) => {
-      await qc.cancelQueries({ queryKey: jiraKeys.boards });
-      const prev = qc.getQueryData<Board[]>(jiraKeys.boards) ?? [];
-      const optimistic: Board = { id: `tmp_${crypto.randomUUID()}`, name: args.name };
-      qc.setQueryData<Board[]>(jiraKeys.boards, [...prev, optimistic]);
-      return { prev };
-    },
+export function useArchivedIssues(boardId: string, enabled = true) {
+  return useQuery<Issue[]>({
+    queryKey: jiraKeys.archived(boardId),
+    queryFn: () => jiraClient.listArchivedIssues(boardId),
+    enabled: !!boardId && enabled,
+  });
+}
 
-    onError: (_err, _vars, ctx) => {
-      if (ctx?.prev) qc.setQueryData<Board[]>(jiraKeys.boards, ctx.prev);
-      toast("error", "Failed to create board");
-    },
+export function useTrash(boardId: string, enabled = true) {
+  return useQuery<Issue[]>({
+    queryKey: jiraKeys.trash(boardId),
+    queryFn: () => jiraClient.listTrash(boardId),
+    enabled: !!boardId && enabled,
+  });
+}
 
-    onSuccess: (_data, vars) => {
-      toast("success", `Board "${vars.name}" created`);
+export function useCustomFields(boardId: string) {
+  return useQuery<CustomField[]>({
+    queryKey: jiraKeys.customFields(boardId),
+    queryFn: () => jiraClient.listCustomFields(boardId),
+    enabled: !!boardId,
+  });
+}
+
+export function useCreateCustomField(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<
+    CustomField,
+    Error,
+    { name: string; type: CustomFieldType; options: string[] }
+  >({
+    mutationFn: (args) => jiraClient.createCustomField(boardId, args),
+
+    onSuccess: (created) => {
+      qc.setQueryData<CustomField[]>(jiraKeys.customFields(boardId), (prev = []) => [
+        ...prev,
+        created,
+      ]);
     },
 
-    onSettled: () => {
-      qc.invalidateQueries({ queryKey: jiraKeys.boards });
+    onError: (err) => {
+      toast("error", `Failed to add field: ${err.message}`);
     },
   });
 }
 
-export function useMoveIssue(boardId: string, sprintId: string | null) {
+// Removing options or whole fields also clears the matching values on the
+// board's issues, so the issue lists are refetched after either.
+export function useUpdateCustomField(boardId: string) {
   const qc = useQueryClient();
+  return useMutation<CustomField, Error, { id: string; name?: string; options?: string[] }>({
+    mutationFn: ({ id, ...args }) => jiraClient.updateCustomField(id, args),
 
-  return useMutation<Issue, Error, { id: string; toSprintId: string | null }, { prev: Issue[] }>({
-    mutationFn: ({ id, toSprintId }) => jiraClient.moveIssue({ id, sprintId: toSprintId }),
+    onSuccess: (updated) => {
+      qc.setQueryData<CustomField[]>(jiraKeys.customFields(boardId), (prev = []) =>
+        prev.map((f) => (f.id === updated.id ? updated : f))
+      );
+    },
 
-    onMutate: async ({ id, toSprintId }) => {
-      const key = jiraKeys.issues(boardId, sprintId);
-      await qc.cancelQueries({ queryKey: key });
+    onError: (err) => {
+      toast("error", `Failed to update field: ${err.message}`);
+    },
 
-      const prev = qc.getQueryData<Issue[]>(key) ?? [];
+    onSettled: (_data, _err, vars) => {
+      qc.invalidateQueries({ queryKey: jiraKeys.customFields(boardId) });
+      if (vars.options) qc.invalidateQueries({ queryKey: ["issues", boardId] });
+    },
+  });
+}
 
-      // Optimistic update:
-      // If moving out of the current list, remove it.
-      // If moving within current scope, patch sprintId.
-      const next = prev
-        .map((it) => (it.id === id ? { ...it, sprintId: toSprintId } : it))
-        .filter((it) => {
-          // keep only issues that match the current route scope
-          const wantSprint = sprintId ?? null;
-          const itSprint = it.sprintId ?? null;
-          return itSprint === wantSprint;
-        });
+export function useDeleteCustomField(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<{ id: string }, Error, { id: string }, { prev: CustomField[] }>({
+    mutationFn: ({ id }) => jiraClient.deleteCustomField(id),
 
-      qc.setQueryData<Issue[]>(key, next);
+    onMutate: async ({ id }) => {
+      const key = jiraKeys.customFields(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<CustomField[]>(key) ?? [];
+      qc.setQueryData<CustomField[]>(
+        key,
+        prev.filter((f) => f.id !== id)
+      );
       return { prev };
     },
 
     onError: (_err, _vars, ctx) => {
-      const key = jiraKeys.issues(boardId, sprintId);
-      if (ctx?.prev) qc.setQueryData<Issue[]>(key, ctx.prev);
-      toast("error", "Failed to move issue");
+      if (ctx?.prev) qc.setQueryData<CustomField[]>(jiraKeys.customFields(boardId), ctx.prev);
+      toast("error", "Failed to delete field");
     },
 
     onSettled: () => {
-      // current list
-      qc.invalidateQueries({ queryKey: jiraKeys.issues(boardId, sprintId) });
-
-      // also invalidate BOTH backlog and sprint list because move crosses scopes
+      qc.invalidateQueries({ queryKey: jiraKeys.customFields(boardId) });
       qc.invalidateQueries({ queryKey: ["issues", boardId] });
     },
   });
 }
 
-export function useCreateSprint(boardId: string) {
+export function useStatuses(boardId: string) {
+  return useQuery<Status[]>({
+    queryKey: jiraKeys.statuses(boardId),
+    queryFn: () => jiraClient.listStatuses(boardId),
+    enabled: !!boardId,
+  });
+}
+
+// Issues show their status' name and category, and categories drive roll-ups,
+// blockers and sprint totals, so workflow changes refetch all of those.
+function invalidateWorkflow(qc: ReturnType<typeof useQueryClient>, boardId: string) {
+  qc.invalidateQueries({ queryKey: jiraKeys.statuses(boardId) });
+  invalidateHierarchy(qc, boardId);
+  invalidateSprintSummaries(qc, boardId);
+}
+
+export function useCreateStatus(boardId: string) {
   const qc = useQueryClient();
-  return useMutation<Sprint, Error, { name: string }, { prev: Sprint[] }>({
-    mutationFn: (args) => jiraClient.createSprint(boardId, args),
+  return useMutation<Status, Error, { name: string; category: StatusCategory }>({
+    mutationFn: (args) => jiraClient.createStatus(boardId, args),
 
-    onMutate: async (args) => {
-      const key = jiraKeys.sprints(boardId);
-      await qc.cancelQueries({ queryKey: key });
-      const prev = qc.getQueryData<Sprint[]>(key) ?? [];
-      const optimistic: Sprint = {
-        id: `tmp_${crypto.randomUUID()}`,
-        boardId,
-        name: args.name,
-        isActive: false,
-      };
-      qc.setQueryData<Sprint[]>(key, [...prev, optimistic]);
-      return { prev };
+    onSuccess: (created) => {
+      qc.setQueryData<Status[]>(jiraKeys.statuses(boardId), (prev = []) => [...prev, created]);
     },
 
-    onError: (_err, _vars, ctx) => {
-      if (ctx?.prev) qc.setQueryData<Sprint[]>(jiraKeys.sprints(boardId), ctx.prev);
-      toast("error", "Failed to create sprint");
+    onError: (err) => {
+      toast("error", `Failed to add status: ${err.message}`);
     },
+  });
+}
 
-    onSuccess: (_data, vars) => {
-      toast("success", `Sprint "${vars.name}" created`);
+export function useUpdateStatus(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<
+    Status,
+    Error,
+    {
+      id: string;
+      name?: string;
+      category?: StatusCategory;
+      transitionsTo?: string[];
+      validators?: StatusValidator[];
+      wipMin?: number | null;
+      wipMax?: number | null;
+      wipHard?: boolean;
+    }
+  >({
+    mutationFn: ({ id, ...args }) => jiraClient.updateStatus(id, args),
+
+    onSuccess: (updated) => {
+      qc.setQueryData<Status[]>(jiraKeys.statuses(boardId), (prev = []) =>
+        prev.map((s) => (s.id === updated.id ? updated : s))
+      );
     },
 
-    onSettled: () => {
-      qc.invalidateQueries({ queryKey: jiraKeys.sprints(boardId) });
+    onError: (err) => {
+      toast("error", `Failed to update status: ${err.message}`);
     },
+
+    onSettled: () => invalidateWorkflow(qc, boardId),
   });
 }
 
-export function useSetActiveSprint(boardId: string) {
+export function useReorderStatuses(boardId: string) {
   const qc = useQueryClient();
-  return useMutation<Sprint, Error, { sprintId: string }, { prev: Sprint[] }>({
-    mutationFn: (args) => jiraClient.setActiveSprint(boardId, args.sprintId),
+  return useMutation<Status[], Error, { ids: string[] }, { prev: Status[] }>({
+    mutationFn: ({ ids }) => jiraClient.reorderStatuses(boardId, ids),
 
-    onMutate: async ({ sprintId }) => {
-      const key = jiraKeys.sprints(boardId);
+    onMutate: async ({ ids }) => {
+      const key = jiraKeys.statuses(boardId);
       await qc.cancelQueries({ queryKey: key });
-      const prev = qc.getQueryData<Sprint[]>(key) ?? [];
-      qc.setQueryData<Sprint[]>(
+      const prev = qc.getQueryData<Status[]>(key) ?? [];
+      const position = new Map(ids.map((id, idx) => [id, (idx + 1) * 1000]));
+      qc.setQueryData<Status[]>(
         key,
-        prev.map((s) => ({ ...s, isActive: s.id === sprintId }))
+        prev.map((s) => ({ ...s, order: position.get(s.id) ?? s.order }))
       );
       return { prev };
     },
 
     onError: (_err, _vars, ctx) => {
-      if (ctx?.prev) qc.setQueryData<Sprint[]>(jiraKeys.sprints(boardId), ctx.prev);
-      toast("error", "Failed to set active sprint");
+      if (ctx?.prev) qc.setQueryData<Status[]>(jiraKeys.statuses(boardId), ctx.prev);
+      toast("error", "Failed to reorder statuses");
     },
 
-    onSettled: () => {
-      qc.invalidateQueries({ queryKey: jiraKeys.sprints(boardId) });
-      qc.invalidateQueries({ queryKey: ["issues", boardId] });
+    onSuccess: (statuses) => {
+      qc.setQueryData<Status[]>(jiraKeys.statuses(boardId), statuses);
+    },
+  });
+}
+
+// Issues still in the status move to `moveTo`.
+export function useDeleteStatus(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<{ id: string }, Error, { id: string; moveTo?: string }, { prev: Status[] }>({
+    mutationFn: ({ id, moveTo }) => jiraClient.deleteStatus(id, moveTo),
+
+    onMutate: async ({ id }) => {
+      const key = jiraKeys.statuses(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Status[]>(key) ?? [];
+      qc.setQueryData<Status[]>(
+        key,
+        prev.filter((s) => s.id !== id)
+      );
+      return { prev };
+    },
+
+    onError: (err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Status[]>(jiraKeys.statuses(boardId), ctx.prev);
+      toast("error", `Failed to delete status: ${err.message}`);
+    },
+
+    onSettled: () => invalidateWorkflow(qc, boardId),
+  });
+}
+
+export function useAutomations(boardId: string, enabled = true) {
+  return useQuery<AutomationRule[]>({
+    queryKey: jiraKeys.automations(boardId),
+    queryFn: () => jiraClient.listAutomations(boardId),
+    enabled: !!boardId && enabled,
+  });
+}
+
+export function useAutomationRuns(boardId: string, ruleId: string | null, enabled = true) {
+  return useQuery<AutomationRun[]>({
+    queryKey: jiraKeys.automationRuns(boardId, ruleId),
+    queryFn: () => jiraClient.listAutomationRuns(boardId, ruleId ?? undefined),
+    enabled: !!boardId && enabled,
+  });
+}
+
+export function useCreateAutomation(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<
+    AutomationRule,
+    Error,
+    {
+      name: string;
+      enabled?: boolean;
+      trigger: AutomationTrigger;
+      condition?: string;
+      actions: AutomationAction[];
+    }
+  >({
+    mutationFn: (args) => jiraClient.createAutomation(boardId, args),
+
+    onSuccess: (created) => {
+      qc.setQueryData<AutomationRule[]>(jiraKeys.automations(boardId), (prev = []) => [
+        ...prev,
+        created,
+      ]);
     },
+
+    onError: (err) => {
+      toast("error", `Failed to add rule: ${err.message}`);
+    },
+  });
+}
+
+// Switching a rule on or off shows at once and is undone if the server refuses.
+export function useUpdateAutomation(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<
+    AutomationRule,
+    Error,
+    {
+      id: string;
+      name?: string;
+      enabled?: boolean;
+      trigger?: AutomationTrigger;
+      condition?: string;
+      actions?: AutomationAction[];
+    },
+    { prev: AutomationRule[] }
+  >({
+    mutationFn: ({ id, ...args }) => jiraClient.updateAutomation(id, args),
+
+    onMutate: async ({ id, enabled }) => {
+      const key = jiraKeys.automations(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<AutomationRule[]>(key) ?? [];
+      if (enabled !== undefined) {
+        qc.setQueryData<AutomationRule[]>(
+          key,
+          prev.map((r) => (r.id === id ? { ...r, enabled } : r))
+        );
+      }
+      return { prev };
+    },
+
+    onSuccess: (updated) => {
+      qc.setQueryData<AutomationRule[]>(jiraKeys.automations(boardId), (prev = []) =>
+        prev.map((r) => (r.id === updated.id ? updated : r))
+      );
+    },
+
+    onError: (err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<AutomationRule[]>(jiraKeys.automations(boardId), ctx.prev);
+      toast("error", `Failed to update rule: ${err.message}`);
+    },
+  });
+}
+
+// A deleted rule takes its part of the audit log with it.
+export function useDeleteAutomation(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<{ id: string }, Error, { id: string }, { prev: AutomationRule[] }>({
+    mutationFn: ({ id }) => jiraClient.deleteAutomation(id),
+
+    onMutate: async ({ id }) => {
+      const key = jiraKeys.automations(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<AutomationRule[]>(key) ?? [];
+      qc.setQueryData<AutomationRule[]>(
+        key,
+        prev.filter((r) => r.id !== id)
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<AutomationRule[]>(jiraKeys.automations(boardId), ctx.prev);
+      toast("error", "Failed to delete rule");
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.automations(boardId) });
+      qc.invalidateQueries({ queryKey: ["automationRuns", boardId] });
+    },
+  });
+}
+
+export function useCreateBoard() {
+  const qc = useQueryClient();
+  return useMutation<Board, Error, { name: string; key?: string }, { prev: Board[] }>({
+    mutationFn: (args) => jiraClient.createBoard(args),
+
+    onMutate: async (args) => {
+      await qc.cancelQueries({ queryKey: jiraKeys.boards });
+      const prev = qc.getQueryData<Board[]>(jiraKeys.boards) ?? [];
+      const optimistic: Board = {
+        id: `tmp_${crypto.randomUUID()}`,
+        name: args.name,
+        key: args.key,
+      };
+      qc.setQueryData<Board[]>(jiraKeys.boards, [...prev, optimistic]);
+      return { prev };
+    },
+
+    onError: (err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Board[]>(jiraKeys.boards, ctx.prev);
+      toast("error", err.message || "Failed to create board");
+    },
+
+    onSuccess: (_data, vars) => {
+      toast("success", `Board "${vars.name}" created`);
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.boards });
+    },
+  });
+}
+
+export function useMoveIssue(boardId: string, sprintId: string | null) {
+  const qc = useQueryClient();
+
+  return useMutation<
+    Issue,
+    Error,
+    { id: string; toSprintId: string | null; version: number },
+    { prev: Issue[] }
+  >({
+    mutationFn: ({ id, toSprintId, version }) =>
+      jiraClient.moveIssue({ id, sprintId: toSprintId, version }),
+
+    onMutate: async ({ id, toSprintId }) => {
+      const key = jiraKeys.issues(boardId, sprintId);
+      await qc.cancelQueries({ queryKey: key });
+
+      const prev = qc.getQueryData<Issue[]>(key) ?? [];
+
+      // Optimistic update:
+      // If moving out of the current list, remove it.
+      // If moving within current scope, patch sprintId.
+      const next = prev
+        .map((it) => (it.id === id ? { ...it, sprintId: toSprintId } : it))
+        .filter((it) => {
+          // keep only issues that match the current route scope
+          const wantSprint = sprintId ?? null;
+          const itSprint = it.sprintId ?? null;
+          return itSprint === wantSprint;
+        });
+
+      qc.setQueryData<Issue[]>(key, next);
+      return { prev };
+    },
+
+    onError: (err, _vars, ctx) => {
+      const key = jiraKeys.issues(boardId, sprintId);
+      if (ctx?.prev) qc.setQueryData<Issue[]>(key, ctx.prev);
+      toast(
+        "error",
+        conflictingIssue(err) ? err.message : (workflowRefusal(err) ?? "Failed to move issue")
+      );
+    },
+
+    onSettled: (_data, _err, vars) => {
+      // current list
+      qc.invalidateQueries({ queryKey: jiraKeys.issues(boardId, sprintId) });
+
+      // also invalidate BOTH backlog and sprint list because move crosses scopes
+      invalidateHierarchy(qc, boardId);
+      invalidateSprintSummaries(qc, boardId);
+      qc.invalidateQueries({ queryKey: jiraKeys.history(vars.id) });
+    },
+  });
+}
+
+export function useCreateSprint(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<Sprint, Error, { name: string; goal?: string | null }, { prev: Sprint[] }>({
+    mutationFn: (args) => jiraClient.createSprint(boardId, args),
+
+    onMutate: async (args) => {
+      const key = jiraKeys.sprints(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Sprint[]>(key) ?? [];
+      const optimistic: Sprint = {
+        id: `tmp_${crypto.randomUUID()}`,
+        boardId,
+        name: args.name,
+        goal: args.goal ?? null,
+        state: "planned",
+        order: Math.max(0, ...prev.map((s) => s.order)) + 1000,
+        startDate: null,
+        endDate: null,
+        completedAt: null,
+      };
+      qc.setQueryData<Sprint[]>(key, [...prev, optimistic]);
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Sprint[]>(jiraKeys.sprints(boardId), ctx.prev);
+      toast("error", "Failed to create sprint");
+    },
+
+    onSuccess: (_data, vars) => {
+      toast("success", `Sprint "${vars.name}" created`);
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.sprints(boardId) });
+    },
+  });
+}
+
+export function useStartSprint(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<
+    Sprint,
+    Error,
+    { sprintId: string; goal?: string | null; startDate: string; endDate: string },
+    { prev: Sprint[] }
+  >({
+    mutationFn: ({ sprintId, ...args }) => jiraClient.startSprint(boardId, sprintId, args),
+
+    onMutate: async ({ sprintId, goal, startDate, endDate }) => {
+      const key = jiraKeys.sprints(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Sprint[]>(key) ?? [];
+      qc.setQueryData<Sprint[]>(
+        key,
+        prev.map((s) =>
+          s.id === sprintId
+            ? {
+                ...s,
+                state: "active",
+                goal: goal === undefined ? s.goal : goal,
+                startDate,
+                endDate,
+              }
+            : s
+        )
+      );
+      return { prev };
+    },
+
+    onError: (err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Sprint[]>(jiraKeys.sprints(boardId), ctx.prev);
+      toast("error", `Failed to start sprint: ${err.message}`);
+    },
+
+    onSuccess: (sprint) => {
+      toast("success", `${sprint.name} started`);
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.sprints(boardId) });
+      qc.invalidateQueries({ queryKey: ["issues", boardId] });
+    },
+  });
+}
+
+export function useUpdateSprint(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<
+    Sprint,
+    Error,
+    {
+      sprintId: string;
+      patch: {
+        name?: string;
+        goal?: string | null;
+        startDate?: string | null;
+        endDate?: string | null;
+      };
+    },
+    { prev: Sprint[] }
+  >({
+    mutationFn: ({ sprintId, patch }) => jiraClient.updateSprint(boardId, sprintId, patch),
+
+    onMutate: async ({ sprintId, patch }) => {
+      const key = jiraKeys.sprints(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Sprint[]>(key) ?? [];
+      qc.setQueryData<Sprint[]>(
+        key,
+        prev.map((s) => (s.id === sprintId ? { ...s, ...patch } : s))
+      );
+      return { prev };
+    },
+
+    onError: (err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Sprint[]>(jiraKeys.sprints(boardId), ctx.prev);
+      toast("error", `Failed to update sprint: ${err.message}`);
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.sprints(boardId) });
+    },
+  });
+}
+
+// `ids` lists the planned sprints, the next one to start first.
+export function useReorderSprints(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<Sprint[], Error, { ids: string[] }, { prev: Sprint[] }>({
+    mutationFn: ({ ids }) => jiraClient.reorderSprints(boardId, ids),
+
+    onMutate: async ({ ids }) => {
+      const key = jiraKeys.sprints(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Sprint[]>(key) ?? [];
+      // Planned sprints swap places among themselves; the others stay put.
+      const byId = new Map(prev.map((s) => [s.id, s]));
+      const slots = prev.filter((s) => ids.includes(s.id)).map((s) => s.order);
+      let next = 0;
+      qc.setQueryData<Sprint[]>(
+        key,
+        prev.map((s) => {
+          if (!ids.includes(s.id)) return s;
+          const moved = byId.get(ids[next])!;
+          return { ...moved, order: slots[next++] };
+        })
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Sprint[]>(jiraKeys.sprints(boardId), ctx.prev);
+      toast("error", "Failed to reorder sprints");
+    },
+
+    onSuccess: (sprints) => {
+      qc.setQueryData<Sprint[]>(jiraKeys.sprints(boardId), sprints);
+    },
+  });
+}
+
+// The sprint's issues go to the backlog, so every list and total refetches.
+export function useDeleteSprint(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<
+    { id: string; movedCount: number },
+    Error,
+    { sprintId: string },
+    { prev: Sprint[] }
+  >({
+    mutationFn: ({ sprintId }) => jiraClient.deleteSprint(boardId, sprintId),
+
+    onMutate: async ({ sprintId }) => {
+      const key = jiraKeys.sprints(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Sprint[]>(key) ?? [];
+      qc.setQueryData<Sprint[]>(
+        key,
+        prev.filter((s) => s.id !== sprintId)
+      );
+      return { prev };
+    },
+
+    onError: (err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Sprint[]>(jiraKeys.sprints(boardId), ctx.prev);
+      toast("error", `Failed to delete sprint: ${err.message}`);
+    },
+
+    onSuccess: ({ movedCount }, { sprintId }, ctx) => {
+      const name = ctx?.prev.find((s) => s.id === sprintId)?.name ?? "Sprint";
+      toast(
+        "success",
+        movedCount > 0
+          ? `${name} deleted; ${movedCount} ${movedCount === 1 ? "issue" : "issues"} moved to the backlog`
+          : `${name} deleted`
+      );
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.sprints(boardId) });
+      invalidateHierarchy(qc, boardId);
+      invalidateSprintSummaries(qc, boardId);
+    },
+  });
+}
+
+// Unfinished issues change sprint and may change status, so every list and total refetches.
+export function useCompleteSprint(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<SprintCompletion, Error, { sprintId: string; moveTo: string | null }>({
+    mutationFn: ({ sprintId, moveTo }) => jiraClient.completeSprint(boardId, sprintId, { moveTo }),
+
+    onSuccess: (report) => {
+      toast("success", describeCompletion(report));
+    },
+
+    onError: (err) => {
+      toast("error", `Failed to complete sprint: ${err.message}`);
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.sprints(boardId) });
+      invalidateHierarchy(qc, boardId);
+      invalidateSprintSummaries(qc, boardId);
+    },
+  });
+}
+
+export function useBoardMembers(boardId: string) {
+  return useQuery({
+    queryKey: jiraKeys.members(boardId),
+    queryFn: () => jiraClient.listMembers(boardId),
+    enabled: !!boardId,
+  });
+}
+
+export function useAddBoardMember(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<BoardMember, Error, { userId: string; role: BoardRole }>({
+    mutationFn: (args) => jiraClient.addMember(boardId, args),
+
+    onError: () => {
+      toast("error", "Failed to add member");
+    },
+
+    onSuccess: (member) => {
+      toast("success", `${member.name} added to board`);
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.members(boardId) });
+    },
+  });
+}
+
+export function useUpdateBoardMember(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<
+    BoardMember,
+    Error,
+    { userId: string; role: BoardRole },
+    { prev: BoardMember[] }
+  >({
+    mutationFn: ({ userId, role }) => jiraClient.updateMember(boardId, userId, { role }),
+
+    onMutate: async ({ userId, role }) => {
+      const key = jiraKeys.members(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<BoardMember[]>(key) ?? [];
+      qc.setQueryData<BoardMember[]>(
+        key,
+        prev.map((m) => (m.userId === userId ? { ...m, role } : m))
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<BoardMember[]>(jiraKeys.members(boardId), ctx.prev);
+      toast("error", "Failed to change member role");
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.members(boardId) });
+    },
+  });
+}
+
+export function useRemoveBoardMember(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<{ userId: string }, Error, { userId: string }, { prev: BoardMember[] }>({
+    mutationFn: ({ userId }) => jiraClient.removeMember(boardId, userId),
+
+    onMutate: async ({ userId }) => {
+      const key = jiraKeys.members(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<BoardMember[]>(key) ?? [];
+      qc.setQueryData<BoardMember[]>(
+        key,
+        prev.filter((m) => m.userId !== userId)
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<BoardMember[]>(jiraKeys.members(boardId), ctx.prev);
+      toast("error", "Failed to remove member");
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.members(boardId) });
+      qc.invalidateQueries({ queryKey: jiraKeys.boards });
+    },
+  });
+}
+
+export function useBoardInvites(boardId: string, enabled = true) {
+  return useQuery({
+    queryKey: jiraKeys.invites(boardId),
+    queryFn: () => jiraClient.listInvites(boardId),
+    enabled: !!boardId && enabled,
+  });
+}
+
+export function useCreateInvite(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<
+    BoardInvite,
+    Error,
+    { role: BoardRole; expiresInHours: number; maxUses: number | null }
+  >({
+    mutationFn: (args) => jiraClient.createInvite(boardId, args),
+
+    onError: () => {
+      toast("error", "Failed to create invite");
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.invites(boardId) });
+    },
+  });
+}
+
+export function useRevokeInvite(boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<{ id: string }, Error, { inviteId: string }, { prev: BoardInvite[] }>({
+    mutationFn: ({ inviteId }) => jiraClient.revokeInvite(boardId, inviteId),
+
+    onMutate: async ({ inviteId }) => {
+      const key = jiraKeys.invites(boardId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<BoardInvite[]>(key) ?? [];
+      qc.setQueryData<BoardInvite[]>(
+        key,
+        prev.filter((inv) => inv.id !== inviteId)
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<BoardInvite[]>(jiraKeys.invites(boardId), ctx.prev);
+      toast("error", "Failed to revoke invite");
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.invites(boardId) });
+    },
+  });
+}
+
+export function useInvitePreview(token: string) {
+  return useQuery({
+    queryKey: jiraKeys.invite(token),
+    queryFn: () => jiraClient.getInvite(token),
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+export function useAcceptInvite() {
+  const qc = useQueryClient();
+  return useMutation<{ boardId: string; role: BoardRole }, Error, { token: string }>({
+    mutationFn: ({ token }) => jiraClient.acceptInvite(token),
+
+    onError: () => {
+      toast("error", "Failed to accept invite");
+    },
+
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.boards });
+    },
+  });
+}
+
+export function useComments(issueId: string | null) {
+  return useQuery<Comment[]>({
+    queryKey: jiraKeys.comments(issueId ?? ""),
+    queryFn: () => jiraClient.listComments(issueId!),
+    enabled: !!issueId,
+  });
+}
+
+export function useCreateComment(issueId: string) {
+  const qc = useQueryClient();
+  return useMutation<
+    Comment,
+    Error,
+    { body: string; parentId: string | null },
+    { prev: Comment[] }
+  >({
+    mutationFn: (args) => jiraClient.createComment(issueId, args),
+
+    onMutate: async (args) => {
+      const key = jiraKeys.comments(issueId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Comment[]>(key) ?? [];
+
+      const user = useAuthStore.getState().user;
+      const optimistic: Comment = {
+        id: `tmp_${crypto.randomUUID()}`,
+        issueId,
+        parentId: args.parentId,
+        author: { id: user?.id ?? "", name: user?.name ?? "You" },
+        body: args.body,
+        createdAt: new Date().toISOString(),
+        editedAt: null,
+        deletedAt: null,
+      };
+      qc.setQueryData<Comment[]>(key, [...prev, optimistic]);
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Comment[]>(jiraKeys.comments(issueId), ctx.prev);
+      toast("error", "Failed to post comment");
+    },
+
+    onSettled: (_data, _err, vars) => {
+      qc.invalidateQueries({ queryKey: jiraKeys.comments(issueId) });
+      if (extractMentions(vars.body).length > 0) invalidateMentionedIssue(qc, issueId);
+    },
+  });
+}
+
+export function useUpdateComment(issueId: string) {
+  const qc = useQueryClient();
+  return useMutation<Comment, Error, { id: string; body: string }, { prev: Comment[] }>({
+    mutationFn: ({ id, body }) => jiraClient.updateComment(id, { body }),
+
+    onMutate: async ({ id, body }) => {
+      const key = jiraKeys.comments(issueId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Comment[]>(key) ?? [];
+      qc.setQueryData<Comment[]>(
+        key,
+        prev.map((c) => (c.id === id ? { ...c, body, editedAt: new Date().toISOString() } : c))
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Comment[]>(jiraKeys.comments(issueId), ctx.prev);
+      toast("error", "Failed to edit comment");
+    },
+
+    onSettled: (_data, _err, vars) => {
+      qc.invalidateQueries({ queryKey: jiraKeys.comments(issueId) });
+      if (extractMentions(vars.body).length > 0) invalidateMentionedIssue(qc, issueId);
+    },
+  });
+}
+
+export function useDeleteComment(issueId: string) {
+  const qc = useQueryClient();
+  return useMutation<Comment, Error, { id: string }, { prev: Comment[] }>({
+    mutationFn: ({ id }) => jiraClient.deleteComment(id),
+
+    onMutate: async ({ id }) => {
+      const key = jiraKeys.comments(issueId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Comment[]>(key) ?? [];
+      qc.setQueryData<Comment[]>(
+        key,
+        prev.map((c) => (c.id === id ? { ...c, body: "", deletedAt: new Date().toISOString() } : c))
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Comment[]>(jiraKeys.comments(issueId), ctx.prev);
+      toast("error", "Failed to delete comment");
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.comments(issueId) });
+    },
+  });
+}
+
+// Mentioned people are added to the issue's watchers on the server.
+function invalidateMentionedIssue(qc: ReturnType<typeof useQueryClient>, issueId: string) {
+  qc.invalidateQueries({ queryKey: ["issues"] });
+  qc.invalidateQueries({ queryKey: jiraKeys.history(issueId) });
+}
+
+export function useNotifications() {
+  return useQuery<Notification[]>({
+    queryKey: jiraKeys.notifications,
+    queryFn: () => jiraClient.listNotifications(),
+    refetchInterval: 60_000,
+  });
+}
+
+export function useMarkNotificationRead() {
+  const qc = useQueryClient();
+  return useMutation<{ ok: true }, Error, { id: string }, { prev: Notification[] }>({
+    mutationFn: ({ id }) => jiraClient.markNotificationRead(id),
+
+    onMutate: async ({ id }) => {
+      await qc.cancelQueries({ queryKey: jiraKeys.notifications });
+      const prev = qc.getQueryData<Notification[]>(jiraKeys.notifications) ?? [];
+      const now = new Date().toISOString();
+      qc.setQueryData<Notification[]>(
+        jiraKeys.notifications,
+        prev.map((n) => (n.id === id ? { ...n, readAt: n.readAt ?? now } : n))
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Notification[]>(jiraKeys.notifications, ctx.prev);
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.notifications });
+    },
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const qc = useQueryClient();
+  return useMutation<{ ok: true }, Error, void, { prev: Notification[] }>({
+    mutationFn: () => jiraClient.markAllNotificationsRead(),
+
+    onMutate: async () => {
+      await qc.cancelQueries({ queryKey: jiraKeys.notifications });
+      const prev = qc.getQueryData<Notification[]>(jiraKeys.notifications) ?? [];
+      const now = new Date().toISOString();
+      qc.setQueryData<Notification[]>(
+        jiraKeys.notifications,
+        prev.map((n) => ({ ...n, readAt: n.readAt ?? now }))
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Notification[]>(jiraKeys.notifications, ctx.prev);
+      toast("error", "Failed to mark notifications as read");
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.notifications });
+    },
+  });
+}
+
+export function useAttachments(issueId: string | null) {
+  return useQuery<Attachment[]>({
+    queryKey: jiraKeys.attachments(issueId ?? ""),
+    queryFn: () => jiraClient.listAttachments(issueId!),
+    enabled: !!issueId,
+  });
+}
+
+export function useUploadAttachment(issueId: string) {
+  const qc = useQueryClient();
+  return useMutation<Attachment, Error, { file: File }>({
+    mutationFn: ({ file }) => jiraClient.uploadAttachment(issueId, file),
+
+    onSuccess: (created) => {
+      qc.setQueryData<Attachment[]>(jiraKeys.attachments(issueId), (prev = []) => [
+        ...prev,
+        created,
+      ]);
+    },
+
+    onError: (err, { file }) => {
+      toast("error", `Failed to upload ${file.name}: ${err.message}`);
+    },
+  });
+}
+
+export function useDeleteAttachment(issueId: string) {
+  const qc = useQueryClient();
+  return useMutation<{ id: string }, Error, { id: string }, { prev: Attachment[] }>({
+    mutationFn: ({ id }) => jiraClient.deleteAttachment(id),
+
+    onMutate: async ({ id }) => {
+      const key = jiraKeys.attachments(issueId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Attachment[]>(key) ?? [];
+      qc.setQueryData<Attachment[]>(
+        key,
+        prev.filter((a) => a.id !== id)
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Attachment[]>(jiraKeys.attachments(issueId), ctx.prev);
+      toast("error", "Failed to delete attachment");
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: jiraKeys.attachments(issueId) });
+    },
+  });
+}
+
+export function useCreateIssueLink(issueId: string, boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<IssueLink, Error, { relation: IssueLinkRelation; issueId: string }>({
+    mutationFn: (input) => jiraClient.createIssueLink(issueId, input),
+
+    onSuccess: (created) => {
+      qc.setQueryData<IssueLink[]>(jiraKeys.links(issueId), (prev = []) => [...prev, created]);
+    },
+
+    onError: (err) => {
+      toast("error", `Failed to link issues: ${err.message}`);
+    },
+
+    onSettled: (_data, _err, vars) => {
+      // Both ends list the link, and blocked indicators may change.
+      qc.invalidateQueries({ queryKey: jiraKeys.links(issueId) });
+      qc.invalidateQueries({ queryKey: jiraKeys.links(vars.issueId) });
+      qc.invalidateQueries({ queryKey: ["issues", boardId] });
+    },
+  });
+}
+
+export function useDeleteIssueLink(issueId: string, boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<{ id: string }, Error, { id: string }, { prev: IssueLink[] }>({
+    mutationFn: ({ id }) => jiraClient.deleteIssueLink(id),
+
+    onMutate: async ({ id }) => {
+      const key = jiraKeys.links(issueId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<IssueLink[]>(key) ?? [];
+      qc.setQueryData<IssueLink[]>(
+        key,
+        prev.filter((l) => l.id !== id)
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<IssueLink[]>(jiraKeys.links(issueId), ctx.prev);
+      toast("error", "Failed to remove link");
+    },
+
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: ["links"] });
+      qc.invalidateQueries({ queryKey: ["issues", boardId] });
+    },
+  });
+}
+
+// Logged time is taken off the remaining estimate on the server, so the
+// issue lists, its history and the sprint totals change with every worklog.
+function invalidateLoggedWork(
+  qc: ReturnType<typeof useQueryClient>,
+  issueId: string,
+  boardId: string
+) {
+  qc.invalidateQueries({ queryKey: jiraKeys.worklogs(issueId) });
+  qc.invalidateQueries({ queryKey: ["issues", boardId] });
+  qc.invalidateQueries({ queryKey: jiraKeys.history(issueId) });
+  invalidateSprintSummaries(qc, boardId);
+}
+
+export function useCreateWorklog(issueId: string, boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<Worklog, Error, { minutes: number; date: string; note: string }>({
+    mutationFn: (input) => jiraClient.createWorklog(issueId, input),
+
+    onSuccess: (created) => {
+      qc.setQueryData<Worklog[]>(jiraKeys.worklogs(issueId), (prev = []) => [created, ...prev]);
+    },
+
+    onError: (err) => {
+      toast("error", `Failed to log work: ${err.message}`);
+    },
+
+    onSettled: () => invalidateLoggedWork(qc, issueId, boardId),
+  });
+}
+
+export function useDeleteWorklog(issueId: string, boardId: string) {
+  const qc = useQueryClient();
+  return useMutation<{ id: string }, Error, { id: string }, { prev: Worklog[] }>({
+    mutationFn: ({ id }) => jiraClient.deleteWorklog(id),
+
+    onMutate: async ({ id }) => {
+      const key = jiraKeys.worklogs(issueId);
+      await qc.cancelQueries({ queryKey: key });
+      const prev = qc.getQueryData<Worklog[]>(key) ?? [];
+      qc.setQueryData<Worklog[]>(
+        key,
+        prev.filter((w) => w.id !== id)
+      );
+      return { prev };
+    },
+
+    onError: (_err, _vars, ctx) => {
+      if (ctx?.prev) qc.setQueryData<Worklog[]>(jiraKeys.worklogs(issueId), ctx.prev);
+      toast("error", "Failed to delete worklog");
+    },
+
+    onSettled: () => invalidateLoggedWork(qc, issueId, boardId),
   });
 }
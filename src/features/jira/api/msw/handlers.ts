@@ -1,5 +1,5 @@
 import { http, HttpResponse } from "msw";
-import type { Issue } from "../../domain/types";
+import type { Issue, Status } from "../../domain/types";
 
 const STORAGE_KEY = "jira-lab:issuesDb";
 
@@ -7,6 +7,33 @@ function newId() {
   return crypto?.randomUUID?.() ?? `id-${Date.now()}-${Math.random()}`;
 }
 
+const DEMO_STATUSES: Status[] = [
+  ["ST-todo", "To do", "todo"] as const,
+  ["ST-doing", "In progress", "in_progress"] as const,
+  ["ST-done", "Done", "done"] as const,
+].map(([id, name, category], idx) => ({
+  id,
+  boardId: "B-1",
+  name,
+  category,
+  order: (idx + 1) * 1000,
+  transitionsTo: [],
+  validators: [],
+  wipMin: null,
+  wipMax: null,
+  wipHard: false,
+  createdAt: "2024-01-01T00:00:00.000Z",
+}));
+
+// Issues carry a summary of their status, as the API returns them.
+function withStatus(statusId: string): Pick<Issue, "statusId" | "status"> {
+  const status = DEMO_STATUSES.find((s) => s.id === statusId) ?? DEMO_STATUSES[0];
+  return {
+    statusId: status.id,
+    status: { id: status.id, name: status.name, category: status.category },
+  };
+}
+
 function makeDemoIssues(): Issue[] {
   return [
     {
@@ -14,24 +41,48 @@ function makeDemoIssues(): Issue[] {
       key: "ISSUE-101",
       boardId: "B-1",
       sprintId: "S-1",
-      status: "todo",
+      ...withStatus("ST-todo"),
       order: 1000,
+      type: "task",
+      priority: "medium",
+      labels: [],
       title: "DnD ordering + optimistic updates",
       description: "",
       assigneeId: null,
       watcherIds: [],
+      parentId: null,
+      storyPoints: null,
+      originalEstimate: null,
+      remainingEstimate: null,
+      dueDate: null,
+      customFields: {},
+      archivedAt: null,
+      deletedAt: null,
+      version: 1,
     },
     {
       id: newId(),
       key: "ISSUE-102",
       boardId: "B-1",
       sprintId: "S-1",
-      status: "in_progress",
+      ...withStatus("ST-doing"),
       order: 1000,
+      type: "task",
+      priority: "medium",
+      labels: [],
       title: "EntityPicker UX polish",
       description: "",
       assigneeId: null,
       watcherIds: [],
+      parentId: null,
+      storyPoints: null,
+      originalEstimate: null,
+      remainingEstimate: null,
+      dueDate: null,
+      customFields: {},
+      archivedAt: null,
+      deletedAt: null,
+      version: 1,
     },
   ];
 }
@@ -64,6 +115,10 @@ function normalizeSprintId(raw: string | null) {
 }
 
 export const jiraHandlers = [
+  http.get("*/api/boards/:boardId/statuses", ({ params }) =>
+    HttpResponse.json(DEMO_STATUSES.filter((s) => s.boardId === String(params.boardId)))
+  ),
+
   http.get("*/api/issues", ({ request }) => {
     const url = new URL(request.url);
     const boardId = url.searchParams.get("boardId") ?? "";
@@ -87,7 +142,8 @@ export const jiraHandlers = [
     const byId = new Map(body.changes.map((c) => [c.id, c.patch]));
     issuesDb = issuesDb.map((it) => {
       const patch = byId.get(it.id);
-      return patch ? { ...it, ...patch } : it;
+      if (!patch) return it;
+      return { ...it, ...patch, ...(patch.statusId ? withStatus(patch.statusId) : {}) };
     });
     saveDb(issuesDb);
 
@@ -103,9 +159,18 @@ export const jiraHandlers = [
   }),
   http.patch("*/api/issues/:id", async ({ params, request }) => {
     const id = String(params.id);
-    const patch = (await request.json()) as Partial<Issue>;
-
-    issuesDb = issuesDb.map((it) => (it.id === id ? { ...it, ...patch } : it));
+    const { patch } = (await request.json()) as { patch: Partial<Issue> };
+
+    issuesDb = issuesDb.map((it) =>
+      it.id === id
+        ? {
+            ...it,
+            ...patch,
+            ...(patch.statusId ? withStatus(patch.statusId) : {}),
+            version: it.version + 1,
+          }
+        : it
+    );
     saveDb(issuesDb);
 
     const updated = issuesDb.find((x) => x.id === id);
@@ -121,12 +186,24 @@ export const jiraHandlers = [
       key: `ISSUE-${100 + issuesDb.length + 1}`,
       boardId: String(body.boardId ?? ""),
       sprintId: normalizeSprintId((body.sprintId as string) ?? null),
-      status: body.status ?? "todo",
+      ...withStatus(body.statusId ?? "ST-todo"),
       order: Number(body.order ?? 999999),
+      type: body.type ?? "task",
+      priority: body.priority ?? "medium",
+      labels: body.labels ?? [],
       title: String(body.title ?? ""),
       description: String(body.description ?? ""),
       assigneeId: body.assigneeId ?? null,
       watcherIds: body.watcherIds ?? [],
+      parentId: body.parentId ?? null,
+      storyPoints: body.storyPoints ?? null,
+      originalEstimate: body.originalEstimate ?? null,
+      remainingEstimate: body.remainingEstimate ?? body.originalEstimate ?? null,
+      dueDate: body.dueDate ?? null,
+      customFields: body.customFields ?? {},
+      archivedAt: null,
+      deletedAt: null,
+      version: 1,
     };
 
     issuesDb = [...issuesDb, created];
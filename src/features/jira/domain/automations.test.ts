@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { describeAction, describeTrigger } from "./automations";
+
+const names = {
+  statuses: [{ id: "st-done", name: "Done" }],
+  sprints: [{ id: "sprint-2", name: "Sprint 2" }],
+  people: [{ id: "u1", name: "Ada" }],
+};
+
+describe("describeTrigger", () => {
+  it("names the status a status change leads to", () => {
+    expect(describeTrigger({ type: "status_changed", toStatusId: "st-done" }, names)).toBe(
+      "Status changed to Done"
+    );
+    expect(describeTrigger({ type: "status_changed", toStatusId: null }, names)).toBe(
+      "Status changed"
+    );
+    expect(describeTrigger({ type: "status_changed", toStatusId: "gone" }, names)).toBe(
+      "Status changed to an unknown status"
+    );
+  });
+
+  it("describes watched fields and schedules", () => {
+    expect(describeTrigger({ type: "field_changed", field: "assigneeId" }, names)).toBe(
+      "Assignee changed"
+    );
+    expect(describeTrigger({ type: "scheduled", everyMinutes: 120 }, names)).toBe("Every 2 h");
+    expect(describeTrigger({ type: "scheduled", everyMinutes: 45 }, names)).toBe("Every 45 min");
+    expect(describeTrigger({ type: "issue_created" }, names)).toBe("Issue created");
+  });
+});
+
+describe("describeAction", () => {
+  it("describes field changes, clearing included", () => {
+    expect(describeAction({ type: "set_field", field: "priority", value: "high" }, names)).toBe(
+      "Set priority to High"
+    );
+    expect(describeAction({ type: "set_field", field: "labels", value: [] }, names)).toBe(
+      "Clear labels"
+    );
+    expect(describeAction({ type: "set_field", field: "storyPoints", value: 3 }, names)).toBe(
+      "Set story points to 3"
+    );
+  });
+
+  it("names the people and sprints actions refer to", () => {
+    expect(describeAction({ type: "assign", userId: "u1" }, names)).toBe("Assign to Ada");
+    expect(describeAction({ type: "assign", userId: null }, names)).toBe("Unassign");
+    expect(describeAction({ type: "add_watcher", userId: "u9" }, names)).toBe(
+      "Add an unknown member as a watcher"
+    );
+    expect(describeAction({ type: "move_to_sprint", sprintId: "sprint-2" }, names)).toBe(
+      "Move to Sprint 2"
+    );
+    expect(describeAction({ type: "move_to_sprint", sprintId: null }, names)).toBe(
+      "Move to the backlog"
+    );
+  });
+});
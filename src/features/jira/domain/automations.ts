@@ -0,0 +1,139 @@
+import type {
+  AutomationAction,
+  AutomationOutcome,
+  AutomationTrigger,
+  AutomationTriggerType,
+  AutomationWatchedField,
+  SetFieldAction,
+} from "./types";
+import { ISSUE_PRIORITY_LABELS, ISSUE_TYPE_LABELS } from "./issueFields";
+import { formatDueDate } from "./dueDates";
+
+export const AUTOMATION_TRIGGER_LABELS: Record<AutomationTriggerType, string> = {
+  issue_created: "Issue created",
+  status_changed: "Status changed",
+  field_changed: "Field changed",
+  sprint_started: "Sprint started",
+  scheduled: "On a schedule",
+};
+
+export const AUTOMATION_TRIGGER_TYPES = Object.keys(
+  AUTOMATION_TRIGGER_LABELS
+) as AutomationTriggerType[];
+
+export const AUTOMATION_WATCHED_FIELD_LABELS: Record<AutomationWatchedField, string> = {
+  title: "Title",
+  assigneeId: "Assignee",
+  priority: "Priority",
+  type: "Type",
+  labels: "Labels",
+  storyPoints: "Story points",
+  dueDate: "Due date",
+  sprintId: "Sprint",
+  parentId: "Parent",
+};
+
+export const AUTOMATION_WATCHED_FIELDS = Object.keys(
+  AUTOMATION_WATCHED_FIELD_LABELS
+) as AutomationWatchedField[];
+
+export type AutomationActionType = AutomationAction["type"];
+
+export const AUTOMATION_ACTION_LABELS: Record<AutomationActionType, string> = {
+  set_field: "Set field",
+  assign: "Assign",
+  add_watcher: "Add watcher",
+  add_comment: "Add comment",
+  move_to_sprint: "Move to sprint",
+  send_webhook: "Send webhook",
+};
+
+export const AUTOMATION_ACTION_TYPES = Object.keys(
+  AUTOMATION_ACTION_LABELS
+) as AutomationActionType[];
+
+export const SET_FIELD_LABELS: Record<SetFieldAction["field"], string> = {
+  priority: "Priority",
+  type: "Type",
+  labels: "Labels",
+  storyPoints: "Story points",
+  dueDate: "Due date",
+};
+
+export const SET_FIELDS = Object.keys(SET_FIELD_LABELS) as SetFieldAction["field"][];
+
+export const AUTOMATION_OUTCOME_LABELS: Record<AutomationOutcome, string> = {
+  success: "Succeeded",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+// Names of the statuses, sprints and people rules refer to by id. Ids that
+// are no longer on the board read as "unknown".
+type Names = {
+  statuses: Array<{ id: string; name: string }>;
+  sprints: Array<{ id: string; name: string }>;
+  people: Array<{ id: string; name: string }>;
+};
+
+function nameOf(items: Array<{ id: string; name: string }>, id: string, unknown: string) {
+  return items.find((it) => it.id === id)?.name ?? unknown;
+}
+
+/** A trigger in words, e.g. "Status changed to Done". */
+export function describeTrigger(trigger: AutomationTrigger, names: Pick<Names, "statuses">) {
+  switch (trigger.type) {
+    case "status_changed":
+      return trigger.toStatusId
+        ? `Status changed to ${nameOf(names.statuses, trigger.toStatusId, "an unknown status")}`
+        : "Status changed";
+    case "field_changed":
+      return `${AUTOMATION_WATCHED_FIELD_LABELS[trigger.field]} changed`;
+    case "scheduled":
+      return trigger.everyMinutes % 60 === 0
+        ? `Every ${trigger.everyMinutes / 60} h`
+        : `Every ${trigger.everyMinutes} min`;
+    default:
+      return AUTOMATION_TRIGGER_LABELS[trigger.type];
+  }
+}
+
+function describeSetField(action: SetFieldAction) {
+  const label = SET_FIELD_LABELS[action.field].toLowerCase();
+  switch (action.field) {
+    case "priority":
+      return `Set ${label} to ${ISSUE_PRIORITY_LABELS[action.value]}`;
+    case "type":
+      return `Set ${label} to ${ISSUE_TYPE_LABELS[action.value]}`;
+    case "labels":
+      return action.value.length ? `Set ${label} to ${action.value.join(", ")}` : `Clear ${label}`;
+    case "storyPoints":
+      return action.value === null ? `Clear ${label}` : `Set ${label} to ${action.value}`;
+    case "dueDate":
+      return action.value === null
+        ? `Clear ${label}`
+        : `Set ${label} to ${formatDueDate(action.value)}`;
+  }
+}
+
+/** An action in words, e.g. "Assign to Ada" or "Move to the backlog". */
+export function describeAction(action: AutomationAction, names: Omit<Names, "statuses">) {
+  switch (action.type) {
+    case "set_field":
+      return describeSetField(action);
+    case "assign":
+      return action.userId
+        ? `Assign to ${nameOf(names.people, action.userId, "an unknown member")}`
+        : "Unassign";
+    case "add_watcher":
+      return `Add ${nameOf(names.people, action.userId, "an unknown member")} as a watcher`;
+    case "add_comment":
+      return `Comment "${action.body}"`;
+    case "move_to_sprint":
+      return action.sprintId
+        ? `Move to ${nameOf(names.sprints, action.sprintId, "an unknown sprint")}`
+        : "Move to the backlog";
+    case "send_webhook":
+      return `Send a webhook to ${action.url}`;
+  }
+}
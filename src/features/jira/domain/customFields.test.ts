@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { formatCustomFieldValue, matchesCustomField } from "./customFields";
+import type { CustomField } from "./types";
+
+const field = (type: CustomField["type"]): CustomField => ({
+  id: "f1",
+  boardId: "b1",
+  name: "Field",
+  type,
+  options: [],
+  createdAt: "2026-06-08T09:00:00.000Z",
+});
+
+const personName = (id: string) => ({ u1: "Susan" })[id] ?? "Unknown user";
+
+describe("formatCustomFieldValue", () => {
+  it("joins multi-select values and resolves users", () => {
+    expect(formatCustomFieldValue(field("multi_select"), ["a", "b"], personName)).toBe("a, b");
+    expect(formatCustomFieldValue(field("user"), "u1", personName)).toBe("Susan");
+    expect(formatCustomFieldValue(field("number"), 3, personName)).toBe("3");
+  });
+
+  it("is empty without a value", () => {
+    expect(formatCustomFieldValue(field("text"), undefined, personName)).toBe("");
+  });
+});
+
+describe("matchesCustomField", () => {
+  it("matches text on a case-insensitive substring", () => {
+    expect(matchesCustomField(field("text"), "Acme Corp", "acme")).toBe(true);
+    expect(matchesCustomField(field("text"), "Acme Corp", "globex")).toBe(false);
+  });
+
+  it("compares numbers numerically", () => {
+    expect(matchesCustomField(field("number"), 2.5, "2.50")).toBe(true);
+    expect(matchesCustomField(field("number"), 2, "3")).toBe(false);
+  });
+
+  it("matches select, date and user values exactly", () => {
+    expect(matchesCustomField(field("select"), "production", "production")).toBe(true);
+    expect(matchesCustomField(field("select"), "production", "prod")).toBe(false);
+    expect(matchesCustomField(field("date"), "2026-06-08", "2026-06-08")).toBe(true);
+    expect(matchesCustomField(field("user"), "u1", "u2")).toBe(false);
+  });
+
+  it("matches a multi-select that contains the filter", () => {
+    expect(matchesCustomField(field("multi_select"), ["mac", "linux"], "linux")).toBe(true);
+  });
+
+  it("never matches a missing value", () => {
+    expect(matchesCustomField(field("text"), undefined, "a")).toBe(false);
+  });
+});
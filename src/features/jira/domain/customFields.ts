@@ -0,0 +1,57 @@
+import type { CustomField, CustomFieldType, CustomFieldValue } from "./types";
+import { formatDueDate } from "./dueDates";
+
+export const CUSTOM_FIELD_TYPES: readonly CustomFieldType[] = [
+  "text",
+  "number",
+  "select",
+  "multi_select",
+  "date",
+  "user",
+];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  select: "Select",
+  multi_select: "Multi-select",
+  date: "Date",
+  user: "User",
+};
+
+/** Readable form of a value; `personName` resolves user field ids. */
+export function formatCustomFieldValue(
+  field: CustomField,
+  value: CustomFieldValue | undefined,
+  personName: (id: string) => string
+): string {
+  if (value === undefined) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (field.type === "user") return personName(String(value));
+  if (field.type === "date") return formatDueDate(String(value));
+  return String(value);
+}
+
+/**
+ * Whether a value passes a filter typed into the board filters: text fields
+ * match on a substring, multi-selects when any choice equals the filter, and
+ * everything else on equality.
+ */
+export function matchesCustomField(
+  field: CustomField,
+  value: CustomFieldValue | undefined,
+  filter: string
+): boolean {
+  if (value === undefined) return false;
+
+  switch (field.type) {
+    case "text":
+      return String(value).toLowerCase().includes(filter.trim().toLowerCase());
+    case "number":
+      return filter.trim() !== "" && Number(value) === Number(filter);
+    case "multi_select":
+      return Array.isArray(value) && value.includes(filter);
+    default:
+      return value === filter;
+  }
+}
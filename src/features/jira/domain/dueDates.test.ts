@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { addDays, dueDay, dueStatus, isDueThisWeek, localDay } from "./dueDates";
+
+// Wednesday.
+const today = "2026-06-03";
+
+const issue = (dueDate: string | null, category: "todo" | "done" = "todo") => ({
+  dueDate,
+  status: { id: `st-${category}`, name: category, category },
+});
+
+describe("localDay", () => {
+  it("formats the local calendar day", () => {
+    expect(localDay(new Date(2026, 0, 5, 23, 30))).toBe("2026-01-05");
+  });
+});
+
+describe("addDays", () => {
+  it("crosses month and year boundaries", () => {
+    expect(addDays("2026-01-31", 1)).toBe("2026-02-01");
+    expect(addDays("2026-12-31", 1)).toBe("2027-01-01");
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+  });
+});
+
+describe("dueDay", () => {
+  it("drops the time the API sends with the day", () => {
+    expect(dueDay(issue("2026-06-03T00:00:00.000Z"))).toBe("2026-06-03");
+    expect(dueDay(issue("2026-06-03"))).toBe("2026-06-03");
+    expect(dueDay(issue(null))).toBeNull();
+  });
+});
+
+describe("dueStatus", () => {
+  it("flags past due days as overdue", () => {
+    expect(dueStatus(issue("2026-06-02T00:00:00.000Z"), today)).toBe("overdue");
+  });
+
+  it("flags today and tomorrow as due soon", () => {
+    expect(dueStatus(issue("2026-06-03"), today)).toBe("due_soon");
+    expect(dueStatus(issue("2026-06-04"), today)).toBe("due_soon");
+    expect(dueStatus(issue("2026-06-05"), today)).toBeNull();
+  });
+
+  it("ignores finished issues and issues without a due date", () => {
+    expect(dueStatus(issue("2026-06-01", "done"), today)).toBeNull();
+    expect(dueStatus(issue(null), today)).toBeNull();
+  });
+});
+
+describe("isDueThisWeek", () => {
+  it("matches days from today through Sunday", () => {
+    expect(isDueThisWeek(issue("2026-06-03"), today)).toBe(true);
+    expect(isDueThisWeek(issue("2026-06-07"), today)).toBe(true);
+    expect(isDueThisWeek(issue("2026-06-08"), today)).toBe(false);
+    expect(isDueThisWeek(issue("2026-06-02"), today)).toBe(false);
+  });
+
+  it("treats Sunday as the last day of its own week", () => {
+    expect(isDueThisWeek(issue("2026-06-07"), "2026-06-07")).toBe(true);
+    expect(isDueThisWeek(issue("2026-06-08"), "2026-06-07")).toBe(false);
+  });
+
+  it("ignores finished issues", () => {
+    expect(isDueThisWeek(issue("2026-06-04", "done"), today)).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import type { Issue } from "./types";
+
+// Due dates are calendar days (YYYY-MM-DD). They are compared as strings
+// against the viewer's local day, so "today" means today where the user is.
+
+export type DueStatus = "overdue" | "due_soon";
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** The local calendar day of `date`, as YYYY-MM-DD. */
+export function localDay(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Shifts a YYYY-MM-DD day by `days` calendar days. */
+export function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** The issue's due day as YYYY-MM-DD, or null when it has none. */
+export function dueDay(issue: Pick<Issue, "dueDate">): string | null {
+  return issue.dueDate ? issue.dueDate.slice(0, 10) : null;
+}
+
+/** Formats a YYYY-MM-DD day for display, without shifting it across time zones. */
+export function formatDueDate(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: "UTC" });
+}
+
+/**
+ * Overdue when the due day has passed, due soon when it is today or
+ * tomorrow. Finished issues are never flagged.
+ */
+export function dueStatus(
+  issue: Pick<Issue, "dueDate" | "status">,
+  today: string
+): DueStatus | null {
+  const due = dueDay(issue);
+  if (!due || issue.status.category === "done") return null;
+  if (due < today) return "overdue";
+  if (due <= addDays(today, 1)) return "due_soon";
+  return null;
+}
+
+/** Whether an unfinished issue is due between today and the coming Sunday. */
+export function isDueThisWeek(issue: Pick<Issue, "dueDate" | "status">, today: string): boolean {
+  const due = dueDay(issue);
+  if (!due || issue.status.category === "done") return false;
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const sunday = addDays(today, (7 - weekday) % 7);
+  return due >= today && due <= sunday;
+}
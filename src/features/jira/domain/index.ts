@@ -1,3 +1,11 @@
 export * from "./types";
 export * from "./jira.utils";
 export * from "./issueFilters";
+export * from "./issueHistory";
+export * from "./issueFields";
+export * from "./dueDates";
+export * from "./customFields";
+export * from "./swimlanes";
+export * from "./automations";
+export * from "./sprints";
+export * from "./planning";
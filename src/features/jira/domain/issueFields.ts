@@ -0,0 +1,68 @@
+import { CHILD_ISSUE_TYPES } from "@jira-lab/shared";
+import type {
+  IssueLinkRelation,
+  IssuePriority,
+  IssueType,
+  StatusCategory,
+  StatusValidator,
+} from "./types";
+
+export const STATUS_CATEGORIES: StatusCategory[] = ["todo", "in_progress", "done"];
+
+export const STATUS_CATEGORY_LABELS: Record<StatusCategory, string> = {
+  todo: "To do",
+  in_progress: "In progress",
+  done: "Done",
+};
+
+export const STATUS_VALIDATORS: StatusValidator[] = ["assignee_required", "subtasks_done"];
+
+export const STATUS_VALIDATOR_LABELS: Record<StatusValidator, string> = {
+  assignee_required: "Needs an assignee",
+  subtasks_done: "Sub-tasks done",
+};
+
+export const ISSUE_TYPE_LABELS: Record<IssueType, string> = {
+  bug: "Bug",
+  story: "Story",
+  task: "Task",
+  epic: "Epic",
+  subtask: "Sub-task",
+};
+
+export const ISSUE_PRIORITY_LABELS: Record<IssuePriority, string> = {
+  lowest: "Lowest",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  highest: "Highest",
+};
+
+export const ISSUE_LINK_RELATION_LABELS: Record<IssueLinkRelation, string> = {
+  blocks: "blocks",
+  is_blocked_by: "is blocked by",
+  duplicates: "duplicates",
+  is_duplicated_by: "is duplicated by",
+  relates_to: "relates to",
+};
+
+export const ISSUE_LINK_RELATIONS = Object.keys(ISSUE_LINK_RELATION_LABELS) as IssueLinkRelation[];
+
+export const ISSUE_TYPES = Object.keys(ISSUE_TYPE_LABELS) as IssueType[];
+
+/** Lowest first, matching the order the server sorts and validates in. */
+export const ISSUE_PRIORITIES = Object.keys(ISSUE_PRIORITY_LABELS) as IssuePriority[];
+
+/**
+ * Types an issue may take under the given parent. Without a parent anything
+ * but a sub-task goes, since sub-tasks only exist under another issue.
+ */
+export function issueTypesUnder(parentType: IssueType | null): readonly IssueType[] {
+  if (parentType) return CHILD_ISSUE_TYPES[parentType];
+  return ISSUE_TYPES.filter((t) => t !== "subtask");
+}
+
+/** Type given to children created inline under an issue, or null if it can't have any. */
+export function defaultChildType(parentType: IssueType): IssueType | null {
+  return CHILD_ISSUE_TYPES[parentType][0] ?? null;
+}
@@ -1,18 +1,31 @@
 import { describe, it, expect } from "vitest";
 import { filterIssues, hasActiveFilters, emptyFilters, type IssueFilters } from "./issueFilters";
-import type { Issue } from "./types";
+import type { CustomField, Issue } from "./types";
 
 const base: Issue = {
   id: "1",
   key: "BOARD-1",
   boardId: "b1",
   sprintId: "s1",
-  status: "todo",
+  statusId: "st-todo",
+  status: { id: "st-todo", name: "To do", category: "todo" },
   order: 1000,
+  type: "task",
+  priority: "medium",
+  labels: [],
   title: "Setup project",
   description: "Initial setup",
   assigneeId: null,
   watcherIds: [],
+  parentId: null,
+  storyPoints: null,
+  originalEstimate: null,
+  remainingEstimate: null,
+  dueDate: null,
+  customFields: {},
+  archivedAt: null,
+  deletedAt: null,
+  version: 1,
 };
 
 const issues: Issue[] = [
@@ -21,7 +34,8 @@ const issues: Issue[] = [
     id: "1",
     title: "Setup project",
     description: "Project scaffolding",
-    status: "todo",
+    statusId: "st-todo",
+    status: { id: "st-todo", name: "To do", category: "todo" },
     assigneeId: "u1",
   },
   {
@@ -30,7 +44,9 @@ const issues: Issue[] = [
     key: "BOARD-2",
     title: "Add tests",
     description: "Unit tests",
-    status: "in_progress",
+    statusId: "st-in_progress",
+    status: { id: "st-in_progress", name: "In progress", category: "in_progress" },
+    labels: ["testing"],
     assigneeId: "u2",
   },
   {
@@ -39,7 +55,8 @@ const issues: Issue[] = [
     key: "BOARD-3",
     title: "Deploy app",
     description: "Production deploy",
-    status: "done",
+    statusId: "st-done",
+    status: { id: "st-done", name: "Done", category: "done" },
     assigneeId: "u1",
   },
   {
@@ -48,7 +65,11 @@ const issues: Issue[] = [
     key: "BOARD-4",
     title: "Fix login bug",
     description: "Auth fix",
-    status: "todo",
+    statusId: "st-todo",
+    status: { id: "st-todo", name: "To do", category: "todo" },
+    type: "bug",
+    priority: "high",
+    labels: ["auth", "testing"],
     assigneeId: null,
   },
 ];
@@ -63,13 +84,28 @@ describe("hasActiveFilters", () => {
   });
 
   it("returns true when status is set", () => {
-    expect(hasActiveFilters({ ...emptyFilters, status: "todo" })).toBe(true);
+    expect(hasActiveFilters({ ...emptyFilters, statusId: "st-todo" })).toBe(true);
   });
 
   it("returns true when assigneeId is set", () => {
     expect(hasActiveFilters({ ...emptyFilters, assigneeId: "u1" })).toBe(true);
   });
 
+  it("returns true when type, priority or label is set", () => {
+    expect(hasActiveFilters({ ...emptyFilters, type: "bug" })).toBe(true);
+    expect(hasActiveFilters({ ...emptyFilters, priority: "high" })).toBe(true);
+    expect(hasActiveFilters({ ...emptyFilters, label: "auth" })).toBe(true);
+  });
+
+  it("returns true when a due date preset is set", () => {
+    expect(hasActiveFilters({ ...emptyFilters, due: "overdue" })).toBe(true);
+  });
+
+  it("returns true when a custom field filter is set", () => {
+    expect(hasActiveFilters({ ...emptyFilters, customFields: { env: "prod" } })).toBe(true);
+    expect(hasActiveFilters({ ...emptyFilters, customFields: { env: " " } })).toBe(false);
+  });
+
   it("returns false for whitespace-only search", () => {
     expect(hasActiveFilters({ ...emptyFilters, search: "   " })).toBe(false);
   });
@@ -105,7 +141,7 @@ describe("filterIssues", () => {
   });
 
   it("filters by status", () => {
-    const result = filterIssues(issues, { ...emptyFilters, status: "todo" });
+    const result = filterIssues(issues, { ...emptyFilters, statusId: "st-todo" });
     expect(result).toHaveLength(2);
     expect(result.map((i) => i.id).sort()).toEqual(["1", "4"]);
   });
@@ -116,11 +152,31 @@ describe("filterIssues", () => {
     expect(result.map((i) => i.id).sort()).toEqual(["1", "3"]);
   });
 
+  it("filters by type", () => {
+    const result = filterIssues(issues, { ...emptyFilters, type: "bug" });
+    expect(result.map((i) => i.id)).toEqual(["4"]);
+  });
+
+  it("filters by priority", () => {
+    const result = filterIssues(issues, { ...emptyFilters, priority: "medium" });
+    expect(result.map((i) => i.id)).toEqual(["1", "2", "3"]);
+  });
+
+  it("filters by label", () => {
+    const result = filterIssues(issues, { ...emptyFilters, label: "testing" });
+    expect(result.map((i) => i.id)).toEqual(["2", "4"]);
+  });
+
+  it("matches labels in search", () => {
+    const result = filterIssues(issues, { ...emptyFilters, search: "testing" });
+    expect(result.map((i) => i.id)).toEqual(["2", "4"]);
+  });
+
   it("combines search + status filters", () => {
     const filters: IssueFilters = {
+      ...emptyFilters,
       search: "bug",
-      status: "todo",
-      assigneeId: null,
+      statusId: "st-todo",
     };
     const result = filterIssues(issues, filters);
     expect(result).toHaveLength(1);
@@ -129,8 +185,9 @@ describe("filterIssues", () => {
 
   it("combines all three filters", () => {
     const filters: IssueFilters = {
+      ...emptyFilters,
       search: "setup",
-      status: "todo",
+      statusId: "st-todo",
       assigneeId: "u1",
     };
     const result = filterIssues(issues, filters);
@@ -147,4 +204,74 @@ describe("filterIssues", () => {
     const result = filterIssues(issues, { ...emptyFilters, search: "  setup  " });
     expect(result).toHaveLength(1);
   });
+
+  it("applies the due date presets relative to today", () => {
+    const dated: Issue[] = [
+      { ...issues[0], dueDate: "2026-06-01T00:00:00.000Z" },
+      { ...issues[1], dueDate: "2026-06-05T00:00:00.000Z" },
+      { ...issues[2], dueDate: "2026-06-01T00:00:00.000Z" },
+      { ...issues[3], dueDate: "2026-06-10T00:00:00.000Z" },
+    ];
+    const today = "2026-06-03";
+
+    const overdue = filterIssues(dated, { ...emptyFilters, due: "overdue" }, { today });
+    expect(overdue.map((i) => i.id)).toEqual(["1"]);
+
+    const thisWeek = filterIssues(dated, { ...emptyFilters, due: "due_this_week" }, { today });
+    expect(thisWeek.map((i) => i.id)).toEqual(["2"]);
+  });
+
+  describe("custom fields", () => {
+    const field = (id: string, type: CustomField["type"]): CustomField => ({
+      id,
+      boardId: "b1",
+      name: id,
+      type,
+      options: [],
+      createdAt: "2026-06-08T09:00:00.000Z",
+    });
+    const fields = [field("customer", "text"), field("env", "select"), field("os", "multi_select")];
+    const withValues: Issue[] = [
+      { ...issues[0], customFields: { customer: "Acme Corp", env: "production", os: ["linux"] } },
+      { ...issues[1], customFields: { customer: "Globex", env: "staging", os: ["mac", "linux"] } },
+      { ...issues[2], customFields: {} },
+    ];
+
+    it("filters on each field by its type", () => {
+      const byText = filterIssues(
+        withValues,
+        { ...emptyFilters, customFields: { customer: "acme" } },
+        { fields }
+      );
+      expect(byText.map((i) => i.id)).toEqual(["1"]);
+
+      const bySelect = filterIssues(
+        withValues,
+        { ...emptyFilters, customFields: { env: "staging" } },
+        { fields }
+      );
+      expect(bySelect.map((i) => i.id)).toEqual(["2"]);
+
+      const byMulti = filterIssues(
+        withValues,
+        { ...emptyFilters, customFields: { os: "linux" } },
+        { fields }
+      );
+      expect(byMulti.map((i) => i.id)).toEqual(["1", "2"]);
+    });
+
+    it("ignores filters on fields the board no longer has", () => {
+      const result = filterIssues(
+        withValues,
+        { ...emptyFilters, customFields: { gone: "x" } },
+        { fields }
+      );
+      expect(result).toHaveLength(3);
+    });
+
+    it("searches text field values", () => {
+      const result = filterIssues(withValues, { ...emptyFilters, search: "globex" }, { fields });
+      expect(result.map((i) => i.id)).toEqual(["2"]);
+    });
+  });
 });
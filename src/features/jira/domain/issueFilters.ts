@@ -1,36 +1,90 @@
-import type { Issue, IssueStatus } from "./types";
+import type { CustomField, Issue, IssuePriority, IssueType } from "./types";
+import { dueStatus, isDueThisWeek, localDay } from "./dueDates";
+import { matchesCustomField } from "./customFields";
+
+export type DueFilter = "overdue" | "due_this_week";
 
 export type IssueFilters = {
   search: string;
-  status: IssueStatus | null;
-  assigneeId: string | number | null;
+  statusId: string | null;
+  assigneeId: string | null;
+  type: IssueType | null;
+  priority: IssuePriority | null;
+  label: string | null;
+  due: DueFilter | null;
+  // Custom field id → filter value; see `matchesCustomField`.
+  customFields: Record<string, string>;
 };
 
 export const emptyFilters: IssueFilters = {
   search: "",
-  status: null,
+  statusId: null,
   assigneeId: null,
+  type: null,
+  priority: null,
+  label: null,
+  due: null,
+  customFields: {},
 };
 
 export function hasActiveFilters(filters: IssueFilters): boolean {
-  return filters.search.trim() !== "" || filters.status !== null || filters.assigneeId !== null;
+  return (
+    filters.search.trim() !== "" ||
+    filters.statusId !== null ||
+    filters.assigneeId !== null ||
+    filters.type !== null ||
+    filters.priority !== null ||
+    filters.label !== null ||
+    filters.due !== null ||
+    Object.values(filters.customFields).some((value) => value.trim() !== "")
+  );
 }
 
-export function filterIssues(issues: Issue[], filters: IssueFilters): Issue[] {
+/**
+ * `today` (YYYY-MM-DD) anchors the due date presets and defaults to the local
+ * day. `fields` are the board's custom fields; filters on fields that are not
+ * among them are ignored.
+ */
+export function filterIssues(
+  issues: Issue[],
+  filters: IssueFilters,
+  options: { today?: string; fields?: CustomField[] } = {}
+): Issue[] {
   const q = filters.search.trim().toLowerCase();
+  const today = options.today ?? localDay();
+  const fields = options.fields ?? [];
+  const fieldFilters = fields.flatMap((field) => {
+    const value = filters.customFields[field.id] ?? "";
+    return value.trim() ? [{ field, value }] : [];
+  });
+  const textFields = fields.filter((field) => field.type === "text");
 
   return issues.filter((issue) => {
-    if (q && !matchesSearch(issue, q)) return false;
-    if (filters.status && issue.status !== filters.status) return false;
+    if (q && !matchesSearch(issue, q, textFields)) return false;
+    if (filters.statusId && issue.statusId !== filters.statusId) return false;
     if (filters.assigneeId !== null && issue.assigneeId !== filters.assigneeId) return false;
+    if (filters.type && issue.type !== filters.type) return false;
+    if (filters.priority && issue.priority !== filters.priority) return false;
+    if (filters.label && !issue.labels.includes(filters.label)) return false;
+    if (filters.due === "overdue" && dueStatus(issue, today) !== "overdue") return false;
+    if (filters.due === "due_this_week" && !isDueThisWeek(issue, today)) return false;
+    for (const { field, value } of fieldFilters) {
+      if (!matchesCustomField(field, issue.customFields[field.id], value)) return false;
+    }
     return true;
   });
 }
 
-function matchesSearch(issue: Issue, query: string): boolean {
+function matchesSearch(issue: Issue, query: string, textFields: CustomField[]): boolean {
   return (
     issue.title.toLowerCase().includes(query) ||
     issue.key.toLowerCase().includes(query) ||
-    issue.description.toLowerCase().includes(query)
+    issue.description.toLowerCase().includes(query) ||
+    issue.labels.some((label) => label.toLowerCase().includes(query)) ||
+    textFields.some((field) =>
+      String(issue.customFields[field.id] ?? "")
+        .toLowerCase()
+        .includes(query)
+    )
   );
 }
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { describeIssueEvent, type HistoryLookups } from "./issueHistory";
+import type { IssueEvent } from "./types";
+
+const lookups: HistoryLookups = {
+  personName: (id) => ({ u1: "Susan", u2: "James" })[id] ?? "Unknown user",
+  sprintName: (id) => ({ s1: "Sprint 1" })[id] ?? "a sprint",
+  statusName: (id) => ({ st1: "To do", st2: "Code review" })[id] ?? "a deleted status",
+  issueKey: (id) => ({ e1: "CORE-6" })[id] ?? "another issue",
+};
+
+function event(patch: Partial<IssueEvent>): IssueEvent {
+  return {
+    id: "e1",
+    issueId: "i1",
+    field: "created",
+    oldValue: null,
+    newValue: null,
+    createdAt: "2026-04-06T11:00:00.000Z",
+    actor: { id: "u1", name: "Susan" },
+    ...patch,
+  };
+}
+
+describe("describeIssueEvent", () => {
+  it("describes creation", () => {
+    expect(describeIssueEvent(event({ newValue: "CORE-1" }), lookups)).toBe("created the issue");
+  });
+
+  it("uses the board's status names", () => {
+    const e = event({ field: "statusId", oldValue: "st1", newValue: "st2" });
+    expect(describeIssueEvent(e, lookups)).toBe("changed status from To do to Code review");
+  });
+
+  it("names the target sprint or the backlog", () => {
+    expect(describeIssueEvent(event({ field: "sprintId", newValue: "s1" }), lookups)).toBe(
+      "moved the issue to Sprint 1"
+    );
+    expect(describeIssueEvent(event({ field: "sprintId", oldValue: "s1" }), lookups)).toBe(
+      "moved the issue to the backlog"
+    );
+  });
+
+  it("describes assignment and unassignment", () => {
+    expect(describeIssueEvent(event({ field: "assigneeId", newValue: "u2" }), lookups)).toBe(
+      "assigned James"
+    );
+    expect(describeIssueEvent(event({ field: "assigneeId", oldValue: "u2" }), lookups)).toBe(
+      "unassigned James"
+    );
+  });
+
+  it("lists added and removed watchers", () => {
+    const e = event({ field: "watcherIds", oldValue: ["u1"], newValue: ["u2", "u3"] });
+    expect(describeIssueEvent(e, lookups)).toBe(
+      "added James, Unknown user as watchers and removed Susan from watchers"
+    );
+  });
+
+  it("uses priority labels", () => {
+    const e = event({ field: "priority", oldValue: "medium", newValue: "highest" });
+    expect(describeIssueEvent(e, lookups)).toBe("changed priority from Medium to Highest");
+  });
+
+  it("lists added and removed labels", () => {
+    const e = event({ field: "labels", oldValue: ["ui"], newValue: ["api", "auth"] });
+    expect(describeIssueEvent(e, lookups)).toBe("added labels api, auth and removed label ui");
+  });
+
+  it("names the parent an issue was moved under or out of", () => {
+    expect(describeIssueEvent(event({ field: "parentId", newValue: "e1" }), lookups)).toBe(
+      "moved the issue under CORE-6"
+    );
+    expect(describeIssueEvent(event({ field: "parentId", oldValue: "e9" }), lookups)).toBe(
+      "removed the issue from another issue"
+    );
+  });
+
+  it("formats story points and estimates", () => {
+    expect(describeIssueEvent(event({ field: "storyPoints", newValue: 3 }), lookups)).toBe(
+      "set the story points to 3"
+    );
+    expect(describeIssueEvent(event({ field: "originalEstimate", newValue: 600 }), lookups)).toBe(
+      "set the estimate to 1d 2h"
+    );
+    expect(
+      describeIssueEvent(
+        event({ field: "remainingEstimate", oldValue: 60, newValue: null }),
+        lookups
+      )
+    ).toBe("cleared the remaining estimate");
+  });
+
+  it("notes a removed due date", () => {
+    expect(
+      describeIssueEvent(
+        event({ field: "dueDate", oldValue: "2026-06-01T00:00:00.000Z", newValue: null }),
+        lookups
+      )
+    ).toBe("removed the due date");
+  });
+
+  it("describes archiving and the trash", () => {
+    const at = "2026-06-10T09:00:00.000Z";
+    expect(describeIssueEvent(event({ field: "archivedAt", newValue: at }), lookups)).toBe(
+      "archived the issue"
+    );
+    expect(
+      describeIssueEvent(event({ field: "deletedAt", oldValue: at, newValue: null }), lookups)
+    ).toBe("restored the issue from the trash");
+  });
+
+  it("distinguishes clearing the description", () => {
+    expect(
+      describeIssueEvent(event({ field: "description", oldValue: "x", newValue: null }), lookups)
+    ).toBe("cleared the description");
+  });
+});
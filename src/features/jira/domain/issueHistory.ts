@@ -0,0 +1,121 @@
+import { formatDuration } from "@jira-lab/shared";
+import type { IssueEvent, IssueEventValue, IssuePriority, IssueType } from "./types";
+import { formatDueDate } from "./dueDates";
+import { ISSUE_PRIORITY_LABELS, ISSUE_TYPE_LABELS } from "./issueFields";
+
+export type HistoryLookups = {
+  personName: (id: string) => string;
+  sprintName: (id: string) => string;
+  statusName: (id: string) => string;
+  issueKey: (id: string) => string;
+};
+
+function asList(value: IssueEventValue): string[] {
+  if (value == null) return [];
+  return Array.isArray(value) ? value : [String(value)];
+}
+
+function asText(value: IssueEventValue): string | null {
+  return typeof value === "string" && value !== "" ? value : null;
+}
+
+function asNumber(value: IssueEventValue): number | null {
+  return typeof value === "number" ? value : null;
+}
+
+function describeEstimate(what: string, value: IssueEventValue, format: (n: number) => string) {
+  const next = asNumber(value);
+  return next == null ? `cleared the ${what}` : `set the ${what} to ${format(next)}`;
+}
+
+/** One-line, past-tense summary of an event, without the actor's name. */
+export function describeIssueEvent(event: IssueEvent, lookups: HistoryLookups): string {
+  const prev = asText(event.oldValue);
+  const next = asText(event.newValue);
+
+  switch (event.field) {
+    case "created":
+      return "created the issue";
+
+    case "title":
+      return `renamed the issue to “${next ?? ""}”`;
+
+    case "description":
+      return next ? "updated the description" : "cleared the description";
+
+    case "statusId":
+      return `changed status from ${prev ? lookups.statusName(prev) : "—"} to ${
+        next ? lookups.statusName(next) : "—"
+      }`;
+
+    case "sprintId":
+      if (!next) return `moved the issue to the backlog`;
+      return `moved the issue to ${lookups.sprintName(next)}`;
+
+    case "assigneeId":
+      if (!next) return prev ? `unassigned ${lookups.personName(prev)}` : "unassigned the issue";
+      return `assigned ${lookups.personName(next)}`;
+
+    case "watcherIds": {
+      const before = new Set(asList(event.oldValue));
+      const after = new Set(asList(event.newValue));
+      const added = [...after].filter((id) => !before.has(id)).map(lookups.personName);
+      const removed = [...before].filter((id) => !after.has(id)).map(lookups.personName);
+
+      const parts: string[] = [];
+      if (added.length)
+        parts.push(`added ${added.join(", ")} as watcher${added.length > 1 ? "s" : ""}`);
+      if (removed.length) {
+        parts.push(`removed ${removed.join(", ")} from watchers`);
+      }
+      return parts.join(" and ") || "updated watchers";
+    }
+
+    case "type":
+      return `changed type to ${next ? (ISSUE_TYPE_LABELS[next as IssueType] ?? next) : "—"}`;
+
+    case "priority":
+      return `changed priority from ${
+        prev ? (ISSUE_PRIORITY_LABELS[prev as IssuePriority] ?? prev) : "—"
+      } to ${next ? (ISSUE_PRIORITY_LABELS[next as IssuePriority] ?? next) : "—"}`;
+
+    case "parentId":
+      if (!next)
+        return prev ? `removed the issue from ${lookups.issueKey(prev)}` : "cleared the parent";
+      return `moved the issue under ${lookups.issueKey(next)}`;
+
+    case "storyPoints":
+      return describeEstimate("story points", event.newValue, String);
+
+    case "originalEstimate":
+      return describeEstimate("estimate", event.newValue, formatDuration);
+
+    case "remainingEstimate":
+      return describeEstimate("remaining estimate", event.newValue, formatDuration);
+
+    case "dueDate":
+      return next
+        ? `set the due date to ${formatDueDate(next.slice(0, 10))}`
+        : "removed the due date";
+
+    case "archivedAt":
+      return next ? "archived the issue" : "unarchived the issue";
+
+    case "deletedAt":
+      return next ? "moved the issue to the trash" : "restored the issue from the trash";
+
+    case "labels": {
+      const before = new Set(asList(event.oldValue));
+      const after = new Set(asList(event.newValue));
+      const added = [...after].filter((l) => !before.has(l));
+      const removed = [...before].filter((l) => !after.has(l));
+
+      const parts: string[] = [];
+      if (added.length) parts.push(`added label${added.length > 1 ? "s" : ""} ${added.join(", ")}`);
+      if (removed.length) {
+        parts.push(`removed label${removed.length > 1 ? "s" : ""} ${removed.join(", ")}`);
+      }
+      return parts.join(" and ") || "updated labels";
+    }
+  }
+}
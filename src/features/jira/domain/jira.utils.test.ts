@@ -1,26 +1,48 @@
 import { describe, it, expect } from "vitest";
-import { parseDropStatus, normalizeOrders, canShowStatus, nextOrderForStatus } from "./jira.utils";
-import type { Issue } from "./types";
+import {
+  dropTargetId,
+  parseDropStatus,
+  parseDropLane,
+  normalizeOrders,
+  boardColumns,
+  columnKey,
+  nextOrderInColumn,
+  dropProblem,
+  countByStatus,
+  sumStoryPoints,
+} from "./jira.utils";
+import type { Issue, Status } from "./types";
 
 const makeIssue = (overrides: Partial<Issue> = {}): Issue => ({
   id: "issue-1",
   key: "BOARD-1",
   boardId: "board-1",
   sprintId: null,
-  status: "todo",
+  statusId: "st-todo",
+  status: { id: "st-todo", name: "To do", category: "todo" },
   order: 1000,
+  type: "task",
+  priority: "medium",
+  labels: [],
   title: "Test issue",
   description: "",
   assigneeId: null,
   watcherIds: [],
+  parentId: null,
+  storyPoints: null,
+  originalEstimate: null,
+  remainingEstimate: null,
+  dueDate: null,
+  customFields: {},
+  archivedAt: null,
+  deletedAt: null,
+  version: 1,
   ...overrides,
 });
 
 describe("parseDropStatus", () => {
   it("extracts status from a valid status: prefixed id", () => {
-    expect(parseDropStatus("status:todo")).toBe("todo");
-    expect(parseDropStatus("status:in_progress")).toBe("in_progress");
-    expect(parseDropStatus("status:done")).toBe("done");
+    expect(parseDropStatus("status:st-todo")).toBe("st-todo");
     expect(parseDropStatus("status:backlog")).toBe("backlog");
   });
 
@@ -38,6 +60,21 @@ describe("parseDropStatus", () => {
   });
 });
 
+describe("dropTargetId", () => {
+  it("round-trips a column and its swimlane", () => {
+    const id = dropTargetId("st-todo", "user-1");
+
+    expect(parseDropStatus(id)).toBe("st-todo");
+    expect(parseDropLane(id)).toBe("user-1");
+  });
+
+  it("has no lane for a whole column", () => {
+    expect(dropTargetId("st-todo")).toBe("status:st-todo");
+    expect(parseDropLane("status:st-todo")).toBeNull();
+    expect(parseDropLane("issue-1")).toBeNull();
+  });
+});
+
 describe("normalizeOrders", () => {
   it("reindexes order values in increments of 1000", () => {
     const issues = [
@@ -71,40 +108,152 @@ describe("normalizeOrders", () => {
   });
 });
 
-describe("canShowStatus", () => {
-  it("shows only backlog status in backlog view", () => {
-    expect(canShowStatus("backlog", "backlog")).toBe(true);
-    expect(canShowStatus("backlog", "todo")).toBe(false);
-    expect(canShowStatus("backlog", "in_progress")).toBe(false);
-    expect(canShowStatus("backlog", "done")).toBe(false);
+const makeStatus = (overrides: Partial<Status> = {}): Status => ({
+  id: "st-todo",
+  boardId: "board-1",
+  name: "To do",
+  category: "todo",
+  order: 1000,
+  transitionsTo: [],
+  validators: [],
+  wipMin: null,
+  wipMax: null,
+  wipHard: false,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("boardColumns", () => {
+  it("shows a single backlog column in backlog view", () => {
+    expect(boardColumns("backlog", [makeStatus()])).toEqual([{ key: "backlog", title: "Backlog" }]);
   });
 
-  it("shows all non-backlog statuses in sprint view", () => {
-    expect(canShowStatus("sprint", "todo")).toBe(true);
-    expect(canShowStatus("sprint", "in_progress")).toBe(true);
-    expect(canShowStatus("sprint", "done")).toBe(true);
-    expect(canShowStatus("sprint", "backlog")).toBe(false);
+  it("shows the board's statuses in column order in sprint view", () => {
+    const statuses = [
+      makeStatus({ id: "st-done", name: "Done", category: "done", order: 3000 }),
+      makeStatus({ id: "st-review", name: "Code review", category: "in_progress", order: 2000 }),
+      makeStatus(),
+    ];
+
+    expect(boardColumns("sprint", statuses)).toEqual([
+      { key: "st-todo", title: "To do" },
+      { key: "st-review", title: "Code review" },
+      { key: "st-done", title: "Done" },
+    ]);
+  });
+});
+
+describe("columnKey", () => {
+  it("groups every status into the backlog column in backlog view", () => {
+    expect(columnKey("backlog", "st-todo")).toBe("backlog");
+    expect(columnKey("sprint", "st-todo")).toBe("st-todo");
   });
 });
 
-describe("nextOrderForStatus", () => {
+describe("nextOrderInColumn", () => {
   it("returns max order + 1000 for the given status", () => {
     const issues = [
-      makeIssue({ status: "todo", order: 1000 }),
-      makeIssue({ status: "todo", order: 3000 }),
-      makeIssue({ status: "done", order: 5000 }),
+      makeIssue({ statusId: "st-todo", order: 1000 }),
+      makeIssue({ statusId: "st-todo", order: 3000 }),
+      makeIssue({ statusId: "st-done", order: 5000 }),
+    ];
+
+    expect(nextOrderInColumn(issues, "sprint", "st-todo")).toBe(4000);
+  });
+
+  it("counts every backlog issue in backlog view", () => {
+    const issues = [
+      makeIssue({ statusId: "st-todo", order: 1000 }),
+      makeIssue({ statusId: "st-triage", order: 2000 }),
     ];
 
-    expect(nextOrderForStatus(issues, "todo")).toBe(4000);
+    expect(nextOrderInColumn(issues, "backlog", "st-todo")).toBe(3000);
+    expect(nextOrderInColumn(issues, "backlog", null)).toBe(3000);
   });
 
   it("returns 1000 when no issues match the status", () => {
-    const issues = [makeIssue({ status: "done", order: 2000 })];
+    const issues = [makeIssue({ statusId: "st-done", order: 2000 })];
+
+    expect(nextOrderInColumn(issues, "sprint", "st-todo")).toBe(1000);
+    expect(nextOrderInColumn([], "backlog", null)).toBe(1000);
+  });
+});
+
+describe("dropProblem", () => {
+  const statuses = [
+    makeStatus({ transitionsTo: ["st-doing"] }),
+    makeStatus({
+      id: "st-doing",
+      name: "In progress",
+      category: "in_progress",
+      order: 2000,
+      validators: ["assignee_required"],
+    }),
+    makeStatus({
+      id: "st-done",
+      name: "Done",
+      category: "done",
+      order: 3000,
+      validators: ["subtasks_done"],
+    }),
+  ];
+
+  it("blocks statuses the current one doesn't lead to", () => {
+    expect(dropProblem(statuses, makeIssue(), "st-done")).toBe(
+      "Issues in To do cannot move to Done"
+    );
+  });
+
+  it("checks the target's validators against the issue", () => {
+    expect(dropProblem(statuses, makeIssue(), "st-doing")).toBe(
+      "Assign the issue before moving it to In progress"
+    );
+    expect(dropProblem(statuses, makeIssue({ assigneeId: "u1" }), "st-doing")).toBeNull();
+
+    const started = { statusId: "st-doing", assigneeId: "u1" };
+    expect(
+      dropProblem(statuses, makeIssue({ ...started, progress: { done: 1, total: 2 } }), "st-done")
+    ).toBe("Finish its 1 open sub-task before moving it to Done");
+    expect(
+      dropProblem(statuses, makeIssue({ ...started, progress: { done: 2, total: 2 } }), "st-done")
+    ).toBeNull();
+  });
+
+  it("refuses a column at its hard WIP limit", () => {
+    const limited = statuses.map((s) =>
+      s.id === "st-doing" ? { ...s, wipMax: 2, wipHard: true } : s
+    );
+    const issue = makeIssue({ assigneeId: "u1" });
+
+    expect(dropProblem(limited, issue, "st-doing", 1)).toBeNull();
+    expect(dropProblem(limited, issue, "st-doing", 2)).toBe("In progress is at its WIP limit of 2");
+    expect(dropProblem(limited, makeIssue({ statusId: "st-doing" }), "st-doing", 5)).toBeNull();
+  });
+});
+
+describe("countByStatus", () => {
+  it("counts issues per status", () => {
+    const issues = [
+      makeIssue({ id: "a" }),
+      makeIssue({ id: "b", statusId: "st-done" }),
+      makeIssue({ id: "c" }),
+    ];
+
+    expect(countByStatus(issues)).toEqual({ "st-todo": 2, "st-done": 1 });
+  });
+});
+
+describe("sumStoryPoints", () => {
+  it("adds up points, including halves", () => {
+    const issues = [makeIssue({ storyPoints: 3 }), makeIssue({ storyPoints: 0.5 })];
 
-    expect(nextOrderForStatus(issues, "todo")).toBe(1000);
+    expect(sumStoryPoints(issues)).toBe(3.5);
   });
 
-  it("returns 1000 for empty issues array", () => {
-    expect(nextOrderForStatus([], "backlog")).toBe(1000);
+  it("treats unestimated issues as zero", () => {
+    expect(sumStoryPoints([makeIssue({ storyPoints: null }), makeIssue({ storyPoints: 2 })])).toBe(
+      2
+    );
+    expect(sumStoryPoints([])).toBe(0);
   });
 });
@@ -1,21 +1,90 @@
-import type { Issue, IssueStatus } from "./types";
+import { transitionProblem, wipProblem } from "@jira-lab/shared";
+import type { Issue, Status } from "./types";
 
-export function parseDropStatus(id: string | null): IssueStatus | null {
+/** Column key of the backlog view, which shows every issue outside a sprint. */
+export const BACKLOG_COLUMN = "backlog";
+
+export type BoardColumn = { key: string; title: string };
+
+/** Droppable id of a column, or of its cell in the swimlane `lane`. */
+export function dropTargetId(column: string, lane?: string | null) {
+  return lane == null ? `status:${column}` : `status:${column}|lane:${lane}`;
+}
+
+export function parseDropStatus(id: string | null): string | null {
   if (!id) return null;
-  return id.startsWith("status:") ? (id.replace("status:", "") as IssueStatus) : null;
+  return id.startsWith("status:") ? id.replace("status:", "").split("|lane:")[0] : null;
+}
+
+/** The swimlane of a droppable cell, or null for a whole column or an issue. */
+export function parseDropLane(id: string | null): string | null {
+  if (!id?.startsWith("status:")) return null;
+  const [, lane] = id.split("|lane:");
+  return lane ?? null;
 }
 
 export function normalizeOrders(list: Issue[]) {
   return list.slice().map((it, idx) => ({ ...it, order: (idx + 1) * 1000 }));
 }
 
-export function canShowStatus(view: "backlog" | "sprint", s: IssueStatus) {
-  return view === "backlog" ? s === "backlog" : s !== "backlog";
+// The backlog is a single list; a sprint shows the board's workflow.
+export function boardColumns(view: "backlog" | "sprint", statuses: Status[]): BoardColumn[] {
+  if (view === "backlog") return [{ key: BACKLOG_COLUMN, title: "Backlog" }];
+  return statuses
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .map((s) => ({ key: s.id, title: s.name }));
+}
+
+export function columnKey(view: "backlog" | "sprint", statusId: string) {
+  return view === "backlog" ? BACKLOG_COLUMN : statusId;
 }
-export function nextOrderForStatus(issues: Issue[], status: IssueStatus) {
+
+export function nextOrderInColumn(
+  issues: Issue[],
+  view: "backlog" | "sprint",
+  statusId: string | null
+) {
+  // Without a status the issue lands in the board's initial one, server side.
+  const key = view === "backlog" ? BACKLOG_COLUMN : statusId;
   const max = issues
-    .filter((i) => i.status === status)
+    .filter((i) => columnKey(view, i.statusId) === key)
     .reduce((m, it) => Math.max(m, it.order ?? 0), 0);
 
   return max + 1000;
 }
+
+/**
+ * Why the workflow won't let `issue` be dropped into the status `toId`, or
+ * null when it will. `inColumn` is how many of the sprint's issues the
+ * column holds now, for its WIP limit. Uses the same rules the server enforces.
+ */
+export function dropProblem(
+  statuses: Status[],
+  issue: Issue,
+  toId: string,
+  inColumn = 0
+): string | null {
+  const from = statuses.find((s) => s.id === issue.statusId);
+  const to = statuses.find((s) => s.id === toId);
+  if (!from || !to || from.id === to.id) return null;
+  const progress = issue.progress ?? { done: 0, total: 0 };
+  return (
+    transitionProblem(from, to, {
+      assigneeId: issue.assigneeId,
+      openSubtasks: progress.total - progress.done,
+    }) ?? wipProblem(to, inColumn + 1)
+  );
+}
+
+/** How many issues each status holds, counting every issue given. */
+export function countByStatus(issues: Issue[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const it of issues) counts[it.statusId] = (counts[it.statusId] ?? 0) + 1;
+  return counts;
+}
+
+// Unestimated issues count as zero.
+export function sumStoryPoints(issues: Issue[]) {
+  return issues.reduce((sum, it) => sum + (it.storyPoints ?? 0), 0);
+}
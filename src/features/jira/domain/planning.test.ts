@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  BACKLOG_SECTION,
+  parseSectionDrop,
+  planMove,
+  rankBetween,
+  sectionDropId,
+} from "./planning";
+import type { Issue } from "./types";
+
+const makeIssue = (id: string, order: number, sprintId: string | null = null): Issue => ({
+  id,
+  key: id.toUpperCase(),
+  boardId: "board-1",
+  sprintId,
+  statusId: "st-todo",
+  status: { id: "st-todo", name: "To do", category: "todo" },
+  order,
+  type: "task",
+  priority: "medium",
+  labels: [],
+  title: `Issue ${id}`,
+  description: "",
+  assigneeId: null,
+  watcherIds: [],
+  parentId: null,
+  storyPoints: null,
+  originalEstimate: null,
+  remainingEstimate: null,
+  dueDate: null,
+  customFields: {},
+  archivedAt: null,
+  deletedAt: null,
+  version: 1,
+});
+
+describe("section drop ids", () => {
+  it("round-trips a section key", () => {
+    expect(parseSectionDrop(sectionDropId("sprint-2"))).toBe("sprint-2");
+    expect(parseSectionDrop(sectionDropId(BACKLOG_SECTION))).toBe(BACKLOG_SECTION);
+  });
+
+  it("ignores issue and column ids", () => {
+    expect(parseSectionDrop("issue-1")).toBeNull();
+    expect(parseSectionDrop("status:backlog")).toBeNull();
+    expect(parseSectionDrop(null)).toBeNull();
+  });
+});
+
+describe("rankBetween", () => {
+  it("ranks after the last issue and before the first", () => {
+    expect(rankBetween(undefined, undefined)).toBe(1000);
+    expect(rankBetween(3000, undefined)).toBe(4000);
+    expect(rankBetween(undefined, 3000)).toBe(1500);
+    expect(rankBetween(undefined, 600)).toBe(300);
+  });
+
+  it("ranks halfway between neighbours", () => {
+    expect(rankBetween(1000, 2000)).toBe(1500);
+    expect(rankBetween(1000, 1002)).toBe(1001);
+  });
+
+  it("has no rank when the neighbours leave no room", () => {
+    expect(rankBetween(1000, 1001)).toBeNull();
+    expect(rankBetween(1000, 1000)).toBeNull();
+    expect(rankBetween(undefined, 0)).toBeNull();
+  });
+});
+
+describe("planMove", () => {
+  const sections = () => ({
+    "sprint-2": [makeIssue("a", 1000, "sprint-2"), makeIssue("b", 2000, "sprint-2")],
+    [BACKLOG_SECTION]: [makeIssue("c", 1000), makeIssue("d", 2000), makeIssue("e", 3000)],
+  });
+
+  it("moves an issue into a sprint before the issue it was dropped on", () => {
+    expect(planMove(sections(), "d", "sprint-2", "b")).toEqual([
+      { id: "d", patch: { order: 1500, sprintId: "sprint-2" }, version: 1 },
+    ]);
+  });
+
+  it("moves an issue to the end of a section dropped on as a whole", () => {
+    expect(planMove(sections(), "a", BACKLOG_SECTION, null)).toEqual([
+      { id: "a", patch: { order: 4000, sprintId: null }, version: 1 },
+    ]);
+  });
+
+  it("re-ranks within a section without changing its sprint", () => {
+    expect(planMove(sections(), "c", BACKLOG_SECTION, "e")).toEqual([
+      { id: "c", patch: { order: 4000 } },
+    ]);
+    expect(planMove(sections(), "e", BACKLOG_SECTION, "c")).toEqual([
+      { id: "e", patch: { order: 500 } },
+    ]);
+  });
+
+  it("renumbers the section when there is no room between neighbours", () => {
+    const crowded = {
+      "sprint-2": [makeIssue("a", 1000, "sprint-2"), makeIssue("b", 1001, "sprint-2")],
+      [BACKLOG_SECTION]: [makeIssue("c", 1000)],
+    };
+    expect(planMove(crowded, "c", "sprint-2", "b")).toEqual([
+      { id: "a", patch: { order: 1000 } },
+      { id: "c", patch: { order: 2000, sprintId: "sprint-2" }, version: 1 },
+      { id: "b", patch: { order: 3000 } },
+    ]);
+  });
+
+  it("does nothing when the issue is dropped where it already is", () => {
+    expect(planMove(sections(), "d", BACKLOG_SECTION, "d")).toBeNull();
+    expect(planMove(sections(), "e", BACKLOG_SECTION, null)).toBeNull();
+  });
+
+  it("does nothing for an unknown issue or section", () => {
+    expect(planMove(sections(), "zz", BACKLOG_SECTION, null)).toBeNull();
+    expect(planMove(sections(), "a", "sprint-9", null)).toBeNull();
+  });
+});
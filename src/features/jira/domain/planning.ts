@@ -0,0 +1,92 @@
+import type { Issue } from "./types";
+import { normalizeOrders } from "./jira.utils";
+
+// The planning view lists each planned sprint above the backlog. Sections
+// are keyed by sprint id; the backlog has its own key. Within a section,
+// issues are ranked by `order`, whatever their status.
+
+export const BACKLOG_SECTION = "backlog";
+
+const ORDER_STEP = 1000;
+
+/** Droppable id of a planning section. */
+export function sectionDropId(section: string) {
+  return `section:${section}`;
+}
+
+export function parseSectionDrop(id: string | null): string | null {
+  return id?.startsWith("section:") ? id.slice("section:".length) : null;
+}
+
+/** The sprint a section stands for; the backlog is no sprint. */
+export function sectionSprintId(section: string): string | null {
+  return section === BACKLOG_SECTION ? null : section;
+}
+
+/**
+ * An order that ranks an issue between `before` and `after`, either of which
+ * may be missing at the ends of a list, or null when there is no room left.
+ */
+export function rankBetween(before: number | undefined, after: number | undefined): number | null {
+  if (after === undefined) return (before ?? 0) + ORDER_STEP;
+  // Orders can't go below zero, so the top of a list halves the first order.
+  if (before === undefined) return after > 0 ? Math.floor(after / 2) : null;
+  const mid = Math.floor((before + after) / 2);
+  return mid > before && mid < after ? mid : null;
+}
+
+// A change of sprint names the version the issue was dragged at; re-ranks need none.
+export type PlanningChange = {
+  id: string;
+  patch: { order: number; sprintId?: string | null };
+  version?: number;
+};
+
+/**
+ * The changes that drop the issue `activeId` into `toSection`, before the
+ * issue `overId` or at the end when it is null. Only the dropped issue is
+ * re-ranked while its neighbours leave room; otherwise the whole section is
+ * renumbered. Null when the drop changes nothing.
+ */
+export function planMove(
+  sections: Record<string, Issue[]>,
+  activeId: string,
+  toSection: string,
+  overId: string | null
+): PlanningChange[] | null {
+  const fromSection = Object.keys(sections).find((key) =>
+    sections[key].some((it) => it.id === activeId)
+  );
+  const toList = sections[toSection];
+  if (!fromSection || !toList) return null;
+
+  let next: Issue[];
+  if (fromSection === toSection) {
+    const oldIndex = toList.findIndex((it) => it.id === activeId);
+    const newIndex = overId ? toList.findIndex((it) => it.id === overId) : toList.length - 1;
+    if (newIndex < 0 || newIndex === oldIndex) return null;
+    next = toList.slice();
+    next.splice(newIndex, 0, ...next.splice(oldIndex, 1));
+  } else {
+    const active = sections[fromSection].find((it) => it.id === activeId)!;
+    next = toList.slice();
+    const overIndex = overId ? next.findIndex((it) => it.id === overId) : -1;
+    next.splice(overIndex < 0 ? next.length : overIndex, 0, active);
+  }
+
+  const at = next.findIndex((it) => it.id === activeId);
+  const moved = (order: number): PlanningChange =>
+    fromSection === toSection
+      ? { id: activeId, patch: { order } }
+      : {
+          id: activeId,
+          patch: { order, sprintId: sectionSprintId(toSection) },
+          version: next[at].version,
+        };
+  const order = rankBetween(next[at - 1]?.order, next[at + 1]?.order);
+  if (order !== null) return [moved(order)];
+
+  return normalizeOrders(next).map((it) =>
+    it.id === activeId ? moved(it.order) : { id: it.id, patch: { order: it.order } }
+  );
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  defaultSprintDates,
+  describeCompletion,
+  formatSprintDates,
+  nextSprintName,
+  shiftSprint,
+  sprintProgress,
+} from "./sprints";
+import type { SprintCompletion } from "./types";
+
+const status = (category: "todo" | "in_progress" | "done") => ({
+  id: category,
+  name: category,
+  category,
+});
+
+describe("defaultSprintDates", () => {
+  it("suggests a two-week sprint starting today", () => {
+    expect(defaultSprintDates("2026-06-25")).toEqual({
+      startDate: "2026-06-25",
+      endDate: "2026-07-09",
+    });
+  });
+});
+
+describe("formatSprintDates", () => {
+  it("is null until the sprint has dates", () => {
+    expect(formatSprintDates({ startDate: null, endDate: null })).toBeNull();
+  });
+
+  it("formats the days the API returns as midnight timestamps", () => {
+    const formatted = formatSprintDates({
+      startDate: "2026-06-01T00:00:00.000Z",
+      endDate: "2026-06-14T00:00:00.000Z",
+    });
+    expect(formatted).toBe(
+      `${new Date("2026-06-01T00:00:00Z").toLocaleDateString(undefined, { timeZone: "UTC" })} – ${new Date("2026-06-14T00:00:00Z").toLocaleDateString(undefined, { timeZone: "UTC" })}`
+    );
+  });
+});
+
+describe("nextSprintName", () => {
+  it("names the first sprint of a board", () => {
+    expect(nextSprintName([])).toBe("Sprint 1");
+  });
+
+  it("counts on from the highest numbered sprint", () => {
+    // Sprint 2 was deleted; its number isn't handed out again.
+    expect(nextSprintName([{ name: "Sprint 1" }, { name: "Sprint 3" }])).toBe("Sprint 4");
+  });
+
+  it("ignores sprints that were renamed", () => {
+    expect(nextSprintName([{ name: "Sprint 1" }, { name: "Login sprint" }])).toBe("Sprint 2");
+  });
+});
+
+describe("shiftSprint", () => {
+  it("moves a sprint up or down", () => {
+    expect(shiftSprint(["a", "b", "c"], "c", -1)).toEqual(["a", "c", "b"]);
+    expect(shiftSprint(["a", "b", "c"], "a", 1)).toEqual(["b", "a", "c"]);
+  });
+
+  it("is null past either end or for an unknown sprint", () => {
+    expect(shiftSprint(["a", "b"], "a", -1)).toBeNull();
+    expect(shiftSprint(["a", "b"], "b", 1)).toBeNull();
+    expect(shiftSprint(["a", "b"], "x", 1)).toBeNull();
+  });
+});
+
+describe("sprintProgress", () => {
+  it("splits issues by whether their status is done", () => {
+    expect(
+      sprintProgress([
+        { status: status("done"), storyPoints: 5 },
+        { status: status("done"), storyPoints: null },
+        { status: status("in_progress"), storyPoints: 3 },
+        { status: status("todo"), storyPoints: 2 },
+      ])
+    ).toEqual({
+      completed: { issueCount: 2, points: 5 },
+      incomplete: { issueCount: 2, points: 5 },
+    });
+  });
+});
+
+describe("describeCompletion", () => {
+  const report: SprintCompletion = {
+    sprint: {
+      id: "sprint-1",
+      boardId: "board-1",
+      name: "Sprint 1",
+      goal: null,
+      state: "closed",
+      order: 1000,
+      startDate: "2026-06-01T00:00:00.000Z",
+      endDate: "2026-06-14T00:00:00.000Z",
+      completedAt: "2026-06-14T16:00:00.000Z",
+    },
+    completed: { issueCount: 4, points: 10 },
+    incomplete: { issueCount: 1, points: 3 },
+    movedTo: { id: "sprint-2", name: "Sprint 2" },
+  };
+
+  it("says where unfinished work went", () => {
+    expect(describeCompletion(report)).toBe(
+      "Sprint 1 completed: 4 issues done (10 pts), 1 issue moved to Sprint 2 (3 pts)"
+    );
+    expect(describeCompletion({ ...report, movedTo: null })).toBe(
+      "Sprint 1 completed: 4 issues done (10 pts), 1 issue moved to the backlog (3 pts)"
+    );
+  });
+
+  it("leaves out the move when everything was finished", () => {
+    expect(
+      describeCompletion({ ...report, incomplete: { issueCount: 0, points: 0 }, movedTo: null })
+    ).toBe("Sprint 1 completed: 4 issues done (10 pts)");
+  });
+});
@@ -0,0 +1,80 @@
+import type { Issue, Sprint, SprintCompletion, SprintState } from "./types";
+import { addDays, formatDueDate } from "./dueDates";
+
+export const SPRINT_STATE_LABELS: Record<SprintState, string> = {
+  planned: "Planned",
+  active: "Active",
+  closed: "Closed",
+};
+
+// Sprints run two weeks unless the team picks other dates.
+export const DEFAULT_SPRINT_DAYS = 14;
+
+/** Suggested dates for a sprint starting on `today`, as YYYY-MM-DD days. */
+export function defaultSprintDates(today: string) {
+  return { startDate: today, endDate: addDays(today, DEFAULT_SPRINT_DAYS) };
+}
+
+/** A sprint's dates for display, or null before it has any. */
+export function formatSprintDates(sprint: Pick<Sprint, "startDate" | "endDate">): string | null {
+  if (!sprint.startDate || !sprint.endDate) return null;
+  return `${formatDueDate(sprint.startDate.slice(0, 10))} – ${formatDueDate(sprint.endDate.slice(0, 10))}`;
+}
+
+/**
+ * Name for a new sprint: one past the highest "Sprint N" on the board, so a
+ * deleted or renamed sprint doesn't lead to two sprints of the same name.
+ */
+export function nextSprintName(sprints: Array<Pick<Sprint, "name">>): string {
+  let last = 0;
+  for (const sp of sprints) {
+    const match = /^Sprint (\d+)$/.exec(sp.name.trim());
+    if (match) last = Math.max(last, Number(match[1]));
+  }
+  return `Sprint ${last + 1}`;
+}
+
+/**
+ * The sprint ids with `id` moved `delta` places up (negative) or down, or
+ * null when it can't move that far.
+ */
+export function shiftSprint(ids: string[], id: string, delta: number): string[] | null {
+  const from = ids.indexOf(id);
+  const to = from + delta;
+  if (from < 0 || delta === 0 || to < 0 || to >= ids.length) return null;
+  const next = ids.slice();
+  next.splice(to, 0, ...next.splice(from, 1));
+  return next;
+}
+
+export type SprintProgress = Pick<SprintCompletion, "completed" | "incomplete">;
+
+/**
+ * Counts and points of a sprint's finished and unfinished issues, as
+ * completing the sprint would report them.
+ */
+export function sprintProgress(
+  issues: Array<Pick<Issue, "status" | "storyPoints">>
+): SprintProgress {
+  const progress = {
+    completed: { issueCount: 0, points: 0 },
+    incomplete: { issueCount: 0, points: 0 },
+  };
+  for (const issue of issues) {
+    const bucket = issue.status.category === "done" ? progress.completed : progress.incomplete;
+    bucket.issueCount += 1;
+    bucket.points += issue.storyPoints ?? 0;
+  }
+  return progress;
+}
+
+const countIssues = (n: number) => `${n} ${n === 1 ? "issue" : "issues"}`;
+
+/** One-line summary of a completed sprint, e.g. for a toast. */
+export function describeCompletion(report: SprintCompletion): string {
+  const { sprint, completed, incomplete, movedTo } = report;
+  const done = `${sprint.name} completed: ${countIssues(completed.issueCount)} done (${completed.points} pts)`;
+  if (incomplete.issueCount === 0) return done;
+  const target = movedTo ? movedTo.name : "the backlog";
+  return `${done}, ${countIssues(incomplete.issueCount)} moved to ${target} (${incomplete.points} pts)`;
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { NO_LANE, laneKeys, lanePatch, laneProblem, swimlanes } from "./swimlanes";
+import type { Issue, IssueParent } from "./types";
+
+const makeIssue = (overrides: Partial<Issue> = {}): Issue => ({
+  id: "issue-1",
+  key: "BOARD-1",
+  boardId: "board-1",
+  sprintId: "sprint-1",
+  statusId: "st-todo",
+  status: { id: "st-todo", name: "To do", category: "todo" },
+  order: 1000,
+  type: "task",
+  priority: "medium",
+  labels: [],
+  title: "Test issue",
+  description: "",
+  assigneeId: null,
+  watcherIds: [],
+  parentId: null,
+  storyPoints: null,
+  originalEstimate: null,
+  remainingEstimate: null,
+  dueDate: null,
+  customFields: {},
+  archivedAt: null,
+  deletedAt: null,
+  version: 1,
+  ...overrides,
+});
+
+const epic = (id: string, key: string): IssueParent => ({
+  id,
+  key,
+  title: `Epic ${key}`,
+  type: "epic",
+  sprintId: null,
+});
+
+describe("swimlanes", () => {
+  it("lists assignees by name, then the unassigned lane", () => {
+    const issues = [
+      makeIssue({ id: "a", assigneeId: "u2" }),
+      makeIssue({ id: "b", assigneeId: "u1" }),
+      makeIssue({ id: "c", assigneeId: "u2" }),
+    ];
+    const people = [
+      { id: "u1", name: "Zoe" },
+      { id: "u2", name: "Adam" },
+    ];
+
+    expect(swimlanes("assignee", issues, people)).toEqual([
+      { key: "u2", title: "Adam" },
+      { key: "u1", title: "Zoe" },
+      { key: NO_LANE, title: "Unassigned" },
+    ]);
+  });
+
+  it("gives every priority a lane, highest first", () => {
+    expect(swimlanes("priority", [], []).map((l) => l.key)).toEqual([
+      "highest",
+      "high",
+      "medium",
+      "low",
+      "lowest",
+    ]);
+  });
+
+  it("lists the epics of the board's issues in key order", () => {
+    const issues = [
+      makeIssue({ id: "a", parentId: "e10", parent: epic("e10", "CORE-10") }),
+      makeIssue({ id: "b", parentId: "e2", parent: epic("e2", "CORE-2") }),
+    ];
+
+    expect(swimlanes("epic", issues, []).map((l) => l.title)).toEqual([
+      "CORE-2 · Epic CORE-2",
+      "CORE-10 · Epic CORE-10",
+      "No epic",
+    ]);
+  });
+
+  it("has no lanes without a grouping", () => {
+    expect(swimlanes("none", [makeIssue()], [])).toEqual([]);
+  });
+});
+
+describe("laneKeys", () => {
+  it("puts sub-tasks in their parent's epic", () => {
+    const story = makeIssue({ id: "story", parentId: "e1", parent: epic("e1", "CORE-1") });
+    const subtask = makeIssue({
+      id: "sub",
+      type: "subtask",
+      parentId: "story",
+      parent: { id: "story", key: "CORE-2", title: "Story", type: "story", sprintId: "sprint-1" },
+    });
+    const loose = makeIssue({ id: "loose" });
+
+    const lanes = laneKeys("epic", [story, subtask, loose]);
+
+    expect(lanes.get("story")).toBe("e1");
+    expect(lanes.get("sub")).toBe("e1");
+    expect(lanes.get("loose")).toBe(NO_LANE);
+  });
+
+  it("uses the assignee or the priority", () => {
+    const issue = makeIssue({ assigneeId: "u1", priority: "high" });
+
+    expect(laneKeys("assignee", [issue]).get(issue.id)).toBe("u1");
+    expect(laneKeys("priority", [issue]).get(issue.id)).toBe("high");
+  });
+});
+
+describe("lanePatch", () => {
+  it("sets the grouping field to the lane", () => {
+    expect(lanePatch("assignee", "u1")).toEqual({ assigneeId: "u1" });
+    expect(lanePatch("assignee", NO_LANE)).toEqual({ assigneeId: null });
+    expect(lanePatch("epic", "e1")).toEqual({ parentId: "e1" });
+    expect(lanePatch("priority", "low")).toEqual({ priority: "low" });
+  });
+});
+
+describe("laneProblem", () => {
+  it("only lets standard issues change epic", () => {
+    expect(laneProblem("epic", makeIssue({ type: "story" }), "e1")).toBeNull();
+    expect(laneProblem("epic", makeIssue({ type: "story" }), NO_LANE)).toBeNull();
+    expect(laneProblem("epic", makeIssue({ type: "epic" }), "e1")).toBe(
+      "An epic cannot be placed under an epic"
+    );
+    expect(laneProblem("epic", makeIssue({ type: "subtask" }), NO_LANE)).toBe(
+      "Sub-tasks stay in their parent's epic"
+    );
+  });
+
+  it("never blocks other groupings", () => {
+    expect(laneProblem("assignee", makeIssue({ type: "subtask" }), "u1")).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import { hierarchyProblem } from "@jira-lab/shared";
+import type { Issue, IssueParent, IssuePriority } from "./types";
+import { ISSUE_PRIORITIES, ISSUE_PRIORITY_LABELS } from "./issueFields";
+
+// Swimlanes split the sprint board into rows by one field of its issues.
+// Moving an issue into another lane sets that field, so lanes only group by
+// fields a drag can change.
+
+export type SwimlaneGrouping = "none" | "assignee" | "epic" | "priority";
+
+export const SWIMLANE_GROUPING_LABELS: Record<SwimlaneGrouping, string> = {
+  none: "None",
+  assignee: "Assignee",
+  epic: "Epic",
+  priority: "Priority",
+};
+
+export const SWIMLANE_GROUPINGS = Object.keys(SWIMLANE_GROUPING_LABELS) as SwimlaneGrouping[];
+
+/** Key of the lane for issues without a value: unassigned, or outside any epic. */
+export const NO_LANE = "none";
+
+export type Swimlane = { key: string; title: string };
+
+type Person = { id: string; name: string };
+
+/**
+ * The epic an issue belongs to. Sub-tasks belong to their parent's epic,
+ * found among `byId`; epics themselves belong to none.
+ */
+function epicOf(issue: Issue, byId: Map<string, Issue>): IssueParent | null {
+  if (issue.parent?.type === "epic") return issue.parent;
+  if (issue.type !== "subtask" || !issue.parentId) return null;
+  const parent = byId.get(issue.parentId);
+  return parent?.parent?.type === "epic" ? parent.parent : null;
+}
+
+/** The lane each issue sits in, by issue id. */
+export function laneKeys(grouping: SwimlaneGrouping, issues: Issue[]): Map<string, string> {
+  const byId = new Map(issues.map((it) => [it.id, it]));
+  const laneOf = (issue: Issue): string => {
+    switch (grouping) {
+      case "assignee":
+        return issue.assigneeId ?? NO_LANE;
+      case "epic":
+        return epicOf(issue, byId)?.id ?? NO_LANE;
+      case "priority":
+        return issue.priority;
+      case "none":
+        return NO_LANE;
+    }
+  };
+  return new Map(issues.map((it) => [it.id, laneOf(it)]));
+}
+
+/**
+ * The lanes to show, top to bottom. Assignee and epic lanes come from the
+ * issues on the board, with the lane for issues without one last; every
+ * priority gets a lane, highest first.
+ */
+export function swimlanes(
+  grouping: SwimlaneGrouping,
+  issues: Issue[],
+  people: Person[]
+): Swimlane[] {
+  switch (grouping) {
+    case "assignee": {
+      const names = new Map(people.map((p) => [p.id, p.name]));
+      const ids = [...new Set(issues.map((it) => it.assigneeId).filter((id) => id !== null))];
+      return [
+        ...ids
+          .map((id) => ({ key: id, title: names.get(id) ?? "Unknown member" }))
+          .sort((a, b) => a.title.localeCompare(b.title)),
+        { key: NO_LANE, title: "Unassigned" },
+      ];
+    }
+    case "epic": {
+      const byId = new Map(issues.map((it) => [it.id, it]));
+      const epics = new Map<string, IssueParent>();
+      for (const it of issues) {
+        const epic = epicOf(it, byId);
+        if (epic) epics.set(epic.id, epic);
+      }
+      return [
+        ...[...epics.values()]
+          .sort((a, b) => a.key.localeCompare(b.key, undefined, { numeric: true }))
+          .map((epic) => ({ key: epic.id, title: `${epic.key} · ${epic.title}` })),
+        { key: NO_LANE, title: "No epic" },
+      ];
+    }
+    case "priority":
+      return ISSUE_PRIORITIES.slice()
+        .reverse()
+        .map((p) => ({ key: p, title: ISSUE_PRIORITY_LABELS[p] }));
+    case "none":
+      return [];
+  }
+}
+
+/** The patch that moves an issue into the lane `lane`. */
+export function lanePatch(grouping: SwimlaneGrouping, lane: string): Partial<Issue> {
+  const value = lane === NO_LANE ? null : lane;
+  switch (grouping) {
+    case "assignee":
+      return { assigneeId: value };
+    case "epic":
+      return { parentId: value };
+    case "priority":
+      return { priority: lane as IssuePriority };
+    case "none":
+      return {};
+  }
+}
+
+/**
+ * Why `issue` can't be dropped into the lane `lane`, or null when it can.
+ * Only epics have rules: sub-tasks follow their parent, and only standard
+ * issues go under an epic.
+ */
+export function laneProblem(grouping: SwimlaneGrouping, issue: Issue, lane: string): string | null {
+  if (grouping !== "epic") return null;
+  if (issue.type === "subtask") return "Sub-tasks stay in their parent's epic";
+  return lane === NO_LANE ? null : hierarchyProblem("epic", issue.type);
+}
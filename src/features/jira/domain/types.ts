@@ -1,37 +1,360 @@
-export type IssueStatus = "backlog" | "todo" | "in_progress" | "done";
+export type StatusCategory = "todo" | "in_progress" | "done";
 
-export type Board = { id: string; name: string };
+export type StatusValidator = "assignee_required" | "subtasks_done";
+
+// A column of the board's workflow; `order` is its position. Issues may move
+// on to the statuses in `transitionsTo`, or anywhere when it is empty.
+// WIP limits are null when unset; `wipHard` makes the server refuse moves
+// past `wipMax`.
+export type Status = {
+  id: string;
+  boardId: string;
+  name: string;
+  category: StatusCategory;
+  order: number;
+  transitionsTo: string[];
+  // Checks an issue must pass to enter the status.
+  validators: StatusValidator[];
+  wipMin: number | null;
+  wipMax: number | null;
+  wipHard: boolean;
+  createdAt: string;
+};
+
+// The summary of its status each issue carries.
+export type IssueStatus = Pick<Status, "id" | "name" | "category">;
+
+export type IssueType = "bug" | "story" | "task" | "epic" | "subtask";
+
+export type IssuePriority = "lowest" | "low" | "medium" | "high" | "highest";
+
+export type BoardRole = "viewer" | "editor" | "admin";
+
+export type Board = { id: string; name: string; key?: string; role?: BoardRole };
+
+export type BoardMember = {
+  userId: string;
+  name: string;
+  email: string;
+  role: BoardRole;
+};
+
+export type UserSummary = {
+  id: string;
+  name: string;
+  email: string;
+};
+
+export type BoardInvite = {
+  id: string;
+  boardId: string;
+  role: BoardRole;
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: string;
+  token: string;
+};
+
+export type InvitePreview = {
+  boardId: string;
+  boardName: string;
+  role: BoardRole;
+  invitedBy: string;
+  expiresAt: string;
+};
+
+export type SprintState = "planned" | "active" | "closed";
 
 export type Sprint = {
   id: string;
   boardId: string;
   name: string;
-  isActive: boolean;
+  goal: string | null;
+  state: SprintState;
+  // Ranks the board's sprints; planned sprints are worked in this order.
+  order: number;
+  // Calendar days, set when the sprint starts.
+  startDate: string | null;
+  endDate: string | null;
+  completedAt: string | null;
+};
+
+export type IssueParent = {
+  id: string;
+  key: string;
+  title: string;
+  type: IssueType;
+  sprintId: string | null;
 };
 
+export type IssueProgress = { done: number; total: number };
+
 export type Issue = {
   id: string;
   key: string;
   boardId: string;
   sprintId: string | null;
+  statusId: string;
   status: IssueStatus;
   order: number;
 
+  type: IssueType;
+  priority: IssuePriority;
+  labels: string[];
+
   title: string;
   description: string;
 
-  assigneeId: string | number | null;
-  watcherIds: Array<string | number>;
+  assigneeId: string | null;
+  watcherIds: string[];
+
+  parentId: string | null;
+
+  // Story points may be halves; estimates are in minutes.
+  storyPoints: number | null;
+  originalEstimate: number | null;
+  remainingEstimate: number | null;
+
+  // Calendar day; the API sends it as midnight UTC, see `dueDay`.
+  dueDate: string | null;
+
+  // Keyed by CustomField id; fields without a value are absent.
+  customFields: CustomFieldValues;
+
+  // Archived issues are off the board; deleted ones sit in the trash.
+  archivedAt: string | null;
+  deletedAt: string | null;
+
+  // Bumped by the server on every change; patches must name the version they edit.
+  version: number;
+
+  // Derived by the server when listing; absent on optimistic entries.
+  parent?: IssueParent | null;
+  progress?: IssueProgress;
+  blocked?: boolean;
+  // Only on issues listed from the trash: when they are deleted for good.
+  purgeAt?: string;
 };
 
+export type CustomFieldType = "text" | "number" | "select" | "multi_select" | "date" | "user";
+
+export type CustomField = {
+  id: string;
+  boardId: string;
+  name: string;
+  type: CustomFieldType;
+  // Choices for select and multi-select fields; empty otherwise.
+  options: string[];
+  createdAt: string;
+};
+
+// Text, select, date (YYYY-MM-DD) and user id values are strings.
+export type CustomFieldValue = string | number | string[];
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
 export type IssueDraft = {
   boardId: string;
   sprintId: string | null;
-  status: IssueStatus;
+  // Null starts the issue in the board's initial status.
+  statusId: string | null;
+
+  type: IssueType;
+  priority: IssuePriority;
+  labels: string[];
 
   title: string;
   description: string;
 
-  assigneeId: string | number | null;
-  watcherIds: Array<string | number>;
+  assigneeId: string | null;
+  watcherIds: string[];
+};
+
+export type IssueEventField =
+  | "created"
+  | "title"
+  | "description"
+  | "statusId"
+  | "sprintId"
+  | "assigneeId"
+  | "watcherIds"
+  | "type"
+  | "priority"
+  | "labels"
+  | "parentId"
+  | "storyPoints"
+  | "originalEstimate"
+  | "remainingEstimate"
+  | "dueDate"
+  | "archivedAt"
+  | "deletedAt";
+
+export type IssueEventValue = string | number | string[] | null;
+
+export type IssueEvent = {
+  id: string;
+  issueId: string;
+  field: IssueEventField;
+  oldValue: IssueEventValue;
+  newValue: IssueEventValue;
+  createdAt: string;
+  actor: { id: string; name: string };
+};
+
+export type IssueLinkRelation =
+  | "blocks"
+  | "is_blocked_by"
+  | "duplicates"
+  | "is_duplicated_by"
+  | "relates_to";
+
+export type LinkedIssue = Pick<Issue, "id" | "key" | "title" | "type" | "status" | "sprintId">;
+
+export type IssueLink = {
+  id: string;
+  relation: IssueLinkRelation;
+  issue: LinkedIssue;
+  createdAt: string;
+};
+
+export type Worklog = {
+  id: string;
+  issueId: string;
+  minutes: number;
+  // Calendar day, YYYY-MM-DD.
+  date: string;
+  note: string;
+  user: { id: string; name: string };
+  createdAt: string;
+};
+
+export type SprintSummary = {
+  sprintId: string;
+  issueCount: number;
+  unestimatedCount: number;
+  // `byStatus` is keyed by status id.
+  points: { total: number; done: number; byStatus: Record<string, number> };
+  originalEstimate: number;
+  remainingEstimate: number;
+  timeSpent: number;
+};
+
+// What completing a sprint did; `movedTo` is null when unfinished work went to the backlog.
+export type SprintCompletion = {
+  sprint: Sprint;
+  completed: { issueCount: number; points: number };
+  incomplete: { issueCount: number; points: number };
+  movedTo: { id: string; name: string } | null;
+};
+
+export type Comment = {
+  id: string;
+  issueId: string;
+  parentId: string | null;
+  author: { id: string; name: string };
+  body: string;
+  createdAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+};
+
+export type Attachment = {
+  id: string;
+  issueId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  uploader: { id: string; name: string };
+  createdAt: string;
+};
+
+export type NotificationKind = "mention" | "due_soon";
+
+export type Notification = {
+  id: string;
+  kind: NotificationKind;
+  // Null for reminders sent by the server itself.
+  actor: { id: string; name: string } | null;
+  issue: { id: string; key: string; title: string; boardId: string; sprintId: string | null };
+  commentId: string | null;
+  readAt: string | null;
+  createdAt: string;
+};
+
+export type AutomationTriggerType =
+  | "issue_created"
+  | "status_changed"
+  | "field_changed"
+  | "sprint_started"
+  | "scheduled";
+
+// Issue fields a field_changed rule can watch.
+export type AutomationWatchedField =
+  | "title"
+  | "assigneeId"
+  | "priority"
+  | "type"
+  | "labels"
+  | "storyPoints"
+  | "dueDate"
+  | "sprintId"
+  | "parentId";
+
+// A null `toStatusId` fires on any status change.
+export type AutomationTrigger =
+  | { type: "issue_created" }
+  | { type: "status_changed"; toStatusId: string | null }
+  | { type: "field_changed"; field: AutomationWatchedField }
+  | { type: "sprint_started" }
+  | { type: "scheduled"; everyMinutes: number };
+
+export type SetFieldAction =
+  | { type: "set_field"; field: "priority"; value: IssuePriority }
+  | { type: "set_field"; field: "type"; value: "bug" | "story" | "task" }
+  | { type: "set_field"; field: "labels"; value: string[] }
+  | { type: "set_field"; field: "storyPoints"; value: number | null }
+  // YYYY-MM-DD
+  | { type: "set_field"; field: "dueDate"; value: string | null };
+
+// Null unassigns, or moves to the backlog.
+export type AutomationAction =
+  | SetFieldAction
+  | { type: "assign"; userId: string | null }
+  | { type: "add_watcher"; userId: string }
+  | { type: "add_comment"; body: string }
+  | { type: "move_to_sprint"; sprintId: string | null }
+  | { type: "send_webhook"; url: string };
+
+// "When `trigger`, if the issue matches `condition`, do `actions`". A blank
+// condition matches every issue.
+export type AutomationRule = {
+  id: string;
+  boardId: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  condition: string;
+  actions: AutomationAction[];
+  createdById: string;
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Skipped runs were stopped by loop protection.
+export type AutomationOutcome = "success" | "failed" | "skipped";
+
+// An entry of the board's automation audit log.
+export type AutomationRun = {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  issue: { id: string; key: string; title: string } | null;
+  trigger: AutomationTriggerType;
+  outcome: AutomationOutcome;
+  // What each action did.
+  details: string[];
+  // Why the run failed or was skipped.
+  message: string | null;
+  createdAt: string;
 };
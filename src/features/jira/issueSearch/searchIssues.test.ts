@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { searchIssues } from "./searchIssues";
+import type { LinkedIssue } from "../domain/types";
+
+const issues: LinkedIssue[] = [
+  {
+    id: "i1",
+    key: "CORE-1",
+    title: "Setup project",
+    type: "task",
+    status: { id: "st-done", name: "Done", category: "done" },
+    sprintId: null,
+  },
+  {
+    id: "i4",
+    key: "CORE-4",
+    title: "Drag & drop",
+    type: "story",
+    status: { id: "st-todo", name: "To do", category: "todo" },
+    sprintId: "s1",
+  },
+];
+
+const requests: URL[] = [];
+
+const server = setupServer(
+  http.get("*/issues/search", ({ request }) => {
+    const url = new URL(request.url);
+    requests.push(url);
+    const q = (url.searchParams.get("q") ?? "").toLowerCase();
+    return HttpResponse.json(
+      issues.filter((i) => i.key.toLowerCase().includes(q) || i.title.toLowerCase().includes(q))
+    );
+  })
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
+afterEach(() => {
+  server.resetHandlers();
+  requests.length = 0;
+});
+afterAll(() => server.close());
+
+describe("searchIssues", () => {
+  it("searches issues of the given board by key", async () => {
+    const results = await searchIssues("board-1", "core-4");
+
+    expect(results).toEqual([issues[1]]);
+    expect(requests[0].searchParams.get("boardId")).toBe("board-1");
+  });
+
+  it("matches by title", async () => {
+    const results = await searchIssues("board-1", "setup");
+
+    expect(results[0].key).toBe("CORE-1");
+  });
+
+  it("trims the query before sending it", async () => {
+    await searchIssues("board-1", "  drag  ");
+
+    expect(requests[0].searchParams.get("q")).toBe("drag");
+  });
+
+  it("returns empty array for blank query or missing board without a request", async () => {
+    expect(await searchIssues("board-1", "  ")).toEqual([]);
+    expect(await searchIssues("", "core")).toEqual([]);
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,17 @@
+import { jiraClient } from "../api/jira.client";
+import type { LinkedIssue } from "../domain/types";
+
+/**
+ * Looks up issues on a board by key or title.
+ * Blank queries resolve to no results without hitting the server.
+ */
+export async function searchIssues(
+  boardId: string,
+  q: string,
+  signal?: AbortSignal
+): Promise<LinkedIssue[]> {
+  const query = q.trim();
+  if (!boardId || !query) return [];
+
+  return jiraClient.searchIssues({ boardId, q: query }, signal);
+}
@@ -0,0 +1,21 @@
+import { useCallback } from "react";
+import type { EntityBase } from "../../../components/EntityPicker";
+import type { LinkedIssue } from "../domain/types";
+import { searchIssues } from "./searchIssues";
+
+export type IssueEntity = EntityBase & { raw: LinkedIssue };
+
+function toEntity(issue: LinkedIssue): IssueEntity {
+  return { id: issue.id, label: issue.title, subLabel: issue.key, raw: issue };
+}
+
+/** Issue pickers for a board, searching by key or title. */
+export function useIssueSearch(boardId: string) {
+  const search = useCallback(
+    async (q: string, signal?: AbortSignal) =>
+      (await searchIssues(boardId, q, signal)).map(toEntity),
+    [boardId]
+  );
+
+  return { search };
+}
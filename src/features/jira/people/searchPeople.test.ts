@@ -1,79 +1,70 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
 import { searchPeople } from "./searchPeople";
+import type { UserSummary } from "../domain/types";
+
+const members: UserSummary[] = [
+  { id: "user-1", name: "James", email: "james@example.com" },
+  { id: "user-3", name: "Susan", email: "susan@example.com" },
+];
+
+const requests: URL[] = [];
+
+const server = setupServer(
+  http.get("*/users/search", ({ request }) => {
+    const url = new URL(request.url);
+    requests.push(url);
+    const q = (url.searchParams.get("q") ?? "").toLowerCase();
+    return HttpResponse.json(
+      members.filter((m) => m.name.toLowerCase().includes(q) || m.email.includes(q))
+    );
+  })
+);
+
+beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
+afterEach(() => {
+  server.resetHandlers();
+  requests.length = 0;
+});
+afterAll(() => server.close());
 
 describe("searchPeople", () => {
-  beforeEach(() => {
-    vi.useFakeTimers();
-  });
-
-  afterEach(() => {
-    vi.useRealTimers();
-  });
-
-  it("returns results matching by name", async () => {
-    const promise = searchPeople("James");
-    vi.advanceTimersByTime(250);
-    const results = await promise;
+  it("searches members of the given board", async () => {
+    const results = await searchPeople("board-1", "james");
 
-    expect(results.length).toBeGreaterThan(0);
-    expect(results.every((p) => p.fullName.toLowerCase().includes("james"))).toBe(true);
+    expect(results).toEqual([members[0]]);
+    expect(requests[0].searchParams.get("boardId")).toBe("board-1");
   });
 
-  it("returns results matching by email", async () => {
-    const promise = searchPeople("susan@example");
-    vi.advanceTimersByTime(250);
-    const results = await promise;
+  it("matches by email", async () => {
+    const results = await searchPeople("board-1", "susan@example");
 
-    expect(results.length).toBeGreaterThan(0);
-    expect(results[0].fullName).toBe("Susan");
+    expect(results[0].name).toBe("Susan");
   });
 
-  it("returns empty array for blank query", async () => {
-    const promise = searchPeople("");
-    vi.advanceTimersByTime(250);
-    const results = await promise;
+  it("trims the query before sending it", async () => {
+    await searchPeople("board-1", "  sus  ");
 
-    expect(results).toEqual([]);
+    expect(requests[0].searchParams.get("q")).toBe("sus");
   });
 
-  it("returns empty array for whitespace-only query", async () => {
-    const promise = searchPeople("   ");
-    vi.advanceTimersByTime(250);
-    const results = await promise;
-
-    expect(results).toEqual([]);
+  it("returns empty array for blank query without a request", async () => {
+    expect(await searchPeople("board-1", "")).toEqual([]);
+    expect(await searchPeople("board-1", "   ")).toEqual([]);
+    expect(requests).toHaveLength(0);
   });
 
-  it("is case-insensitive", async () => {
-    const promiseLower = searchPeople("james");
-    vi.advanceTimersByTime(250);
-    const lower = await promiseLower;
-
-    vi.useFakeTimers();
-    const promiseUpper = searchPeople("JAMES");
-    vi.advanceTimersByTime(250);
-    const upper = await promiseUpper;
-
-    expect(lower.length).toBe(upper.length);
-    expect(lower.length).toBeGreaterThan(0);
+  it("returns empty array without a board", async () => {
+    expect(await searchPeople("", "james")).toEqual([]);
+    expect(requests).toHaveLength(0);
   });
 
-  it("throws AbortError when signal is aborted", async () => {
+  it("rejects when the signal is aborted", async () => {
     const controller = new AbortController();
-    const promise = searchPeople("test", controller.signal);
-
+    const promise = searchPeople("board-1", "james", controller.signal);
     controller.abort();
-    vi.advanceTimersByTime(250);
-
-    await expect(promise).rejects.toThrow("Aborted");
-  });
-
-  it("caps results at 500", async () => {
-    // Use the big dataset and a broad query
-    const promise = searchPeople("a", undefined, true);
-    vi.advanceTimersByTime(250);
-    const results = await promise;
 
-    expect(results.length).toBeLessThanOrEqual(500);
+    await expect(promise).rejects.toThrow();
   });
 });
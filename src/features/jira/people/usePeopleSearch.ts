@@ -1,46 +1,41 @@
 import { useCallback, useMemo } from "react";
 import type { EntityBase } from "../../../components/EntityPicker";
-import type { Person } from "./mock/mockPeople";
-import { buildPersonIndex } from "./mock/peopleIndex";
-import { getPeopleDataset, searchPeople } from "./searchPeople";
+import type { UserSummary } from "../domain/types";
+import { useBoardMembers } from "../api/jira.queries";
+import { searchPeople } from "./searchPeople";
 
-export type PersonEntity = EntityBase & { raw: Person };
+export type PersonEntity = EntityBase & { raw: UserSummary };
 
-export function usePeopleSearch(useBig = true) {
-  const personIndex = useMemo(() => {
-    const data = getPeopleDataset(useBig);
-    return buildPersonIndex(data);
-  }, [useBig]);
+function toEntity(u: UserSummary): PersonEntity {
+  return { id: u.id, label: u.name, subLabel: u.email, raw: u };
+}
+
+/**
+ * People pickers for a board. Labels for already-selected ids come from the
+ * board's member list; free-text search goes to the users directory.
+ */
+export function usePeopleSearch(boardId: string) {
+  const { data: members = [] } = useBoardMembers(boardId);
+
+  const byId = useMemo(() => new Map(members.map((m) => [m.userId, m] as const)), [members]);
 
   const toPersonEntity = useCallback(
-    (id: string | number): PersonEntity => {
-      const p = personIndex.byId.get(String(id));
-      if (!p) {
-        return {
-          id,
-          label: `User ${String(id)}`,
-          subLabel: undefined,
-          raw: {
-            id: Number(id),
-            fullName: `User ${String(id)}`,
-            email: undefined,
-          },
-        };
+    (id: string): PersonEntity => {
+      const m = byId.get(id);
+      if (!m) {
+        // Former members keep their id on old issues; show something neutral.
+        return toEntity({ id, name: "Unknown user", email: "" });
       }
-      return { id: p.id, label: p.fullName, subLabel: p.email, raw: p };
+      return toEntity({ id: m.userId, name: m.name, email: m.email });
     },
-    [personIndex]
+    [byId]
   );
 
-  const search = useCallback(async (q: string, signal?: AbortSignal) => {
-    const res = await searchPeople(q, signal, true);
-    return res.map((p) => ({
-      id: p.id,
-      label: p.fullName,
-      subLabel: p.email,
-      raw: p,
-    }));
-  }, []);
+  const search = useCallback(
+    async (q: string, signal?: AbortSignal) =>
+      (await searchPeople(boardId, q, signal)).map(toEntity),
+    [boardId]
+  );
 
   return { toPersonEntity, search };
 }
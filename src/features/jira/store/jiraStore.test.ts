@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { useJiraStore } from "./jiraStore";
+import type { Issue } from "@/features/jira/domain";
 
 describe("jiraStore", () => {
   beforeEach(() => {
@@ -23,7 +24,7 @@ describe("jiraStore", () => {
       useJiraStore.getState().openNewIssue({
         boardId: "b1",
         sprintId: null,
-        status: "backlog",
+        statusId: null,
       });
       expect(useJiraStore.getState().draftIssue).not.toBeNull();
 
@@ -46,7 +47,7 @@ describe("jiraStore", () => {
       useJiraStore.getState().openNewIssue({
         boardId: "board-1",
         sprintId: "sprint-1",
-        status: "todo",
+        statusId: "st-todo",
       });
 
       const { draftIssue, selectedIssueId } = useJiraStore.getState();
@@ -54,7 +55,10 @@ describe("jiraStore", () => {
       expect(draftIssue).toEqual({
         boardId: "board-1",
         sprintId: "sprint-1",
-        status: "todo",
+        statusId: "st-todo",
+        type: "task",
+        priority: "medium",
+        labels: [],
         title: "",
         description: "",
         assigneeId: null,
@@ -66,11 +70,11 @@ describe("jiraStore", () => {
       useJiraStore.getState().openNewIssue({
         boardId: "b1",
         sprintId: null,
-        status: "backlog",
+        statusId: null,
       });
 
       expect(useJiraStore.getState().draftIssue?.sprintId).toBeNull();
-      expect(useJiraStore.getState().draftIssue?.status).toBe("backlog");
+      expect(useJiraStore.getState().draftIssue?.statusId).toBeNull();
     });
   });
 
@@ -79,7 +83,7 @@ describe("jiraStore", () => {
       useJiraStore.getState().openNewIssue({
         boardId: "b1",
         sprintId: null,
-        status: "todo",
+        statusId: "st-todo",
       });
 
       useJiraStore.getState().updateDraft({ title: "My Issue" });
@@ -105,7 +109,7 @@ describe("jiraStore", () => {
       useJiraStore.getState().openNewIssue({
         boardId: "b1",
         sprintId: null,
-        status: "todo",
+        statusId: "st-todo",
       });
       expect(useJiraStore.getState().draftIssue).not.toBeNull();
 
@@ -119,7 +123,7 @@ describe("jiraStore", () => {
       useJiraStore.getState().openNewIssue({
         boardId: "b1",
         sprintId: "s1",
-        status: "todo",
+        statusId: "st-todo",
       });
       useJiraStore.getState().updateDraft({ title: "Created" });
 
@@ -127,4 +131,29 @@ describe("jiraStore", () => {
       expect(useJiraStore.getState().draftIssue).toBeNull();
     });
   });
+
+  describe("reportConflict", () => {
+    const theirs = { id: "issue-1", title: "Theirs" } as Issue;
+
+    it("merges further refused edits to the same issue", () => {
+      useJiraStore.setState({ conflict: null });
+      const { reportConflict } = useJiraStore.getState();
+      reportConflict({ issueId: "issue-1", patch: { title: "Mine" }, theirs });
+      reportConflict({ issueId: "issue-1", patch: { priority: "high" }, theirs });
+
+      expect(useJiraStore.getState().conflict?.patch).toEqual({ title: "Mine", priority: "high" });
+    });
+
+    it("replaces a conflict on another issue", () => {
+      const { reportConflict, clearConflict } = useJiraStore.getState();
+      reportConflict({ issueId: "issue-1", patch: { title: "Mine" }, theirs });
+      reportConflict({ issueId: "issue-2", patch: { title: "Other" }, theirs });
+
+      expect(useJiraStore.getState().conflict?.issueId).toBe("issue-2");
+      expect(useJiraStore.getState().conflict?.patch).toEqual({ title: "Other" });
+
+      clearConflict();
+      expect(useJiraStore.getState().conflict).toBeNull();
+    });
+  });
 });
@@ -1,14 +1,26 @@
 import { create } from "zustand";
-import type { IssueStatus } from "@/features/jira/domain";
+import type { Issue, IssuePriority, IssueType } from "@/features/jira/domain";
 
 export type IssueDraft = {
   boardId: string;
   sprintId: string | null;
-  status: IssueStatus;
+  // Null starts the issue in the board's initial status.
+  statusId: string | null;
+  type: IssueType;
+  priority: IssuePriority;
+  labels: string[];
   title: string;
   description: string;
-  assigneeId: string | number | null;
-  watcherIds: Array<string | number>;
+  assigneeId: string | null;
+  watcherIds: string[];
+};
+
+/** Changes the server refused because someone else edited the issue first. */
+export type IssueConflict = {
+  issueId: string;
+  patch: Partial<Issue>;
+  // The issue as the server has it now.
+  theirs: Issue;
 };
 
 type JiraUiState = {
@@ -18,11 +30,19 @@ type JiraUiState = {
   openIssue: (issueId: string) => void;
   closeIssue: () => void;
 
-  openNewIssue: (seed: { boardId: string; sprintId: string | null; status: IssueStatus }) => void;
+  openNewIssue: (seed: {
+    boardId: string;
+    sprintId: string | null;
+    statusId: string | null;
+  }) => void;
 
   updateDraft: (patch: Partial<IssueDraft>) => void;
   discardDraft: () => void;
   clearDraftAfterCreate: () => void;
+
+  conflict: IssueConflict | null;
+  reportConflict: (conflict: IssueConflict) => void;
+  clearConflict: () => void;
 };
 
 export const useJiraStore = create<JiraUiState>((set) => ({
@@ -32,13 +52,16 @@ export const useJiraStore = create<JiraUiState>((set) => ({
   openIssue: (issueId) => set({ selectedIssueId: issueId, draftIssue: null }),
   closeIssue: () => set({ selectedIssueId: null }),
 
-  openNewIssue: ({ boardId, sprintId, status }) =>
+  openNewIssue: ({ boardId, sprintId, statusId }) =>
     set({
       selectedIssueId: null,
       draftIssue: {
         boardId,
         sprintId,
-        status,
+        statusId,
+        type: "task",
+        priority: "medium",
+        labels: [],
         title: "",
         description: "",
         assigneeId: null,
@@ -51,4 +74,15 @@ export const useJiraStore = create<JiraUiState>((set) => ({
 
   discardDraft: () => set({ draftIssue: null }),
   clearDraftAfterCreate: () => set({ draftIssue: null }),
+
+  conflict: null,
+  // Further refused edits to the same issue join the pending ones.
+  reportConflict: (conflict) =>
+    set((s) => ({
+      conflict:
+        s.conflict?.issueId === conflict.issueId
+          ? { ...conflict, patch: { ...s.conflict.patch, ...conflict.patch } }
+          : conflict,
+    })),
+  clearConflict: () => set({ conflict: null }),
 }));
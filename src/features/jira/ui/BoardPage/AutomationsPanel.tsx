@@ -0,0 +1,643 @@
+import React, { useState } from "react";
+import {
+  AutomationActionSchema,
+  CreateAutomationRuleInputSchema,
+  parseIssueFilter,
+} from "@jira-lab/shared";
+import type {
+  AutomationAction,
+  AutomationRule,
+  AutomationRun,
+  AutomationTrigger,
+  AutomationTriggerType,
+  AutomationWatchedField,
+  SetFieldAction,
+  Sprint,
+  Status,
+} from "../../domain/types";
+import {
+  AUTOMATION_ACTION_LABELS,
+  AUTOMATION_ACTION_TYPES,
+  AUTOMATION_OUTCOME_LABELS,
+  AUTOMATION_TRIGGER_LABELS,
+  AUTOMATION_TRIGGER_TYPES,
+  AUTOMATION_WATCHED_FIELDS,
+  AUTOMATION_WATCHED_FIELD_LABELS,
+  SET_FIELDS,
+  SET_FIELD_LABELS,
+  describeAction,
+  describeTrigger,
+  type AutomationActionType,
+} from "../../domain/automations";
+import {
+  ISSUE_PRIORITIES,
+  ISSUE_PRIORITY_LABELS,
+  ISSUE_TYPE_LABELS,
+} from "../../domain/issueFields";
+
+const INPUT_CLASS =
+  "rounded-xl border border-white/10 bg-black/30 px-3 py-1.5 text-sm text-white outline-none placeholder:text-white/40 focus:border-white/30";
+
+const BUTTON_CLASS =
+  "rounded-xl border border-white/15 bg-white/10 px-3 py-1.5 text-sm text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-40";
+
+const OUTCOME_CLASS: Record<AutomationRun["outcome"], string> = {
+  success: "bg-emerald-500/15 text-emerald-200",
+  failed: "bg-red-500/15 text-red-200",
+  skipped: "bg-white/10 text-white/60",
+};
+
+type Person = { id: string; name: string };
+
+type Names = { statuses: Status[]; sprints: Sprint[]; people: Person[] };
+
+type RuleInput = {
+  name: string;
+  enabled?: boolean;
+  trigger: AutomationTrigger;
+  condition?: string;
+  actions: AutomationAction[];
+};
+
+type Tab = "rules" | "log";
+
+// The action being composed, before it is checked: `value` holds whatever
+// the action needs, as typed.
+function draftAction(type: AutomationActionType, field: SetFieldAction["field"], value: string) {
+  switch (type) {
+    case "set_field":
+      if (field === "labels") {
+        const labels = value
+          .split(",")
+          .map((l) => l.trim())
+          .filter(Boolean);
+        return { type, field, value: labels };
+      }
+      if (field === "storyPoints") return { type, field, value: value ? Number(value) : null };
+      if (field === "dueDate") return { type, field, value: value || null };
+      return { type, field, value };
+    case "assign":
+      return { type, userId: value || null };
+    case "add_watcher":
+      return { type, userId: value };
+    case "add_comment":
+      return { type, body: value };
+    case "move_to_sprint":
+      return { type, sprintId: value || null };
+    case "send_webhook":
+      return { type, url: value };
+  }
+}
+
+// What the value of a new action starts as, so selects never sit on nothing.
+function defaultValue(
+  type: AutomationActionType,
+  field: SetFieldAction["field"],
+  people: Person[]
+) {
+  if (type === "set_field") return field === "priority" ? "high" : field === "type" ? "bug" : "";
+  if (type === "add_watcher") return people[0]?.id ?? "";
+  return "";
+}
+
+function ActionValueInput(props: {
+  type: AutomationActionType;
+  field: SetFieldAction["field"];
+  value: string;
+  onChange: (value: string) => void;
+  names: Names;
+}) {
+  const { type, field, value, onChange, names } = props;
+  const common = {
+    value,
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      onChange(e.target.value),
+    "aria-label": "Action value",
+  };
+
+  switch (type) {
+    case "set_field":
+      if (field === "priority") {
+        return (
+          <select {...common} className={INPUT_CLASS}>
+            {ISSUE_PRIORITIES.map((p) => (
+              <option key={p} value={p}>
+                {ISSUE_PRIORITY_LABELS[p]}
+              </option>
+            ))}
+          </select>
+        );
+      }
+      if (field === "type") {
+        return (
+          <select {...common} className={INPUT_CLASS}>
+            {(["bug", "story", "task"] as const).map((t) => (
+              <option key={t} value={t}>
+                {ISSUE_TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+        );
+      }
+      if (field === "dueDate") return <input type="date" {...common} className={INPUT_CLASS} />;
+      return (
+        <input
+          {...common}
+          type={field === "storyPoints" ? "number" : "text"}
+          step={field === "storyPoints" ? 0.5 : undefined}
+          placeholder={field === "labels" ? "Labels, comma separated" : "Empty clears it"}
+          className={[INPUT_CLASS, "w-48"].join(" ")}
+        />
+      );
+    case "assign":
+    case "add_watcher":
+      return (
+        <select {...common} className={INPUT_CLASS}>
+          {type === "assign" ? <option value="">Unassigned</option> : null}
+          {names.people.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+      );
+    case "move_to_sprint":
+      return (
+        <select {...common} className={INPUT_CLASS}>
+          <option value="">Backlog</option>
+          {names.sprints.map((sp) => (
+            <option key={sp.id} value={sp.id}>
+              {sp.name}
+            </option>
+          ))}
+        </select>
+      );
+    case "add_comment":
+      return (
+        <input
+          {...common}
+          placeholder="Comment"
+          className={[INPUT_CLASS, "min-w-0 flex-1"].join(" ")}
+        />
+      );
+    case "send_webhook":
+      return (
+        <input
+          {...common}
+          type="url"
+          placeholder="https://…"
+          className={[INPUT_CLASS, "min-w-0 flex-1"].join(" ")}
+        />
+      );
+  }
+}
+
+function TriggerInput(props: {
+  trigger: AutomationTrigger;
+  onChange: (trigger: AutomationTrigger) => void;
+  statuses: Status[];
+}) {
+  const { trigger, onChange, statuses } = props;
+
+  const changeType = (type: AutomationTriggerType) => {
+    switch (type) {
+      case "status_changed":
+        return onChange({ type, toStatusId: null });
+      case "field_changed":
+        return onChange({ type, field: "assigneeId" });
+      case "scheduled":
+        return onChange({ type, everyMinutes: 60 });
+      default:
+        return onChange({ type });
+    }
+  };
+
+  return (
+    <>
+      <select
+        value={trigger.type}
+        onChange={(e) => changeType(e.target.value as AutomationTriggerType)}
+        aria-label="Trigger"
+        className={INPUT_CLASS}
+      >
+        {AUTOMATION_TRIGGER_TYPES.map((t) => (
+          <option key={t} value={t}>
+            {AUTOMATION_TRIGGER_LABELS[t]}
+          </option>
+        ))}
+      </select>
+      {trigger.type === "status_changed" ? (
+        <select
+          value={trigger.toStatusId ?? ""}
+          onChange={(e) => onChange({ ...trigger, toStatusId: e.target.value || null })}
+          aria-label="To status"
+          className={INPUT_CLASS}
+        >
+          <option value="">To any status</option>
+          {statuses.map((s) => (
+            <option key={s.id} value={s.id}>
+              To {s.name}
+            </option>
+          ))}
+        </select>
+      ) : null}
+      {trigger.type === "field_changed" ? (
+        <select
+          value={trigger.field}
+          onChange={(e) =>
+            onChange({ ...trigger, field: e.target.value as AutomationWatchedField })
+          }
+          aria-label="Watched field"
+          className={INPUT_CLASS}
+        >
+          {AUTOMATION_WATCHED_FIELDS.map((f) => (
+            <option key={f} value={f}>
+              {AUTOMATION_WATCHED_FIELD_LABELS[f]}
+            </option>
+          ))}
+        </select>
+      ) : null}
+      {trigger.type === "scheduled" ? (
+        <label className="flex items-center gap-1 text-xs text-white/60">
+          Every
+          <input
+            type="number"
+            min={15}
+            value={trigger.everyMinutes}
+            onChange={(e) => onChange({ ...trigger, everyMinutes: Number(e.target.value) })}
+            aria-label="Minutes between runs"
+            className={[INPUT_CLASS, "w-20"].join(" ")}
+          />
+          min
+        </label>
+      ) : null}
+    </>
+  );
+}
+
+function RuleForm(props: {
+  names: Names;
+  isCreating: boolean;
+  onCreate: (args: RuleInput) => void;
+}) {
+  const { names, isCreating, onCreate } = props;
+  const [name, setName] = useState("");
+  const [trigger, setTrigger] = useState<AutomationTrigger>({ type: "issue_created" });
+  const [condition, setCondition] = useState("");
+  const [actions, setActions] = useState<AutomationAction[]>([]);
+  const [actionType, setActionType] = useState<AutomationActionType>("set_field");
+  const [field, setField] = useState<SetFieldAction["field"]>("priority");
+  const [value, setValue] = useState(() => defaultValue("set_field", "priority", names.people));
+  const [error, setError] = useState<string | null>(null);
+
+  const parsedCondition = parseIssueFilter(condition);
+  const conditionError = parsedCondition.ok ? null : parsedCondition.error;
+
+  const addAction = () => {
+    const parsed = AutomationActionSchema.safeParse(draftAction(actionType, field, value));
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    setActions((prev) => [...prev, parsed.data]);
+    setValue(defaultValue(actionType, field, names.people));
+    setError(null);
+  };
+
+  const submit = () => {
+    const parsed = CreateAutomationRuleInputSchema.safeParse({ name, trigger, condition, actions });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    onCreate(parsed.data);
+    setName("");
+    setCondition("");
+    setActions([]);
+    setError(null);
+  };
+
+  return (
+    <div className="mt-4 grid gap-2 rounded-xl border border-white/10 bg-black/20 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setError(null);
+          }}
+          placeholder="Rule name"
+          aria-label="New rule name"
+          className={[INPUT_CLASS, "w-48"].join(" ")}
+        />
+        <span className="text-xs text-white/50">When</span>
+        <TriggerInput trigger={trigger} onChange={setTrigger} statuses={names.statuses} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-white/50">If</span>
+        <input
+          value={condition}
+          onChange={(e) => setCondition(e.target.value)}
+          placeholder="e.g. type = bug AND priority >= high (blank for every issue)"
+          aria-label="Condition"
+          aria-invalid={!!conditionError}
+          className={[INPUT_CLASS, "min-w-0 flex-1 font-mono"].join(" ")}
+        />
+      </div>
+      {conditionError ? <div className="text-xs text-red-300">{conditionError}</div> : null}
+
+      {actions.length > 0 ? (
+        <ol className="grid gap-1 text-sm">
+          {actions.map((action, idx) => (
+            <li key={idx} className="flex items-center gap-2">
+              <span className="text-white/80">{describeAction(action, names)}</span>
+              <button
+                type="button"
+                onClick={() => setActions((prev) => prev.filter((_, i) => i !== idx))}
+                aria-label={`Remove action ${idx + 1}`}
+                className="rounded-lg px-1.5 text-xs text-white/50 hover:bg-white/10 hover:text-white"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-white/50">Then</span>
+        <select
+          value={actionType}
+          onChange={(e) => {
+            const type = e.target.value as AutomationActionType;
+            setActionType(type);
+            setValue(defaultValue(type, field, names.people));
+            setError(null);
+          }}
+          aria-label="Action"
+          className={INPUT_CLASS}
+        >
+          {AUTOMATION_ACTION_TYPES.map((t) => (
+            <option key={t} value={t}>
+              {AUTOMATION_ACTION_LABELS[t]}
+            </option>
+          ))}
+        </select>
+        {actionType === "set_field" ? (
+          <select
+            value={field}
+            onChange={(e) => {
+              const next = e.target.value as SetFieldAction["field"];
+              setField(next);
+              setValue(defaultValue(actionType, next, names.people));
+              setError(null);
+            }}
+            aria-label="Field to set"
+            className={INPUT_CLASS}
+          >
+            {SET_FIELDS.map((f) => (
+              <option key={f} value={f}>
+                {SET_FIELD_LABELS[f]}
+              </option>
+            ))}
+          </select>
+        ) : null}
+        <ActionValueInput
+          type={actionType}
+          field={field}
+          value={value}
+          onChange={(next) => {
+            setValue(next);
+            setError(null);
+          }}
+          names={names}
+        />
+        <button
+          type="button"
+          onClick={addAction}
+          className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white"
+        >
+          + Add action
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          disabled={isCreating || !name.trim() || actions.length === 0 || !!conditionError}
+          onClick={submit}
+          className={BUTTON_CLASS}
+        >
+          {isCreating ? "Adding…" : "Add rule"}
+        </button>
+        {error ? <span className="text-xs text-red-300">{error}</span> : null}
+      </div>
+    </div>
+  );
+}
+
+function RuleRow(props: {
+  rule: AutomationRule;
+  names: Names;
+  canManage: boolean;
+  onToggle: (id: string, enabled: boolean) => void;
+  onShowLog: (id: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const { rule, names, canManage, onToggle, onShowLog, onDelete } = props;
+  const [confirming, setConfirming] = useState(false);
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/20 px-3 py-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={rule.enabled}
+            disabled={!canManage}
+            onChange={(e) => onToggle(rule.id, e.target.checked)}
+            aria-label={`${rule.name} enabled`}
+          />
+          <span className={rule.enabled ? "text-sm text-white" : "text-sm text-white/40"}>
+            {rule.name}
+          </span>
+        </label>
+        <span className="flex-1" />
+        <button
+          type="button"
+          onClick={() => onShowLog(rule.id)}
+          className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white"
+        >
+          Log
+        </button>
+        {canManage ? (
+          <button
+            type="button"
+            onClick={() => (confirming ? onDelete(rule.id) : setConfirming(true))}
+            onBlur={() => setConfirming(false)}
+            className={[
+              "rounded-lg px-2 py-1 text-xs hover:bg-white/10",
+              confirming ? "text-red-200" : "text-white/60 hover:text-white",
+            ].join(" ")}
+          >
+            {confirming ? "Delete with its log?" : "Delete"}
+          </button>
+        ) : null}
+      </div>
+      <div className="mt-1 text-xs text-white/50">
+        When {describeTrigger(rule.trigger, names).toLowerCase()}
+        {rule.condition ? (
+          <>
+            {" "}
+            · if <code className="text-white/70">{rule.condition}</code>
+          </>
+        ) : null}{" "}
+        · {rule.actions.map((a) => describeAction(a, names)).join(", then ")}
+      </div>
+    </div>
+  );
+}
+
+function RunRow({ run }: { run: AutomationRun }) {
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/20 px-3 py-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span
+          className={["rounded-md px-1.5 py-0.5 text-xs", OUTCOME_CLASS[run.outcome]].join(" ")}
+        >
+          {AUTOMATION_OUTCOME_LABELS[run.outcome]}
+        </span>
+        <span className="text-white">{run.ruleName}</span>
+        {run.issue ? (
+          <span className="min-w-0 flex-1 truncate text-white/60">
+            {run.issue.key} · {run.issue.title}
+          </span>
+        ) : (
+          <span className="flex-1" />
+        )}
+        <span className="text-xs text-white/40">{new Date(run.createdAt).toLocaleString()}</span>
+      </div>
+      {run.details.length > 0 ? (
+        <div className="mt-1 text-xs text-white/50">{run.details.join(" · ")}</div>
+      ) : null}
+      {run.message ? <div className="mt-1 text-xs text-red-200/80">{run.message}</div> : null}
+    </div>
+  );
+}
+
+/**
+ * A board's automation rules and the log of their runs. Rules run on the
+ * server; admins manage them, everyone on the board can read the log.
+ */
+export const AutomationsPanel = React.memo(function AutomationsPanel(props: {
+  rules: AutomationRule[];
+  runs: AutomationRun[];
+  runsLoading?: boolean;
+  // The rule the log is narrowed to, if any.
+  logRuleId: string | null;
+  statuses: Status[];
+  sprints: Sprint[];
+  people: Person[];
+  canManage: boolean;
+  isCreating?: boolean;
+  onLogRuleChange: (ruleId: string | null) => void;
+  onCreate: (args: RuleInput) => void;
+  onToggle: (id: string, enabled: boolean) => void;
+  onDelete: (id: string) => void;
+}) {
+  const { rules, runs, runsLoading = false, logRuleId, canManage, isCreating = false } = props;
+  const [tab, setTab] = useState<Tab>("rules");
+  const names = { statuses: props.statuses, sprints: props.sprints, people: props.people };
+
+  const showLog = (ruleId: string | null) => {
+    props.onLogRuleChange(ruleId);
+    setTab("log");
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+      <div className="text-sm font-semibold">Automations</div>
+      <div className="mt-1 text-xs text-white/50">
+        Rules run on the server after the change that triggers them, as the member who added them. A
+        rule runs at most once per issue for a change, so rules can't trigger each other forever.
+      </div>
+
+      <div role="tablist" className="mt-3 flex gap-1 border-b border-white/10">
+        {(["rules", "log"] as const).map((t) => (
+          <button
+            key={t}
+            type="button"
+            role="tab"
+            aria-selected={tab === t}
+            onClick={() => setTab(t)}
+            className={[
+              "-mb-px border-b-2 px-3 py-2 text-sm",
+              tab === t
+                ? "border-white text-white"
+                : "border-transparent text-white/50 hover:text-white/80",
+            ].join(" ")}
+          >
+            {t === "rules" ? `Rules (${rules.length})` : "Audit log"}
+          </button>
+        ))}
+      </div>
+
+      {tab === "rules" ? (
+        <>
+          <div className="mt-3 grid gap-2">
+            {rules.length === 0 ? (
+              <div className="rounded-xl border border-dashed border-white/10 p-3 text-sm text-white/40">
+                No rules yet
+              </div>
+            ) : (
+              rules.map((rule) => (
+                <RuleRow
+                  key={rule.id}
+                  rule={rule}
+                  names={names}
+                  canManage={canManage}
+                  onToggle={props.onToggle}
+                  onShowLog={showLog}
+                  onDelete={props.onDelete}
+                />
+              ))
+            )}
+          </div>
+          {canManage ? (
+            <RuleForm names={names} isCreating={isCreating} onCreate={props.onCreate} />
+          ) : null}
+        </>
+      ) : (
+        <>
+          <div className="mt-3">
+            <select
+              value={logRuleId ?? ""}
+              onChange={(e) => props.onLogRuleChange(e.target.value || null)}
+              aria-label="Rule to show"
+              className={INPUT_CLASS}
+            >
+              <option value="">All rules</option>
+              {rules.map((rule) => (
+                <option key={rule.id} value={rule.id}>
+                  {rule.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="mt-3 grid gap-2">
+            {runsLoading ? (
+              <div className="text-sm text-white/40">Loading…</div>
+            ) : runs.length === 0 ? (
+              <div className="rounded-xl border border-dashed border-white/10 p-3 text-sm text-white/40">
+                No runs yet
+              </div>
+            ) : (
+              runs.map((run) => <RunRow key={run.id} run={run} />)
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
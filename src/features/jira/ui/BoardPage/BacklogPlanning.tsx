@@ -0,0 +1,267 @@
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import {
+  DndContext,
+  PointerSensor,
+  KeyboardSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+  closestCenter,
+  DragOverlay,
+  type DragEndEvent,
+  type DragOverEvent,
+  type DragStartEvent,
+} from "@dnd-kit/core";
+import { SortableContext, verticalListSortingStrategy } from "@dnd-kit/sortable";
+
+import { sumStoryPoints } from "../../domain/jira.utils";
+import {
+  parseSectionDrop,
+  planMove,
+  sectionDropId,
+  type PlanningChange,
+} from "../../domain/planning";
+import { formatSprintDates } from "../../domain/sprints";
+import type { Issue, Sprint } from "../../domain/types";
+import { IssueCard } from "./IssueCard";
+import { VirtualIssueList } from "./VirtualIssueList";
+
+/** A planned sprint, or the backlog when `sprint` is null. */
+export type PlanningSection = { key: string; sprint: Sprint | null; issues: Issue[] };
+
+function SectionImpl(props: {
+  section: PlanningSection;
+  collapsed: boolean;
+  onToggle: (key: string) => void;
+  onOpenIssue: (issue: Issue) => void;
+  onStartSprint?: (sprintId: string) => void;
+  onEditSprint?: (sprintId: string) => void;
+  // Moves the sprint up (-1) or down (+1) among the planned sprints, where it can go.
+  onMoveSprint?: (sprintId: string, delta: number) => void;
+  canMoveUp?: boolean;
+  canMoveDown?: boolean;
+}) {
+  const { section, collapsed, onToggle, onOpenIssue, onStartSprint, onEditSprint, onMoveSprint } =
+    props;
+  const { sprint, issues } = section;
+  // The whole section takes drops, so issues can go into a collapsed sprint.
+  const { setNodeRef, isOver } = useDroppable({ id: sectionDropId(section.key) });
+
+  const title = sprint?.name ?? "Backlog";
+  const dates = sprint ? formatSprintDates(sprint) : null;
+  const points = sumStoryPoints(issues);
+  const byId = useMemo(() => new Map(issues.map((it) => [it.id, it])), [issues]);
+
+  return (
+    <section
+      ref={setNodeRef}
+      aria-label={title}
+      className={[
+        "rounded-2xl border border-white/10 bg-black/20 p-3 transition",
+        isOver ? "ring-2 ring-white/20 bg-white/5" : "",
+      ].join(" ")}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => onToggle(section.key)}
+          aria-expanded={!collapsed}
+          className="flex flex-1 items-center gap-2 rounded-lg px-2 py-1 text-left text-sm hover:bg-white/5"
+        >
+          <span className="text-white/50">{collapsed ? "▸" : "▾"}</span>
+          <span className="font-semibold">{title}</span>
+          {dates ? <span className="text-xs text-white/50">{dates}</span> : null}
+          <span className="text-xs text-white/50">
+            {issues.length} {issues.length === 1 ? "issue" : "issues"}
+          </span>
+          {points > 0 ? (
+            <span
+              title="Story points"
+              className="rounded-full bg-white/10 px-1.5 py-0.5 text-[10px] text-white/70"
+            >
+              {points} pts
+            </span>
+          ) : null}
+        </button>
+        {sprint && onMoveSprint ? (
+          <>
+            <button
+              type="button"
+              onClick={() => onMoveSprint(sprint.id, -1)}
+              disabled={!props.canMoveUp}
+              aria-label={`Move ${sprint.name} up`}
+              className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white disabled:opacity-30"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => onMoveSprint(sprint.id, 1)}
+              disabled={!props.canMoveDown}
+              aria-label={`Move ${sprint.name} down`}
+              className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white disabled:opacity-30"
+            >
+              ↓
+            </button>
+          </>
+        ) : null}
+        {sprint && onEditSprint ? (
+          <button
+            type="button"
+            onClick={() => onEditSprint(sprint.id)}
+            className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white"
+          >
+            Edit
+          </button>
+        ) : null}
+        {sprint && onStartSprint ? (
+          <button
+            type="button"
+            onClick={() => onStartSprint(sprint.id)}
+            className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white"
+          >
+            Start sprint
+          </button>
+        ) : null}
+      </div>
+      {sprint?.goal && !collapsed ? (
+        <div className="px-2 pb-1 text-xs text-white/60">{sprint.goal}</div>
+      ) : null}
+
+      {collapsed ? null : (
+        <div className="mt-2">
+          <SortableContext items={issues.map((x) => x.id)} strategy={verticalListSortingStrategy}>
+            <VirtualIssueList
+              issues={issues}
+              onOpenIssue={(id) => onOpenIssue(byId.get(id)!)}
+              estimateSize={118}
+              overscan={10}
+              maxHeightPx={sprint ? 360 : 560}
+            />
+          </SortableContext>
+        </div>
+      )}
+    </section>
+  );
+}
+
+const Section = React.memo(SectionImpl);
+
+export const BacklogPlanning = React.memo(function BacklogPlanning(props: {
+  // Planned sprints first, the backlog last.
+  sections: PlanningSection[];
+  onOpenIssue: (issue: Issue) => void;
+  onRank: (changes: PlanningChange[]) => void;
+  // Offered on a planned sprint while no sprint is running.
+  onStartSprint?: (sprintId: string) => void;
+  onEditSprint?: (sprintId: string) => void;
+  onMoveSprint?: (sprintId: string, delta: number) => void;
+  isSaving?: boolean;
+}) {
+  const { sections, onOpenIssue, onRank, onStartSprint, onEditSprint, onMoveSprint, isSaving } =
+    props;
+  const sprintCount = sections.filter((s) => s.sprint).length;
+
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const lastOverIdRef = useRef<string | null>(null);
+  const [collapsed, setCollapsed] = useState<ReadonlySet<string>>(new Set());
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor)
+  );
+
+  const issuesBySection = useMemo(
+    () => Object.fromEntries(sections.map((s) => [s.key, s.issues])),
+    [sections]
+  );
+  const sectionOf = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const s of sections) for (const it of s.issues) map.set(it.id, s.key);
+    return map;
+  }, [sections]);
+
+  const activeIssue = useMemo(
+    () =>
+      activeId ? (sections.flatMap((s) => s.issues).find((x) => x.id === activeId) ?? null) : null,
+    [activeId, sections]
+  );
+
+  const onDragStart = (e: DragStartEvent) => {
+    const id = String(e.active.id);
+    setActiveId(id);
+    lastOverIdRef.current = id;
+  };
+
+  const onDragOver = (e: DragOverEvent) => {
+    if (e.over?.id) lastOverIdRef.current = String(e.over.id);
+  };
+
+  const onDragEnd = (e: DragEndEvent) => {
+    const aId = String(e.active.id);
+    const oId = e.over?.id ? String(e.over.id) : lastOverIdRef.current;
+    setActiveId(null);
+    if (!oId) return;
+
+    // Dropped on a section header or empty space goes to the end of it;
+    // dropped on an issue goes before it.
+    const toSection = parseSectionDrop(oId) ?? sectionOf.get(oId);
+    if (!toSection) return;
+    const overId = sectionOf.has(oId) ? oId : null;
+
+    const changes = planMove(issuesBySection, aId, toSection, overId);
+    if (changes) onRank(changes);
+  };
+
+  const toggle = useCallback((key: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+
+  return (
+    <div>
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        onDragStart={onDragStart}
+        onDragOver={onDragOver}
+        onDragCancel={() => {
+          setActiveId(null);
+          lastOverIdRef.current = null;
+        }}
+        onDragEnd={onDragEnd}
+      >
+        <div className="grid gap-3">
+          {sections.map((section, idx) => (
+            <Section
+              key={section.key}
+              section={section}
+              collapsed={collapsed.has(section.key)}
+              onToggle={toggle}
+              onOpenIssue={onOpenIssue}
+              onStartSprint={onStartSprint}
+              onEditSprint={onEditSprint}
+              onMoveSprint={onMoveSprint}
+              canMoveUp={idx > 0}
+              canMoveDown={idx < sprintCount - 1}
+            />
+          ))}
+        </div>
+
+        <DragOverlay>
+          {activeIssue ? (
+            <div className="w-[320px]">
+              <IssueCard issue={activeIssue} onOpen={() => {}} />
+            </div>
+          ) : null}
+        </DragOverlay>
+      </DndContext>
+
+      {isSaving ? <div className="mt-3 text-xs text-white/50">Saving…</div> : null}
+    </div>
+  );
+});
@@ -13,30 +13,54 @@ import {
 } from "@dnd-kit/core";
 import { SortableContext, verticalListSortingStrategy, arrayMove } from "@dnd-kit/sortable";
 
-import { parseDropStatus, normalizeOrders, canShowStatus } from "../../domain/jira.utils";
+import {
+  parseDropStatus,
+  parseDropLane,
+  dropTargetId,
+  normalizeOrders,
+  boardColumns,
+  columnKey,
+  countByStatus,
+  dropProblem,
+  sumStoryPoints,
+} from "../../domain/jira.utils";
+import {
+  SWIMLANE_GROUPINGS,
+  SWIMLANE_GROUPING_LABELS,
+  laneKeys,
+  lanePatch,
+  laneProblem,
+  swimlanes,
+  type SwimlaneGrouping,
+} from "../../domain/swimlanes";
 import { DroppableColumn } from "./DroppableColumn";
-import type { Issue, IssueStatus } from "../../domain/types";
+import { ColumnHeader, type ColumnWip } from "./ColumnHeader";
+import type { Issue, Status } from "../../domain/types";
 import { IssueCard } from "./IssueCard";
 import { VirtualIssueList } from "./VirtualIssueList";
 
-const STATUSES: Array<{ key: IssueStatus; title: string }> = [
-  { key: "backlog", title: "Backlog" },
-  { key: "todo", title: "To do" },
-  { key: "in_progress", title: "In progress" },
-  { key: "done", title: "Done" },
-];
-
 export const BoardColumns = React.memo(function BoardColumns(props: {
   view: "backlog" | "sprint";
   issues: Issue[];
+  statuses: Status[];
+  // Every issue of the view before filtering; WIP limits count them all.
+  allIssues?: Issue[];
+  // Board members, to title assignee swimlanes.
+  people?: Array<{ id: string; name: string }>;
   onOpenIssue: (id: string) => void;
-  onBatchPatch: (changes: Array<{ id: string; patch: Partial<Issue> }>) => void;
+  onBatchPatch: (changes: Array<{ id: string; patch: Partial<Issue>; version?: number }>) => void;
   isSaving?: boolean;
+  // Closed sprints are shown as they ended; nothing can be dragged.
+  readOnly?: boolean;
 }) {
-  const { view, issues, onOpenIssue, onBatchPatch, isSaving } = props;
+  const { view, issues, statuses, onOpenIssue, onBatchPatch, isSaving, readOnly } = props;
+  const allIssues = props.allIssues ?? issues;
+  const people = props.people;
 
   const [activeId, setActiveId] = useState<string | null>(null);
   const lastOverIdRef = useRef<string | null>(null);
+  const [grouping, setGrouping] = useState<SwimlaneGrouping>("none");
+  const [collapsed, setCollapsed] = useState<ReadonlySet<string>>(new Set());
 
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
@@ -45,25 +69,45 @@ export const BoardColumns = React.memo(function BoardColumns(props: {
 
   const scopedIssues = useMemo(() => issues.slice().sort((a, b) => a.order - b.order), [issues]);
 
-  const issuesByStatus = useMemo(() => {
-    const base: Record<IssueStatus, Issue[]> = {
-      backlog: [],
-      todo: [],
-      in_progress: [],
-      done: [],
-    };
-    for (const it of scopedIssues) base[it.status].push(it);
-    for (const k of Object.keys(base) as IssueStatus[]) {
-      base[k].sort((a, b) => a.order - b.order);
-    }
+  const columns = useMemo(() => boardColumns(view, statuses), [view, statuses]);
+
+  const issuesByColumn = useMemo(() => {
+    const base: Record<string, Issue[]> = {};
+    for (const col of columns) base[col.key] = [];
+    // scopedIssues is already in order, so each column is too.
+    for (const it of scopedIssues) base[columnKey(view, it.statusId)]?.push(it);
     return base;
-  }, [scopedIssues]);
+  }, [columns, scopedIssues, view]);
+
+  // Swimlanes only split the sprint board; the backlog is a single list.
+  const lanesOn = view === "sprint" && grouping !== "none";
+  const lanes = useMemo(
+    () => (lanesOn ? swimlanes(grouping, scopedIssues, people ?? []) : []),
+    [grouping, lanesOn, people, scopedIssues]
+  );
+  // Looked up among every issue, so sub-tasks find their parent's epic while it is filtered out.
+  const laneOf = useMemo(() => laneKeys(grouping, allIssues), [grouping, allIssues]);
+
+  const wipCounts = useMemo(() => countByStatus(allIssues), [allIssues]);
 
   const activeIssue = useMemo(
     () => (activeId ? (scopedIssues.find((x) => x.id === activeId) ?? null) : null),
     [activeId, scopedIssues]
   );
 
+  // Why the dragged issue can't enter the column `col` of the lane `lane`,
+  // which changes its grouping field when it isn't the lane it is in.
+  const cellProblem = (issue: Issue, lane: string | null, col: string) => {
+    if (view === "backlog") return null;
+    let moved = issue;
+    if (lanesOn && lane !== null && lane !== laneOf.get(issue.id)) {
+      const problem = laneProblem(grouping, issue, lane);
+      if (problem) return problem;
+      moved = { ...issue, ...lanePatch(grouping, lane) };
+    }
+    return dropProblem(statuses, moved, col, wipCounts[col] ?? 0);
+  };
+
   const onDragStart = (e: DragStartEvent) => {
     const id = String(e.active.id);
     setActiveId(id);
@@ -91,46 +135,60 @@ export const BoardColumns = React.memo(function BoardColumns(props: {
     // With virtualization, the "over issue" may not be mounted -> null.
     const overIssue = scopedIssues.find((x) => x.id === oId) ?? null;
 
-    // Determine destination status from column id or over issue status
-    let toStatus = parseDropStatus(oId);
-    if (!toStatus) toStatus = overIssue?.status ?? null;
-    if (!toStatus) return;
+    // Determine destination column from column id or over issue status
+    let toColumn = parseDropStatus(oId);
+    if (!toColumn) toColumn = overIssue ? columnKey(view, overIssue.statusId) : null;
+    if (!toColumn || !issuesByColumn[toColumn]) return;
 
-    if (!canShowStatus(view, toStatus)) return;
+    // ...and the destination lane the same way.
+    const toLane = lanesOn
+      ? (parseDropLane(oId) ?? (overIssue ? (laneOf.get(overIssue.id) ?? null) : null))
+      : null;
+    if (cellProblem(active, toLane, toColumn)) return;
+    const changesLane = toLane !== null && toLane !== laneOf.get(aId);
+    const lanePatchForActive = changesLane ? lanePatch(grouping, toLane) : {};
 
-    const fromStatus = active.status;
+    const fromColumn = columnKey(view, active.statusId);
 
-    const fromList = scopedIssues
-      .filter((i) => i.status === fromStatus)
-      .slice()
-      .sort((a, b) => a.order - b.order);
+    const fromList = issuesByColumn[fromColumn] ?? [];
+    const toList = issuesByColumn[toColumn];
 
-    const toList = scopedIssues
-      .filter((i) => i.status === toStatus)
-      .slice()
-      .sort((a, b) => a.order - b.order);
-
-    // SAME COLUMN reorder
-    if (fromStatus === toStatus) {
+    // SAME COLUMN reorder (the backlog only has one column)
+    if (fromColumn === toColumn) {
       const list = fromList;
       const oldIndex = list.findIndex((x) => x.id === aId);
       if (oldIndex < 0) return;
 
-      // If overIssue is missing (virtualized), treat "drop on column" as move to end
-      const newIndex = overIssue ? list.findIndex((x) => x.id === overIssue.id) : list.length - 1;
+      // If overIssue is missing (virtualized), treat "drop on column" as move to end;
+      // dropped on another lane's cell, it keeps its place in the column.
+      const newIndex = overIssue
+        ? list.findIndex((x) => x.id === overIssue.id)
+        : changesLane
+          ? oldIndex
+          : list.length - 1;
 
-      if (newIndex < 0 || oldIndex === newIndex) return;
+      if (newIndex < 0 || (oldIndex === newIndex && !changesLane)) return;
 
       const next = arrayMove(list, oldIndex, newIndex);
       const normalized = normalizeOrders(next);
 
-      onBatchPatch(normalized.map((it) => ({ id: it.id, patch: { order: it.order } })));
+      onBatchPatch(
+        normalized.map((it) =>
+          it.id === aId && changesLane
+            ? {
+                id: it.id,
+                patch: { order: it.order, ...lanePatchForActive },
+                version: active.version,
+              }
+            : { id: it.id, patch: { order: it.order } }
+        )
+      );
       return;
     }
 
     // CROSS COLUMN move
     const fromWithout = fromList.filter((x) => x.id !== aId);
-    const moved: Issue = { ...active, status: toStatus };
+    const moved: Issue = { ...active, statusId: toColumn };
 
     const toNext = toList.filter((x) => x.id !== aId);
 
@@ -150,10 +208,16 @@ export const BoardColumns = React.memo(function BoardColumns(props: {
     const normalizedFrom = normalizeOrders(fromWithout);
 
     onBatchPatch([
-      ...normalizedTo.map((it) => ({
-        id: it.id,
-        patch: { status: it.status, order: it.order },
-      })),
+      // Only the dragged issue changes status (and lane); its new neighbours just re-rank.
+      ...normalizedTo.map((it) =>
+        it.id === aId
+          ? {
+              id: it.id,
+              patch: { statusId: it.statusId, order: it.order, ...lanePatchForActive },
+              version: active.version,
+            }
+          : { id: it.id, patch: { order: it.order } }
+      ),
       ...normalizedFrom.map((it) => ({
         id: it.id,
         patch: { order: it.order },
@@ -161,8 +225,84 @@ export const BoardColumns = React.memo(function BoardColumns(props: {
     ]);
   };
 
+  const columnWip = (key: string): ColumnWip | null => {
+    const status = view === "sprint" ? statuses.find((s) => s.id === key) : null;
+    if (!status) return null;
+    return {
+      count: wipCounts[key] ?? 0,
+      min: status.wipMin,
+      max: status.wipMax,
+      hard: status.wipHard,
+    };
+  };
+
+  const gridClass = [
+    "grid gap-4 min-w-0",
+    // Boards with more columns scroll sideways instead of squeezing them.
+    columns.length > 4
+      ? "overflow-x-auto lg:grid-flow-col lg:auto-cols-[minmax(16rem,1fr)]"
+      : "lg:grid-cols-4",
+  ].join(" ");
+
+  const renderCell = (colKey: string, title: string, colIssues: Issue[], lane: string | null) => {
+    const problem = activeIssue ? cellProblem(activeIssue, lane, colKey) : null;
+    return (
+      <DroppableColumn
+        key={colKey}
+        id={dropTargetId(colKey, lane)}
+        title={title}
+        count={colIssues.length}
+        points={sumStoryPoints(colIssues)}
+        blockedReason={problem}
+        wip={columnWip(colKey)}
+        hideHeader={lane !== null}
+      >
+        <SortableContext
+          items={colIssues.map((x) => x.id)}
+          strategy={verticalListSortingStrategy}
+          disabled={readOnly}
+        >
+          <VirtualIssueList
+            issues={colIssues}
+            onOpenIssue={onOpenIssue}
+            estimateSize={118}
+            overscan={10}
+            maxHeightPx={lane !== null ? 360 : 560}
+          />
+        </SortableContext>
+      </DroppableColumn>
+    );
+  };
+
+  const toggleLane = (key: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
   return (
     <div>
+      {view === "sprint" ? (
+        <div className="mb-3 flex items-center justify-end gap-2 text-xs text-white/60">
+          <label htmlFor="swimlane-grouping">Swimlanes</label>
+          <select
+            id="swimlane-grouping"
+            value={grouping}
+            onChange={(e) => setGrouping(e.target.value as SwimlaneGrouping)}
+            className="rounded-lg border border-white/10 bg-black/30 px-2 py-1 text-xs text-white outline-none focus:border-white/30"
+          >
+            {SWIMLANE_GROUPINGS.map((g) => (
+              <option key={g} value={g}>
+                {SWIMLANE_GROUPING_LABELS[g]}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : null}
+
       <DndContext
         sensors={sensors}
         collisionDetection={closestCenter}
@@ -174,31 +314,68 @@ export const BoardColumns = React.memo(function BoardColumns(props: {
         }}
         onDragEnd={onDragEnd}
       >
-        <div className="grid gap-4 lg:grid-cols-4 min-w-0">
-          {STATUSES.filter((s) => canShowStatus(view, s.key)).map((col) => {
-            const colIssues = issuesByStatus[col.key];
-            const ids = colIssues.map((x) => x.id);
-
-            return (
-              <DroppableColumn
-                key={col.key}
-                id={`status:${col.key}`}
-                title={col.title}
-                count={colIssues.length}
-              >
-                <SortableContext items={ids} strategy={verticalListSortingStrategy}>
-                  <VirtualIssueList
-                    issues={colIssues}
-                    onOpenIssue={onOpenIssue}
-                    estimateSize={118}
-                    overscan={10}
-                    maxHeightPx={560}
-                  />
-                </SortableContext>
-              </DroppableColumn>
-            );
-          })}
-        </div>
+        {lanesOn ? (
+          <div className="grid gap-3">
+            <div className={gridClass}>
+              {columns.map((col) => {
+                const colIssues = issuesByColumn[col.key];
+                return (
+                  <div key={col.key} className="px-3">
+                    <ColumnHeader
+                      title={col.title}
+                      count={colIssues.length}
+                      points={sumStoryPoints(colIssues)}
+                      wip={columnWip(col.key)}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            {lanes.map((lane) => {
+              const laneIssues = scopedIssues.filter((it) => laneOf.get(it.id) === lane.key);
+              const isCollapsed = collapsed.has(lane.key);
+              return (
+                <section key={lane.key} aria-label={`Swimlane ${lane.title}`}>
+                  <button
+                    type="button"
+                    onClick={() => toggleLane(lane.key)}
+                    aria-expanded={!isCollapsed}
+                    className="mb-2 flex w-full items-center gap-2 rounded-lg px-2 py-1 text-left text-sm hover:bg-white/5"
+                  >
+                    <span className="text-white/50">{isCollapsed ? "▸" : "▾"}</span>
+                    <span className="font-semibold">{lane.title}</span>
+                    <span className="text-xs text-white/50">
+                      {laneIssues.length} {laneIssues.length === 1 ? "issue" : "issues"}
+                    </span>
+                    {sumStoryPoints(laneIssues) > 0 ? (
+                      <span className="rounded-full bg-white/10 px-1.5 py-0.5 text-[10px] text-white/70">
+                        {sumStoryPoints(laneIssues)} pts
+                      </span>
+                    ) : null}
+                  </button>
+
+                  {isCollapsed ? null : (
+                    <div className={gridClass}>
+                      {columns.map((col) =>
+                        renderCell(
+                          col.key,
+                          col.title,
+                          issuesByColumn[col.key].filter((it) => laneOf.get(it.id) === lane.key),
+                          lane.key
+                        )
+                      )}
+                    </div>
+                  )}
+                </section>
+              );
+            })}
+          </div>
+        ) : (
+          <div className={gridClass}>
+            {columns.map((col) => renderCell(col.key, col.title, issuesByColumn[col.key], null))}
+          </div>
+        )}
 
         <DragOverlay>
           {activeIssue ? (
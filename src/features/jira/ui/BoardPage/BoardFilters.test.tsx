@@ -3,11 +3,39 @@ import { render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { BoardFilters } from "./BoardFilters";
 import { emptyFilters } from "../../domain/issueFilters";
+import type { Status } from "../../domain/types";
+
+const status = (id: string, name: string, category: Status["category"], order: number) => ({
+  id,
+  boardId: "b1",
+  name,
+  category,
+  order,
+  transitionsTo: [],
+  validators: [],
+  wipMin: null,
+  wipMax: null,
+  wipHard: false,
+  createdAt: "2024-01-01T00:00:00.000Z",
+});
+
+const statuses: Status[] = [
+  status("st-done", "Done", "done", 4000),
+  status("st-review", "Code review", "in_progress", 3000),
+  status("st-todo", "To do", "todo", 1000),
+  status("st-doing", "In progress", "in_progress", 2000),
+];
 
 describe("BoardFilters", () => {
   it("renders search input and status select", () => {
     render(
-      <BoardFilters filters={emptyFilters} onChange={() => {}} totalCount={10} filteredCount={10} />
+      <BoardFilters
+        filters={emptyFilters}
+        onChange={() => {}}
+        labels={[]}
+        totalCount={10}
+        filteredCount={10}
+      />
     );
 
     expect(screen.getByLabelText("Search issues")).toBeInTheDocument();
@@ -16,7 +44,13 @@ describe("BoardFilters", () => {
 
   it("does not show clear button or count when filters are empty", () => {
     render(
-      <BoardFilters filters={emptyFilters} onChange={() => {}} totalCount={10} filteredCount={10} />
+      <BoardFilters
+        filters={emptyFilters}
+        onChange={() => {}}
+        labels={[]}
+        totalCount={10}
+        filteredCount={10}
+      />
     );
 
     expect(screen.queryByText("Clear filters")).not.toBeInTheDocument();
@@ -28,6 +62,7 @@ describe("BoardFilters", () => {
       <BoardFilters
         filters={{ ...emptyFilters, search: "bug" }}
         onChange={() => {}}
+        labels={[]}
         totalCount={10}
         filteredCount={3}
       />
@@ -42,7 +77,13 @@ describe("BoardFilters", () => {
     const onChange = vi.fn();
 
     render(
-      <BoardFilters filters={emptyFilters} onChange={onChange} totalCount={10} filteredCount={10} />
+      <BoardFilters
+        filters={emptyFilters}
+        onChange={onChange}
+        labels={[]}
+        totalCount={10}
+        filteredCount={10}
+      />
     );
 
     await user.type(screen.getByLabelText("Search issues"), "b");
@@ -58,25 +99,59 @@ describe("BoardFilters", () => {
     const onChange = vi.fn();
 
     render(
-      <BoardFilters filters={emptyFilters} onChange={onChange} totalCount={10} filteredCount={10} />
+      <BoardFilters
+        filters={emptyFilters}
+        onChange={onChange}
+        labels={[]}
+        statuses={statuses}
+        totalCount={10}
+        filteredCount={10}
+      />
     );
 
-    await user.selectOptions(screen.getByLabelText("Filter by status"), "todo");
+    await user.selectOptions(screen.getByLabelText("Filter by status"), "Code review");
 
     expect(onChange).toHaveBeenCalledWith({
       ...emptyFilters,
-      status: "todo",
+      statusId: "st-review",
     });
   });
 
+  it("groups the board's statuses by category in column order", () => {
+    render(
+      <BoardFilters
+        filters={emptyFilters}
+        onChange={() => {}}
+        labels={[]}
+        statuses={statuses}
+        totalCount={10}
+        filteredCount={10}
+      />
+    );
+
+    const groups = screen.getAllByRole("group");
+    expect(groups.map((g) => g.getAttribute("label"))).toEqual(["To do", "In progress", "Done"]);
+    expect(Array.from(groups[1].querySelectorAll("option")).map((o) => o.textContent)).toEqual([
+      "In progress",
+      "Code review",
+    ]);
+  });
+
   it("clears all filters when clear button is clicked", async () => {
     const user = userEvent.setup();
     const onChange = vi.fn();
 
     render(
       <BoardFilters
-        filters={{ search: "bug", status: "todo", assigneeId: "u1" }}
+        filters={{
+          ...emptyFilters,
+          search: "bug",
+          statusId: "st-todo",
+          assigneeId: "u1",
+          label: "ui",
+        }}
         onChange={onChange}
+        labels={["ui"]}
         totalCount={10}
         filteredCount={2}
       />
@@ -84,10 +159,54 @@ describe("BoardFilters", () => {
 
     await user.click(screen.getByText("Clear filters"));
 
-    expect(onChange).toHaveBeenCalledWith({
-      search: "",
-      status: null,
-      assigneeId: null,
-    });
+    expect(onChange).toHaveBeenCalledWith(emptyFilters);
+  });
+
+  it("only offers a label filter when the board has labels", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+
+    const { rerender } = render(
+      <BoardFilters
+        filters={emptyFilters}
+        onChange={onChange}
+        labels={[]}
+        totalCount={10}
+        filteredCount={10}
+      />
+    );
+    expect(screen.queryByLabelText("Filter by label")).not.toBeInTheDocument();
+
+    rerender(
+      <BoardFilters
+        filters={emptyFilters}
+        onChange={onChange}
+        labels={["backend", "ui"]}
+        totalCount={10}
+        filteredCount={10}
+      />
+    );
+    await user.selectOptions(screen.getByLabelText("Filter by label"), "ui");
+
+    expect(onChange).toHaveBeenCalledWith({ ...emptyFilters, label: "ui" });
+  });
+
+  it("calls onChange when selecting a priority", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+
+    render(
+      <BoardFilters
+        filters={emptyFilters}
+        onChange={onChange}
+        labels={[]}
+        totalCount={10}
+        filteredCount={10}
+      />
+    );
+
+    await user.selectOptions(screen.getByLabelText("Filter by priority"), "high");
+
+    expect(onChange).toHaveBeenCalledWith({ ...emptyFilters, priority: "high" });
   });
 });
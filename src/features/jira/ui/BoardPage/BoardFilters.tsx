@@ -1,23 +1,92 @@
 import React from "react";
-import type { IssueStatus } from "../../domain/types";
-import type { IssueFilters } from "../../domain/issueFilters";
-import { hasActiveFilters } from "../../domain/issueFilters";
+import type { CustomField, IssuePriority, IssueType, Status } from "../../domain/types";
+import type { DueFilter, IssueFilters } from "../../domain/issueFilters";
+import { emptyFilters, hasActiveFilters } from "../../domain/issueFilters";
+import {
+  ISSUE_PRIORITIES,
+  ISSUE_PRIORITY_LABELS,
+  ISSUE_TYPES,
+  ISSUE_TYPE_LABELS,
+  STATUS_CATEGORIES,
+  STATUS_CATEGORY_LABELS,
+} from "../../domain/issueFields";
 
-const STATUS_OPTIONS: Array<{ value: IssueStatus; label: string }> = [
-  { value: "backlog", label: "Backlog" },
-  { value: "todo", label: "To do" },
-  { value: "in_progress", label: "In progress" },
-  { value: "done", label: "Done" },
+const SELECT_CLASS =
+  "rounded-xl border border-white/10 bg-black/30 px-3 py-1.5 text-sm text-white outline-none focus:border-white/30";
+
+const DUE_PRESETS: Array<{ value: DueFilter; label: string }> = [
+  { value: "overdue", label: "Overdue" },
+  { value: "due_this_week", label: "Due this week" },
 ];
 
+function CustomFieldFilter(props: {
+  field: CustomField;
+  value: string;
+  people: Array<{ id: string; name: string }>;
+  onChange: (value: string) => void;
+}) {
+  const { field, value, people, onChange } = props;
+  const label = `Filter by ${field.name}`;
+
+  if (field.type === "select" || field.type === "multi_select" || field.type === "user") {
+    const choices =
+      field.type === "user"
+        ? people.map((p) => ({ value: p.id, label: p.name }))
+        : field.options.map((o) => ({ value: o, label: o }));
+    return (
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        aria-label={label}
+        className={SELECT_CLASS}
+      >
+        <option value="">Any {field.name}</option>
+        {choices.map((c) => (
+          <option key={c.value} value={c.value}>
+            {c.label}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      type={field.type === "number" ? "number" : field.type === "date" ? "date" : "text"}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={field.name}
+      aria-label={label}
+      className={[SELECT_CLASS, "w-36 placeholder:text-white/40"].join(" ")}
+    />
+  );
+}
+
 export const BoardFilters = React.memo(function BoardFilters(props: {
   filters: IssueFilters;
   onChange: (filters: IssueFilters) => void;
+  labels: string[];
+  statuses?: Status[];
+  customFields?: CustomField[];
+  people?: Array<{ id: string; name: string }>;
   totalCount: number;
   filteredCount: number;
 }) {
-  const { filters, onChange, totalCount, filteredCount } = props;
+  const {
+    filters,
+    onChange,
+    labels,
+    statuses = [],
+    customFields = [],
+    people = [],
+    totalCount,
+    filteredCount,
+  } = props;
   const active = hasActiveFilters(filters);
+  const statusGroups = STATUS_CATEGORIES.map((category) => ({
+    category,
+    statuses: statuses.filter((s) => s.category === category).sort((a, b) => a.order - b.order),
+  })).filter((group) => group.statuses.length > 0);
 
   return (
     <div className="flex flex-wrap items-center gap-3">
@@ -31,29 +100,108 @@ export const BoardFilters = React.memo(function BoardFilters(props: {
       />
 
       <select
-        value={filters.status ?? ""}
-        onChange={(e) =>
-          onChange({
-            ...filters,
-            status: (e.target.value as IssueStatus) || null,
-          })
-        }
+        value={filters.statusId ?? ""}
+        onChange={(e) => onChange({ ...filters, statusId: e.target.value || null })}
         aria-label="Filter by status"
-        className="rounded-xl border border-white/10 bg-black/30 px-3 py-1.5 text-sm text-white outline-none focus:border-white/30"
+        className={SELECT_CLASS}
       >
         <option value="">All statuses</option>
-        {STATUS_OPTIONS.map((opt) => (
-          <option key={opt.value} value={opt.value}>
-            {opt.label}
+        {statusGroups.map((group) => (
+          <optgroup key={group.category} label={STATUS_CATEGORY_LABELS[group.category]}>
+            {group.statuses.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+
+      <select
+        value={filters.type ?? ""}
+        onChange={(e) => onChange({ ...filters, type: (e.target.value as IssueType) || null })}
+        aria-label="Filter by type"
+        className={SELECT_CLASS}
+      >
+        <option value="">All types</option>
+        {ISSUE_TYPES.map((t) => (
+          <option key={t} value={t}>
+            {ISSUE_TYPE_LABELS[t]}
           </option>
         ))}
       </select>
 
+      <select
+        value={filters.priority ?? ""}
+        onChange={(e) =>
+          onChange({ ...filters, priority: (e.target.value as IssuePriority) || null })
+        }
+        aria-label="Filter by priority"
+        className={SELECT_CLASS}
+      >
+        <option value="">All priorities</option>
+        {[...ISSUE_PRIORITIES].reverse().map((p) => (
+          <option key={p} value={p}>
+            {ISSUE_PRIORITY_LABELS[p]}
+          </option>
+        ))}
+      </select>
+
+      {labels.length > 0 || filters.label ? (
+        <select
+          value={filters.label ?? ""}
+          onChange={(e) => onChange({ ...filters, label: e.target.value || null })}
+          aria-label="Filter by label"
+          className={SELECT_CLASS}
+        >
+          <option value="">All labels</option>
+          {labels.map((l) => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </select>
+      ) : null}
+
+      {customFields.map((field) => (
+        <CustomFieldFilter
+          key={field.id}
+          field={field}
+          value={filters.customFields[field.id] ?? ""}
+          people={people}
+          onChange={(value) =>
+            onChange({ ...filters, customFields: { ...filters.customFields, [field.id]: value } })
+          }
+        />
+      ))}
+
+      <div className="flex items-center gap-1">
+        {DUE_PRESETS.map((preset) => {
+          const selected = filters.due === preset.value;
+          return (
+            <button
+              key={preset.value}
+              type="button"
+              aria-pressed={selected}
+              onClick={() => onChange({ ...filters, due: selected ? null : preset.value })}
+              className={[
+                "rounded-xl border px-3 py-1.5 text-sm",
+                selected
+                  ? "border-white/30 bg-white/15 text-white"
+                  : "border-white/10 bg-black/30 text-white/70 hover:bg-white/10 hover:text-white",
+              ].join(" ")}
+            >
+              {preset.label}
+            </button>
+          );
+        })}
+      </div>
+
       {active && (
         <>
           <button
             type="button"
-            onClick={() => onChange({ search: "", status: null, assigneeId: null })}
+            onClick={() => onChange(emptyFilters)}
             className="rounded-xl border border-white/15 bg-white/5 px-3 py-1.5 text-sm text-white/70 hover:bg-white/10 hover:text-white"
           >
             Clear filters
@@ -0,0 +1,190 @@
+import React, { useState } from "react";
+import type { BoardInvite, BoardMember, BoardRole } from "../../domain/types";
+
+const ROLES: BoardRole[] = ["viewer", "editor", "admin"];
+
+const EXPIRY_OPTIONS: Array<{ hours: number; label: string }> = [
+  { hours: 24, label: "1 day" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "7 days" },
+  { hours: 720, label: "30 days" },
+];
+
+export const BoardMembersPanel = React.memo(function BoardMembersPanel(props: {
+  members: BoardMember[];
+  invites: BoardInvite[];
+  currentUserId: string | null;
+  canManage: boolean;
+  isCreatingInvite?: boolean;
+  onChangeRole: (userId: string, role: BoardRole) => void;
+  onRemoveMember: (userId: string) => void;
+  onCreateInvite: (args: {
+    role: BoardRole;
+    expiresInHours: number;
+    maxUses: number | null;
+  }) => void;
+  onRevokeInvite: (inviteId: string) => void;
+  onCopyInvite: (invite: BoardInvite) => void;
+}) {
+  const {
+    members,
+    invites,
+    currentUserId,
+    canManage,
+    isCreatingInvite = false,
+    onChangeRole,
+    onRemoveMember,
+    onCreateInvite,
+    onRevokeInvite,
+    onCopyInvite,
+  } = props;
+
+  const [inviteRole, setInviteRole] = useState<BoardRole>("editor");
+  const [expiresInHours, setExpiresInHours] = useState(72);
+  const [multiUse, setMultiUse] = useState(false);
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+      <div className="text-sm font-semibold">Members</div>
+
+      <div className="mt-3 grid gap-2">
+        {members.map((m) => (
+          <div
+            key={m.userId}
+            className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-white/10 bg-black/20 px-3 py-2"
+          >
+            <div className="min-w-0">
+              <div className="truncate text-sm text-white">
+                {m.name}
+                {m.userId === currentUserId ? (
+                  <span className="ml-2 text-xs text-white/50">(you)</span>
+                ) : null}
+              </div>
+              <div className="truncate text-xs text-white/50">{m.email}</div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              {canManage ? (
+                <select
+                  value={m.role}
+                  onChange={(e) => onChangeRole(m.userId, e.target.value as BoardRole)}
+                  aria-label={`Role for ${m.name}`}
+                  className="rounded-lg border border-white/10 bg-black/30 px-2 py-1 text-xs text-white outline-none focus:border-white/30"
+                >
+                  {ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      {r}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-xs text-white/60">{m.role}</span>
+              )}
+
+              {canManage || m.userId === currentUserId ? (
+                <button
+                  type="button"
+                  onClick={() => onRemoveMember(m.userId)}
+                  className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white"
+                >
+                  {m.userId === currentUserId ? "Leave" : "Remove"}
+                </button>
+              ) : null}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {canManage ? (
+        <>
+          <div className="mt-6 text-sm font-semibold">Invite links</div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as BoardRole)}
+              aria-label="Invite role"
+              className="rounded-xl border border-white/10 bg-black/30 px-3 py-1.5 text-sm text-white outline-none focus:border-white/30"
+            >
+              {ROLES.map((r) => (
+                <option key={r} value={r}>
+                  {r}
+                </option>
+              ))}
+            </select>
+
+            <select
+              value={expiresInHours}
+              onChange={(e) => setExpiresInHours(Number(e.target.value))}
+              aria-label="Invite expiry"
+              className="rounded-xl border border-white/10 bg-black/30 px-3 py-1.5 text-sm text-white outline-none focus:border-white/30"
+            >
+              {EXPIRY_OPTIONS.map((opt) => (
+                <option key={opt.hours} value={opt.hours}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+
+            <label className="flex items-center gap-2 text-sm text-white/70">
+              <input
+                type="checkbox"
+                checked={multiUse}
+                onChange={(e) => setMultiUse(e.target.checked)}
+              />
+              Multi-use
+            </label>
+
+            <button
+              type="button"
+              disabled={isCreatingInvite}
+              onClick={() =>
+                onCreateInvite({ role: inviteRole, expiresInHours, maxUses: multiUse ? null : 1 })
+              }
+              className="rounded-xl border border-white/15 bg-white/10 px-3 py-1.5 text-sm text-white hover:bg-white/15"
+            >
+              {isCreatingInvite ? "Creating…" : "Create link"}
+            </button>
+          </div>
+
+          <div className="mt-3 grid gap-2">
+            {invites.length === 0 ? (
+              <div className="rounded-xl border border-dashed border-white/10 p-3 text-sm text-white/40">
+                No outstanding invites
+              </div>
+            ) : (
+              invites.map((inv) => (
+                <div
+                  key={inv.id}
+                  className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-white/10 bg-black/20 px-3 py-2"
+                >
+                  <div className="text-xs text-white/60">
+                    {inv.role} ·{" "}
+                    {inv.maxUses == null ? "multi-use" : `${inv.useCount}/${inv.maxUses} used`} ·
+                    expires {new Date(inv.expiresAt).toLocaleString()}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => onCopyInvite(inv)}
+                      className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white"
+                    >
+                      Copy link
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onRevokeInvite(inv.id)}
+                      className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white"
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+});
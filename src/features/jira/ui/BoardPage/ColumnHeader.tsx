@@ -0,0 +1,61 @@
+import React from "react";
+import { wipState } from "@jira-lab/shared";
+
+export type ColumnWip = { count: number; min: number | null; max: number | null; hard: boolean };
+
+const WIP_CLASS = {
+  within: "bg-white/10 text-white/70",
+  under: "bg-amber-500/20 text-amber-200",
+  over: "bg-red-500/20 text-red-200",
+} as const;
+
+function wipTitle(wip: ColumnWip) {
+  const limits = [
+    wip.min !== null ? `at least ${wip.min}` : null,
+    wip.max !== null ? `at most ${wip.max}${wip.hard ? " (enforced)" : ""}` : null,
+  ].filter(Boolean);
+  return `WIP limit: ${limits.join(", ")}`;
+}
+
+function ColumnHeaderImpl(props: {
+  title: string;
+  count: number;
+  // Sum of the column's story points; unestimated issues add nothing.
+  points: number;
+  // The column's WIP limits and how many of the sprint's issues it holds,
+  // filtered out or not.
+  wip?: ColumnWip | null;
+}) {
+  const { wip } = props;
+  const hasWip = !!wip && (wip.min !== null || wip.max !== null);
+  const wipStatus = hasWip ? wipState({ wipMin: wip.min, wipMax: wip.max }, wip.count) : null;
+
+  return (
+    <div className="flex items-center justify-between">
+      <div className="font-semibold">{props.title}</div>
+      <div className="flex items-center gap-2 text-xs text-white/50">
+        {props.points > 0 ? (
+          <span
+            title="Story points"
+            className="rounded-full bg-white/10 px-1.5 py-0.5 text-[10px] text-white/70"
+          >
+            {props.points} pts
+          </span>
+        ) : null}
+        {hasWip && wipStatus ? (
+          <span
+            title={wipTitle(wip)}
+            data-wip={wipStatus}
+            className={["rounded-full px-1.5 py-0.5 text-[10px]", WIP_CLASS[wipStatus]].join(" ")}
+          >
+            WIP {wip.count}
+            {wip.max !== null ? ` / ${wip.max}` : ` (min ${wip.min})`}
+          </span>
+        ) : null}
+        <span>{props.count}</span>
+      </div>
+    </div>
+  );
+}
+
+export const ColumnHeader = React.memo(ColumnHeaderImpl);
@@ -0,0 +1,99 @@
+import React, { useState } from "react";
+import type { Sprint } from "../../domain/types";
+import type { SprintProgress } from "../../domain/sprints";
+
+const INPUT_CLASS =
+  "rounded-xl border border-white/10 bg-black/30 px-3 py-1.5 text-sm text-white outline-none placeholder:text-white/40 focus:border-white/30";
+
+const BACKLOG = "";
+
+function WorkCount(props: { label: string; issueCount: number; points: number }) {
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/20 px-3 py-2">
+      <div className="text-xs text-white/50">{props.label}</div>
+      <div className="text-lg font-semibold text-white">
+        {props.issueCount} {props.issueCount === 1 ? "issue" : "issues"}
+      </div>
+      <div className="text-xs text-white/50">{props.points} pts</div>
+    </div>
+  );
+}
+
+export const CompleteSprintDialog = React.memo(function CompleteSprintDialog(props: {
+  sprint: Sprint;
+  progress: SprintProgress;
+  // Where unfinished issues can go besides the backlog.
+  plannedSprints: Sprint[];
+  isCompleting: boolean;
+  onComplete: (moveTo: string | null) => void;
+  onCancel: () => void;
+}) {
+  const { sprint, progress, plannedSprints, isCompleting, onComplete, onCancel } = props;
+  const [moveTo, setMoveTo] = useState(BACKLOG);
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 p-4"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onCancel();
+      }}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Complete ${sprint.name}`}
+        onSubmit={(e) => {
+          e.preventDefault();
+          onComplete(moveTo === BACKLOG ? null : moveTo);
+        }}
+        className="w-full max-w-md rounded-2xl border border-white/10 bg-neutral-900 p-5"
+      >
+        <div className="text-lg font-semibold text-white">Complete {sprint.name}</div>
+        {sprint.goal ? <div className="mt-1 text-sm text-white/60">{sprint.goal}</div> : null}
+
+        <div className="mt-4 grid grid-cols-2 gap-3">
+          <WorkCount label="Completed" {...progress.completed} />
+          <WorkCount label="Incomplete" {...progress.incomplete} />
+        </div>
+
+        {progress.incomplete.issueCount > 0 ? (
+          <label className="mt-4 grid gap-1 text-xs text-white/60">
+            Move incomplete issues to
+            <select
+              value={moveTo}
+              onChange={(e) => setMoveTo(e.target.value)}
+              className={INPUT_CLASS}
+              autoFocus
+            >
+              <option value={BACKLOG}>Backlog</option>
+              {plannedSprints.map((sp) => (
+                <option key={sp.id} value={sp.id}>
+                  {sp.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <div className="mt-4 text-sm text-white/60">Every issue in this sprint is done.</div>
+        )}
+
+        <div className="mt-5 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isCompleting}
+            className="rounded-xl border border-white/15 bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            {isCompleting ? "Completing…" : "Complete sprint"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+});
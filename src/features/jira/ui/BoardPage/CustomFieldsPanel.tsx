@@ -0,0 +1,199 @@
+import React, { useState } from "react";
+import { CreateCustomFieldInputSchema, customFieldHasOptions } from "@jira-lab/shared";
+import type { CustomField, CustomFieldType } from "../../domain/types";
+import { CUSTOM_FIELD_TYPES, CUSTOM_FIELD_TYPE_LABELS } from "../../domain/customFields";
+
+const INPUT_CLASS =
+  "rounded-xl border border-white/10 bg-black/30 px-3 py-1.5 text-sm text-white outline-none placeholder:text-white/40 focus:border-white/30";
+
+// Options are edited as a comma-separated list.
+function parseOptions(text: string) {
+  return text
+    .split(",")
+    .map((o) => o.trim())
+    .filter(Boolean);
+}
+
+function FieldRow(props: {
+  field: CustomField;
+  canManage: boolean;
+  onUpdate: (args: { id: string; name?: string; options?: string[] }) => void;
+  onDelete: (id: string) => void;
+}) {
+  const { field, canManage, onUpdate, onDelete } = props;
+  const [name, setName] = useState(field.name);
+  const [options, setOptions] = useState(field.options.join(", "));
+  const [confirming, setConfirming] = useState(false);
+
+  const commitName = () => {
+    const next = name.trim();
+    if (next && next !== field.name) onUpdate({ id: field.id, name: next });
+    else setName(field.name);
+  };
+
+  const commitOptions = () => {
+    const next = parseOptions(options);
+    if (next.length === 0) setOptions(field.options.join(", "));
+    else if (next.join("\n") !== field.options.join("\n"))
+      onUpdate({ id: field.id, options: next });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-xl border border-white/10 bg-black/20 px-3 py-2">
+      {canManage ? (
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          aria-label={`Name of ${field.name}`}
+          className={[INPUT_CLASS, "w-40"].join(" ")}
+        />
+      ) : (
+        <span className="text-sm text-white">{field.name}</span>
+      )}
+      <span className="text-xs text-white/50">{CUSTOM_FIELD_TYPE_LABELS[field.type]}</span>
+
+      {customFieldHasOptions(field.type) ? (
+        canManage ? (
+          <input
+            value={options}
+            onChange={(e) => setOptions(e.target.value)}
+            onBlur={commitOptions}
+            aria-label={`Options of ${field.name}`}
+            className={[INPUT_CLASS, "min-w-0 flex-1"].join(" ")}
+          />
+        ) : (
+          <span className="min-w-0 flex-1 truncate text-xs text-white/60">
+            {field.options.join(", ")}
+          </span>
+        )
+      ) : (
+        <span className="flex-1" />
+      )}
+
+      {canManage ? (
+        <button
+          type="button"
+          onClick={() => (confirming ? onDelete(field.id) : setConfirming(true))}
+          onBlur={() => setConfirming(false)}
+          className={[
+            "rounded-lg px-2 py-1 text-xs hover:bg-white/10",
+            confirming ? "text-red-200" : "text-white/60 hover:text-white",
+          ].join(" ")}
+        >
+          {confirming ? "Delete with all values?" : "Delete"}
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+export const CustomFieldsPanel = React.memo(function CustomFieldsPanel(props: {
+  fields: CustomField[];
+  canManage: boolean;
+  isCreating?: boolean;
+  onCreate: (args: { name: string; type: CustomFieldType; options: string[] }) => void;
+  onUpdate: (args: { id: string; name?: string; options?: string[] }) => void;
+  onDelete: (id: string) => void;
+}) {
+  const { fields, canManage, isCreating = false, onCreate, onUpdate, onDelete } = props;
+  const [name, setName] = useState("");
+  const [type, setType] = useState<CustomFieldType>("text");
+  const [options, setOptions] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const withOptions = customFieldHasOptions(type);
+
+  const submit = () => {
+    const parsed = CreateCustomFieldInputSchema.safeParse({
+      name,
+      type,
+      options: withOptions ? parseOptions(options) : [],
+    });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    onCreate(parsed.data);
+    setName("");
+    setOptions("");
+    setError(null);
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+      <div className="text-sm font-semibold">Custom fields</div>
+
+      <div className="mt-3 grid gap-2">
+        {fields.length === 0 ? (
+          <div className="rounded-xl border border-dashed border-white/10 p-3 text-sm text-white/40">
+            No custom fields yet
+          </div>
+        ) : (
+          fields.map((field) => (
+            <FieldRow
+              key={`${field.id}:${field.name}:${field.options.join("\n")}`}
+              field={field}
+              canManage={canManage}
+              onUpdate={onUpdate}
+              onDelete={onDelete}
+            />
+          ))
+        )}
+      </div>
+
+      {canManage ? (
+        <div className="mt-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              placeholder="Field name"
+              aria-label="New field name"
+              className={[INPUT_CLASS, "w-40"].join(" ")}
+            />
+            <select
+              value={type}
+              onChange={(e) => {
+                setType(e.target.value as CustomFieldType);
+                setError(null);
+              }}
+              aria-label="New field type"
+              className={INPUT_CLASS}
+            >
+              {CUSTOM_FIELD_TYPES.map((t) => (
+                <option key={t} value={t}>
+                  {CUSTOM_FIELD_TYPE_LABELS[t]}
+                </option>
+              ))}
+            </select>
+            {withOptions ? (
+              <input
+                value={options}
+                onChange={(e) => {
+                  setOptions(e.target.value);
+                  setError(null);
+                }}
+                placeholder="Options, comma separated"
+                aria-label="New field options"
+                className={[INPUT_CLASS, "min-w-0 flex-1"].join(" ")}
+              />
+            ) : null}
+            <button
+              type="button"
+              disabled={isCreating || !name.trim()}
+              onClick={submit}
+              className="rounded-xl border border-white/15 bg-white/10 px-3 py-1.5 text-sm text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              {isCreating ? "Adding…" : "Add field"}
+            </button>
+          </div>
+          {error ? <div className="mt-2 text-xs text-red-300">{error}</div> : null}
+        </div>
+      ) : null}
+    </div>
+  );
+});
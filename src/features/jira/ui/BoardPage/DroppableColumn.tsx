@@ -1,26 +1,43 @@
 import { useDroppable } from "@dnd-kit/core";
 import React from "react";
+import { ColumnHeader, type ColumnWip } from "./ColumnHeader";
 
 function DroppableColumnImpl(props: {
   id: string;
   title: string;
   count: number;
+  points: number;
+  // Set while the dragged issue may not be dropped here; says why.
+  blockedReason?: string | null;
+  wip?: ColumnWip | null;
+  // Swimlane cells show the column header once above the lanes instead.
+  hideHeader?: boolean;
   children: React.ReactNode;
 }) {
-  const { setNodeRef, isOver } = useDroppable({ id: props.id });
+  const blocked = !!props.blockedReason;
+  const { setNodeRef, isOver } = useDroppable({ id: props.id, disabled: blocked });
 
   return (
     <div
       ref={setNodeRef}
+      title={props.blockedReason ?? undefined}
+      aria-disabled={blocked || undefined}
       className={[
         "rounded-2xl border border-white/10 bg-black/20 p-3 transition",
         isOver ? "ring-2 ring-white/20 bg-white/5" : "",
+        blocked ? "opacity-40 grayscale" : "",
       ].join(" ")}
     >
-      <div className="mb-3 flex items-center justify-between">
-        <div className="font-semibold">{props.title}</div>
-        <div className="text-xs text-white/50">{props.count}</div>
-      </div>
+      {props.hideHeader ? null : (
+        <div className="mb-3">
+          <ColumnHeader
+            title={props.title}
+            count={props.count}
+            points={props.points}
+            wip={props.wip}
+          />
+        </div>
+      )}
 
       {/* Scroll viewport (Jira-like) */}
       <div
@@ -0,0 +1,174 @@
+import React, { useState } from "react";
+import { UpdateSprintInputSchema } from "@jira-lab/shared";
+import type { Sprint } from "../../domain/types";
+
+const INPUT_CLASS =
+  "rounded-xl border border-white/10 bg-black/30 px-3 py-1.5 text-sm text-white outline-none placeholder:text-white/40 focus:border-white/30";
+
+export type SprintEdit = {
+  name: string;
+  goal: string | null;
+  startDate: string | null;
+  endDate: string | null;
+};
+
+export const EditSprintDialog = React.memo(function EditSprintDialog(props: {
+  sprint: Sprint;
+  isSaving: boolean;
+  isDeleting: boolean;
+  onSave: (patch: SprintEdit) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}) {
+  const { sprint, isSaving, isDeleting, onSave, onDelete, onCancel } = props;
+  const [name, setName] = useState(sprint.name);
+  const [goal, setGoal] = useState(sprint.goal ?? "");
+  const [startDate, setStartDate] = useState(sprint.startDate?.slice(0, 10) ?? "");
+  const [endDate, setEndDate] = useState(sprint.endDate?.slice(0, 10) ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  // The active sprint keeps its dates; a planned one may not have any yet.
+  const datesRequired = sprint.state === "active";
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = UpdateSprintInputSchema.safeParse({
+      name,
+      goal,
+      startDate: startDate || null,
+      endDate: endDate || null,
+    });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    const next = parsed.data;
+    if (datesRequired && (!next.startDate || !next.endDate)) {
+      setError("The active sprint needs a start and an end date");
+      return;
+    }
+    setError(null);
+    onSave({
+      name: next.name ?? sprint.name,
+      goal: next.goal ?? null,
+      startDate: next.startDate ?? null,
+      endDate: next.endDate ?? null,
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 p-4"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onCancel();
+      }}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Edit ${sprint.name}`}
+        onSubmit={submit}
+        className="w-full max-w-md rounded-2xl border border-white/10 bg-neutral-900 p-5"
+      >
+        <div className="text-lg font-semibold text-white">Edit {sprint.name}</div>
+
+        <label className="mt-4 grid gap-1 text-xs text-white/60">
+          Sprint name
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={INPUT_CLASS}
+            autoFocus
+          />
+        </label>
+
+        <label className="mt-3 grid gap-1 text-xs text-white/60">
+          Sprint goal
+          <textarea
+            value={goal}
+            onChange={(e) => setGoal(e.target.value)}
+            rows={3}
+            placeholder="What should this sprint achieve?"
+            className={[INPUT_CLASS, "resize-none"].join(" ")}
+          />
+        </label>
+
+        <div className="mt-3 grid grid-cols-2 gap-3">
+          <label className="grid gap-1 text-xs text-white/60">
+            Start date
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              required={datesRequired}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="grid gap-1 text-xs text-white/60">
+            End date
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              required={datesRequired}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+
+        {error ? <div className="mt-3 text-xs text-red-300">{error}</div> : null}
+
+        {confirmingDelete ? (
+          <div className="mt-4 rounded-xl border border-red-500/20 bg-red-500/10 p-3 text-xs text-red-200">
+            Delete {sprint.name}? Its issues move to the backlog.
+            <div className="mt-2 flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setConfirmingDelete(false)}
+                className="rounded-lg px-2 py-1 text-white/70 hover:bg-white/10 hover:text-white"
+              >
+                Keep it
+              </button>
+              <button
+                type="button"
+                onClick={onDelete}
+                disabled={isDeleting}
+                className="rounded-lg bg-red-500/20 px-2 py-1 text-red-100 hover:bg-red-500/30 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                {isDeleting ? "Deleting…" : "Delete sprint"}
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        <div className="mt-5 flex items-center justify-between gap-2">
+          <button
+            type="button"
+            onClick={() => setConfirmingDelete(true)}
+            disabled={confirmingDelete}
+            className="rounded-xl px-3 py-2 text-sm text-red-300 hover:bg-red-500/10 disabled:opacity-40"
+          >
+            Delete
+          </button>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="rounded-xl border border-white/15 bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              {isSaving ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+});
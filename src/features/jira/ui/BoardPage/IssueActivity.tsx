@@ -0,0 +1,40 @@
+import React from "react";
+import type { IssueEvent } from "../../domain/types";
+import { describeIssueEvent, type HistoryLookups } from "../../domain/issueHistory";
+
+export const IssueActivity = React.memo(function IssueActivity(props: {
+  events: IssueEvent[];
+  isLoading?: boolean;
+  lookups: HistoryLookups;
+}) {
+  const { events, isLoading = false, lookups } = props;
+
+  if (isLoading) {
+    return <div className="text-sm text-white/50">Loading activity…</div>;
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="rounded-xl border border-dashed border-white/10 p-3 text-sm text-white/40">
+        No activity yet
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative grid gap-4 border-l border-white/10 pl-4">
+      {events.map((e) => (
+        <li key={e.id} className="relative">
+          <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-white/40" />
+          <div className="text-sm text-white/80">
+            <span className="font-medium text-white">{e.actor.name}</span>{" "}
+            {describeIssueEvent(e, lookups)}
+          </div>
+          <time dateTime={e.createdAt} className="text-xs text-white/45">
+            {new Date(e.createdAt).toLocaleString()}
+          </time>
+        </li>
+      ))}
+    </ol>
+  );
+});
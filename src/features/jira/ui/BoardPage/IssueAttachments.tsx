@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ATTACHMENT_MAX_BYTES, isAllowedAttachmentType, isImageAttachment } from "@jira-lab/shared";
+import type { Attachment } from "../../domain/types";
+
+type LoadContent = (id: string, signal?: AbortSignal) => Promise<Blob>;
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Mirrors the server's limits so obviously bad files fail without a round trip.
+function uploadProblem(file: File) {
+  if (file.size > ATTACHMENT_MAX_BYTES) {
+    return `${file.name} is larger than ${formatBytes(ATTACHMENT_MAX_BYTES)}`;
+  }
+  if (!isAllowedAttachmentType(file.type || "application/octet-stream")) {
+    return `${file.name} is not a supported file type`;
+  }
+  return null;
+}
+
+function Thumbnail(props: { attachment: Attachment; loadContent: LoadContent }) {
+  const { attachment, loadContent } = props;
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let url: string | null = null;
+
+    loadContent(attachment.id, controller.signal)
+      .then((blob) => {
+        url = URL.createObjectURL(blob);
+        setSrc(url);
+      })
+      .catch(() => {
+        // Leave the placeholder in place; the file can still be downloaded.
+      });
+
+    return () => {
+      controller.abort();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment.id, loadContent]);
+
+  return src ? (
+    <img src={src} alt={attachment.filename} className="h-12 w-12 rounded-lg object-cover" />
+  ) : (
+    <div className="h-12 w-12 animate-pulse rounded-lg bg-white/10" />
+  );
+}
+
+function FileBadge(props: { filename: string }) {
+  const ext = props.filename.includes(".") ? props.filename.split(".").pop()! : "file";
+  return (
+    <div className="flex h-12 w-12 items-center justify-center rounded-lg border border-white/10 bg-black/30 text-[10px] uppercase text-white/60">
+      {ext.slice(0, 4)}
+    </div>
+  );
+}
+
+export const IssueAttachments = React.memo(function IssueAttachments(props: {
+  attachments: Attachment[];
+  isLoading?: boolean;
+  isUploading?: boolean;
+  currentUserId: string | null;
+  canUpload: boolean;
+  canModerate: boolean;
+  onUpload: (file: File) => void;
+  onDelete: (id: string) => void;
+  loadContent: LoadContent;
+}) {
+  const {
+    attachments,
+    isLoading = false,
+    isUploading = false,
+    currentUserId,
+    canUpload,
+    canModerate,
+    onUpload,
+    onDelete,
+    loadContent,
+  } = props;
+
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const onFiles = (files: FileList | null) => {
+    if (!files) return;
+    const problems: string[] = [];
+    for (const file of Array.from(files)) {
+      const problem = uploadProblem(file);
+      if (problem) problems.push(problem);
+      else onUpload(file);
+    }
+    setError(problems.length ? problems.join(". ") : null);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const onDownload = async (a: Attachment) => {
+    try {
+      const url = URL.createObjectURL(await loadContent(a.id));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = a.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError(`Could not download ${a.filename}`);
+    }
+  };
+
+  return (
+    <div className="grid gap-3">
+      {isLoading ? (
+        <div className="text-sm text-white/50">Loading attachments…</div>
+      ) : attachments.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-white/10 p-3 text-sm text-white/40">
+          No attachments yet
+        </div>
+      ) : (
+        attachments.map((a) => (
+          <div
+            key={a.id}
+            className="flex items-center gap-3 rounded-xl border border-white/10 bg-black/20 p-2"
+          >
+            {isImageAttachment(a.contentType) ? (
+              <Thumbnail attachment={a} loadContent={loadContent} />
+            ) : (
+              <FileBadge filename={a.filename} />
+            )}
+
+            <div className="min-w-0 flex-1">
+              <button
+                type="button"
+                onClick={() => void onDownload(a)}
+                className="block max-w-full truncate text-left text-sm text-white hover:underline"
+              >
+                {a.filename}
+              </button>
+              <div className="text-xs text-white/50">
+                {formatBytes(a.size)} · {a.uploader.name} ·{" "}
+                {new Date(a.createdAt).toLocaleDateString()}
+              </div>
+            </div>
+
+            {a.uploader.id === currentUserId || canModerate ? (
+              <button
+                type="button"
+                onClick={() => onDelete(a.id)}
+                className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white"
+              >
+                Delete
+              </button>
+            ) : null}
+          </div>
+        ))
+      )}
+
+      {error ? (
+        <div className="rounded-xl border border-red-500/20 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+          {error}
+        </div>
+      ) : null}
+
+      {canUpload ? (
+        <div>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            onChange={(e) => onFiles(e.target.files)}
+            className="hidden"
+            aria-label="Attach files"
+          />
+          <button
+            type="button"
+            disabled={isUploading}
+            onClick={() => inputRef.current?.click()}
+            className="rounded-xl border border-white/15 bg-white/10 px-3 py-1.5 text-sm text-white hover:bg-white/15"
+          >
+            {isUploading ? "Uploading…" : "Attach files"}
+          </button>
+          <span className="ml-2 text-xs text-white/45">
+            Up to {formatBytes(ATTACHMENT_MAX_BYTES)}
+          </span>
+        </div>
+      ) : null}
+    </div>
+  );
+});
@@ -0,0 +1,93 @@
+import React from "react";
+import type { IssueParent, IssuePriority, IssueProgress, IssueType } from "../../domain/types";
+import { ISSUE_PRIORITY_LABELS, ISSUE_TYPE_LABELS } from "../../domain/issueFields";
+
+const TYPE_STYLES: Record<IssueType, string> = {
+  bug: "bg-red-500/15 text-red-200",
+  story: "bg-emerald-500/15 text-emerald-200",
+  task: "bg-sky-500/15 text-sky-200",
+  epic: "bg-violet-500/15 text-violet-200",
+  subtask: "bg-sky-500/10 text-sky-200/80",
+};
+
+const PRIORITY_GLYPHS: Record<IssuePriority, { glyph: string; className: string }> = {
+  lowest: { glyph: "⇊", className: "text-sky-300/80" },
+  low: { glyph: "↓", className: "text-sky-300/80" },
+  medium: { glyph: "=", className: "text-amber-300/80" },
+  high: { glyph: "↑", className: "text-orange-300" },
+  highest: { glyph: "⇈", className: "text-red-300" },
+};
+
+const MAX_LABELS = 3;
+
+export const IssueTypeBadge = React.memo(function IssueTypeBadge(props: { type: IssueType }) {
+  return (
+    <span className={`rounded-md px-1.5 py-0.5 text-[10px] font-medium ${TYPE_STYLES[props.type]}`}>
+      {ISSUE_TYPE_LABELS[props.type]}
+    </span>
+  );
+});
+
+export const PriorityIcon = React.memo(function PriorityIcon(props: { priority: IssuePriority }) {
+  const { glyph, className } = PRIORITY_GLYPHS[props.priority];
+  const label = `${ISSUE_PRIORITY_LABELS[props.priority]} priority`;
+  return (
+    <span title={label} aria-label={label} className={`text-xs font-semibold ${className}`}>
+      {glyph}
+    </span>
+  );
+});
+
+export const LabelChips = React.memo(function LabelChips(props: { labels: string[] }) {
+  const { labels } = props;
+  if (labels.length === 0) return null;
+  const hidden = labels.length - MAX_LABELS;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {labels.slice(0, MAX_LABELS).map((label) => (
+        <span
+          key={label}
+          className="rounded-md bg-white/10 px-1.5 py-0.5 text-[10px] text-white/70"
+        >
+          {label}
+        </span>
+      ))}
+      {hidden > 0 ? <span className="text-[10px] text-white/50">+{hidden}</span> : null}
+    </div>
+  );
+});
+
+/** Epics get a coloured chip with their title; other parents just show their key. */
+export const ParentChip = React.memo(function ParentChip(props: { parent: IssueParent }) {
+  const { parent } = props;
+
+  if (parent.type !== "epic") {
+    return <span className="text-[10px] text-white/50">↳ {parent.key}</span>;
+  }
+  return (
+    <span
+      title={`${parent.key} ${parent.title}`}
+      className="max-w-[12rem] truncate rounded-md bg-violet-500/15 px-1.5 py-0.5 text-[10px] text-violet-200"
+    >
+      {parent.title}
+    </span>
+  );
+});
+
+export const ProgressBar = React.memo(function ProgressBar(props: { progress: IssueProgress }) {
+  const { done, total } = props.progress;
+  if (total === 0) return null;
+  const pct = Math.round((done / total) * 100);
+
+  return (
+    <div className="flex items-center gap-2" title={`${done} of ${total} done`}>
+      <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-white/10">
+        <div className="h-full rounded-full bg-emerald-400/70" style={{ width: `${pct}%` }} />
+      </div>
+      <span className="text-[10px] text-white/60">
+        {done}/{total}
+      </span>
+    </div>
+  );
+});
@@ -1,6 +1,8 @@
 import React from "react";
 import type { Issue } from "../../domain/types";
 import type { DraggableAttributes, DraggableSyntheticListeners } from "@dnd-kit/core";
+import { dueDay, dueStatus, formatDueDate, localDay } from "../../domain/dueDates";
+import { IssueTypeBadge, LabelChips, ParentChip, PriorityIcon, ProgressBar } from "./IssueBadges";
 
 export const IssueCard = React.memo(function IssueCard(props: {
   issue: Issue;
@@ -11,6 +13,8 @@ export const IssueCard = React.memo(function IssueCard(props: {
   };
 }) {
   const { issue, dragHandleProps } = props;
+  const due = dueDay(issue);
+  const dueState = dueStatus(issue, localDay());
 
   return (
     <div className="w-full rounded-xl border border-white/10 bg-black/30 p-3 hover:bg-white/5 hover:border-white/15">
@@ -20,8 +24,60 @@ export const IssueCard = React.memo(function IssueCard(props: {
           onClick={props.onOpen}
           className="min-w-0 flex-1 text-left overflow-x-hidden"
         >
-          <div className="text-xs text-white/50 truncate">{issue.key}</div>
+          <div className="flex items-center gap-2">
+            <IssueTypeBadge type={issue.type} />
+            <span className="text-xs text-white/50 truncate">{issue.key}</span>
+            <PriorityIcon priority={issue.priority} />
+            {issue.blocked ? (
+              <span
+                title="Blocked by an unfinished issue"
+                className="rounded-md bg-red-500/15 px-1.5 py-0.5 text-[10px] font-medium text-red-200"
+              >
+                Blocked
+              </span>
+            ) : null}
+            {issue.storyPoints != null ? (
+              <span
+                title="Story points"
+                className="ml-auto rounded-full bg-white/10 px-1.5 py-0.5 text-[10px] text-white/70"
+              >
+                {issue.storyPoints}
+              </span>
+            ) : null}
+          </div>
           <div className="mt-1 font-medium text-white leading-snug truncate">{issue.title}</div>
+          {due ? (
+            <div
+              title={
+                dueState === "overdue"
+                  ? "Overdue"
+                  : dueState === "due_soon"
+                    ? "Due soon"
+                    : "Due date"
+              }
+              className={[
+                "mt-1 inline-flex rounded-md px-1.5 py-0.5 text-[10px]",
+                dueState === "overdue"
+                  ? "bg-red-500/15 text-red-200"
+                  : dueState === "due_soon"
+                    ? "bg-amber-500/15 text-amber-200"
+                    : "bg-white/5 text-white/50",
+              ].join(" ")}
+            >
+              Due {formatDueDate(due)}
+            </div>
+          ) : null}
+          {issue.parent || issue.labels.length > 0 ? (
+            <div className="mt-2 flex flex-wrap items-center gap-1">
+              {issue.parent ? <ParentChip parent={issue.parent} /> : null}
+              <LabelChips labels={issue.labels} />
+            </div>
+          ) : null}
+          {issue.progress && issue.progress.total > 0 ? (
+            <div className="mt-2">
+              <ProgressBar progress={issue.progress} />
+            </div>
+          ) : null}
         </button>
 
         {dragHandleProps ? (
@@ -0,0 +1,86 @@
+import React, { useState } from "react";
+import type { Issue, IssueType } from "../../domain/types";
+import { ISSUE_TYPE_LABELS } from "../../domain/issueFields";
+import { IssueTypeBadge, ProgressBar } from "./IssueBadges";
+
+export const IssueChildren = React.memo(function IssueChildren(props: {
+  items: Issue[];
+  isLoading?: boolean;
+  // Type new children are created with; null when this issue can't have any.
+  childType: IssueType | null;
+  canAdd: boolean;
+  isAdding?: boolean;
+  onAdd: (title: string) => void;
+  onOpen: (child: Issue) => void;
+}) {
+  const { items, isLoading = false, childType, canAdd, isAdding = false, onAdd, onOpen } = props;
+  const [title, setTitle] = useState("");
+
+  if (!childType && items.length === 0) return null;
+
+  const heading = childType === "subtask" ? "Sub-tasks" : "Child issues";
+  const done = items.filter((c) => c.status.category === "done").length;
+
+  const submit = () => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    onAdd(trimmed);
+    setTitle("");
+  };
+
+  return (
+    <div>
+      <div className="mb-1.5 text-sm text-white/80">{heading}</div>
+
+      {items.length > 0 ? (
+        <div className="mb-2">
+          <ProgressBar progress={{ done, total: items.length }} />
+        </div>
+      ) : null}
+
+      {isLoading ? (
+        <div className="text-sm text-white/50">Loading…</div>
+      ) : (
+        <div className="grid gap-1">
+          {items.map((child) => (
+            <button
+              key={child.id}
+              type="button"
+              onClick={() => onOpen(child)}
+              className="flex items-center gap-2 rounded-lg border border-white/10 bg-black/20 px-2 py-1.5 text-left hover:bg-white/10"
+            >
+              <IssueTypeBadge type={child.type} />
+              <span className="text-xs text-white/50">{child.key}</span>
+              <span
+                className={[
+                  "min-w-0 flex-1 truncate text-sm",
+                  child.status.category === "done" ? "text-white/50 line-through" : "text-white",
+                ].join(" ")}
+              >
+                {child.title}
+              </span>
+              <span className="text-[10px] text-white/50">{child.status.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {childType && canAdd ? (
+        <input
+          value={title}
+          disabled={isAdding}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          placeholder={`Add ${ISSUE_TYPE_LABELS[childType].toLowerCase()} and press Enter`}
+          aria-label={`Add ${ISSUE_TYPE_LABELS[childType].toLowerCase()}`}
+          className="mt-2 w-full rounded-xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white outline-none placeholder:text-white/40 focus:border-white/25"
+        />
+      ) : null}
+    </div>
+  );
+});
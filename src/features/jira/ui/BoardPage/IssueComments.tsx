@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from "react";
+import type { Comment } from "../../domain/types";
+
+function Composer(props: {
+  placeholder: string;
+  submitLabel: string;
+  initialValue?: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+}) {
+  const [value, setValue] = useState(props.initialValue ?? "");
+  const trimmed = value.trim();
+
+  const submit = () => {
+    if (!trimmed) return;
+    props.onSubmit(trimmed);
+    setValue("");
+  };
+
+  return (
+    <div className="grid gap-2">
+      <textarea
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        placeholder={props.placeholder}
+        autoFocus={props.autoFocus}
+        rows={2}
+        className="w-full resize-y rounded-xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white outline-none placeholder:text-white/40 focus:border-white/25"
+      />
+      <div className="flex justify-end gap-2">
+        {props.onCancel ? (
+          <button
+            type="button"
+            onClick={props.onCancel}
+            className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white"
+          >
+            Cancel
+          </button>
+        ) : null}
+        <button
+          type="button"
+          disabled={!trimmed}
+          onClick={submit}
+          className={[
+            "rounded-lg border border-white/15 px-3 py-1 text-xs",
+            trimmed
+              ? "bg-white/10 text-white hover:bg-white/15"
+              : "cursor-not-allowed bg-white/5 text-white/40",
+          ].join(" ")}
+        >
+          {props.submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function CommentItem(props: {
+  comment: Comment;
+  canEdit: boolean;
+  canDelete: boolean;
+  onReply?: () => void;
+  onEdit: (body: string) => void;
+  onDelete: () => void;
+}) {
+  const { comment, canEdit, canDelete, onReply, onEdit, onDelete } = props;
+  const [editing, setEditing] = useState(false);
+  const pending = comment.id.startsWith("tmp_");
+
+  if (comment.deletedAt) {
+    return <div className="text-sm italic text-white/40">Comment deleted</div>;
+  }
+
+  return (
+    <div className={pending ? "opacity-60" : undefined}>
+      <div className="flex items-baseline gap-2">
+        <span className="text-sm font-medium text-white">{comment.author.name}</span>
+        <time dateTime={comment.createdAt} className="text-xs text-white/45">
+          {new Date(comment.createdAt).toLocaleString()}
+        </time>
+        {comment.editedAt ? <span className="text-xs text-white/40">(edited)</span> : null}
+      </div>
+
+      {editing ? (
+        <div className="mt-1">
+          <Composer
+            placeholder="Edit comment…"
+            submitLabel="Save"
+            initialValue={comment.body}
+            autoFocus
+            onSubmit={(body) => {
+              onEdit(body);
+              setEditing(false);
+            }}
+            onCancel={() => setEditing(false)}
+          />
+        </div>
+      ) : (
+        <p className="mt-1 whitespace-pre-wrap text-sm text-white/80">{comment.body}</p>
+      )}
+
+      {!editing && !pending ? (
+        <div className="mt-1 flex gap-3 text-xs text-white/50">
+          {onReply ? (
+            <button type="button" onClick={onReply} className="hover:text-white">
+              Reply
+            </button>
+          ) : null}
+          {canEdit ? (
+            <button type="button" onClick={() => setEditing(true)} className="hover:text-white">
+              Edit
+            </button>
+          ) : null}
+          {canDelete ? (
+            <button type="button" onClick={onDelete} className="hover:text-white">
+              Delete
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export const IssueComments = React.memo(function IssueComments(props: {
+  comments: Comment[];
+  isLoading?: boolean;
+  currentUserId: string | null;
+  canComment: boolean;
+  canModerate: boolean;
+  onPost: (args: { body: string; parentId: string | null }) => void;
+  onEdit: (args: { id: string; body: string }) => void;
+  onDelete: (id: string) => void;
+}) {
+  const {
+    comments,
+    isLoading = false,
+    currentUserId,
+    canComment,
+    canModerate,
+    onPost,
+    onEdit,
+    onDelete,
+  } = props;
+
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+
+  const threads = useMemo(() => {
+    const replies = new Map<string, Comment[]>();
+    for (const c of comments) {
+      if (!c.parentId) continue;
+      replies.set(c.parentId, [...(replies.get(c.parentId) ?? []), c]);
+    }
+    return comments
+      .filter((c) => !c.parentId)
+      .map((c) => ({ comment: c, replies: replies.get(c.id) ?? [] }));
+  }, [comments]);
+
+  const itemProps = (c: Comment) => ({
+    comment: c,
+    canEdit: c.author.id === currentUserId,
+    canDelete: c.author.id === currentUserId || canModerate,
+    onEdit: (body: string) => onEdit({ id: c.id, body }),
+    onDelete: () => onDelete(c.id),
+  });
+
+  return (
+    <div className="grid gap-4">
+      {isLoading ? (
+        <div className="text-sm text-white/50">Loading comments…</div>
+      ) : threads.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-white/10 p-3 text-sm text-white/40">
+          No comments yet
+        </div>
+      ) : (
+        threads.map(({ comment, replies }) => (
+          <div key={comment.id} className="grid gap-3">
+            <CommentItem
+              {...itemProps(comment)}
+              onReply={canComment && !comment.deletedAt ? () => setReplyTo(comment.id) : undefined}
+            />
+
+            {replies.length > 0 || replyTo === comment.id ? (
+              <div className="ml-4 grid gap-3 border-l border-white/10 pl-3">
+                {replies.map((r) => (
+                  <CommentItem key={r.id} {...itemProps(r)} />
+                ))}
+
+                {replyTo === comment.id ? (
+                  <Composer
+                    placeholder="Write a reply…"
+                    submitLabel="Reply"
+                    autoFocus
+                    onSubmit={(body) => {
+                      onPost({ body, parentId: comment.id });
+                      setReplyTo(null);
+                    }}
+                    onCancel={() => setReplyTo(null)}
+                  />
+                ) : null}
+              </div>
+            ) : null}
+          </div>
+        ))
+      )}
+
+      {canComment ? (
+        <Composer
+          placeholder="Add a comment…"
+          submitLabel="Comment"
+          onSubmit={(body) => onPost({ body, parentId: null })}
+        />
+      ) : null}
+    </div>
+  );
+});
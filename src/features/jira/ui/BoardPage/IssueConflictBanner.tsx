@@ -0,0 +1,63 @@
+import React from "react";
+import type { Issue } from "../../domain/types";
+
+const FIELD_LABELS: Partial<Record<keyof Issue, string>> = {
+  title: "title",
+  description: "description",
+  status: "status",
+  sprintId: "sprint",
+  assigneeId: "assignee",
+  watcherIds: "watchers",
+  type: "type",
+  priority: "priority",
+  labels: "labels",
+  parentId: "parent",
+  storyPoints: "story points",
+  originalEstimate: "original estimate",
+  remainingEstimate: "remaining estimate",
+  dueDate: "due date",
+  customFields: "custom fields",
+};
+
+/**
+ * Shown when the server refused the user's edits because someone else saved
+ * first. The panel already shows their version; the user either keeps it or
+ * writes their own changes over it.
+ */
+export const IssueConflictBanner = React.memo(function IssueConflictBanner(props: {
+  patch: Partial<Issue>;
+  onKeepTheirs: () => void;
+  onOverwrite: () => void;
+}) {
+  const fields = (Object.keys(props.patch) as Array<keyof Issue>).map(
+    (key) => FIELD_LABELS[key] ?? key
+  );
+
+  return (
+    <div
+      role="alert"
+      className="mt-4 rounded-xl border border-amber-500/30 bg-amber-500/10 p-3 text-sm text-amber-100"
+    >
+      <div>
+        Someone else changed this issue while you were editing it. Your change to{" "}
+        {fields.join(", ")} was not saved.
+      </div>
+      <div className="mt-2 flex gap-2">
+        <button
+          type="button"
+          onClick={props.onKeepTheirs}
+          className="rounded-lg border border-white/15 bg-white/10 px-2 py-1 text-xs text-white hover:bg-white/15"
+        >
+          Keep theirs
+        </button>
+        <button
+          type="button"
+          onClick={props.onOverwrite}
+          className="rounded-lg px-2 py-1 text-xs text-amber-100 hover:bg-white/10"
+        >
+          Overwrite with mine
+        </button>
+      </div>
+    </div>
+  );
+});
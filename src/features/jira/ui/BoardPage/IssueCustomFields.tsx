@@ -0,0 +1,178 @@
+import React, { useState } from "react";
+import { customFieldValueSchema } from "@jira-lab/shared";
+import { EntityPicker, type EntityBase } from "../../../../components/EntityPicker";
+import type { CustomField, CustomFieldValue, CustomFieldValues } from "../../domain/types";
+
+type PersonEntity = EntityBase & { raw: { email: string } };
+
+const INPUT_CLASS =
+  "w-full rounded-xl border bg-black/30 px-3 py-2 text-sm text-white outline-none placeholder:text-white/40 focus:border-white/25 disabled:opacity-60";
+
+/**
+ * Text or number input that commits on blur or Enter, checked with the same
+ * schema the server uses. Remount it (via `key`) when the saved value changes.
+ */
+function TypedField(props: {
+  field: CustomField;
+  value: CustomFieldValue | undefined;
+  disabled: boolean;
+  onCommit: (value: CustomFieldValue | null) => void;
+}) {
+  const { field, value, disabled, onCommit } = props;
+  const [text, setText] = useState(value === undefined ? "" : String(value));
+
+  const raw = field.type === "number" ? (text.trim() ? Number(text) : null) : text;
+  const parsed = customFieldValueSchema(field).safeParse(raw);
+  const error = parsed.success ? null : parsed.error.issues[0].message;
+
+  const commit = () => {
+    if (!parsed.success || (parsed.data ?? undefined) === value) return;
+    onCommit(parsed.data);
+  };
+
+  return (
+    <input
+      type={field.type === "number" ? "number" : "text"}
+      value={text}
+      disabled={disabled}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          commit();
+        }
+      }}
+      placeholder="—"
+      aria-label={field.name}
+      aria-invalid={error != null}
+      title={error ?? undefined}
+      className={[INPUT_CLASS, error ? "border-red-500/50" : "border-white/15"].join(" ")}
+    />
+  );
+}
+
+/** Editors for the board's custom fields, picked by each field's type. */
+export const IssueCustomFields = React.memo(function IssueCustomFields(props: {
+  issueId: string;
+  fields: CustomField[];
+  values: CustomFieldValues;
+  canEdit: boolean;
+  onChange: (values: CustomFieldValues) => void;
+  toPersonEntity: (id: string) => PersonEntity;
+  searchPeople: (q: string, signal?: AbortSignal) => Promise<PersonEntity[]>;
+}) {
+  const { issueId, fields, values, canEdit, onChange, toPersonEntity, searchPeople } = props;
+  if (fields.length === 0) return null;
+
+  const set = (field: CustomField, value: CustomFieldValue | null) => {
+    const next = { ...values };
+    if (value == null || (Array.isArray(value) && value.length === 0)) delete next[field.id];
+    else next[field.id] = value;
+    onChange(next);
+  };
+
+  const editor = (field: CustomField) => {
+    const value = values[field.id];
+
+    switch (field.type) {
+      case "text":
+      case "number":
+        return (
+          <TypedField
+            key={`${issueId}:${field.id}:${String(value)}`}
+            field={field}
+            value={value}
+            disabled={!canEdit}
+            onCommit={(next) => set(field, next)}
+          />
+        );
+
+      case "select":
+        return (
+          <select
+            value={typeof value === "string" ? value : ""}
+            disabled={!canEdit}
+            onChange={(e) => set(field, e.target.value || null)}
+            aria-label={field.name}
+            className={[INPUT_CLASS, "border-white/15"].join(" ")}
+          >
+            <option value="">None</option>
+            {field.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+
+      case "multi_select": {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div role="group" aria-label={field.name} className="flex flex-wrap gap-1.5">
+            {field.options.map((option) => {
+              const on = selected.includes(option);
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  aria-pressed={on}
+                  disabled={!canEdit}
+                  onClick={() =>
+                    set(field, on ? selected.filter((o) => o !== option) : [...selected, option])
+                  }
+                  className={[
+                    "rounded-lg border px-2 py-1 text-xs disabled:cursor-not-allowed",
+                    on
+                      ? "border-white/30 bg-white/15 text-white"
+                      : "border-white/10 bg-black/20 text-white/60 hover:bg-white/10 hover:text-white",
+                  ].join(" ")}
+                >
+                  {option}
+                </button>
+              );
+            })}
+          </div>
+        );
+      }
+
+      case "date":
+        return (
+          <input
+            type="date"
+            value={typeof value === "string" ? value : ""}
+            disabled={!canEdit}
+            onChange={(e) => set(field, e.target.value || null)}
+            aria-label={field.name}
+            className={[INPUT_CLASS, "border-white/15"].join(" ")}
+          />
+        );
+
+      case "user":
+        return (
+          <EntityPicker<PersonEntity>
+            label=""
+            placeholder="Search people…"
+            value={typeof value === "string" ? toPersonEntity(value) : null}
+            onChange={(p) => set(field, p ? String(p.id) : null)}
+            search={searchPeople}
+            disabled={!canEdit}
+            minChars={2}
+            debounceMs={250}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid gap-3">
+      <div className="text-sm text-white/80">Fields</div>
+      {fields.map((field) => (
+        <div key={field.id}>
+          <div className="mb-1 text-sm text-white/70">{field.name}</div>
+          {editor(field)}
+        </div>
+      ))}
+    </div>
+  );
+});
@@ -0,0 +1,141 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { EntityPicker, type EntityBase } from "../../../../components/EntityPicker";
+import type { IssueLink, IssueLinkRelation, LinkedIssue } from "../../domain/types";
+import { ISSUE_LINK_RELATIONS, ISSUE_LINK_RELATION_LABELS } from "../../domain/issueFields";
+import { IssueTypeBadge } from "./IssueBadges";
+
+type IssueEntity = EntityBase & { raw: LinkedIssue };
+
+export const IssueLinks = React.memo(function IssueLinks(props: {
+  issueId: string;
+  links: IssueLink[];
+  isLoading?: boolean;
+  canEdit: boolean;
+  searchIssues: (q: string, signal?: AbortSignal) => Promise<IssueEntity[]>;
+  onAdd: (args: { relation: IssueLinkRelation; issueId: string }) => void;
+  onRemove: (id: string) => void;
+  onOpen: (issue: LinkedIssue) => void;
+}) {
+  const {
+    issueId,
+    links,
+    isLoading = false,
+    canEdit,
+    searchIssues,
+    onAdd,
+    onRemove,
+    onOpen,
+  } = props;
+  const [relation, setRelation] = useState<IssueLinkRelation>("blocks");
+
+  const groups = useMemo(
+    () =>
+      ISSUE_LINK_RELATIONS.map((r) => ({
+        relation: r,
+        links: links.filter((l) => l.relation === r),
+      })).filter((g) => g.links.length > 0),
+    [links]
+  );
+
+  // Offer everything but the issue itself and what it's already linked to.
+  const search = useCallback(
+    async (q: string, signal?: AbortSignal) => {
+      const linked = new Set(links.map((l) => l.issue.id));
+      return (await searchIssues(q, signal)).filter(
+        (it) => it.raw.id !== issueId && !linked.has(it.raw.id)
+      );
+    },
+    [searchIssues, issueId, links]
+  );
+
+  return (
+    <div>
+      <div className="mb-1.5 text-sm text-white/80">Linked issues</div>
+
+      {isLoading ? (
+        <div className="text-sm text-white/50">Loading…</div>
+      ) : groups.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-white/10 p-3 text-sm text-white/40">
+          No linked issues
+        </div>
+      ) : (
+        <div className="grid gap-3">
+          {groups.map((g) => (
+            <div key={g.relation}>
+              <div className="mb-1 text-xs text-white/50">
+                {ISSUE_LINK_RELATION_LABELS[g.relation]}
+              </div>
+              <div className="grid gap-1">
+                {g.links.map((link) => (
+                  <div
+                    key={link.id}
+                    className="flex items-center gap-2 rounded-lg border border-white/10 bg-black/20 px-2 py-1.5"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => onOpen(link.issue)}
+                      className="flex min-w-0 flex-1 items-center gap-2 text-left hover:underline"
+                    >
+                      <IssueTypeBadge type={link.issue.type} />
+                      <span className="text-xs text-white/50">{link.issue.key}</span>
+                      <span
+                        className={[
+                          "min-w-0 flex-1 truncate text-sm",
+                          link.issue.status.category === "done"
+                            ? "text-white/50 line-through"
+                            : "text-white",
+                        ].join(" ")}
+                      >
+                        {link.issue.title}
+                      </span>
+                    </button>
+                    <span className="text-[10px] text-white/50">{link.issue.status.name}</span>
+                    {canEdit ? (
+                      <button
+                        type="button"
+                        aria-label={`Remove link to ${link.issue.key}`}
+                        onClick={() => onRemove(link.id)}
+                        className="rounded px-1 text-xs text-white/50 hover:bg-white/10 hover:text-white"
+                      >
+                        ✕
+                      </button>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit ? (
+        <div className="mt-2 grid grid-cols-[auto_1fr] items-start gap-2">
+          <select
+            value={relation}
+            onChange={(e) => setRelation(e.target.value as IssueLinkRelation)}
+            aria-label="Link type"
+            className="rounded-xl border border-white/15 bg-black/30 px-2 py-2 text-sm text-white outline-none focus:border-white/25"
+          >
+            {ISSUE_LINK_RELATIONS.map((r) => (
+              <option key={r} value={r}>
+                {ISSUE_LINK_RELATION_LABELS[r]}
+              </option>
+            ))}
+          </select>
+          <EntityPicker<IssueEntity>
+            hideClearButton
+            label=""
+            placeholder="Search by key or title…"
+            value={null}
+            onChange={(it) => {
+              if (it) onAdd({ relation, issueId: it.raw.id });
+            }}
+            search={search}
+            minChars={1}
+            debounceMs={250}
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+});
@@ -1,9 +1,123 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { EntityPicker, type EntityBase } from "../../../../components/EntityPicker";
 import { EntityMultiPicker } from "../../../../components/EntityMultiPicker";
-import type { Issue, IssueDraft, Sprint } from "../../domain/types";
+import { MentionTextarea } from "../../../../components/MentionTextarea";
+import { mentionHandle } from "@jira-lab/shared";
+import type {
+  Attachment,
+  Comment,
+  CustomField,
+  Issue,
+  IssueDraft,
+  IssueEvent,
+  IssueLink,
+  IssueLinkRelation,
+  IssuePriority,
+  LinkedIssue,
+  IssueType,
+  Sprint,
+  Status,
+  Worklog,
+} from "../../domain/types";
+import {
+  ISSUE_PRIORITIES,
+  ISSUE_PRIORITY_LABELS,
+  ISSUE_TYPE_LABELS,
+  defaultChildType,
+  issueTypesUnder,
+} from "../../domain/issueFields";
+import type { HistoryLookups } from "../../domain/issueHistory";
+import { IssueActivity } from "./IssueActivity";
+import { IssueAttachments } from "./IssueAttachments";
+import { IssueConflictBanner } from "./IssueConflictBanner";
+import { IssueComments } from "./IssueComments";
+import { LabelEditor } from "./LabelEditor";
+import { IssueChildren } from "./IssueChildren";
+import { IssueLinks } from "./IssueLinks";
+import { IssueTimeTracking } from "./IssueTimeTracking";
+import { IssueCustomFields } from "./IssueCustomFields";
+import { dueDay } from "../../domain/dueDates";
+import { ParentChip } from "./IssueBadges";
+
+type PersonEntity = EntityBase & { raw: { email: string } };
+type IssueEntity = EntityBase & { raw: LinkedIssue };
+
+const personHandle = (p: PersonEntity) => mentionHandle(p.raw.email);
+
+type TextDraft = { text: string; version: number };
+
+// A draft keeps the version it was started from for as long as it is edited.
+function editDraft(drafts: Record<string, TextDraft>, issue: Issue, text: string) {
+  const version = drafts[issue.id]?.version ?? issue.version;
+  return { ...drafts, [issue.id]: { text, version } };
+}
+
+type ClassificationPatch = Partial<Pick<Issue, "type" | "priority" | "labels">>;
+
+const SELECT_CLASS =
+  "w-full rounded-xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-white/25";
+
+function ClassificationFields(props: {
+  type: IssueType;
+  // Types allowed where the issue sits in the hierarchy.
+  types: readonly IssueType[];
+  priority: IssuePriority;
+  labels: string[];
+  labelSuggestions: string[];
+  onChange: (patch: ClassificationPatch) => void;
+  disabled?: boolean;
+}) {
+  const { type, priority, labels, labelSuggestions, onChange, disabled = false } = props;
+  const types = props.types.includes(type) ? props.types : [type, ...props.types];
 
-type PersonEntity = EntityBase & { raw: object };
+  return (
+    <div className="grid gap-4">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <div className="mb-1 text-sm text-white/70">Type</div>
+          <select
+            value={type}
+            onChange={(e) => onChange({ type: e.target.value as IssueType })}
+            disabled={disabled}
+            className={SELECT_CLASS}
+          >
+            {types.map((t) => (
+              <option key={t} value={t}>
+                {ISSUE_TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <div className="mb-1 text-sm text-white/70">Priority</div>
+          <select
+            value={priority}
+            onChange={(e) => onChange({ priority: e.target.value as IssuePriority })}
+            disabled={disabled}
+            className={SELECT_CLASS}
+          >
+            {[...ISSUE_PRIORITIES].reverse().map((p) => (
+              <option key={p} value={p}>
+                {ISSUE_PRIORITY_LABELS[p]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div>
+        <div className="mb-1 text-sm text-white/70">Labels</div>
+        <LabelEditor
+          labels={labels}
+          suggestions={labelSuggestions}
+          onChange={(next) => onChange({ labels: next })}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
 
 export const IssueSidePanel = React.memo(function IssueSidePanel(props: {
   // Draft mode
@@ -14,16 +128,67 @@ export const IssueSidePanel = React.memo(function IssueSidePanel(props: {
   onMoveIssue: (issueId: string, toSprintId: string | null) => void;
   isCreating?: boolean;
   sprints: Array<Sprint>;
+  statuses: Status[];
   // Selected mode
   selectedIssue: Issue | null;
-  onPatchIssue: (args: { id: string; patch: Partial<Issue> }) => void;
+  onPatchIssue: (args: { id: string; patch: Partial<Issue>; version?: number }) => void;
   view: "backlog" | "sprint";
   activeSprint: Sprint | null;
+  history: IssueEvent[];
+  isHistoryLoading?: boolean;
+  // Comments
+  comments: Comment[];
+  isCommentsLoading?: boolean;
+  currentUserId: string | null;
+  canComment: boolean;
+  canModerate: boolean;
+  onPostComment: (args: { body: string; parentId: string | null }) => void;
+  onEditComment: (args: { id: string; body: string }) => void;
+  onDeleteComment: (id: string) => void;
+  // Attachments
+  attachments: Attachment[];
+  isAttachmentsLoading?: boolean;
+  isUploading?: boolean;
+  onUploadAttachment: (file: File) => void;
+  onDeleteAttachment: (id: string) => void;
+  loadAttachment: (id: string, signal?: AbortSignal) => Promise<Blob>;
   // Other
   onClose: () => void;
+  // Both take the issue off the board; the board offers an undo.
+  onArchiveIssue: (id: string) => void;
+  onDeleteIssue: (id: string) => void;
+
+  // Edits the server refused because someone else saved first.
+  conflict: { issueId: string; patch: Partial<Issue> } | null;
+  onResolveConflict: (keep: "mine" | "theirs") => void;
+
+  labelSuggestions: string[];
+  customFields: CustomField[];
+
+  // Hierarchy
+  childIssues: Issue[];
+  isChildrenLoading?: boolean;
+  canEdit: boolean;
+  isAddingChild?: boolean;
+  onAddChild: (parent: Issue, title: string) => void;
+  onOpenRelated: (issue: Pick<Issue, "id" | "boardId" | "sprintId">) => void;
+
+  // Links
+  links: IssueLink[];
+  isLinksLoading?: boolean;
+  searchIssues: (q: string, signal?: AbortSignal) => Promise<IssueEntity[]>;
+  onAddLink: (args: { relation: IssueLinkRelation; issueId: string }) => void;
+  onRemoveLink: (id: string) => void;
+
+  // Estimates and worklogs
+  worklogs: Worklog[];
+  isWorklogsLoading?: boolean;
+  isLoggingWork?: boolean;
+  onLogWork: (args: { minutes: number; date: string; note: string }) => void;
+  onDeleteWorklog: (id: string) => void;
 
   // People helpers
-  toPersonEntity: (id: string | number) => PersonEntity;
+  toPersonEntity: (id: string) => PersonEntity;
   searchPeople: (q: string, signal?: AbortSignal) => Promise<PersonEntity[]>;
 }) {
   const {
@@ -38,65 +203,107 @@ export const IssueSidePanel = React.memo(function IssueSidePanel(props: {
     onPatchIssue,
     toPersonEntity,
     searchPeople,
+    history,
+    isHistoryLoading = false,
   } = props;
 
+  const [tab, setTab] = useState<"details" | "comments" | "attachments" | "activity">("details");
+
+  const parent = selectedIssue?.parent ?? null;
+  const childIssues = props.childIssues;
+  const historyLookups = useMemo<HistoryLookups>(
+    () => ({
+      personName: (id) => toPersonEntity(id).label,
+      sprintName: (id) => props.sprints.find((sp) => sp.id === id)?.name ?? "a sprint",
+      statusName: (id) => props.statuses.find((s) => s.id === id)?.name ?? "a deleted status",
+      issueKey: (id) =>
+        (parent?.id === id ? parent.key : childIssues.find((c) => c.id === id)?.key) ??
+        "another issue",
+    }),
+    [toPersonEntity, props.sprints, props.statuses, parent, childIssues]
+  );
+
   // -----------------------------
   // Selected issue local drafts
   // -----------------------------
-  const [titleDraftById, setTitleDraftById] = useState<Record<string, string>>({});
-  const [descDraftById, setDescDraftById] = useState<Record<string, string>>({});
+  // Each draft remembers the version of the issue it was started from and is
+  // saved against it, so a change someone else made meanwhile is a conflict.
+  const [titleDraftById, setTitleDraftById] = useState<Record<string, TextDraft>>({});
+  const [descDraftById, setDescDraftById] = useState<Record<string, TextDraft>>({});
+
+  // While a conflict is open the panel shows their version and stops autosaving.
+  const conflict =
+    selectedIssue && props.conflict?.issueId === selectedIssue.id ? props.conflict : null;
 
   const titleDraft = useMemo(() => {
     if (!selectedIssue) return "";
-    return titleDraftById[selectedIssue.id] ?? selectedIssue.title ?? "";
-  }, [titleDraftById, selectedIssue]);
+    if (conflict) return selectedIssue.title ?? "";
+    return titleDraftById[selectedIssue.id]?.text ?? selectedIssue.title ?? "";
+  }, [titleDraftById, selectedIssue, conflict]);
 
   const descDraft = useMemo(() => {
     if (!selectedIssue) return "";
-    return descDraftById[selectedIssue.id] ?? selectedIssue.description ?? "";
-  }, [descDraftById, selectedIssue]);
+    if (conflict) return selectedIssue.description ?? "";
+    return descDraftById[selectedIssue.id]?.text ?? selectedIssue.description ?? "";
+  }, [descDraftById, selectedIssue, conflict]);
 
   const onTitleChange = (next: string) => {
     if (!selectedIssue) return;
-    setTitleDraftById((prev) => ({ ...prev, [selectedIssue.id]: next }));
+    setTitleDraftById((prev) => editDraft(prev, selectedIssue, next));
   };
 
   const onDescChange = (next: string) => {
     if (!selectedIssue) return;
-    setDescDraftById((prev) => ({ ...prev, [selectedIssue.id]: next }));
+    setDescDraftById((prev) => editDraft(prev, selectedIssue, next));
   };
 
   // Debounce save: title
   useEffect(() => {
-    if (!selectedIssue) return;
+    if (!selectedIssue || conflict) return;
     const local = titleDraftById[selectedIssue.id];
     if (local == null) return;
 
     const server = selectedIssue.title ?? "";
-    if (local === server) return;
+    if (local.text === server) return;
 
     const t = window.setTimeout(() => {
-      onPatchIssue({ id: selectedIssue.id, patch: { title: local } });
+      onPatchIssue({ id: selectedIssue.id, patch: { title: local.text }, version: local.version });
     }, 600);
 
     return () => window.clearTimeout(t);
-  }, [titleDraftById, selectedIssue, onPatchIssue]);
+  }, [titleDraftById, selectedIssue, conflict, onPatchIssue]);
 
   // Debounce save: description
   useEffect(() => {
-    if (!selectedIssue) return;
+    if (!selectedIssue || conflict) return;
     const local = descDraftById[selectedIssue.id];
     if (local == null) return;
 
     const server = selectedIssue.description ?? "";
-    if (local === server) return;
+    if (local.text === server) return;
 
     const t = window.setTimeout(() => {
-      onPatchIssue({ id: selectedIssue.id, patch: { description: local } });
+      onPatchIssue({
+        id: selectedIssue.id,
+        patch: { description: local.text },
+        version: local.version,
+      });
     }, 600);
 
     return () => window.clearTimeout(t);
-  }, [descDraftById, selectedIssue, onPatchIssue]);
+  }, [descDraftById, selectedIssue, conflict, onPatchIssue]);
+
+  const resolveConflict = (keep: "mine" | "theirs") => {
+    if (!selectedIssue) return;
+    const forget = (prev: Record<string, TextDraft>) => {
+      const next = { ...prev };
+      delete next[selectedIssue.id];
+      return next;
+    };
+    setTitleDraftById(forget);
+    setDescDraftById(forget);
+    props.onResolveConflict(keep);
+  };
 
   return (
     <div className="rounded-2xl border border-white/10 bg-white/5 p-5 overflow-visible">
@@ -118,15 +325,26 @@ export const IssueSidePanel = React.memo(function IssueSidePanel(props: {
 
             <div>
               <div className="mb-1 text-sm text-white/70">Description</div>
-              <textarea
+              <MentionTextarea<PersonEntity>
                 value={draftIssue.description}
-                onChange={(e) => onUpdateDraft({ description: e.target.value })}
-                placeholder="Details (optional)"
+                onChange={(description) => onUpdateDraft({ description })}
+                search={searchPeople}
+                getHandle={personHandle}
+                placeholder="Details (optional). Type @ to mention someone"
                 rows={6}
                 className="w-full resize-none rounded-xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white outline-none placeholder:text-white/40 focus:border-white/25"
               />
             </div>
 
+            <ClassificationFields
+              type={draftIssue.type}
+              types={issueTypesUnder(null)}
+              priority={draftIssue.priority}
+              labels={draftIssue.labels}
+              labelSuggestions={props.labelSuggestions}
+              onChange={onUpdateDraft}
+            />
+
             <div className="grid gap-4">
               <div className="w-full">
                 <div className="mb-1.5 flex items-center justify-between">
@@ -225,192 +443,399 @@ export const IssueSidePanel = React.memo(function IssueSidePanel(props: {
         /* Selected mode */
         /* --------------------- */
         <>
-          <div className="text-xs text-white/50">{selectedIssue.key}</div>
+          <div className="flex items-center gap-2 text-xs text-white/50">
+            <span>{selectedIssue.key}</span>
+            {selectedIssue.parent ? (
+              <button
+                type="button"
+                onClick={() =>
+                  props.onOpenRelated({ ...selectedIssue.parent!, boardId: selectedIssue.boardId })
+                }
+                className="hover:underline"
+              >
+                <ParentChip parent={selectedIssue.parent} />
+              </button>
+            ) : null}
+          </div>
           <div className="mt-1 text-xl font-semibold">Issue</div>
 
-          <div className="mt-4 grid gap-5">
-            <div>
-              <div className="mb-1 text-sm text-white/70">Title</div>
-              <input
-                value={titleDraft}
-                onChange={(e) => onTitleChange(e.target.value)}
-                className="w-full rounded-xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-white/25"
+          {conflict ? (
+            <IssueConflictBanner
+              patch={conflict.patch}
+              onKeepTheirs={() => resolveConflict("theirs")}
+              onOverwrite={() => resolveConflict("mine")}
+            />
+          ) : null}
+
+          <div role="tablist" className="mt-4 flex gap-1 border-b border-white/10">
+            {(["details", "comments", "attachments", "activity"] as const).map((t) => (
+              <button
+                key={t}
+                type="button"
+                role="tab"
+                aria-selected={tab === t}
+                onClick={() => setTab(t)}
+                className={[
+                  "-mb-px border-b-2 px-3 py-2 text-sm capitalize",
+                  tab === t
+                    ? "border-white text-white"
+                    : "border-transparent text-white/50 hover:text-white/80",
+                ].join(" ")}
+              >
+                {t}
+              </button>
+            ))}
+          </div>
+
+          {tab === "comments" ? (
+            <div className="mt-4">
+              <IssueComments
+                comments={props.comments}
+                isLoading={props.isCommentsLoading}
+                currentUserId={props.currentUserId}
+                canComment={props.canComment}
+                canModerate={props.canModerate}
+                onPost={props.onPostComment}
+                onEdit={props.onEditComment}
+                onDelete={props.onDeleteComment}
               />
-              <div className="mt-2 text-xs text-white/45">Autosaves after 600ms pause.</div>
             </div>
-
-            <div>
-              <div className="mb-1 text-sm text-white/70">Description</div>
-              <textarea
-                value={descDraft}
-                onChange={(e) => onDescChange(e.target.value)}
-                rows={8}
-                className="w-full resize-none rounded-xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-white/25"
+          ) : tab === "attachments" ? (
+            <div className="mt-4">
+              <IssueAttachments
+                attachments={props.attachments}
+                isLoading={props.isAttachmentsLoading}
+                isUploading={props.isUploading}
+                currentUserId={props.currentUserId}
+                canUpload={props.canComment}
+                canModerate={props.canModerate}
+                onUpload={props.onUploadAttachment}
+                onDelete={props.onDeleteAttachment}
+                loadContent={props.loadAttachment}
               />
-              <div className="mt-2 text-xs text-white/45">Autosaves after 600ms pause.</div>
             </div>
+          ) : tab === "activity" ? (
+            <div className="mt-4">
+              <IssueActivity
+                events={history}
+                isLoading={isHistoryLoading}
+                lookups={historyLookups}
+              />
+            </div>
+          ) : (
+            <div className="mt-4 grid gap-5">
+              <div>
+                <div className="mb-1 text-sm text-white/70">Title</div>
+                <input
+                  value={titleDraft}
+                  onChange={(e) => onTitleChange(e.target.value)}
+                  disabled={!!conflict || !props.canEdit}
+                  className="w-full rounded-xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-white/25"
+                />
+                <div className="mt-2 text-xs text-white/45">Autosaves after 600ms pause.</div>
+              </div>
 
-            <div className="grid gap-4">
-              <div className="w-full">
-                <div className="mb-1.5 flex items-center justify-between">
-                  <div className="text-sm text-white/80">Assignee</div>
+              <div>
+                <div className="mb-1 text-sm text-white/70">Description</div>
+                <MentionTextarea<PersonEntity>
+                  value={descDraft}
+                  onChange={onDescChange}
+                  search={searchPeople}
+                  getHandle={personHandle}
+                  placeholder="Type @ to mention someone"
+                  rows={8}
+                  disabled={!!conflict || !props.canEdit}
+                  className="w-full resize-none rounded-xl border border-white/15 bg-black/30 px-3 py-2 text-sm text-white outline-none focus:border-white/25"
+                />
+                <div className="mt-2 text-xs text-white/45">Autosaves after 600ms pause.</div>
+              </div>
 
-                  <button
-                    type="button"
-                    disabled={selectedIssue.assigneeId == null}
-                    onClick={() =>
+              <IssueChildren
+                items={childIssues}
+                isLoading={props.isChildrenLoading}
+                childType={defaultChildType(selectedIssue.type)}
+                canAdd={props.canEdit}
+                isAdding={props.isAddingChild}
+                onAdd={(title) => props.onAddChild(selectedIssue, title)}
+                onOpen={props.onOpenRelated}
+              />
+
+              <IssueLinks
+                issueId={selectedIssue.id}
+                links={props.links}
+                isLoading={props.isLinksLoading}
+                canEdit={props.canEdit}
+                searchIssues={props.searchIssues}
+                onAdd={props.onAddLink}
+                onRemove={props.onRemoveLink}
+                onOpen={(linked) =>
+                  props.onOpenRelated({ ...linked, boardId: selectedIssue.boardId })
+                }
+              />
+
+              <ClassificationFields
+                type={selectedIssue.type}
+                types={issueTypesUnder(selectedIssue.parent?.type ?? null)}
+                priority={selectedIssue.priority}
+                labels={selectedIssue.labels}
+                labelSuggestions={props.labelSuggestions}
+                onChange={(patch) => onPatchIssue({ id: selectedIssue.id, patch })}
+                disabled={!props.canEdit}
+              />
+
+              <IssueCustomFields
+                issueId={selectedIssue.id}
+                fields={props.customFields}
+                values={selectedIssue.customFields}
+                canEdit={props.canEdit}
+                onChange={(customFields) =>
+                  onPatchIssue({ id: selectedIssue.id, patch: { customFields } })
+                }
+                toPersonEntity={toPersonEntity}
+                searchPeople={searchPeople}
+              />
+
+              <IssueTimeTracking
+                issue={selectedIssue}
+                worklogs={props.worklogs}
+                isLoading={props.isWorklogsLoading}
+                currentUserId={props.currentUserId}
+                canEdit={props.canEdit}
+                canModerate={props.canModerate}
+                isLogging={props.isLoggingWork}
+                onChange={(patch) => onPatchIssue({ id: selectedIssue.id, patch })}
+                onLogWork={props.onLogWork}
+                onDeleteWorklog={props.onDeleteWorklog}
+              />
+
+              <div className="grid gap-4">
+                <div className="w-full">
+                  <div className="mb-1.5 flex items-center justify-between">
+                    <div className="text-sm text-white/80">Assignee</div>
+
+                    <button
+                      type="button"
+                      disabled={selectedIssue.assigneeId == null || !props.canEdit}
+                      onClick={() =>
+                        onPatchIssue({
+                          id: selectedIssue.id,
+                          patch: { assigneeId: null },
+                        })
+                      }
+                      className={[
+                        "min-w-[56px] rounded-lg px-2 py-1 text-xs",
+                        selectedIssue.assigneeId == null || !props.canEdit
+                          ? "cursor-not-allowed text-white/30"
+                          : "text-white/60 hover:bg-white/10 hover:text-white",
+                      ].join(" ")}
+                    >
+                      Clear
+                    </button>
+                  </div>
+
+                  <EntityPicker<PersonEntity>
+                    hideClearButton
+                    label=""
+                    placeholder="Search people…"
+                    value={
+                      selectedIssue.assigneeId == null
+                        ? null
+                        : toPersonEntity(selectedIssue.assigneeId)
+                    }
+                    onChange={(p) =>
                       onPatchIssue({
                         id: selectedIssue.id,
-                        patch: { assigneeId: null },
+                        patch: { assigneeId: p ? String(p.id) : null },
                       })
                     }
-                    className={[
-                      "min-w-[56px] rounded-lg px-2 py-1 text-xs",
-                      selectedIssue.assigneeId == null
-                        ? "cursor-not-allowed text-white/30"
-                        : "text-white/60 hover:bg-white/10 hover:text-white",
-                    ].join(" ")}
-                  >
-                    Clear
-                  </button>
+                    disabled={!props.canEdit}
+                    search={searchPeople}
+                    minChars={2}
+                    debounceMs={250}
+                  />
                 </div>
 
-                <EntityPicker<PersonEntity>
-                  hideClearButton
-                  label=""
-                  placeholder="Search people…"
-                  value={
-                    selectedIssue.assigneeId == null
-                      ? null
-                      : toPersonEntity(selectedIssue.assigneeId)
-                  }
-                  onChange={(p) =>
-                    onPatchIssue({
-                      id: selectedIssue.id,
-                      patch: { assigneeId: p ? String(p.id) : null },
-                    })
-                  }
-                  search={searchPeople}
-                  minChars={2}
-                  debounceMs={250}
-                />
-              </div>
-
-              <div className="w-full">
-                <div className="mb-1.5 flex items-center justify-between">
-                  <div className="text-sm text-white/80">Watchers</div>
+                <div className="w-full">
+                  <div className="mb-1.5 flex items-center justify-between">
+                    <div className="text-sm text-white/80">Due date</div>
 
-                  <button
-                    type="button"
-                    disabled={(selectedIssue.watcherIds?.length ?? 0) === 0}
-                    onClick={() =>
+                    <button
+                      type="button"
+                      disabled={selectedIssue.dueDate == null || !props.canEdit}
+                      onClick={() =>
+                        onPatchIssue({
+                          id: selectedIssue.id,
+                          patch: { dueDate: null },
+                        })
+                      }
+                      className={[
+                        "min-w-[56px] rounded-lg px-2 py-1 text-xs",
+                        selectedIssue.dueDate == null || !props.canEdit
+                          ? "cursor-not-allowed text-white/30"
+                          : "text-white/60 hover:bg-white/10 hover:text-white",
+                      ].join(" ")}
+                    >
+                      Clear
+                    </button>
+                  </div>
+
+                  <input
+                    type="date"
+                    aria-label="Due date"
+                    value={dueDay(selectedIssue) ?? ""}
+                    disabled={!props.canEdit}
+                    onChange={(e) =>
                       onPatchIssue({
                         id: selectedIssue.id,
-                        patch: { watcherIds: [] },
+                        patch: { dueDate: e.target.value || null },
                       })
                     }
-                    className={[
-                      "min-w-[56px] rounded-lg px-2 py-1 text-xs",
-                      (selectedIssue.watcherIds?.length ?? 0) === 0
-                        ? "cursor-not-allowed text-white/30"
-                        : "text-white/60 hover:bg-white/10 hover:text-white",
-                    ].join(" ")}
-                  >
-                    Clear
-                  </button>
+                    className={SELECT_CLASS}
+                  />
                 </div>
 
-                <EntityMultiPicker<PersonEntity>
-                  hideClearButton
-                  label=""
-                  placeholder="Search people…"
-                  value={(selectedIssue.watcherIds ?? []).map(toPersonEntity)}
-                  onChange={(next) =>
-                    onPatchIssue({
-                      id: selectedIssue.id,
-                      patch: { watcherIds: next.map((x) => String(x.id)) },
-                    })
-                  }
-                  search={searchPeople}
-                  minChars={2}
-                  debounceMs={250}
-                  maxSelected={10}
-                  virtualize
-                />
-              </div>
-            </div>
+                <div className="w-full">
+                  <div className="mb-1.5 flex items-center justify-between">
+                    <div className="text-sm text-white/80">Watchers</div>
 
-            <div className="w-full">
-              <div className="mb-1.5 text-sm text-white/80">Move</div>
-
-              {props.view === "sprint" ? (
-                <button
-                  type="button"
-                  disabled={selectedIssue.sprintId == null}
-                  onClick={() => onMoveIssue(selectedIssue.id, null)}
-                  className={[
-                    "rounded-xl border border-white/15 px-3 py-2 text-sm",
-                    selectedIssue.sprintId == null
-                      ? "cursor-not-allowed bg-white/5 text-white/40"
-                      : "bg-white/10 text-white hover:bg-white/15",
-                  ].join(" ")}
-                >
-                  Move to Backlog
-                </button>
-              ) : props.activeSprint ? (
-                <button
-                  type="button"
-                  disabled={selectedIssue.sprintId === props.activeSprint.id}
-                  onClick={() => onMoveIssue(selectedIssue.id, props.activeSprint!.id)}
-                  className={[
-                    "rounded-xl border border-white/15 px-3 py-2 text-sm",
-                    selectedIssue.sprintId === props.activeSprint.id
-                      ? "cursor-not-allowed bg-white/5 text-white/40"
-                      : "bg-white/10 text-white hover:bg-white/15",
-                  ].join(" ")}
-                >
-                  Move to {props.activeSprint.name}
-                </button>
-              ) : (
-                <div className="rounded-xl border border-white/10 bg-black/20 p-3 text-xs text-white/60">
-                  No active sprint yet. Create one to move issues into sprint.
+                    <button
+                      type="button"
+                      disabled={(selectedIssue.watcherIds?.length ?? 0) === 0 || !props.canEdit}
+                      onClick={() =>
+                        onPatchIssue({
+                          id: selectedIssue.id,
+                          patch: { watcherIds: [] },
+                        })
+                      }
+                      className={[
+                        "min-w-[56px] rounded-lg px-2 py-1 text-xs",
+                        (selectedIssue.watcherIds?.length ?? 0) === 0 || !props.canEdit
+                          ? "cursor-not-allowed text-white/30"
+                          : "text-white/60 hover:bg-white/10 hover:text-white",
+                      ].join(" ")}
+                    >
+                      Clear
+                    </button>
+                  </div>
+
+                  <EntityMultiPicker<PersonEntity>
+                    hideClearButton
+                    label=""
+                    placeholder="Search people…"
+                    value={(selectedIssue.watcherIds ?? []).map(toPersonEntity)}
+                    onChange={(next) =>
+                      onPatchIssue({
+                        id: selectedIssue.id,
+                        patch: { watcherIds: next.map((x) => String(x.id)) },
+                      })
+                    }
+                    disabled={!props.canEdit}
+                    search={searchPeople}
+                    minChars={2}
+                    debounceMs={250}
+                    maxSelected={10}
+                    virtualize
+                  />
                 </div>
-              )}
+              </div>
+
+              {props.canEdit ? (
+                <div className="w-full">
+                  <div className="mb-1.5 text-sm text-white/80">Move</div>
 
-              {/* Optional: keep "Move to specific sprint" list, but only in sprint view or only show active */}
-              {props.view === "sprint" ? (
-                <div className="mt-2 grid gap-2">
-                  {props.sprints.map((sp) => (
+                  {props.view === "sprint" ? (
+                    <button
+                      type="button"
+                      disabled={selectedIssue.sprintId == null}
+                      onClick={() => onMoveIssue(selectedIssue.id, null)}
+                      className={[
+                        "rounded-xl border border-white/15 px-3 py-2 text-sm",
+                        selectedIssue.sprintId == null
+                          ? "cursor-not-allowed bg-white/5 text-white/40"
+                          : "bg-white/10 text-white hover:bg-white/15",
+                      ].join(" ")}
+                    >
+                      Move to Backlog
+                    </button>
+                  ) : props.activeSprint ? (
                     <button
-                      key={sp.id}
                       type="button"
-                      disabled={selectedIssue.sprintId === sp.id}
-                      onClick={() => onMoveIssue(selectedIssue.id, sp.id)}
+                      disabled={selectedIssue.sprintId === props.activeSprint.id}
+                      onClick={() => onMoveIssue(selectedIssue.id, props.activeSprint!.id)}
                       className={[
-                        "flex items-center justify-between rounded-xl border border-white/15 px-3 py-2 text-sm",
-                        selectedIssue.sprintId === sp.id
+                        "rounded-xl border border-white/15 px-3 py-2 text-sm",
+                        selectedIssue.sprintId === props.activeSprint.id
                           ? "cursor-not-allowed bg-white/5 text-white/40"
                           : "bg-white/10 text-white hover:bg-white/15",
                       ].join(" ")}
                     >
-                      <span className="truncate">{sp.name}</span>
-                      {sp.isActive ? <span className="text-xs text-white/60">active</span> : null}
+                      Move to {props.activeSprint.name}
                     </button>
-                  ))}
+                  ) : (
+                    <div className="rounded-xl border border-white/10 bg-black/20 p-3 text-xs text-white/60">
+                      No active sprint yet. Start one to move issues into sprint.
+                    </div>
+                  )}
+
+                  {/* Optional: keep "Move to specific sprint" list, but only in sprint view or only show active */}
+                  {props.view === "sprint" ? (
+                    <div className="mt-2 grid gap-2">
+                      {props.sprints
+                        .filter((sp) => sp.state !== "closed")
+                        .map((sp) => (
+                          <button
+                            key={sp.id}
+                            type="button"
+                            disabled={selectedIssue.sprintId === sp.id}
+                            onClick={() => onMoveIssue(selectedIssue.id, sp.id)}
+                            className={[
+                              "flex items-center justify-between rounded-xl border border-white/15 px-3 py-2 text-sm",
+                              selectedIssue.sprintId === sp.id
+                                ? "cursor-not-allowed bg-white/5 text-white/40"
+                                : "bg-white/10 text-white hover:bg-white/15",
+                            ].join(" ")}
+                          >
+                            <span className="truncate">{sp.name}</span>
+                            {sp.state === "active" ? (
+                              <span className="text-xs text-white/60">active</span>
+                            ) : null}
+                          </button>
+                        ))}
+                    </div>
+                  ) : null}
                 </div>
               ) : null}
-            </div>
 
-            <div className="mt-2 flex justify-end">
-              <button
-                type="button"
-                onClick={onClose}
-                className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
-              >
-                Close
-              </button>
+              <div className="mt-2 flex items-center gap-2">
+                {props.canEdit ? (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => props.onArchiveIssue(selectedIssue.id)}
+                      className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
+                    >
+                      Archive
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => props.onDeleteIssue(selectedIssue.id)}
+                      className="rounded-xl border border-red-500/20 bg-red-500/10 px-3 py-2 text-sm text-red-200 hover:bg-red-500/20"
+                    >
+                      Delete
+                    </button>
+                  </>
+                ) : null}
+                <span className="flex-1" />
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
+                >
+                  Close
+                </button>
+              </div>
             </div>
-          </div>
+          )}
         </>
       ) : (
         <div className="text-white/70">Select an issue or create a new one.</div>
@@ -0,0 +1,233 @@
+import React, { useState } from "react";
+import { formatDuration, parseDuration } from "@jira-lab/shared";
+import type { Issue, Worklog } from "../../domain/types";
+import { localDay } from "../../domain/dueDates";
+
+type EstimatePatch = Partial<Pick<Issue, "storyPoints" | "originalEstimate" | "remainingEstimate">>;
+
+const INPUT_CLASS =
+  "w-full rounded-xl border bg-black/30 px-3 py-2 text-sm text-white outline-none placeholder:text-white/40 focus:border-white/25";
+
+function parsePoints(text: string): number | null | undefined {
+  if (!text.trim()) return null;
+  const value = Number(text);
+  return Number.isFinite(value) && value >= 0 && value <= 999 && Number.isInteger(value * 2)
+    ? value
+    : undefined;
+}
+
+/**
+ * Text field that commits on blur or Enter. `parse` returns `undefined` for
+ * input it can't read; the field is then marked invalid and nothing is saved.
+ * Remount it (via `key`) when the saved value changes.
+ */
+function CommitField(props: {
+  label: string;
+  value: number | null;
+  format: (value: number) => string;
+  parse: (text: string) => number | null | undefined;
+  placeholder: string;
+  disabled: boolean;
+  onCommit: (value: number | null) => void;
+}) {
+  const { label, value, format, parse, placeholder, disabled, onCommit } = props;
+  const [text, setText] = useState(value == null ? "" : format(value));
+  const parsed = parse(text);
+  const invalid = parsed === undefined;
+
+  const commit = () => {
+    if (invalid || parsed === value) return;
+    onCommit(parsed);
+  };
+
+  return (
+    <label className="block">
+      <div className="mb-1 text-sm text-white/70">{label}</div>
+      <input
+        value={text}
+        disabled={disabled}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            commit();
+          }
+        }}
+        placeholder={placeholder}
+        aria-invalid={invalid}
+        className={[INPUT_CLASS, invalid ? "border-red-500/50" : "border-white/15"].join(" ")}
+      />
+    </label>
+  );
+}
+
+export const IssueTimeTracking = React.memo(function IssueTimeTracking(props: {
+  issue: Issue;
+  worklogs: Worklog[];
+  isLoading?: boolean;
+  currentUserId: string | null;
+  canEdit: boolean;
+  canModerate: boolean;
+  isLogging?: boolean;
+  onChange: (patch: EstimatePatch) => void;
+  onLogWork: (args: { minutes: number; date: string; note: string }) => void;
+  onDeleteWorklog: (id: string) => void;
+}) {
+  const {
+    issue,
+    worklogs,
+    isLoading = false,
+    currentUserId,
+    canEdit,
+    canModerate,
+    isLogging = false,
+    onChange,
+    onLogWork,
+    onDeleteWorklog,
+  } = props;
+
+  const [spent, setSpent] = useState("");
+  // Local calendar day, so late-evening work is not logged against tomorrow.
+  const [date, setDate] = useState(() => localDay());
+  const [note, setNote] = useState("");
+
+  const logged = worklogs.reduce((sum, w) => sum + w.minutes, 0);
+  const remaining = issue.remainingEstimate ?? 0;
+  const total = logged + remaining;
+  const minutes = parseDuration(spent);
+
+  const submit = () => {
+    if (!minutes) return;
+    onLogWork({ minutes, date, note: note.trim() });
+    setSpent("");
+    setNote("");
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid grid-cols-3 gap-3">
+        <CommitField
+          key={`points:${issue.id}:${issue.storyPoints}`}
+          label="Story points"
+          value={issue.storyPoints}
+          format={String}
+          parse={parsePoints}
+          placeholder="—"
+          disabled={!canEdit}
+          onCommit={(storyPoints) => onChange({ storyPoints })}
+        />
+        <CommitField
+          key={`original:${issue.id}:${issue.originalEstimate}`}
+          label="Estimate"
+          value={issue.originalEstimate}
+          format={formatDuration}
+          parse={(text) => (text.trim() ? (parseDuration(text) ?? undefined) : null)}
+          placeholder="e.g. 2d 4h"
+          disabled={!canEdit}
+          onCommit={(originalEstimate) => onChange({ originalEstimate })}
+        />
+        <CommitField
+          key={`remaining:${issue.id}:${issue.remainingEstimate}`}
+          label="Remaining"
+          value={issue.remainingEstimate}
+          format={formatDuration}
+          parse={(text) => (text.trim() ? (parseDuration(text) ?? undefined) : null)}
+          placeholder="e.g. 3h"
+          disabled={!canEdit}
+          onCommit={(remainingEstimate) => onChange({ remainingEstimate })}
+        />
+      </div>
+
+      <div>
+        <div className="mb-1.5 flex items-center justify-between text-sm">
+          <span className="text-white/80">Time tracking</span>
+          <span className="text-xs text-white/50">
+            {formatDuration(logged)} logged
+            {issue.remainingEstimate != null ? ` · ${formatDuration(remaining)} remaining` : ""}
+          </span>
+        </div>
+        <div className="h-1.5 overflow-hidden rounded-full bg-white/10">
+          <div
+            className="h-full rounded-full bg-sky-400/70"
+            style={{ width: `${total > 0 ? Math.round((logged / total) * 100) : 0}%` }}
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-sm text-white/50">Loading worklogs…</div>
+      ) : worklogs.length > 0 ? (
+        <div className="grid gap-1">
+          {worklogs.map((w) => (
+            <div
+              key={w.id}
+              className="flex items-center gap-2 rounded-lg border border-white/10 bg-black/20 px-2 py-1.5"
+            >
+              <span className="w-16 shrink-0 text-sm text-white">{formatDuration(w.minutes)}</span>
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-xs text-white/70">
+                  {w.user.name} ·{" "}
+                  {new Date(w.date).toLocaleDateString(undefined, { timeZone: "UTC" })}
+                </div>
+                {w.note ? <div className="truncate text-xs text-white/50">{w.note}</div> : null}
+              </div>
+              {canEdit && (w.user.id === currentUserId || canModerate) ? (
+                <button
+                  type="button"
+                  onClick={() => onDeleteWorklog(w.id)}
+                  className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white"
+                >
+                  Delete
+                </button>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {canEdit ? (
+        <div className="grid gap-2">
+          <div className="grid grid-cols-[1fr_auto] gap-2">
+            <input
+              value={spent}
+              onChange={(e) => setSpent(e.target.value)}
+              placeholder="Time spent, e.g. 1h 30m"
+              aria-label="Time spent"
+              aria-invalid={spent.trim() !== "" && !minutes}
+              className={[
+                INPUT_CLASS,
+                spent.trim() !== "" && !minutes ? "border-red-500/50" : "border-white/15",
+              ].join(" ")}
+            />
+            <input
+              type="date"
+              value={date}
+              max={localDay()}
+              onChange={(e) => setDate(e.target.value)}
+              aria-label="Date"
+              className={[INPUT_CLASS, "border-white/15"].join(" ")}
+            />
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What did you work on? (optional)"
+              aria-label="Worklog note"
+              className={[INPUT_CLASS, "border-white/15"].join(" ")}
+            />
+            <button
+              type="button"
+              disabled={!minutes || !date || isLogging}
+              onClick={submit}
+              className="shrink-0 rounded-xl border border-white/15 bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              {isLogging ? "Logging…" : "Log work"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+});
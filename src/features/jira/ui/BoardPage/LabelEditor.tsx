@@ -0,0 +1,80 @@
+import React, { useId, useState } from "react";
+import { LabelSchema } from "@jira-lab/shared";
+
+export const LabelEditor = React.memo(function LabelEditor(props: {
+  labels: string[];
+  suggestions: string[];
+  onChange: (labels: string[]) => void;
+  disabled?: boolean;
+}) {
+  const { labels, suggestions, onChange, disabled = false } = props;
+  const listId = useId();
+  const [input, setInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const add = () => {
+    if (!input.trim()) return;
+    const parsed = LabelSchema.safeParse(input);
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    if (!labels.includes(parsed.data)) onChange([...labels, parsed.data]);
+    setInput("");
+    setError(null);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-1.5 rounded-xl border border-white/15 bg-black/30 px-2 py-1.5 focus-within:border-white/25">
+        {labels.map((label) => (
+          <span
+            key={label}
+            className="inline-flex items-center gap-1 rounded-lg bg-white/10 px-2 py-0.5 text-xs text-white/80"
+          >
+            {label}
+            <button
+              type="button"
+              onClick={() => onChange(labels.filter((l) => l !== label))}
+              disabled={disabled}
+              aria-label={`Remove label ${label}`}
+              className="text-white/50 hover:text-white"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+
+        <input
+          value={input}
+          list={listId}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault();
+              add();
+            } else if (e.key === "Backspace" && !input && labels.length > 0) {
+              onChange(labels.slice(0, -1));
+            }
+          }}
+          onBlur={add}
+          disabled={disabled}
+          placeholder={labels.length ? "" : "Add label…"}
+          aria-label="Add label"
+          className="min-w-[6rem] flex-1 bg-transparent py-0.5 text-sm text-white outline-none placeholder:text-white/40"
+        />
+        <datalist id={listId}>
+          {suggestions
+            .filter((s) => !labels.includes(s))
+            .map((s) => (
+              <option key={s} value={s} />
+            ))}
+        </datalist>
+      </div>
+      {error ? <div className="mt-1 text-xs text-red-300">{error}</div> : null}
+    </div>
+  );
+});
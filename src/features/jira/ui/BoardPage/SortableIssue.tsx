@@ -12,7 +12,7 @@ export const SortableIssue = React.memo(function SortableIssue(props: {
 
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: issue.id,
-    data: { status: issue.status },
+    data: { statusId: issue.statusId },
   });
 
   const style = useMemo<React.CSSProperties>(
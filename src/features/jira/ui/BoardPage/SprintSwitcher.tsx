@@ -0,0 +1,45 @@
+import React, { useMemo } from "react";
+import { SPRINT_STATE_LABELS } from "../../domain/sprints";
+import type { Sprint, SprintState } from "../../domain/types";
+
+const BACKLOG = "";
+
+const STATES: SprintState[] = ["active", "planned", "closed"];
+
+// Picks the backlog or any sprint of the board, closed ones included.
+export const SprintSwitcher = React.memo(function SprintSwitcher(props: {
+  sprints: Sprint[];
+  sprintId: string | null;
+  onSelect: (sprintId: string | null) => void;
+}) {
+  const { sprints, sprintId, onSelect } = props;
+
+  const groups = useMemo(
+    () =>
+      STATES.map((state) => ({
+        state,
+        sprints: sprints.filter((sp) => sp.state === state),
+      })).filter((g) => g.sprints.length > 0),
+    [sprints]
+  );
+
+  return (
+    <select
+      aria-label="Sprint"
+      value={sprintId ?? BACKLOG}
+      onChange={(e) => onSelect(e.target.value === BACKLOG ? null : e.target.value)}
+      className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 outline-none hover:bg-white/10 focus:border-white/30"
+    >
+      <option value={BACKLOG}>Backlog</option>
+      {groups.map((g) => (
+        <optgroup key={g.state} label={SPRINT_STATE_LABELS[g.state]}>
+          {g.sprints.map((sp) => (
+            <option key={sp.id} value={sp.id}>
+              {sp.name}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+});
@@ -0,0 +1,19 @@
+import React from "react";
+import { formatDuration } from "@jira-lab/shared";
+import type { SprintSummary } from "../../domain/types";
+
+export const SprintTotals = React.memo(function SprintTotals(props: { summary: SprintSummary }) {
+  const { points, unestimatedCount, remainingEstimate, timeSpent } = props.summary;
+  const parts = [
+    `${points.done} of ${points.total} pts done`,
+    unestimatedCount > 0 ? `${unestimatedCount} unestimated` : null,
+    remainingEstimate > 0 ? `${formatDuration(remainingEstimate)} remaining` : null,
+    timeSpent > 0 ? `${formatDuration(timeSpent)} logged` : null,
+  ].filter(Boolean);
+
+  return (
+    <span aria-label="Sprint totals" className="text-xs text-white/50">
+      {parts.join(" · ")}
+    </span>
+  );
+});
@@ -0,0 +1,114 @@
+import React, { useState } from "react";
+import { StartSprintInputSchema } from "@jira-lab/shared";
+import type { Sprint } from "../../domain/types";
+import { defaultSprintDates } from "../../domain/sprints";
+import { localDay } from "../../domain/dueDates";
+
+const INPUT_CLASS =
+  "rounded-xl border border-white/10 bg-black/30 px-3 py-1.5 text-sm text-white outline-none placeholder:text-white/40 focus:border-white/30";
+
+export type StartSprintArgs = { goal: string | null; startDate: string; endDate: string };
+
+export const StartSprintDialog = React.memo(function StartSprintDialog(props: {
+  sprint: Sprint;
+  // Shown when another sprint is still running, since only one may be active.
+  activeSprintName: string | null;
+  isStarting: boolean;
+  onStart: (args: StartSprintArgs) => void;
+  onCancel: () => void;
+}) {
+  const { sprint, activeSprintName, isStarting, onStart, onCancel } = props;
+  const suggested = defaultSprintDates(localDay());
+  const [goal, setGoal] = useState(sprint.goal ?? "");
+  const [startDate, setStartDate] = useState(sprint.startDate?.slice(0, 10) ?? suggested.startDate);
+  const [endDate, setEndDate] = useState(sprint.endDate?.slice(0, 10) ?? suggested.endDate);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = StartSprintInputSchema.safeParse({ goal, startDate, endDate });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    setError(null);
+    onStart({ ...parsed.data, goal: parsed.data.goal ?? null });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 p-4"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onCancel();
+      }}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Start ${sprint.name}`}
+        onSubmit={submit}
+        className="w-full max-w-md rounded-2xl border border-white/10 bg-neutral-900 p-5"
+      >
+        <div className="text-lg font-semibold text-white">Start {sprint.name}</div>
+
+        {activeSprintName ? (
+          <div className="mt-3 rounded-xl border border-amber-500/20 bg-amber-500/10 p-3 text-xs text-amber-200">
+            Complete {activeSprintName} before starting another sprint.
+          </div>
+        ) : null}
+
+        <label className="mt-4 grid gap-1 text-xs text-white/60">
+          Sprint goal
+          <textarea
+            value={goal}
+            onChange={(e) => setGoal(e.target.value)}
+            rows={3}
+            placeholder="What should this sprint achieve?"
+            className={[INPUT_CLASS, "resize-none"].join(" ")}
+            autoFocus
+          />
+        </label>
+
+        <div className="mt-3 grid grid-cols-2 gap-3">
+          <label className="grid gap-1 text-xs text-white/60">
+            Start date
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="grid gap-1 text-xs text-white/60">
+            End date
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+
+        {error ? <div className="mt-3 text-xs text-red-300">{error}</div> : null}
+
+        <div className="mt-5 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isStarting || !!activeSprintName}
+            className="rounded-xl border border-white/15 bg-white/10 px-3 py-2 text-sm text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            {isStarting ? "Starting…" : "Start sprint"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+});
@@ -0,0 +1,117 @@
+import React, { useState } from "react";
+import type { Issue } from "../../domain/types";
+
+type Tab = "archived" | "trash";
+
+function RemovedIssueRow(props: {
+  issue: Issue;
+  tab: Tab;
+  canEdit: boolean;
+  canPurge: boolean;
+  onReturn: (id: string) => void;
+  onPurge: (id: string) => void;
+}) {
+  const { issue, tab, canEdit, canPurge, onReturn, onPurge } = props;
+  const [confirming, setConfirming] = useState(false);
+
+  const removedAt = tab === "archived" ? issue.archivedAt : issue.deletedAt;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-xl border border-white/10 bg-black/20 px-3 py-2">
+      <span className="text-xs text-white/50">{issue.key}</span>
+      <span className="min-w-0 flex-1 truncate text-sm text-white">{issue.title}</span>
+      <span className="text-xs text-white/50">
+        {tab === "archived" ? "Archived" : "Deleted"}{" "}
+        {removedAt ? new Date(removedAt).toLocaleDateString() : null}
+        {issue.purgeAt ? ` · gone for good ${new Date(issue.purgeAt).toLocaleDateString()}` : null}
+      </span>
+
+      {canEdit ? (
+        <button
+          type="button"
+          onClick={() => onReturn(issue.id)}
+          className="rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white"
+        >
+          {tab === "archived" ? "Unarchive" : "Restore"}
+        </button>
+      ) : null}
+
+      {tab === "trash" && canPurge ? (
+        <button
+          type="button"
+          onClick={() => (confirming ? onPurge(issue.id) : setConfirming(true))}
+          onBlur={() => setConfirming(false)}
+          className={[
+            "rounded-lg px-2 py-1 text-xs hover:bg-white/10",
+            confirming ? "text-red-200" : "text-white/60 hover:text-white",
+          ].join(" ")}
+        >
+          {confirming ? "Delete forever?" : "Delete forever"}
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+/** A board's archived issues and trash, where they can be brought back. */
+export const TrashPanel = React.memo(function TrashPanel(props: {
+  archived: Issue[];
+  trash: Issue[];
+  isLoading?: boolean;
+  canEdit: boolean;
+  canPurge: boolean;
+  onUnarchive: (id: string) => void;
+  onRestore: (id: string) => void;
+  onPurge: (id: string) => void;
+}) {
+  const { archived, trash, isLoading = false, canEdit, canPurge } = props;
+  const [tab, setTab] = useState<Tab>("trash");
+
+  const issues = tab === "archived" ? archived : trash;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+      <div role="tablist" className="flex gap-1 border-b border-white/10">
+        {(["trash", "archived"] as const).map((t) => (
+          <button
+            key={t}
+            type="button"
+            role="tab"
+            aria-selected={tab === t}
+            onClick={() => setTab(t)}
+            className={[
+              "-mb-px border-b-2 px-3 py-2 text-sm capitalize",
+              tab === t
+                ? "border-white text-white"
+                : "border-transparent text-white/50 hover:text-white/80",
+            ].join(" ")}
+          >
+            {t} ({t === "archived" ? archived.length : trash.length})
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-3 grid gap-2">
+        {isLoading ? (
+          <div className="text-sm text-white/40">Loading…</div>
+        ) : issues.length === 0 ? (
+          <div className="rounded-xl border border-dashed border-white/10 p-3 text-sm text-white/40">
+            {tab === "archived" ? "No archived issues" : "The trash is empty"}
+          </div>
+        ) : (
+          issues.map((issue) => (
+            <RemovedIssueRow
+              key={issue.id}
+              issue={issue}
+              tab={tab}
+              canEdit={canEdit}
+              canPurge={canPurge}
+              onReturn={tab === "archived" ? props.onUnarchive : props.onRestore}
+              onPurge={props.onPurge}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
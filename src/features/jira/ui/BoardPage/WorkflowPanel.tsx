@@ -0,0 +1,383 @@
+import React, { useState } from "react";
+import { CreateStatusInputSchema, UpdateStatusInputSchema } from "@jira-lab/shared";
+import type { Status, StatusCategory, StatusValidator } from "../../domain/types";
+import {
+  STATUS_CATEGORIES,
+  STATUS_CATEGORY_LABELS,
+  STATUS_VALIDATORS,
+  STATUS_VALIDATOR_LABELS,
+} from "../../domain/issueFields";
+
+const INPUT_CLASS =
+  "rounded-xl border border-white/10 bg-black/30 px-3 py-1.5 text-sm text-white outline-none placeholder:text-white/40 focus:border-white/30";
+
+type StatusUpdate = {
+  id: string;
+  name?: string;
+  category?: StatusCategory;
+  transitionsTo?: string[];
+  validators?: StatusValidator[];
+  wipMin?: number | null;
+  wipMax?: number | null;
+  wipHard?: boolean;
+};
+
+const ICON_BUTTON_CLASS =
+  "rounded-lg px-2 py-1 text-xs text-white/60 hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+function StatusRow(props: {
+  status: Status;
+  // Where its issues can go when it is deleted.
+  others: Status[];
+  isFirst: boolean;
+  isLast: boolean;
+  canManage: boolean;
+  onUpdate: (args: StatusUpdate) => void;
+  onMove: (id: string, by: -1 | 1) => void;
+  onDelete: (args: { id: string; moveTo?: string }) => void;
+}) {
+  const { status, others, isFirst, isLast, canManage, onUpdate, onMove, onDelete } = props;
+  const [name, setName] = useState(status.name);
+  const [confirming, setConfirming] = useState(false);
+  const [moveTo, setMoveTo] = useState(others[0]?.id ?? "");
+  const [wipMin, setWipMin] = useState(status.wipMin?.toString() ?? "");
+  const [wipMax, setWipMax] = useState(status.wipMax?.toString() ?? "");
+  const [wipError, setWipError] = useState<string | null>(null);
+
+  const commitName = () => {
+    const next = name.trim();
+    if (next && next !== status.name) onUpdate({ id: status.id, name: next });
+    else setName(status.name);
+  };
+
+  // No transitions means issues may go anywhere; ticking one limits them to the ticked ones.
+  const toggleTarget = (id: string) => {
+    const next = status.transitionsTo.includes(id)
+      ? status.transitionsTo.filter((t) => t !== id)
+      : [...status.transitionsTo, id];
+    onUpdate({ id: status.id, transitionsTo: next });
+  };
+
+  // An empty box clears the limit.
+  const commitWip = () => {
+    const min = wipMin.trim() === "" ? null : Number(wipMin);
+    const max = wipMax.trim() === "" ? null : Number(wipMax);
+    if (min === status.wipMin && max === status.wipMax) return;
+    const parsed = UpdateStatusInputSchema.safeParse({ wipMin: min, wipMax: max });
+    if (!parsed.success) {
+      setWipError(parsed.error.issues[0].message);
+      return;
+    }
+    setWipError(null);
+    onUpdate({ id: status.id, wipMin: min, wipMax: max });
+  };
+
+  const toggleValidator = (v: StatusValidator) => {
+    const next = status.validators.includes(v)
+      ? status.validators.filter((x) => x !== v)
+      : [...status.validators, v];
+    onUpdate({ id: status.id, validators: next });
+  };
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/20 px-3 py-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {canManage ? (
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitName}
+            aria-label={`Name of ${status.name}`}
+            className={[INPUT_CLASS, "w-40"].join(" ")}
+          />
+        ) : (
+          <span className="text-sm text-white">{status.name}</span>
+        )}
+
+        {canManage ? (
+          <select
+            value={status.category}
+            onChange={(e) =>
+              onUpdate({ id: status.id, category: e.target.value as StatusCategory })
+            }
+            aria-label={`Category of ${status.name}`}
+            className={INPUT_CLASS}
+          >
+            {STATUS_CATEGORIES.map((c) => (
+              <option key={c} value={c}>
+                {STATUS_CATEGORY_LABELS[c]}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className="text-xs text-white/50">{STATUS_CATEGORY_LABELS[status.category]}</span>
+        )}
+
+        <span className="flex-1" />
+
+        {canManage ? (
+          <>
+            <button
+              type="button"
+              disabled={isFirst}
+              onClick={() => onMove(status.id, -1)}
+              aria-label={`Move ${status.name} left`}
+              className={ICON_BUTTON_CLASS}
+            >
+              ←
+            </button>
+            <button
+              type="button"
+              disabled={isLast}
+              onClick={() => onMove(status.id, 1)}
+              aria-label={`Move ${status.name} right`}
+              className={ICON_BUTTON_CLASS}
+            >
+              →
+            </button>
+
+            {confirming ? (
+              <>
+                <select
+                  value={moveTo}
+                  onChange={(e) => setMoveTo(e.target.value)}
+                  aria-label={`Move issues in ${status.name} to`}
+                  className={INPUT_CLASS}
+                >
+                  {others.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      Move issues to {s.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => onDelete({ id: status.id, moveTo: moveTo || undefined })}
+                  className="rounded-lg px-2 py-1 text-xs text-red-200 hover:bg-white/10"
+                >
+                  Delete
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setConfirming(false)}
+                  className={ICON_BUTTON_CLASS}
+                >
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                disabled={others.length === 0}
+                onClick={() => setConfirming(true)}
+                className={ICON_BUTTON_CLASS}
+              >
+                Delete
+              </button>
+            )}
+          </>
+        ) : null}
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-white/60">
+        <span className="text-white/40">Can move to</span>
+        {canManage ? (
+          others.map((s) => (
+            <label key={s.id} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={status.transitionsTo.includes(s.id)}
+                onChange={() => toggleTarget(s.id)}
+                aria-label={`${status.name} can move to ${s.name}`}
+              />
+              {s.name}
+            </label>
+          ))
+        ) : (
+          <span>
+            {status.transitionsTo.length === 0
+              ? "Any status"
+              : others
+                  .filter((s) => status.transitionsTo.includes(s.id))
+                  .map((s) => s.name)
+                  .join(", ")}
+          </span>
+        )}
+        {canManage && status.transitionsTo.length === 0 ? (
+          <span className="text-white/40">(any status)</span>
+        ) : null}
+
+        <span className="ml-2 text-white/40">Requires</span>
+        {canManage ? (
+          STATUS_VALIDATORS.map((v) => (
+            <label key={v} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={status.validators.includes(v)}
+                onChange={() => toggleValidator(v)}
+                aria-label={`${status.name} requires ${STATUS_VALIDATOR_LABELS[v].toLowerCase()}`}
+              />
+              {STATUS_VALIDATOR_LABELS[v]}
+            </label>
+          ))
+        ) : (
+          <span>
+            {status.validators.length === 0
+              ? "Nothing"
+              : status.validators.map((v) => STATUS_VALIDATOR_LABELS[v]).join(", ")}
+          </span>
+        )}
+
+        <span className="ml-2 text-white/40">WIP limit</span>
+        {canManage ? (
+          <>
+            <input
+              type="number"
+              min={1}
+              value={wipMin}
+              onChange={(e) => setWipMin(e.target.value)}
+              onBlur={commitWip}
+              placeholder="Min"
+              aria-label={`Minimum WIP of ${status.name}`}
+              className={[INPUT_CLASS, "w-16 py-0.5 text-xs"].join(" ")}
+            />
+            <input
+              type="number"
+              min={1}
+              value={wipMax}
+              onChange={(e) => setWipMax(e.target.value)}
+              onBlur={commitWip}
+              placeholder="Max"
+              aria-label={`Maximum WIP of ${status.name}`}
+              className={[INPUT_CLASS, "w-16 py-0.5 text-xs"].join(" ")}
+            />
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={status.wipHard}
+                disabled={status.wipMax === null}
+                onChange={(e) => onUpdate({ id: status.id, wipHard: e.target.checked })}
+                aria-label={`Enforce the WIP limit of ${status.name}`}
+              />
+              Enforce max
+            </label>
+          </>
+        ) : (
+          <span>
+            {status.wipMin === null && status.wipMax === null
+              ? "None"
+              : [
+                  status.wipMin !== null ? `min ${status.wipMin}` : null,
+                  status.wipMax !== null ? `max ${status.wipMax}` : null,
+                ]
+                  .filter(Boolean)
+                  .join(", ") + (status.wipHard && status.wipMax !== null ? " (enforced)" : "")}
+          </span>
+        )}
+      </div>
+      {wipError ? <div className="mt-1 text-xs text-red-300">{wipError}</div> : null}
+    </div>
+  );
+}
+
+export const WorkflowPanel = React.memo(function WorkflowPanel(props: {
+  statuses: Status[];
+  canManage: boolean;
+  isCreating?: boolean;
+  onCreate: (args: { name: string; category: StatusCategory }) => void;
+  onUpdate: (args: StatusUpdate) => void;
+  onReorder: (ids: string[]) => void;
+  onDelete: (args: { id: string; moveTo?: string }) => void;
+}) {
+  const { canManage, isCreating = false, onCreate, onUpdate, onReorder, onDelete } = props;
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState<StatusCategory>("in_progress");
+  const [error, setError] = useState<string | null>(null);
+
+  const statuses = props.statuses.slice().sort((a, b) => a.order - b.order);
+
+  const move = (id: string, by: -1 | 1) => {
+    const ids = statuses.map((s) => s.id);
+    const from = ids.indexOf(id);
+    const to = from + by;
+    if (from < 0 || to < 0 || to >= ids.length) return;
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    onReorder(ids);
+  };
+
+  const submit = () => {
+    const parsed = CreateStatusInputSchema.safeParse({ name, category });
+    if (!parsed.success) {
+      setError(parsed.error.issues[0].message);
+      return;
+    }
+    onCreate(parsed.data);
+    setName("");
+    setError(null);
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+      <div className="text-sm font-semibold">Workflow</div>
+      <div className="mt-1 text-xs text-white/50">
+        Columns of the sprint board, left to right. The backlog keeps issues in the first to-do
+        status. Sprint issues only move where their status allows, and need what the target
+        requires.
+      </div>
+
+      <div className="mt-3 grid gap-2">
+        {statuses.map((status, idx) => (
+          <StatusRow
+            key={`${status.id}:${status.name}:${status.wipMin}:${status.wipMax}`}
+            status={status}
+            others={statuses.filter((s) => s.id !== status.id)}
+            isFirst={idx === 0}
+            isLast={idx === statuses.length - 1}
+            canManage={canManage}
+            onUpdate={onUpdate}
+            onMove={move}
+            onDelete={onDelete}
+          />
+        ))}
+      </div>
+
+      {canManage ? (
+        <div className="mt-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              placeholder="Status name"
+              aria-label="New status name"
+              className={[INPUT_CLASS, "w-40"].join(" ")}
+            />
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as StatusCategory)}
+              aria-label="New status category"
+              className={INPUT_CLASS}
+            >
+              {STATUS_CATEGORIES.map((c) => (
+                <option key={c} value={c}>
+                  {STATUS_CATEGORY_LABELS[c]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              disabled={isCreating || !name.trim()}
+              onClick={submit}
+              className="rounded-xl border border-white/15 bg-white/10 px-3 py-1.5 text-sm text-white hover:bg-white/15 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              {isCreating ? "Adding…" : "Add status"}
+            </button>
+          </div>
+          {error ? <div className="mt-2 text-xs text-red-300">{error}</div> : null}
+        </div>
+      ) : null}
+    </div>
+  );
+});
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { Notification } from "../../domain/types";
+
+export const NotificationsMenu = React.memo(function NotificationsMenu(props: {
+  notifications: Notification[];
+  onOpen: (notification: Notification) => void;
+  onMarkAllRead: () => void;
+}) {
+  const { notifications, onOpen, onMarkAllRead } = props;
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  const unread = notifications.filter((n) => !n.readAt).length;
+
+  useEffect(() => {
+    function onDocMouseDown(e: MouseEvent) {
+      if (!containerRef.current) return;
+      if (!containerRef.current.contains(e.target as Node)) setOpen(false);
+    }
+    document.addEventListener("mousedown", onDocMouseDown);
+    return () => document.removeEventListener("mousedown", onDocMouseDown);
+  }, []);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        aria-label={unread > 0 ? `Notifications (${unread} unread)` : "Notifications"}
+        className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-white/80 hover:bg-white/10 hover:text-white"
+      >
+        Inbox
+        {unread > 0 ? (
+          <span className="ml-2 rounded-full bg-white/20 px-1.5 text-xs text-white">{unread}</span>
+        ) : null}
+      </button>
+
+      {open ? (
+        <div className="absolute right-0 top-full z-30 mt-2 w-80 overflow-hidden rounded-xl border border-white/10 bg-neutral-950/95 backdrop-blur">
+          <div className="flex items-center justify-between border-b border-white/10 px-3 py-2">
+            <span className="text-xs text-white/70">Notifications</span>
+            <button
+              type="button"
+              disabled={unread === 0}
+              onClick={onMarkAllRead}
+              className="text-xs text-white/60 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Mark all read
+            </button>
+          </div>
+
+          <div className="max-h-80 overflow-auto">
+            {notifications.length === 0 ? (
+              <div className="px-3 py-4 text-sm text-white/40">Nothing here yet</div>
+            ) : (
+              notifications.map((n) => (
+                <button
+                  key={n.id}
+                  type="button"
+                  onClick={() => {
+                    setOpen(false);
+                    onOpen(n);
+                  }}
+                  className={[
+                    "block w-full border-b border-white/10 px-3 py-2 text-left hover:bg-white/10",
+                    n.readAt ? "text-white/50" : "text-white",
+                  ].join(" ")}
+                >
+                  <div className="text-sm">
+                    {n.kind === "due_soon" ? (
+                      <>
+                        <span className="font-medium">{n.issue.key}</span> is due soon
+                      </>
+                    ) : (
+                      <>
+                        <span className="font-medium">{n.actor?.name ?? "Someone"}</span> mentioned
+                        you
+                        {n.commentId ? " in a comment on " : " in "}
+                        <span className="font-medium">{n.issue.key}</span>
+                      </>
+                    )}
+                  </div>
+                  <div className="truncate text-xs text-white/50">{n.issue.title}</div>
+                  <time dateTime={n.createdAt} className="text-xs text-white/40">
+                    {new Date(n.createdAt).toLocaleString()}
+                  </time>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+});
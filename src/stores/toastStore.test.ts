@@ -138,5 +138,20 @@ describe("toastStore", () => {
       vi.advanceTimersByTime(1000);
       expect(useToastStore.getState().toasts).toHaveLength(0);
     });
+
+    it("accepts an action alongside the duration", () => {
+      const onClick = vi.fn();
+      toast("info", "Deleted", { duration: 6000, action: { label: "Undo", onClick } });
+
+      const [created] = useToastStore.getState().toasts;
+      expect(created.duration).toBe(6000);
+      expect(created.action).toEqual({ label: "Undo", onClick });
+    });
+
+    it("keeps the type's default duration when options leave it out", () => {
+      toast("success", "Saved", { action: { label: "View", onClick: () => {} } });
+
+      expect(useToastStore.getState().toasts[0].duration).toBe(3000);
+    });
   });
 });
@@ -2,11 +2,23 @@ import { create } from "zustand";
 
 export type ToastType = "success" | "error" | "info";
 
+/** A button shown in the toast, e.g. "Undo"; clicking it also dismisses the toast. */
+export type ToastAction = {
+  label: string;
+  onClick: () => void;
+};
+
 export type Toast = {
   id: string;
   type: ToastType;
   message: string;
   duration: number;
+  action?: ToastAction;
+};
+
+type ToastOptions = {
+  duration?: number;
+  action?: ToastAction;
 };
 
 type ToastState = {
@@ -44,10 +56,13 @@ const DEFAULTS: Record<ToastType, number> = {
   info: 4000,
 };
 
-export function toast(type: ToastType, message: string, duration?: number) {
+/** Shows a toast; the third argument is either a duration in ms or options. */
+export function toast(type: ToastType, message: string, options?: number | ToastOptions) {
+  const { duration, action } = typeof options === "number" ? { duration: options } : { ...options };
   return useToastStore.getState().addToast({
     type,
     message,
     duration: duration ?? DEFAULTS[type],
+    ...(action && { action }),
   });
 }